@@ -1,45 +1,26 @@
 import { NextResponse } from "next/server";
-import OpenAI from "openai";
 import { supabaseAdmin } from "@/src/lib/supabase/admin";
-
-// DALL-E 3 standard 1024x1024 image cost in USD
-const DALLE3_IMAGE_COST = 0.04;
+import { currentTeamMemberId } from "@/src/lib/supabase/server";
+import { AiConfigError, generateImage, logGeneration } from "@/src/lib/ai/client";
 
 export async function POST(req: Request) {
   try {
     const body = await req.json() as {
       prompt: string;
       post_text?: string;
-      generated_by: string;
     };
 
-    const { prompt, post_text, generated_by } = body;
+    const { prompt, post_text } = body;
 
-    const openaiKey = process.env.OPENAI_API_KEY;
-    if (!openaiKey) {
-      return NextResponse.json({
-        error: "OpenAI API key not configured. Please set OPENAI_API_KEY in your environment variables.",
-        setup_required: true,
-      }, { status: 503 });
-    }
+    const memberId = await currentTeamMemberId();
+    if (!memberId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
     const imagePrompt = prompt || (post_text
       ? `Create a professional real estate social media image for this post: ${post_text.slice(0, 200)}`
       : "Create a professional real estate social media image");
 
-    const client = new OpenAI({ apiKey: openaiKey });
-    const response = await client.images.generate({
-      model: "dall-e-3",
-      prompt: imagePrompt,
-      n: 1,
-      size: "1024x1024",
-      quality: "standard",
-    });
-
-    const imageUrl = response.data?.[0]?.url;
-    if (!imageUrl) {
-      return NextResponse.json({ error: "No image returned" }, { status: 500 });
-    }
+    const image = await generateImage({ prompt: imagePrompt });
+    const imageUrl = image.url;
 
     // Download and upload to Supabase Storage
     let storedUrl = imageUrl;
@@ -59,24 +40,18 @@ export async function POST(req: Request) {
       console.error("Storage upload failed, using direct URL:", storageErr);
     }
 
-    // Log to ai_generation_history
-    try {
-      const admin = supabaseAdmin();
-      await admin.from("ai_generation_history").insert({
-        prompt: imagePrompt,
-        response: storedUrl,
-        model_used: "dall-e-3",
-        content_type: "image",
-        tokens_used: null,
-        cost_estimate: DALLE3_IMAGE_COST,
-        generated_by,
-      });
-    } catch (logErr) {
-      console.error("Failed to log image generation:", logErr);
-    }
+    await logGeneration(image, {
+      prompt: imagePrompt,
+      response: storedUrl,
+      contentType: "image",
+      generatedBy: memberId,
+    });
 
     return NextResponse.json({ url: storedUrl, original_url: imageUrl });
   } catch (e: unknown) {
+    if (e instanceof AiConfigError) {
+      return NextResponse.json({ error: e.message, setup_required: true }, { status: 503 });
+    }
     const err = e as Error;
     console.error("generate-image error:", err);
     return NextResponse.json({ error: err.message ?? "Image generation failed" }, { status: 500 });
@@ -1,46 +1,37 @@
 import { NextResponse } from "next/server";
-import OpenAI from "openai";
-import Anthropic from "@anthropic-ai/sdk";
-import { supabaseAdmin } from "@/src/lib/supabase/admin";
-
-// Approximate cost per token in USD (blended estimate for logging purposes)
-const COST_PER_TOKEN = 0.000002;
-
-const MODEL_ROUTING: Record<string, string> = {
-  "daily-tips": "claude-sonnet",
-  "weekly-newsletter": "gpt-4o",
-  "mythbusters": "claude-sonnet",
-  "market-updates": "gpt-4o",
-  "testimonials": "claude-sonnet",
-  "holiday-seasonal": "gpt-4o",
-  "cta": "gpt-4o",
-};
-
-function resolveModel(contentType: string, modelOverride?: string): string {
-  if (modelOverride) return modelOverride;
-  return MODEL_ROUTING[contentType] ?? "gpt-4o";
-}
+import { supabaseServer, currentTeamMemberId } from "@/src/lib/supabase/server";
+import { AiConfigError, generateText, logGeneration } from "@/src/lib/ai/client";
+import { resolveTextModel } from "@/src/lib/ai/models";
+import type { ContentType } from "@/src/lib/types/social-media";
 
 export async function POST(req: Request) {
   try {
     const body = await req.json() as {
       prompt: string;
-      content_type?: string;
+      content_type_id?: string | null;
       brand_voice?: string;
       target_platforms?: string[];
       model_override?: string;
       system_prompt?: string;
-      generated_by: string;
     };
 
-    const { prompt, content_type = "custom", brand_voice, target_platforms, model_override, system_prompt, generated_by } = body;
+    const { prompt, content_type_id, brand_voice, target_platforms, model_override, system_prompt } = body;
 
     if (!prompt) {
       return NextResponse.json({ error: "prompt is required" }, { status: 400 });
     }
 
-    const model = resolveModel(content_type, model_override);
-    const isClaudeModel = model.startsWith("claude");
+    const memberId = await currentTeamMemberId();
+    if (!memberId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    // The content type's default_ai_model routes the call unless overridden.
+    let contentType: ContentType | null = null;
+    if (content_type_id) {
+      const db = await supabaseServer();
+      const { data } = await db.from("content_types").select("*").eq("id", content_type_id).maybeSingle();
+      contentType = (data as ContentType | null) ?? null;
+    }
+    const model = resolveTextModel(contentType, model_override);
 
     const sysPrompt = system_prompt ?? [
       "You are a professional real estate social media content creator.",
@@ -49,70 +40,26 @@ export async function POST(req: Request) {
       "Write engaging, platform-appropriate content. Be concise and impactful.",
     ].filter(Boolean).join(" ");
 
-    let generatedText = "";
-    let tokensUsed: number | null = null;
-    let modelUsed = model;
+    const generation = await generateText({ model, system: sysPrompt, prompt, maxTokens: 1024 });
 
-    if (isClaudeModel) {
-      const anthropicKey = process.env.ANTHROPIC_API_KEY;
-      if (!anthropicKey) {
-        return NextResponse.json({
-          error: "Anthropic API key not configured. Please set ANTHROPIC_API_KEY in your environment variables.",
-          setup_required: true,
-        }, { status: 503 });
-      }
-      const client = new Anthropic({ apiKey: anthropicKey });
-      const actualModel = model === "claude-sonnet" ? "claude-3-5-sonnet-20241022" : model;
-      modelUsed = actualModel;
-      const response = await client.messages.create({
-        model: actualModel,
-        max_tokens: 1024,
-        system: sysPrompt,
-        messages: [{ role: "user", content: prompt }],
-      });
-      generatedText = response.content[0].type === "text" ? response.content[0].text : "";
-      tokensUsed = response.usage.input_tokens + response.usage.output_tokens;
-    } else {
-      const openaiKey = process.env.OPENAI_API_KEY;
-      if (!openaiKey) {
-        return NextResponse.json({
-          error: "OpenAI API key not configured. Please set OPENAI_API_KEY in your environment variables.",
-          setup_required: true,
-        }, { status: 503 });
-      }
-      const client = new OpenAI({ apiKey: openaiKey });
-      const actualModel = model === "gpt-4o" ? "gpt-4o" : model;
-      modelUsed = actualModel;
-      const response = await client.chat.completions.create({
-        model: actualModel,
-        messages: [
-          { role: "system", content: sysPrompt },
-          { role: "user", content: prompt },
-        ],
-        max_tokens: 1024,
-      });
-      generatedText = response.choices[0]?.message?.content ?? "";
-      tokensUsed = response.usage?.total_tokens ?? null;
-    }
+    await logGeneration(generation, {
+      prompt,
+      response: generation.text,
+      contentType: contentType?.name ?? "custom",
+      generatedBy: memberId,
+    });
 
-    // Log to ai_generation_history
-    try {
-      const admin = supabaseAdmin();
-      await admin.from("ai_generation_history").insert({
-        prompt,
-        response: generatedText,
-        model_used: modelUsed,
-        content_type,
-        tokens_used: tokensUsed,
-        cost_estimate: tokensUsed ? tokensUsed * COST_PER_TOKEN : null,
-        generated_by,
-      });
-    } catch (logErr) {
-      console.error("Failed to log AI generation:", logErr);
-    }
-
-    return NextResponse.json({ text: generatedText, model: modelUsed, tokens_used: tokensUsed });
+    const { inputTokens, outputTokens } = generation.usage;
+    return NextResponse.json({
+      text: generation.text,
+      model: generation.model.id,
+      tokens_used: inputTokens + outputTokens,
+      cost_estimate: generation.costUsd,
+    });
   } catch (e: unknown) {
+    if (e instanceof AiConfigError) {
+      return NextResponse.json({ error: e.message, setup_required: true }, { status: 503 });
+    }
     const err = e as Error;
     console.error("generate-text error:", err);
     return NextResponse.json({ error: err.message ?? "Generation failed" }, { status: 500 });
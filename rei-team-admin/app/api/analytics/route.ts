@@ -0,0 +1,48 @@
+// /api/analytics — performance report for the Analytics page
+// GET ?days=<n> (default 30, max 365)
+// Aggregates daily analytics_snapshots (written by /api/cron/analytics) into
+// trends, top posts, per-content-type / per-brand-voice breakdowns and
+// follower growth.
+
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/src/lib/supabase/server";
+import { buildAnalyticsReport, type ReportSnapshot } from "@/src/lib/platforms/analytics-report";
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 365;
+/** Snapshots per request; PostgREST caps responses at 1000 rows and a year of posts is far more. */
+const PAGE_SIZE = 1000;
+
+export async function GET(req: NextRequest) {
+  try {
+    const db = await supabaseServer();
+    const days = Math.min(Math.max(Number(req.nextUrl.searchParams.get("days")) || DEFAULT_DAYS, 1), MAX_DAYS);
+
+    const to = new Date();
+    const from = new Date(to.getTime() - (days - 1) * 24 * 60 * 60 * 1000);
+    const dateFrom = from.toISOString().slice(0, 10);
+    const dateTo = to.toISOString().slice(0, 10);
+
+    const snapshots: ReportSnapshot[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await db
+        .from("analytics_snapshots")
+        .select(
+          "*, platform:social_platforms(platform_name), post:content_posts(title, body, content_type:content_types(id, name), brand_voice:brand_voices(id, name))"
+        )
+        .gte("snapshot_date", dateFrom)
+        .lte("snapshot_date", dateTo)
+        .order("snapshot_date", { ascending: true })
+        .order("id", { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+      if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+      const page = (data ?? []) as unknown as ReportSnapshot[];
+      snapshots.push(...page);
+      if (page.length < PAGE_SIZE) break;
+    }
+
+    return NextResponse.json(buildAnalyticsReport(snapshots, dateFrom, dateTo));
+  } catch (e) {
+    return NextResponse.json({ error: String(e) }, { status: 500 });
+  }
+}
@@ -1,27 +1,36 @@
 import { NextRequest, NextResponse } from "next/server";
-import OpenAI from "openai";
+import { currentTeamMemberId } from "@/src/lib/supabase/server";
+import { AiConfigError, generateText, logGeneration } from "@/src/lib/ai/client";
+import { DEFAULT_TEXT_MODEL } from "@/src/lib/ai/models";
 
 export async function POST(req: NextRequest) {
   try {
-    const { systemPrompt, name } = await req.json();
+    const { systemPrompt, name, model } = await req.json();
     if (!systemPrompt) return NextResponse.json({ error: "systemPrompt required" }, { status: 400 });
 
-    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        { role: "system", content: systemPrompt },
-        {
-          role: "user",
-          content: `Write a sample social media post for a real estate team using the "${name}" brand voice. Keep it under 150 words.`,
-        },
-      ],
-      max_tokens: 300,
+    const memberId = await currentTeamMemberId();
+    if (!memberId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const prompt = `Write a sample social media post for a real estate team using the "${name}" brand voice. Keep it under 150 words.`;
+    const generation = await generateText({
+      model: model || DEFAULT_TEXT_MODEL,
+      system: systemPrompt,
+      prompt,
+      maxTokens: 300,
+    });
+
+    await logGeneration(generation, {
+      prompt,
+      response: generation.text,
+      contentType: "brand_voice_test",
+      generatedBy: memberId,
     });
 
-    const result = completion.choices[0]?.message?.content ?? "";
-    return NextResponse.json({ result });
+    return NextResponse.json({ result: generation.text, model: generation.model.id });
   } catch (e) {
+    if (e instanceof AiConfigError) {
+      return NextResponse.json({ error: e.message, setup_required: true }, { status: 503 });
+    }
     return NextResponse.json({ error: String(e) }, { status: 500 });
   }
 }
@@ -1,8 +1,10 @@
-// /api/calendar — fetch calendar events (schedules joined with posts)
+// /api/calendar — fetch calendar events (schedules joined with posts; recurring
+// RRULE schedules expanded into one event per upcoming occurrence)
 // GET ?date_from=<ISO>&date_to=<ISO>&platforms=<csv>&statuses=<csv>&schedule_type=<type>&active=<bool>
 
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/src/lib/supabase/server";
+import { calendarRangeFilter, expandCalendarEvents } from "@/src/lib/supabase/scheduling-queries";
 import type { CalendarEvent, PostStatus, ScheduleType } from "@/src/lib/types/social-media";
 
 export async function GET(req: NextRequest) {
@@ -26,8 +28,9 @@ export async function GET(req: NextRequest) {
     if (active === "false") query = query.eq("is_active", false);
     else query = query.eq("is_active", true);
 
-    if (dateFrom) query = query.gte("scheduled_at", dateFrom);
-    if (dateTo) query = query.lte("scheduled_at", dateTo + "T23:59:59.999Z");
+    // One-time schedules by date; recurring ones are expanded into occurrences below
+    const rangeFilter = calendarRangeFilter(dateFrom, dateTo);
+    if (rangeFilter) query = query.or(rangeFilter);
     if (scheduleType) query = query.eq("schedule_type", scheduleType);
 
     const { data, error } = await query;
@@ -63,10 +66,11 @@ export async function GET(req: NextRequest) {
         timezone: row.timezone,
         is_active: row.is_active,
         next_run_at: row.next_run_at,
+        occurrence_at: row.scheduled_at,
       });
     }
 
-    return NextResponse.json(events);
+    return NextResponse.json(expandCalendarEvents(events, dateFrom, dateTo));
   } catch (e) {
     return NextResponse.json({ error: String(e) }, { status: 500 });
   }
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/src/lib/supabase/server";
+import { supabaseAdmin } from "@/src/lib/supabase/admin";
+import { findCrmDuplicates } from "@/src/lib/crm/merge-server";
+
+async function requireUser() {
+  const db = await supabaseServer();
+  const {
+    data: { user },
+  } = await db.auth.getUser();
+  return user;
+}
+
+/**
+ * GET ?type=company|contact
+ * Groups of likely duplicate companies or contacts (normalized name, domain,
+ * phone, email, similar names) with the records the merge screen compares.
+ */
+export async function GET(req: Request) {
+  try {
+    const user = await requireUser();
+    if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const type = new URL(req.url).searchParams.get("type");
+    const groups = await findCrmDuplicates(supabaseAdmin(), type === "contact" ? "contact" : "company");
+    return NextResponse.json({ groups });
+  } catch (e: unknown) {
+    return NextResponse.json({ error: (e as Error)?.message ?? "Duplicate scan failed" }, { status: 500 });
+  }
+}
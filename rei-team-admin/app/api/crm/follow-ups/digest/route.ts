@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import nodemailer from "nodemailer";
+import { supabaseAdmin } from "@/src/lib/supabase/admin";
+import { buildFollowUpDigests, followUpDigestEmail, recordFollowUpDigest } from "@/src/lib/crm/follow-ups-server";
+
+function requireEnv(name: string): string {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing ${name}`);
+  return v;
+}
+
+/**
+ * Daily follow-up digest (src/lib/crm/follow-ups-server.ts): one email per
+ * owner listing their overdue follow-ups and those due today.  Runs once a
+ * morning; an owner already sent today's digest is skipped on re-runs.
+ */
+export async function GET(req: Request) {
+  try {
+    // Vercel Cron sets `x-vercel-cron: 1`.
+    // Optional: also allow ?secret= if you want an extra shared secret.
+    const isVercelCron = req.headers.get("x-vercel-cron") === "1";
+    const secret = process.env.CRON_SECRET;
+    const got = new URL(req.url).searchParams.get("secret");
+    if (!isVercelCron && secret && got !== secret) {
+      return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+    }
+
+    const admin = supabaseAdmin();
+    const digests = await buildFollowUpDigests(admin);
+    if (!digests.length) return NextResponse.json({ ok: true, sent: 0 });
+
+    const transporter = nodemailer.createTransport({
+      host: requireEnv("SMTP_HOST"),
+      port: Number(requireEnv("SMTP_PORT")),
+      secure: Number(requireEnv("SMTP_PORT")) === 465,
+      auth: { user: requireEnv("SMTP_USER"), pass: requireEnv("SMTP_PASS") },
+    });
+    const fromEmail = requireEnv("SMTP_FROM");
+    const baseUrl = process.env.APP_BASE_URL || new URL(req.url).origin;
+
+    let sent = 0;
+    const errors: string[] = [];
+
+    for (const digest of digests) {
+      try {
+        const mail = followUpDigestEmail(digest, baseUrl);
+        await transporter.sendMail({ from: fromEmail, to: digest.email, ...mail });
+        await recordFollowUpDigest(admin, digest);
+        sent += 1;
+      } catch (e: unknown) {
+        errors.push(`${digest.email}: ${(e as Error)?.message ?? "send failed"}`);
+      }
+    }
+
+    return NextResponse.json({ ok: true, sent, errors });
+  } catch (e: unknown) {
+    return NextResponse.json({ error: (e as Error)?.message ?? "cron failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/src/lib/supabase/server";
+import { supabaseAdmin } from "@/src/lib/supabase/admin";
+import { CRM_IMPORT_MAX_ROWS, cleanStr, type NormalizedImportRow } from "@/src/lib/crm/import";
+import { processCrmImport } from "@/src/lib/crm/import-server";
+
+async function requireUser() {
+  const db = await supabaseServer();
+  const {
+    data: { user },
+  } = await db.auth.getUser();
+  return user;
+}
+
+/**
+ * POST { rows, mode?: "upsert" | "skip", createMissingStages?, dryRun? }
+ * Imports (or dry-runs) normalized rows from the sales funnel import wizard
+ * and returns the per-row report.  The wizard dry-runs the whole file at once
+ * and imports it in batches (CRM_IMPORT_BATCH_ROWS).
+ */
+export async function POST(req: Request) {
+  try {
+    const user = await requireUser();
+    if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const body = (await req.json().catch(() => ({}))) as {
+      rows?: NormalizedImportRow[];
+      mode?: string;
+      createMissingStages?: boolean;
+      dryRun?: boolean;
+    };
+    const rows = Array.isArray(body.rows) ? body.rows.filter((r) => r && cleanStr(r.company)) : [];
+    if (!rows.length) return NextResponse.json({ error: "rows are required" }, { status: 400 });
+    if (rows.length > CRM_IMPORT_MAX_ROWS) {
+      return NextResponse.json({ error: `At most ${CRM_IMPORT_MAX_ROWS} rows per request` }, { status: 400 });
+    }
+
+    const report = await processCrmImport(supabaseAdmin(), rows, {
+      mode: body.mode === "skip" ? "skip" : "upsert",
+      createMissingStages: !!body.createMissingStages,
+      dryRun: !!body.dryRun,
+    });
+    return NextResponse.json(report);
+  } catch (e: unknown) {
+    return NextResponse.json({ error: (e as Error)?.message ?? "Import failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/src/lib/supabase/server";
+import { supabaseAdmin } from "@/src/lib/supabase/admin";
+import { CrmMergeError, mergeCrmRecords } from "@/src/lib/crm/merge-server";
+
+async function requireUser() {
+  const db = await supabaseServer();
+  const {
+    data: { user },
+  } = await db.auth.getUser();
+  return user;
+}
+
+/**
+ * POST { type: "company" | "contact", survivorId, mergedIds, values }
+ * Merges the records into the survivor with the chosen field values;
+ * each merge is recorded in crm_merge_log.
+ */
+export async function POST(req: Request) {
+  try {
+    const user = await requireUser();
+    if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const body = (await req.json().catch(() => ({}))) as {
+      type?: string;
+      survivorId?: string;
+      mergedIds?: unknown;
+      values?: Record<string, unknown>;
+    };
+    const result = await mergeCrmRecords(supabaseAdmin(), {
+      entity: body.type === "contact" ? "contact" : "company",
+      survivorId: String(body.survivorId ?? ""),
+      mergedIds: Array.isArray(body.mergedIds) ? body.mergedIds.map(String) : [],
+      values: body.values && typeof body.values === "object" ? body.values : {},
+      userId: user.id,
+    });
+    return NextResponse.json(result);
+  } catch (e: unknown) {
+    if (e instanceof CrmMergeError) return NextResponse.json({ error: e.message }, { status: 400 });
+    return NextResponse.json({ error: (e as Error)?.message ?? "Merge failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * /api/cron/analytics — Social analytics ingestion
+ *
+ * Invoked by Vercel Cron (GET) once a day.  Pulls the current metrics of
+ * every post published within the lookback window (successful
+ * `cron_post_log` attempts with a `platform_post_id`) through its platform
+ * adapter and upserts today's `analytics_snapshots` row for it.  See
+ * src/lib/platforms/analytics-ingest.ts.
+ *
+ * Configuration:
+ *   - ANALYTICS_LOOKBACK_DAYS   how far back to keep refreshing posts (default 90)
+ *   - ANALYTICS_FAKE_METRICS    `true` to use canned metrics (fake-metrics.ts)
+ *                               instead of calling the platforms; also
+ *                               includes mock-published posts
+ *
+ * Security: same as /api/cron — `x-vercel-cron: 1` or `?secret=CRON_SECRET`.
+ */
+
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/src/lib/supabase/admin';
+import { ingestAnalytics } from '@/src/lib/platforms/analytics-ingest';
+import { fakeMetricsSource } from '@/src/lib/platforms/fake-metrics';
+
+const DEFAULT_LOOKBACK_DAYS = 90;
+
+export async function GET(req: Request) {
+  // ── Auth check ──────────────────────────────────────────────────────────────
+  const isVercelCron = req.headers.get('x-vercel-cron') === '1';
+  const secret = process.env.CRON_SECRET;
+  const provided = new URL(req.url).searchParams.get('secret');
+  if (!isVercelCron && secret && provided !== secret) {
+    return NextResponse.json({ error: 'unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const now = new Date();
+    const lookbackDays = Number(process.env.ANALYTICS_LOOKBACK_DAYS) || DEFAULT_LOOKBACK_DAYS;
+    const useFake = process.env.ANALYTICS_FAKE_METRICS === 'true';
+
+    const summary = await ingestAnalytics(supabaseAdmin(), {
+      snapshotDate: now.toISOString().slice(0, 10),
+      since: new Date(now.getTime() - lookbackDays * 24 * 60 * 60 * 1000).toISOString(),
+      source: useFake ? fakeMetricsSource(now) : undefined,
+      includeMockPosts: useFake,
+    });
+
+    return NextResponse.json({ ok: true, fake: useFake, ...summary });
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { error: (err as Error)?.message ?? 'analytics ingestion failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * /api/cron/inbox — Engagement inbox sync
+ *
+ * Invoked by Vercel Cron (GET) every 15 minutes.  Reads new comments, DMs,
+ * mentions and reviews from every connected platform whose adapter supports
+ * the inbox and inserts them into `engagement_inbox`, deduped on
+ * `platform_item_id`.  See src/lib/platforms/inbox-sync.ts.
+ *
+ * New items are then sentiment-classified and negative reviews escalated to
+ * managers, followed by a batch of items earlier runs left unclassified
+ * (inbox-triage.ts).  Skipped when OPENAI_API_KEY is not set.
+ *
+ * Security: same as /api/cron — `x-vercel-cron: 1` or `?secret=CRON_SECRET`.
+ */
+
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/src/lib/supabase/admin';
+import { syncEngagementInbox } from '@/src/lib/platforms/inbox-sync';
+import { triageAfterSync } from '@/src/lib/platforms/inbox-triage';
+
+export async function GET(req: Request) {
+  // ── Auth check ──────────────────────────────────────────────────────────────
+  const isVercelCron = req.headers.get('x-vercel-cron') === '1';
+  const secret = process.env.CRON_SECRET;
+  const provided = new URL(req.url).searchParams.get('secret');
+  if (!isVercelCron && secret && provided !== secret) {
+    return NextResponse.json({ error: 'unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const admin = supabaseAdmin();
+    const { newItemIds, ...summary } = await syncEngagementInbox(admin);
+    const triage = process.env.OPENAI_API_KEY
+      ? await triageAfterSync(admin, newItemIds)
+      : null;
+
+    return NextResponse.json({ ok: summary.failed === 0, ...summary, triage });
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { error: (err as Error)?.message ?? 'inbox sync failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * /api/cron/refresh-tokens — Social platform token refresher
+ *
+ * Invoked by Vercel Cron (GET) every hour.  For each connected
+ * `social_platforms` row whose `token_expires_at` falls inside the refresh
+ * window it:
+ *
+ *   1. Redeems the stored refresh token through the platform adapter's OAuth
+ *      token endpoint and saves the new access/refresh tokens (encrypted, see
+ *      token-crypto.ts) and expiry.
+ *   2. If the refresh fails (revoked grant, missing refresh token, provider
+ *      error) → sets `is_connected = false`, records the error in
+ *      `metadata.refresh_error`, and inserts a `platform_disconnected`
+ *      notification for every active admin so someone reconnects it.
+ *
+ * Rows without an expiry (e.g. Meta Page tokens) are never touched.
+ *
+ * Security: same as /api/cron — `x-vercel-cron: 1` or `?secret=CRON_SECRET`.
+ */
+
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/src/lib/supabase/admin';
+import { getPlatformAdapter } from '@/src/lib/platforms/registry';
+import { refreshAccessToken } from '@/src/lib/platforms/oauth';
+import { decryptToken, encryptPlatformTokens } from '@/src/lib/platforms/token-crypto';
+import type { SocialPlatform } from '@/src/lib/types/social-media';
+
+// Refresh anything expiring within this window.  Wider than the cron interval
+// so short-lived tokens (Google: 1 hour) are always renewed before use.
+const REFRESH_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+interface RefreshRunSummary {
+  checked: number;
+  refreshed: number;
+  failed: number;
+  errors: string[];
+}
+
+export async function GET(req: Request) {
+  // ── Auth check ──────────────────────────────────────────────────────────────
+  const isVercelCron = req.headers.get('x-vercel-cron') === '1';
+  const secret = process.env.CRON_SECRET;
+  const provided = new URL(req.url).searchParams.get('secret');
+  if (!isVercelCron && secret && provided !== secret) {
+    return NextResponse.json({ error: 'unauthorized' }, { status: 401 });
+  }
+
+  const summary: RefreshRunSummary = { checked: 0, refreshed: 0, failed: 0, errors: [] };
+
+  try {
+    const admin = supabaseAdmin();
+    const cutoff = new Date(Date.now() + REFRESH_WINDOW_MS).toISOString();
+
+    const { data, error } = await admin
+      .from('social_platforms')
+      .select('*')
+      .eq('is_connected', true)
+      .not('token_expires_at', 'is', null)
+      .lte('token_expires_at', cutoff);
+    if (error) throw error;
+
+    for (const row of (data ?? []) as SocialPlatform[]) {
+      summary.checked++;
+      const now = new Date().toISOString();
+
+      try {
+        const adapter = getPlatformAdapter(row.platform_name);
+        if (!adapter) throw new Error(`Unknown platform: ${row.platform_name}`);
+        if (!row.refresh_token) throw new Error('No refresh token stored — reconnect required');
+
+        const tokens = await refreshAccessToken(adapter, decryptToken(row.refresh_token));
+
+        const { error: updateError } = await admin
+          .from('social_platforms')
+          .update({
+            ...encryptPlatformTokens(tokens),
+            token_expires_at: tokens.expiresAt,
+            metadata: { ...(row.metadata ?? {}), refresh_error: null, refreshed_at: now },
+            updated_at: now,
+          })
+          .eq('id', row.id);
+        if (updateError) throw updateError;
+
+        summary.refreshed++;
+      } catch (err) {
+        const message = (err as Error)?.message ?? String(err);
+        summary.failed++;
+        summary.errors.push(`${row.platform_name}: ${message}`);
+
+        await admin
+          .from('social_platforms')
+          .update({
+            is_connected: false,
+            metadata: { ...(row.metadata ?? {}), refresh_error: message, refresh_failed_at: now },
+            updated_at: now,
+          })
+          .eq('id', row.id);
+
+        await notifyDisconnected(admin, row.id);
+      }
+    }
+
+    return NextResponse.json({ ok: true, ...summary });
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { error: (err as Error)?.message ?? 'token refresh failed', ...summary },
+      { status: 500 }
+    );
+  }
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ──────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Insert a `platform_disconnected` notification for every active admin —
+ * only admins can reconnect a platform.
+ */
+async function notifyDisconnected(
+  admin: ReturnType<typeof supabaseAdmin>,
+  platformId: string
+): Promise<void> {
+  const { data: recipients } = await admin
+    .from('team_members')
+    .select('id')
+    .eq('role', 'admin')
+    .eq('is_active', true);
+
+  if (!recipients?.length) return;
+
+  const notifications = recipients.map((r: { id: string }) => ({
+    recipient_id: r.id,
+    actor_id: null,
+    platform_id: platformId,
+    type: 'platform_disconnected' as const,
+    is_read: false,
+  }));
+
+  await admin.from('notifications').insert(notifications);
+}
@@ -4,13 +4,28 @@
  * Invoked by Vercel Cron (GET) every 5 minutes.  For each content schedule
  * whose `next_run_at` is in the past it:
  *
- *   1. Posts the content to every target platform via `postToPlatform`.
- *   2. Writes a row to `cron_post_log` for each platform attempt.
- *   3. If all platforms succeed → sets the post status to `published` and
- *      advances (or deactivates) the schedule.
- *   4. If any platform fails → leaves the post status unchanged, logs the
- *      error, and inserts a `post_failed` notification for every admin/manager
- *      team member so they can investigate.
+ *   1. Reads the run's per-platform delivery state from `cron_post_log`
+ *      (a run is one occurrence, keyed by the `next_run_at` that triggered
+ *      it).  Platforms already delivered are never posted again; failed
+ *      platforms wait out an exponential backoff recorded on their last
+ *      attempt (see `computeRetryAt`).
+ *   2. Posts the content to every platform that is due via `postToPlatform`,
+ *      using the credentials stored on the connected `social_platforms` row,
+ *      and writes a `cron_post_log` row per attempt.  A platform that is
+ *      still processing the media (Instagram video containers) is logged as
+ *      `processing` with its pending id and picked up again on the next tick,
+ *      without using up an attempt.
+ *   3. Once no platform is left to retry:
+ *        - all delivered          → post `published`, schedule advanced
+ *        - some delivered         → post `partially_published`, schedule
+ *                                   advanced, admins/managers notified
+ *        - none delivered         → post unchanged, schedule deactivated,
+ *                                   admins/managers notified
+ *      Otherwise only `last_run_at` is bumped and the run stays due.
+ *
+ * Schedules are handled one after another; once `RUN_BUDGET_MS` has passed
+ * the remaining ones are left due for the next tick so the function finishes
+ * (and writes its log rows) well inside `maxDuration`.
  *
  * Security:
  *   - Requests from Vercel Cron carry the `x-vercel-cron: 1` header.
@@ -23,12 +38,22 @@ import { supabaseAdmin } from '@/src/lib/supabase/admin';
 import {
   queryDueScheduledPosts,
   computeNextRunAt,
+  computeRetryAt,
+  computeRunOutcome,
+  deliveryStateFor,
+  loadDeliveryState,
 } from '@/src/lib/supabase/query-scheduled-posts';
 import {
   postToPlatform,
   type PlatformPostPayload,
   type PlatformPostResult,
 } from '@/src/lib/platforms/post-to-platform';
+import { loadConnections } from '@/src/lib/platforms/connections';
+
+export const maxDuration = 60;
+
+/** Stop starting new schedules after this long; the rest run on the next tick. */
+const RUN_BUDGET_MS = 30_000;
 
 // ──────────────────────────────────────────────────────────────────────────────
 // Types
@@ -37,8 +62,13 @@ import {
 interface CronRunSummary {
   processed: number;
   published: number;
+  partiallyPublished: number;
   failed: number;
+  /** Runs with platforms still waiting for a retry. */
+  retrying: number;
   skipped: number;
+  /** Due schedules left for the next tick because the run budget ran out. */
+  deferred: number;
   errors: string[];
 }
 
@@ -58,11 +88,16 @@ export async function GET(req: Request) {
   const summary: CronRunSummary = {
     processed: 0,
     published: 0,
+    partiallyPublished: 0,
     failed: 0,
+    retrying: 0,
     skipped: 0,
+    deferred: 0,
     errors: [],
   };
 
+  const startedAt = Date.now();
+
   try {
     const admin = supabaseAdmin();
     const now = new Date().toISOString();
@@ -74,8 +109,16 @@ export async function GET(req: Request) {
       return NextResponse.json({ ok: true, ...summary });
     }
 
+    // Load connected accounts once per run; each publisher reads its
+    // credentials from the matching row.
+    const connections = await loadConnections(admin);
+
     // ── 2. Process each due schedule ────────────────────────────────────────
-    for (const row of duePosts) {
+    for (const [i, row] of duePosts.entries()) {
+      if (Date.now() - startedAt > RUN_BUDGET_MS) {
+        summary.deferred = duePosts.length - i;
+        break;
+      }
       summary.processed++;
       const post = row.post;
       const platforms = post.target_platforms ?? [];
@@ -85,55 +128,85 @@ export async function GET(req: Request) {
         continue;
       }
 
+      // The occurrence being delivered; retries keep next_run_at unchanged,
+      // so every attempt of this run shares the same key.
+      const runAt = row.next_run_at ?? now;
+      const deliveries = await loadDeliveryState(row.id, runAt, platforms, now);
+      const due = deliveries.filter((d) => d.state === 'due');
+
       const payload: PlatformPostPayload = {
         postId: post.id,
         body: post.body,
         title: post.title,
         mediaUrls: post.media_urls,
+        mediaType: post.media_type,
         platformSpecificContent: post.platform_specific_content,
       };
 
-      // ── 3. Post to each platform ──────────────────────────────────────────
+      // ── 3. Post to each due platform ──────────────────────────────────────
       const results: PlatformPostResult[] = await Promise.all(
-        platforms.map((platform) =>
-          postToPlatform(platform, {
-            ...payload,
-            body: post.platform_specific_content?.[platform] ?? post.body,
-          })
+        due.map((d) =>
+          postToPlatform(
+            d.platform,
+            {
+              ...payload,
+              body: post.platform_specific_content?.[d.platform] ?? post.body,
+              pendingId: d.pendingId,
+            },
+            connections.get(d.platform) ?? null
+          )
         )
       );
 
-      // ── 4. Write to cron_post_log ─────────────────────────────────────────
-      const logRows = results.map((r) => ({
-        schedule_id: row.id,
-        post_id: post.id,
-        platform: r.platform,
-        status: r.success ? 'success' : 'failed',
-        platform_post_id: r.platformPostId,
-        error_message: r.error,
-        attempted_at: now,
-      }));
+      // ── 4. Write to cron_post_log + fold results into the run state ──────
+      if (results.length > 0) {
+        const logRows = results.map((r, idx) => {
+          const delivery = due[idx];
+          const attempt = delivery.attempts + 1;
+          const pendingId = r.pendingId ?? null;
+          // Still processing: due again next tick, and the attempt stays open.
+          const nextRetryAt = r.success ? null : pendingId ? now : computeRetryAt(attempt, now);
+          delivery.state = deliveryStateFor(r.success, nextRetryAt, now);
+          delivery.attempts = pendingId ? attempt - 1 : attempt;
+          delivery.platformPostId = r.platformPostId;
+          delivery.pendingId = pendingId;
+          delivery.lastError = r.error;
+          delivery.nextRetryAt = nextRetryAt;
+          return {
+            schedule_id: row.id,
+            post_id: post.id,
+            platform: r.platform,
+            status: r.success ? 'success' : pendingId ? 'processing' : 'failed',
+            platform_post_id: pendingId ?? r.platformPostId,
+            error_message: r.error,
+            attempted_at: now,
+            run_at: runAt,
+            attempt,
+            next_retry_at: nextRetryAt,
+          };
+        });
 
-      await admin.from('cron_post_log').insert(logRows);
+        await admin.from('cron_post_log').insert(logRows);
+      }
 
-      const allSucceeded = results.every((r) => r.success);
-      const anyFailed = results.some((r) => !r.success);
+      const failedThisRun = results.filter((r) => !r.success && !r.pendingId);
+      if (failedThisRun.length > 0) {
+        summary.errors.push(
+          `Post ${post.id}: ${failedThisRun.map((r) => `${r.platform}: ${r.error}`).join('; ')}`
+        );
+      }
 
       // ── 5. Update post status + schedule ─────────────────────────────────
-      if (allSucceeded) {
-        // Mark the post as published
+      const outcome = computeRunOutcome(deliveries);
+
+      if (outcome === 'published' || outcome === 'partially_published') {
         await admin
           .from('content_posts')
-          .update({ status: 'published', updated_at: now })
+          .update({ status: outcome, updated_at: now })
           .eq('id', post.id);
 
         // Advance or deactivate the schedule
-        const nextRunAt = computeNextRunAt(
-          row.schedule_type,
-          row.recurrence_rule,
-          row.recurrence_end_date,
-          now
-        );
+        const nextRunAt = computeNextRunAt(row, now);
 
         await admin
           .from('content_schedules')
@@ -145,41 +218,31 @@ export async function GET(req: Request) {
           })
           .eq('id', row.id);
 
-        summary.published++;
-      } else if (anyFailed) {
-        // Keep the schedule active for retry; bump last_run_at so it isn't
-        // re-triggered until the next cron window.
-        const failedPlatforms = results
-          .filter((r) => !r.success)
-          .map((r) => `${r.platform}: ${r.error}`)
-          .join('; ');
+        if (outcome === 'published') {
+          summary.published++;
+        } else {
+          summary.partiallyPublished++;
+          // ── 6. Notify admins/managers of the platforms that gave up ─────
+          await notifyFailure(admin, post.id);
+        }
+      } else if (outcome === 'failed') {
+        // Every platform exhausted its retries — stop firing this schedule.
+        await admin
+          .from('content_schedules')
+          .update({ last_run_at: now, updated_at: now, is_active: false })
+          .eq('id', row.id);
 
         summary.failed++;
-        summary.errors.push(`Post ${post.id}: ${failedPlatforms}`);
-
-        // Count recent failures to enforce a retry limit.
-        // After MAX_RETRIES consecutive failures the schedule is deactivated so
-        // it doesn't keep firing every 5 minutes indefinitely.
-        const MAX_RETRIES = 5;
-        const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
-        const { count: failCount } = await admin
-          .from('cron_post_log')
-          .select('id', { count: 'exact', head: true })
-          .eq('schedule_id', row.id)
-          .eq('status', 'failed')
-          .gte('attempted_at', oneDayAgo);
-
-        const exhausted = (failCount ?? 0) >= MAX_RETRIES;
-
-        // Update last_run_at to now so it won't be picked up again this cycle;
-        // deactivate if the retry limit has been reached.
+        await notifyFailure(admin, post.id);
+      } else {
+        // Platforms still waiting on backoff or platform processing; the
+        // schedule stays due and is re-examined on the next tick.
         await admin
           .from('content_schedules')
-          .update({ last_run_at: now, updated_at: now, is_active: !exhausted })
+          .update({ last_run_at: now, updated_at: now })
           .eq('id', row.id);
 
-        // ── 6. Notify admins/managers of failure ───────────────────────────
-        await notifyFailure(admin, post.id);
+        summary.retrying++;
       }
     }
 
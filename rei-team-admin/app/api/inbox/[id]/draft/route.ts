@@ -0,0 +1,79 @@
+// POST /api/inbox/<id>/draft  { brand_voice_id? }
+// Drafts a reply to an inbox item in a brand voice (the default voice unless
+// one is given).  The draft is returned for the team member to edit and send
+// through /api/inbox/<id>/reply, and logged to ai_generation_history.
+
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/src/lib/supabase/server";
+import { AiConfigError, logGeneration } from "@/src/lib/ai/client";
+import { buildReplyPrompt, draftReply } from "@/src/lib/platforms/inbox-ai";
+import { getPlatformAdapter } from "@/src/lib/platforms/registry";
+import type { BrandVoice, EngagementInboxItem } from "@/src/lib/types/social-media";
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = (await req.json().catch(() => ({}))) as { brand_voice_id?: string };
+
+    const db = await supabaseServer();
+    const {
+      data: { user },
+    } = await db.auth.getUser();
+    if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const { data: member } = await db
+      .from("team_members")
+      .select("id")
+      .eq("user_id", user.id)
+      .eq("is_active", true)
+      .single();
+    if (!member) return NextResponse.json({ error: "Only team members can draft replies" }, { status: 403 });
+
+    const { data: item, error: itemError } = await db
+      .from("engagement_inbox")
+      .select("*, platform:social_platforms(platform_name), post:content_posts(body)")
+      .eq("id", id)
+      .single();
+    if (itemError || !item) return NextResponse.json({ error: "Inbox item not found" }, { status: 404 });
+
+    const inboxItem = item as EngagementInboxItem & {
+      platform: { platform_name: string } | null;
+      post: { body: string } | null;
+    };
+
+    let voiceQuery = db.from("brand_voices").select("*");
+    voiceQuery = body.brand_voice_id ? voiceQuery.eq("id", body.brand_voice_id) : voiceQuery.eq("is_default", true);
+    const { data: voice } = await voiceQuery.limit(1).maybeSingle();
+
+    const platformName = inboxItem.platform?.platform_name ?? "";
+    const input = {
+      item: inboxItem,
+      voice: (voice as BrandVoice | null) ?? null,
+      platformName: getPlatformAdapter(platformName)?.config.name ?? platformName,
+      postBody: inboxItem.post?.body ?? null,
+    };
+    const draft = await draftReply(input);
+
+    await logGeneration(draft, {
+      prompt: buildReplyPrompt(input),
+      response: draft.value,
+      contentType: "inbox_reply",
+      generatedBy: member.id,
+      postId: inboxItem.parent_post_id,
+    });
+
+    return NextResponse.json({
+      text: draft.value,
+      model: draft.model.id,
+      brand_voice: voice ? { id: voice.id, name: voice.name } : null,
+    });
+  } catch (e) {
+    if (e instanceof AiConfigError) {
+      return NextResponse.json({ error: e.message, setup_required: true }, { status: 503 });
+    }
+    return NextResponse.json({ error: String(e) }, { status: 500 });
+  }
+}
@@ -0,0 +1,101 @@
+// POST /api/inbox/<id>/reply  { reply_content, is_ai_generated?, ai_model_used? }
+// Posts a reply to an inbox item on its platform through the platform adapter,
+// then records it in engagement_replies (with the platform's reply ID) and
+// marks the item read and replied.  Any active team member may reply; the
+// platform tokens are only read server-side.
+
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/src/lib/supabase/server";
+import { supabaseAdmin } from "@/src/lib/supabase/admin";
+import { loadConnections } from "@/src/lib/platforms/connections";
+import { getPlatformAdapter } from "@/src/lib/platforms/registry";
+import { errorMessage } from "@/src/lib/platforms/adapter";
+import type { EngagementInboxItem } from "@/src/lib/types/social-media";
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await req.json();
+    const replyContent = typeof body.reply_content === "string" ? body.reply_content.trim() : "";
+    if (!replyContent) {
+      return NextResponse.json({ error: "reply_content is required" }, { status: 400 });
+    }
+
+    const db = await supabaseServer();
+    const {
+      data: { user },
+    } = await db.auth.getUser();
+    if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const { data: member } = await db
+      .from("team_members")
+      .select("id")
+      .eq("user_id", user.id)
+      .eq("is_active", true)
+      .single();
+    if (!member) return NextResponse.json({ error: "Only team members can reply" }, { status: 403 });
+
+    const { data: item, error: itemError } = await db
+      .from("engagement_inbox")
+      .select("*, platform:social_platforms(platform_name)")
+      .eq("id", id)
+      .single();
+    if (itemError || !item) return NextResponse.json({ error: "Inbox item not found" }, { status: 404 });
+
+    const inboxItem = item as EngagementInboxItem & { platform: { platform_name: string } | null };
+    const platformName = inboxItem.platform?.platform_name ?? "";
+    const adapter = getPlatformAdapter(platformName);
+    if (!adapter) return NextResponse.json({ error: `Unknown platform ${platformName}` }, { status: 400 });
+
+    // ── Send on the platform ──────────────────────────────────────────────────
+    const connections = await loadConnections(supabaseAdmin());
+    let platformReplyId: string;
+    try {
+      platformReplyId = await adapter.sendReply(
+        {
+          platformItemId: inboxItem.platform_item_id,
+          type: inboxItem.type,
+          authorPlatformId: inboxItem.author_platform_id,
+          platformPostId: inboxItem.platform_post_id,
+          threadId: inboxItem.platform_thread_id,
+        },
+        replyContent,
+        connections.get(platformName) ?? null
+      );
+    } catch (err) {
+      return NextResponse.json(
+        { error: `${adapter.config.name} rejected the reply: ${errorMessage(err)}` },
+        { status: 502 }
+      );
+    }
+
+    // ── Record it ─────────────────────────────────────────────────────────────
+    const { data: reply, error: replyError } = await db
+      .from("engagement_replies")
+      .insert({
+        inbox_item_id: id,
+        reply_content: replyContent,
+        is_ai_generated: body.is_ai_generated === true,
+        ai_model_used: typeof body.ai_model_used === "string" ? body.ai_model_used : null,
+        sent_by: member.id,
+        sent_at: new Date().toISOString(),
+        platform_reply_id: platformReplyId,
+      })
+      .select()
+      .single();
+    if (replyError) return NextResponse.json({ error: replyError.message }, { status: 500 });
+
+    const { error: updateError } = await db
+      .from("engagement_inbox")
+      .update({ is_read: true, is_replied: true })
+      .eq("id", id);
+    if (updateError) return NextResponse.json({ error: updateError.message }, { status: 500 });
+
+    return NextResponse.json(reply, { status: 201 });
+  } catch (e) {
+    return NextResponse.json({ error: String(e) }, { status: 500 });
+  }
+}
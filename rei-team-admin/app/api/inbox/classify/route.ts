@@ -0,0 +1,40 @@
+/**
+ * /api/inbox/classify — Sentiment classification for inbox items
+ *
+ *   POST /api/inbox/classify?secret=CRON_SECRET            { ids?: string[] }
+ *
+ * Classifies the given inbox items, or up to 100 of the oldest unclassified
+ * ones when no IDs are passed, and escalates negative reviews to managers.
+ * /api/cron/inbox runs the same triage on every item it ingests plus a batch
+ * of the backlog; this endpoint catches up on demand, e.g. after the OpenAI
+ * key was added.
+ *
+ * Security: `x-vercel-cron: 1` or `?secret=CRON_SECRET`, like the cron routes.
+ */
+
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/src/lib/supabase/admin';
+import { triageInboxItems } from '@/src/lib/platforms/inbox-triage';
+
+export async function POST(req: Request) {
+  // ── Auth check ──────────────────────────────────────────────────────────────
+  const isVercelCron = req.headers.get('x-vercel-cron') === '1';
+  const secret = process.env.CRON_SECRET;
+  const provided = new URL(req.url).searchParams.get('secret');
+  if (!isVercelCron && secret && provided !== secret) {
+    return NextResponse.json({ error: 'unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = (await req.json().catch(() => ({}))) as { ids?: unknown };
+    const ids = Array.isArray(body.ids) ? body.ids.filter((id): id is string => typeof id === 'string') : undefined;
+
+    const summary = await triageInboxItems(supabaseAdmin(), { ids });
+    return NextResponse.json({ ok: summary.failed === 0, ...summary });
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { error: (err as Error)?.message ?? 'classification failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,153 @@
+import { NextResponse } from "next/server";
+import { supabaseServer, currentTeamMemberId } from "@/src/lib/supabase/server";
+import { supabaseAdmin } from "@/src/lib/supabase/admin";
+import { AiConfigError } from "@/src/lib/ai/client";
+import { summarizeAgendaItem } from "@/src/lib/meetings/pipeline";
+import { meetingPipelinePorts } from "@/src/lib/meetings/pipeline-server";
+
+/**
+ * Agenda-to-transcript alignment review.
+ *
+ * - PATCH { sessionId, fromPosition, toPosition, agendaItemId } moves a span of
+ *   transcript lines to another agenda item (or none, with agendaItemId null).
+ * - POST { sessionId, agendaItemId } rewrites that agenda item's notes from
+ *   the transcript lines now assigned to it.
+ */
+
+/** Lines per request; PostgREST caps responses at 1000 rows. */
+const PAGE_SIZE = 1000;
+
+type LineRow = { position: number; start_seconds: number; speaker: string | null; text: string };
+
+async function requireUser() {
+  const db = await supabaseServer();
+  const {
+    data: { user },
+  } = await db.auth.getUser();
+  return user;
+}
+
+async function loadSession(admin: ReturnType<typeof supabaseAdmin>, sessionId: string) {
+  const { data } = await admin
+    .from("meeting_minutes_sessions")
+    .select("id,meeting_id")
+    .eq("id", sessionId)
+    .maybeSingle();
+  return data as { id: string; meeting_id: string } | null;
+}
+
+async function loadAgendaItem(admin: ReturnType<typeof supabaseAdmin>, meetingId: string, agendaItemId: string) {
+  const { data } = await admin
+    .from("meeting_agenda_items")
+    .select("id,code,title,description")
+    .eq("id", agendaItemId)
+    .eq("meeting_id", meetingId)
+    .maybeSingle();
+  return data as { id: string; code: string | null; title: string; description: string | null } | null;
+}
+
+export async function PATCH(req: Request) {
+  try {
+    if (!(await requireUser())) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const body = (await req.json()) as {
+      sessionId?: string;
+      fromPosition?: number;
+      toPosition?: number;
+      agendaItemId?: string | null;
+    };
+    const sessionId = String(body.sessionId ?? "").trim();
+    const from = Number(body.fromPosition);
+    const to = Number(body.toPosition);
+    if (!sessionId || !Number.isInteger(from) || !Number.isInteger(to) || from < 1 || to < from) {
+      return NextResponse.json({ error: "sessionId + fromPosition <= toPosition required" }, { status: 400 });
+    }
+
+    const admin = supabaseAdmin();
+    const session = await loadSession(admin, sessionId);
+    if (!session) return NextResponse.json({ error: "Session not found" }, { status: 404 });
+
+    const agendaItemId = body.agendaItemId ? String(body.agendaItemId) : null;
+    if (agendaItemId && !(await loadAgendaItem(admin, session.meeting_id, agendaItemId))) {
+      return NextResponse.json({ error: "Agenda item not found for this meeting" }, { status: 404 });
+    }
+
+    const { data, error } = await admin
+      .from("meeting_transcript_segments")
+      .update({ agenda_item_id: agendaItemId, agenda_assigned_by: "reviewer" })
+      .eq("session_id", sessionId)
+      .gte("position", from)
+      .lte("position", to)
+      .select("position");
+    if (error) throw error;
+
+    return NextResponse.json({ ok: true, updated: data?.length ?? 0 });
+  } catch (e: unknown) {
+    return NextResponse.json({ error: (e as Error)?.message ?? "Failed to reassign transcript lines" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    if (!(await requireUser())) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const body = (await req.json()) as { sessionId?: string; agendaItemId?: string };
+    const sessionId = String(body.sessionId ?? "").trim();
+    const agendaItemId = String(body.agendaItemId ?? "").trim();
+    if (!sessionId || !agendaItemId) {
+      return NextResponse.json({ error: "sessionId + agendaItemId required" }, { status: 400 });
+    }
+
+    const admin = supabaseAdmin();
+    const session = await loadSession(admin, sessionId);
+    if (!session) return NextResponse.json({ error: "Session not found" }, { status: 404 });
+
+    const item = await loadAgendaItem(admin, session.meeting_id, agendaItemId);
+    if (!item) return NextResponse.json({ error: "Agenda item not found for this meeting" }, { status: 404 });
+
+    const lines: LineRow[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await admin
+        .from("meeting_transcript_segments")
+        .select("id,position,start_seconds,speaker,text")
+        .eq("session_id", sessionId)
+        .eq("agenda_item_id", agendaItemId)
+        .order("position", { ascending: true })
+        .order("id", { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) throw error;
+      const page = (data ?? []) as LineRow[];
+      lines.push(...page);
+      if (page.length < PAGE_SIZE) break;
+    }
+
+    const ports = meetingPipelinePorts(admin, {
+      meetingId: session.meeting_id,
+      sessionId,
+      recordingsBucket: process.env.RECORDINGS_BUCKET || "meeting-recordings",
+      requestedBy: await currentTeamMemberId().catch(() => null),
+    });
+
+    const notes = await summarizeAgendaItem(ports, {
+      item,
+      context: await ports.loadContext(),
+      lines: lines.map((l) => ({
+        position: l.position,
+        start: Number(l.start_seconds),
+        speaker: l.speaker,
+        text: l.text,
+      })),
+    });
+
+    await ports.saveNotes([
+      { session_id: sessionId, agenda_item_id: agendaItemId, notes, updated_at: new Date().toISOString() },
+    ]);
+
+    return NextResponse.json({ ok: true, notes, lines: lines.length });
+  } catch (e: unknown) {
+    if (e instanceof AiConfigError) {
+      return NextResponse.json({ error: e.message, setup_required: true }, { status: 503 });
+    }
+    return NextResponse.json({ error: (e as Error)?.message ?? "Failed to regenerate notes" }, { status: 500 });
+  }
+}
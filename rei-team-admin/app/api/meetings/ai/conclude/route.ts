@@ -8,6 +8,8 @@ import { supabaseAdmin } from "@/src/lib/supabase/admin";
  * - Do NOT run transcription / summarization here.
  * - We only finalize the session and queue AI processing.
  * - AI + PDF generation runs in a Supabase Edge Function triggered by a DB webhook.
+ * - `expectedSegments` is how many recording segments the browser uploaded;
+ *   the session is not concluded until that many are stored.
  */
 
 export async function POST(req: Request) {
@@ -16,6 +18,7 @@ export async function POST(req: Request) {
       meetingId?: string;
       sessionId?: string;
       referenceLink?: string | null;
+      expectedSegments?: number;
     };
 
     const meetingId = String(body.meetingId ?? "").trim();
@@ -28,16 +31,24 @@ export async function POST(req: Request) {
 
     const admin = supabaseAdmin();
 
-    // Check if recording exists for this session
+    // Check if any recording segment exists for this session; AI processing
+    // transcribes all of them.
     const rec = await admin
       .from("meeting_recordings")
-      .select("storage_path")
-      .eq("session_id", sessionId)
-      .order("created_at", { ascending: false })
-      .limit(1)
-      .maybeSingle();
+      .select("id", { count: "exact", head: true })
+      .eq("session_id", sessionId);
 
-    const hasRecording = !rec.error && !!rec.data?.storage_path;
+    const hasRecording = !rec.error && (rec.count ?? 0) > 0;
+
+    const expectedSegments = Number(body.expectedSegments ?? 0);
+    if (expectedSegments > 0 && (rec.error || (rec.count ?? 0) < expectedSegments)) {
+      return NextResponse.json(
+        {
+          error: `Only ${rec.count ?? 0} of ${expectedSegments} recording segments are stored. Wait for uploads to finish, then conclude again.`,
+        },
+        { status: 409 }
+      );
+    }
 
     // Mark the session as ended and set status based on recording availability
     const upd = await admin
@@ -76,7 +87,7 @@ export async function POST(req: Request) {
           "Content-Type": "application/json",
           ...(internalToken ? { "x-internal-token": internalToken } : {}),
         },
-        body: JSON.stringify({ meetingId, sessionId, recordingPath: rec.data!.storage_path }),
+        body: JSON.stringify({ meetingId, sessionId }),
       }).catch(async (err: unknown) => {
         console.error("Failed to auto-trigger AI processing:", err);
         await admin
@@ -92,6 +103,7 @@ export async function POST(req: Request) {
     return NextResponse.json({
       ok: true,
       hasRecording,
+      recordingSegments: rec.count ?? 0,
       autoProcessing: hasRecording,
       ai_status: hasRecording ? "queued" : "skipped",
     });
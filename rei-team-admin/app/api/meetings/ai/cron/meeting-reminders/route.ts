@@ -2,6 +2,8 @@
 import { NextResponse } from "next/server";
 import nodemailer from "nodemailer";
 import { supabaseAdmin } from "@/src/lib/supabase/admin";
+import { formatOccurrence, nextMeetingOccurrence } from "@/src/lib/meetings/series";
+import { loadMeetingSeries } from "@/src/lib/meetings/series-server";
 
 function requireEnv(name: string): string {
   const v = process.env[name];
@@ -9,39 +11,12 @@ function requireEnv(name: string): string {
   return v;
 }
 
-function shouldSend(frequency: string, lastSentAt: string | null): boolean {
-  if (!frequency || frequency === "none") return false;
-  if (!lastSentAt) return true;
-
-  const last = new Date(lastSentAt);
-  const now = new Date();
-  const diffMs = now.getTime() - last.getTime();
-  const diffDays = diffMs / (1000 * 60 * 60 * 24);
-
-  if (frequency === "daily") return diffDays >= 1;
-
-  if (frequency === "weekdays") {
-    const weekday = new Intl.DateTimeFormat("en-US", { timeZone: "America/Los_Angeles", weekday: "short" })
-      .format(now)
-      .toLowerCase();
-    const isWeekend = weekday.startsWith("sat") || weekday.startsWith("sun");
-    if (isWeekend) return false;
-    return diffDays >= 1;
-  }
-
-  if (frequency === "weekly") return diffDays >= 7;
-  if (frequency === "biweekly") return diffDays >= 14;
-
-  if (frequency === "monthly") {
-    const lastLa = new Date(last.toLocaleString("en-US", { timeZone: "America/Los_Angeles" }));
-    const nowLa = new Date(now.toLocaleString("en-US", { timeZone: "America/Los_Angeles" }));
-    const newMonth = nowLa.getFullYear() !== lastLa.getFullYear() || nowLa.getMonth() !== lastLa.getMonth();
-    return newMonth && diffDays >= 28;
-  }
-
-  return false;
-}
-
+/**
+ * Reminder emails ahead of each meeting occurrence (src/lib/meetings/series.ts).
+ * For every meeting with reminders on (`reminder_frequency` other than "none"),
+ * one email goes out once the next occurrence is within `reminder_lead_hours`;
+ * `last_reminded_occurrence` keeps it to one per occurrence.  Runs hourly.
+ */
 export async function GET(req: Request) {
   try {
     // Vercel Cron sets `x-vercel-cron: 1`.
@@ -53,38 +28,19 @@ export async function GET(req: Request) {
       return NextResponse.json({ error: "unauthorized" }, { status: 401 });
     }
 
-        // Guard: only send at 9:00am America/Los_Angeles
     const now = new Date();
-    const laHour = Number(
-      new Intl.DateTimeFormat("en-US", {
-        timeZone: "America/Los_Angeles",
-        hour: "2-digit",
-        hour12: false,
-      }).format(now)
-    );
-
-    if (laHour !== 9) {
-      return NextResponse.json({ ok: true, skipped: "Not 9am America/Los_Angeles" });
-    }
-
     const admin = supabaseAdmin();
 
     const settings = await admin
       .from("meeting_email_settings")
-      .select("meeting_id,reminder_frequency,last_sent_at")
+      .select("meeting_id,reminder_frequency,reminder_lead_hours,last_reminded_occurrence")
       .neq("reminder_frequency", "none");
     if (settings.error) throw settings.error;
 
     const meetingIds = (settings.data ?? []).map((x: { meeting_id: string }) => x.meeting_id);
     if (!meetingIds.length) return NextResponse.json({ ok: true, sent: 0 });
 
-    const meetingsRes = await admin
-      .from("meetings")
-      .select("id,title,start_at")
-      .in("id", meetingIds);
-    if (meetingsRes.error) throw meetingsRes.error;
-
-    const byId = new Map((meetingsRes.data ?? []).map((m: { id: string; title: string; start_at: string }) => [m.id, m]));
+    const byId = new Map((await loadMeetingSeries(admin, meetingIds)).map((s) => [s.meeting.id, s]));
 
     const transporter = nodemailer.createTransport({
       host: requireEnv("SMTP_HOST"),
@@ -98,13 +54,21 @@ export async function GET(req: Request) {
     let sent = 0;
 
     for (const row of settings.data ?? []) {
-      const typedRow = row as { meeting_id: string; reminder_frequency?: string; last_sent_at?: string | null };
-      const meeting = byId.get(typedRow.meeting_id);
-      if (!meeting) continue;
-
-      const freq = String(typedRow.reminder_frequency || "none");
-      const lastSentAt = typedRow.last_sent_at ?? null;
-      if (!shouldSend(freq, lastSentAt)) continue;
+      const typedRow = row as {
+        meeting_id: string;
+        reminder_lead_hours?: number | null;
+        last_reminded_occurrence?: string | null;
+      };
+      const series = byId.get(typedRow.meeting_id);
+      if (!series) continue;
+      const { meeting, exceptions } = series;
+
+      const occurrence = nextMeetingOccurrence(meeting, exceptions, now);
+      if (!occurrence) continue;
+      const leadMs = (typedRow.reminder_lead_hours ?? 24) * 60 * 60 * 1000;
+      if (new Date(occurrence.startAt).getTime() - now.getTime() > leadMs) continue;
+      const lastReminded = typedRow.last_reminded_occurrence ? new Date(typedRow.last_reminded_occurrence).toISOString() : null;
+      if (lastReminded === occurrence.originalStart) continue;
 
       const attendeesRes = await admin.from("meeting_attendees").select("email").eq("meeting_id", meeting.id);
       if (attendeesRes.error) continue;
@@ -112,18 +76,19 @@ export async function GET(req: Request) {
       if (!attendees.length) continue;
 
       const url = `${baseUrl}/meetings/${meeting.id}`;
+      const when = formatOccurrence(occurrence.startAt, meeting.timezone);
 
       await transporter.sendMail({
         from: fromEmail,
         to: attendees.join(","),
-        subject: `Reminder: ${meeting.title}`,
-        text: `Reminder to review tasks + agenda for ${meeting.title}.\nOpen: ${url}`,
-        html: `<p>Reminder to review tasks + agenda for <b>${meeting.title}</b>.</p><p><a href="${url}">${url}</a></p>`,
+        subject: `Reminder: ${meeting.title} (${when})`,
+        text: `${meeting.title} is on ${when}${occurrence.moved ? " (rescheduled)" : ""}. Review tasks + agenda before the meeting.\nOpen: ${url}`,
+        html: `<p><b>${meeting.title}</b> is on ${when}${occurrence.moved ? " (rescheduled)" : ""}. Review tasks + agenda before the meeting.</p><p><a href="${url}">${url}</a></p>`,
       });
 
       await admin
         .from("meeting_email_settings")
-        .update({ last_sent_at: new Date().toISOString() })
+        .update({ last_sent_at: new Date().toISOString(), last_reminded_occurrence: occurrence.originalStart })
         .eq("meeting_id", meeting.id);
 
       sent += attendees.length;
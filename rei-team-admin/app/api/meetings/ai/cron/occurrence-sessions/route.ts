@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/src/lib/supabase/admin";
+import { startDueOccurrenceSessions } from "@/src/lib/meetings/series-server";
+
+/**
+ * Creates the minutes session for each meeting occurrence in progress
+ * (see src/lib/meetings/series.ts).  Runs every 5 minutes from Vercel Cron.
+ */
+export async function GET(req: Request) {
+  try {
+    const isVercelCron = req.headers.get("x-vercel-cron") === "1";
+    const secret = process.env.CRON_SECRET;
+    const got = new URL(req.url).searchParams.get("secret");
+    if (!isVercelCron && secret && got !== secret) {
+      return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+    }
+
+    const result = await startDueOccurrenceSessions(supabaseAdmin());
+    return NextResponse.json({ ok: true, ...result });
+  } catch (e: unknown) {
+    return NextResponse.json({ error: (e as Error)?.message ?? "cron failed" }, { status: 500 });
+  }
+}
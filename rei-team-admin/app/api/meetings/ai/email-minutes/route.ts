@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import nodemailer from "nodemailer";
 import { supabaseAdmin } from "@/src/lib/supabase/admin";
+import { isMinutesExportFormat, renderMinutesExport } from "@/src/lib/meetings/minutes-export-server";
 
 function requireEnv(name: string): string {
   const v = process.env[name];
@@ -17,11 +18,17 @@ function escapeHtml(s: string) {
     .replace(/'/g, "&#039;");
 }
 
+/**
+ * Emails the session's agenda notes as HTML to the meeting attendees.
+ * Expects: { meetingId, sessionId, attachFormats? }
+ * - attachFormats: minutes files to attach, any of "pdf" | "docx" | "md" (default none)
+ */
 export async function POST(req: Request) {
   try {
-    const { meetingId, sessionId } = (await req.json()) as {
+    const { meetingId, sessionId, attachFormats } = (await req.json()) as {
       meetingId?: string;
       sessionId?: string;
+      attachFormats?: unknown;
     };
 
     if (!meetingId || !sessionId) {
@@ -142,12 +149,20 @@ export async function POST(req: Request) {
 
     const fromEmail = requireEnv("SMTP_FROM");
 
+    const formats = Array.isArray(attachFormats) ? Array.from(new Set(attachFormats.filter(isMinutesExportFormat))) : [];
+    const attachments: Array<{ filename: string; content: Buffer; contentType: string }> = [];
+    for (const format of formats) {
+      const file = await renderMinutesExport(admin, { meetingId, sessionId, format });
+      attachments.push({ filename: file.filename, content: Buffer.from(file.bytes), contentType: file.contentType });
+    }
+
     await transporter.sendMail({
       from: fromEmail,
       to: attendees.join(","),
       subject: `Minutes: ${meetingRes.data.title} (${started.toLocaleDateString()})`,
       html,
       text: `Meeting minutes: ${meetingRes.data.title}\nOpen: ${meetingUrl}`,
+      attachments,
     });
 
     // ✅ FIX: No .catch() chained on the query builder. Use try/catch instead.
@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { supabaseServer, currentTeamMemberId } from "@/src/lib/supabase/server";
+import { supabaseAdmin } from "@/src/lib/supabase/admin";
+import { AiConfigError } from "@/src/lib/ai/client";
+import { loadAgendaHistory, summarizeSessionChanges } from "@/src/lib/meetings/agenda-history-server";
+
+/**
+ * Agenda item history across a meeting's sessions.
+ *
+ * - GET ?meetingId= returns the concluded sessions and a timeline per agenda item.
+ * - POST { sessionId } (re)computes that session's "what changed since last
+ *   time" summaries.
+ */
+
+async function requireUser() {
+  const db = await supabaseServer();
+  const {
+    data: { user },
+  } = await db.auth.getUser();
+  return user;
+}
+
+export async function GET(req: Request) {
+  try {
+    if (!(await requireUser())) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const meetingId = new URL(req.url).searchParams.get("meetingId")?.trim();
+    if (!meetingId) return NextResponse.json({ error: "meetingId required" }, { status: 400 });
+
+    const history = await loadAgendaHistory(supabaseAdmin(), meetingId);
+    return NextResponse.json(history);
+  } catch (e: unknown) {
+    return NextResponse.json({ error: (e as Error)?.message ?? "Failed to load agenda history" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    if (!(await requireUser())) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const body = (await req.json()) as { sessionId?: string };
+    const sessionId = String(body.sessionId ?? "").trim();
+    if (!sessionId) return NextResponse.json({ error: "sessionId required" }, { status: 400 });
+
+    const admin = supabaseAdmin();
+    const { data: session } = await admin
+      .from("meeting_minutes_sessions")
+      .select("id,meeting_id")
+      .eq("id", sessionId)
+      .maybeSingle();
+    if (!session) return NextResponse.json({ error: "Session not found" }, { status: 404 });
+
+    const changes = await summarizeSessionChanges(admin, {
+      meetingId: String(session.meeting_id),
+      sessionId,
+      requestedBy: await currentTeamMemberId().catch(() => null),
+    });
+    return NextResponse.json({ ok: true, changes });
+  } catch (e: unknown) {
+    if (e instanceof AiConfigError) {
+      return NextResponse.json({ error: e.message, setup_required: true }, { status: 503 });
+    }
+    return NextResponse.json({ error: (e as Error)?.message ?? "Failed to summarize changes" }, { status: 500 });
+  }
+}
@@ -22,21 +22,16 @@ export async function POST(req: Request) {
 
     const admin = supabaseAdmin();
 
-    // Verify recording exists for this session
+    // Verify at least one recording segment exists; AI processing transcribes all of them
     const rec = await admin
       .from("meeting_recordings")
-      .select("storage_path")
-      .eq("session_id", sessionId)
-      .order("created_at", { ascending: false })
-      .limit(1)
-      .maybeSingle();
+      .select("id", { count: "exact", head: true })
+      .eq("session_id", sessionId);
 
-    if (rec.error || !rec.data?.storage_path) {
+    if (rec.error || !rec.count) {
       return NextResponse.json({ error: "No recording found for this session" }, { status: 404 });
     }
 
-    const recordingPath = rec.data.storage_path;
-
     // Update session to queued status
     const upd = await admin
       .from("meeting_minutes_sessions")
@@ -57,7 +52,7 @@ export async function POST(req: Request) {
     fetch(`${baseUrl}/api/meetings/ai`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ meetingId, sessionId, recordingPath }),
+      body: JSON.stringify({ meetingId, sessionId }),
     }).catch(async (err: unknown) => {
       console.error("Failed to trigger AI processing:", err);
       // Update session status to error if fetch fails
@@ -70,7 +65,7 @@ export async function POST(req: Request) {
         .eq("id", sessionId);
     });
 
-    return NextResponse.json({ ok: true, queued: true });
+    return NextResponse.json({ ok: true, queued: true, recordingSegments: rec.count });
   } catch (e: unknown) {
     return NextResponse.json({ error: (e as Error)?.message ?? "Failed to queue processing" }, { status: 500 });
   }
@@ -1,6 +1,11 @@
 import { NextResponse } from "next/server";
 import nodemailer from "nodemailer";
 import { supabaseAdmin } from "@/src/lib/supabase/admin";
+import {
+  isMinutesExportFormat,
+  renderMinutesExport,
+  type MinutesExportFormat,
+} from "@/src/lib/meetings/minutes-export-server";
 
 function requireEnv(name: string): string {
   const v = process.env[name];
@@ -10,8 +15,9 @@ function requireEnv(name: string): string {
 
 /**
  * Manual email send for meeting minutes PDF.
- * Expects: { meetingId, sessionId, sentById }
- * - session must have pdf_path
+ * Expects: { meetingId, sessionId, sentById, formats? }
+ * - formats: attachments to include, any of "pdf" | "docx" | "md" (default ["pdf"])
+ * - session must have pdf_path when the PDF is attached
  * - sends to meeting_attendees.email list
  * - marks meeting_minutes_sessions.email_status = sent (or error)
  */
@@ -22,14 +28,19 @@ export async function POST(req: Request) {
       meetingId?: string;
       sessionId?: string;
       sentById?: string | null;
+      formats?: unknown;
     };
 
     const meetingId = String(body.meetingId || "").trim();
     sessionId = String(body.sessionId || "").trim();
     const sentById = String(body.sentById || "").trim() || null;
+    const formats: MinutesExportFormat[] = Array.isArray(body.formats)
+      ? Array.from(new Set(body.formats.filter(isMinutesExportFormat)))
+      : ["pdf"];
 
     if (!meetingId) return NextResponse.json({ error: "meetingId required" }, { status: 400 });
     if (!sessionId) return NextResponse.json({ error: "sessionId required" }, { status: 400 });
+    if (!formats.length) return NextResponse.json({ error: "At least one attachment format required" }, { status: 400 });
 
     const admin = supabaseAdmin();
     const pdfBucket = requireEnv("MINUTES_PDF_BUCKET");
@@ -38,7 +49,7 @@ export async function POST(req: Request) {
     const meetingRes = await admin.from("meetings").select("id,title,start_at").eq("id", meetingId).single();
     if (meetingRes.error) throw meetingRes.error;
 
-    // Session (must have a PDF)
+    // Session (must have a PDF when it is attached)
     const sessRes = await admin
       .from("meeting_minutes_sessions")
       .select("id,pdf_path,reference_link,ai_status,email_status")
@@ -48,7 +59,7 @@ export async function POST(req: Request) {
     if (sessRes.error) throw sessRes.error;
 
     const pdfPath = sessRes.data?.pdf_path as string | null;
-    if (!pdfPath) return NextResponse.json({ error: "No PDF saved for this session" }, { status: 404 });
+    if (!pdfPath && formats.includes("pdf")) return NextResponse.json({ error: "No PDF saved for this session" }, { status: 404 });
 
     // Attendees
     const attRes = await admin.from("meeting_attendees").select("email").eq("meeting_id", meetingId);
@@ -62,17 +73,20 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "No attendee emails found for this meeting" }, { status: 400 });
     }
 
-    // Download PDF from storage
-    const dl = await admin.storage.from(pdfBucket).download(pdfPath);
-    if (dl.error) throw dl.error;
-    const ab = await dl.data.arrayBuffer();
-    const pdfBytes = Buffer.from(ab);
+    // Attachments (the PDF comes from storage; DOCX / Markdown are rendered from the same content)
+    const attachments: Array<{ filename: string; content: Buffer; contentType: string }> = [];
+    for (const format of formats) {
+      const file = await renderMinutesExport(admin, { meetingId, sessionId, format });
+      attachments.push({ filename: file.filename, content: Buffer.from(file.bytes), contentType: file.contentType });
+    }
 
     // Signed URL (optional for email body)
     let pdfUrl: string | null = null;
     try {
-      const signed = await admin.storage.from(pdfBucket).createSignedUrl(pdfPath, 60 * 60 * 24 * 30);
-      if (!signed.error) pdfUrl = signed.data?.signedUrl ?? null;
+      if (pdfPath) {
+        const signed = await admin.storage.from(pdfBucket).createSignedUrl(pdfPath, 60 * 60 * 24 * 30);
+        if (!signed.error) pdfUrl = signed.data?.signedUrl ?? null;
+      }
     } catch {
       // ignore
     }
@@ -87,11 +101,11 @@ export async function POST(req: Request) {
 
     const meeting = meetingRes.data;
     const start = new Date(meeting.start_at);
-    const subject = `Minutes PDF: ${meeting.title} (${start.toLocaleDateString()})`;
+    const subject = `${formats.length === 1 && formats[0] === "pdf" ? "Minutes PDF" : "Minutes"}: ${meeting.title} (${start.toLocaleDateString()})`;
 
     const referenceLink = sessRes.data?.reference_link ?? null;
     const bodyText =
-      "Meeting minutes PDF attached.\n\n" +
+      `Meeting minutes attached (${formats.map((f) => f.toUpperCase()).join(", ")}).\n\n` +
       (referenceLink ? `Reference link: ${referenceLink}\n\n` : "") +
       (pdfUrl ? `PDF link (signed): ${pdfUrl}\n\n` : "");
 
@@ -100,13 +114,7 @@ export async function POST(req: Request) {
       to: attendeeEmail.join(","),
       subject,
       text: bodyText,
-      attachments: [
-        {
-          filename: `Minutes - ${meeting.title}.pdf`,
-          content: pdfBytes,
-          contentType: "application/pdf",
-        },
-      ],
+      attachments,
     });
 
     // Record send state
@@ -120,7 +128,7 @@ export async function POST(req: Request) {
       })
       .eq("id", sessionId);
 
-    return NextResponse.json({ ok: true, to: attendeeEmail, pdfPath, pdfUrl });
+    return NextResponse.json({ ok: true, to: attendeeEmail, pdfPath, pdfUrl, formats });
   } catch (e: unknown) {
     // Best-effort error recording
     try {
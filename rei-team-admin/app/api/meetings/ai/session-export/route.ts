@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/src/lib/supabase/server";
+import { supabaseAdmin } from "@/src/lib/supabase/admin";
+import { isMinutesExportFormat, renderMinutesExport } from "@/src/lib/meetings/minutes-export-server";
+
+/**
+ * Download a session's minutes.
+ * GET ?sessionId=&format=pdf|docx|md (default pdf) → the file as an attachment.
+ */
+
+async function requireUser() {
+  const db = await supabaseServer();
+  const {
+    data: { user },
+  } = await db.auth.getUser();
+  return user;
+}
+
+export async function GET(req: Request) {
+  try {
+    if (!(await requireUser())) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const params = new URL(req.url).searchParams;
+    const sessionId = params.get("sessionId")?.trim();
+    const format = params.get("format")?.trim() || "pdf";
+    if (!sessionId) return NextResponse.json({ error: "sessionId required" }, { status: 400 });
+    if (!isMinutesExportFormat(format)) return NextResponse.json({ error: "format must be pdf, docx or md" }, { status: 400 });
+
+    const admin = supabaseAdmin();
+    const s = await admin.from("meeting_minutes_sessions").select("meeting_id").eq("id", sessionId).maybeSingle();
+    if (s.error) throw s.error;
+    if (!s.data) return NextResponse.json({ error: "Session not found" }, { status: 404 });
+
+    const file = await renderMinutesExport(admin, { meetingId: s.data.meeting_id as string, sessionId, format });
+
+    return new NextResponse(Buffer.from(file.bytes), {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${file.filename.replace(/[^\x20-\x7e]/g, "_")}"; filename*=UTF-8''${encodeURIComponent(file.filename)}`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (e: unknown) {
+    return NextResponse.json({ error: (e as Error)?.message ?? "Failed to export minutes" }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/src/lib/supabase/server";
+import { supabaseAdmin } from "@/src/lib/supabase/admin";
+import { sampleMinutesContent } from "@/src/lib/meetings/minutes-content";
+import { renderMinutesPdf } from "@/src/lib/meetings/minutes-pdf";
+import { normalizeMinutesTemplate, type MinutesTemplate, type MinutesTemplateRow } from "@/src/lib/meetings/minutes-template";
+import { fetchLogoBytes, loadMinutesTemplate, loadTemplateById } from "@/src/lib/meetings/minutes-template-server";
+
+/**
+ * Minutes template preview: renders the minutes PDF from sample data, so a
+ * template can be checked without a real session.
+ *
+ * - GET ?templateId= previews a saved template; ?meetingId= the template that
+ *   meeting would use.
+ * - POST { template } previews unsaved editor changes (a `minutes_templates` row shape).
+ */
+
+async function requireUser() {
+  const db = await supabaseServer();
+  const {
+    data: { user },
+  } = await db.auth.getUser();
+  return user;
+}
+
+async function previewResponse(template: MinutesTemplate) {
+  const bytes = await renderMinutesPdf(sampleMinutesContent(), template, {
+    logo: await fetchLogoBytes(template.logoUrl),
+  });
+  return new NextResponse(Buffer.from(bytes), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": 'inline; filename="minutes-preview.pdf"',
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+export async function GET(req: Request) {
+  try {
+    if (!(await requireUser())) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const params = new URL(req.url).searchParams;
+    const templateId = params.get("templateId")?.trim();
+    const admin = supabaseAdmin();
+
+    if (templateId) {
+      const template = await loadTemplateById(admin, templateId);
+      if (!template) return NextResponse.json({ error: "Template not found" }, { status: 404 });
+      return previewResponse(template);
+    }
+    return previewResponse(await loadMinutesTemplate(admin, params.get("meetingId")?.trim() || null));
+  } catch (e: unknown) {
+    return NextResponse.json({ error: (e as Error)?.message ?? "Failed to render preview" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    if (!(await requireUser())) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const body = (await req.json()) as { template?: Partial<MinutesTemplateRow> };
+    if (!body.template) return NextResponse.json({ error: "template required" }, { status: 400 });
+
+    return previewResponse(normalizeMinutesTemplate(body.template));
+  } catch (e: unknown) {
+    return NextResponse.json({ error: (e as Error)?.message ?? "Failed to render preview" }, { status: 500 });
+  }
+}
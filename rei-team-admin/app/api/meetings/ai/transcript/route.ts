@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/src/lib/supabase/server";
+import { supabaseAdmin } from "@/src/lib/supabase/admin";
+
+/**
+ * Session transcript for the meeting page's transcript viewer: the timed
+ * lines (meeting_transcript_segments) plus a signed URL for every recording
+ * segment they reference, so a clicked line can be played back.
+ */
+
+const SIGNED_URL_SECONDS = 60 * 60 * 4;
+/** Lines per request; PostgREST caps responses at 1000 rows and a long meeting has more. */
+const PAGE_SIZE = 1000;
+
+type SegmentRow = { recording_path: string } & Record<string, unknown>;
+
+export async function POST(req: Request) {
+  try {
+    const { sessionId } = (await req.json()) as { sessionId?: string };
+    if (!sessionId) return NextResponse.json({ error: "sessionId required" }, { status: 400 });
+
+    const db = await supabaseServer();
+    const {
+      data: { user },
+    } = await db.auth.getUser();
+    if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const segments: SegmentRow[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await db
+        .from("meeting_transcript_segments")
+        .select("id,position,start_seconds,end_seconds,speaker,text,recording_path,recording_offset,agenda_item_id,agenda_assigned_by")
+        .eq("session_id", sessionId)
+        .order("position", { ascending: true })
+        .order("id", { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) throw error;
+      const page = (data ?? []) as SegmentRow[];
+      segments.push(...page);
+      if (page.length < PAGE_SIZE) break;
+    }
+
+    const paths = [...new Set(segments.map((s) => s.recording_path))];
+    const recordings: Record<string, string> = {};
+    if (paths.length) {
+      const bucket = process.env.RECORDINGS_BUCKET || "meeting-recordings";
+      const signed = await supabaseAdmin().storage.from(bucket).createSignedUrls(paths, SIGNED_URL_SECONDS);
+      if (signed.error) throw signed.error;
+      for (const s of signed.data ?? []) {
+        if (s.path && s.signedUrl) recordings[s.path] = s.signedUrl;
+      }
+    }
+
+    return NextResponse.json({ segments, recordings });
+  } catch (e: unknown) {
+    return NextResponse.json({ error: (e as Error)?.message ?? "Failed to load transcript" }, { status: 500 });
+  }
+}
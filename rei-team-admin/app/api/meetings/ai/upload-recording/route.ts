@@ -1,69 +1,245 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseAdmin } from "@/src/lib/supabase/admin";
+import { supabaseServer } from "@/src/lib/supabase/server";
 
 /**
- * Max upload size (bytes)
+ * Resumable, chunked recording uploads (used by the IndexedDB upload queue in
+ * src/lib/meetings/upload-queue.ts).  Each recording segment has a
+ * client-generated upload ID:
+ *
+ * - GET  ?meetingId&sessionId&uploadId  → which chunks are stored, and the
+ *   recording path once the segment is complete (resume point)
+ * - PUT  multipart { meetingId, sessionId, uploadId, index, file } → store one
+ *   chunk; retrying a chunk overwrites it
+ * - POST { meetingId, sessionId, uploadId, chunkCount, durationSeconds,
+ *   recordedAt } → join the chunks into the segment's recording and add its
+ *   meeting_recordings row; safe to repeat
+ *
+ * Chunks live under `<meeting>/<session>/uploads/<uploadId>/` until the
+ * segment is complete.
+ */
+
+/**
+ * Max chunk size (bytes)
  * Default: 4MB
  * Can be overridden with env var
  */
 const MAX_UPLOAD_BYTES = Number(process.env.MAX_RECORDING_UPLOAD_BYTES || 4_000_000);
 
-export async function POST(req: NextRequest) {
+const ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+type UploadRef = { meetingId: string; sessionId: string; uploadId: string };
+
+function recordingsBucket() {
+  return process.env.RECORDINGS_BUCKET || "meeting-recordings";
+}
+
+function partsPrefix({ meetingId, sessionId, uploadId }: UploadRef) {
+  return `${meetingId}/${sessionId}/uploads/${uploadId}`;
+}
+
+function partPath(ref: UploadRef, index: number) {
+  return `${partsPrefix(ref)}/${String(index).padStart(5, "0")}.part`;
+}
+
+/** The final path is derived from the upload ID so completing twice is harmless. */
+function recordingPath({ meetingId, sessionId, uploadId }: UploadRef) {
+  return `${meetingId}/${sessionId}/recording_${uploadId}.webm`;
+}
+
+function parseRef(input: { meetingId?: unknown; sessionId?: unknown; uploadId?: unknown }): UploadRef | null {
+  const ref = {
+    meetingId: String(input.meetingId ?? "").trim(),
+    sessionId: String(input.sessionId ?? "").trim(),
+    uploadId: String(input.uploadId ?? "").trim(),
+  };
+  if (!ID_PATTERN.test(ref.meetingId) || !ID_PATTERN.test(ref.sessionId) || !ID_PATTERN.test(ref.uploadId)) {
+    return null;
+  }
+  return ref;
+}
+
+async function requireUser() {
+  const db = await supabaseServer();
+  const {
+    data: { user },
+  } = await db.auth.getUser();
+  return user;
+}
+
+async function sessionBelongsToMeeting(admin: ReturnType<typeof supabaseAdmin>, ref: UploadRef) {
+  const { data } = await admin
+    .from("meeting_minutes_sessions")
+    .select("id")
+    .eq("id", ref.sessionId)
+    .eq("meeting_id", ref.meetingId)
+    .maybeSingle();
+  return !!data;
+}
+
+async function storedRecording(admin: ReturnType<typeof supabaseAdmin>, ref: UploadRef) {
+  const { data } = await admin
+    .from("meeting_recordings")
+    .select("storage_path")
+    .eq("session_id", ref.sessionId)
+    .eq("storage_path", recordingPath(ref))
+    .maybeSingle();
+  return data?.storage_path ? String(data.storage_path) : null;
+}
+
+async function storedChunks(admin: ReturnType<typeof supabaseAdmin>, ref: UploadRef): Promise<number[]> {
+  const { data, error } = await admin.storage.from(recordingsBucket()).list(partsPrefix(ref), { limit: 1000 });
+  if (error) throw error;
+  return (data ?? [])
+    .map((f) => /^(\d+)\.part$/.exec(f.name)?.[1])
+    .filter((n): n is string => !!n)
+    .map(Number)
+    .sort((a, b) => a - b);
+}
+
+export async function GET(req: NextRequest) {
   try {
-    const formData = await req.formData();
+    if (!(await requireUser())) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const ref = parseRef(Object.fromEntries(req.nextUrl.searchParams));
+    if (!ref) return NextResponse.json({ error: "Missing meetingId, sessionId, or uploadId" }, { status: 400 });
+
+    const admin = supabaseAdmin();
+    const completed = await storedRecording(admin, ref);
+    if (completed) return NextResponse.json({ completed: true, recordingPath: completed, chunks: [] });
+
+    return NextResponse.json({ completed: false, chunks: await storedChunks(admin, ref) });
+  } catch (err: unknown) {
+    console.error("Upload status error:", err);
+    return NextResponse.json({ error: (err as Error)?.message || "Failed to read upload status" }, { status: 500 });
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    if (!(await requireUser())) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
-    const meetingId = (formData.get("meetingId") as string | null) ?? null;
-    const sessionId = (formData.get("sessionId") as string | null) ?? null;
-    const durationSeconds = (formData.get("durationSeconds") as string | null) ?? null;
-    const createdBy = (formData.get("createdBy") as string | null) ?? null;
+    const formData = await req.formData();
+    const ref = parseRef({
+      meetingId: formData.get("meetingId"),
+      sessionId: formData.get("sessionId"),
+      uploadId: formData.get("uploadId"),
+    });
+    const index = Number(formData.get("index"));
     const file = (formData.get("file") as File | null) ?? null;
 
-    if (!meetingId || !sessionId || !file) {
-      return NextResponse.json({ error: "Missing meetingId, sessionId, or file" }, { status: 400 });
+    if (!ref || !file || !Number.isInteger(index) || index < 0) {
+      return NextResponse.json({ error: "Missing meetingId, sessionId, uploadId, index, or file" }, { status: 400 });
     }
 
     if (file.size > MAX_UPLOAD_BYTES) {
       return NextResponse.json(
         {
-          error: `Recording too large (${file.size} bytes). Max allowed is ${MAX_UPLOAD_BYTES} bytes.`,
+          error: `Chunk too large (${file.size} bytes). Max allowed is ${MAX_UPLOAD_BYTES} bytes.`,
         },
         { status: 413 }
       );
     }
 
     const admin = supabaseAdmin();
-    const recordingsBucket = process.env.RECORDINGS_BUCKET || "meeting-recordings";
-    const storagePath = `${meetingId}/${sessionId}/recording_${Date.now()}.webm`;
+    if (!(await sessionBelongsToMeeting(admin, ref))) {
+      return NextResponse.json({ error: "Session not found for this meeting" }, { status: 404 });
+    }
 
-    // Upload to Supabase storage
     const buffer = Buffer.from(await file.arrayBuffer());
     const { error: uploadError } = await admin.storage
-      .from(recordingsBucket)
-      .upload(storagePath, buffer, {
-        contentType: "audio/webm",
-        upsert: false,
+      .from(recordingsBucket())
+      .upload(partPath(ref, index), buffer, {
+        contentType: "application/octet-stream",
+        upsert: true,
       });
 
+    if (uploadError) {
+      console.error("Failed to upload recording chunk to storage", uploadError);
+      return NextResponse.json({ error: "Failed to upload recording chunk" }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, index });
+  } catch (err: unknown) {
+    console.error("Upload chunk error:", err);
+    return NextResponse.json({ error: (err as Error)?.message || "Failed to upload recording chunk" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const user = await requireUser();
+    if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const body = (await req.json()) as {
+      meetingId?: string;
+      sessionId?: string;
+      uploadId?: string;
+      chunkCount?: number;
+      durationSeconds?: number;
+      recordedAt?: string;
+    };
+    const ref = parseRef(body);
+    const chunkCount = Number(body.chunkCount);
+    if (!ref || !Number.isInteger(chunkCount) || chunkCount < 1) {
+      return NextResponse.json({ error: "Missing meetingId, sessionId, uploadId, or chunkCount" }, { status: 400 });
+    }
+
+    const admin = supabaseAdmin();
+    const already = await storedRecording(admin, ref);
+    if (already) return NextResponse.json({ success: true, recordingPath: already });
+
+    if (!(await sessionBelongsToMeeting(admin, ref))) {
+      return NextResponse.json({ error: "Session not found for this meeting" }, { status: 404 });
+    }
+
+    const chunks = await storedChunks(admin, ref);
+    const missing = Array.from({ length: chunkCount }, (_, i) => i).filter((i) => !chunks.includes(i));
+    if (missing.length) {
+      return NextResponse.json({ error: "Upload incomplete", missing }, { status: 409 });
+    }
+
+    const bucket = admin.storage.from(recordingsBucket());
+    const parts: Buffer[] = [];
+    for (let i = 0; i < chunkCount; i++) {
+      const { data, error } = await bucket.download(partPath(ref, i));
+      if (error) throw error;
+      parts.push(Buffer.from(await data.arrayBuffer()));
+    }
+
+    const storagePath = recordingPath(ref);
+    const { error: uploadError } = await bucket.upload(storagePath, Buffer.concat(parts), {
+      contentType: "audio/webm",
+      upsert: true,
+    });
+
     if (uploadError) {
       console.error("Failed to upload recording to storage", uploadError);
       return NextResponse.json({ error: "Failed to upload recording" }, { status: 500 });
     }
 
-    // Save record in meeting_recordings table
-    const { error: dbError } = await admin
-      .from("meeting_recordings")
-      .insert({
-        session_id: sessionId,
-        storage_path: storagePath,
-        duration_seconds: durationSeconds ? Number(durationSeconds) : null,
-        created_by: createdBy,
-      });
+    // Save record in meeting_recordings table.  created_at is when the segment
+    // was recorded, not uploaded: the AI pipeline orders segments by it, and a
+    // queued segment may arrive after later ones.
+    const recordedAt = body.recordedAt && !Number.isNaN(Date.parse(body.recordedAt)) ? body.recordedAt : null;
+    const { error: dbError } = await admin.from("meeting_recordings").insert({
+      session_id: ref.sessionId,
+      storage_path: storagePath,
+      duration_seconds: Number(body.durationSeconds) > 0 ? Math.round(Number(body.durationSeconds)) : null,
+      created_by: user.id,
+      ...(recordedAt ? { created_at: recordedAt } : {}),
+    });
 
     if (dbError) {
       console.error("Failed to save recording record", dbError);
       return NextResponse.json({ error: "Failed to save recording record" }, { status: 500 });
     }
 
+    const { error: cleanupError } = await bucket.remove(
+      Array.from({ length: chunkCount }, (_, i) => partPath(ref, i))
+    );
+    if (cleanupError) console.error("Failed to remove recording chunks", cleanupError);
+
     return NextResponse.json({
       success: true,
       recordingPath: storagePath,
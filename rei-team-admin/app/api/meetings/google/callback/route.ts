@@ -0,0 +1,73 @@
+// GET /api/meetings/google/callback?code=…&state=…
+// Completes the Google Calendar OAuth flow: validates state against the
+// pending-authorization cookie, exchanges the code, stores the tokens
+// (encrypted) on google_oauth_tokens and runs the first sync.  Always
+// redirects back to the meetings page.
+
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/src/lib/supabase/server";
+import { supabaseAdmin } from "@/src/lib/supabase/admin";
+import { decodePendingAuthorization, exchangeAuthorizationCode } from "@/src/lib/platforms/oauth";
+import {
+  GOOGLE_CALENDAR_COOKIE_NAME,
+  GOOGLE_CALENDAR_COOKIE_PATH,
+  googleCalendarOAuth,
+  googleCalendarRedirectUri,
+  saveGoogleTokens,
+  syncGoogleCalendar,
+} from "@/src/lib/meetings/google-calendar";
+
+export async function GET(req: NextRequest) {
+  const p = req.nextUrl.searchParams;
+  const meetingsUrl = new URL("/meetings", req.url);
+
+  const finish = (result: { connected?: boolean; error?: string }) => {
+    if (result.connected) meetingsUrl.searchParams.set("google", "connected");
+    if (result.error) meetingsUrl.searchParams.set("google_error", result.error);
+    const res = NextResponse.redirect(meetingsUrl);
+    res.cookies.set(GOOGLE_CALENDAR_COOKIE_NAME, "", { path: GOOGLE_CALENDAR_COOKIE_PATH, maxAge: 0 });
+    return res;
+  };
+
+  try {
+    const providerError = p.get("error_description") ?? p.get("error");
+    if (providerError) return finish({ error: `Google Calendar: ${providerError}` });
+
+    const pending = decodePendingAuthorization(req.cookies.get(GOOGLE_CALENDAR_COOKIE_NAME)?.value);
+    const state = p.get("state");
+    if (!pending || !state || pending.state !== state || pending.platform !== "google_calendar") {
+      return finish({ error: "Authorization expired or state mismatch — please try again" });
+    }
+
+    // The session must still belong to the user who started the flow.
+    const db = await supabaseServer();
+    const {
+      data: { user },
+    } = await db.auth.getUser();
+    if (!user || user.id !== pending.memberId) return finish({ error: "Signed-in user changed — please try again" });
+
+    const code = p.get("code");
+    if (!code) return finish({ error: "Missing authorization code" });
+
+    const tokens = await exchangeAuthorizationCode(googleCalendarOAuth(), {
+      code,
+      redirectUri: googleCalendarRedirectUri(req.nextUrl.origin),
+      codeVerifier: pending.codeVerifier,
+    });
+
+    const admin = supabaseAdmin();
+    await saveGoogleTokens(admin, user.id, tokens);
+
+    // Stores the first syncToken and the account email; a failure here is
+    // recorded on the row and retried by the sync cron.
+    try {
+      await syncGoogleCalendar(admin, user.id);
+    } catch {
+      // see sync_error
+    }
+
+    return finish({ connected: true });
+  } catch (e) {
+    return finish({ error: (e as Error)?.message ?? String(e) });
+  }
+}
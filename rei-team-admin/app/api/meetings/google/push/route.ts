@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/src/lib/supabase/server";
+import { supabaseAdmin } from "@/src/lib/supabase/admin";
+import { pushMeetingToGoogle } from "@/src/lib/meetings/google-calendar";
+
+async function requireUser() {
+  const db = await supabaseServer();
+  const {
+    data: { user },
+  } = await db.auth.getUser();
+  return user;
+}
+
+/**
+ * POST { meetingId, cancel? }
+ * Creates or updates the meeting's Google Calendar event (cancels it when the
+ * meeting is archived or `cancel` is set, e.g. before deleting).  Meetings not
+ * yet on a calendar go on the caller's; `status: "skipped"` when that calendar
+ * is not connected.
+ */
+export async function POST(req: Request) {
+  try {
+    const user = await requireUser();
+    if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const body = (await req.json().catch(() => ({}))) as { meetingId?: string; cancel?: boolean };
+    if (!body.meetingId) return NextResponse.json({ error: "meetingId is required" }, { status: 400 });
+
+    const result = await pushMeetingToGoogle(supabaseAdmin(), body.meetingId, {
+      userId: user.id,
+      appUrl: process.env.APP_BASE_URL || new URL(req.url).origin,
+      cancel: !!body.cancel,
+    });
+    return NextResponse.json({ ok: true, ...result });
+  } catch (e: unknown) {
+    return NextResponse.json({ error: (e as Error)?.message ?? "Google Calendar push failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/src/lib/supabase/server";
+import { supabaseAdmin } from "@/src/lib/supabase/admin";
+
+async function requireUser() {
+  const db = await supabaseServer();
+  const {
+    data: { user },
+  } = await db.auth.getUser();
+  return user;
+}
+
+/**
+ * GET: the signed-in user's Google Calendar connection (never the tokens).
+ * DELETE: disconnects it.  Meetings keep their Google event ids, so
+ * reconnecting the same account resumes updating those events.
+ */
+export async function GET() {
+  try {
+    const user = await requireUser();
+    if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const { data, error } = await supabaseAdmin()
+      .from("google_oauth_tokens")
+      .select("account_email,last_synced_at,sync_error")
+      .eq("user_id", user.id)
+      .maybeSingle();
+    if (error) throw error;
+
+    return NextResponse.json({
+      connected: !!data,
+      configured: !!process.env.GOOGLE_OAUTH_CLIENT_ID,
+      accountEmail: data?.account_email ?? null,
+      lastSyncedAt: data?.last_synced_at ?? null,
+      syncError: data?.sync_error ?? null,
+    });
+  } catch (e: unknown) {
+    return NextResponse.json({ error: (e as Error)?.message ?? "Failed to load Google Calendar status" }, { status: 500 });
+  }
+}
+
+export async function DELETE() {
+  try {
+    const user = await requireUser();
+    if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const { error } = await supabaseAdmin().from("google_oauth_tokens").delete().eq("user_id", user.id);
+    if (error) throw error;
+    return NextResponse.json({ ok: true });
+  } catch (e: unknown) {
+    return NextResponse.json({ error: (e as Error)?.message ?? "Failed to disconnect" }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+// GET /api/meetings/google/start
+// Begins the Google Calendar OAuth flow for the signed-in user: stores state +
+// PKCE verifier in a short-lived cookie and redirects to Google's consent
+// screen.
+
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/src/lib/supabase/server";
+import {
+  OAUTH_COOKIE_MAX_AGE_SECONDS,
+  buildAuthorizeUrl,
+  createPkcePair,
+  encodePendingAuthorization,
+  randomState,
+} from "@/src/lib/platforms/oauth";
+import {
+  GOOGLE_CALENDAR_COOKIE_NAME,
+  GOOGLE_CALENDAR_COOKIE_PATH,
+  googleCalendarOAuth,
+  googleCalendarRedirectUri,
+} from "@/src/lib/meetings/google-calendar";
+
+export async function GET(req: NextRequest) {
+  const meetingsUrl = new URL("/meetings", req.url);
+
+  try {
+    const db = await supabaseServer();
+    const {
+      data: { user },
+    } = await db.auth.getUser();
+    if (!user) return NextResponse.redirect(new URL("/login", req.url));
+
+    const client = googleCalendarOAuth();
+    const state = randomState();
+    const pkce = createPkcePair();
+    const authorizeUrl = buildAuthorizeUrl(client, {
+      state,
+      redirectUri: googleCalendarRedirectUri(req.nextUrl.origin),
+      codeChallenge: pkce.challenge,
+    });
+
+    const res = NextResponse.redirect(authorizeUrl);
+    res.cookies.set(
+      GOOGLE_CALENDAR_COOKIE_NAME,
+      encodePendingAuthorization({
+        platform: "google_calendar",
+        state,
+        codeVerifier: pkce.verifier,
+        memberId: user.id,
+        createdAt: Date.now(),
+      }),
+      {
+        httpOnly: true,
+        secure: req.nextUrl.protocol === "https:",
+        sameSite: "lax",
+        path: GOOGLE_CALENDAR_COOKIE_PATH,
+        maxAge: OAUTH_COOKIE_MAX_AGE_SECONDS,
+      }
+    );
+    return res;
+  } catch (e) {
+    meetingsUrl.searchParams.set("google_error", (e as Error)?.message ?? String(e));
+    return NextResponse.redirect(meetingsUrl);
+  }
+}
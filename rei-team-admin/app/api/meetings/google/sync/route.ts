@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/src/lib/supabase/server";
+import { supabaseAdmin } from "@/src/lib/supabase/admin";
+import { syncAllGoogleCalendars, syncGoogleCalendar } from "@/src/lib/meetings/google-calendar";
+
+/**
+ * GET: pulls changes from every connected Google Calendar (time changes,
+ * cancelled/moved occurrences, RSVPs).  Runs every 15 minutes from Vercel Cron.
+ */
+export async function GET(req: Request) {
+  try {
+    const isVercelCron = req.headers.get("x-vercel-cron") === "1";
+    const secret = process.env.CRON_SECRET;
+    const got = new URL(req.url).searchParams.get("secret");
+    if (!isVercelCron && secret && got !== secret) {
+      return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+    }
+
+    const result = await syncAllGoogleCalendars(supabaseAdmin());
+    return NextResponse.json({ ok: true, ...result });
+  } catch (e: unknown) {
+    return NextResponse.json({ error: (e as Error)?.message ?? "cron failed" }, { status: 500 });
+  }
+}
+
+/** POST: "Sync now" for the signed-in user's calendar. */
+export async function POST() {
+  try {
+    const db = await supabaseServer();
+    const {
+      data: { user },
+    } = await db.auth.getUser();
+    if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const result = await syncGoogleCalendar(supabaseAdmin(), user.id);
+    return NextResponse.json({ ok: true, ...result });
+  } catch (e: unknown) {
+    return NextResponse.json({ error: (e as Error)?.message ?? "Google Calendar sync failed" }, { status: 500 });
+  }
+}
@@ -8,6 +8,16 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/src/lib/supabase/server";
+import { computeFirstRunAt, type ScheduleTiming } from "@/src/lib/supabase/query-scheduled-posts";
+import { RRuleError, isRRule } from "@/src/lib/rrule";
+
+const TIMING_FIELDS = [
+  "schedule_type",
+  "recurrence_rule",
+  "recurrence_end_date",
+  "scheduled_at",
+  "timezone",
+] as const;
 
 export async function GET(req: NextRequest) {
   try {
@@ -53,9 +63,17 @@ export async function POST(req: NextRequest) {
   try {
     const db = await supabaseServer();
     const body = await req.json();
+
+    // RRULE schedules start at their first occurrence, which need not be
+    // scheduled_at itself (e.g. scheduled_at on a Tuesday, BYDAY=MO).
+    const nextRunAt = computeFirstRunAt(body as ScheduleTiming, new Date().toISOString());
+    if (body.schedule_type === "recurring" && body.recurrence_rule && !nextRunAt) {
+      return NextResponse.json({ error: "Recurrence rule has no upcoming occurrences" }, { status: 400 });
+    }
+
     const { data, error } = await db
       .from("content_schedules")
-      .insert(body)
+      .insert({ ...body, next_run_at: nextRunAt })
       .select("*, post:content_posts(*)")
       .single();
     if (error) return NextResponse.json({ error: error.message }, { status: 500 });
@@ -70,6 +88,7 @@ export async function POST(req: NextRequest) {
 
     return NextResponse.json(data, { status: 201 });
   } catch (e) {
+    if (e instanceof RRuleError) return NextResponse.json({ error: e.message }, { status: 400 });
     return NextResponse.json({ error: String(e) }, { status: 500 });
   }
 }
@@ -80,6 +99,24 @@ export async function PATCH(req: NextRequest) {
     const body = await req.json();
     const { id, ...updates } = body;
     if (!id) return NextResponse.json({ error: "id required" }, { status: 400 });
+
+    // Re-derive next_run_at when an RRULE schedule's timing changes; past
+    // occurrences of the edited rule are not replayed.
+    if (TIMING_FIELDS.some((f) => f in updates)) {
+      const { data: current, error: loadError } = await db
+        .from("content_schedules")
+        .select(TIMING_FIELDS.join(", "))
+        .eq("id", id)
+        .single();
+      if (loadError) return NextResponse.json({ error: loadError.message }, { status: 500 });
+
+      const timing = { ...(current as unknown as ScheduleTiming), ...updates } as ScheduleTiming;
+      if (timing.schedule_type === "recurring" && isRRule(timing.recurrence_rule)) {
+        const now = new Date().toISOString();
+        updates.next_run_at = computeFirstRunAt(timing, now, now);
+      }
+    }
+
     const { data, error } = await db
       .from("content_schedules")
       .update({ ...updates, updated_at: new Date().toISOString() })
@@ -89,6 +126,7 @@ export async function PATCH(req: NextRequest) {
     if (error) return NextResponse.json({ error: error.message }, { status: 500 });
     return NextResponse.json(data);
   } catch (e) {
+    if (e instanceof RRuleError) return NextResponse.json({ error: e.message }, { status: 400 });
     return NextResponse.json({ error: String(e) }, { status: 500 });
   }
 }
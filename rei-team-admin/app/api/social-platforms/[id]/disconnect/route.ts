@@ -0,0 +1,52 @@
+// POST /api/social-platforms/<id>/disconnect
+// Marks a platform disconnected and clears its stored tokens.  Admin only; the
+// token columns are not writable from the browser (migration 022), so this
+// runs through the service role after checking the caller's role.
+
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/src/lib/supabase/server";
+import { supabaseAdmin } from "@/src/lib/supabase/admin";
+import { SOCIAL_PLATFORM_SUMMARY_COLUMNS } from "@/src/lib/supabase/social-media-queries";
+
+export async function POST(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const db = await supabaseServer();
+    const {
+      data: { user },
+    } = await db.auth.getUser();
+    if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const { data: member } = await db
+      .from("team_members")
+      .select("role")
+      .eq("user_id", user.id)
+      .eq("is_active", true)
+      .single();
+    if (!member || member.role !== "admin") {
+      return NextResponse.json({ error: "Only admins can disconnect social platforms" }, { status: 403 });
+    }
+
+    const { data, error } = await supabaseAdmin()
+      .from("social_platforms")
+      .update({
+        is_connected: false,
+        access_token: "",
+        refresh_token: null,
+        token_expires_at: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .select(SOCIAL_PLATFORM_SUMMARY_COLUMNS)
+      .single();
+    if (error) throw error;
+
+    return NextResponse.json(data);
+  } catch (e) {
+    return NextResponse.json({ error: String(e) }, { status: 500 });
+  }
+}
@@ -0,0 +1,113 @@
+// GET /api/social-platforms/oauth/<platform>/callback?code=…&state=…
+// Completes the OAuth flow: validates state against the signed
+// pending-authorization cookie, checks the signed-in user is the admin who
+// started it, exchanges the code (with the PKCE verifier), resolves the connected
+// account through the platform adapter and stores the tokens, encrypted, on
+// social_platforms.  Always redirects back to the settings page.
+
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/src/lib/supabase/server";
+import { supabaseAdmin } from "@/src/lib/supabase/admin";
+import { getPlatformAdapter } from "@/src/lib/platforms/registry";
+import {
+  OAUTH_COOKIE_NAME,
+  OAUTH_COOKIE_PATH,
+  decodePendingAuthorization,
+  exchangeAuthorizationCode,
+  oauthRedirectUri,
+} from "@/src/lib/platforms/oauth";
+import { encryptPlatformTokens } from "@/src/lib/platforms/token-crypto";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ platform: string }> }
+) {
+  const { platform } = await params;
+  const p = req.nextUrl.searchParams;
+  const settingsUrl = new URL("/social-media/settings", req.url);
+
+  const finish = (result: { connected?: string; error?: string }) => {
+    if (result.connected) settingsUrl.searchParams.set("connected", result.connected);
+    if (result.error) settingsUrl.searchParams.set("oauth_error", result.error);
+    const res = NextResponse.redirect(settingsUrl);
+    res.cookies.set(OAUTH_COOKIE_NAME, "", { path: OAUTH_COOKIE_PATH, maxAge: 0 });
+    return res;
+  };
+
+  try {
+    const adapter = getPlatformAdapter(platform);
+    if (!adapter) return finish({ error: `Unknown platform: ${platform}` });
+
+    // Provider-reported denial (user clicked "Cancel", scope refused, …)
+    const providerError = p.get("error_description") ?? p.get("error");
+    if (providerError) return finish({ error: `${adapter.config.name}: ${providerError}` });
+
+    const pending = decodePendingAuthorization(req.cookies.get(OAUTH_COOKIE_NAME)?.value);
+    const state = p.get("state");
+    if (!pending || !state || pending.state !== state || pending.platform !== platform) {
+      return finish({ error: "Authorization expired or state mismatch — please try again" });
+    }
+
+    // The session must still belong to the admin who started the flow.
+    const db = await supabaseServer();
+    const {
+      data: { user },
+    } = await db.auth.getUser();
+    if (!user) return finish({ error: "Sign in to connect social platforms" });
+
+    const { data: member } = await db
+      .from("team_members")
+      .select("id, role")
+      .eq("user_id", user.id)
+      .eq("is_active", true)
+      .single();
+    if (!member || member.role !== "admin") return finish({ error: "Only admins can connect social platforms" });
+    if (member.id !== pending.memberId) return finish({ error: "Signed-in user changed — please try again" });
+
+    const code = p.get("code");
+    if (!code) return finish({ error: "Missing authorization code" });
+
+    const tokens = await exchangeAuthorizationCode(adapter, {
+      code,
+      redirectUri: oauthRedirectUri(platform, req.nextUrl.origin),
+      codeVerifier: pending.codeVerifier,
+    });
+    const account = await adapter.resolveAccount(tokens);
+
+    const admin = supabaseAdmin();
+    const now = new Date().toISOString();
+    const row = {
+      platform_name: platform,
+      account_name: account.accountName,
+      account_id: account.accountId,
+      ...encryptPlatformTokens({
+        accessToken: account.accessToken ?? tokens.accessToken,
+        refreshToken: account.refreshToken !== undefined ? account.refreshToken : tokens.refreshToken,
+      }),
+      token_expires_at: account.tokenExpiresAt !== undefined ? account.tokenExpiresAt : tokens.expiresAt,
+      is_connected: true,
+      platform_url: account.platformUrl,
+      metadata: { ...(account.metadata ?? {}), scope: tokens.scope, connected_at: now },
+      connected_by: member.id,
+      updated_at: now,
+    };
+
+    const { data: existing, error: lookupError } = await admin
+      .from("social_platforms")
+      .select("id")
+      .eq("platform_name", platform)
+      .order("updated_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (lookupError) throw lookupError;
+
+    const { error } = existing
+      ? await admin.from("social_platforms").update(row).eq("id", existing.id)
+      : await admin.from("social_platforms").insert(row);
+    if (error) throw error;
+
+    return finish({ connected: platform });
+  } catch (e) {
+    return finish({ error: (e as Error)?.message ?? String(e) });
+  }
+}
@@ -0,0 +1,81 @@
+// GET /api/social-platforms/oauth/<platform>/start
+// Begins the OAuth authorization-code flow for a social platform: checks the
+// caller is an admin, stores state + PKCE verifier in a short-lived cookie and
+// redirects to the provider's consent screen.
+
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/src/lib/supabase/server";
+import { getPlatformAdapter } from "@/src/lib/platforms/registry";
+import {
+  OAUTH_COOKIE_MAX_AGE_SECONDS,
+  OAUTH_COOKIE_NAME,
+  OAUTH_COOKIE_PATH,
+  buildAuthorizeUrl,
+  createPkcePair,
+  encodePendingAuthorization,
+  oauthRedirectUri,
+  randomState,
+} from "@/src/lib/platforms/oauth";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ platform: string }> }
+) {
+  const { platform } = await params;
+  const settingsUrl = new URL("/social-media/settings", req.url);
+  const fail = (message: string) => {
+    settingsUrl.searchParams.set("oauth_error", message);
+    return NextResponse.redirect(settingsUrl);
+  };
+
+  try {
+    const adapter = getPlatformAdapter(platform);
+    if (!adapter) return fail(`Unknown platform: ${platform}`);
+
+    const db = await supabaseServer();
+    const {
+      data: { user },
+    } = await db.auth.getUser();
+    if (!user) return NextResponse.redirect(new URL("/login", req.url));
+
+    const { data: member } = await db
+      .from("team_members")
+      .select("id, role")
+      .eq("user_id", user.id)
+      .eq("is_active", true)
+      .single();
+    if (!member || member.role !== "admin") {
+      return fail("Only admins can connect social platforms");
+    }
+
+    const state = randomState();
+    const pkce = adapter.oauth.pkce ? createPkcePair() : null;
+    const authorizeUrl = buildAuthorizeUrl(adapter, {
+      state,
+      redirectUri: oauthRedirectUri(platform, req.nextUrl.origin),
+      codeChallenge: pkce?.challenge ?? null,
+    });
+
+    const res = NextResponse.redirect(authorizeUrl);
+    res.cookies.set(
+      OAUTH_COOKIE_NAME,
+      encodePendingAuthorization({
+        platform,
+        state,
+        codeVerifier: pkce?.verifier ?? null,
+        memberId: member.id,
+        createdAt: Date.now(),
+      }),
+      {
+        httpOnly: true,
+        secure: req.nextUrl.protocol === "https:",
+        sameSite: "lax",
+        path: OAUTH_COOKIE_PATH,
+        maxAge: OAUTH_COOKIE_MAX_AGE_SECONDS,
+      }
+    );
+    return res;
+  } catch (e) {
+    return fail((e as Error)?.message ?? String(e));
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * /api/social-platforms/rotate-key — Token encryption key rotation
+ *
+ * Operator command, run once after changing SOCIAL_TOKEN_ENCRYPTION_KEY:
+ *
+ *   curl -X POST "$APP_BASE_URL/api/social-platforms/rotate-key?secret=$CRON_SECRET"
+ *
+ * Re-wraps the access and refresh token of every `social_platforms` row and
+ * every Google Calendar connection (`google_oauth_tokens`) under the current
+ * key (see token-crypto.ts) and encrypts any legacy plaintext tokens.  Rows already on the current key are left alone, so the command is
+ * safe to re-run.  Keep the old key in SOCIAL_TOKEN_ENCRYPTION_KEY_PREVIOUS
+ * until a run reports `failed: 0`.
+ *
+ * Security: requires `?secret=CRON_SECRET`; refuses to run when CRON_SECRET
+ * is not configured.
+ */
+
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/src/lib/supabase/admin';
+import { rewrapToken } from '@/src/lib/platforms/token-crypto';
+
+type Admin = ReturnType<typeof supabaseAdmin>;
+
+interface RotationSummary {
+  checked: number;
+  rotated: number;
+  unchanged: number;
+  failed: number;
+  errors: string[];
+}
+
+/** Tables holding encrypted tokens, with the column that identifies a row. */
+const TOKEN_TABLES = [
+  { table: 'social_platforms', idColumn: 'id', labelColumn: 'platform_name' },
+  { table: 'google_oauth_tokens', idColumn: 'user_id', labelColumn: null },
+] as const;
+
+async function rewrapTable(admin: Admin, spec: (typeof TOKEN_TABLES)[number], summary: RotationSummary) {
+  const columns = [spec.idColumn, spec.labelColumn, 'access_token', 'refresh_token'].filter(Boolean).join(', ');
+  const { data, error } = await admin.from(spec.table).select(columns);
+  if (error) throw error;
+
+  type TokenRow = Record<string, string | null>;
+
+  for (const row of (data ?? []) as unknown as TokenRow[]) {
+    const id = String(row[spec.idColumn]);
+    summary.checked++;
+    try {
+      const accessToken = row.access_token ? rewrapToken(row.access_token) : null;
+      const refreshToken = row.refresh_token ? rewrapToken(row.refresh_token) : null;
+      if (accessToken === null && refreshToken === null) {
+        summary.unchanged++;
+        continue;
+      }
+
+      const { error: updateError } = await admin
+        .from(spec.table)
+        .update({
+          ...(accessToken !== null ? { access_token: accessToken } : {}),
+          ...(refreshToken !== null ? { refresh_token: refreshToken } : {}),
+        })
+        .eq(spec.idColumn, id);
+      if (updateError) throw updateError;
+
+      summary.rotated++;
+    } catch (err) {
+      summary.failed++;
+      const label = spec.labelColumn ? `${row[spec.labelColumn]} (${id})` : id;
+      summary.errors.push(`${spec.table} ${label}: ${(err as Error)?.message ?? String(err)}`);
+    }
+  }
+}
+
+export async function POST(req: Request) {
+  // ── Auth check ──────────────────────────────────────────────────────────────
+  const secret = process.env.CRON_SECRET;
+  const provided = new URL(req.url).searchParams.get('secret');
+  if (!secret || provided !== secret) {
+    return NextResponse.json({ error: 'unauthorized' }, { status: 401 });
+  }
+
+  const summary: RotationSummary = { checked: 0, rotated: 0, unchanged: 0, failed: 0, errors: [] };
+
+  try {
+    const admin = supabaseAdmin();
+    for (const spec of TOKEN_TABLES) await rewrapTable(admin, spec, summary);
+
+    return NextResponse.json({ ok: summary.failed === 0, ...summary });
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { error: (err as Error)?.message ?? 'key rotation failed', ...summary },
+      { status: 500 }
+    );
+  }
+}
@@ -18,6 +18,21 @@ import { prettyDate } from "@/src/lib/format";
 import { PageShell } from "@/src/components/PageShell";
 import ResizableSidebar from "@/src/components/ResizableSidebar";
 import { useRecording } from "@/src/context/RecordingContext";
+import { TranscriptViewer } from "@/src/components/meetings/TranscriptViewer";
+import { SuggestedTasks, type SuggestedTask } from "@/src/components/meetings/SuggestedTasks";
+import { RecordingUploads } from "@/src/components/meetings/RecordingUploads";
+import { MinutesReview } from "@/src/components/meetings/MinutesReview";
+import { AgendaHistory } from "@/src/components/meetings/AgendaHistory";
+import { MeetingSeries } from "@/src/components/meetings/MeetingSeries";
+import { pushMeetingToGoogleCalendar } from "@/src/components/meetings/GoogleCalendarConnect";
+import { describeRRule } from "@/src/lib/rrule";
+import {
+  expandMeetingOccurrences,
+  formatOccurrence,
+  nextMeetingOccurrence,
+  type MeetingOccurrence,
+  type OccurrenceException,
+} from "@/src/lib/meetings/series";
 
 export const dynamic = 'force-dynamic';
 
@@ -28,12 +43,27 @@ type Meeting = {
   start_at: string;
   duration_minutes: number;
   rrule: string | null;
+  timezone: string | null;
   minutes_reminder_frequency?: "none" | "daily" | "weekly" | null;
 };
 
 type Profile = { id: string; full_name: string | null; email?: string | null; color_hex: string | null };
 
-type Attendee = { email: string; full_name: string | null; user_id: string | null; color_hex?: string | null };
+type Attendee = {
+  email: string;
+  full_name: string | null;
+  user_id: string | null;
+  color_hex?: string | null;
+  /** Google Calendar responseStatus, synced back from the meeting's event */
+  rsvp_status?: string | null;
+};
+
+const RSVP_LABELS: Record<string, string> = {
+  accepted: "Accepted",
+  tentative: "Maybe",
+  declined: "Declined",
+  needsAction: "No reply",
+};
 
 type Column = { id: string; name: string; position: number };
 
@@ -117,6 +147,15 @@ type OngoingNote = {
 
 type LatestEventMap = Record<string, TaskEvent | undefined>;
 
+/** Minutes file formats offered by /api/meetings/ai/session-export and send-notes. */
+type MinutesFileFormat = "pdf" | "docx" | "md";
+
+const MINUTES_FILE_FORMATS: Array<{ value: MinutesFileFormat; label: string }> = [
+  { value: "pdf", label: "PDF" },
+  { value: "docx", label: "DOCX" },
+  { value: "md", label: "Markdown" },
+];
+
 function sortByPos<T extends { position: number }>(arr: T[]): T[] {
   return [...arr].sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
 }
@@ -269,9 +308,16 @@ export default function MeetingDetailPage() {
   const [agendaNotes, setAgendaNotes] = useState<Record<string, string>>({});
   const [prevAgendaNotes, setPrevAgendaNotes] = useState<Record<string, string>>({});
   const [latestEventByTask, setLatestEventByTask] = useState<LatestEventMap>({});
+  const [suggestedTasks, setSuggestedTasks] = useState<SuggestedTask[]>([]);
+  const [suggestionBusyId, setSuggestionBusyId] = useState<string | null>(null);
 
   // Kanban filters
   const [tasksCollapsed, setTasksCollapsed] = useState(false);
+  // Sidebar: agenda minutes, the transcript viewer (?transcript=<session id>&t=<seconds> opens it),
+  // reviewing AI minutes against the transcript, or each agenda item's history across sessions
+  const [sidebarView, setSidebarView] = useState<"minutes" | "transcript" | "review" | "history">(
+    search?.get("transcript") ? "transcript" : "minutes"
+  );
   const [milestonesCollapsed, setMilestonesCollapsed] = useState(false);
   const [notesCollapsed, setNotesCollapsed] = useState(false);
   const [tasksView, setTasksView] = useState<"board" | "calendar">("board");
@@ -296,14 +342,16 @@ export default function MeetingDetailPage() {
   // UI toggles
   const [prevMeetingsOpen, setPrevMeetingsOpen] = useState(false);
   const [sendNotesOpen, setSendNotesOpen] = useState(false);
+  const [sendNotesFormats, setSendNotesFormats] = useState<MinutesFileFormat[]>(["pdf"]);
   const [prevSessions, setPrevSessions] = useState<MinutesSession[]>([]);
   const [statusMgrOpen, setStatusMgrOpen] = useState(false);
   const [priorityMgrOpen, setPriorityMgrOpen] = useState(false);
   const [attendeesMgrOpen, setAttendeesMgrOpen] = useState(false);
   const [emailSettingsOpen, setEmailSettingsOpen] = useState(false);
-  const [reminderFreq, setReminderFreq] = useState<
-  "none" | "daily" | "weekdays" | "weekly" | "biweekly" | "monthly"
->("weekly");
+  // Hours before the next occurrence; 0 = reminders off.
+  const [reminderLeadHours, setReminderLeadHours] = useState(24);
+  const [seriesOpen, setSeriesOpen] = useState(false);
+  const [occurrenceExceptions, setOccurrenceExceptions] = useState<OccurrenceException[]>([]);
 
   // Start Meeting checklist modal
   const [startMeetingOpen, setStartMeetingOpen] = useState(false);
@@ -386,6 +434,9 @@ export default function MeetingDetailPage() {
     startRecording: globalStartRecording,
     stopRecordingAndUpload: globalStopAndUpload,
     concludeMeeting: globalConcludeMeeting,
+    uploads: recordingUploads,
+    clearUploads: clearRecordingUploads,
+    retryUploads: retryRecordingUploads,
   } = useRecording();
 
   // Audio device enumeration and preview functions
@@ -656,6 +707,11 @@ function formatTaskEventLine(opts: { event: TaskEvent; columns: Column[] }): str
 
   if (e.event_type === "deleted") return "Deleted";
 
+  if (e.event_type === "ai_suggested") {
+    const title = String(p?.title ?? "").trim();
+    return title ? `Accepted AI-suggested task: ${title}` : "Accepted AI-suggested task";
+  }
+
   if (e.event_type === "moved") {
     const fromId = String(p?.from ?? "");
     const toId = String(p?.to ?? "");
@@ -880,11 +936,12 @@ function formatTaskEventLine(opts: { event: TaskEvent; columns: Column[] }): str
   async function loadAll() {
     const m = await sb
       .from("meetings")
-      .select("id,title,location,start_at,duration_minutes,rrule")
+      .select("id,title,location,start_at,duration_minutes,rrule,timezone")
       .eq("id", meetingId)
       .single();
     if (m.error) throw m.error;
     setMeeting(m.data as Meeting);
+    await loadOccurrenceExceptions();
 
     const pr = await sb
       .from("profiles")
@@ -894,7 +951,7 @@ function formatTaskEventLine(opts: { event: TaskEvent; columns: Column[] }): str
 
     const at = await sb
       .from("meeting_attendees")
-      .select("email,full_name,user_id,color_hex")
+      .select("email,full_name,user_id,color_hex,rsvp_status")
       .eq("meeting_id", meetingId)
       .order("created_at", { ascending: true });
     if (!at.error) setAttendees((at.data ?? []) as Attendee[]);
@@ -919,6 +976,7 @@ function formatTaskEventLine(opts: { event: TaskEvent; columns: Column[] }): str
     const taskRows = (t.data ?? []) as Task[];
     setTasks(taskRows);
     await loadLatestEvents(taskRows.map((x) => x.id));
+    await loadSuggestedTasks();
 
     // Load milestones
     const mil = await sb
@@ -962,6 +1020,8 @@ function formatTaskEventLine(opts: { event: TaskEvent; columns: Column[] }): str
     if (prevSessionId) {
       await selectPreviousSession(prevSessionId);
     }
+
+    if (search?.get("transcript")) await loadPreviousSessions();
   }
 
   useEffect(() => {
@@ -1481,6 +1541,109 @@ function formatTaskEventLine(opts: { event: TaskEvent; columns: Column[] }): str
     }
   }
 
+  async function loadSuggestedTasks() {
+    const res = await sb
+      .from("meeting_suggested_tasks")
+      .select(
+        "id,session_id,title,owner_label,owner_id,owner_email,due_date,priority,evidence,created_at,session:meeting_minutes_sessions(started_at,session_number)"
+      )
+      .eq("meeting_id", meetingId)
+      .eq("status", "pending")
+      .order("created_at", { ascending: true });
+    // ignore if the table doesn't exist yet
+    if (!res.error) setSuggestedTasks((res.data ?? []) as unknown as SuggestedTask[]);
+  }
+
+  function suggestionOwner(s: SuggestedTask) {
+    const email = (s.owner_email || "").toLowerCase();
+    const attendeeOwner =
+      attendees.find((a) => s.owner_id && a.user_id === s.owner_id) ||
+      attendees.find((a) => email && String(a.email || "").toLowerCase() === email);
+    const profileOwner =
+      profiles.find((p) => s.owner_id && p.id === s.owner_id) ||
+      profiles.find((p) => email && String(p.email || "").toLowerCase() === email);
+
+    const rawName = attendeeOwner?.full_name?.trim() || profileOwner?.full_name?.trim() || null;
+    const resolvedEmail = email || attendeeOwner?.email?.trim() || profileOwner?.email?.trim() || null;
+
+    return {
+      owner_id: s.owner_id ?? attendeeOwner?.user_id ?? null,
+      owner_email: resolvedEmail,
+      owner_name: resolvedEmail ? formatAttendeeLabel(rawName, resolvedEmail) : null,
+    };
+  }
+
+  async function acceptSuggestedTask(s: SuggestedTask) {
+    const column = cols[0];
+    if (!column) return;
+    setSuggestionBusyId(s.id);
+    setErr(null);
+    try {
+      const { data: userData } = await sb.auth.getUser();
+      const userId = userData?.user?.id ?? null;
+      const owner = suggestionOwner(s);
+      const maxPos = Math.max(0, ...tasks.filter((x) => x.column_id === column.id).map((x) => x.position ?? 0));
+
+      const created = await sb
+        .from("meeting_tasks")
+        .insert({
+          meeting_id: meetingId,
+          column_id: column.id,
+          title: s.title,
+          status: statusOpts[0]?.name ?? "In Progress",
+          priority: s.priority,
+          ...owner,
+          due_date: s.due_date,
+          notes: s.evidence ? `From the meeting: “${s.evidence}”` : null,
+          position: maxPos + 1,
+          created_by: userId,
+        })
+        .select("id,column_id,title,status,priority,owner_id,owner_email,owner_name,start_date,due_date,notes,position,updated_at")
+        .single();
+      if (created.error) throw created.error;
+
+      const newTask = created.data as Task;
+      setTasks((prev) => [...prev, newTask]);
+      await writeTaskEvent(newTask.id, "ai_suggested", {
+        title: newTask.title,
+        session_id: s.session_id,
+        suggestion_id: s.id,
+      });
+
+      const upd = await sb
+        .from("meeting_suggested_tasks")
+        .update({ status: "accepted", task_id: newTask.id, decided_by: userId, decided_at: new Date().toISOString() })
+        .eq("id", s.id);
+      if (upd.error) throw upd.error;
+
+      setSuggestedTasks((prev) => prev.filter((x) => x.id !== s.id));
+      await refreshLatestForTask(newTask.id);
+    } catch (e: unknown) {
+      const error = e as Error;
+      setErr(error?.message ?? "Failed to accept suggested task");
+    } finally {
+      setSuggestionBusyId(null);
+    }
+  }
+
+  async function dismissSuggestedTask(s: SuggestedTask) {
+    setSuggestionBusyId(s.id);
+    try {
+      const { data: userData } = await sb.auth.getUser();
+      const upd = await sb
+        .from("meeting_suggested_tasks")
+        .update({ status: "dismissed", decided_by: userData?.user?.id ?? null, decided_at: new Date().toISOString() })
+        .eq("id", s.id);
+      if (upd.error) throw upd.error;
+      setSuggestedTasks((prev) => prev.filter((x) => x.id !== s.id));
+    } catch (e: unknown) {
+      const error = e as Error;
+      setErr(error?.message ?? "Failed to dismiss suggested task");
+    } finally {
+      setSuggestionBusyId(null);
+    }
+  }
+
   async function onDragEnd(ev: DragEndEvent) {
     const activeId = String(ev.active.id);
     const overId = ev.over ? String(ev.over.id) : null;
@@ -1725,8 +1888,9 @@ function formatTaskEventLine(opts: { event: TaskEvent; columns: Column[] }): str
   setErr(null);
   setInfo(null);
   try {
-    // Stop and upload recording if active, then reset recording state
-    await globalConcludeMeeting();
+    // Stop recording if active and make sure every segment is stored; this
+    // throws (and nothing is queued) while segments are still uploading.
+    const { storedSegments } = await globalConcludeMeeting(currentSession.id);
 
     const res = await fetch("/api/meetings/ai/conclude", {
       method: "POST",
@@ -1735,6 +1899,7 @@ function formatTaskEventLine(opts: { event: TaskEvent; columns: Column[] }): str
         meetingId,
         sessionId: currentSession.id,
         referenceLink: minutesReferenceLink || null,
+        expectedSegments: storedSegments || undefined,
       }),
     });
 
@@ -1744,6 +1909,7 @@ function formatTaskEventLine(opts: { event: TaskEvent; columns: Column[] }): str
     }
     const j = await res.json().catch((): ConcludeResponse => ({}));
     if (!res.ok) throw new Error(j?.error || "Failed to conclude meeting");
+    await clearRecordingUploads(currentSession.id);
 
     const s = await sb
       .from("meeting_minutes_sessions")
@@ -1797,6 +1963,7 @@ function formatTaskEventLine(opts: { event: TaskEvent; columns: Column[] }): str
 
         if (status === "done") {
           await loadAgendaNotes(pollSessionId, true);
+          await loadSuggestedTasks();
           const s2 = await sb
             .from("meeting_minutes_sessions")
             .select("id,started_at,ended_at,pdf_path,ai_status,ai_error,session_number")
@@ -1882,6 +2049,7 @@ function formatTaskEventLine(opts: { event: TaskEvent; columns: Column[] }): str
           if (status === "done") {
             reachedTerminal = true;
             await loadAgendaNotes(pollSessionId, true);
+            await loadSuggestedTasks();
             const s2 = await sb
               .from("meeting_minutes_sessions")
               .select("id,started_at,ended_at,pdf_path,ai_status,ai_error,session_number")
@@ -1941,7 +2109,7 @@ function formatTaskEventLine(opts: { event: TaskEvent; columns: Column[] }): str
       const res = await fetch("/api/meetings/ai/send-notes", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ meetingId, sessionId, sentById }),
+        body: JSON.stringify({ meetingId, sessionId, sentById, formats: sendNotesFormats }),
       });
       interface SendNotesResponse {
         error?: string;
@@ -2026,7 +2194,12 @@ async function selectPreviousSession(sessionId: string) {
   const up = await sb
     .from("meeting_email_settings")
     .upsert(
-      { meeting_id: meetingId, reminder_frequency: reminderFreq, updated_at: new Date().toISOString() },
+      {
+        meeting_id: meetingId,
+        reminder_frequency: reminderLeadHours > 0 ? "next_occurrence" : "none",
+        reminder_lead_hours: reminderLeadHours > 0 ? reminderLeadHours : 24,
+        updated_at: new Date().toISOString(),
+      },
       { onConflict: "meeting_id" }
     );
 
@@ -2042,18 +2215,29 @@ async function selectPreviousSession(sessionId: string) {
   }
 
   async function loadReminderSettings() {
-    const r = await sb.from("meeting_email_settings").select("reminder_frequency").eq("meeting_id", meetingId).single();
+    const r = await sb
+      .from("meeting_email_settings")
+      .select("reminder_frequency,reminder_lead_hours")
+      .eq("meeting_id", meetingId)
+      .single();
     interface ReminderSettings {
-      reminder_frequency?: "none" | "daily" | "weekdays" | "weekly" | "biweekly" | "monthly";
+      reminder_frequency?: string | null;
+      reminder_lead_hours?: number | null;
     }
     if (!r.error && r.data) {
       const settings = r.data as ReminderSettings;
-      if (settings.reminder_frequency) {
-        setReminderFreq(settings.reminder_frequency ?? "weekly");
-      }
+      setReminderLeadHours(settings.reminder_frequency === "none" ? 0 : settings.reminder_lead_hours ?? 24);
     }
   }
 
+  async function loadOccurrenceExceptions() {
+    const r = await sb
+      .from("meeting_occurrence_exceptions")
+      .select("original_start,action,moved_start_at")
+      .eq("meeting_id", meetingId);
+    if (!r.error) setOccurrenceExceptions((r.data ?? []) as OccurrenceException[]);
+  }
+
 
 
   async function addStatus(name: string) {
@@ -2169,8 +2353,11 @@ async function selectPreviousSession(sessionId: string) {
       email: trimmedEmail, 
       full_name: trimmedName || null,
       color_hex: color || null
-    }).select("email,full_name,user_id,color_hex").single();
-    if (!ins.error) setAttendees((prev) => [...prev, ins.data]);
+    }).select("email,full_name,user_id,color_hex,rsvp_status").single();
+    if (!ins.error) {
+      setAttendees((prev) => [...prev, ins.data]);
+      void pushMeetingToGoogleCalendar(meetingId);
+    }
   }
 
   async function updateAttendee(email: string, fullName: string, color: string) {
@@ -2197,6 +2384,7 @@ async function selectPreviousSession(sessionId: string) {
       .eq("meeting_id", meetingId)
       .eq("email", email);
     setAttendees((prev) => prev.filter((a) => a.email?.toLowerCase() !== email.toLowerCase()));
+    void pushMeetingToGoogleCalendar(meetingId);
   }
 
   useEffect(() => {
@@ -2204,6 +2392,23 @@ async function selectPreviousSession(sessionId: string) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [meetingId]);
 
+  const nextOccurrence = useMemo(
+    () => (meeting?.rrule ? nextMeetingOccurrence(meeting, occurrenceExceptions) : null),
+    [meeting, occurrenceExceptions]
+  );
+
+  // Occurrences across the calendar grid (which spills into the neighbouring months).
+  const calendarOccurrences = useMemo<MeetingOccurrence[]>(
+    () =>
+      meeting
+        ? expandMeetingOccurrences(meeting, occurrenceExceptions, {
+            from: new Date(calendarYear, calendarMonth, -7),
+            to: new Date(calendarYear, calendarMonth + 1, 8),
+          })
+        : [],
+    [meeting, occurrenceExceptions, calendarYear, calendarMonth]
+  );
+
   return (
     <PageShell>
       {!meeting ? (
@@ -2217,7 +2422,17 @@ async function selectPreviousSession(sessionId: string) {
                 {prettyDate(meeting.start_at)} • {meeting.duration_minutes} min
                 {meeting.location ? ` • ${meeting.location}` : ""}
               </div>
-              {meeting.rrule && <div className="text-xs text-slate-500 mt-1">Recurring: {meeting.rrule}</div>}
+              {meeting.rrule && (
+                <div className="text-xs text-slate-500 mt-1">
+                  Recurring: {describeRRule(meeting.rrule)}
+                  {nextOccurrence && (
+                    <>
+                      {" "}• Next: {formatOccurrence(nextOccurrence.startAt, meeting.timezone)}
+                      {nextOccurrence.moved ? " (moved)" : ""}
+                    </>
+                  )}
+                </div>
+              )}
               {isRecording && (
                 <div className="mt-2 flex items-center gap-1.5 text-xs text-red-600 font-medium">
                   <span className="inline-block w-2 h-2 rounded-full bg-red-500/100 animate-pulse" />
@@ -2237,6 +2452,7 @@ async function selectPreviousSession(sessionId: string) {
                   { label: "Edit note categories", onClick: () => setNoteCategoriesOpen(true) },
                   { label: "Edit attendees", onClick: () => setAttendeesMgrOpen(true) },
                   { label: "Email settings", onClick: () => setEmailSettingsOpen(true) },
+                  { label: "Meeting series", onClick: () => setSeriesOpen(true) },
                 ]}
               />
               
@@ -2298,7 +2514,69 @@ async function selectPreviousSession(sessionId: string) {
             collapsedWidth={56}
             sidebar={
               <div className="space-y-6">
-                <Card title="Agenda + Minutes">
+                <Card
+                  title={
+                    sidebarView === "minutes"
+                      ? "Agenda + Minutes"
+                      : sidebarView === "transcript"
+                        ? "Transcript"
+                        : sidebarView === "review"
+                          ? "Review AI minutes"
+                          : "Agenda history"
+                  }
+                  right={
+                    <div className="flex border rounded-lg overflow-hidden">
+                      {(["minutes", "transcript", "review", "history"] as const).map((view) => (
+                        <button
+                          key={view}
+                          type="button"
+                          className={`px-3 py-1 text-sm ${
+                            sidebarView === view
+                              ? "bg-blue-500/100 text-white"
+                              : "bg-surface text-slate-300 hover:bg-base"
+                          }`}
+                          onClick={() => {
+                            setSidebarView(view);
+                            if (view === "transcript" || view === "review") void loadPreviousSessions();
+                          }}
+                        >
+                          {view === "minutes"
+                            ? "Minutes"
+                            : view === "transcript"
+                              ? "Transcript"
+                              : view === "review"
+                                ? "Review"
+                                : "History"}
+                        </button>
+                      ))}
+                    </div>
+                  }
+                >
+                  {sidebarView === "transcript" ? (
+                    <TranscriptViewer
+                      sessions={prevSessions}
+                      initialSessionId={search?.get("transcript")}
+                      initialSeconds={search?.get("t") ? Number(search.get("t")) : null}
+                    />
+                  ) : sidebarView === "history" ? (
+                    <AgendaHistory
+                      meetingId={meetingId}
+                      onOpenSession={(sessionId) => {
+                        setSidebarView("minutes");
+                        void selectPreviousSession(sessionId);
+                      }}
+                    />
+                  ) : sidebarView === "review" ? (
+                    <MinutesReview
+                      sessions={prevSessions}
+                      agenda={sortByPos(agenda)}
+                      onNotesChanged={(sessionId, agendaItemId, notes) => {
+                        if (sessionId === prevSession?.id) {
+                          setPrevAgendaNotes((prev) => ({ ...prev, [agendaItemId]: notes }));
+                        }
+                      }}
+                    />
+                  ) : (
 <div className="space-y-4">
                     {agenda.length === 0 ? (
                       <div className="text-sm text-slate-400">No agenda topics yet.</div>
@@ -2334,6 +2612,7 @@ async function selectPreviousSession(sessionId: string) {
                       ))
                     )}
                   </div>
+                  )}
                 </Card>
               </div>
             }
@@ -2394,6 +2673,16 @@ async function selectPreviousSession(sessionId: string) {
               >
                 {!tasksCollapsed && (
                 <>
+                  <SuggestedTasks
+                    suggestions={suggestedTasks}
+                    ownerName={(s) => suggestionOwner(s).owner_name}
+                    targetColumnName={cols[0]?.name ?? null}
+                    busyId={suggestionBusyId}
+                    onAccept={(s) => void acceptSuggestedTask(s)}
+                    onDismiss={(s) => void dismissSuggestedTask(s)}
+                    onOpenSession={(sessionId) => void selectPreviousSession(sessionId)}
+                  />
+
                   {/* Filter bar */}
                   <div className="mb-4 p-3 bg-base rounded-lg border">
                     <div className="grid gap-3 md:grid-cols-4">
@@ -2517,6 +2806,8 @@ async function selectPreviousSession(sessionId: string) {
                     statusColor={statusColor}
                     priorityColor={priorityColor}
                     getOwnerColor={getOwnerColor}
+                    occurrences={calendarOccurrences}
+                    timezone={meeting.timezone}
                   />
                 )}
                 </>
@@ -2948,7 +3239,21 @@ async function selectPreviousSession(sessionId: string) {
                                   ))}
                                 </ul>
                               ) : (
-                                <div>{formatTaskEventLine({ event: e, columns })}</div>
+                                <div>
+                                  {formatTaskEventLine({ event: e, columns })}
+                                  {e.event_type === "ai_suggested" && e.payload?.session_id ? (
+                                    <button
+                                      type="button"
+                                      className="ml-2 text-xs text-blue-400 hover:underline"
+                                      onClick={() => {
+                                        setTaskOpen(false);
+                                        void selectPreviousSession(String(e.payload.session_id));
+                                      }}
+                                    >
+                                      View session
+                                    </button>
+                                  ) : null}
+                                </div>
                               )}
                             </div>
                           )}
@@ -3040,6 +3345,24 @@ async function selectPreviousSession(sessionId: string) {
               Choose which meeting minutes session to email. (PDF must be generated first.)
             </div>
 
+            <div className="mb-3 flex flex-wrap items-center gap-3 text-xs text-slate-300">
+              <span className="text-slate-400">Attach:</span>
+              {MINUTES_FILE_FORMATS.map((f) => (
+                <label key={f.value} className="flex items-center gap-1.5">
+                  <input
+                    type="checkbox"
+                    checked={sendNotesFormats.includes(f.value)}
+                    onChange={(e) =>
+                      setSendNotesFormats((prev) =>
+                        e.target.checked ? [...prev, f.value] : prev.filter((x) => x !== f.value)
+                      )
+                    }
+                  />
+                  {f.label}
+                </label>
+              ))}
+            </div>
+
             <div className="space-y-2">
               {prevSessions.length === 0 && !currentSession ? (
                 <div className="text-sm text-slate-400">No sessions found.</div>
@@ -3067,7 +3390,7 @@ async function selectPreviousSession(sessionId: string) {
                         <Button
                           variant="ghost"
                           onClick={() => sendMeetingNotes(s.id)}
-                          disabled={!s.pdf_path}
+                          disabled={!s.pdf_path || sendNotesFormats.length === 0}
                         >
                           Send
                         </Button>
@@ -3079,6 +3402,19 @@ async function selectPreviousSession(sessionId: string) {
                         >
                           {s.pdf_path ? "View PDF" : s.ai_status === "error" ? "No PDF" : "Processing"}
                         </button>
+                        {s.ended_at && (
+                          <div className="flex gap-2 text-xs">
+                            {MINUTES_FILE_FORMATS.filter((f) => f.value !== "pdf").map((f) => (
+                              <a
+                                key={f.value}
+                                className="underline underline-offset-2 hover:opacity-80"
+                                href={`/api/meetings/ai/session-export?sessionId=${encodeURIComponent(s.id)}&format=${f.value}`}
+                              >
+                                {f.label}
+                              </a>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -3288,6 +3624,7 @@ async function selectPreviousSession(sessionId: string) {
                     className="w-12 h-8 rounded border cursor-pointer"
                     title="Attendee color"
                   />
+                  {a.rsvp_status && <Pill>{RSVP_LABELS[a.rsvp_status] ?? a.rsvp_status}</Pill>}
                   <Button variant="ghost" onClick={() => deleteAttendee(a.email)}>
                     Delete
                   </Button>
@@ -3503,6 +3840,29 @@ async function selectPreviousSession(sessionId: string) {
             </div>
           </Modal>
 
+          {/* Meeting series modal */}
+          <Modal
+            open={seriesOpen}
+            title="Meeting series"
+            onClose={() => setSeriesOpen(false)}
+            footer={
+              <Button variant="ghost" onClick={() => setSeriesOpen(false)}>
+                Close
+              </Button>
+            }
+          >
+            <MeetingSeries
+              meetingId={meetingId}
+              series={meeting}
+              exceptions={occurrenceExceptions}
+              onChanged={async () => {
+                await loadOccurrenceExceptions();
+                // Skips become EXDATEs and moves patch the instance on Google's side.
+                void pushMeetingToGoogleCalendar(meetingId);
+              }}
+            />
+          </Modal>
+
           {/* Email settings modal */}
           <Modal
             open={emailSettingsOpen}
@@ -3521,23 +3881,23 @@ async function selectPreviousSession(sessionId: string) {
           >
             <div className="space-y-3">
               <div className="text-sm text-slate-400">
-                Choose how often the system should email reminders to attendees. If a minutes PDF exists for the latest concluded session, the email can include the PDF link.
-                (This requires Vercel Cron + SMTP, and the Supabase migration included below.)
+                Attendees get one reminder email before each meeting occurrence (skipped occurrences are not reminded,
+                moved ones are reminded at their new time). This requires Vercel Cron + SMTP.
               </div>
 
               <div>
-                <label className="text-xs text-slate-400">Reminder frequency</label>
+                <label className="text-xs text-slate-400">Reminder</label>
                 <select
                   className="w-full rounded-lg border border-white/10 bg-base px-3 py-2 text-sm text-slate-200"
-                  value={reminderFreq}
-                  onChange={(e) => setReminderFreq(e.target.value as "none" | "daily" | "weekdays" | "weekly" | "biweekly" | "monthly")}
+                  value={reminderLeadHours}
+                  onChange={(e) => setReminderLeadHours(Number(e.target.value))}
                 >
-                  <option value="none">None</option>
-                  <option value="daily">Daily</option>
-                  <option value="weekdays">Weekdays (Mon–Fri)</option>
-                  <option value="weekly">Weekly</option>
-                  <option value="biweekly">Every 2 weeks</option>
-                  <option value="monthly">Monthly</option>
+                  <option value={0}>None</option>
+                  <option value={1}>1 hour before</option>
+                  <option value={4}>4 hours before</option>
+                  <option value={24}>1 day before</option>
+                  <option value={48}>2 days before</option>
+                  <option value={168}>1 week before</option>
                 </select>
               </div>
             </div>
@@ -3604,6 +3964,11 @@ async function selectPreviousSession(sessionId: string) {
                   </div>
 
                   {recErr && <div className="text-sm text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg p-2">{recErr}</div>}
+
+                  <RecordingUploads
+                    uploads={recordingUploads.filter((u) => u.sessionId === currentSession?.id)}
+                    onRetry={retryRecordingUploads}
+                  />
                 </div>
               )}
             </div>
@@ -3925,6 +4290,8 @@ function CalendarView({
   statusColor,
   priorityColor,
   getOwnerColor,
+  occurrences = [],
+  timezone,
 }: {
   tasks: Task[];
   milestones: Milestone[];
@@ -3937,8 +4304,16 @@ function CalendarView({
   statusColor: (status: string) => string;
   priorityColor: (priority: string) => string;
   getOwnerColor: (item: { owner_id?: string | null; owner_email?: string | null }) => string;
+  /** Meeting occurrences, marked on their (local) day. */
+  occurrences?: MeetingOccurrence[];
+  timezone?: string | null;
 }) {
   const MAX_BARS_PER_WEEK = 3;
+  const occurrencesByDay = new Map<string, MeetingOccurrence[]>();
+  for (const o of occurrences) {
+    const key = formatDateKey(new Date(o.startAt));
+    occurrencesByDay.set(key, [...(occurrencesByDay.get(key) ?? []), o]);
+  }
   const [expandedWeeks, setExpandedWeeks] = useState<Set<number>>(new Set());
   const days = getMonthDays(year, month);
   const monthName = new Date(year, month, 1).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
@@ -4142,6 +4517,16 @@ function CalendarView({
                     }`}>
                       {date.getDate()}
                     </span>
+                    {(occurrencesByDay.get(formatDateKey(date)) ?? []).map((o) => (
+                      <div
+                        key={o.originalStart}
+                        className="mx-auto mt-0.5 w-fit rounded bg-blue-500/15 px-1.5 text-[10px] font-medium text-blue-300"
+                        title={`Meeting${o.moved ? ' (moved)' : ''}: ${formatOccurrence(o.startAt, timezone)}`}
+                      >
+                        {new Date(o.startAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                        {o.moved ? ' *' : ''}
+                      </div>
+                    ))}
                   </div>
                 );
               })}
@@ -6,6 +6,17 @@ import { supabaseBrowser } from "@/src/lib/supabase/browser";
 import { Button, Card, Input, Modal, Textarea } from "@/src/components/ui";
 import { prettyDate } from "@/src/lib/format";
 import { PageShell } from "@/src/components/PageShell";
+import { MinutesSearch } from "@/src/components/meetings/MinutesSearch";
+import { MinutesTemplates } from "@/src/components/meetings/MinutesTemplates";
+import { GoogleCalendarConnect, pushMeetingToGoogleCalendar } from "@/src/components/meetings/GoogleCalendarConnect";
+import { describeRRule, parseRRule } from "@/src/lib/rrule";
+import {
+  DEFAULT_MEETING_TIMEZONE,
+  expandMeetingOccurrences,
+  formatOccurrence,
+  isValidTimezone,
+  type OccurrenceException,
+} from "@/src/lib/meetings/series";
 
 export const dynamic = 'force-dynamic';
 
@@ -16,9 +27,21 @@ type Meeting = {
   start_at: string;
   duration_minutes: number;
   rrule: string | null;
+  timezone: string | null;
   archived: boolean;
 };
 
+/** Upcoming occurrences shown per meeting on the list. */
+const UPCOMING_OCCURRENCES = 3;
+
+function browserTimezone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_MEETING_TIMEZONE;
+  } catch {
+    return DEFAULT_MEETING_TIMEZONE;
+  }
+}
+
 type ParsedAttendee = { email: string; full_name: string | null };
 
 // Accept formats like:
@@ -109,7 +132,12 @@ export default function MeetingsPage() {
   const [startAt, setStartAt] = useState("");
   const [duration, setDuration] = useState(60);
   const [freq, setFreq] = useState("weekly");
+  const [customRrule, setCustomRrule] = useState("");
+  const [timezone, setTimezone] = useState(browserTimezone);
+  const [exceptionsByMeeting, setExceptionsByMeeting] = useState<Record<string, OccurrenceException[]>>({});
   const [attendees, setAttendees] = useState("");
+  const [templateId, setTemplateId] = useState("");
+  const [templateOptions, setTemplateOptions] = useState<Array<{ id: string; name: string }>>([]);
   const [agendaSeed, setAgendaSeed] = useState(
     "A1 - Opening & Recap\nA2 - Review Milestones\nB1 - Residential Operations\nB2 - Commercial Operations\nC1 - Marketing & Outreach\nC2 - Team Operations\nD1 - Open Discussion"
   );
@@ -120,7 +148,7 @@ export default function MeetingsPage() {
     setLoading(true);
     let q = sb
       .from("meetings")
-      .select("id,title,location,start_at,duration_minutes,rrule,archived")
+      .select("id,title,location,start_at,duration_minutes,rrule,timezone,archived")
       .order("start_at", { ascending: true });
 
     if (!showArchived) {
@@ -129,6 +157,19 @@ export default function MeetingsPage() {
 
     const { data, error } = await q;
     if (!error) setMeetings(data ?? []);
+
+    const ids = (data ?? []).filter((m) => m.rrule).map((m) => m.id);
+    if (ids.length) {
+      const ex = await sb
+        .from("meeting_occurrence_exceptions")
+        .select("meeting_id,original_start,action,moved_start_at")
+        .in("meeting_id", ids);
+      const byMeeting: Record<string, OccurrenceException[]> = {};
+      for (const row of (ex.data ?? []) as Array<OccurrenceException & { meeting_id: string }>) {
+        (byMeeting[row.meeting_id] ??= []).push(row);
+      }
+      setExceptionsByMeeting(byMeeting);
+    }
     setLoading(false);
   }
 
@@ -137,12 +178,26 @@ export default function MeetingsPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [showArchived]);
 
+  useEffect(() => {
+    if (!open) return;
+    void (async () => {
+      const { data, error } = await sb.from("minutes_templates").select("id,name").order("name", { ascending: true });
+      if (!error) setTemplateOptions((data ?? []) as Array<{ id: string; name: string }>);
+    })();
+  }, [open, sb]);
+
   async function saveMeeting() {
     setBusy(true);
     setErr(null);
     try {
       if (!title.trim()) throw new Error("Meeting name is required.");
       if (!startAt) throw new Error("Date/time is required.");
+      let rrule = rruleFromPreset(freq);
+      if (freq === "custom") {
+        rrule = customRrule.trim().replace(/^RRULE:/i, "") || null;
+        if (rrule) parseRRule(rrule); // throws with a readable message
+      }
+      if (timezone.trim() && !isValidTimezone(timezone.trim())) throw new Error(`Unknown timezone: ${timezone.trim()}`);
 
       const { data: userData } = await sb.auth.getUser();
       const userId = userData?.user?.id ?? null;
@@ -157,7 +212,9 @@ export default function MeetingsPage() {
             location: location.trim() || null,
             start_at: new Date(startAt).toISOString(),
             duration_minutes: Number(duration) || 60,
-            rrule: rruleFromPreset(freq),
+            rrule,
+            timezone: timezone.trim() || DEFAULT_MEETING_TIMEZONE,
+            minutes_template_id: templateId || null,
             created_by: userId,
           })
           .select("id")
@@ -172,7 +229,9 @@ export default function MeetingsPage() {
             location: location.trim() || null,
             start_at: new Date(startAt).toISOString(),
             duration_minutes: Number(duration) || 60,
-            rrule: rruleFromPreset(freq),
+            rrule,
+            timezone: timezone.trim() || DEFAULT_MEETING_TIMEZONE,
+            minutes_template_id: templateId || null,
           })
           .eq("id", meetingId);
         if (up.error) throw up.error;
@@ -180,7 +239,14 @@ export default function MeetingsPage() {
 
       // Attendees (store email; map to profile id if exists)
       const parsed = parseAttendees(attendees);
-      // reset attendees for edits
+      // reset attendees for edits, keeping RSVPs synced from Google Calendar
+      const prevRsvp = new Map<string, string>();
+      if (editingMeetingId) {
+        const prev = await sb.from("meeting_attendees").select("email,rsvp_status").eq("meeting_id", meetingId);
+        for (const r of (prev.data ?? []) as Array<{ email: string; rsvp_status: string | null }>) {
+          if (r.rsvp_status) prevRsvp.set(r.email.toLowerCase(), r.rsvp_status);
+        }
+      }
       {
         const del = await sb.from("meeting_attendees").delete().eq("meeting_id", meetingId);
         if (del.error) {
@@ -207,6 +273,7 @@ export default function MeetingsPage() {
             meeting_id: meetingId,
             email: a.email.trim(),
             user_id,
+            rsvp_status: prevRsvp.get(key) ?? null,
           };
         });
 
@@ -263,12 +330,16 @@ export default function MeetingsPage() {
       }
       }
 
-      // Send calendar invites (SMTP + ICS)
-      await fetch("/api/meetings/ai/invite", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ meetingId }),
-      }).catch(() => null);
+      // Google Calendar sends the invites when the meeting is on a connected calendar;
+      // otherwise send them ourselves (SMTP + ICS)
+      const pushed = await pushMeetingToGoogleCalendar(meetingId);
+      if (pushed?.status !== "created" && pushed?.status !== "updated") {
+        await fetch("/api/meetings/ai/invite", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ meetingId }),
+        }).catch(() => null);
+      }
 
       setOpen(false);
       setEditingMeetingId(null);
@@ -277,6 +348,8 @@ export default function MeetingsPage() {
       setStartAt("");
       setDuration(60);
       setAttendees("");
+      setTemplateId("");
+      setCustomRrule("");
       await load();
       window.location.href = `/meetings/${meetingId}`;
     } catch (e: unknown) {
@@ -290,7 +363,7 @@ export default function MeetingsPage() {
     setErr(null);
     const m = await sb
       .from("meetings")
-      .select("id,title,location,start_at,duration_minutes,rrule")
+      .select("id,title,location,start_at,duration_minutes,rrule,timezone,minutes_template_id")
       .eq("id", meetingId)
       .single();
     if (m.error) {
@@ -309,7 +382,10 @@ export default function MeetingsPage() {
     setStartAt(startIso ? new Date(startIso).toISOString().slice(0, 16) : "");
     setDuration(Number(m.data?.duration_minutes ?? 60));
     setFreq(presetFromRrule(m.data?.rrule ?? null));
+    setCustomRrule(String(m.data?.rrule ?? ""));
+    setTimezone(String(m.data?.timezone ?? "") || DEFAULT_MEETING_TIMEZONE);
     setAttendees(aEmails.join("\n"));
+    setTemplateId(String(m.data?.minutes_template_id ?? ""));
     setOpen(true);
   }
 
@@ -326,6 +402,8 @@ export default function MeetingsPage() {
         })
         .eq("id", meetingId);
       if (up.error) throw up.error;
+      // Archiving cancels the Google event; unarchiving puts it back.
+      await pushMeetingToGoogleCalendar(meetingId);
       await load();
     } catch (e: unknown) {
       alert((e as Error)?.message ?? "Failed to update archive status");
@@ -336,6 +414,7 @@ export default function MeetingsPage() {
     const ok = window.confirm("Delete this meeting? This cannot be undone.");
     if (!ok) return;
     try {
+      await pushMeetingToGoogleCalendar(meetingId, { cancel: true });
       const del = await sb.from("meetings").delete().eq("id", meetingId);
       if (del.error) throw del.error;
       await load();
@@ -388,7 +467,32 @@ export default function MeetingsPage() {
                         {prettyDate(m.start_at)} • {m.duration_minutes} min
                       </div>
                       {m.location && <div className="text-sm text-slate-400">{m.location}</div>}
-                      {m.rrule && <div className="mt-2 text-xs text-slate-500">Recurring: {m.rrule}</div>}
+                      {m.rrule && (
+                        <div className="mt-2 text-xs text-slate-500">
+                          <div>Recurring: {describeRRule(m.rrule)}</div>
+                          {!m.archived && (() => {
+                            const upcoming = expandMeetingOccurrences(m, exceptionsByMeeting[m.id] ?? [], {
+                              from: new Date(),
+                              limit: UPCOMING_OCCURRENCES,
+                            });
+                            return upcoming.length ? (
+                              <div className="mt-1">
+                                Next:{" "}
+                                {upcoming.map((o, i) => (
+                                  <span key={o.originalStart}>
+                                    {i > 0 && " · "}
+                                    <span className={o.moved ? "text-amber-300" : "text-slate-300"}>
+                                      {formatOccurrence(o.startAt, m.timezone)}
+                                    </span>
+                                  </span>
+                                ))}
+                              </div>
+                            ) : (
+                              <div className="mt-1">Series ended</div>
+                            );
+                          })()}
+                        </div>
+                      )}
                       {m.archived && <div className="mt-2 text-xs text-slate-500">Archived</div>}
                     </Link>
 
@@ -423,6 +527,12 @@ export default function MeetingsPage() {
           )}
         </Card>
 
+        <GoogleCalendarConnect onSynced={load} />
+
+        <MinutesSearch />
+
+        <MinutesTemplates />
+
         <Modal
           open={open}
           title={editingMeetingId ? "Edit meeting" : "Add meeting"}
@@ -476,6 +586,39 @@ export default function MeetingsPage() {
                 <option value="weekly">Weekly</option>
                 <option value="biweekly">Bi-weekly</option>
                 <option value="monthly">Monthly</option>
+                <option value="custom">Custom (RRULE)</option>
+              </select>
+            </div>
+            {freq === "custom" && (
+              <div className="md:col-span-2">
+                <label className="text-xs text-slate-400">Recurrence rule</label>
+                <Input
+                  value={customRrule}
+                  onChange={(e) => setCustomRrule(e.target.value)}
+                  placeholder="FREQ=MONTHLY;BYDAY=1TU"
+                />
+                {customRrule.trim() && (
+                  <div className="mt-1 text-xs text-slate-500">{describeRRule(customRrule.replace(/^RRULE:/i, ""))}</div>
+                )}
+              </div>
+            )}
+            <div>
+              <label className="text-xs text-slate-400">Timezone</label>
+              <Input value={timezone} onChange={(e) => setTimezone(e.target.value)} placeholder="America/Los_Angeles" />
+            </div>
+            <div>
+              <label className="text-xs text-slate-400">Minutes template</label>
+              <select
+                className="w-full rounded-lg border border-white/10 bg-base px-3 py-2 text-sm text-slate-200"
+                value={templateId}
+                onChange={(e) => setTemplateId(e.target.value)}
+              >
+                <option value="">Team default</option>
+                {templateOptions.map((t) => (
+                  <option key={t.id} value={t.id}>
+                    {t.name}
+                  </option>
+                ))}
               </select>
             </div>
             <div className="md:col-span-2">
@@ -0,0 +1,239 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { PageShell } from "@/src/components/PageShell";
+import { Card, Pill } from "@/src/components/ui";
+import { supabaseBrowser } from "@/src/lib/supabase/browser";
+import {
+  FORECAST_RANGES,
+  formatMoney,
+  loadForecastData,
+  openDealsInRange,
+  pipelineByMonth,
+  pipelineByStage,
+  stageConversion,
+  winLoss,
+  type ForecastData,
+  type ForecastRange,
+  type PipelineRow,
+} from "@/src/lib/crm/forecast";
+
+export const dynamic = "force-dynamic";
+
+function fmtPct(v: number | null) {
+  return v === null ? "—" : `${Math.round(v * 100)}%`;
+}
+
+function SummaryTile({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="rounded-xl border border-white/[0.06] bg-surface px-4 py-3">
+      <div className="text-xs text-slate-400">{label}</div>
+      <div className="text-xl font-semibold mt-1">{value}</div>
+      {hint ? <div className="text-xs text-slate-500 mt-0.5">{hint}</div> : null}
+    </div>
+  );
+}
+
+/** Pipeline rows with a bar scaled to the largest weighted value. */
+function PipelineTable({ rows, firstColumn, showDefault }: { rows: PipelineRow[]; firstColumn: string; showDefault?: boolean }) {
+  if (!rows.some((r) => r.deals)) {
+    return <div className="text-sm text-slate-500">No open deals in this range.</div>;
+  }
+  const best = Math.max(...rows.map((r) => r.weighted)) || 1;
+  return (
+    <div className="overflow-auto rounded-lg border">
+      <table className="min-w-full text-sm">
+        <thead className="bg-base">
+          <tr>
+            <th className="text-left px-3 py-2 border-b">{firstColumn}</th>
+            {showDefault ? <th className="text-right px-3 py-2 border-b">Default</th> : null}
+            <th className="text-right px-3 py-2 border-b">Deals</th>
+            <th className="text-right px-3 py-2 border-b">Value</th>
+            <th className="text-right px-3 py-2 border-b">Weighted</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r) => (
+            <tr key={r.key || r.label} className="odd:bg-surface even:bg-base">
+              <td className="px-3 py-2 border-b">
+                <div>{r.label}</div>
+                <div className="mt-1 h-1.5 rounded-full bg-white/[0.06] overflow-hidden">
+                  <div className="h-full rounded-full bg-emerald-500/70" style={{ width: `${(r.weighted / best) * 100}%` }} />
+                </div>
+              </td>
+              {showDefault ? (
+                <td className="px-3 py-2 border-b text-right text-slate-400">
+                  {r.defaultProbability === null || r.defaultProbability === undefined ? "—" : `${r.defaultProbability}%`}
+                </td>
+              ) : null}
+              <td className="px-3 py-2 border-b text-right">
+                {r.deals}
+                {r.unvalued ? <span className="text-xs text-slate-500"> ({r.unvalued} no value)</span> : null}
+              </td>
+              <td className="px-3 py-2 border-b text-right">{formatMoney(r.value)}</td>
+              <td className="px-3 py-2 border-b text-right font-medium">{formatMoney(r.weighted)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function SalesForecastPage() {
+  const supabase = useMemo(() => supabaseBrowser(), []);
+  const [range, setRange] = useState<ForecastRange>("this-quarter");
+  const [data, setData] = useState<ForecastData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      setData(await loadForecastData(supabase));
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to load forecast");
+    } finally {
+      setLoading(false);
+    }
+  }, [supabase]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const report = useMemo(() => {
+    if (!data) return null;
+    const deals = openDealsInRange(data.projects, range);
+    const byStage = pipelineByStage(deals, data.stages);
+    return {
+      byStage,
+      byMonth: pipelineByMonth(deals, data.stages),
+      totals: byStage.reduce((t, r) => ({ deals: t.deals + r.deals, value: t.value + r.value, weighted: t.weighted + r.weighted }), {
+        deals: 0,
+        value: 0,
+        weighted: 0,
+      }),
+      winLoss: winLoss(data.projects, range),
+      conversion: stageConversion(data.stages, data.projects, data.history),
+    };
+  }, [data, range]);
+
+  const rangeLabel = FORECAST_RANGES.find((r) => r.value === range)?.label ?? "";
+
+  return (
+    <PageShell>
+      <div className="max-w-5xl space-y-6">
+        <div className="flex flex-wrap items-end justify-between gap-3">
+          <div>
+            <h1 className="text-2xl font-semibold">Forecast</h1>
+            <div className="text-sm text-slate-400 mt-1">
+              Weighted pipeline of open projects (value × probability), win / loss and stage conversion.
+            </div>
+          </div>
+          <div className="flex gap-1.5">
+            {FORECAST_RANGES.map((r) => (
+              <button
+                key={r.value}
+                onClick={() => setRange(r.value)}
+                className={[
+                  "rounded-lg px-3 py-1.5 text-xs transition-colors border",
+                  range === r.value
+                    ? "border-emerald-500/40 bg-emerald-500/10 text-emerald-300"
+                    : "border-white/10 text-slate-400 hover:bg-white/[0.06]",
+                ].join(" ")}
+              >
+                {r.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {error && (
+          <div className="rounded-lg border border-red-500/20 bg-red-500/10 px-4 py-3 text-sm text-red-400">
+            {error}
+          </div>
+        )}
+
+        {loading && !report ? (
+          <div className="rounded-xl border border-white/[0.06] bg-surface px-4 py-3 text-xs text-slate-500">
+            Loading forecast…
+          </div>
+        ) : report ? (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <SummaryTile label="Open pipeline" value={formatMoney(report.totals.value)} hint={`${report.totals.deals} deals`} />
+              <SummaryTile label="Weighted forecast" value={formatMoney(report.totals.weighted)} hint="Value × probability" />
+              <SummaryTile label="Won" value={formatMoney(report.winLoss.won.value)} hint={`${report.winLoss.won.deals} deals`} />
+              <SummaryTile
+                label="Win rate"
+                value={fmtPct(report.winLoss.winRate)}
+                hint={`${fmtPct(report.winLoss.valueWinRate)} by value`}
+              />
+            </div>
+
+            <Card title="By Stage" right={<Pill>Closing {rangeLabel.toLowerCase()}</Pill>}>
+              <PipelineTable rows={report.byStage} firstColumn="Stage" showDefault />
+            </Card>
+
+            <Card title="By Close Month" right={<Pill>Expected close date</Pill>}>
+              <PipelineTable rows={report.byMonth} firstColumn="Month" />
+            </Card>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <Card title="Win / Loss" right={<Pill>Closed {rangeLabel.toLowerCase()}</Pill>}>
+                <div className="text-sm text-slate-300 mb-3">
+                  {report.winLoss.won.deals} won ({formatMoney(report.winLoss.won.value)}) · {report.winLoss.lost.deals} lost (
+                  {formatMoney(report.winLoss.lost.value)})
+                </div>
+                {report.winLoss.reasons.length ? (
+                  <div className="space-y-1.5">
+                    {report.winLoss.reasons.map((r) => (
+                      <div key={`${r.outcome}|${r.reason}`} className="flex items-center justify-between gap-2 text-sm">
+                        <span className="truncate">
+                          <span className={r.outcome === "won" ? "text-emerald-300" : "text-red-400"}>
+                            {r.outcome === "won" ? "Won" : "Lost"}
+                          </span>{" "}
+                          · {r.reason}
+                        </span>
+                        <span className="text-xs text-slate-400 whitespace-nowrap">
+                          {r.deals} · {formatMoney(r.value)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="text-sm text-slate-500">No deals closed in this range.</div>
+                )}
+              </Card>
+
+              <Card title="Stage Conversion" right={<Pill>All time</Pill>}>
+                {report.conversion.length ? (
+                  <div className="space-y-3">
+                    {report.conversion.map((r, i) => (
+                      <div key={r.stageId} className="space-y-1">
+                        <div className="flex items-center justify-between gap-2 text-sm">
+                          <span className="truncate">{r.label}</span>
+                          <span className="text-xs text-slate-400 whitespace-nowrap">
+                            {r.advanced} / {r.entered} {i === report.conversion.length - 1 ? "won" : "moved on"} ·{" "}
+                            <span className="text-slate-200">{fmtPct(r.rate)}</span>
+                          </span>
+                        </div>
+                        <div className="h-1.5 rounded-full bg-white/[0.06] overflow-hidden">
+                          <div className="h-full rounded-full bg-emerald-500/70" style={{ width: `${(r.rate ?? 0) * 100}%` }} />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="text-sm text-slate-500">No project stages yet.</div>
+                )}
+              </Card>
+            </div>
+          </>
+        ) : null}
+      </div>
+    </PageShell>
+  );
+}
@@ -4,12 +4,17 @@ import { useEffect, useMemo, useRef, useState, type KeyboardEvent } from "react"
 import { PageShell } from "@/src/components/PageShell";
 import { Button, Card, Input, Modal, Textarea, Pill } from "@/src/components/ui";
 import { supabaseBrowser } from "@/src/lib/supabase/browser";
-import Papa from "papaparse";
-import * as XLSX from "xlsx";
+import { ImportWizard } from "@/src/components/sales-funnel/ImportWizard";
+import { ExportDialog } from "@/src/components/sales-funnel/ExportDialog";
+import { DuplicatesDialog } from "@/src/components/sales-funnel/DuplicatesDialog";
+import { FollowUpsPanel, MyFollowUpsDialog } from "@/src/components/sales-funnel/FollowUps";
+import { endOfLocalDay, followUpDueByEntity, loadOpenFollowUps, type FollowUpDue } from "@/src/lib/crm/follow-ups";
+import { ProjectDealPanel } from "@/src/components/sales-funnel/ProjectDeal";
+import { DEAL_SELECT, effectiveProbability, formatMoney, normalizeDeal, weightedValue, type DealOutcome } from "@/src/lib/crm/forecast";
 
 export const dynamic = 'force-dynamic';
 
-type Stage = { id: string; name: string; position: number };
+type Stage = { id: string; name: string; position: number; default_probability: number | null };
 
 type Company = {
   id: string;
@@ -59,8 +64,6 @@ type Activity = {
   created_by_profile?: { id: string; full_name: string | null } | null;
 };
 
-type ImportRow = Record<string, unknown>;
-
 type CRMViewType = "company" | "contact" | "project";
 
 type CompanyLite = { id: string; name: string };
@@ -83,7 +86,12 @@ type ContactBoard = Contact & {
   company: CompanyLite | null;
 };
 
-type ProjectBoard = Project;
+type ProjectBoard = Project & {
+  value: number | null;
+  expected_close_date: string | null;
+  probability: number | null;
+  outcome: DealOutcome | null;
+};
 
 
 const ACTIVITY_KIND_VALUES = ["Call", "Voicemail", "Text", "Email", "Note"] as const;
@@ -123,15 +131,6 @@ function cleanStr(v: unknown) {
   return s.length ? s : "";
 }
 
-function toKey(s: string) {
-  return cleanStr(s).toLowerCase().replace(/[^a-z0-9]+/g, "");
-}
-
-function truthy(v: unknown) {
-  const s = cleanStr(v).toLowerCase();
-  return ["1", "true", "yes", "y", "main", "primary"].includes(s);
-}
-
 function fmtDT(v: string | null) {
   if (!v) return "";
   const d = new Date(v);
@@ -139,42 +138,18 @@ function fmtDT(v: string | null) {
   return d.toLocaleString();
 }
 
-function normalizeHeaderMap(headers: string[]) {
-  const map = new Map<string, string>();
-  for (const h of headers) map.set(toKey(h), h);
-  return map;
+/** A YYYY-MM-DD date column, shown as that calendar day (not shifted by timezone). */
+function fmtDate(v: string) {
+  const d = new Date(`${v}T00:00:00`);
+  return Number.isNaN(d.getTime()) ? v : d.toLocaleDateString();
 }
 
-function findHeader(map: Map<string, string>, wantedKeys: string[]) {
-  for (const w of wantedKeys) {
-    const hit = map.get(toKey(w));
-    if (hit) return hit;
-  }
+function FollowUpMark({ due }: { due?: FollowUpDue }) {
+  if (due === "overdue") return <div className="text-red-400">⏰ Follow-up overdue</div>;
+  if (due === "today") return <div className="text-amber-300">⏰ Follow-up due today</div>;
   return null;
 }
 
-function makeFullName(first: string, last: string, full: string) {
-  const f = cleanStr(full);
-  if (f) return f;
-  const fn = cleanStr(first);
-  const ln = cleanStr(last);
-  return cleanStr([fn, ln].filter(Boolean).join(" "));
-}
-
-function uniqByLower(values: string[]) {
-  const seen = new Set<string>();
-  const out: string[] = [];
-  for (const v of values) {
-    const k = cleanStr(v).toLowerCase();
-    if (!k) continue;
-    if (!seen.has(k)) {
-      seen.add(k);
-      out.push(cleanStr(v));
-    }
-  }
-  return out;
-}
-
 export default function SalesFunnelPage() {
   const supabase = useMemo(() => supabaseBrowser(), []);
   const [loading, setLoading] = useState(true);
@@ -182,6 +157,8 @@ export default function SalesFunnelPage() {
   // Board view: Company | Contact | Project
   const [viewType, setViewType] = useState<CRMViewType>("company");
   const [viewFilter, setViewFilter] = useState<string>("all");
+  // "all" or a stage id: narrows the board (and exports) to one column.
+  const [stageFilter, setStageFilter] = useState<string>("all");
 
   // Toolbar menus
   const [addMenuOpen, setAddMenuOpen] = useState(false);
@@ -191,6 +168,9 @@ export default function SalesFunnelPage() {
   const [addCompanyOpen, setAddCompanyOpen] = useState(false);
   const [addContactOpen, setAddContactOpen] = useState(false);
   const [importOpen, setImportOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [duplicatesOpen, setDuplicatesOpen] = useState(false);
+  const [myFollowUpsOpen, setMyFollowUpsOpen] = useState(false);
   const [stagesOpen, setStagesOpen] = useState(false);
   const [addProjectOpen, setAddProjectOpen] = useState(false);
   const [projectsOpen, setProjectsOpen] = useState(false);
@@ -205,6 +185,8 @@ export default function SalesFunnelPage() {
   const [contactsBoard, setContactsBoard] = useState<ContactBoard[]>([]);
   const [projectsBoard, setProjectsBoard] = useState<ProjectBoard[]>([]);
   const [search, setSearch] = useState("");
+  // Overdue / due-today follow-ups per board card (company cards include their contacts' and projects').
+  const [followUpMarks, setFollowUpMarks] = useState<Map<string, FollowUpDue>>(new Map());
 
   // Drag state
   const dragEntityIdRef = useRef<string | null>(null);
@@ -260,19 +242,12 @@ export default function SalesFunnelPage() {
   // Stage management
   const [newStageName, setNewStageName] = useState("");
 
-  // Import
-  const [importFileName, setImportFileName] = useState<string>("");
-  const [importRows, setImportRows] = useState<ImportRow[]>([]);
-  const [importError, setImportError] = useState<string>("");
-  const [importDupMode, setImportDupMode] = useState<"skip" | "upsert">("upsert");
-  const [importBusy, setImportBusy] = useState(false);
-
   async function loadBoard() {
     setLoading(true);
     try {
       const stagesRes = await supabase
         .from("crm_stages")
-        .select("id,name,position")
+        .select("id,name,position,default_probability")
         .eq("view_type", viewType)
         .order("position", { ascending: true });
       if (stagesRes.error) throw stagesRes.error;
@@ -358,7 +333,7 @@ export default function SalesFunnelPage() {
       if (viewType === "project") {
         const projectsRes = await supabase
           .from("crm_projects")
-          .select("id,company_id,name,stage_id,website,notes,last_activity_at,created_at,updated_at,company:crm_companies!crm_projects_company_id_fkey(id,name)")
+          .select(`id,company_id,name,stage_id,website,notes,last_activity_at,created_at,updated_at,${DEAL_SELECT},company:crm_companies!crm_projects_company_id_fkey(id,name)`)
           .order("last_activity_at", { ascending: false, nullsFirst: false })
           .order("created_at", { ascending: false });
 
@@ -378,6 +353,7 @@ export default function SalesFunnelPage() {
             created_at: String(r.created_at),
             updated_at: String(r.updated_at),
             company: c,
+            ...normalizeDeal(r),
           };
         });
 
@@ -394,11 +370,26 @@ export default function SalesFunnelPage() {
     }
   }
 
+  async function loadFollowUpMarks() {
+    try {
+      const due = await loadOpenFollowUps(supabase, { until: endOfLocalDay() });
+      setFollowUpMarks(followUpDueByEntity(due, viewType));
+    } catch (e: unknown) {
+      console.error(e);
+    }
+  }
+
   useEffect(() => {
     loadBoard();
+    loadFollowUpMarks();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [viewType]);
 
+  // The daily digest links here with ?followUps=1.
+  useEffect(() => {
+    if (new URLSearchParams(window.location.search).get("followUps")) setMyFollowUpsOpen(true);
+  }, []);
+
     const filteredCompanies = useMemo(() => {
     const q = cleanStr(search).toLowerCase();
     return companies.filter((c) => {
@@ -534,6 +525,18 @@ export default function SalesFunnelPage() {
     return map;
   }, [filteredProjects, stages]);
 
+  const visibleStages = useMemo(() => {
+    if (stageFilter === "all" || !stages.some((s) => s.id === stageFilter)) return stages;
+    return stages.filter((s) => s.id === stageFilter);
+  }, [stages, stageFilter]);
+
+  // Ids of the cards currently on the board, in board order (for export).
+  const visibleIds = useMemo(() => {
+    const byStage: Map<string, { id: string }[]> =
+      viewType === "company" ? companiesByStage : viewType === "contact" ? contactsByStage : projectsByStage;
+    return visibleStages.flatMap((s) => (byStage.get(s.id) ?? []).map((x) => x.id));
+  }, [viewType, visibleStages, companiesByStage, contactsByStage, projectsByStage]);
+
   async function moveCardToStage(entityId: string, stageId: string) {
     try {
       if (viewType === "company") {
@@ -744,7 +747,7 @@ export default function SalesFunnelPage() {
     try {
       const pRes = await supabase
         .from("crm_projects")
-        .select("id,company_id,name,stage_id,website,notes,last_activity_at,created_at,updated_at,company:crm_companies(id,name)")
+        .select(`id,company_id,name,stage_id,website,notes,last_activity_at,created_at,updated_at,${DEAL_SELECT},company:crm_companies(id,name)`)
         .eq("id", projectId)
         .single();
       if (pRes.error) throw pRes.error;
@@ -779,6 +782,7 @@ export default function SalesFunnelPage() {
         created_at: String(row.created_at),
         updated_at: String(row.updated_at),
         company: comp,
+        ...normalizeDeal(row),
       };
 
       const normalizedContacts: Contact[] = (contactsRes.data ?? []).map((r: Record<string, unknown>) => {
@@ -1025,6 +1029,23 @@ export default function SalesFunnelPage() {
     }
   }
 
+  async function setStageProbability(stageId: string, raw: string) {
+    const val = cleanStr(raw);
+    const probability = val ? Number(val) : null;
+    if (probability !== null && (!Number.isInteger(probability) || probability < 0 || probability > 100)) {
+      alert("Default probability must be a whole number from 0 to 100.");
+      return;
+    }
+    try {
+      const res = await supabase.from("crm_stages").update({ default_probability: probability }).eq("id", stageId);
+      if (res.error) throw res.error;
+      await loadBoard();
+    } catch (e: unknown) {
+      console.error(e);
+      alert((e as Error)?.message ?? "Failed to update stage probability.");
+    }
+  }
+
   async function moveStage(stageId: string, dir: "up" | "down") {
     const idx = stages.findIndex((s) => s.id === stageId);
     if (idx < 0) return;
@@ -1197,267 +1218,6 @@ export default function SalesFunnelPage() {
 
 
 
-  function parseFile(file: File) {
-    setImportError("");
-    setImportRows([]);
-    setImportFileName(file.name);
-
-    const ext = file.name.toLowerCase().split(".").pop() ?? "";
-    if (ext === "csv") {
-      Papa.parse(file, {
-        header: true,
-        skipEmptyLines: true,
-        complete: (res) => {
-          const rows = (res.data ?? []) as ImportRow[];
-          setImportRows(rows.filter((r) => Object.values(r).some((v) => cleanStr(v))));
-        },
-        error: (err) => setImportError(err.message),
-      });
-      return;
-    }
-
-    if (ext === "xlsx" || ext === "xls") {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        try {
-          const data = new Uint8Array((e.target?.result as ArrayBuffer) ?? new ArrayBuffer(0));
-          const wb = XLSX.read(data, { type: "array" });
-          const ws = wb.Sheets[wb.SheetNames[0]];
-          const json = XLSX.utils.sheet_to_json(ws, { defval: "" }) as ImportRow[];
-          setImportRows(json.filter((r) => Object.values(r).some((v) => cleanStr(v))));
-        } catch (err: unknown) {
-          setImportError((err as Error)?.message ?? "Failed to read Excel file.");
-        }
-      };
-      reader.readAsArrayBuffer(file);
-      return;
-    }
-
-    setImportError("Unsupported file type. Please upload .CSV or .XLSX");
-  }
-
-  function inferImportMapping(rows: ImportRow[]) {
-    const first = rows?.[0];
-    if (!first) return null;
-
-    const headers = Object.keys(first);
-    const map = normalizeHeaderMap(headers);
-
-    return {
-      company: findHeader(map, ["company", "companyname", "business", "organization"]) ?? "",
-      firstName: findHeader(map, ["firstname", "first", "fname", "givenname"]) ?? "",
-      lastName: findHeader(map, ["lastname", "last", "lname", "surname", "familyname"]) ?? "",
-      fullName: findHeader(map, ["fullname", "name", "contactname"]) ?? "",
-      phone: findHeader(map, ["phone", "phonenumber", "mobile", "cell", "tel"]) ?? "",
-      email: findHeader(map, ["email", "emailaddress"]) ?? "",
-      notes: findHeader(map, ["notes", "note", "comments", "comment"]) ?? "",
-      website: findHeader(map, ["website", "domain", "url"]) ?? "",
-      isMain: findHeader(map, ["ismain", "main", "primary", "primarycontact", "maincontact"]) ?? "",
-      stage: findHeader(map, ["stage", "status", "funnelstage"]) ?? "",
-    };
-  }
-
-  async function runImport() {
-    if (!importRows.length) return;
-
-    const mapping = inferImportMapping(importRows);
-    if (!mapping?.company) {
-      alert("Import needs a 'company' column. (Header can be Company / Company Name / Business, etc.)");
-      return;
-    }
-
-    setImportBusy(true);
-    try {
-      // Build normalized rows
-      const normalized = importRows
-        .map((r) => {
-          const company = cleanStr(r[mapping.company]);
-          const first = mapping.firstName ? cleanStr(r[mapping.firstName]) : "";
-          const last = mapping.lastName ? cleanStr(r[mapping.lastName]) : "";
-          const full = mapping.fullName ? cleanStr(r[mapping.fullName]) : "";
-          const full_name = makeFullName(first, last, full);
-
-          const phone = mapping.phone ? cleanStr(r[mapping.phone]) : "";
-          const email = mapping.email ? cleanStr(r[mapping.email]) : "";
-          const notes = mapping.notes ? cleanStr(r[mapping.notes]) : "";
-          const website = mapping.website ? cleanStr(r[mapping.website]) : "";
-          const is_main = mapping.isMain ? truthy(r[mapping.isMain]) : false;
-
-          const stageName = mapping.stage ? cleanStr(r[mapping.stage]) : "";
-
-          return {
-            company,
-            full_name,
-            first_name: first || null,
-            last_name: last || null,
-            phone: phone || null,
-            email: email || null,
-            notes: notes || null,
-            website: website || null,
-            is_main,
-            stageName,
-          };
-        })
-        .filter((r) => r.company);
-
-      if (!normalized.length) {
-        alert("No valid rows found.");
-        return;
-      }
-
-      // Stage lookup by name (optional)
-      const stageByLower = new Map(stages.map((s) => [cleanStr(s.name).toLowerCase(), s.id]));
-      const defaultStageId = stages[0]?.id ?? null;
-
-      // 1) Upsert companies
-      const uniqCompanies = uniqByLower(normalized.map((r) => r.company));
-      const companyPayload = uniqCompanies.map((name) => {
-        // If any row provides a website, keep the first non-empty
-        const rowWithWebsite = normalized.find((r) => cleanStr(r.company).toLowerCase() === name.toLowerCase() && r.website);
-        const rowWithStage = normalized.find((r) => cleanStr(r.company).toLowerCase() === name.toLowerCase() && r.stageName);
-        const stageId = rowWithStage ? stageByLower.get(cleanStr(rowWithStage.stageName).toLowerCase()) ?? defaultStageId : defaultStageId;
-        return {
-          name,
-          website: rowWithWebsite?.website ?? null,
-          stage_id: stageId,
-        };
-      });
-
-      if (importDupMode === "skip") {
-        // Insert only those that don't exist already
-        const existingRes = await supabase
-          .from("crm_companies")
-          .select("id,name")
-          .in("name", companyPayload.map((c) => c.name));
-        if (existingRes.error) throw existingRes.error;
-
-        const existingLower = new Set((existingRes.data ?? []).map((c: Record<string, unknown>) => cleanStr(c.name).toLowerCase()));
-        const toInsert = companyPayload.filter((c) => !existingLower.has(cleanStr(c.name).toLowerCase()));
-
-        if (toInsert.length) {
-          const insRes = await supabase.from("crm_companies").insert(toInsert);
-          if (insRes.error) throw insRes.error;
-        }
-      } else {
-        const upRes = await supabase.from("crm_companies").upsert(companyPayload, { onConflict: "name_lower" });
-        if (upRes.error) throw upRes.error;
-      }
-
-      // Get company ids
-      const compRes = await supabase
-        .from("crm_companies")
-        .select("id,name,name_lower,stage_id")
-        .in(
-          "name_lower",
-          companyPayload.map((c) => cleanStr(c.name).toLowerCase())
-        );
-      if (compRes.error) throw compRes.error;
-
-      const companyIdByLower = new Map((compRes.data ?? []).map((c: Record<string, unknown>) => [cleanStr(c.name_lower), c.id]));
-
-      // 2) Upsert contacts
-      const contactRows = normalized
-        .map((r) => ({
-          company_id: companyIdByLower.get(cleanStr(r.company).toLowerCase()) ?? null,
-          full_name: r.full_name || null,
-          first_name: r.first_name,
-          last_name: r.last_name,
-          phone: r.phone,
-          email: r.email,
-          notes: r.notes,
-          is_main: r.is_main,
-        }))
-        .filter((r) => r.company_id);
-
-      const withEmail = contactRows.filter((r) => cleanStr(r.email));
-      const withPhoneOnly = contactRows.filter((r) => !cleanStr(r.email) && cleanStr(r.phone));
-      const noKey = contactRows.filter((r) => !cleanStr(r.email) && !cleanStr(r.phone));
-
-      if (importDupMode === "skip") {
-        // Best-effort: insert only
-        const ins1 = withEmail.length ? await supabase.from("crm_contacts").insert(withEmail) : { error: null as unknown };
-        if ((ins1 as { error: unknown }).error) throw (ins1 as { error: unknown }).error;
-        const ins2 = withPhoneOnly.length ? await supabase.from("crm_contacts").insert(withPhoneOnly) : { error: null as unknown };
-        if ((ins2 as { error: unknown }).error) throw (ins2 as { error: unknown }).error;
-        const ins3 = noKey.length ? await supabase.from("crm_contacts").insert(noKey) : { error: null as unknown };
-        if ((ins3 as { error: unknown }).error) throw (ins3 as { error: unknown }).error;
-      } else {
-        // Upsert keyed
-        if (withEmail.length) {
-          const u1 = await supabase.from("crm_contacts").upsert(withEmail, { onConflict: "company_id,email_lower" });
-          if (u1.error) throw u1.error;
-        }
-        if (withPhoneOnly.length) {
-          const u2 = await supabase.from("crm_contacts").upsert(withPhoneOnly, { onConflict: "company_id,phone_norm" });
-          if (u2.error) throw u2.error;
-        }
-        if (noKey.length) {
-          const ins = await supabase.from("crm_contacts").insert(noKey);
-          if (ins.error) throw ins.error;
-        }
-      }
-
-      // 3) Set main contacts (first flagged contact per company wins)
-      const mainCandidates = contactRows.filter((r) => r.is_main && r.company_id);
-
-      if (mainCandidates.length) {
-        // Query back those contacts by company_id + (email/phone) to get IDs reliably
-        // We'll keep it simple: for each company, find a matching contact now and set as main.
-        const byCompany = new Map<string, { email?: string | null; phone?: string | null }>();
-        for (const r of mainCandidates) {
-          const cid = r.company_id as string;
-          if (!byCompany.has(cid)) byCompany.set(cid, { email: r.email, phone: r.phone });
-        }
-
-        for (const [company_id, key] of byCompany.entries()) {
-          let contactId: string | null = null;
-
-          if (cleanStr(key.email)) {
-            const q = await supabase
-              .from("crm_contacts")
-              .select("id")
-              .eq("company_id", company_id)
-              .eq("email_lower", cleanStr(key.email).toLowerCase())
-              .limit(1)
-              .maybeSingle();
-            if (q.error) throw q.error;
-            contactId = (q.data as Record<string, unknown>)?.id as string ?? null;
-          } else if (cleanStr(key.phone)) {
-            const digits = cleanStr(key.phone).replace(/[^0-9]+/g, "");
-            if (digits) {
-              const q = await supabase
-                .from("crm_contacts")
-                .select("id")
-                .eq("company_id", company_id)
-                .eq("phone_norm", digits)
-                .limit(1)
-                .maybeSingle();
-              if (q.error) throw q.error;
-              contactId = (q.data as Record<string, unknown>)?.id as string ?? null;
-            }
-          }
-
-          if (contactId) {
-            const setRes = await supabase.rpc("crm_set_main_contact", { p_company_id: company_id, p_contact_id: contactId });
-            if (setRes.error) throw setRes.error;
-          }
-        }
-      }
-
-      await loadBoard();
-      alert("Import complete.");
-      setImportRows([]);
-      setImportFileName("");
-    } catch (e: unknown) {
-      console.error(e);
-      alert((e as Error)?.message ?? "Import failed.");
-    } finally {
-      setImportBusy(false);
-    }
-  }
-
-  const preview = useMemo(() => importRows.slice(0, 5), [importRows]);
-
   return (
     <PageShell>
       <div className="mb-6">
@@ -1474,6 +1234,7 @@ export default function SalesFunnelPage() {
               onClick={() => {
                 setViewType("company");
                 setViewFilter("all");
+                setStageFilter("all");
               }}
             >
               Company
@@ -1483,6 +1244,7 @@ export default function SalesFunnelPage() {
               onClick={() => {
                 setViewType("contact");
                 setViewFilter("all");
+                setStageFilter("all");
               }}
             >
               Contact
@@ -1492,6 +1254,7 @@ export default function SalesFunnelPage() {
               onClick={() => {
                 setViewType("project");
                 setViewFilter("all");
+                setStageFilter("all");
               }}
             >
               Project
@@ -1541,6 +1304,21 @@ export default function SalesFunnelPage() {
               ) : null}
             </select>
           </div>
+
+          <div className="min-w-[170px]">
+            <select
+              className="w-full rounded-xl border px-3 py-2 text-sm bg-surface"
+              value={stageFilter}
+              onChange={(e) => setStageFilter(e.target.value)}
+            >
+              <option value="all">All stages</option>
+              {stages.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name}
+                </option>
+              ))}
+            </select>
+          </div>
         </div>
         <div className="flex items-center gap-2">
           <div className="relative">
@@ -1625,11 +1403,34 @@ export default function SalesFunnelPage() {
                 >
                   Edit Projects
                 </button>
+                <button
+                  className="w-full text-left px-3 py-2 rounded-lg hover:bg-elevated text-sm"
+                  onClick={() => {
+                    setEditMenuOpen(false);
+                    setDuplicatesOpen(true);
+                  }}
+                >
+                  Find Duplicates
+                </button>
               </div>
             ) : null}
           </div>
 
-          <Button onClick={loadBoard} variant="ghost">
+          <Button onClick={() => setMyFollowUpsOpen(true)} variant="ghost">
+            My Follow-ups
+          </Button>
+
+          <Button onClick={() => setExportOpen(true)} variant="ghost">
+            Export
+          </Button>
+
+          <Button
+            onClick={() => {
+              loadBoard();
+              loadFollowUpMarks();
+            }}
+            variant="ghost"
+          >
             Refresh
           </Button>
         </div>
@@ -1650,8 +1451,16 @@ export default function SalesFunnelPage() {
         ) : (
           <div className="overflow-x-auto">
             <div className="flex gap-3 min-w-[900px]">
-              {stages.map((stage) => {
+              {visibleStages.map((stage) => {
                 const list = viewType === "company" ? (companiesByStage.get(stage.id) ?? []) : viewType === "contact" ? (contactsByStage.get(stage.id) ?? []) : (projectsByStage.get(stage.id) ?? []);
+                // Open deals only; won / lost projects no longer count towards the pipeline.
+                const weighted =
+                  viewType === "project"
+                    ? (list as ProjectBoard[]).reduce(
+                        (sum, p) => sum + (p.outcome ? 0 : weightedValue(p.value, effectiveProbability(p, stage.default_probability))),
+                        0
+                      )
+                    : 0;
                 return (
                   <div
                     key={stage.id}
@@ -1670,6 +1479,9 @@ export default function SalesFunnelPage() {
                       <div className="font-semibold text-sm">{stage.name}</div>
                       <Pill>{list.length}</Pill>
                     </div>
+                    {viewType === "project" && weighted ? (
+                      <div className="-mt-1 mb-2 text-xs text-slate-400">{formatMoney(weighted)} weighted</div>
+                    ) : null}
 
                     <div className="flex flex-col gap-2">
                       {list.map((item) => {
@@ -1684,7 +1496,7 @@ export default function SalesFunnelPage() {
                           return (
                             <div
                               key={c.id}
-                              className="rounded-2xl border bg-surface p-3 hover:shadow transition cursor-pointer"
+                              className={`rounded-2xl border bg-surface p-3 hover:shadow transition cursor-pointer ${followUpMarks.get(c.id) === "overdue" ? "border-red-500/60" : ""}`}
                               draggable
                               onDragStart={(e) => {
                                 dragEntityIdRef.current = c.id;
@@ -1699,6 +1511,7 @@ export default function SalesFunnelPage() {
                                 {c.email ? <div>✉️ {c.email}</div> : null}
                                 {mcName ? <div>👤 {mcName}</div> : null}
                                 {c.last_activity_at ? <div>🕒 {fmtDT(c.last_activity_at)}</div> : null}
+                                <FollowUpMark due={followUpMarks.get(c.id)} />
                               </div>
                             </div>
                           );
@@ -1710,7 +1523,7 @@ export default function SalesFunnelPage() {
                           return (
                             <div
                               key={c.id}
-                              className="rounded-2xl border bg-surface p-3 hover:shadow transition cursor-pointer"
+                              className={`rounded-2xl border bg-surface p-3 hover:shadow transition cursor-pointer ${followUpMarks.get(c.id) === "overdue" ? "border-red-500/60" : ""}`}
                               draggable
                               onDragStart={(e) => {
                                 dragEntityIdRef.current = c.id;
@@ -1725,6 +1538,7 @@ export default function SalesFunnelPage() {
                                 {c.phone ? <div>📞 {c.phone}</div> : null}
                                 {c.email ? <div>✉️ {c.email}</div> : null}
                                 {c.last_activity_at ? <div>🕒 {fmtDT(c.last_activity_at)}</div> : null}
+                                <FollowUpMark due={followUpMarks.get(c.id)} />
                               </div>
                             </div>
                           );
@@ -1734,7 +1548,7 @@ export default function SalesFunnelPage() {
                         return (
                           <div
                             key={p.id}
-                            className="rounded-2xl border bg-surface p-3 hover:shadow transition cursor-pointer"
+                            className={`rounded-2xl border bg-surface p-3 hover:shadow transition cursor-pointer ${followUpMarks.get(p.id) === "overdue" ? "border-red-500/60" : ""}`}
                             draggable
                             onDragStart={(e) => {
                               dragEntityIdRef.current = p.id;
@@ -1746,7 +1560,19 @@ export default function SalesFunnelPage() {
                             <div className="text-xs text-slate-400 mt-1 space-y-0.5">
                               {p.company?.name ? <div>🏢 {p.company.name}</div> : null}
                               {p.website ? <div>🌐 {p.website}</div> : null}
+                              {p.value !== null || p.outcome ? (
+                                <div>
+                                  💰 {formatMoney(p.value)} ·{" "}
+                                  {p.outcome ? (
+                                    <span className={p.outcome === "won" ? "text-emerald-300" : "text-red-400"}>{p.outcome === "won" ? "Won" : "Lost"}</span>
+                                  ) : (
+                                    `${effectiveProbability(p, stage.default_probability)}%`
+                                  )}
+                                </div>
+                              ) : null}
+                              {p.expected_close_date && !p.outcome ? <div>📅 Closes {fmtDate(p.expected_close_date)}</div> : null}
                               {p.last_activity_at ? <div>🕒 {fmtDT(p.last_activity_at)}</div> : null}
+                              <FollowUpMark due={followUpMarks.get(p.id)} />
                             </div>
                           </div>
                         );
@@ -1936,82 +1762,25 @@ export default function SalesFunnelPage() {
       </Modal>
 
 {/* Import modal */}
-      <Modal open={importOpen} onClose={() => setImportOpen(false)} title="Import Contacts (CSV / XLSX)" maxWidthClass="max-w-4xl">
-        <div className="flex flex-col gap-3">
-          <div className="flex items-center gap-3">
-            <input
-              type="file"
-              accept=".csv,.xlsx,.xls"
-              onChange={(e) => {
-                const file = e.target.files?.[0];
-                if (file) parseFile(file);
-              }}
-            />
-            {importFileName ? <Pill>{importFileName}</Pill> : null}
-          </div>
-
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-            <div>
-              <div className="text-xs text-slate-400 mb-1">Duplicate handling</div>
-              <select
-                className="w-full rounded-lg border border-white/10 bg-base px-3 py-2 text-sm text-slate-200 outline-none focus:ring-2 focus:ring-gray-300"
-                value={importDupMode}
-                onChange={(e) => setImportDupMode(e.target.value as "skip" | "upsert")}
-              >
-                <option value="upsert">Upsert (recommended)</option>
-                <option value="skip">Skip / best effort</option>
-              </select>
-            </div>
-            <div className="flex items-end">
-              <Button onClick={runImport} disabled={!importRows.length || importBusy}>
-                {importBusy ? "Importing..." : `Import ${importRows.length ? `(${importRows.length})` : ""}`}
-              </Button>
-            </div>
-          </div>
-
-          {importError ? <div className="text-sm text-red-400">{importError}</div> : null}
-
-          {importRows.length ? (
-            <div className="text-sm text-slate-300">
-              <div className="font-semibold mb-1">Preview (first 5 rows)</div>
-              <div className="overflow-auto rounded-lg border">
-                <table className="min-w-full text-xs">
-                  <thead className="bg-base">
-                    <tr>
-                      {Object.keys(preview[0] ?? {}).slice(0, 8).map((h) => (
-                        <th key={h} className="text-left px-2 py-2 border-b">
-                          {h}
-                        </th>
-                      ))}
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {preview.map((r, i) => (
-                      <tr key={i} className="odd:bg-surface even:bg-base">
-                        {Object.keys(preview[0] ?? {})
-                          .slice(0, 8)
-                          .map((h) => (
-                            <td key={h} className="px-2 py-2 border-b align-top">
-                              {cleanStr(r[h])}
-                            </td>
-                          ))}
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
-              <div className="text-xs text-slate-500 mt-2">
-                Expected headers include: Company, First Name, Last Name, Phone, Email, Notes. Optional: Website, Main/Primary, Stage.
-              </div>
-            </div>
-          ) : (
-            <div className="text-xs text-slate-500">
-              Each row should be a contact. Company is required. If you include a column like <b>Main</b> or <b>Primary</b> with yes/true/1, that
-              contact becomes the company’s main contact shown on the Kanban card.
-            </div>
-          )}
-        </div>
-      </Modal>
+      <ImportWizard open={importOpen} onClose={() => setImportOpen(false)} onImported={loadBoard} />
+      <ExportDialog
+        open={exportOpen}
+        onClose={() => setExportOpen(false)}
+        viewType={viewType}
+        ids={visibleIds}
+        stages={stages}
+      />
+      <DuplicatesDialog open={duplicatesOpen} onClose={() => setDuplicatesOpen(false)} onMerged={loadBoard} />
+      <MyFollowUpsDialog
+        open={myFollowUpsOpen}
+        onClose={() => setMyFollowUpsOpen(false)}
+        onChanged={loadFollowUpMarks}
+        onOpenTarget={(f) => {
+          if (f.contact_id) openContact(f.contact_id);
+          else if (f.project_id) openProject(f.project_id);
+          else if (f.company_id) openCompany(f.company_id);
+        }}
+      />
 
       {/* Stages modal */}
       <Modal open={stagesOpen} onClose={() => setStagesOpen(false)} title="Edit Stages" maxWidthClass="max-w-4xl">
@@ -2030,6 +1799,7 @@ export default function SalesFunnelPage() {
             <thead className="bg-base">
               <tr>
                 <th className="text-left px-3 py-2 border-b">Stage</th>
+                {viewType === "project" ? <th className="text-left px-3 py-2 border-b">Default probability (%)</th> : null}
                 <th className="text-left px-3 py-2 border-b">Order</th>
                 <th className="text-left px-3 py-2 border-b">Actions</th>
               </tr>
@@ -2046,6 +1816,20 @@ export default function SalesFunnelPage() {
                       }}
                     />
                   </td>
+                  {viewType === "project" ? (
+                    <td className="px-3 py-2 border-b">
+                      <Input
+                        key={`${s.id}:${s.default_probability ?? ""}`}
+                        inputMode="numeric"
+                        placeholder="None"
+                        defaultValue={s.default_probability ?? ""}
+                        onBlur={(e) => {
+                          const val = cleanStr(e.target.value);
+                          if (val !== String(s.default_probability ?? "")) setStageProbability(s.id, val);
+                        }}
+                      />
+                    </td>
+                  ) : null}
                   <td className="px-3 py-2 border-b">
                     <div className="flex items-center gap-2">
                       <Pill>{s.position}</Pill>
@@ -2070,7 +1854,7 @@ export default function SalesFunnelPage() {
               ))}
               {stages.length === 0 ? (
                 <tr>
-                  <td className="px-3 py-3 text-slate-400" colSpan={3}>
+                  <td className="px-3 py-3 text-slate-400" colSpan={viewType === "project" ? 4 : 3}>
                     No stages found.
                   </td>
                 </tr>
@@ -2380,6 +2164,11 @@ export default function SalesFunnelPage() {
               {/* Right: activity log */}
               {showActivityPane ? (
                 <div className="space-y-3">
+              <FollowUpsPanel
+                target={{ companyId: companyDetail.id, contactId: null, projectId: null }}
+                onChanged={loadFollowUpMarks}
+              />
+
               <div className="font-semibold">Activity Log</div>
 
               <div className="rounded-xl border p-3 bg-base">
@@ -2569,6 +2358,12 @@ export default function SalesFunnelPage() {
             </div>
 
             <div className="rounded-2xl border bg-surface p-4">
+              <div className="mb-4">
+                <FollowUpsPanel
+                  target={{ companyId: contactDetail.company_id, contactId: contactDetail.id, projectId: null }}
+                  onChanged={loadFollowUpMarks}
+                />
+              </div>
               <div className="font-semibold mb-2">Activity</div>
               <div className="flex items-center gap-2 mb-2">
                 <select
@@ -2672,6 +2467,10 @@ export default function SalesFunnelPage() {
                   Save
                 </Button>
               </div>
+
+              <div className="mt-4">
+                <ProjectDealPanel projectId={projectDetail.id} onSaved={loadBoard} />
+              </div>
             </div>
 
             <div className="rounded-2xl border bg-surface p-4">
@@ -2692,6 +2491,12 @@ export default function SalesFunnelPage() {
             </div>
 
             <div className="rounded-2xl border bg-surface p-4">
+              <div className="mb-4">
+                <FollowUpsPanel
+                  target={{ companyId: projectDetail.company_id, contactId: null, projectId: projectDetail.id }}
+                  onChanged={loadFollowUpMarks}
+                />
+              </div>
               <div className="font-semibold mb-2">Activity</div>
               <div className="flex items-center gap-2 mb-2">
                 <select
@@ -1,25 +1,113 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
 import { PageShell } from "@/src/components/PageShell";
 import { Card, Pill } from "@/src/components/ui";
+import { AnalyticsSummaryCards } from "@/src/components/social-media/analytics/AnalyticsSummaryCards";
+import { TrendChart } from "@/src/components/social-media/analytics/TrendChart";
+import { TopPostsTable } from "@/src/components/social-media/analytics/TopPostsTable";
+import { BreakdownTable } from "@/src/components/social-media/analytics/BreakdownTable";
+import { FollowerGrowth } from "@/src/components/social-media/analytics/FollowerGrowth";
+import type { AnalyticsReport } from "@/src/lib/types/social-media";
+
+const RANGES = [
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+];
 
 export default function SocialMediaAnalyticsPage() {
+  const [days, setDays] = useState(30);
+  const [report, setReport] = useState<AnalyticsReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const res = await fetch(`/api/analytics?days=${days}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Failed to load analytics");
+      setReport(data);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const postsTracked = report
+    ? report.by_content_type.reduce((sum, row) => sum + row.posts, 0)
+    : 0;
+
   return (
     <PageShell>
       <div className="max-w-5xl space-y-6">
-        <div>
-          <h1 className="text-2xl font-semibold">Analytics</h1>
-          <div className="text-sm text-slate-400 mt-1">
-            Track performance metrics and engagement across all platforms.
+        <div className="flex flex-wrap items-end justify-between gap-3">
+          <div>
+            <h1 className="text-2xl font-semibold">Analytics</h1>
+            <div className="text-sm text-slate-400 mt-1">
+              Track performance metrics and engagement across all platforms.
+            </div>
+          </div>
+          <div className="flex gap-1.5">
+            {RANGES.map((r) => (
+              <button
+                key={r.days}
+                onClick={() => setDays(r.days)}
+                className={[
+                  "rounded-lg px-3 py-1.5 text-xs transition-colors border",
+                  days === r.days
+                    ? "border-emerald-500/40 bg-emerald-500/10 text-emerald-300"
+                    : "border-white/10 text-slate-400 hover:bg-white/[0.06]",
+                ].join(" ")}
+              >
+                {r.label}
+              </button>
+            ))}
           </div>
         </div>
 
-        <Card title="Status" right={<Pill>Coming soon</Pill>}>
-          <ul className="list-disc pl-5 text-sm text-slate-300 space-y-1">
-            <li>Impressions, reach, likes, comments, shares, and saves</li>
-            <li>Engagement rate trends over time</li>
-            <li>Top performing posts and content types</li>
-            <li>Follower growth per platform</li>
-          </ul>
-        </Card>
+        {error && (
+          <div className="rounded-lg border border-red-500/20 bg-red-500/10 px-4 py-3 text-sm text-red-400">
+            {error}
+          </div>
+        )}
+
+        {loading && !report ? (
+          <div className="rounded-xl border border-white/[0.06] bg-surface px-4 py-3 text-xs text-slate-500">
+            Loading analytics…
+          </div>
+        ) : report ? (
+          <>
+            <AnalyticsSummaryCards totals={report.totals} posts={postsTracked} />
+
+            <Card title="Trends" right={<Pill>{report.trend.length} days of snapshots</Pill>}>
+              <TrendChart trend={report.trend} />
+            </Card>
+
+            <Card title="Top Posts" right={<Pill>By engagements</Pill>}>
+              <TopPostsTable posts={report.top_posts} />
+            </Card>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <Card title="By Content Type">
+                <BreakdownTable rows={report.by_content_type} />
+              </Card>
+              <Card title="By Brand Voice">
+                <BreakdownTable rows={report.by_brand_voice} />
+              </Card>
+            </div>
+
+            <Card title="Follower Growth">
+              <FollowerGrowth series={report.followers} />
+            </Card>
+          </>
+        ) : null}
       </div>
     </PageShell>
   );
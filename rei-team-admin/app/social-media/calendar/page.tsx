@@ -39,7 +39,7 @@ function weekLabel(d: Date): string {
   return `${d.toLocaleDateString("en-US", { month: "short", day: "numeric" })} – ${end.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}`;
 }
 
-const STATUS_OPTIONS: PostStatus[] = ["scheduled", "published", "approved", "pending_approval", "draft"];
+const STATUS_OPTIONS: PostStatus[] = ["scheduled", "published", "partially_published", "approved", "pending_approval", "draft"];
 const SCHEDULE_TYPE_OPTIONS: Array<{ value: ScheduleType | ""; label: string }> = [
   { value: "", label: "All types" },
   { value: "one_time", label: "One-time" },
@@ -142,7 +142,9 @@ export default function SocialMediaCalendarPage() {
 
   const handleSelectDay = (date: Date) => {
     const dateStr = isoDate(date);
-    const dayEvents = events.filter((ev) => ev.scheduled_at?.slice(0, 10) === dateStr);
+    const dayEvents = events.filter(
+      (ev) => (ev.occurrence_at ?? ev.scheduled_at)?.slice(0, 10) === dateStr
+    );
     setSelectedDayEvents(dayEvents.length > 0 ? dayEvents : null);
   };
 
@@ -282,12 +284,17 @@ export default function SocialMediaCalendarPage() {
         {/* Overdue posts banner — shown when scheduled posts are past their run time */}
         {!loading && !error && (() => {
           const now = new Date();
-          const overdueCount = events.filter(
-            (ev) =>
-              ev.post_status === "scheduled" &&
-              ev.next_run_at != null &&
-              new Date(ev.next_run_at) < now
-          ).length;
+          // Recurring schedules appear once per occurrence; count each schedule once.
+          const overdueCount = new Set(
+            events
+              .filter(
+                (ev) =>
+                  ev.post_status === "scheduled" &&
+                  ev.next_run_at != null &&
+                  new Date(ev.next_run_at) < now
+              )
+              .map((ev) => ev.schedule_id)
+          ).size;
           if (!overdueCount) return null;
           return (
             <div className="rounded-xl bg-amber-900/20 border border-amber-700/40 px-4 py-3 flex items-center gap-3">
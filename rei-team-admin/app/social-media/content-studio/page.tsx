@@ -16,6 +16,7 @@ import {
 } from "@/src/lib/supabase/social-media-queries";
 import type { ContentType, BrandVoice } from "@/src/lib/types/social-media";
 import { supabaseBrowser } from "@/src/lib/supabase/browser";
+import { resolveTextModel } from "@/src/lib/ai/models";
 
 type BulkPost = {
   id: string;
@@ -24,16 +25,6 @@ type BulkPost = {
   rejected: boolean;
 };
 
-const MODEL_ROUTING: Record<string, string> = {
-  "daily-tips": "claude-sonnet",
-  "weekly-newsletter": "gpt-4o",
-  "mythbusters": "claude-sonnet",
-  "market-updates": "gpt-4o",
-  "testimonials": "claude-sonnet",
-  "holiday-seasonal": "gpt-4o",
-  "cta": "gpt-4o",
-};
-
 export default function ContentStudioPage() {
   // Data
   const [contentTypes, setContentTypes] = useState<ContentType[]>([]);
@@ -74,14 +65,9 @@ export default function ContentStudioPage() {
 
   const handleSend = useCallback(async (text: string) => {
     // Inline helpers so all deps are captured by useCallback
-    const getContentTypeName = () => {
-      const ct = contentTypes.find((t) => t.id === selectedContentTypeId);
-      if (!ct) return "custom";
-      return ct.name.toLowerCase().replace(/\s+/g, "-");
-    };
     const resolveModel = () => {
-      if (modelOverride) return modelOverride;
-      return MODEL_ROUTING[getContentTypeName()] ?? "gpt-4o";
+      const ct = contentTypes.find((t) => t.id === selectedContentTypeId);
+      return resolveTextModel(ct, modelOverride).id;
     };
     const getBrandVoicePrompt = () => {
       const bv = brandVoices.find((v) => v.id === selectedBrandVoiceId);
@@ -113,11 +99,10 @@ export default function ContentStudioPage() {
           body: JSON.stringify({
             prompt: text,
             count,
-            content_type: getContentTypeName(),
+            content_type_id: selectedContentTypeId || null,
             brand_voice: bv?.name,
             target_platforms: selectedPlatforms,
             model_override: modelOverride || undefined,
-            generated_by: userId || "anonymous",
           }),
         });
         const data = await res.json();
@@ -168,12 +153,11 @@ export default function ContentStudioPage() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           prompt: text,
-          content_type: getContentTypeName(),
+          content_type_id: selectedContentTypeId || null,
           brand_voice: bv?.name,
           system_prompt: getBrandVoicePrompt() || undefined,
           target_platforms: selectedPlatforms,
           model_override: modelOverride || undefined,
-          generated_by: userId || "anonymous",
         }),
       });
       const data = await res.json();
@@ -204,7 +188,7 @@ export default function ContentStudioPage() {
     } finally {
       setIsLoading(false);
     }
-  }, [selectedContentTypeId, selectedBrandVoiceId, selectedPlatforms, modelOverride, brandVoices, contentTypes, userId]);
+  }, [selectedContentTypeId, selectedBrandVoiceId, selectedPlatforms, modelOverride, brandVoices, contentTypes]);
 
   const handleGenerateImage = useCallback(async (messageId: string, content: string) => {
     setGeneratingImageForId(messageId);
@@ -212,7 +196,7 @@ export default function ContentStudioPage() {
       const res = await fetch("/api/ai/generate-image", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ post_text: content, generated_by: userId || "anonymous" }),
+        body: JSON.stringify({ post_text: content }),
       });
       const data = await res.json();
       if (res.ok && data.url) {
@@ -226,15 +210,11 @@ export default function ContentStudioPage() {
     } finally {
       setGeneratingImageForId(null);
     }
-  }, [userId]);
+  }, []);
 
   async function handleSaveAllBulk(posts: BulkPost[]) {
-    const ctName = (() => {
-      const ct = contentTypes.find((t) => t.id === selectedContentTypeId);
-      if (!ct) return "custom";
-      return ct.name.toLowerCase().replace(/\s+/g, "-");
-    })();
-    const model = modelOverride || MODEL_ROUTING[ctName] || "gpt-4o";
+    const ct = contentTypes.find((t) => t.id === selectedContentTypeId);
+    const model = resolveTextModel(ct, modelOverride).id;
     setBulkSaveStatus("saving");
     try {
       const { createContentPost } = await import("@/src/lib/supabase/social-media-queries");
@@ -346,7 +326,6 @@ export default function ContentStudioPage() {
                     <ImageGenerator
                       postContent={latestContent}
                       currentImageUrl={latestImageUrl}
-                      userId={userId}
                       onImageGenerated={setLatestImageUrl}
                     />
                   </div>
@@ -1,25 +1,125 @@
+"use client";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { PageShell } from "@/src/components/PageShell";
-import { Card, Pill } from "@/src/components/ui";
+import { InboxFilters } from "@/src/components/social-media/inbox/InboxFilters";
+import { ThreadList } from "@/src/components/social-media/inbox/ThreadList";
+import { ThreadView } from "@/src/components/social-media/inbox/ThreadView";
+import { groupThreads } from "@/src/components/social-media/inbox/threads";
+import {
+  getEngagementInbox,
+  getRepliesForInboxItems,
+  getSocialPlatforms,
+  markInboxItemsRead,
+} from "@/src/lib/supabase/social-media-queries";
+import type {
+  EngagementInboxItemWithPlatform,
+  EngagementReply,
+  InboxFilter,
+  SocialPlatformSummary,
+} from "@/src/lib/types/social-media";
 
 export default function SocialMediaInboxPage() {
+  const [items, setItems] = useState<EngagementInboxItemWithPlatform[]>([]);
+  const [platforms, setPlatforms] = useState<SocialPlatformSummary[]>([]);
+  const [replies, setReplies] = useState<EngagementReply[]>([]);
+  const [filter, setFilter] = useState<InboxFilter>({});
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const threads = useMemo(() => groupThreads(items), [items]);
+  const selected = threads.find((t) => t.key === selectedKey) ?? null;
+
+  const fetchItems = useCallback(async () => {
+    setError("");
+    try {
+      setItems(await getEngagementInbox(filter));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, [filter]);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  useEffect(() => {
+    getSocialPlatforms()
+      .then((rows) => setPlatforms(rows.filter((p) => p.is_connected)))
+      .catch(() => {
+        // Non-critical: the platform filter just stays empty
+      });
+  }, []);
+
+  // Load the open thread's replies and mark its items read.
+  const selectedIds = selected?.items.map((i) => i.id).join(",") ?? "";
+  useEffect(() => {
+    if (!selectedIds) {
+      setReplies([]);
+      return;
+    }
+    const ids = selectedIds.split(",");
+    getRepliesForInboxItems(ids).then(setReplies).catch(() => setReplies([]));
+
+    const unread = items.filter((i) => ids.includes(i.id) && !i.is_read).map((i) => i.id);
+    if (unread.length > 0) {
+      markInboxItemsRead(unread)
+        .then(() => setItems((prev) => prev.map((i) => (unread.includes(i.id) ? { ...i, is_read: true } : i))))
+        .catch(() => {
+          // Leave them unread; the next open retries
+        });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedIds]);
+
+  const unreadCount = items.filter((i) => !i.is_read).length;
+
   return (
     <PageShell>
-      <div className="max-w-5xl space-y-6">
+      <div className="max-w-6xl space-y-6">
         <div>
           <h1 className="text-2xl font-semibold">Engagement Inbox</h1>
           <div className="text-sm text-slate-400 mt-1">
             Manage comments, DMs, mentions, and reviews from all platforms.
+            {unreadCount > 0 && ` ${unreadCount} unread.`}
           </div>
         </div>
 
-        <Card title="Status" right={<Pill>Coming soon</Pill>}>
-          <ul className="list-disc pl-5 text-sm text-slate-300 space-y-1">
-            <li>Unified inbox across Instagram, Facebook, LinkedIn, and more</li>
-            <li>Sentiment analysis (positive, neutral, negative)</li>
-            <li>AI-suggested replies</li>
-            <li>Mark as read, replied, or archived</li>
-          </ul>
-        </Card>
+        <InboxFilters filter={filter} platforms={platforms} onChange={setFilter} />
+
+        {error && (
+          <div className="rounded-lg border border-red-500/20 bg-red-500/10 px-4 py-3 text-sm text-red-400">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-[minmax(0,2fr)_minmax(0,3fr)] rounded-2xl border border-white/[0.06] bg-surface overflow-hidden min-h-[32rem]">
+          <div className="md:border-r border-white/[0.06] overflow-y-auto max-h-[40rem]">
+            {loading ? (
+              <div className="px-4 py-8 text-center text-sm text-slate-500">Loading inbox…</div>
+            ) : (
+              <ThreadList threads={threads} selectedKey={selected?.key ?? null} onSelect={setSelectedKey} />
+            )}
+          </div>
+          <div className="max-h-[40rem]">
+            {selected ? (
+              <ThreadView
+                thread={selected}
+                replies={replies}
+                onReplied={() => {
+                  fetchItems();
+                  getRepliesForInboxItems(selected.items.map((i) => i.id)).then(setReplies).catch(() => {});
+                }}
+              />
+            ) : (
+              <div className="flex h-full items-center justify-center px-4 py-8 text-sm text-slate-500">
+                Select a conversation to read and reply.
+              </div>
+            )}
+          </div>
+        </div>
       </div>
     </PageShell>
   );
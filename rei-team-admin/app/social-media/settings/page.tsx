@@ -4,7 +4,7 @@ import { PageShell } from "@/src/components/PageShell";
 import { SettingsSection } from "@/src/components/social-media/settings/SettingsSection";
 import { Card, Pill } from "@/src/components/ui";
 import { getSocialPlatforms } from "@/src/lib/supabase/social-media-queries";
-import type { SocialPlatform } from "@/src/lib/types/social-media";
+import type { SocialPlatformSummary } from "@/src/lib/types/social-media";
 import { PlatformCard } from "@/src/components/social-media/PlatformCard";
 import { PlatformQuickLinks } from "@/src/components/social-media/PlatformQuickLinks";
 import { ConnectionHealthSummary } from "@/src/components/social-media/ConnectionHealthSummary";
@@ -16,9 +16,25 @@ import {
 export default function SocialMediaSettingsPage() {
   const [contentTypeCount, setContentTypeCount] = useState<number | undefined>(undefined);
   const [brandVoiceCount, setBrandVoiceCount] = useState<number | undefined>(undefined);
-  const [platformData, setPlatformData] = useState<Record<string, SocialPlatform>>({});
+  const [platformData, setPlatformData] = useState<Record<string, SocialPlatformSummary>>({});
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [oauthNotice, setOauthNotice] = useState<{ kind: "success" | "error"; message: string } | null>(null);
+
+  // The OAuth callback redirects back here with ?connected= or ?oauth_error=.
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const connected = params.get("connected");
+    const oauthError = params.get("oauth_error");
+    if (!connected && !oauthError) return;
+    if (oauthError) {
+      setOauthNotice({ kind: "error", message: oauthError });
+    } else if (connected) {
+      const name = PLATFORM_CONFIGS[connected as keyof typeof PLATFORM_CONFIGS]?.name ?? connected;
+      setOauthNotice({ kind: "success", message: `${name} connected.` });
+    }
+    window.history.replaceState(null, "", window.location.pathname);
+  }, []);
 
   useEffect(() => {
     fetch("/api/content-types?activeOnly=false")
@@ -36,7 +52,7 @@ export default function SocialMediaSettingsPage() {
     setError(null);
     try {
       const rows = await getSocialPlatforms();
-      const map: Record<string, SocialPlatform> = {};
+      const map: Record<string, SocialPlatformSummary> = {};
       for (const row of rows) {
         map[row.platform_name] = row;
       }
@@ -52,7 +68,7 @@ export default function SocialMediaSettingsPage() {
     loadPlatforms();
   }, [loadPlatforms]);
 
-  function handlePlatformUpdate(updated: SocialPlatform) {
+  function handlePlatformUpdate(updated: SocialPlatformSummary) {
     setPlatformData((prev) => ({
       ...prev,
       [updated.platform_name]: updated,
@@ -102,6 +118,28 @@ export default function SocialMediaSettingsPage() {
             icon="📰"
           />
         </div>
+        {oauthNotice && (
+          <div
+            role={oauthNotice.kind === "error" ? "alert" : "status"}
+            className={[
+              "flex items-start justify-between gap-3 rounded-lg border p-3 text-xs",
+              oauthNotice.kind === "error"
+                ? "border-red-500/20 bg-red-500/10 text-red-400"
+                : "border-emerald-500/20 bg-emerald-500/10 text-emerald-400",
+            ].join(" ")}
+          >
+            <span>{oauthNotice.message}</span>
+            <button
+              type="button"
+              onClick={() => setOauthNotice(null)}
+              className="text-slate-400 hover:text-slate-200"
+              aria-label="Dismiss"
+            >
+              ✕
+            </button>
+          </div>
+        )}
+
         {/* Connection health summary */}
         {!loading && !error && (
           <ConnectionHealthSummary
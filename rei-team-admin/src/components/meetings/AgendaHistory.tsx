@@ -0,0 +1,203 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabaseBrowser } from "@/src/lib/supabase/browser";
+import { Button, Pill } from "@/src/components/ui";
+import { prettyDate } from "@/src/lib/format";
+import type { AgendaChangeStatus, AgendaItemHistory, HistorySession } from "@/src/lib/meetings/agenda-history";
+
+type Props = {
+  meetingId: string;
+  /** Open a session's minutes in the Minutes view. */
+  onOpenSession?: (sessionId: string) => void;
+};
+
+const STATUS_STYLES: Record<AgendaChangeStatus, { label: string; className: string }> = {
+  new: { label: "New", className: "bg-blue-500/15 text-blue-300" },
+  ongoing: { label: "Ongoing", className: "bg-amber-500/15 text-amber-300" },
+  resolved: { label: "Resolved", className: "bg-emerald-500/15 text-emerald-300" },
+  not_discussed: { label: "Not discussed", className: "bg-white/5 text-slate-400" },
+};
+
+/**
+ * How each agenda item evolved across the meeting's concluded sessions, with
+ * the AI "what changed since last time" summary per session.  Items open for
+ * several sessions in a row are flagged.
+ */
+export function AgendaHistory({ meetingId, onOpenSession }: Props) {
+  const sb = useMemo(() => supabaseBrowser(), []);
+  const [sessions, setSessions] = useState<HistorySession[]>([]);
+  const [items, setItems] = useState<AgendaItemHistory[]>([]);
+  const [includeInPdf, setIncludeInPdf] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setErr(null);
+    try {
+      const [res, meetingRes] = await Promise.all([
+        fetch(`/api/meetings/ai/history?meetingId=${encodeURIComponent(meetingId)}`),
+        sb.from("meetings").select("minutes_include_history").eq("id", meetingId).maybeSingle(),
+      ]);
+      const j = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(j?.error || "Failed to load agenda history");
+      setSessions((j.sessions ?? []) as HistorySession[]);
+      setItems((j.items ?? []) as AgendaItemHistory[]);
+      setIncludeInPdf(!!meetingRes.data?.minutes_include_history);
+    } catch (e: unknown) {
+      setErr((e as Error)?.message ?? "Failed to load agenda history");
+    } finally {
+      setLoading(false);
+    }
+  }, [meetingId, sb]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  /** Sessions that have notes but no change summaries yet. */
+  const unsummarized = useMemo(
+    () =>
+      sessions.filter(
+        (s) =>
+          items.some((i) => i.entries.some((e) => e.sessionId === s.id && e.notes)) &&
+          !items.some((i) => i.entries.some((e) => e.sessionId === s.id && e.change))
+      ),
+    [sessions, items]
+  );
+
+  async function summarize(sessionId: string) {
+    setBusy(sessionId);
+    setErr(null);
+    try {
+      const res = await fetch("/api/meetings/ai/history", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionId }),
+      });
+      const j = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(j?.error || "Failed to summarize changes");
+      await load();
+    } catch (e: unknown) {
+      setErr((e as Error)?.message ?? "Failed to summarize changes");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function toggleIncludeInPdf(next: boolean) {
+    setIncludeInPdf(next);
+    const { error } = await sb.from("meetings").update({ minutes_include_history: next }).eq("id", meetingId);
+    if (error) {
+      setIncludeInPdf(!next);
+      setErr(error.message);
+    }
+  }
+
+  function toggleExpanded(itemId: string) {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(itemId)) next.delete(itemId);
+      else next.add(itemId);
+      return next;
+    });
+  }
+
+  if (loading && !sessions.length) {
+    return <div className="text-sm text-slate-400">Loading history…</div>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-xs text-slate-300">
+        <input type="checkbox" checked={includeInPdf} onChange={(e) => void toggleIncludeInPdf(e.target.checked)} />
+        Include agenda history in the minutes PDF
+      </label>
+
+      {err && <div className="text-xs text-red-400">{err}</div>}
+
+      {unsummarized.map((s) => (
+        <div
+          key={s.id}
+          className="flex items-center justify-between gap-2 rounded-lg border border-white/10 bg-surface p-2 text-xs text-slate-300"
+        >
+          <span>
+            {s.session_number ? `#${s.session_number} · ` : ""}
+            {prettyDate(s.started_at)} has no change summary.
+          </span>
+          <Button variant="ghost" disabled={!!busy} onClick={() => void summarize(s.id)}>
+            {busy === s.id ? "Summarizing..." : "Summarize changes"}
+          </Button>
+        </div>
+      ))}
+
+      {!sessions.length ? (
+        <div className="text-sm text-slate-400">No concluded sessions yet.</div>
+      ) : items.length === 0 ? (
+        <div className="text-sm text-slate-400">No agenda topics yet.</div>
+      ) : (
+        items.map((item) => {
+          const open = expanded.has(item.agendaItemId);
+          // Newest first; collapsed shows only the latest session.
+          const entries = [...item.entries].reverse();
+          return (
+            <div
+              key={item.agendaItemId}
+              className={[
+                "rounded-xl border p-3",
+                item.flagged ? "border-amber-500/40 bg-amber-500/[0.04]" : "",
+              ].join(" ")}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="text-sm font-semibold">{item.label}</div>
+                {item.flagged && <Pill>Unresolved for {item.unresolvedStreak} sessions</Pill>}
+              </div>
+
+              <div className="mt-2 space-y-2">
+                {(open ? entries : entries.slice(0, 1)).map((e) => {
+                  const status = e.change ? STATUS_STYLES[e.change.status] : null;
+                  return (
+                    <div key={e.sessionId} className="border-l-2 border-white/10 pl-2">
+                      <div className="flex items-center gap-2 text-xs text-slate-500">
+                        <button
+                          type="button"
+                          className="hover:text-slate-300"
+                          onClick={() => onOpenSession?.(e.sessionId)}
+                        >
+                          {e.sessionNumber ? `#${e.sessionNumber} · ` : ""}
+                          {prettyDate(e.startedAt)}
+                        </button>
+                        {status && <span className={`rounded px-1.5 py-0.5 ${status.className}`}>{status.label}</span>}
+                      </div>
+                      <div className="mt-1 text-xs text-slate-300 whitespace-pre-wrap">
+                        {e.change?.summary ||
+                          (e.notes ? (
+                            <span className="line-clamp-3">{e.notes}</span>
+                          ) : (
+                            <span className="text-slate-500">Not discussed.</span>
+                          ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+
+              {entries.length > 1 && (
+                <button
+                  type="button"
+                  className="mt-2 text-xs text-blue-400 hover:text-blue-300"
+                  onClick={() => toggleExpanded(item.agendaItemId)}
+                >
+                  {open ? "Show latest only" : `Show all ${entries.length} sessions`}
+                </button>
+              )}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button, Card, Pill } from "@/src/components/ui";
+import { prettyDate } from "@/src/lib/format";
+
+type Status = {
+  connected: boolean;
+  configured: boolean;
+  accountEmail: string | null;
+  lastSyncedAt: string | null;
+  syncError: string | null;
+};
+
+export type GooglePushResult = { status: "created" | "updated" | "cancelled" | "skipped"; reason?: string };
+
+/**
+ * Pushes a meeting to its Google Calendar event (create / update / cancel).
+ * Never throws: returns null when the push failed, so saving a meeting never
+ * fails because of Google.
+ */
+export async function pushMeetingToGoogleCalendar(
+  meetingId: string,
+  opts: { cancel?: boolean } = {}
+): Promise<GooglePushResult | null> {
+  try {
+    const res = await fetch("/api/meetings/google/push", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ meetingId, cancel: !!opts.cancel }),
+    });
+    if (!res.ok) return null;
+    return (await res.json()) as GooglePushResult;
+  } catch {
+    return null;
+  }
+}
+
+/** Connect / disconnect the signed-in user's Google Calendar and pull changes on demand. */
+export function GoogleCalendarConnect({ onSynced }: { onSynced?: () => void | Promise<void> }) {
+  const [status, setStatus] = useState<Status | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+
+  async function loadStatus() {
+    const res = await fetch("/api/meetings/google");
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) setErr(json?.error ?? "Failed to load Google Calendar status");
+    else setStatus(json as Status);
+  }
+
+  useEffect(() => {
+    // Result of the OAuth callback redirect.
+    const params = new URLSearchParams(window.location.search);
+    if (params.get("google") === "connected") setMsg("Google Calendar connected.");
+    if (params.get("google_error")) setErr(params.get("google_error"));
+    void loadStatus();
+  }, []);
+
+  async function syncNow() {
+    setBusy(true);
+    setErr(null);
+    setMsg(null);
+    try {
+      const res = await fetch("/api/meetings/google/sync", { method: "POST" });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.error ?? "Sync failed");
+      setMsg(
+        `Synced ${json.events ?? 0} event changes: ${json.meetingsUpdated ?? 0} meetings, ` +
+          `${json.exceptionsSaved ?? 0} occurrences, ${json.rsvpsUpdated ?? 0} RSVPs updated.`
+      );
+      await onSynced?.();
+    } catch (e: unknown) {
+      setErr((e as Error)?.message ?? "Sync failed");
+    } finally {
+      setBusy(false);
+      await loadStatus();
+    }
+  }
+
+  async function disconnect() {
+    if (!window.confirm("Disconnect Google Calendar? Existing events stay on your calendar but stop updating.")) return;
+    setBusy(true);
+    setErr(null);
+    setMsg(null);
+    try {
+      const res = await fetch("/api/meetings/google", { method: "DELETE" });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.error ?? "Failed to disconnect");
+      await loadStatus();
+    } catch (e: unknown) {
+      setErr((e as Error)?.message ?? "Failed to disconnect");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Card title="Google Calendar">
+      <div className="space-y-3">
+        {!status ? (
+          <div className="text-sm text-slate-400">Loading...</div>
+        ) : status.connected ? (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-sm text-slate-300">
+              <Pill>Connected</Pill>
+              {status.accountEmail && <span>{status.accountEmail}</span>}
+              <span className="text-xs text-slate-500">
+                {status.lastSyncedAt ? `Last synced ${prettyDate(status.lastSyncedAt)}` : "Not synced yet"}
+              </span>
+            </div>
+            {status.syncError && <div className="text-xs text-red-400">Last sync failed: {status.syncError}</div>}
+            <div className="text-xs text-slate-500">
+              Meetings you create or edit are added to your calendar and Google sends the invites. Time changes,
+              cancelled or moved occurrences and RSVPs made in Google come back here.
+            </div>
+            <div className="flex gap-2">
+              <Button disabled={busy} onClick={() => void syncNow()}>
+                {busy ? "Syncing..." : "Sync now"}
+              </Button>
+              <Button variant="ghost" disabled={busy} onClick={() => void disconnect()}>
+                Disconnect
+              </Button>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="text-sm text-slate-400">
+              Connect your Google Calendar to put meetings on it and keep times and RSVPs in sync.
+            </div>
+            {status.configured ? (
+              <Button onClick={() => (window.location.href = "/api/meetings/google/start")}>Connect Google Calendar</Button>
+            ) : (
+              <div className="text-xs text-slate-500">Google OAuth is not configured (GOOGLE_OAUTH_CLIENT_ID).</div>
+            )}
+          </>
+        )}
+
+        {msg && <div className="text-xs text-emerald-300">{msg}</div>}
+        {err && <div className="text-xs text-red-400">{err}</div>}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { supabaseBrowser } from "@/src/lib/supabase/browser";
+import { Button, Input, Pill } from "@/src/components/ui";
+import { describeRRule } from "@/src/lib/rrule";
+import {
+  DEFAULT_MEETING_TIMEZONE,
+  expandMeetingOccurrences,
+  formatOccurrence,
+  type MeetingOccurrence,
+  type MeetingSeries as Series,
+  type OccurrenceException,
+} from "@/src/lib/meetings/series";
+
+type Props = {
+  meetingId: string;
+  series: Series;
+  exceptions: OccurrenceException[];
+  /** Called after an exception is saved or removed; the parent reloads `exceptions`. */
+  onChanged: () => void | Promise<void>;
+};
+
+/** Occurrences listed for editing. */
+const UPCOMING_LIMIT = 12;
+
+/** ISO instant → value for a datetime-local input (viewer's local time). */
+function toLocalInput(iso: string): string {
+  const d = new Date(iso);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+}
+
+/**
+ * Upcoming occurrences of a recurring meeting with per-occurrence exceptions:
+ * skip one, move it to another time, or restore it to the rule's time.
+ */
+export function MeetingSeries({ meetingId, series, exceptions, onChanged }: Props) {
+  const sb = useMemo(() => supabaseBrowser(), []);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+  const [moving, setMoving] = useState<{ originalStart: string; value: string } | null>(null);
+
+  const timezone = series.timezone?.trim() || DEFAULT_MEETING_TIMEZONE;
+  const occurrences = useMemo(
+    () =>
+      expandMeetingOccurrences(series, exceptions, { from: new Date(), limit: UPCOMING_LIMIT, includeSkipped: true }),
+    [series, exceptions]
+  );
+
+  async function run(originalStart: string, fn: () => PromiseLike<{ error: { message: string } | null }>) {
+    setBusy(originalStart);
+    setErr(null);
+    try {
+      const { error } = await fn();
+      if (error) throw new Error(error.message);
+      setMoving(null);
+      await onChanged();
+    } catch (e: unknown) {
+      setErr((e as Error)?.message ?? "Failed to update occurrence");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function saveException(o: MeetingOccurrence, action: "skip" | "move", movedStartAt: string | null) {
+    const { data: userData } = await sb.auth.getUser();
+    await run(o.originalStart, () =>
+      sb.from("meeting_occurrence_exceptions").upsert(
+        {
+          meeting_id: meetingId,
+          original_start: o.originalStart,
+          action,
+          moved_start_at: movedStartAt,
+          created_by: userData?.user?.id ?? null,
+        },
+        { onConflict: "meeting_id,original_start" }
+      )
+    );
+  }
+
+  async function restore(o: MeetingOccurrence) {
+    await run(o.originalStart, () =>
+      sb
+        .from("meeting_occurrence_exceptions")
+        .delete()
+        .eq("meeting_id", meetingId)
+        .eq("original_start", o.originalStart)
+    );
+  }
+
+  if (!series.rrule) {
+    return <div className="text-sm text-slate-400">This is a one-time meeting. Set a frequency to make it a series.</div>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="text-sm text-slate-400">
+        {describeRRule(series.rrule)} · times in {timezone}
+      </div>
+
+      {err && <div className="text-xs text-red-400">{err}</div>}
+
+      {occurrences.length === 0 ? (
+        <div className="text-sm text-slate-400">No upcoming occurrences; the series has ended.</div>
+      ) : (
+        <div className="space-y-2">
+          {occurrences.map((o) => {
+            const isMoving = moving?.originalStart === o.originalStart;
+            return (
+              <div key={o.originalStart} className="rounded-xl border border-white/10 bg-surface p-3">
+                <div className="flex items-center justify-between gap-3">
+                  <div>
+                    <div className={`text-sm ${o.skipped ? "text-slate-500 line-through" : "text-slate-100"}`}>
+                      {formatOccurrence(o.startAt, timezone)}
+                    </div>
+                    {o.moved && (
+                      <div className="text-xs text-slate-500">Originally {formatOccurrence(o.originalStart, timezone)}</div>
+                    )}
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    {o.skipped && <Pill>Skipped</Pill>}
+                    {o.moved && <Pill>Moved</Pill>}
+                    {o.skipped || o.moved ? (
+                      <Button variant="ghost" disabled={!!busy} onClick={() => void restore(o)}>
+                        Restore
+                      </Button>
+                    ) : (
+                      <>
+                        <Button variant="ghost" disabled={!!busy} onClick={() => void saveException(o, "skip", null)}>
+                          Skip
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          disabled={!!busy}
+                          onClick={() => setMoving(isMoving ? null : { originalStart: o.originalStart, value: toLocalInput(o.startAt) })}
+                        >
+                          Move
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+
+                {isMoving && moving && (
+                  <div className="mt-2 flex items-end gap-2">
+                    <div className="flex-1">
+                      <label className="text-xs text-slate-400">New date/time (your local time)</label>
+                      <Input
+                        type="datetime-local"
+                        value={moving.value}
+                        onChange={(e) => setMoving({ ...moving, value: e.target.value })}
+                      />
+                    </div>
+                    <Button
+                      disabled={!!busy || !moving.value}
+                      onClick={() => void saveException(o, "move", new Date(moving.value).toISOString())}
+                    >
+                      {busy === o.originalStart ? "Saving..." : "Save"}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
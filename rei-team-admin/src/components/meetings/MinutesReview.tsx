@@ -0,0 +1,329 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { supabaseBrowser } from "@/src/lib/supabase/browser";
+import { Button } from "@/src/components/ui";
+import { prettyDate } from "@/src/lib/format";
+import { formatTimestamp } from "@/src/lib/meetings/pipeline";
+import type { TranscriptSession } from "@/src/components/meetings/TranscriptViewer";
+
+type ReviewAgendaItem = { id: string; code: string | null; title: string };
+
+type AlignedLine = {
+  id: string;
+  position: number;
+  start_seconds: number;
+  speaker: string | null;
+  text: string;
+  agenda_item_id: string | null;
+  agenda_assigned_by: "ai" | "reviewer" | null;
+};
+
+type Props = {
+  sessions: TranscriptSession[];
+  /** Agenda items in agenda order. */
+  agenda: ReviewAgendaItem[];
+  /** Called after an agenda item's notes are regenerated. */
+  onNotesChanged?: (sessionId: string, agendaItemId: string, notes: string) => void;
+};
+
+function itemLabel(item: ReviewAgendaItem | undefined) {
+  if (!item) return "Unassigned";
+  return `${item.code ? `${item.code} - ` : ""}${item.title}`;
+}
+
+/**
+ * Review AI minutes against the transcript: selecting an agenda item's notes
+ * highlights the transcript lines they were written from; a reviewer can move
+ * a span of lines to another agenda item and regenerate that item's notes.
+ */
+export function MinutesReview({ sessions, agenda, onNotesChanged }: Props) {
+  const sb = useMemo(() => supabaseBrowser(), []);
+  const defaultSessionId = sessions.find((s) => s.ai_status === "done")?.id ?? sessions[0]?.id ?? "";
+  const [sessionId, setSessionId] = useState(defaultSessionId);
+  const [lines, setLines] = useState<AlignedLine[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
+  const [selection, setSelection] = useState<{ anchor: number; from: number; to: number } | null>(null);
+  const [targetItemId, setTargetItemId] = useState("");
+  const [busy, setBusy] = useState<string | null>(null);
+  /** Agenda items whose lines changed since their notes were written. */
+  const [stale, setStale] = useState<Set<string>>(new Set());
+  const lineRefs = useRef<Record<number, HTMLDivElement | null>>({});
+
+  useEffect(() => {
+    if (!sessionId && defaultSessionId) setSessionId(defaultSessionId);
+  }, [sessionId, defaultSessionId]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    let cancelled = false;
+    setLoading(true);
+    setErr(null);
+    setSelection(null);
+    setStale(new Set());
+
+    (async () => {
+      try {
+        const [res, notesRes] = await Promise.all([
+          fetch("/api/meetings/ai/transcript", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ sessionId }),
+          }),
+          sb.from("meeting_agenda_notes").select("agenda_item_id,notes").eq("session_id", sessionId),
+        ]);
+        const j = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(j?.error || "Failed to load transcript");
+        if (notesRes.error) throw notesRes.error;
+        if (cancelled) return;
+        setLines((j.segments ?? []) as AlignedLine[]);
+        const map: Record<string, string> = {};
+        for (const n of (notesRes.data ?? []) as Array<{ agenda_item_id: string; notes: string | null }>) {
+          map[n.agenda_item_id] = n.notes ?? "";
+        }
+        setNotes(map);
+      } catch (e: unknown) {
+        if (!cancelled) setErr((e as Error)?.message ?? "Failed to load review");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, sb]);
+
+  const lineCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    for (const l of lines) if (l.agenda_item_id) counts[l.agenda_item_id] = (counts[l.agenda_item_id] ?? 0) + 1;
+    return counts;
+  }, [lines]);
+
+  function selectItem(itemId: string) {
+    const next = selectedItemId === itemId ? null : itemId;
+    setSelectedItemId(next);
+    const first = next ? lines.find((l) => l.agenda_item_id === next) : null;
+    if (first) lineRefs.current[first.position]?.scrollIntoView({ block: "center", behavior: "smooth" });
+  }
+
+  function clickLine(position: number, extend: boolean) {
+    setSelection((cur) => {
+      if (extend && cur) {
+        return { anchor: cur.anchor, from: Math.min(cur.anchor, position), to: Math.max(cur.anchor, position) };
+      }
+      if (cur && cur.from === position && cur.to === position) return null;
+      return { anchor: position, from: position, to: position };
+    });
+  }
+
+  async function moveSelection() {
+    if (!selection) return;
+    setBusy("move");
+    setErr(null);
+    try {
+      const agendaItemId = targetItemId || null;
+      const res = await fetch("/api/meetings/ai/alignment", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          sessionId,
+          fromPosition: selection.from,
+          toPosition: selection.to,
+          agendaItemId,
+        }),
+      });
+      const j = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(j?.error || "Failed to move lines");
+
+      const touched = new Set(stale);
+      for (const l of lines) {
+        if (l.position >= selection.from && l.position <= selection.to && l.agenda_item_id) touched.add(l.agenda_item_id);
+      }
+      if (agendaItemId) touched.add(agendaItemId);
+      setStale(touched);
+      setLines((prev) =>
+        prev.map((l) =>
+          l.position >= selection.from && l.position <= selection.to
+            ? { ...l, agenda_item_id: agendaItemId, agenda_assigned_by: "reviewer" }
+            : l
+        )
+      );
+      setSelection(null);
+    } catch (e: unknown) {
+      setErr((e as Error)?.message ?? "Failed to move lines");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function regenerate(agendaItemId: string) {
+    setBusy(agendaItemId);
+    setErr(null);
+    try {
+      const res = await fetch("/api/meetings/ai/alignment", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionId, agendaItemId }),
+      });
+      const j = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(j?.error || "Failed to regenerate notes");
+      const text = String(j.notes ?? "");
+      setNotes((prev) => ({ ...prev, [agendaItemId]: text }));
+      setStale((prev) => {
+        const next = new Set(prev);
+        next.delete(agendaItemId);
+        return next;
+      });
+      onNotesChanged?.(sessionId, agendaItemId, text);
+    } catch (e: unknown) {
+      setErr((e as Error)?.message ?? "Failed to regenerate notes");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  if (!sessions.length) {
+    return <div className="text-sm text-slate-400">No sessions yet.</div>;
+  }
+
+  const itemsById = new Map(agenda.map((a) => [a.id, a]));
+
+  return (
+    <div className="space-y-3">
+      <select
+        className="w-full rounded-lg border border-white/10 bg-base px-2 py-2 text-sm text-slate-200"
+        value={sessionId}
+        onChange={(e) => {
+          setSessionId(e.target.value);
+          setSelectedItemId(null);
+        }}
+      >
+        {sessions.map((s) => (
+          <option key={s.id} value={s.id}>
+            {s.session_number ? `#${s.session_number} · ` : ""}
+            {prettyDate(s.started_at)}
+          </option>
+        ))}
+      </select>
+
+      {err && <div className="text-xs text-red-400">{err}</div>}
+
+      {loading ? (
+        <div className="text-sm text-slate-400">Loading review…</div>
+      ) : (
+        <>
+          <div className="space-y-2">
+            {agenda.map((a) => (
+              <div
+                key={a.id}
+                className={[
+                  "rounded-xl border p-2 cursor-pointer",
+                  selectedItemId === a.id ? "border-emerald-500/40 bg-emerald-500/[0.06]" : "hover:bg-white/[0.03]",
+                ].join(" ")}
+                onClick={() => selectItem(a.id)}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="text-sm font-semibold">{itemLabel(a)}</div>
+                  <div className="flex items-center gap-2 text-xs text-slate-500">
+                    <span>{lineCounts[a.id] ?? 0} lines</span>
+                    {stale.has(a.id) && <span className="text-amber-400">lines changed</span>}
+                    <Button
+                      variant="ghost"
+                      disabled={!!busy}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        void regenerate(a.id);
+                      }}
+                    >
+                      {busy === a.id ? "Regenerating..." : "Regenerate"}
+                    </Button>
+                  </div>
+                </div>
+                <div className="mt-1 text-xs text-slate-300 whitespace-pre-wrap line-clamp-6">
+                  {notes[a.id]?.trim() || <span className="text-slate-500">No notes.</span>}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {selection && (
+            <div className="sticky top-0 z-10 flex flex-wrap items-center gap-2 rounded-lg border border-blue-500/30 bg-elevated p-2 text-xs">
+              <span className="text-slate-300">
+                Lines #{selection.from}
+                {selection.to !== selection.from ? `–#${selection.to}` : ""} →
+              </span>
+              <select
+                className="rounded-lg border border-white/10 bg-base px-2 py-1 text-xs text-slate-200"
+                value={targetItemId}
+                onChange={(e) => setTargetItemId(e.target.value)}
+              >
+                <option value="">Unassigned</option>
+                {agenda.map((a) => (
+                  <option key={a.id} value={a.id}>
+                    {itemLabel(a)}
+                  </option>
+                ))}
+              </select>
+              <Button disabled={busy === "move"} onClick={() => void moveSelection()}>
+                {busy === "move" ? "Moving..." : "Move"}
+              </Button>
+              <Button variant="ghost" onClick={() => setSelection(null)}>
+                Cancel
+              </Button>
+            </div>
+          )}
+
+          {lines.length === 0 ? (
+            <div className="text-sm text-slate-400">
+              No transcript for this session. Alignment appears after AI processing of a recorded session.
+            </div>
+          ) : (
+            <div className="max-h-[60vh] overflow-y-auto space-y-1 pr-1">
+              <div className="text-xs text-slate-500">Click a line to select it, shift-click to select a span.</div>
+              {lines.map((l) => {
+                const highlighted = !!selectedItemId && l.agenda_item_id === selectedItemId;
+                const selected = !!selection && l.position >= selection.from && l.position <= selection.to;
+                return (
+                  <div
+                    key={l.id}
+                    ref={(el) => {
+                      lineRefs.current[l.position] = el;
+                    }}
+                    onClick={(e) => clickLine(l.position, e.shiftKey)}
+                    className={[
+                      "cursor-pointer select-none rounded-lg px-2 py-1.5 text-sm",
+                      selected ? "ring-1 ring-blue-500/60" : "",
+                      highlighted
+                        ? "bg-emerald-500/10"
+                        : selectedItemId
+                          ? "opacity-50 hover:opacity-80"
+                          : "hover:bg-white/[0.04]",
+                    ].join(" ")}
+                  >
+                    <div className="flex items-center justify-between gap-2 text-xs text-slate-500">
+                      <span className="font-mono">
+                        #{l.position} · {formatTimestamp(Number(l.start_seconds))}
+                      </span>
+                      <span className="truncate" title={l.agenda_assigned_by === "reviewer" ? "Set by a reviewer" : undefined}>
+                        {itemLabel(l.agenda_item_id ? itemsById.get(l.agenda_item_id) : undefined)}
+                        {l.agenda_assigned_by === "reviewer" ? " ✎" : ""}
+                      </span>
+                    </div>
+                    <div>
+                      {l.speaker && <span className="text-xs font-semibold text-blue-400 mr-1">{l.speaker}:</span>}
+                      <span className="text-slate-300">{l.text}</span>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { supabaseBrowser } from "@/src/lib/supabase/browser";
+import { Button, Card, Input } from "@/src/components/ui";
+import { prettyDate } from "@/src/lib/format";
+import { formatTimestamp } from "@/src/lib/meetings/pipeline";
+
+type SearchHit = {
+  kind: "transcript" | "agenda_note";
+  meeting_id: string;
+  meeting_title: string;
+  session_id: string;
+  session_started_at: string;
+  agenda_item_id: string | null;
+  agenda_item_title: string | null;
+  start_seconds: number | null;
+  snippet: string;
+  rank: number;
+};
+
+/** search_meeting_minutes() wraps matches in « and ». */
+function renderSnippet(snippet: string) {
+  return snippet.split(/«|»/g).map((part, i) =>
+    i % 2 === 1 ? (
+      <mark key={i} className="bg-amber-400/30 text-inherit rounded px-0.5">
+        {part}
+      </mark>
+    ) : (
+      part
+    )
+  );
+}
+
+function hitHref(hit: SearchHit) {
+  if (hit.kind === "transcript") {
+    const t = Math.floor(Number(hit.start_seconds) || 0);
+    return `/meetings/${hit.meeting_id}?transcript=${hit.session_id}&t=${t}`;
+  }
+  return `/meetings/${hit.meeting_id}?prevSessionId=${hit.session_id}`;
+}
+
+export function MinutesSearch() {
+  const sb = useMemo(() => supabaseBrowser(), []);
+  const [query, setQuery] = useState("");
+  const [hits, setHits] = useState<SearchHit[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  async function runSearch() {
+    const q = query.trim();
+    if (!q) {
+      setHits(null);
+      return;
+    }
+    setBusy(true);
+    setErr(null);
+    const { data, error } = await sb.rpc("search_meeting_minutes", { q, max_results: 50 });
+    if (error) setErr(error.message);
+    else setHits((data ?? []) as SearchHit[]);
+    setBusy(false);
+  }
+
+  return (
+    <Card title="Search minutes & transcripts">
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          void runSearch();
+        }}
+      >
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder='e.g. "roof inspection" or budget -marketing'
+        />
+        <Button type="submit" disabled={busy}>
+          {busy ? "Searching..." : "Search"}
+        </Button>
+      </form>
+
+      {err && <div className="mt-2 text-xs text-red-400">{err}</div>}
+
+      {hits && (
+        <div className="mt-3 space-y-2">
+          {hits.length === 0 ? (
+            <div className="text-sm text-slate-400">No matches.</div>
+          ) : (
+            hits.map((hit, i) => (
+              <Link
+                key={`${hit.kind}-${hit.session_id}-${hit.agenda_item_id ?? hit.start_seconds}-${i}`}
+                href={hitHref(hit)}
+                className="block rounded-xl border border-white/[0.06] bg-base p-3 hover:bg-white/[0.04]"
+              >
+                <div className="flex flex-wrap items-center gap-x-2 text-xs text-slate-500">
+                  <span className="font-semibold text-slate-200">{hit.meeting_title}</span>
+                  <span>{prettyDate(hit.session_started_at)}</span>
+                  {hit.kind === "transcript" ? (
+                    <span>Transcript · {formatTimestamp(Number(hit.start_seconds) || 0)}</span>
+                  ) : (
+                    <span>Minutes · {hit.agenda_item_title}</span>
+                  )}
+                </div>
+                <div className="mt-1 text-sm text-slate-300">{renderSnippet(hit.snippet)}</div>
+              </Link>
+            ))
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
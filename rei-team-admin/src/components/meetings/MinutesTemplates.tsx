@@ -0,0 +1,362 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabaseBrowser } from "@/src/lib/supabase/browser";
+import { Button, Card, Input, Modal, Pill } from "@/src/components/ui";
+import {
+  DEFAULT_MINUTES_TEMPLATE,
+  MINUTES_FONTS,
+  MINUTES_PAGE_SIZES,
+  MINUTES_SECTIONS,
+  MINUTES_SECTION_LABELS,
+  isHexColor,
+  normalizeMinutesTemplate,
+  type MinutesFont,
+  type MinutesPageSize,
+  type MinutesPalette,
+  type MinutesSection,
+  type MinutesTemplateRow,
+} from "@/src/lib/meetings/minutes-template";
+
+type Draft = {
+  id: string | null;
+  name: string;
+  sections: MinutesSection[];
+  logo_url: string;
+  palette: MinutesPalette;
+  page_size: MinutesPageSize;
+  font: MinutesFont;
+  is_default: boolean;
+};
+
+const PALETTE_FIELDS: Array<{ key: keyof MinutesPalette; label: string }> = [
+  { key: "primary", label: "Accent" },
+  { key: "dark", label: "Headings" },
+  { key: "light", label: "Fills" },
+];
+
+function draftFrom(row: MinutesTemplateRow | null): Draft {
+  const t = row ? normalizeMinutesTemplate(row) : DEFAULT_MINUTES_TEMPLATE;
+  return {
+    id: row?.id ?? null,
+    name: row ? t.name : "",
+    sections: [...t.sections],
+    logo_url: t.logoUrl ?? "",
+    palette: { ...t.palette },
+    page_size: t.pageSize,
+    font: t.font,
+    is_default: !!row?.is_default,
+  };
+}
+
+/** Open a PDF response in a new tab. */
+async function openPdf(res: Response) {
+  if (!res.ok) {
+    const j = await res.json().catch(() => ({}));
+    throw new Error(j?.error || "Failed to render preview");
+  }
+  const url = URL.createObjectURL(await res.blob());
+  window.open(url, "_blank");
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
+
+/** Team minutes templates: section order, logo, palette, font and page size of the finalized PDF. */
+export function MinutesTemplates() {
+  const sb = useMemo(() => supabaseBrowser(), []);
+  const [templates, setTemplates] = useState<MinutesTemplateRow[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const { data, error } = await sb
+      .from("minutes_templates")
+      .select("id,name,sections,logo_url,palette,page_size,font,is_default")
+      .order("name", { ascending: true });
+    if (!error) setTemplates((data ?? []) as MinutesTemplateRow[]);
+  }, [sb]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  function moveSection(section: MinutesSection, delta: number) {
+    setDraft((d) => {
+      if (!d) return d;
+      const i = d.sections.indexOf(section);
+      const j = i + delta;
+      if (i < 0 || j < 0 || j >= d.sections.length) return d;
+      const sections = [...d.sections];
+      [sections[i], sections[j]] = [sections[j]!, sections[i]!];
+      return { ...d, sections };
+    });
+  }
+
+  function toggleSection(section: MinutesSection, on: boolean) {
+    setDraft((d) =>
+      d ? { ...d, sections: on ? [...d.sections, section] : d.sections.filter((s) => s !== section) } : d
+    );
+  }
+
+  async function preview(templateId: string | null) {
+    setBusy(`preview:${templateId ?? "draft"}`);
+    setErr(null);
+    try {
+      if (templateId) {
+        await openPdf(await fetch(`/api/meetings/ai/template-preview?templateId=${encodeURIComponent(templateId)}`));
+      } else if (draft) {
+        await openPdf(
+          await fetch("/api/meetings/ai/template-preview", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ template: draft }),
+          })
+        );
+      }
+    } catch (e: unknown) {
+      setErr((e as Error)?.message ?? "Failed to render preview");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function save() {
+    if (!draft) return;
+    setBusy("save");
+    setErr(null);
+    try {
+      if (!draft.name.trim()) throw new Error("Template name is required.");
+      if (!draft.sections.length) throw new Error("Include at least one section.");
+      for (const f of PALETTE_FIELDS) {
+        if (!isHexColor(draft.palette[f.key])) throw new Error(`${f.label} colour must be #rrggbb.`);
+      }
+      const logoUrl = draft.logo_url.trim();
+      if (logoUrl && !/^https?:\/\//i.test(logoUrl)) throw new Error("Logo URL must start with http(s)://");
+
+      // Only one default: clear the current one first
+      if (draft.is_default) {
+        const clear = await sb.from("minutes_templates").update({ is_default: false }).eq("is_default", true);
+        if (clear.error) throw clear.error;
+      }
+
+      const row = {
+        name: draft.name.trim(),
+        sections: draft.sections,
+        logo_url: logoUrl || null,
+        palette: draft.palette,
+        page_size: draft.page_size,
+        font: draft.font,
+        is_default: draft.is_default,
+        updated_at: new Date().toISOString(),
+      };
+      if (draft.id) {
+        const up = await sb.from("minutes_templates").update(row).eq("id", draft.id);
+        if (up.error) throw up.error;
+      } else {
+        const { data: userData } = await sb.auth.getUser();
+        const ins = await sb.from("minutes_templates").insert({ ...row, created_by: userData?.user?.id ?? null });
+        if (ins.error) throw ins.error;
+      }
+      setDraft(null);
+      await load();
+    } catch (e: unknown) {
+      setErr((e as Error)?.message ?? "Failed to save template");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function remove(templateId: string) {
+    if (!window.confirm("Delete this template? Meetings using it fall back to the default.")) return;
+    const del = await sb.from("minutes_templates").delete().eq("id", templateId);
+    if (del.error) setErr(del.error.message);
+    else await load();
+  }
+
+  const excluded = draft ? MINUTES_SECTIONS.filter((s) => !draft.sections.includes(s)) : [];
+
+  return (
+    <Card
+      title="Minutes templates"
+      right={
+        <Button variant="ghost" onClick={() => setDraft(draftFrom(null))}>
+          New template
+        </Button>
+      }
+    >
+      {err && !draft && <div className="mb-2 text-xs text-red-400">{err}</div>}
+      {templates.length === 0 ? (
+        <div className="text-sm text-slate-400">
+          No templates yet. Minutes PDFs use the standard layout until you add one.
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {templates.map((row) => {
+            const t = normalizeMinutesTemplate(row);
+            return (
+              <div key={row.id} className="flex items-center justify-between gap-3 rounded-xl border border-white/[0.06] bg-surface p-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="flex gap-0.5">
+                      {PALETTE_FIELDS.map((f) => (
+                        <span key={f.key} className="h-3 w-3 rounded-full" style={{ backgroundColor: t.palette[f.key] }} />
+                      ))}
+                    </span>
+                    <span className="text-sm font-semibold text-slate-100">{t.name}</span>
+                    {row.is_default && <Pill>Default</Pill>}
+                  </div>
+                  <div className="mt-1 truncate text-xs text-slate-500">
+                    {MINUTES_PAGE_SIZES[t.pageSize].label} · {MINUTES_FONTS[t.font]} ·{" "}
+                    {t.sections.map((s) => MINUTES_SECTION_LABELS[s]).join(" → ")}
+                  </div>
+                </div>
+                <div className="flex shrink-0 gap-2">
+                  <Button variant="ghost" disabled={!!busy} onClick={() => void preview(row.id)}>
+                    {busy === `preview:${row.id}` ? "Rendering..." : "Preview"}
+                  </Button>
+                  <Button variant="ghost" onClick={() => setDraft(draftFrom(row))}>
+                    Edit
+                  </Button>
+                  <Button variant="ghost" onClick={() => void remove(row.id)}>
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Modal
+        open={!!draft}
+        title={draft?.id ? "Edit minutes template" : "New minutes template"}
+        onClose={() => {
+          setDraft(null);
+          setErr(null);
+        }}
+        footer={
+          <>
+            <Button variant="ghost" disabled={!!busy} onClick={() => void preview(null)}>
+              {busy === "preview:draft" ? "Rendering..." : "Preview"}
+            </Button>
+            <Button onClick={() => void save()} disabled={!!busy}>
+              {busy === "save" ? "Saving..." : "Save"}
+            </Button>
+          </>
+        }
+      >
+        {draft && (
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="md:col-span-2">
+              <label className="text-xs text-slate-400">Name</label>
+              <Input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="Board minutes" />
+            </div>
+
+            <div className="md:col-span-2">
+              <label className="text-xs text-slate-400">Sections (in order)</label>
+              <div className="mt-1 space-y-1">
+                {draft.sections.map((s, i) => (
+                  <div key={s} className="flex items-center justify-between rounded-lg border border-white/10 bg-base px-3 py-1.5 text-sm">
+                    <label className="flex items-center gap-2 text-slate-200">
+                      <input type="checkbox" checked onChange={() => toggleSection(s, false)} />
+                      {MINUTES_SECTION_LABELS[s]}
+                    </label>
+                    <span className="flex gap-1">
+                      <Button variant="ghost" disabled={i === 0} onClick={() => moveSection(s, -1)} aria-label="Move up">
+                        ↑
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        disabled={i === draft.sections.length - 1}
+                        onClick={() => moveSection(s, 1)}
+                        aria-label="Move down"
+                      >
+                        ↓
+                      </Button>
+                    </span>
+                  </div>
+                ))}
+                {excluded.map((s) => (
+                  <label key={s} className="flex items-center gap-2 px-3 py-1.5 text-sm text-slate-500">
+                    <input type="checkbox" checked={false} onChange={() => toggleSection(s, true)} />
+                    {MINUTES_SECTION_LABELS[s]}
+                  </label>
+                ))}
+              </div>
+              <div className="mt-1 text-xs text-slate-500">
+                Agenda history only appears for meetings that turn it on in their History tab.
+              </div>
+            </div>
+
+            <div className="md:col-span-2">
+              <label className="text-xs text-slate-400">Logo URL (PNG or JPEG)</label>
+              <Input
+                value={draft.logo_url}
+                onChange={(e) => setDraft({ ...draft, logo_url: e.target.value })}
+                placeholder="https://…/logo.png"
+              />
+            </div>
+
+            <div className="md:col-span-2 grid grid-cols-3 gap-3">
+              {PALETTE_FIELDS.map((f) => (
+                <div key={f.key}>
+                  <label className="text-xs text-slate-400">{f.label}</label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="color"
+                      className="h-9 w-10 rounded border border-white/10 bg-base"
+                      value={isHexColor(draft.palette[f.key]) ? draft.palette[f.key] : DEFAULT_MINUTES_TEMPLATE.palette[f.key]}
+                      onChange={(e) => setDraft({ ...draft, palette: { ...draft.palette, [f.key]: e.target.value } })}
+                    />
+                    <Input
+                      value={draft.palette[f.key]}
+                      onChange={(e) => setDraft({ ...draft, palette: { ...draft.palette, [f.key]: e.target.value } })}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <label className="text-xs text-slate-400">Page size</label>
+              <select
+                className="w-full rounded-lg border border-white/10 bg-base px-3 py-2 text-sm text-slate-200"
+                value={draft.page_size}
+                onChange={(e) => setDraft({ ...draft, page_size: e.target.value as MinutesPageSize })}
+              >
+                {(Object.keys(MINUTES_PAGE_SIZES) as MinutesPageSize[]).map((k) => (
+                  <option key={k} value={k}>
+                    {MINUTES_PAGE_SIZES[k].label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-xs text-slate-400">Font</label>
+              <select
+                className="w-full rounded-lg border border-white/10 bg-base px-3 py-2 text-sm text-slate-200"
+                value={draft.font}
+                onChange={(e) => setDraft({ ...draft, font: e.target.value as MinutesFont })}
+              >
+                {(Object.keys(MINUTES_FONTS) as MinutesFont[]).map((k) => (
+                  <option key={k} value={k}>
+                    {MINUTES_FONTS[k]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <label className="md:col-span-2 flex items-center gap-2 text-sm text-slate-300">
+              <input type="checkbox" checked={draft.is_default} onChange={(e) => setDraft({ ...draft, is_default: e.target.checked })} />
+              Default for meetings without a template
+            </label>
+
+            {err && (
+              <div className="md:col-span-2 text-sm text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg p-2">{err}</div>
+            )}
+          </div>
+        )}
+      </Modal>
+    </Card>
+  );
+}
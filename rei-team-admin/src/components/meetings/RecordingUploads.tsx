@@ -0,0 +1,69 @@
+"use client";
+
+import { Button } from "@/src/components/ui";
+import type { SegmentUpload } from "@/src/lib/meetings/upload-queue";
+
+type Props = {
+  uploads: SegmentUpload[];
+  onRetry: () => void;
+};
+
+function formatBytes(bytes: number) {
+  if (bytes >= 1_000_000) return `${(bytes / 1_000_000).toFixed(1)} MB`;
+  return `${Math.max(1, Math.round(bytes / 1000))} KB`;
+}
+
+function statusLabel(u: SegmentUpload) {
+  const chunks = Math.max(1, Math.ceil(u.size / u.chunkSize));
+  switch (u.status) {
+    case "stored":
+      return { text: "Stored", className: "text-emerald-400" };
+    case "uploading":
+      return { text: `Uploading ${Math.round((u.uploadedChunks / chunks) * 100)}%`, className: "text-blue-400" };
+    case "failed":
+      return { text: `Retrying — ${u.error ?? "upload failed"}`, className: "text-amber-400" };
+    default:
+      return { text: "Waiting to upload", className: "text-slate-400" };
+  }
+}
+
+/** Upload state of each recording segment of the current session. */
+export function RecordingUploads({ uploads, onRetry }: Props) {
+  if (!uploads.length) return null;
+  const pending = uploads.filter((u) => u.status !== "stored").length;
+
+  return (
+    <div className="rounded-xl border p-3 bg-base space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-sm font-semibold">Recording segments</div>
+        {pending > 0 && (
+          <Button variant="ghost" onClick={onRetry}>
+            Retry now
+          </Button>
+        )}
+      </div>
+      <div className="space-y-1">
+        {uploads.map((u) => {
+          const status = statusLabel(u);
+          return (
+            <div key={u.id} className="flex items-center justify-between gap-3 text-xs">
+              <span className="text-slate-300">
+                Segment {u.segmentIndex} · {Math.floor(u.durationSeconds / 60)}m {u.durationSeconds % 60}s ·{" "}
+                {formatBytes(u.size)}
+              </span>
+              <span className={`truncate ${status.className}`} title={u.error ?? undefined}>
+                {status.text}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+      {pending > 0 && (
+        <div className="text-xs text-slate-500">
+          Segments are kept on this device until stored, even if you reload. The meeting can be concluded once every
+          segment is stored.
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { Button } from "@/src/components/ui";
+import { prettyDate } from "@/src/lib/format";
+
+export type SuggestedTask = {
+  id: string;
+  session_id: string;
+  title: string;
+  owner_label: string | null;
+  owner_id: string | null;
+  owner_email: string | null;
+  due_date: string | null;
+  priority: string;
+  evidence: string | null;
+  created_at: string;
+  session?: { started_at: string; session_number: number | null } | null;
+};
+
+type Props = {
+  suggestions: SuggestedTask[];
+  /** Display name for the matched owner, or null when nobody matched. */
+  ownerName: (s: SuggestedTask) => string | null;
+  targetColumnName: string | null;
+  busyId: string | null;
+  onAccept: (s: SuggestedTask) => void;
+  onDismiss: (s: SuggestedTask) => void;
+  onOpenSession: (sessionId: string) => void;
+};
+
+export function SuggestedTasks({
+  suggestions,
+  ownerName,
+  targetColumnName,
+  busyId,
+  onAccept,
+  onDismiss,
+  onOpenSession,
+}: Props) {
+  if (!suggestions.length) return null;
+
+  return (
+    <div className="mb-4 rounded-lg border border-violet-500/20 bg-violet-500/[0.04] p-3">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <div className="text-sm font-semibold text-slate-100">
+          Suggested tasks <span className="text-xs font-normal text-slate-400">({suggestions.length})</span>
+        </div>
+        <div className="text-xs text-slate-500">
+          Extracted by AI from meeting transcripts{targetColumnName ? ` · accepted tasks go to “${targetColumnName}”` : ""}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {suggestions.map((s) => {
+          const owner = ownerName(s);
+          return (
+            <div key={s.id} className="flex items-start justify-between gap-3 rounded-lg bg-base p-2">
+              <div className="min-w-0 flex-1">
+                <div className="text-sm font-medium text-slate-100">{s.title}</div>
+                <div className="mt-0.5 flex flex-wrap gap-x-3 text-xs text-slate-400">
+                  <span>
+                    Owner:{" "}
+                    {owner ?? (s.owner_label ? `${s.owner_label} (no match)` : "Unassigned")}
+                  </span>
+                  <span>Priority: {s.priority}</span>
+                  {s.due_date && <span>Due: {s.due_date}</span>}
+                  <button
+                    type="button"
+                    className="text-blue-400 hover:underline"
+                    onClick={() => onOpenSession(s.session_id)}
+                  >
+                    {s.session?.session_number ? `Session #${s.session.session_number}` : "Session"} ·{" "}
+                    {prettyDate(s.session?.started_at ?? s.created_at)}
+                  </button>
+                </div>
+                {s.evidence && <div className="mt-1 text-xs italic text-slate-500">“{s.evidence}”</div>}
+              </div>
+
+              <div className="flex shrink-0 gap-1">
+                <Button disabled={busyId === s.id || !targetColumnName} onClick={() => onAccept(s)}>
+                  Accept
+                </Button>
+                <Button variant="ghost" disabled={busyId === s.id} onClick={() => onDismiss(s)}>
+                  Dismiss
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Input } from "@/src/components/ui";
+import { prettyDate } from "@/src/lib/format";
+import { formatTimestamp } from "@/src/lib/meetings/pipeline";
+
+export type TranscriptSession = {
+  id: string;
+  started_at: string;
+  ai_status?: string | null;
+  session_number?: number | null;
+};
+
+type Segment = {
+  id: string;
+  position: number;
+  start_seconds: number;
+  end_seconds: number | null;
+  speaker: string | null;
+  text: string;
+  recording_path: string;
+  recording_offset: number;
+};
+
+type Props = {
+  sessions: TranscriptSession[];
+  /** Session and timeline position to open at, e.g. from a search result. */
+  initialSessionId?: string | null;
+  initialSeconds?: number | null;
+};
+
+function highlight(text: string, term: string) {
+  if (!term) return text;
+  const parts = text.split(new RegExp(`(${term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")})`, "ig"));
+  return parts.map((p, i) =>
+    i % 2 === 1 ? (
+      <mark key={i} className="bg-amber-400/30 text-inherit rounded px-0.5">
+        {p}
+      </mark>
+    ) : (
+      p
+    )
+  );
+}
+
+export function TranscriptViewer({ sessions, initialSessionId, initialSeconds }: Props) {
+  const defaultSessionId =
+    initialSessionId ?? sessions.find((s) => s.ai_status === "done")?.id ?? sessions[0]?.id ?? "";
+  const [sessionId, setSessionId] = useState(defaultSessionId);
+  const [segments, setSegments] = useState<Segment[]>([]);
+  const [recordings, setRecordings] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState("");
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const currentPathRef = useRef<string | null>(null);
+  const lineRefs = useRef<Record<string, HTMLButtonElement | null>>({});
+  const pendingSeekRef = useRef<number | null>(initialSeconds ?? null);
+
+  useEffect(() => {
+    if (!sessionId && defaultSessionId) setSessionId(defaultSessionId);
+  }, [sessionId, defaultSessionId]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    fetch("/api/meetings/ai/transcript", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ sessionId }),
+    })
+      .then(async (res) => {
+        const j = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(j?.error || "Failed to load transcript");
+        if (cancelled) return;
+        setSegments((j.segments ?? []) as Segment[]);
+        setRecordings((j.recordings ?? {}) as Record<string, string>);
+      })
+      .catch((e: unknown) => {
+        if (!cancelled) setError((e as Error)?.message ?? "Failed to load transcript");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  const playSegment = useCallback(
+    (segment: Segment) => {
+      const audio = audioRef.current;
+      const url = recordings[segment.recording_path];
+      if (!audio || !url) return;
+
+      setActiveId(segment.id);
+      const seek = () => {
+        audio.currentTime = Number(segment.recording_offset) || 0;
+        void audio.play().catch(() => undefined);
+      };
+      if (currentPathRef.current !== segment.recording_path) {
+        currentPathRef.current = segment.recording_path;
+        audio.src = url;
+        audio.addEventListener("loadedmetadata", seek, { once: true });
+        audio.load();
+      } else {
+        seek();
+      }
+    },
+    [recordings]
+  );
+
+  // Jump to the requested position once the transcript is loaded.
+  useEffect(() => {
+    const target = pendingSeekRef.current;
+    if (target === null || !segments.length) return;
+    pendingSeekRef.current = null;
+    const segment =
+      [...segments].reverse().find((s) => Number(s.start_seconds) <= target + 0.5) ?? segments[0];
+    setActiveId(segment.id);
+    lineRefs.current[segment.id]?.scrollIntoView({ block: "center" });
+  }, [segments]);
+
+  // Follow playback: highlight the line being played.
+  function handleTimeUpdate() {
+    const audio = audioRef.current;
+    const path = currentPathRef.current;
+    if (!audio || !path) return;
+    let current: Segment | undefined;
+    for (const s of segments) {
+      if (s.recording_path === path && Number(s.recording_offset) <= audio.currentTime) current = s;
+    }
+    if (current && current.id !== activeId) setActiveId(current.id);
+  }
+
+  const term = filter.trim();
+  const visible = useMemo(() => {
+    if (!term) return segments;
+    const needle = term.toLowerCase();
+    return segments.filter(
+      (s) => s.text.toLowerCase().includes(needle) || (s.speaker ?? "").toLowerCase().includes(needle)
+    );
+  }, [segments, term]);
+
+  if (!sessions.length) {
+    return <div className="text-sm text-slate-400">No sessions yet.</div>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <select
+          className="rounded-lg border border-white/10 bg-base px-2 py-2 text-sm text-slate-200"
+          value={sessionId}
+          onChange={(e) => {
+            setSessionId(e.target.value);
+            setActiveId(null);
+            currentPathRef.current = null;
+            audioRef.current?.pause();
+          }}
+        >
+          {sessions.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.session_number ? `#${s.session_number} · ` : ""}
+              {prettyDate(s.started_at)}
+            </option>
+          ))}
+        </select>
+        <Input value={filter} onChange={(e) => setFilter(e.target.value)} placeholder="Find in transcript…" />
+      </div>
+
+      <audio ref={audioRef} controls className="w-full h-9" onTimeUpdate={handleTimeUpdate} />
+
+      {error && <div className="text-xs text-red-400">{error}</div>}
+
+      {loading ? (
+        <div className="text-sm text-slate-400">Loading transcript…</div>
+      ) : segments.length === 0 ? (
+        <div className="text-sm text-slate-400">
+          No transcript for this session. Transcripts appear after AI processing of a recorded session.
+        </div>
+      ) : (
+        <div className="max-h-[60vh] overflow-y-auto space-y-1 pr-1">
+          {visible.map((s) => (
+            <button
+              key={s.id}
+              type="button"
+              ref={(el) => {
+                lineRefs.current[s.id] = el;
+              }}
+              onClick={() => playSegment(s)}
+              className={[
+                "w-full text-left rounded-lg px-2 py-1.5 text-sm transition-colors",
+                s.id === activeId ? "bg-emerald-500/10 ring-1 ring-emerald-500/30" : "hover:bg-white/[0.04]",
+              ].join(" ")}
+              title="Play from here"
+            >
+              <span className="font-mono text-xs text-slate-500 mr-2">{formatTimestamp(Number(s.start_seconds))}</span>
+              {s.speaker && <span className="text-xs font-semibold text-blue-400 mr-1">{s.speaker}:</span>}
+              <span className="text-slate-300">{highlight(s.text, term)}</span>
+            </button>
+          ))}
+          {term && visible.length === 0 && <div className="text-sm text-slate-400">No lines match “{term}”.</div>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,304 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { supabaseBrowser } from "@/src/lib/supabase/browser";
+import { Button, Modal, Pill } from "@/src/components/ui";
+import {
+  MERGE_FIELDS,
+  contactDisplayName,
+  type DedupeEntity,
+  type DuplicateGroupWithRecords,
+  type MergeCompanyRecord,
+  type MergeContactRecord,
+} from "@/src/lib/crm/dedupe";
+
+type MergeRecord = MergeCompanyRecord | MergeContactRecord;
+
+function recordLabel(r: MergeRecord) {
+  return "name" in r ? r.name : contactDisplayName(r) || r.email || r.phone || "(no name)";
+}
+
+function fieldValue(r: MergeRecord, key: string): string | null {
+  const v = (r as unknown as Record<string, unknown>)[key];
+  return v === null || v === undefined || String(v).trim() === "" ? null : String(v);
+}
+
+/** Survivor's value when set, else the first record that has one. */
+function defaultChoices(records: MergeRecord[], survivorId: string, entity: DedupeEntity): Record<string, string> {
+  const survivor = records.find((r) => r.id === survivorId);
+  const out: Record<string, string> = {};
+  for (const f of MERGE_FIELDS[entity]) {
+    const from = survivor && fieldValue(survivor, f.key) !== null ? survivor : records.find((r) => fieldValue(r, f.key) !== null);
+    out[f.key] = (from ?? survivor ?? records[0]).id;
+  }
+  return out;
+}
+
+/**
+ * Sales funnel duplicate finder: scans companies or contacts for likely
+ * duplicates and merges a group into one record, picking the surviving value
+ * of each field.  Activities, projects and project links follow the merge.
+ */
+export function DuplicatesDialog({
+  open,
+  onClose,
+  onMerged,
+}: {
+  open: boolean;
+  onClose: () => void;
+  onMerged: () => void | Promise<void>;
+}) {
+  const supabase = useMemo(() => supabaseBrowser(), []);
+  const [entity, setEntity] = useState<DedupeEntity>("company");
+  const [groups, setGroups] = useState<DuplicateGroupWithRecords[] | null>(null);
+  const [stageNames, setStageNames] = useState<Map<string, string>>(new Map());
+  const [selected, setSelected] = useState<number | null>(null);
+  const [survivorId, setSurvivorId] = useState("");
+  const [included, setIncluded] = useState<Set<string>>(new Set());
+  const [choices, setChoices] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  const group = selected !== null ? groups?.[selected] ?? null : null;
+  const records: MergeRecord[] = group?.records ?? [];
+
+  async function scan(which = entity) {
+    setBusy(true);
+    setError("");
+    setNotice("");
+    setSelected(null);
+    try {
+      const [res, stagesRes] = await Promise.all([
+        fetch(`/api/crm/duplicates?type=${which}`),
+        supabase.from("crm_stages").select("id,name"),
+      ]);
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.error ?? "Duplicate scan failed");
+      setGroups((json.groups ?? []) as DuplicateGroupWithRecords[]);
+      setStageNames(new Map(((stagesRes.data ?? []) as { id: string; name: string }[]).map((s) => [s.id, s.name])));
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Duplicate scan failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  useEffect(() => {
+    if (open) void scan();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  function selectGroup(i: number) {
+    const g = groups?.[i];
+    if (!g) return;
+    const first = g.records[0].id;
+    setSelected(i);
+    setSurvivorId(first);
+    setIncluded(new Set(g.records.map((r) => r.id)));
+    setChoices(defaultChoices(g.records, first, g.entity));
+    setNotice("");
+  }
+
+  function changeSurvivor(id: string) {
+    setSurvivorId(id);
+    setIncluded((prev) => new Set([...prev, id]));
+    setChoices(defaultChoices(records.filter((r) => included.has(r.id) || r.id === id), id, entity));
+  }
+
+  function toggleIncluded(id: string) {
+    if (id === survivorId) return;
+    const next = new Set(included);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setIncluded(next);
+    setChoices(defaultChoices(records.filter((r) => next.has(r.id)), survivorId, entity));
+  }
+
+  function display(r: MergeRecord, key: string): string {
+    if (key === "stage_id") return r.stage_id ? stageNames.get(r.stage_id) ?? "—" : "—";
+    if (key === "main_contact_id") return "main_contact_name" in r ? r.main_contact_name ?? "—" : "—";
+    if (key === "company_id") return "company_name" in r ? r.company_name ?? "—" : "—";
+    return fieldValue(r, key) ?? "—";
+  }
+
+  async function merge() {
+    if (!group) return;
+    const mergedIds = records.filter((r) => included.has(r.id) && r.id !== survivorId).map((r) => r.id);
+    if (!mergedIds.length) return;
+
+    const values: Record<string, unknown> = {};
+    for (const f of MERGE_FIELDS[entity]) {
+      const from = records.find((r) => r.id === choices[f.key]);
+      values[f.key] = from ? fieldValue(from, f.key) : null;
+    }
+    // Custom fields combine across the group; the survivor's values win.
+    const ordered = [
+      ...records.filter((r) => mergedIds.includes(r.id)),
+      ...records.filter((r) => r.id === survivorId),
+    ];
+    values.custom_fields = Object.assign({}, ...ordered.map((r) => r.custom_fields));
+
+    setBusy(true);
+    setError("");
+    try {
+      const res = await fetch("/api/crm/merge", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ type: entity, survivorId, mergedIds, values }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.error ?? "Merge failed");
+      const moved = (json.moved ?? {}) as Record<string, number>;
+      const parts = [
+        moved.activities ? `${moved.activities} activities` : "",
+        moved.projects ? `${moved.projects} projects` : "",
+        moved.project_links ? `${moved.project_links} project links` : "",
+        moved.follow_ups ? `${moved.follow_ups} follow-ups` : "",
+        moved.contacts_moved ? `${moved.contacts_moved} contacts moved` : "",
+        moved.contacts_merged ? `${moved.contacts_merged} contacts merged` : "",
+      ].filter(Boolean);
+      setNotice(`Merged ${json.merged} record${json.merged === 1 ? "" : "s"}${parts.length ? ` (${parts.join(", ")})` : ""}.`);
+      await onMerged();
+      await scan();
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Merge failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const mergeCount = records.filter((r) => included.has(r.id) && r.id !== survivorId).length;
+
+  return (
+    <Modal
+      open={open}
+      onClose={() => {
+        if (!busy) onClose();
+      }}
+      title="Find duplicates"
+      maxWidthClass="max-w-6xl"
+    >
+      <div className="flex flex-col gap-4">
+        <div className="flex items-center gap-2">
+          <div className="flex items-center gap-1 rounded-2xl border bg-base p-1">
+            {(["company", "contact"] as DedupeEntity[]).map((e) => (
+              <button
+                key={e}
+                className={`px-3 py-1.5 rounded-xl text-sm ${entity === e ? "bg-emerald-600 text-white" : "hover:bg-elevated"}`}
+                disabled={busy}
+                onClick={() => {
+                  setEntity(e);
+                  void scan(e);
+                }}
+              >
+                {e === "company" ? "Companies" : "Contacts"}
+              </button>
+            ))}
+          </div>
+          <Button variant="ghost" disabled={busy} onClick={() => void scan()}>
+            {busy && !group ? "Scanning..." : "Rescan"}
+          </Button>
+          {groups ? <Pill>{groups.length} groups</Pill> : null}
+        </div>
+
+        {error ? <div className="text-sm text-red-400">{error}</div> : null}
+        {notice ? <div className="text-sm text-emerald-400">{notice}</div> : null}
+
+        <div className="grid grid-cols-1 md:grid-cols-[280px_1fr] gap-4">
+          <div className="max-h-[60vh] overflow-auto rounded-xl border border-white/10">
+            {groups && !groups.length ? <div className="p-3 text-sm text-slate-400">No likely duplicates found.</div> : null}
+            {(groups ?? []).map((g, i) => (
+              <button
+                key={g.ids.join(",")}
+                className={`w-full text-left px-3 py-2 border-b border-white/5 text-sm ${selected === i ? "bg-elevated" : "hover:bg-elevated"}`}
+                onClick={() => selectGroup(i)}
+              >
+                <div className="text-slate-200 truncate">{g.records.map(recordLabel).join(" · ")}</div>
+                <div className="text-xs text-slate-500 truncate">{g.reasons.join("; ")}</div>
+              </button>
+            ))}
+          </div>
+
+          <div>
+            {!group ? (
+              <div className="text-sm text-slate-400">Select a group to compare and merge its records.</div>
+            ) : (
+              <div className="flex flex-col gap-3">
+                <div className="text-xs text-slate-500">{group.reasons.join("; ")}</div>
+                <div className="overflow-auto rounded-xl border border-white/10">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="bg-base">
+                        <th className="px-2 py-2 text-left text-xs text-slate-400 font-normal">Field</th>
+                        {records.map((r) => (
+                          <th key={r.id} className="px-2 py-2 text-left align-top">
+                            <div className="text-slate-200 font-semibold">{recordLabel(r)}</div>
+                            <div className="text-xs text-slate-500 font-normal">
+                              Created {new Date(r.created_at).toLocaleDateString()}
+                              {"contact_count" in r ? ` · ${r.contact_count} contacts` : ""}
+                            </div>
+                            <label className="mt-1 flex items-center gap-1 text-xs font-normal text-slate-300">
+                              <input
+                                type="radio"
+                                name="survivor"
+                                checked={survivorId === r.id}
+                                onChange={() => changeSurvivor(r.id)}
+                              />
+                              Keep this record
+                            </label>
+                            <label className="flex items-center gap-1 text-xs font-normal text-slate-300">
+                              <input
+                                type="checkbox"
+                                checked={included.has(r.id)}
+                                disabled={r.id === survivorId}
+                                onChange={() => toggleIncluded(r.id)}
+                              />
+                              Include in merge
+                            </label>
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {MERGE_FIELDS[entity].map((f) => (
+                        <tr key={f.key} className="border-t border-white/5">
+                          <td className="px-2 py-2 text-xs text-slate-400">{f.label}</td>
+                          {records.map((r) => (
+                            <td key={r.id} className={`px-2 py-2 align-top ${included.has(r.id) ? "" : "opacity-40"}`}>
+                              <label className="flex items-start gap-2">
+                                <input
+                                  type="radio"
+                                  name={`field-${f.key}`}
+                                  disabled={!included.has(r.id)}
+                                  checked={choices[f.key] === r.id}
+                                  onChange={() => setChoices((prev) => ({ ...prev, [f.key]: r.id }))}
+                                />
+                                <span className="break-words text-slate-200">{display(r, f.key)}</span>
+                              </label>
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <div className="text-xs text-slate-500">
+                  {entity === "company"
+                    ? "Contacts, activities and projects of merged companies move to the kept company; a contact with the same email or phone as one already there is merged into it."
+                    : "Activities and project links of merged contacts move to the kept contact."}{" "}
+                  Custom fields are combined, keeping this record&apos;s values where both have one. Every merge is logged.
+                </div>
+                <div className="flex justify-end">
+                  <Button disabled={busy || !mergeCount} onClick={() => void merge()}>
+                    {busy ? "Merging..." : `Merge ${mergeCount} into kept record`}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+}
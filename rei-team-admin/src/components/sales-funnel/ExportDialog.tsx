@@ -0,0 +1,154 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Papa from "papaparse";
+import * as XLSX from "xlsx";
+import { supabaseBrowser } from "@/src/lib/supabase/browser";
+import { Button, Modal, Pill } from "@/src/components/ui";
+import { buildCrmExport, type CrmExportSheet, type CrmExportView } from "@/src/lib/crm/export";
+
+type Format = "csv" | "xlsx";
+
+const selectClass =
+  "w-full rounded-lg border border-white/10 bg-base px-3 py-2 text-sm text-slate-200 outline-none focus:ring-2 focus:ring-gray-300";
+
+const VIEW_LABELS: Record<CrmExportView, string> = { company: "companies", contact: "contacts", project: "projects" };
+
+function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function sheetCsv(sheet: CrmExportSheet) {
+  return Papa.unparse({ fields: sheet.columns, data: sheet.rows.map((r) => sheet.columns.map((c) => r[c] ?? "")) });
+}
+
+/**
+ * Sales funnel export: the cards currently on the board (stage, search and
+ * view filters applied) as CSV or XLSX.  XLSX puts activities and project
+ * contacts on extra sheets; CSV downloads them as separate files.
+ */
+export function ExportDialog({
+  open,
+  onClose,
+  viewType,
+  ids,
+  stages,
+}: {
+  open: boolean;
+  onClose: () => void;
+  viewType: CrmExportView;
+  ids: string[];
+  stages: { id: string; name: string }[];
+}) {
+  const supabase = useMemo(() => supabaseBrowser(), []);
+  const [format, setFormat] = useState<Format>("xlsx");
+  const [includeMainContact, setIncludeMainContact] = useState(true);
+  const [includeProjectContacts, setIncludeProjectContacts] = useState(false);
+  const [includeActivities, setIncludeActivities] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  async function runExport() {
+    setBusy(true);
+    setError("");
+    try {
+      const sheets = await buildCrmExport(
+        supabase,
+        viewType,
+        ids,
+        new Map(stages.map((s) => [s.id, s.name])),
+        { includeMainContact, includeProjectContacts, includeActivities }
+      );
+      const base = `crm-${VIEW_LABELS[viewType]}-${new Date().toISOString().slice(0, 10)}`;
+
+      if (format === "xlsx") {
+        const wb = XLSX.utils.book_new();
+        for (const sheet of sheets) {
+          XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(sheet.rows, { header: sheet.columns }), sheet.name);
+        }
+        XLSX.writeFile(wb, `${base}.xlsx`);
+      } else {
+        sheets.forEach((sheet, i) => {
+          const suffix = i === 0 ? "" : `-${sheet.name.toLowerCase().replace(/\s+/g, "-")}`;
+          downloadBlob(`${base}${suffix}.csv`, new Blob([sheetCsv(sheet)], { type: "text/csv;charset=utf-8" }));
+        });
+      }
+      onClose();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String((e as { message?: unknown })?.message ?? e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Modal
+      open={open}
+      onClose={() => {
+        if (!busy) onClose();
+      }}
+      title="Export"
+      maxWidthClass="max-w-lg"
+    >
+      <div className="flex flex-col gap-4">
+        <div className="flex items-center gap-2 text-sm text-slate-300">
+          <Pill>{ids.length}</Pill>
+          {VIEW_LABELS[viewType]} match the current board filters.
+        </div>
+
+        {error ? <div className="text-sm text-red-400">{error}</div> : null}
+
+        <div>
+          <div className="text-xs text-slate-400 mb-1">Format</div>
+          <select className={selectClass} value={format} onChange={(e) => setFormat(e.target.value as Format)}>
+            <option value="xlsx">Excel workbook (.xlsx)</option>
+            <option value="csv">CSV</option>
+          </select>
+        </div>
+
+        <div className="flex flex-col gap-2 text-sm text-slate-300">
+          {viewType === "company" ? (
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={includeMainContact} onChange={(e) => setIncludeMainContact(e.target.checked)} />
+              Include main contact columns
+            </label>
+          ) : (
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={includeProjectContacts}
+                onChange={(e) => setIncludeProjectContacts(e.target.checked)}
+              />
+              Include project ↔ contact links
+            </label>
+          )}
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={includeActivities} onChange={(e) => setIncludeActivities(e.target.checked)} />
+            Include activity history
+          </label>
+        </div>
+
+        <div className="text-xs text-slate-500">
+          Company and contact exports use the import column names, so the file can be edited and imported back.
+          {format === "csv" && (includeActivities || (viewType !== "company" && includeProjectContacts))
+            ? " Extra sheets download as separate CSV files."
+            : ""}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" disabled={busy} onClick={onClose}>
+            Cancel
+          </Button>
+          <Button disabled={busy || !ids.length} onClick={() => void runExport()}>
+            {busy ? "Exporting..." : `Export ${ids.length} ${VIEW_LABELS[viewType]}`}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
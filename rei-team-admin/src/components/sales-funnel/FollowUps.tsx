@@ -0,0 +1,341 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { supabaseBrowser } from "@/src/lib/supabase/browser";
+import { Button, Input, Modal, Pill } from "@/src/components/ui";
+import {
+  FOLLOW_UP_KINDS,
+  completeFollowUp,
+  createFollowUp,
+  deleteFollowUp,
+  endOfLocalDay,
+  followUpDue,
+  followUpTitle,
+  loadFollowUpsFor,
+  loadOpenFollowUps,
+  snoozeFollowUp,
+  type CrmFollowUp,
+  type FollowUpDue,
+  type FollowUpKind,
+  type FollowUpTarget,
+} from "@/src/lib/crm/follow-ups";
+
+type Profile = { id: string; full_name: string | null };
+
+const selectClass =
+  "w-full rounded-lg border border-white/10 bg-base px-3 py-2 text-sm text-slate-200 outline-none focus:ring-2 focus:ring-gray-300";
+
+const DUE_CLASSES: Record<FollowUpDue, string> = {
+  overdue: "text-red-400",
+  today: "text-amber-300",
+  upcoming: "text-slate-400",
+};
+
+/** Value for a datetime-local input: tomorrow at 9:00 local time. */
+function defaultDueInput() {
+  const d = new Date();
+  d.setDate(d.getDate() + 1);
+  d.setHours(9, 0, 0, 0);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+function fmtDue(iso: string) {
+  const d = new Date(iso);
+  return d.toLocaleString(undefined, { weekday: "short", month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+}
+
+function useTeam() {
+  const supabase = useMemo(() => supabaseBrowser(), []);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [userId, setUserId] = useState<string | null>(null);
+  useEffect(() => {
+    void (async () => {
+      const [{ data: auth }, profRes] = await Promise.all([
+        supabase.auth.getUser(),
+        supabase.from("profiles").select("id,full_name").order("full_name", { ascending: true }),
+      ]);
+      setUserId(auth.user?.id ?? null);
+      setProfiles((profRes.data ?? []) as Profile[]);
+    })();
+  }, [supabase]);
+  return { supabase, profiles, userId };
+}
+
+function FollowUpRow({
+  f,
+  busy,
+  showTarget,
+  onOpen,
+  onDone,
+  onSnooze,
+  onDelete,
+}: {
+  f: CrmFollowUp;
+  busy: boolean;
+  showTarget: boolean;
+  onOpen?: (f: CrmFollowUp) => void;
+  onDone: (f: CrmFollowUp) => void;
+  onSnooze: (f: CrmFollowUp) => void;
+  onDelete?: (f: CrmFollowUp) => void;
+}) {
+  const due = f.completed_at ? null : followUpDue(f.due_at);
+  return (
+    <div className={`rounded-xl border p-2 ${due === "overdue" ? "border-red-500/50" : ""} ${f.completed_at ? "opacity-60" : ""}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          {showTarget ? (
+            <button className="text-left text-sm font-medium hover:underline" onClick={() => onOpen?.(f)}>
+              {followUpTitle(f)}
+            </button>
+          ) : (
+            <div className="text-sm font-medium">
+              {f.kind}
+              {f.contact && !f.project ? ` · ${f.contact.full_name || f.contact.email || "contact"}` : ""}
+              {f.project ? ` · ${f.project.name}` : ""}
+            </div>
+          )}
+          <div className={`text-xs ${due ? DUE_CLASSES[due] : "text-slate-500"}`}>
+            {f.completed_at ? `Done ${fmtDue(f.completed_at)}` : `${due === "overdue" ? "Overdue · " : ""}${fmtDue(f.due_at)}`}
+            {f.owner?.full_name ? <span className="text-slate-500"> · {f.owner.full_name}</span> : null}
+          </div>
+          {f.note ? <div className="text-xs text-slate-300 mt-1 whitespace-pre-wrap">{f.note}</div> : null}
+        </div>
+        {!f.completed_at ? (
+          <div className="flex shrink-0 gap-1">
+            <Button variant="ghost" disabled={busy} onClick={() => onSnooze(f)} title="Snooze one day">
+              +1d
+            </Button>
+            <Button disabled={busy} onClick={() => onDone(f)}>
+              Done
+            </Button>
+          </div>
+        ) : onDelete ? (
+          <Button variant="ghost" disabled={busy} onClick={() => onDelete(f)}>
+            Delete
+          </Button>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Follow-ups on a company, contact or project (the detail modals): add one
+ * with an owner and due time, snooze it or mark it done.
+ */
+export function FollowUpsPanel({ target, onChanged }: { target: FollowUpTarget; onChanged?: () => void }) {
+  const { supabase, profiles, userId } = useTeam();
+  const [items, setItems] = useState<CrmFollowUp[]>([]);
+  const [ownerId, setOwnerId] = useState("");
+  const [dueInput, setDueInput] = useState(defaultDueInput);
+  const [kind, setKind] = useState<FollowUpKind>("Call");
+  const [note, setNote] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const key = `${target.companyId}|${target.contactId}|${target.projectId}`;
+
+  async function reload() {
+    try {
+      setItems(await loadFollowUpsFor(supabase, target));
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to load follow-ups");
+    }
+  }
+
+  useEffect(() => {
+    setItems([]);
+    setError("");
+    void reload();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key]);
+
+  useEffect(() => {
+    if (!ownerId && userId) setOwnerId(userId);
+  }, [ownerId, userId]);
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    setError("");
+    try {
+      await action();
+      await reload();
+      onChanged?.();
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Follow-up update failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const dueAt = new Date(dueInput);
+  const open = items.filter((f) => !f.completed_at);
+  const done = items.filter((f) => f.completed_at).slice(0, 5);
+
+  return (
+    <div className="rounded-xl border p-3 bg-base space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="font-semibold text-sm">Follow-ups</div>
+        {open.length ? <Pill>{open.length} open</Pill> : null}
+      </div>
+
+      {error ? <div className="text-xs text-red-400">{error}</div> : null}
+
+      <div className="grid grid-cols-2 gap-2">
+        <select className={selectClass} value={kind} onChange={(e) => setKind(e.target.value as FollowUpKind)}>
+          {FOLLOW_UP_KINDS.map((k) => (
+            <option key={k} value={k}>
+              {k}
+            </option>
+          ))}
+        </select>
+        <select className={selectClass} value={ownerId} onChange={(e) => setOwnerId(e.target.value)}>
+          <option value="">No owner</option>
+          {profiles.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.full_name || "(unnamed)"}
+              {p.id === userId ? " (me)" : ""}
+            </option>
+          ))}
+        </select>
+        <Input type="datetime-local" value={dueInput} onChange={(e) => setDueInput(e.target.value)} className="col-span-2" />
+        <Input placeholder="What to follow up on (optional)" value={note} onChange={(e) => setNote(e.target.value)} className="col-span-2" />
+      </div>
+      <div className="flex justify-end">
+        <Button
+          disabled={busy || Number.isNaN(dueAt.getTime())}
+          onClick={() =>
+            void run(async () => {
+              await createFollowUp(supabase, target, { ownerId: ownerId || null, dueAt, kind, note, createdBy: userId });
+              setNote("");
+              setDueInput(defaultDueInput());
+            })
+          }
+        >
+          Schedule
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        {open.map((f) => (
+          <FollowUpRow
+            key={f.id}
+            f={f}
+            busy={busy}
+            showTarget={false}
+            onDone={(x) => void run(() => completeFollowUp(supabase, x.id, userId))}
+            onSnooze={(x) => void run(() => snoozeFollowUp(supabase, x))}
+          />
+        ))}
+        {done.map((f) => (
+          <FollowUpRow
+            key={f.id}
+            f={f}
+            busy={busy}
+            showTarget={false}
+            onDone={() => undefined}
+            onSnooze={() => undefined}
+            onDelete={(x) => void run(() => deleteFollowUp(supabase, x.id))}
+          />
+        ))}
+        {!items.length ? <div className="text-xs text-slate-500">No follow-ups scheduled.</div> : null}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * "My follow-ups": the signed-in user's open follow-ups that are overdue or
+ * due today (or everyone's, with the toggle).
+ */
+export function MyFollowUpsDialog({
+  open,
+  onClose,
+  onOpenTarget,
+  onChanged,
+}: {
+  open: boolean;
+  onClose: () => void;
+  onOpenTarget: (f: CrmFollowUp) => void;
+  onChanged?: () => void;
+}) {
+  const { supabase, userId } = useTeam();
+  const [everyone, setEveryone] = useState(false);
+  const [items, setItems] = useState<CrmFollowUp[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  async function reload() {
+    if (!everyone && !userId) return;
+    try {
+      setItems(await loadOpenFollowUps(supabase, { until: endOfLocalDay(), ownerId: everyone ? undefined : userId ?? undefined }));
+      setLoaded(true);
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to load follow-ups");
+    }
+  }
+
+  useEffect(() => {
+    if (open) void reload();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, everyone, userId]);
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    setError("");
+    try {
+      await action();
+      await reload();
+      onChanged?.();
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Follow-up update failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const overdue = items.filter((f) => followUpDue(f.due_at) === "overdue");
+  const today = items.filter((f) => followUpDue(f.due_at) === "today");
+
+  const section = (title: string, list: CrmFollowUp[]) => (
+    <div>
+      <div className="text-xs font-semibold text-slate-300 mb-1">
+        {title} ({list.length})
+      </div>
+      <div className="space-y-2">
+        {list.map((f) => (
+          <FollowUpRow
+            key={f.id}
+            f={f}
+            busy={busy}
+            showTarget
+            onOpen={(x) => {
+              onClose();
+              onOpenTarget(x);
+            }}
+            onDone={(x) => void run(() => completeFollowUp(supabase, x.id, userId))}
+            onSnooze={(x) => void run(() => snoozeFollowUp(supabase, x))}
+          />
+        ))}
+        {!list.length ? <div className="text-xs text-slate-500">Nothing here.</div> : null}
+      </div>
+    </div>
+  );
+
+  return (
+    <Modal open={open} onClose={onClose} title="My Follow-ups" maxWidthClass="max-w-2xl">
+      <div className="flex flex-col gap-4">
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          <input type="checkbox" checked={everyone} onChange={(e) => setEveryone(e.target.checked)} />
+          Show everyone&apos;s follow-ups
+        </label>
+        {error ? <div className="text-sm text-red-400">{error}</div> : null}
+        {!loaded ? <div className="text-sm text-slate-400">Loading...</div> : null}
+        {loaded ? section("Overdue", overdue) : null}
+        {loaded ? section("Due today", today) : null}
+      </div>
+    </Modal>
+  );
+}
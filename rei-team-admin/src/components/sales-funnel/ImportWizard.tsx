@@ -0,0 +1,559 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Papa from "papaparse";
+import * as XLSX from "xlsx";
+import { supabaseBrowser } from "@/src/lib/supabase/browser";
+import { Button, Input, Modal, Pill } from "@/src/components/ui";
+import {
+  CRM_IMPORT_BATCH_ROWS,
+  CRM_IMPORT_FIELDS,
+  CRM_IMPORT_MAX_ROWS,
+  applyMappingPreset,
+  cleanStr,
+  customKeyFromHeader,
+  emptyImportReport,
+  importIssuesCsv,
+  inferImportMapping,
+  mappingProblems,
+  mergeImportReports,
+  normalizeImportRows,
+  withRowIssues,
+  type ColumnTarget,
+  type ImportChange,
+  type ImportDuplicateMode,
+  type ImportMapping,
+  type ImportReport,
+} from "@/src/lib/crm/import";
+
+type ImportRow = Record<string, unknown>;
+
+type Step = "upload" | "map" | "preview" | "done";
+
+type Preset = { id: string; name: string; mapping: ImportMapping };
+
+/** Rows listed per section of the dry-run diff. */
+const DIFF_LIMIT = 100;
+
+const selectClass =
+  "w-full rounded-lg border border-white/10 bg-base px-3 py-2 text-sm text-slate-200 outline-none focus:ring-2 focus:ring-gray-300";
+
+function downloadCsv(filename: string, csv: string) {
+  const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function ChangeList({ title, items }: { title: string; items: ImportChange[] }) {
+  if (!items.length) return null;
+  return (
+    <div>
+      <div className="text-xs font-semibold text-slate-300 mb-1">
+        {title} ({items.length})
+      </div>
+      <div className="max-h-48 overflow-auto rounded-lg border border-white/10 text-xs">
+        {items.slice(0, DIFF_LIMIT).map((c, i) => (
+          <div key={i} className="px-2 py-1 odd:bg-surface even:bg-base">
+            <span className="text-slate-200">{c.contact ? `${c.contact} · ${c.company}` : c.company}</span>
+            {c.changes.length ? <span className="text-slate-500"> — {c.changes.join("; ")}</span> : null}
+          </div>
+        ))}
+        {items.length > DIFF_LIMIT ? (
+          <div className="px-2 py-1 text-slate-500">…and {items.length - DIFF_LIMIT} more</div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Sales funnel import: upload → map columns (with saved presets and custom
+ * fields) → dry-run diff → import in server-side batches, with a downloadable
+ * per-row report.
+ */
+export function ImportWizard({
+  open,
+  onClose,
+  onImported,
+}: {
+  open: boolean;
+  onClose: () => void;
+  onImported: () => void | Promise<void>;
+}) {
+  const supabase = useMemo(() => supabaseBrowser(), []);
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [rawRows, setRawRows] = useState<ImportRow[]>([]);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [mode, setMode] = useState<ImportDuplicateMode>("upsert");
+  const [createMissingStages, setCreateMissingStages] = useState(false);
+
+  const [presets, setPresets] = useState<Preset[]>([]);
+  const [presetName, setPresetName] = useState("");
+
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  async function loadPresets() {
+    const res = await supabase.from("crm_import_mappings").select("id,name,mapping").order("name", { ascending: true });
+    if (!res.error) setPresets((res.data ?? []) as Preset[]);
+  }
+
+  useEffect(() => {
+    if (open) void loadPresets();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  function reset() {
+    setStep("upload");
+    setFileName("");
+    setRawRows([]);
+    setHeaders([]);
+    setMapping({});
+    setReport(null);
+    setProgress(null);
+    setError("");
+  }
+
+  function loadRows(rows: ImportRow[]) {
+    const nonEmpty = rows.filter((r) => Object.values(r).some((v) => cleanStr(v)));
+    if (!nonEmpty.length) {
+      setError("The file has no data rows.");
+      return;
+    }
+    if (nonEmpty.length > CRM_IMPORT_MAX_ROWS) {
+      setError(`The file has ${nonEmpty.length} rows; split it into files of at most ${CRM_IMPORT_MAX_ROWS}.`);
+      return;
+    }
+    const hs = Object.keys(nonEmpty[0]);
+    setRawRows(nonEmpty);
+    setHeaders(hs);
+    setMapping(inferImportMapping(hs));
+    setStep("map");
+  }
+
+  function parseFile(file: File) {
+    setError("");
+    setRawRows([]);
+    setReport(null);
+    setFileName(file.name);
+
+    const ext = file.name.toLowerCase().split(".").pop() ?? "";
+    if (ext === "csv") {
+      Papa.parse(file, {
+        header: true,
+        skipEmptyLines: true,
+        complete: (res) => loadRows((res.data ?? []) as ImportRow[]),
+        error: (err) => setError(err.message),
+      });
+      return;
+    }
+
+    if (ext === "xlsx" || ext === "xls") {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        try {
+          const data = new Uint8Array((e.target?.result as ArrayBuffer) ?? new ArrayBuffer(0));
+          const wb = XLSX.read(data, { type: "array" });
+          const ws = wb.Sheets[wb.SheetNames[0]];
+          loadRows(XLSX.utils.sheet_to_json(ws, { defval: "" }) as ImportRow[]);
+        } catch (err: unknown) {
+          setError((err as Error)?.message ?? "Failed to read Excel file.");
+        }
+      };
+      reader.readAsArrayBuffer(file);
+      return;
+    }
+
+    setError("Unsupported file type. Please upload .CSV or .XLSX");
+  }
+
+  function setTarget(header: string, target: ColumnTarget) {
+    setMapping((m) => ({ ...m, [header]: target }));
+    setReport(null);
+  }
+
+  async function savePreset() {
+    const name = presetName.trim();
+    if (!name) return;
+    setError("");
+    const { data: userData } = await supabase.auth.getUser();
+    const res = await supabase
+      .from("crm_import_mappings")
+      .upsert({ name, mapping, created_by: userData?.user?.id ?? null }, { onConflict: "name_lower" });
+    if (res.error) setError(res.error.message);
+    else {
+      setPresetName("");
+      await loadPresets();
+    }
+  }
+
+  async function deletePreset(id: string) {
+    if (!window.confirm("Delete this mapping preset?")) return;
+    const res = await supabase.from("crm_import_mappings").delete().eq("id", id);
+    if (res.error) setError(res.error.message);
+    else await loadPresets();
+  }
+
+  const problems = useMemo(() => mappingProblems(mapping), [mapping]);
+  const normalized = useMemo(() => normalizeImportRows(rawRows, mapping), [rawRows, mapping]);
+
+  async function postRows(rows: typeof normalized.rows, dryRun: boolean, createStages: boolean): Promise<ImportReport> {
+    const res = await fetch("/api/crm/import", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ rows, mode, createMissingStages: createStages, dryRun }),
+    });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(json?.error ?? "Import request failed");
+    return json as ImportReport;
+  }
+
+  async function runDryRun(createStages = createMissingStages) {
+    setBusy(true);
+    setError("");
+    try {
+      const r = normalized.rows.length
+        ? await postRows(normalized.rows, true, createStages)
+        : emptyImportReport(true);
+      setReport(withRowIssues(r, normalized.issues));
+      setStep("preview");
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Dry run failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function runImport() {
+    setBusy(true);
+    setError("");
+    const batches: Array<typeof normalized.rows> = [];
+    for (let i = 0; i < normalized.rows.length; i += CRM_IMPORT_BATCH_ROWS) {
+      batches.push(normalized.rows.slice(i, i + CRM_IMPORT_BATCH_ROWS));
+    }
+    let total = withRowIssues(emptyImportReport(false), normalized.issues);
+    setProgress({ done: 0, total: normalized.rows.length });
+    try {
+      let done = 0;
+      for (const batch of batches) {
+        total = mergeImportReports(total, await postRows(batch, false, createMissingStages));
+        done += batch.length;
+        setProgress({ done, total: normalized.rows.length });
+      }
+      setReport(total);
+      setStep("done");
+      await onImported();
+    } catch (e: unknown) {
+      // Earlier batches are already saved; show what got through.
+      setReport(total);
+      setStep("done");
+      setError(`${(e as Error)?.message ?? "Import failed"} — stopped after ${total.rows.length - normalized.issues.length} rows.`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const issueCount = report ? report.rows.filter((r) => r.status === "error" || r.status === "duplicate").length : 0;
+  const duplicates = report ? report.rows.filter((r) => r.status === "duplicate") : [];
+  const errors = report ? report.rows.filter((r) => r.status === "error") : [];
+
+  const summary = report ? (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+      {[
+        ["New companies", report.companies.created],
+        ["Updated companies", report.companies.updated],
+        ["New contacts", report.contacts.created],
+        ["Updated contacts", report.contacts.updated],
+        ["Unchanged", report.companies.unchanged + report.contacts.unchanged],
+        ["Duplicates skipped", report.duplicatesSkipped],
+        ["Row errors", report.errors],
+        ["Unknown stages", report.unmatchedStages.length],
+      ].map(([label, n]) => (
+        <div key={label} className="rounded-lg border border-white/10 bg-surface px-3 py-2">
+          <div className="text-xs text-slate-400">{label}</div>
+          <div className="text-lg font-semibold text-slate-100">{n}</div>
+        </div>
+      ))}
+    </div>
+  ) : null;
+
+  const downloadReport = report && issueCount ? (
+    <Button variant="ghost" onClick={() => downloadCsv(`${fileName.replace(/\.[^.]+$/, "") || "import"}-report.csv`, importIssuesCsv(report))}>
+      Download row report (CSV)
+    </Button>
+  ) : null;
+
+  return (
+    <Modal
+      open={open}
+      onClose={() => {
+        if (busy) return;
+        reset();
+        onClose();
+      }}
+      title="Import Contacts (CSV / XLSX)"
+      maxWidthClass="max-w-5xl"
+    >
+      <div className="flex flex-col gap-4">
+        <div className="flex items-center gap-2 text-xs text-slate-500">
+          {(["upload", "map", "preview", "done"] as Step[]).map((s, i) => (
+            <span key={s} className={step === s ? "text-slate-100 font-semibold" : ""}>
+              {i + 1}. {s === "upload" ? "Upload" : s === "map" ? "Map columns" : s === "preview" ? "Preview" : "Import"}
+              {i < 3 ? " →" : ""}
+            </span>
+          ))}
+          {fileName ? <Pill>{fileName}</Pill> : null}
+        </div>
+
+        {error ? <div className="text-sm text-red-400">{error}</div> : null}
+
+        {step === "upload" ? (
+          <div className="flex flex-col gap-3">
+            <input
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) parseFile(file);
+              }}
+            />
+            <div className="text-xs text-slate-500">
+              Each row should be a contact at a company; rows without contact columns just create or update the company. You map the
+              columns in the next step.
+            </div>
+          </div>
+        ) : null}
+
+        {step === "map" ? (
+          <div className="flex flex-col gap-3">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+              <div>
+                <div className="text-xs text-slate-400 mb-1">Mapping preset</div>
+                <select
+                  className={selectClass}
+                  value=""
+                  onChange={(e) => {
+                    const p = presets.find((x) => x.id === e.target.value);
+                    if (p) {
+                      setMapping(applyMappingPreset(headers, p.mapping));
+                      setReport(null);
+                    }
+                  }}
+                >
+                  <option value="">{presets.length ? "Apply a saved preset…" : "No saved presets"}</option>
+                  {presets.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <div className="text-xs text-slate-400 mb-1">Save this mapping as</div>
+                <Input value={presetName} onChange={(e) => setPresetName(e.target.value)} placeholder="e.g. Trade show list" />
+              </div>
+              <div className="flex gap-2">
+                <Button variant="ghost" disabled={!presetName.trim()} onClick={() => void savePreset()}>
+                  Save preset
+                </Button>
+              </div>
+            </div>
+            {presets.length ? (
+              <div className="flex flex-wrap gap-2 text-xs text-slate-400">
+                {presets.map((p) => (
+                  <span key={p.id} className="rounded-full border border-white/10 px-2 py-0.5">
+                    {p.name}{" "}
+                    <button className="text-slate-500 hover:text-red-400" onClick={() => void deletePreset(p.id)} title="Delete preset">
+                      ×
+                    </button>
+                  </span>
+                ))}
+              </div>
+            ) : null}
+
+            <div className="overflow-auto rounded-lg border border-white/10">
+              <table className="min-w-full text-xs">
+                <thead className="bg-base">
+                  <tr>
+                    <th className="text-left px-2 py-2 border-b">File column</th>
+                    <th className="text-left px-2 py-2 border-b">Sample</th>
+                    <th className="text-left px-2 py-2 border-b">Import as</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {headers.map((h) => {
+                    const t = mapping[h] ?? { field: "" };
+                    const isCustom = t.field === "company_custom" || t.field === "contact_custom";
+                    return (
+                      <tr key={h} className="odd:bg-surface even:bg-base">
+                        <td className="px-2 py-2 border-b align-top text-slate-200">{h}</td>
+                        <td className="px-2 py-2 border-b align-top text-slate-400">
+                          {rawRows
+                            .slice(0, 3)
+                            .map((r) => cleanStr(r[h]))
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </td>
+                        <td className="px-2 py-2 border-b align-top">
+                          <div className="flex gap-2">
+                            <select
+                              className={selectClass}
+                              value={t.field}
+                              onChange={(e) => {
+                                const field = e.target.value as ColumnTarget["field"];
+                                setTarget(
+                                  h,
+                                  field === "company_custom" || field === "contact_custom"
+                                    ? { field, customKey: t.customKey || customKeyFromHeader(h) }
+                                    : { field }
+                                );
+                              }}
+                            >
+                              <option value="">— Ignore —</option>
+                              {CRM_IMPORT_FIELDS.map((f) => (
+                                <option key={f.key} value={f.key}>
+                                  {f.label}
+                                </option>
+                              ))}
+                              <option value="company_custom">Company custom field…</option>
+                              <option value="contact_custom">Contact custom field…</option>
+                            </select>
+                            {isCustom ? (
+                              <Input
+                                value={t.customKey ?? ""}
+                                onChange={(e) => setTarget(h, { ...t, customKey: e.target.value })}
+                                placeholder="field name"
+                              />
+                            ) : null}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <div className="text-xs text-slate-400 mb-1">Existing companies / contacts</div>
+                <select
+                  className={selectClass}
+                  value={mode}
+                  onChange={(e) => {
+                    setMode(e.target.value as ImportDuplicateMode);
+                    setReport(null);
+                  }}
+                >
+                  <option value="upsert">Update with values from the file (recommended)</option>
+                  <option value="skip">Leave unchanged (skip duplicates)</option>
+                </select>
+              </div>
+              <label className="flex items-end gap-2 text-sm text-slate-300">
+                <input type="checkbox" checked={createMissingStages} onChange={(e) => setCreateMissingStages(e.target.checked)} />
+                Create stages that don&apos;t exist yet
+              </label>
+            </div>
+
+            {problems.length ? (
+              <ul className="text-xs text-amber-300 list-disc pl-5">
+                {problems.map((p) => (
+                  <li key={p}>{p}</li>
+                ))}
+              </ul>
+            ) : null}
+
+            <div className="flex justify-between">
+              <Button variant="ghost" onClick={reset}>
+                Choose another file
+              </Button>
+              <Button disabled={busy || problems.length > 0} onClick={() => void runDryRun()}>
+                {busy ? "Checking..." : `Preview import (${rawRows.length} rows)`}
+              </Button>
+            </div>
+          </div>
+        ) : null}
+
+        {step === "preview" && report ? (
+          <div className="flex flex-col gap-3">
+            <div className="text-xs text-slate-500">Dry run — nothing has been saved yet.</div>
+            {summary}
+
+            {report.unmatchedStages.length ? (
+              <div className="rounded-lg border border-amber-400/30 bg-surface px-3 py-2 text-xs text-amber-200">
+                <div className="mb-1">
+                  Stage names not in the Company stages:{" "}
+                  {report.unmatchedStages.map((s) => `${s.name} (${s.rows} rows)`).join(", ")}.
+                </div>
+                <label className="flex items-center gap-2 text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={createMissingStages}
+                    disabled={busy}
+                    onChange={(e) => {
+                      setCreateMissingStages(e.target.checked);
+                      void runDryRun(e.target.checked);
+                    }}
+                  />
+                  Create them (otherwise new companies go to the first stage and existing ones keep theirs)
+                </label>
+              </div>
+            ) : null}
+
+            <ChangeList title="New companies" items={report.companyChanges.filter((c) => c.status === "new")} />
+            <ChangeList title="Updated companies" items={report.companyChanges.filter((c) => c.status === "updated")} />
+            <ChangeList title="New contacts" items={report.contactChanges.filter((c) => c.status === "new")} />
+            <ChangeList title="Updated contacts" items={report.contactChanges.filter((c) => c.status === "updated")} />
+            <ChangeList
+              title="Duplicates skipped"
+              items={duplicates.map((d) => ({ company: d.company, contact: d.contact, status: "new", changes: [`row ${d.row}: ${d.message}`] }))}
+            />
+            <ChangeList
+              title="Rows with errors"
+              items={errors.map((d) => ({ company: d.company || "(no company)", contact: d.contact, status: "new", changes: [`row ${d.row}: ${d.message}`] }))}
+            />
+
+            <div className="flex justify-between">
+              <div className="flex gap-2">
+                <Button variant="ghost" disabled={busy} onClick={() => setStep("map")}>
+                  Back to mapping
+                </Button>
+                {downloadReport}
+              </div>
+              <Button disabled={busy || !normalized.rows.length} onClick={() => void runImport()}>
+                {busy && progress
+                  ? `Importing ${progress.done} / ${progress.total}...`
+                  : `Import ${normalized.rows.length} rows`}
+              </Button>
+            </div>
+          </div>
+        ) : null}
+
+        {step === "done" && report ? (
+          <div className="flex flex-col gap-3">
+            <div className="text-sm text-slate-300">Import finished.</div>
+            {summary}
+            <div className="flex justify-between">
+              {downloadReport ?? <span />}
+              <Button
+                onClick={() => {
+                  reset();
+                  onClose();
+                }}
+              >
+                Close
+              </Button>
+            </div>
+          </div>
+        ) : null}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { supabaseBrowser } from "@/src/lib/supabase/browser";
+import { Button, Input, Pill } from "@/src/components/ui";
+import {
+  DEAL_SELECT,
+  effectiveProbability,
+  formatMoney,
+  normalizeDeal,
+  saveProjectDeal,
+  weightedValue,
+  type DealOutcome,
+} from "@/src/lib/crm/forecast";
+
+const selectClass =
+  "w-full rounded-lg border border-white/10 bg-base px-3 py-2 text-sm text-slate-200 outline-none focus:ring-2 focus:ring-gray-300";
+
+type StageInfo = { name: string; default_probability: number | null };
+
+/**
+ * Deal fields on a project (the project modal): value, expected close date,
+ * probability override and the won / lost outcome with its reason.
+ */
+export function ProjectDealPanel({ projectId, onSaved }: { projectId: string; onSaved?: () => void }) {
+  const supabase = useMemo(() => supabaseBrowser(), []);
+  const [loaded, setLoaded] = useState(false);
+  const [stage, setStage] = useState<StageInfo | null>(null);
+  const [value, setValue] = useState("");
+  const [closeDate, setCloseDate] = useState("");
+  const [probability, setProbability] = useState("");
+  const [outcome, setOutcome] = useState<DealOutcome | "">("");
+  const [reason, setReason] = useState("");
+  const [closedAt, setClosedAt] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  async function reload() {
+    const res = await supabase
+      .from("crm_projects")
+      .select(`${DEAL_SELECT},stage:crm_stages!crm_projects_stage_id_fkey(name,default_probability)`)
+      .eq("id", projectId)
+      .single();
+    if (res.error) {
+      setError(res.error.message);
+      return;
+    }
+    const row = res.data as unknown as Record<string, unknown>;
+    const deal = normalizeDeal(row);
+    const s = (Array.isArray(row.stage) ? row.stage[0] : row.stage) as Record<string, unknown> | null;
+    setStage(s ? { name: String(s.name ?? ""), default_probability: s.default_probability == null ? null : Number(s.default_probability) } : null);
+    setValue(deal.value === null ? "" : String(deal.value));
+    setCloseDate(deal.expected_close_date ?? "");
+    setProbability(deal.probability === null ? "" : String(deal.probability));
+    setOutcome(deal.outcome ?? "");
+    setReason(deal.outcome_reason ?? "");
+    setClosedAt(deal.closed_at);
+    setLoaded(true);
+  }
+
+  useEffect(() => {
+    setLoaded(false);
+    setError("");
+    void reload();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectId]);
+
+  const valueNum = value.trim() === "" ? null : Number(value);
+  const probNum = probability.trim() === "" ? null : Number(probability);
+  const valueInvalid = valueNum !== null && (!Number.isFinite(valueNum) || valueNum < 0);
+  const probInvalid = probNum !== null && (!Number.isInteger(probNum) || probNum < 0 || probNum > 100);
+  const effective = effectiveProbability({ probability: probInvalid ? null : probNum, outcome: outcome || null }, stage?.default_probability);
+
+  async function save() {
+    setBusy(true);
+    setError("");
+    try {
+      await saveProjectDeal(supabase, projectId, {
+        value: valueNum,
+        expected_close_date: closeDate || null,
+        probability: probNum,
+        outcome: outcome || null,
+        outcome_reason: reason,
+      });
+      await reload();
+      onSaved?.();
+    } catch (e: unknown) {
+      setError((e as Error)?.message ?? "Failed to save deal");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!loaded) {
+    return <div className="rounded-xl border p-3 bg-base text-xs text-slate-400">{error || "Loading deal..."}</div>;
+  }
+
+  return (
+    <div className="rounded-xl border p-3 bg-base space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="font-semibold text-sm">Deal</div>
+        {outcome ? (
+          <Pill>
+            {outcome === "won" ? "Won" : "Lost"}
+            {closedAt ? ` ${new Date(closedAt).toLocaleDateString()}` : ""}
+          </Pill>
+        ) : (
+          <Pill>
+            {effective}% · {formatMoney(weightedValue(valueInvalid ? null : valueNum, effective))} weighted
+          </Pill>
+        )}
+      </div>
+
+      {error ? <div className="text-xs text-red-400">{error}</div> : null}
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs text-slate-400">
+          Value ($)
+          <Input inputMode="decimal" placeholder="0" value={value} onChange={(e) => setValue(e.target.value)} className="mt-1" />
+        </label>
+        <label className="text-xs text-slate-400">
+          Expected close
+          <Input type="date" value={closeDate} onChange={(e) => setCloseDate(e.target.value)} className="mt-1" />
+        </label>
+        <label className="text-xs text-slate-400">
+          Probability (%)
+          <Input
+            inputMode="numeric"
+            placeholder={
+              stage?.default_probability !== null && stage?.default_probability !== undefined
+                ? `${stage.default_probability} (${stage.name} default)`
+                : "Stage default"
+            }
+            value={probability}
+            onChange={(e) => setProbability(e.target.value)}
+            className="mt-1"
+          />
+        </label>
+        <label className="text-xs text-slate-400">
+          Outcome
+          <select className={`${selectClass} mt-1`} value={outcome} onChange={(e) => setOutcome(e.target.value as DealOutcome | "")}>
+            <option value="">Open</option>
+            <option value="won">Won</option>
+            <option value="lost">Lost</option>
+          </select>
+        </label>
+        {outcome ? (
+          <Input
+            placeholder={outcome === "won" ? "Why did we win?" : "Why did we lose?"}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            className="col-span-2"
+          />
+        ) : null}
+      </div>
+
+      {valueInvalid ? <div className="text-xs text-red-400">Value must be a number, 0 or more.</div> : null}
+      {probInvalid ? <div className="text-xs text-red-400">Probability must be a whole number from 0 to 100.</div> : null}
+
+      <div className="flex justify-end">
+        <Button disabled={busy || valueInvalid || probInvalid} onClick={() => void save()}>
+          Save Deal
+        </Button>
+      </div>
+    </div>
+  );
+}
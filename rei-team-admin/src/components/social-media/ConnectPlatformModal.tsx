@@ -2,74 +2,40 @@
 
 import { useState } from "react";
 import { Modal, Button } from "@/src/components/ui";
-import {
-  createSocialPlatform,
-  updateSocialPlatform,
-} from "@/src/lib/supabase/social-media-queries";
-import type { SocialPlatform, PlatformName } from "@/src/lib/types/social-media";
-import type { PlatformConfig } from "./platform-config";
+import type { SocialPlatformSummary, PlatformName } from "@/src/lib/types/social-media";
+import { getPlatformAdapter } from "@/src/lib/platforms/registry";
 
 interface ConnectPlatformModalProps {
   open: boolean;
   onClose: () => void;
   platform: PlatformName;
-  config: PlatformConfig;
-  existingPlatform?: SocialPlatform | null;
-  onConnected: (platform: SocialPlatform) => void;
+  existingPlatform?: SocialPlatformSummary | null;
 }
 
 export function ConnectPlatformModal({
   open,
   onClose,
   platform,
-  config,
   existingPlatform,
-  onConnected,
 }: ConnectPlatformModalProps) {
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
 
-  async function handleConnect() {
-    setLoading(true);
-    setError(null);
-    try {
-      // Mock token expiry 60 days from now (Phase 2 will use real OAuth tokens)
-      const mockTokenExpiry = new Date(
-        Date.now() + 60 * 24 * 60 * 60 * 1000
-      ).toISOString();
+  const adapter = getPlatformAdapter(platform);
+  if (!adapter) return null;
+  const { config, capabilities } = adapter;
 
-      if (existingPlatform) {
-        const updated = await updateSocialPlatform(existingPlatform.id, {
-          is_connected: true,
-          access_token: `mock_access_token_${platform}`,
-          token_expires_at: mockTokenExpiry,
-        });
-        onConnected(updated);
-      } else {
-        const created = await createSocialPlatform({
-          platform_name: platform,
-          account_name: `@rei_${platform}`,
-          account_id: `mock_account_id_${platform}`,
-          access_token: `mock_access_token_${platform}`,
-          refresh_token: `mock_refresh_token_${platform}`,
-          token_expires_at: mockTokenExpiry,
-          is_connected: true,
-          platform_url: config.defaultUrl,
-          metadata: null,
-          connected_by: null,
-        });
-        onConnected(created);
-      }
-      onClose();
-    } catch (err) {
-      setError(
-        err instanceof Error ? err.message : "Failed to connect platform"
-      );
-    } finally {
-      setLoading(false);
-    }
+  // The start route redirects to the provider's consent screen; the callback
+  // stores the tokens and returns to the settings page.
+  function handleConnect() {
+    setLoading(true);
+    window.location.assign(`/api/social-platforms/oauth/${platform}/start`);
   }
 
+  const refreshError =
+    typeof existingPlatform?.metadata?.refresh_error === "string"
+      ? existingPlatform.metadata.refresh_error
+      : null;
+
   return (
     <Modal
       open={open}
@@ -81,7 +47,7 @@ export function ConnectPlatformModal({
             Cancel
           </Button>
           <Button onClick={handleConnect} disabled={loading}>
-            {loading ? "Connecting…" : `Authorize with ${config.name}`}
+            {loading ? "Redirecting…" : `Authorize with ${config.name}`}
           </Button>
         </>
       }
@@ -94,8 +60,8 @@ export function ConnectPlatformModal({
               Connect your {config.name} account
             </div>
             <div className="text-xs text-slate-400 mt-1">
-              OAuth authorization will be implemented in Phase 2. This saves a
-              placeholder connection for now.
+              You&apos;ll be sent to {config.name} to sign in and approve
+              access, then brought back here.
             </div>
           </div>
         </div>
@@ -134,18 +100,34 @@ export function ConnectPlatformModal({
               ))}
             </ul>
           </div>
+
+          <div className="border-t border-white/[0.06] pt-4">
+            <div className="text-xs font-semibold text-slate-300 uppercase tracking-wide mb-2">
+              Publishing Limits
+            </div>
+            <ul className="space-y-1.5 text-xs text-slate-400">
+              <li>Up to {capabilities.maxCharacters.toLocaleString()} characters per post</li>
+              <li>
+                Media:{" "}
+                {capabilities.mediaTypes
+                  .map((m) => (m === "none" ? "text-only" : m))
+                  .join(", ")}
+              </li>
+              <li>{capabilities.allowsLinks ? "Clickable links in captions" : "Links in captions are not clickable"}</li>
+            </ul>
+          </div>
         </div>
 
-        {error && (
+        {refreshError && (
           <div className="rounded-lg border border-red-500/20 bg-red-500/10 p-3 text-xs text-red-400">
-            {error}
+            The previous connection stopped working: {refreshError}
           </div>
         )}
 
         <p className="text-xs text-slate-500">
-          In Phase 2, this button will redirect you to {config.name}&apos;s
-          official OAuth authorization page to grant the permissions listed
-          above.
+          Tokens are stored server-side and renewed automatically before they
+          expire. If renewal fails the platform is marked disconnected and
+          admins are notified.
         </p>
       </div>
     </Modal>
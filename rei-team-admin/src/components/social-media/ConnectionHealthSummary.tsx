@@ -1,25 +1,23 @@
 "use client";
 
-import type { SocialPlatform } from "@/src/lib/types/social-media";
+import type { SocialPlatformSummary } from "@/src/lib/types/social-media";
+import { getConnectionStatus } from "./ConnectionStatusBadge";
 
 interface ConnectionHealthSummaryProps {
-  platforms: SocialPlatform[];
+  platforms: SocialPlatformSummary[];
   total: number;
 }
 
-function getTokenStatus(platform: SocialPlatform): "ok" | "expiring" {
-  if (!platform.token_expires_at) return "ok";
-  const expiresIn = new Date(platform.token_expires_at).getTime() - Date.now();
-  return expiresIn < 7 * 24 * 60 * 60 * 1000 ? "expiring" : "ok";
-}
-
 export function ConnectionHealthSummary({
   platforms,
   total,
 }: ConnectionHealthSummaryProps) {
-  const connected = platforms.filter((p) => p.is_connected);
-  const expiring = connected.filter((p) => getTokenStatus(p) === "expiring");
-  const allHealthy = connected.length === total && expiring.length === 0;
+  const statuses = platforms.map(getConnectionStatus);
+  const connected = statuses.filter((s) => s === "connected" || s === "expiring");
+  const expiring = statuses.filter((s) => s === "expiring");
+  const needsReconnect = statuses.filter((s) => s === "error");
+  const allHealthy =
+    connected.length === total && expiring.length === 0 && needsReconnect.length === 0;
 
   return (
     <div className="flex flex-wrap items-center gap-4 rounded-xl border border-white/[0.06] bg-surface px-4 py-3">
@@ -38,6 +36,20 @@ export function ConnectionHealthSummary({
 
       <div className="h-4 w-px bg-white/[0.08]" />
 
+      {/* Failed refreshes / expired tokens */}
+      {needsReconnect.length > 0 && (
+        <>
+          <div className="flex items-center gap-2">
+            <span className="w-2.5 h-2.5 rounded-full bg-red-400" />
+            <span className="text-sm text-red-400">
+              {needsReconnect.length} need{needsReconnect.length === 1 ? "s" : ""} reconnecting
+            </span>
+          </div>
+
+          <div className="h-4 w-px bg-white/[0.08]" />
+        </>
+      )}
+
       {/* Expiring tokens */}
       {expiring.length > 0 ? (
         <div className="flex items-center gap-2">
@@ -65,7 +77,7 @@ export function ConnectionHealthSummary({
               All systems healthy
             </span>
           </>
-        ) : connected.length === 0 ? (
+        ) : connected.length === 0 && needsReconnect.length === 0 ? (
           <>
             <span aria-hidden="true" className="text-slate-500 text-sm">○</span>
             <span className="text-sm text-slate-500">No platforms connected</span>
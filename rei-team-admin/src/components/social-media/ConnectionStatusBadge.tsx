@@ -1,6 +1,29 @@
 "use client";
 
-export type ConnectionStatus = "connected" | "disconnected" | "expiring";
+import type { SocialPlatformSummary } from "@/src/lib/types/social-media";
+
+export type ConnectionStatus = "connected" | "disconnected" | "expiring" | "error";
+
+const EXPIRY_WARNING_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Derive a card status from a `social_platforms` row.  Tokens with a refresh
+ * token are renewed by the refresh-tokens cron, so only tokens without one
+ * are reported as expiring; a failed refresh marks the row disconnected with
+ * `metadata.refresh_error`, which is surfaced as "error".
+ */
+export function getConnectionStatus(platform: SocialPlatformSummary | null): ConnectionStatus {
+  if (!platform) return "disconnected";
+  if (!platform.is_connected) {
+    return platform.metadata?.refresh_error ? "error" : "disconnected";
+  }
+  if (platform.token_expires_at) {
+    const expiresIn = new Date(platform.token_expires_at).getTime() - Date.now();
+    if (expiresIn <= 0) return "error";
+    if (!platform.has_refresh_token && expiresIn < EXPIRY_WARNING_MS) return "expiring";
+  }
+  return "connected";
+}
 
 export function ConnectionStatusBadge({ status }: { status: ConnectionStatus }) {
   if (status === "connected") {
@@ -19,6 +42,14 @@ export function ConnectionStatusBadge({ status }: { status: ConnectionStatus })
       </span>
     );
   }
+  if (status === "error") {
+    return (
+      <span className="flex items-center gap-1.5 text-xs font-medium text-red-400">
+        <span className="w-2 h-2 rounded-full bg-red-400" />
+        Reconnect Required
+      </span>
+    );
+  }
   return (
     <span className="flex items-center gap-1.5 text-xs font-medium text-slate-500">
       <span className="w-2 h-2 rounded-full bg-slate-600" />
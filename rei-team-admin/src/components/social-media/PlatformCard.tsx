@@ -2,11 +2,10 @@
 
 import { useState } from "react";
 import { Button } from "@/src/components/ui";
-import { updateSocialPlatform } from "@/src/lib/supabase/social-media-queries";
-import type { SocialPlatform, PlatformName } from "@/src/lib/types/social-media";
+import type { SocialPlatformSummary, PlatformName } from "@/src/lib/types/social-media";
 import {
   ConnectionStatusBadge,
-  type ConnectionStatus,
+  getConnectionStatus,
 } from "./ConnectionStatusBadge";
 import { ConnectPlatformModal } from "./ConnectPlatformModal";
 import type { PlatformConfig } from "./platform-config";
@@ -14,18 +13,8 @@ import type { PlatformConfig } from "./platform-config";
 interface PlatformCardProps {
   platformName: PlatformName;
   config: PlatformConfig;
-  platform: SocialPlatform | null;
-  onUpdate: (updated: SocialPlatform) => void;
-}
-
-function getConnectionStatus(platform: SocialPlatform | null): ConnectionStatus {
-  if (!platform || !platform.is_connected) return "disconnected";
-  if (platform.token_expires_at) {
-    const expiresIn =
-      new Date(platform.token_expires_at).getTime() - Date.now();
-    if (expiresIn < 7 * 24 * 60 * 60 * 1000) return "expiring";
-  }
-  return "connected";
+  platform: SocialPlatformSummary | null;
+  onUpdate: (updated: SocialPlatformSummary) => void;
 }
 
 function formatLastSynced(updatedAt: string): string {
@@ -56,13 +45,11 @@ export function PlatformCard({
     if (!platform) return;
     setDisconnecting(true);
     try {
-      const updated = await updateSocialPlatform(platform.id, {
-        is_connected: false,
-        access_token: "",
-        refresh_token: null,
-        token_expires_at: null,
+      const res = await fetch(`/api/social-platforms/${platform.id}/disconnect`, {
+        method: "POST",
       });
-      onUpdate(updated);
+      if (!res.ok) return;
+      onUpdate((await res.json()) as SocialPlatformSummary);
     } catch {
       // ignore disconnect errors — user can retry
     } finally {
@@ -132,6 +119,19 @@ export function PlatformCard({
             </div>
           )}
 
+          {/* Refresh failure */}
+          {status === "error" && (
+            <div
+              role="alert"
+              className="rounded-lg border border-red-500/20 bg-red-500/10 px-3 py-2 text-xs text-red-400"
+            >
+              {typeof platform?.metadata?.refresh_error === "string"
+                ? platform.metadata.refresh_error
+                : "Access token expired."}{" "}
+              Reconnect to resume publishing.
+            </div>
+          )}
+
           {/* Last synced */}
           {platform && isConnected && (
             <div className="text-xs text-slate-500">
@@ -165,7 +165,7 @@ export function PlatformCard({
                 onClick={() => setConnectModalOpen(true)}
                 className="w-full text-xs"
               >
-                Connect
+                {status === "error" ? "Reconnect" : "Connect"}
               </Button>
             )}
           </div>
@@ -176,9 +176,7 @@ export function PlatformCard({
         open={connectModalOpen}
         onClose={() => setConnectModalOpen(false)}
         platform={platformName}
-        config={config}
         existingPlatform={platform}
-        onConnected={onUpdate}
       />
     </>
   );
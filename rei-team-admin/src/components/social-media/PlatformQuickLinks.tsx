@@ -1,10 +1,10 @@
 "use client";
 
-import type { SocialPlatform } from "@/src/lib/types/social-media";
+import type { SocialPlatformSummary } from "@/src/lib/types/social-media";
 import { PLATFORM_CONFIGS } from "./platform-config";
 
 interface PlatformQuickLinksProps {
-  platforms: SocialPlatform[];
+  platforms: SocialPlatformSummary[];
 }
 
 export function PlatformQuickLinks({ platforms }: PlatformQuickLinksProps) {
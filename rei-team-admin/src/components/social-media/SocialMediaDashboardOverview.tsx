@@ -4,13 +4,13 @@ import { useCallback, useEffect, useState } from "react";
 import Link from "next/link";
 import { Card } from "@/src/components/ui";
 import { getSocialPlatforms } from "@/src/lib/supabase/social-media-queries";
-import type { SocialPlatform } from "@/src/lib/types/social-media";
+import type { SocialPlatformSummary } from "@/src/lib/types/social-media";
 import { ConnectionHealthSummary } from "./ConnectionHealthSummary";
 import { PlatformQuickLinks } from "./PlatformQuickLinks";
 import { ALL_PLATFORMS } from "./platform-config";
 
 export function SocialMediaDashboardOverview() {
-  const [platforms, setPlatforms] = useState<SocialPlatform[]>([]);
+  const [platforms, setPlatforms] = useState<SocialPlatformSummary[]>([]);
   const [loading, setLoading] = useState(true);
 
   const loadPlatforms = useCallback(async () => {
@@ -0,0 +1,30 @@
+"use client";
+
+import type { AnalyticsTrendPoint } from "@/src/lib/types/social-media";
+import { formatCount, formatRate } from "./format";
+
+interface AnalyticsSummaryCardsProps {
+  totals: AnalyticsTrendPoint | null;
+  posts: number;
+}
+
+export function AnalyticsSummaryCards({ totals, posts }: AnalyticsSummaryCardsProps) {
+  const items = [
+    { label: "Impressions", value: totals ? formatCount(totals.impressions) : "—" },
+    { label: "Reach", value: totals ? formatCount(totals.reach) : "—" },
+    { label: "Engagements", value: totals ? formatCount(totals.engagements) : "—" },
+    { label: "Engagement Rate", value: formatRate(totals?.engagement_rate ?? null) },
+    { label: "Posts Tracked", value: String(posts) },
+  ];
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+      {items.map((item) => (
+        <div key={item.label} className="rounded-xl border border-white/[0.06] bg-surface px-4 py-3">
+          <div className="text-xs text-slate-500">{item.label}</div>
+          <div className="text-xl font-semibold text-slate-100 mt-1">{item.value}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
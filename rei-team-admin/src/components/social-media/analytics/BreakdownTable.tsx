@@ -0,0 +1,35 @@
+"use client";
+
+import type { AnalyticsBreakdownRow } from "@/src/lib/types/social-media";
+import { formatCount, formatRate } from "./format";
+
+/** Per-group performance with a bar scaled to the best engagement rate. */
+export function BreakdownTable({ rows }: { rows: AnalyticsBreakdownRow[] }) {
+  if (rows.length === 0) {
+    return <div className="text-sm text-slate-500">No data yet.</div>;
+  }
+
+  const bestRate = Math.max(...rows.map((r) => r.engagement_rate ?? 0)) || 1;
+
+  return (
+    <div className="space-y-3">
+      {rows.map((row) => (
+        <div key={row.key} className="space-y-1">
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <span className="text-slate-200 truncate">{row.label}</span>
+            <span className="text-slate-400 text-xs whitespace-nowrap">
+              {row.posts} {row.posts === 1 ? "post" : "posts"} · {formatCount(row.impressions)} impr. ·{" "}
+              <span className="text-slate-200">{formatRate(row.engagement_rate)}</span>
+            </span>
+          </div>
+          <div className="h-1.5 rounded-full bg-white/[0.06] overflow-hidden">
+            <div
+              className="h-full rounded-full bg-emerald-500/70"
+              style={{ width: `${((row.engagement_rate ?? 0) / bestRate) * 100}%` }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import type { AnalyticsFollowerSeries } from "@/src/lib/types/social-media";
+import { PLATFORM_CONFIGS } from "../platform-config";
+import { formatCount } from "./format";
+
+const WIDTH = 120;
+const HEIGHT = 32;
+
+function Sparkline({ values }: { values: number[] }) {
+  if (values.length < 2) return <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-28 h-8" />;
+  const min = Math.min(...values);
+  const span = Math.max(...values) - min || 1;
+  const step = WIDTH / (values.length - 1);
+  const path = values
+    .map((v, i) => `${i === 0 ? "M" : "L"}${(i * step).toFixed(1)},${(HEIGHT - 2 - ((v - min) / span) * (HEIGHT - 4)).toFixed(1)}`)
+    .join(" ");
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-28 h-8" preserveAspectRatio="none">
+      <path d={path} fill="none" stroke="currentColor" strokeWidth={1.5} className="text-blue-400" vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+}
+
+export function FollowerGrowth({ series }: { series: AnalyticsFollowerSeries[] }) {
+  if (series.length === 0) {
+    return <div className="text-sm text-slate-500">No follower counts reported yet.</div>;
+  }
+
+  return (
+    <div className="divide-y divide-white/[0.04]">
+      {series.map((s) => {
+        const config = PLATFORM_CONFIGS[s.platform as keyof typeof PLATFORM_CONFIGS];
+        const first = s.points[0]?.followers ?? 0;
+        const last = s.points[s.points.length - 1]?.followers ?? 0;
+        const change = last - first;
+        return (
+          <div key={s.platform} className="flex items-center gap-4 py-2.5">
+            <div className="flex-1 min-w-0 text-sm text-slate-200">
+              {config ? `${config.icon} ${config.name}` : s.platform}
+            </div>
+            <Sparkline values={s.points.map((p) => p.followers)} />
+            <div className="w-20 text-right text-sm text-slate-200">{formatCount(last)}</div>
+            <div
+              className={[
+                "w-16 text-right text-xs",
+                change > 0 ? "text-emerald-400" : change < 0 ? "text-red-400" : "text-slate-500",
+              ].join(" ")}
+            >
+              {change > 0 ? "+" : ""}
+              {formatCount(change)}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import Link from "next/link";
+import type { AnalyticsPostPerformance } from "@/src/lib/types/social-media";
+import { PLATFORM_CONFIGS } from "../platform-config";
+import { formatCount, formatRate } from "./format";
+
+export function TopPostsTable({ posts }: { posts: AnalyticsPostPerformance[] }) {
+  if (posts.length === 0) {
+    return <div className="text-sm text-slate-500">No published posts with metrics yet.</div>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-slate-500 border-b border-white/[0.06]">
+            <th className="py-2 pr-3 font-medium">Post</th>
+            <th className="py-2 px-3 font-medium">Platform</th>
+            <th className="py-2 px-3 font-medium text-right">Impressions</th>
+            <th className="py-2 px-3 font-medium text-right">Reach</th>
+            <th className="py-2 px-3 font-medium text-right">Engagements</th>
+            <th className="py-2 pl-3 font-medium text-right">Rate</th>
+          </tr>
+        </thead>
+        <tbody>
+          {posts.map((post) => {
+            const config = PLATFORM_CONFIGS[post.platform as keyof typeof PLATFORM_CONFIGS];
+            const label = post.title || post.body?.slice(0, 60) || post.platform_post_id;
+            return (
+              <tr key={`${post.platform}:${post.platform_post_id}`} className="border-b border-white/[0.04]">
+                <td className="py-2 pr-3 max-w-xs truncate text-slate-200">
+                  {post.post_id ? (
+                    <Link href={`/social-media/library/${post.post_id}`} className="hover:text-emerald-300">
+                      {label}
+                    </Link>
+                  ) : (
+                    label
+                  )}
+                </td>
+                <td className="py-2 px-3 text-slate-400 whitespace-nowrap">
+                  {config ? `${config.icon} ${config.name}` : post.platform}
+                </td>
+                <td className="py-2 px-3 text-right text-slate-300">{formatCount(post.impressions)}</td>
+                <td className="py-2 px-3 text-right text-slate-300">{formatCount(post.reach)}</td>
+                <td className="py-2 px-3 text-right text-slate-300">{formatCount(post.engagements)}</td>
+                <td className="py-2 pl-3 text-right text-slate-300">{formatRate(post.engagement_rate)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
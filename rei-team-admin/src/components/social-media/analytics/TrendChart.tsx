@@ -0,0 +1,74 @@
+"use client";
+
+import { useState } from "react";
+import type { AnalyticsTrendPoint } from "@/src/lib/types/social-media";
+import { formatCount, formatDay, formatRate } from "./format";
+
+type TrendMetric = "impressions" | "reach" | "engagement_rate";
+
+const METRICS: Array<{ value: TrendMetric; label: string }> = [
+  { value: "impressions", label: "Impressions" },
+  { value: "reach", label: "Reach" },
+  { value: "engagement_rate", label: "Engagement Rate" },
+];
+
+const WIDTH = 640;
+const HEIGHT = 180;
+const PAD = 8;
+
+/** Plain SVG line chart of one report metric over the snapshot days. */
+export function TrendChart({ trend }: { trend: AnalyticsTrendPoint[] }) {
+  const [metric, setMetric] = useState<TrendMetric>("impressions");
+
+  const values = trend.map((p) => (metric === "engagement_rate" ? p.engagement_rate ?? 0 : p[metric]));
+  const peak = Math.max(...values, 0);
+  const max = peak || 1;
+  const step = trend.length > 1 ? (WIDTH - PAD * 2) / (trend.length - 1) : 0;
+  const points = values.map((v, i) => ({
+    x: PAD + i * step,
+    y: HEIGHT - PAD - (v / max) * (HEIGHT - PAD * 2),
+  }));
+  const path = points.map((p, i) => `${i === 0 ? "M" : "L"}${p.x.toFixed(1)},${p.y.toFixed(1)}`).join(" ");
+  const format = (v: number) => (metric === "engagement_rate" ? formatRate(v) : formatCount(v));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-1.5">
+        {METRICS.map((m) => (
+          <button
+            key={m.value}
+            onClick={() => setMetric(m.value)}
+            className={[
+              "rounded-lg px-2.5 py-1 text-xs transition-colors border",
+              metric === m.value
+                ? "border-emerald-500/40 bg-emerald-500/10 text-emerald-300"
+                : "border-white/10 text-slate-400 hover:bg-white/[0.06]",
+            ].join(" ")}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+
+      {trend.length === 0 ? (
+        <div className="text-sm text-slate-500 py-8 text-center">No snapshots in this range yet.</div>
+      ) : (
+        <>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-44" preserveAspectRatio="none">
+            <path d={path} fill="none" stroke="currentColor" strokeWidth={2} className="text-emerald-400" vectorEffect="non-scaling-stroke" />
+            {points.map((p, i) => (
+              <circle key={trend[i].date} cx={p.x} cy={p.y} r={3} className="fill-emerald-400">
+                <title>{`${formatDay(trend[i].date)}: ${format(values[i])}`}</title>
+              </circle>
+            ))}
+          </svg>
+          <div className="flex justify-between text-xs text-slate-500">
+            <span>{formatDay(trend[0].date)}</span>
+            <span>Peak {format(peak)}</span>
+            <span>{formatDay(trend[trend.length - 1].date)}</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+/** Compact count for cards and tables (1.2K, 3.4M). */
+export function formatCount(n: number): string {
+  return new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 1 }).format(n);
+}
+
+/** Engagement rate (a fraction) as a percentage; "—" when unknown. */
+export function formatRate(rate: number | null): string {
+  return rate == null ? "—" : `${(rate * 100).toFixed(2)}%`;
+}
+
+/** YYYY-MM-DD → "Oct 19". */
+export function formatDay(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+}
@@ -11,6 +11,7 @@ const STEPS: { status: PostStatus; label: string }[] = [
 
 const REJECTED_STEP = { status: "rejected" as PostStatus, label: "Rejected" };
 const ARCHIVED_STEP = { status: "archived" as PostStatus, label: "Archived" };
+const PARTIAL_STEP = { status: "partially_published" as PostStatus, label: "Partially Published" };
 
 function getStepIndex(status: PostStatus): number {
   return STEPS.findIndex((s) => s.status === status);
@@ -27,12 +28,15 @@ interface ApprovalFlowIndicatorProps {
 export function ApprovalFlowIndicator({ status }: ApprovalFlowIndicatorProps) {
   const isRejected = status === "rejected";
   const isArchived = status === "archived";
-  const currentIdx = getStepIndex(status);
+  const isPartial = status === "partially_published";
+  const currentIdx = getStepIndex(isPartial ? "published" : status);
 
   const steps = isRejected
     ? [...STEPS.slice(0, 2), REJECTED_STEP]
     : isArchived
     ? [...STEPS, ARCHIVED_STEP]
+    : isPartial
+    ? [...STEPS.slice(0, -1), PARTIAL_STEP]
     : STEPS;
 
   return (
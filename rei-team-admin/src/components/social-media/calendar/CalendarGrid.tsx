@@ -62,8 +62,9 @@ export function CalendarGrid({
   const eventsByDate = useMemo<Record<string, CalendarEvent[]>>(() => {
     const map: Record<string, CalendarEvent[]> = {};
     for (const ev of events) {
-      if (!ev.scheduled_at) continue;
-      const key = ev.scheduled_at.slice(0, 10);
+      const at = ev.occurrence_at ?? ev.scheduled_at;
+      if (!at) continue;
+      const key = at.slice(0, 10);
       if (!map[key]) map[key] = [];
       map[key].push(ev);
     }
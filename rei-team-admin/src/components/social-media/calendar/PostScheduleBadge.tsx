@@ -7,6 +7,7 @@ const STATUS_CONFIG: Record<PostStatus, { label: string; className: string }> =
   approved: { label: "Approved", className: "bg-emerald-900/60 text-emerald-300" },
   scheduled: { label: "Scheduled", className: "bg-blue-900/60 text-blue-300" },
   published: { label: "Published", className: "bg-green-900/60 text-green-300" },
+  partially_published: { label: "Partial", className: "bg-orange-900/60 text-orange-300" },
   rejected: { label: "Rejected", className: "bg-red-900/60 text-red-300" },
   archived: { label: "Archived", className: "bg-gray-700 text-gray-400" },
 };
@@ -3,6 +3,7 @@ import { useState } from "react";
 import { Modal, Button, Input } from "@/src/components/ui";
 import type { CalendarEvent } from "@/src/lib/types/social-media";
 import { describeCron } from "@/src/lib/supabase/scheduling-queries";
+import { describeRRule, isRRule } from "@/src/lib/rrule";
 
 interface ReschedulePostModalProps {
   open: boolean;
@@ -144,7 +145,10 @@ export function ReschedulePostModal({
             </p>
             {event.schedule_type === "recurring" && event.recurrence_rule && (
               <p className="text-xs text-slate-500 mt-0.5">
-                Current: {describeCron(event.recurrence_rule)}
+                Current:{" "}
+                {isRRule(event.recurrence_rule)
+                  ? describeRRule(event.recurrence_rule)
+                  : describeCron(event.recurrence_rule)}
               </p>
             )}
           </div>
@@ -175,15 +179,18 @@ export function ReschedulePostModal({
               <>
                 <div>
                   <label className="block text-xs text-slate-400 mb-1.5">
-                    Cron Expression{" "}
-                    <span className="text-slate-600">(e.g. 0 9 * * 1 = every Monday at 09:00)</span>
+                    Recurrence Rule{" "}
+                    <span className="text-slate-600">(RRULE, in the timezone below)</span>
                   </label>
                   <Input
                     type="text"
-                    placeholder="0 9 * * 1"
+                    placeholder="FREQ=WEEKLY;BYDAY=MO,WE,FR;BYHOUR=9"
                     value={recurrenceRule}
                     onChange={(e) => setRecurrenceRule(e.target.value)}
                   />
+                  {isRRule(recurrenceRule) && (
+                    <p className="text-[11px] text-slate-500 mt-1">{describeRRule(recurrenceRule)}</p>
+                  )}
                 </div>
                 <div>
                   <label className="block text-xs text-slate-400 mb-1.5">
@@ -34,13 +34,13 @@ export function ScheduleList({ events, onSelect }: ScheduleListProps) {
   return (
     <ul className="space-y-1.5">
       {events.map((ev) => {
-        const time = formatTime(ev.scheduled_at, ev.timezone);
+        const time = formatTime(ev.occurrence_at ?? ev.scheduled_at, ev.timezone);
         const platformIcons = ev.target_platforms
           .map((p) => PLATFORM_CONFIGS[p as keyof typeof PLATFORM_CONFIGS]?.icon ?? p)
           .join(" ");
 
         return (
-          <li key={ev.schedule_id}>
+          <li key={`${ev.schedule_id}-${ev.occurrence_at ?? ""}`}>
             <button
               onClick={() => onSelect(ev)}
               className="w-full text-left rounded-lg border border-white/[0.06] bg-white/[0.03] px-2.5 py-1.5 hover:bg-white/[0.07] transition-colors"
@@ -2,6 +2,7 @@
 import { useState } from "react";
 import { Modal, Button, Input } from "@/src/components/ui";
 import type { ContentPost, NewContentSchedule, ScheduleType } from "@/src/lib/types/social-media";
+import { describeRRule, isRRule } from "@/src/lib/rrule";
 
 interface SchedulePostModalProps {
   open: boolean;
@@ -143,16 +144,19 @@ export function SchedulePostModal({
           <>
             <div>
               <label className="block text-xs text-slate-400 mb-1.5">
-                Cron Expression{" "}
-                <span className="text-slate-600">(e.g. 0 9 * * 1 = every Monday at 09:00)</span>
+                Recurrence Rule{" "}
+                <span className="text-slate-600">(RRULE, e.g. FREQ=WEEKLY;BYDAY=MO;BYHOUR=9 = every Monday at 09:00)</span>
               </label>
               <Input
                 type="text"
-                placeholder="0 9 * * 1"
+                placeholder="FREQ=WEEKLY;BYDAY=MO,WE,FR;BYHOUR=9"
                 value={recurrenceRule}
                 onChange={(e) => setRecurrenceRule(e.target.value)}
                 required
               />
+              {isRRule(recurrenceRule) && (
+                <p className="text-[11px] text-slate-500 mt-1">{describeRRule(recurrenceRule)}</p>
+              )}
             </div>
             <div>
               <label className="block text-xs text-slate-400 mb-1.5">
@@ -1,20 +1,14 @@
 "use client";
 
 import { ContentType, BrandVoice } from "@/src/lib/types/social-media";
+import { PLATFORM_ADAPTERS } from "@/src/lib/platforms/registry";
+import { textModels } from "@/src/lib/ai/models";
 
-const PLATFORMS = [
-  { value: "instagram", label: "Instagram" },
-  { value: "facebook", label: "Facebook" },
-  { value: "linkedin", label: "LinkedIn" },
-  { value: "tiktok", label: "TikTok" },
-  { value: "youtube", label: "YouTube" },
-  { value: "google_business", label: "Google Business" },
-];
+const PLATFORMS = PLATFORM_ADAPTERS.map((a) => ({ value: a.name, label: a.config.name }));
 
 const MODEL_OPTIONS = [
   { value: "", label: "Auto (based on content type)" },
-  { value: "gpt-4o", label: "GPT-4o" },
-  { value: "claude-sonnet", label: "Claude Sonnet" },
+  ...textModels().map((m) => ({ value: m.id, label: m.label })),
 ];
 
 type Props = {
@@ -6,11 +6,10 @@ import { Button, Input } from "@/src/components/ui";
 type Props = {
   postContent: string;
   currentImageUrl?: string;
-  userId: string;
   onImageGenerated: (url: string) => void;
 };
 
-export function ImageGenerator({ postContent, currentImageUrl, userId, onImageGenerated }: Props) {
+export function ImageGenerator({ postContent, currentImageUrl, onImageGenerated }: Props) {
   const [isGenerating, setIsGenerating] = useState(false);
   const [customPrompt, setCustomPrompt] = useState("");
   const [error, setError] = useState<string | null>(null);
@@ -25,7 +24,6 @@ export function ImageGenerator({ postContent, currentImageUrl, userId, onImageGe
         body: JSON.stringify({
           prompt: customPrompt || undefined,
           post_text: postContent,
-          generated_by: userId,
         }),
       });
       const data = await res.json();
@@ -1,22 +1,8 @@
 "use client";
 
-const PLATFORM_LIMITS: Record<string, number> = {
-  instagram: 2200,
-  facebook: 63206,
-  linkedin: 3000,
-  tiktok: 2200,
-  youtube: 5000,
-  google_business: 1500,
-};
+import { getPlatformAdapter } from "@/src/lib/platforms/registry";
 
-const PLATFORM_LABELS: Record<string, string> = {
-  instagram: "Instagram",
-  facebook: "Facebook",
-  linkedin: "LinkedIn",
-  tiktok: "TikTok",
-  youtube: "YouTube",
-  google_business: "Google Business",
-};
+const DEFAULT_LIMIT = 2200;
 
 type Props = {
   platform: string;
@@ -25,7 +11,8 @@ type Props = {
 };
 
 export function PlatformPreviewTab({ platform, content, imageUrl }: Props) {
-  const limit = PLATFORM_LIMITS[platform] ?? 2200;
+  const adapter = getPlatformAdapter(platform);
+  const limit = adapter?.capabilities.maxCharacters ?? DEFAULT_LIMIT;
   const charCount = content.length;
   const overLimit = charCount > limit;
   const pct = Math.min(charCount / limit, 1);
@@ -33,6 +20,20 @@ export function PlatformPreviewTab({ platform, content, imageUrl }: Props) {
   // Extract hashtags
   const hashtags = content.match(/#\w+/g) ?? [];
 
+  // Capability warnings
+  const warnings: string[] = [];
+  if (adapter) {
+    const { mediaTypes, allowsLinks } = adapter.capabilities;
+    if (!allowsLinks && /https?:\/\/\S+/i.test(content)) {
+      warnings.push(`Links are not clickable on ${adapter.config.name}`);
+    }
+    if (!imageUrl && !mediaTypes.includes("none")) {
+      warnings.push(`${adapter.config.name} requires ${mediaTypes.includes("image") ? "an image or video" : "a video"}`);
+    } else if (imageUrl && !mediaTypes.includes("image")) {
+      warnings.push(`${adapter.config.name} only accepts video`);
+    }
+  }
+
   return (
     <div className="space-y-3">
       {/* Mock post frame */}
@@ -42,7 +43,7 @@ export function PlatformPreviewTab({ platform, content, imageUrl }: Props) {
           <div className="w-8 h-8 rounded-full bg-emerald-600/30 border border-emerald-500/30 flex items-center justify-center text-xs text-emerald-400 font-bold">RE</div>
           <div>
             <div className="text-xs font-medium text-slate-200">REI Team</div>
-            <div className="text-xs text-slate-500">{PLATFORM_LABELS[platform]}</div>
+            <div className="text-xs text-slate-500">{adapter?.config.name ?? platform}</div>
           </div>
         </div>
 
@@ -87,6 +88,14 @@ export function PlatformPreviewTab({ platform, content, imageUrl }: Props) {
           />
         </div>
       </div>
+
+      {warnings.length > 0 && (
+        <ul className="space-y-0.5">
+          {warnings.map((w) => (
+            <li key={w} className="text-xs text-amber-400">⚠ {w}</li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 }
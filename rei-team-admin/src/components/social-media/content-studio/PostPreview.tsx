@@ -2,15 +2,7 @@
 
 import { useState, useEffect } from "react";
 import { PlatformPreviewTab } from "./PlatformPreviewTab";
-
-const PLATFORM_LABELS: Record<string, string> = {
-  instagram: "Instagram",
-  facebook: "Facebook",
-  linkedin: "LinkedIn",
-  tiktok: "TikTok",
-  youtube: "YouTube",
-  google_business: "Google",
-};
+import { getPlatformAdapter } from "@/src/lib/platforms/registry";
 
 type Props = {
   content: string;
@@ -51,7 +43,7 @@ export function PostPreview({ content, imageUrl, targetPlatforms, onEditContent
                 : "text-slate-400 hover:text-slate-200 bg-white/[0.04] hover:bg-white/[0.06]"
             }`}
           >
-            {PLATFORM_LABELS[p] ?? p}
+            {getPlatformAdapter(p)?.config.name ?? p}
           </button>
         ))}
       </div>
@@ -0,0 +1,80 @@
+"use client";
+
+import type { EngagementType, InboxFilter, SentimentType, SocialPlatformSummary } from "@/src/lib/types/social-media";
+import { Button } from "@/src/components/ui";
+import { PLATFORM_CONFIGS } from "../platform-config";
+
+export const ENGAGEMENT_TYPE_LABELS: Record<EngagementType, string> = {
+  comment: "Comment",
+  dm: "Message",
+  mention: "Mention",
+  review: "Review",
+};
+
+const SENTIMENTS: SentimentType[] = ["positive", "neutral", "negative"];
+
+interface InboxFiltersProps {
+  filter: InboxFilter;
+  platforms: SocialPlatformSummary[];
+  onChange: (filter: InboxFilter) => void;
+}
+
+export function InboxFilters({ filter, platforms, onChange }: InboxFiltersProps) {
+  const selectClass = "rounded border border-white/10 px-2 py-1 text-xs bg-base text-slate-300";
+  const hasFilters = !!(filter.platformId || filter.type || filter.sentiment || filter.unreadOnly);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={filter.platformId ?? ""}
+        onChange={(e) => onChange({ ...filter, platformId: e.target.value || undefined })}
+        className={selectClass}
+      >
+        <option value="">All platforms</option>
+        {platforms.map((p) => (
+          <option key={p.id} value={p.id}>
+            {PLATFORM_CONFIGS[p.platform_name as keyof typeof PLATFORM_CONFIGS]?.name ?? p.platform_name}
+            {p.account_name ? ` — ${p.account_name}` : ""}
+          </option>
+        ))}
+      </select>
+      <select
+        value={filter.type ?? ""}
+        onChange={(e) => onChange({ ...filter, type: (e.target.value || undefined) as EngagementType | undefined })}
+        className={selectClass}
+      >
+        <option value="">All types</option>
+        {(Object.keys(ENGAGEMENT_TYPE_LABELS) as EngagementType[]).map((t) => (
+          <option key={t} value={t}>
+            {ENGAGEMENT_TYPE_LABELS[t]}
+          </option>
+        ))}
+      </select>
+      <select
+        value={filter.sentiment ?? ""}
+        onChange={(e) => onChange({ ...filter, sentiment: (e.target.value || undefined) as SentimentType | undefined })}
+        className={selectClass}
+      >
+        <option value="">Any sentiment</option>
+        {SENTIMENTS.map((s) => (
+          <option key={s} value={s}>
+            {s.charAt(0).toUpperCase() + s.slice(1)}
+          </option>
+        ))}
+      </select>
+      <label className="flex items-center gap-1.5 text-xs text-slate-300">
+        <input
+          type="checkbox"
+          checked={!!filter.unreadOnly}
+          onChange={(e) => onChange({ ...filter, unreadOnly: e.target.checked || undefined })}
+        />
+        Unread only
+      </label>
+      {hasFilters && (
+        <Button variant="ghost" onClick={() => onChange({})} className="text-xs px-2 py-1">
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import type { SentimentType } from "@/src/lib/types/social-media";
+
+const SENTIMENT_CONFIG: Record<SentimentType, { label: string; className: string }> = {
+  positive: { label: "Positive", className: "bg-emerald-900/60 text-emerald-300" },
+  neutral: { label: "Neutral", className: "bg-slate-700 text-slate-300" },
+  negative: { label: "Negative", className: "bg-red-900/60 text-red-300" },
+};
+
+export function SentimentBadge({ sentiment }: { sentiment: SentimentType | null }) {
+  if (!sentiment) return null;
+  const config = SENTIMENT_CONFIG[sentiment];
+  return (
+    <span className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${config.className}`}>
+      {config.label}
+    </span>
+  );
+}
@@ -0,0 +1,59 @@
+"use client";
+
+import { prettyDate } from "@/src/lib/format";
+import { PLATFORM_CONFIGS } from "../platform-config";
+import { ENGAGEMENT_TYPE_LABELS } from "./InboxFilters";
+import { SentimentBadge } from "./SentimentBadge";
+import type { InboxThread } from "./threads";
+
+interface ThreadListProps {
+  threads: InboxThread[];
+  selectedKey: string | null;
+  onSelect: (key: string) => void;
+}
+
+export function ThreadList({ threads, selectedKey, onSelect }: ThreadListProps) {
+  if (threads.length === 0) {
+    return <div className="px-4 py-8 text-center text-sm text-slate-500">Nothing in the inbox.</div>;
+  }
+
+  return (
+    <ul className="divide-y divide-white/[0.04]">
+      {threads.map((thread) => {
+        const { latest } = thread;
+        const config = PLATFORM_CONFIGS[latest.platform?.platform_name as keyof typeof PLATFORM_CONFIGS];
+        return (
+          <li key={thread.key}>
+            <button
+              onClick={() => onSelect(thread.key)}
+              className={[
+                "w-full text-left px-4 py-3 transition-colors",
+                selectedKey === thread.key ? "bg-white/[0.06]" : "hover:bg-white/[0.03]",
+              ].join(" ")}
+            >
+              <div className="flex items-center gap-2 text-xs text-slate-400">
+                <span>{config?.icon ?? "💬"}</span>
+                <span>{ENGAGEMENT_TYPE_LABELS[latest.type]}</span>
+                {thread.items.length > 1 && <span>· {thread.items.length}</span>}
+                <span className="ml-auto">{prettyDate(latest.received_at)}</span>
+              </div>
+              <div className="mt-1 flex items-center gap-2">
+                <span className={`text-sm truncate ${thread.unread ? "font-semibold text-slate-100" : "text-slate-300"}`}>
+                  {latest.author_name}
+                </span>
+                {thread.unread > 0 && <span className="h-2 w-2 rounded-full bg-emerald-400 shrink-0" />}
+                {latest.is_replied && <span className="text-xs text-slate-500">Replied</span>}
+              </div>
+              <div className="mt-0.5 text-xs text-slate-400 line-clamp-2">{latest.content}</div>
+              {latest.sentiment && (
+                <div className="mt-1.5">
+                  <SentimentBadge sentiment={latest.sentiment} />
+                </div>
+              )}
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
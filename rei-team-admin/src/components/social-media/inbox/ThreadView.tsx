@@ -0,0 +1,164 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Button, Textarea } from "@/src/components/ui";
+import { prettyDate } from "@/src/lib/format";
+import type { EngagementReply } from "@/src/lib/types/social-media";
+import { PLATFORM_CONFIGS } from "../platform-config";
+import { ENGAGEMENT_TYPE_LABELS } from "./InboxFilters";
+import { SentimentBadge } from "./SentimentBadge";
+import type { InboxThread } from "./threads";
+
+interface ThreadViewProps {
+  thread: InboxThread;
+  replies: EngagementReply[];
+  onReplied: () => void;
+}
+
+export function ThreadView({ thread, replies, onReplied }: ThreadViewProps) {
+  const [targetId, setTargetId] = useState(thread.latest.id);
+  const [draft, setDraft] = useState("");
+  const [sending, setSending] = useState(false);
+  const [drafting, setDrafting] = useState(false);
+  /** Set while the composer holds an AI draft (edited or not). */
+  const [aiDraft, setAiDraft] = useState<{ model: string; voice: string | null } | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    setTargetId(thread.latest.id);
+    setDraft("");
+    setAiDraft(null);
+    setError("");
+  }, [thread.key, thread.latest.id]);
+
+  const { latest } = thread;
+  const config = PLATFORM_CONFIGS[latest.platform?.platform_name as keyof typeof PLATFORM_CONFIGS];
+  const post = thread.items.find((i) => i.post)?.post ?? null;
+  const target = thread.items.find((i) => i.id === targetId) ?? latest;
+
+  async function handleDraft() {
+    setDrafting(true);
+    setError("");
+    try {
+      const res = await fetch(`/api/inbox/${target.id}/draft`, { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Failed to draft a reply");
+      setDraft(data.text);
+      setAiDraft({ model: data.model, voice: data.brand_voice?.name ?? null });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setDrafting(false);
+    }
+  }
+
+  async function handleSend() {
+    if (!draft.trim()) return;
+    setSending(true);
+    setError("");
+    try {
+      const res = await fetch(`/api/inbox/${target.id}/reply`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          reply_content: draft,
+          is_ai_generated: !!aiDraft,
+          ai_model_used: aiDraft?.model ?? null,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Failed to send reply");
+      setDraft("");
+      setAiDraft(null);
+      onReplied();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSending(false);
+    }
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="px-5 py-3 border-b border-white/[0.06]">
+        <div className="text-sm font-medium text-slate-100">
+          {config ? `${config.icon} ${config.name}` : latest.platform?.platform_name} ·{" "}
+          {ENGAGEMENT_TYPE_LABELS[latest.type]}
+          {latest.type === "dm" && ` with ${latest.author_name}`}
+        </div>
+        {post ? (
+          <Link href={`/social-media/library/${post.id}`} className="text-xs text-emerald-400 hover:text-emerald-300">
+            On your post: {post.title || post.body.slice(0, 80)}
+          </Link>
+        ) : latest.platform_post_id ? (
+          <div className="text-xs text-slate-500">On a post published outside the Command Center</div>
+        ) : null}
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-5 py-4 space-y-4">
+        {thread.items.map((item) => (
+          <div key={item.id} className="space-y-2">
+            <div
+              className={[
+                "rounded-lg border p-3",
+                item.id === target.id ? "border-emerald-500/30 bg-emerald-500/[0.04]" : "border-white/[0.06] bg-white/[0.02]",
+              ].join(" ")}
+            >
+              <div className="flex items-center gap-2 text-xs text-slate-400">
+                <span className="font-medium text-slate-200">{item.author_name}</span>
+                <span>{prettyDate(item.received_at)}</span>
+                <SentimentBadge sentiment={item.sentiment} />
+                {thread.items.length > 1 && item.id !== target.id && (
+                  <button onClick={() => setTargetId(item.id)} className="ml-auto text-slate-400 hover:text-slate-200">
+                    Reply to this
+                  </button>
+                )}
+              </div>
+              <div className="mt-1.5 text-sm text-slate-200 whitespace-pre-wrap">{item.content}</div>
+            </div>
+
+            {replies
+              .filter((r) => r.inbox_item_id === item.id)
+              .map((reply) => (
+                <div key={reply.id} className="ml-6 rounded-lg border border-blue-500/20 bg-blue-500/[0.06] p-3">
+                  <div className="flex items-center gap-2 text-xs text-slate-400">
+                    <span className="font-medium text-blue-300">You replied</span>
+                    <span>{prettyDate(reply.sent_at)}</span>
+                    {reply.is_ai_generated && <span className="text-purple-300">AI draft</span>}
+                  </div>
+                  <div className="mt-1.5 text-sm text-slate-200 whitespace-pre-wrap">{reply.reply_content}</div>
+                </div>
+              ))}
+          </div>
+        ))}
+      </div>
+
+      <div className="border-t border-white/[0.06] px-5 py-3 space-y-2">
+        <div className="flex items-center gap-2 text-xs text-slate-500">
+          {thread.items.length > 1 && <span>Replying to {target.author_name}</span>}
+          {aiDraft && (
+            <span className="text-purple-300">
+              AI draft{aiDraft.voice ? ` · ${aiDraft.voice} voice` : ""} — review before sending
+            </span>
+          )}
+        </div>
+        <Textarea
+          rows={3}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder={`Reply on ${config?.name ?? "the platform"}…`}
+        />
+        {error && <div className="text-xs text-red-400">{error}</div>}
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={handleDraft} disabled={drafting || sending}>
+            {drafting ? "Drafting…" : aiDraft ? "Redraft with AI" : "Draft with AI"}
+          </Button>
+          <Button onClick={handleSend} disabled={sending || !draft.trim()}>
+            {sending ? "Sending…" : "Send Reply"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import type { EngagementInboxItemWithPlatform } from "@/src/lib/types/social-media";
+
+/** Inbox items that belong together: one DM conversation, or all comments on one post. */
+export interface InboxThread {
+  key: string;
+  /** Oldest first. */
+  items: EngagementInboxItemWithPlatform[];
+  latest: EngagementInboxItemWithPlatform;
+  unread: number;
+}
+
+function threadKey(item: EngagementInboxItemWithPlatform): string {
+  if (item.platform_thread_id) return `thread:${item.platform_id}:${item.platform_thread_id}`;
+  if (item.platform_post_id) return `post:${item.platform_id}:${item.platform_post_id}`;
+  return `item:${item.id}`;
+}
+
+/** Group items into threads, most recently active first. */
+export function groupThreads(items: EngagementInboxItemWithPlatform[]): InboxThread[] {
+  const groups = new Map<string, EngagementInboxItemWithPlatform[]>();
+  for (const item of items) {
+    const key = threadKey(item);
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  }
+
+  return Array.from(groups, ([key, group]) => {
+    const sorted = [...group].sort((a, b) => a.received_at.localeCompare(b.received_at));
+    return {
+      key,
+      items: sorted,
+      latest: sorted[sorted.length - 1],
+      unread: sorted.filter((i) => !i.is_read).length,
+    };
+  }).sort((a, b) => b.latest.received_at.localeCompare(a.latest.received_at));
+}
@@ -18,6 +18,7 @@ const STATUS_OPTIONS = [
   { value: "approved", label: "Approved" },
   { value: "scheduled", label: "Scheduled" },
   { value: "published", label: "Published" },
+  { value: "partially_published", label: "Partially Published" },
   { value: "rejected", label: "Rejected" },
   { value: "archived", label: "Archived" },
 ];
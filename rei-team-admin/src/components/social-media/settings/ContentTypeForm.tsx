@@ -2,11 +2,9 @@
 import { useState } from "react";
 import { Input, Textarea, Button } from "@/src/components/ui";
 import type { ContentType, BrandVoice } from "@/src/lib/types/social-media";
+import { DEFAULT_TEXT_MODEL, textModels } from "@/src/lib/ai/models";
 
-const AI_MODELS = [
-  { value: "gpt-4o", label: "GPT-4o" },
-  { value: "claude-sonnet-4-5", label: "Claude Sonnet 4.5" },
-];
+const AI_MODELS = textModels().map((m) => ({ value: m.id, label: m.label }));
 
 export function ContentTypeForm({
   initial,
@@ -24,7 +22,7 @@ export function ContentTypeForm({
     description: initial?.description ?? "",
     icon: initial?.icon ?? "",
     default_brand_voice_id: initial?.default_brand_voice_id ?? "",
-    default_ai_model: initial?.default_ai_model ?? "gpt-4o",
+    default_ai_model: initial?.default_ai_model ?? DEFAULT_TEXT_MODEL,
     is_active: initial?.is_active ?? true,
   });
   const [loading, setLoading] = useState(false);
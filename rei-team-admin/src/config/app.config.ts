@@ -10,7 +10,14 @@ export const NAV_ITEMS: NavItem[] = [
   { label: "Home", href: "/home" },
   { label: "Meetings", href: "/meetings" },
   { label: "Media Posting", href: "/media-posting" },
-  { label: "Sales Funnel", href: "/sales-funnel" },
+  {
+    label: "Sales Funnel",
+    href: "/sales-funnel",
+    children: [
+      { label: "Board", href: "/sales-funnel" },
+      { label: "Forecast", href: "/sales-funnel/forecast" },
+    ],
+  },
   {
     label: "Social Media",
     href: "/social-media",
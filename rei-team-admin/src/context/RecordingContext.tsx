@@ -1,7 +1,18 @@
 "use client";
 
 import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from "react";
-import { supabaseBrowser } from "@/src/lib/supabase/browser";
+import {
+  CHUNK_BYTES,
+  deleteSessionSegments,
+  listSegments,
+  retryDelayMs,
+  saveSegment,
+  toSegmentUpload,
+  updateSegment,
+  uploadQueuedSegment,
+  type QueuedSegment,
+  type SegmentUpload,
+} from "@/src/lib/meetings/upload-queue";
 
 type StreamWithCleanup = MediaStream & {
   _cleanupTracks?: MediaStreamTrack[];
@@ -16,6 +27,8 @@ type RecordingState = {
   activeMeetingId: string | null;
   activeSessionId: string | null;
   activeMeetingTitle: string | null;
+  /** Every recording segment in the local upload queue, oldest first. */
+  uploads: SegmentUpload[];
 };
 
 type RecordingActions = {
@@ -27,7 +40,14 @@ type RecordingActions = {
     includeSystemAudio?: boolean;
   }) => Promise<void>;
   stopRecordingAndUpload: () => Promise<{ recordingPath: string } | null>;
-  concludeMeeting: () => Promise<void>;
+  /**
+   * Stop recording and wait for the session's segments to upload.  Throws if
+   * any segment isn't stored yet; resolves with the number of stored segments.
+   */
+  concludeMeeting: (sessionId: string) => Promise<{ storedSegments: number }>;
+  /** Drop a concluded session's segments from the local queue. */
+  clearUploads: (sessionId: string) => Promise<void>;
+  retryUploads: () => void;
   clearError: () => void;
 };
 
@@ -41,45 +61,6 @@ export function useRecording(): RecordingContextValue {
   return ctx;
 }
 
-/**
- * Upload a blob to the recording API. Returns the storage path or null on failure.
- * This is a pure helper — no state side-effects.
- */
-async function uploadSegment(
-  blob: Blob,
-  meetingId: string,
-  sessionId: string,
-  durationSeconds: number
-): Promise<string | null> {
-  try {
-    const form = new FormData();
-    form.append("meetingId", meetingId);
-    form.append("sessionId", sessionId);
-    form.append("durationSeconds", String(durationSeconds));
-    try {
-      const sb = supabaseBrowser();
-      const u = await sb.auth.getUser();
-      const uid = u.data?.user?.id || "";
-      if (uid) form.append("userId", uid);
-    } catch {
-      // ignore auth errors during upload
-    }
-    form.append("file", blob, `segment_${Date.now()}.webm`);
-
-    const res = await fetch("/api/meetings/ai/upload-recording", { method: "POST", body: form });
-    if (!res.ok) {
-      const j = await res.json().catch(() => ({}));
-      console.error("Segment upload failed:", j?.error || res.statusText);
-      return null;
-    }
-    const j = await res.json().catch(() => ({}));
-    return j?.recordingPath || null;
-  } catch (e) {
-    console.error("Segment upload error:", e);
-    return null;
-  }
-}
-
 export function RecordingProvider({ children }: { children: React.ReactNode }) {
   const [isRecording, setIsRecording] = useState(false);
   const [recSeconds, setRecSeconds] = useState(0);
@@ -94,8 +75,12 @@ export function RecordingProvider({ children }: { children: React.ReactNode }) {
   const tickRef = useRef<number | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const segmentTimerRef = useRef<number | null>(null);
-  const lastUploadedPathRef = useRef<string | null>(null);
+  const segmentStartedAtRef = useRef<number>(0);
+  const segmentIndexRef = useRef(0);
   const isRotatingRef = useRef(false);
+  const [uploads, setUploads] = useState<SegmentUpload[]>([]);
+  const drainingRef = useRef<Promise<void> | null>(null);
+  const retryTimerRef = useRef<number | null>(null);
   /** Minimum allowed segment length to avoid excessively small uploads. */
   const MIN_SEGMENT_SECONDS = 60;
 
@@ -141,9 +126,143 @@ export function RecordingProvider({ children }: { children: React.ReactNode }) {
     return () => window.removeEventListener("beforeunload", handler);
   }, [isRecording]);
 
+  const setUpload = useCallback((segment: QueuedSegment) => {
+    const row = toSegmentUpload(segment);
+    setUploads((prev) =>
+      prev.some((u) => u.id === row.id) ? prev.map((u) => (u.id === row.id ? row : u)) : [...prev, row]
+    );
+  }, []);
+
+  /**
+   * Upload every queued segment that isn't stored yet, one at a time.  Failed
+   * segments stay in IndexedDB and are retried with backoff, when the browser
+   * comes back online, or on the next page load.
+   */
+  const drainQueue = useCallback((): Promise<void> => {
+    if (drainingRef.current) return drainingRef.current;
+
+    const run = async () => {
+      if (retryTimerRef.current) {
+        window.clearTimeout(retryTimerRef.current);
+        retryTimerRef.current = null;
+      }
+      let nextRetryAttempts = 0;
+      const attempted = new Set<string>();
+
+      // Segments queued while this runs are picked up before it finishes.
+      for (;;) {
+        const queued = (await listSegments()).filter((seg) => seg.status !== "stored" && !attempted.has(seg.id));
+        if (!queued.length || !navigator.onLine) break;
+        const queuedSegment = queued[0];
+        attempted.add(queuedSegment.id);
+        const segment = await updateSegment(queuedSegment.id, { status: "uploading", error: null });
+        if (!segment) continue;
+        setUpload(segment);
+
+        try {
+          const recordingPath = await uploadQueuedSegment(segment, (uploadedChunks) => {
+            setUpload({ ...segment, uploadedChunks });
+          });
+          const stored = await updateSegment(segment.id, {
+            status: "stored",
+            recordingPath,
+            blob: null,
+            uploadedChunks: Math.max(1, Math.ceil(segment.size / segment.chunkSize)),
+          });
+          if (stored) setUpload(stored);
+        } catch (e: unknown) {
+          console.error("Segment upload failed:", e);
+          const failed = await updateSegment(segment.id, {
+            status: "failed",
+            error: (e as Error)?.message ?? "Upload failed",
+            attempts: segment.attempts + 1,
+          });
+          if (failed) {
+            setUpload(failed);
+            nextRetryAttempts = nextRetryAttempts ? Math.min(nextRetryAttempts, failed.attempts) : failed.attempts;
+          }
+        }
+      }
+
+      if (nextRetryAttempts) {
+        retryTimerRef.current = window.setTimeout(() => void drainQueue(), retryDelayMs(nextRetryAttempts));
+      }
+    };
+
+    drainingRef.current = run()
+      .catch((e: unknown) => console.error("Upload queue error:", e))
+      .finally(() => {
+        drainingRef.current = null;
+      });
+    return drainingRef.current;
+  }, [setUpload]);
+
+  /** Save a finished segment to the local queue, then upload it in the background. */
+  const enqueueSegment = useCallback(
+    async (blob: Blob, meetingId: string, sessionId: string, startedAt: number) => {
+      segmentIndexRef.current += 1;
+      const segment: QueuedSegment = {
+        id: crypto.randomUUID(),
+        meetingId,
+        sessionId,
+        segmentIndex: segmentIndexRef.current,
+        recordedAt: new Date(startedAt).toISOString(),
+        durationSeconds: Math.max(1, Math.round((Date.now() - startedAt) / 1000)),
+        size: blob.size,
+        chunkSize: CHUNK_BYTES,
+        blob,
+        status: "pending",
+        uploadedChunks: 0,
+        recordingPath: null,
+        error: null,
+        attempts: 0,
+        updatedAt: new Date().toISOString(),
+      };
+      try {
+        await saveSegment(segment);
+      } catch (e) {
+        // Without IndexedDB (e.g. private browsing) the segment is only kept in memory for this attempt.
+        console.error("Could not save segment to the upload queue:", e);
+        setUpload(segment);
+        try {
+          const recordingPath = await uploadQueuedSegment(segment, () => undefined);
+          setUpload({ ...segment, status: "stored", recordingPath });
+        } catch (uploadError) {
+          setUpload({ ...segment, status: "failed", error: (uploadError as Error)?.message ?? "Upload failed" });
+        }
+        return segment.id;
+      }
+      setUpload(segment);
+      await drainQueue();
+      return segment.id;
+    },
+    [drainQueue, setUpload]
+  );
+
+  // Resume uploads left over from a previous page load, and retry whenever
+  // the browser comes back online.
+  useEffect(() => {
+    let cancelled = false;
+    listSegments()
+      .then((rows) => {
+        if (cancelled) return;
+        setUploads(rows.map(toSegmentUpload));
+        void drainQueue();
+      })
+      .catch((e: unknown) => console.error("Could not read the upload queue:", e));
+
+    const onOnline = () => void drainQueue();
+    window.addEventListener("online", onOnline);
+    return () => {
+      cancelled = true;
+      window.removeEventListener("online", onOnline);
+      if (retryTimerRef.current) window.clearTimeout(retryTimerRef.current);
+    };
+  }, [drainQueue]);
+
   /**
    * Rotate segment: stop current MediaRecorder, start a new one on the same
-   * audio stream, and upload the harvested chunks in the background.
+   * audio stream, and queue the harvested chunks for upload in the background.
    * isRecording / recSeconds / tick timer are NOT touched — the user sees
    * uninterrupted recording throughout.
    */
@@ -178,29 +297,22 @@ export function RecordingProvider({ children }: { children: React.ReactNode }) {
       };
       newMr.start(1000);
       mediaRecorderRef.current = newMr;
+      const segmentStartedAt = segmentStartedAtRef.current;
+      segmentStartedAtRef.current = Date.now();
 
       // 5. Wait for old recorder's final flush to complete
       await stopped;
 
-      // 6. Combine old chunks + final flush and upload in background
+      // 6. Combine old chunks + final flush and queue for upload in background
       const allOldChunks = [...segmentChunks, ...finalFlushChunks];
       if (allOldChunks.length === 0) return;
 
       const blob = new Blob(allOldChunks, { type: "audio/webm" });
       const meetingId = activeMeetingIdRef.current;
       const sessionId = activeSessionIdRef.current;
-      const segSec = Math.max(
-        MIN_SEGMENT_SECONDS,
-        Number(process.env.NEXT_PUBLIC_RECORDING_SEGMENT_SECONDS || "240")
-      );
 
       if (meetingId && sessionId) {
-        const path = await uploadSegment(blob, meetingId, sessionId, segSec);
-        if (path) {
-          lastUploadedPathRef.current = path;
-        } else {
-          console.warn("Segment upload failed; recording continues.");
-        }
+        void enqueueSegment(blob, meetingId, sessionId, segmentStartedAt);
       }
     } catch (e) {
       console.error("Segment rotation error:", e);
@@ -223,7 +335,7 @@ export function RecordingProvider({ children }: { children: React.ReactNode }) {
     } finally {
       isRotatingRef.current = false;
     }
-  }, []);
+  }, [enqueueSegment]);
 
   const stopRecordingAndUpload = useCallback(async (): Promise<{ recordingPath: string } | null> => {
     if (!mediaRecorderRef.current) return null;
@@ -282,26 +394,25 @@ export function RecordingProvider({ children }: { children: React.ReactNode }) {
 
       const currentMeetingId = activeMeetingIdRef.current;
       const currentSessionId = activeSessionIdRef.current;
-      const currentSeconds = recSecondsRef.current;
 
       if (!currentMeetingId || !currentSessionId) {
         throw new Error("No active meeting/session for upload.");
       }
 
-      // If all data was already uploaded via segment rotation and nothing remains,
-      // return the last successful path. A zero-size blob with no prior upload
-      // indicates an error (e.g., no audio was ever captured).
+      // If all data was already queued via segment rotation and nothing
+      // remains, there is nothing more to upload. A zero-size blob with no
+      // earlier segment indicates an error (e.g., no audio was ever captured).
       if (blob.size === 0) {
-        if (lastUploadedPathRef.current) {
-          return { recordingPath: lastUploadedPathRef.current };
-        }
+        if (segmentIndexRef.current > 0) return null;
         throw new Error("Recording produced no audio data");
       }
 
-      const path = await uploadSegment(blob, currentMeetingId, currentSessionId, currentSeconds);
-      if (!path) throw new Error("Recording upload failed");
-
-      return { recordingPath: path };
+      // The segment is safe in the local queue even if this upload attempt
+      // fails; the widget shows its state and it is retried automatically.
+      const id = await enqueueSegment(blob, currentMeetingId, currentSessionId, segmentStartedAtRef.current);
+      const rows = await listSegments(currentSessionId).catch(() => []);
+      const path = rows.find((r) => r.id === id)?.recordingPath;
+      return path ? { recordingPath: path } : null;
     } catch (e: unknown) {
       const error = e as Error;
       setRecErr(error?.message ?? "Upload failed");
@@ -309,7 +420,7 @@ export function RecordingProvider({ children }: { children: React.ReactNode }) {
     } finally {
       setRecBusy(false);
     }
-  }, []);
+  }, [enqueueSegment]);
 
   const startRecording = useCallback(
     async ({ meetingId, sessionId, meetingTitle, audioDeviceId, includeSystemAudio }: {
@@ -360,7 +471,11 @@ export function RecordingProvider({ children }: { children: React.ReactNode }) {
         const mr = new MediaRecorder(finalStream);
 
         chunksRef.current = [];
-        lastUploadedPathRef.current = null;
+        // Continue segment numbering after segments already queued for this session.
+        segmentIndexRef.current = (await listSegments(sessionId).catch(() => [])).reduce(
+          (max, seg) => Math.max(max, seg.segmentIndex),
+          0
+        );
         mr.ondataavailable = (e) => {
           if (e.data && e.data.size > 0) chunksRef.current.push(e.data);
         };
@@ -371,6 +486,7 @@ export function RecordingProvider({ children }: { children: React.ReactNode }) {
 
         mr.start(1000);
         mediaRecorderRef.current = mr;
+        segmentStartedAtRef.current = Date.now();
 
         setActiveMeetingId(meetingId);
         setActiveSessionId(sessionId);
@@ -414,20 +530,42 @@ export function RecordingProvider({ children }: { children: React.ReactNode }) {
     [stopRecordingAndUpload, rotateSegment]
   );
 
-  const concludeMeeting = useCallback(async () => {
-    if (isRecording) {
-      await stopRecordingAndUpload();
-    }
+  const concludeMeeting = useCallback(
+    async (sessionId: string) => {
+      if (isRecording) {
+        await stopRecordingAndUpload();
+      }
+
+      // Reset recording state
+      setActiveMeetingId(null);
+      setActiveSessionId(null);
+      setActiveMeetingTitle(null);
+      setIsRecording(false);
+      setRecSeconds(0);
+      recSecondsRef.current = 0;
+      segmentIndexRef.current = 0;
+
+      // Give queued segments one more upload attempt before checking.
+      await drainQueue();
+      const segments = await listSegments(sessionId).catch(() => []);
+      const pending = segments.filter((seg) => seg.status !== "stored");
+      if (pending.length > 0) {
+        throw new Error(
+          `${pending.length} recording segment${pending.length === 1 ? " hasn't" : "s haven't"} finished uploading. ` +
+            "They are saved on this device and retry automatically; conclude the meeting once they are stored."
+        );
+      }
+      return { storedSegments: segments.length };
+    },
+    [isRecording, stopRecordingAndUpload, drainQueue]
+  );
+
+  const clearUploads = useCallback(async (sessionId: string) => {
+    await deleteSessionSegments(sessionId).catch((e: unknown) => console.error("Could not clear the upload queue:", e));
+    setUploads((prev) => prev.filter((u) => u.sessionId !== sessionId));
+  }, []);
 
-    // Reset recording state
-    setActiveMeetingId(null);
-    setActiveSessionId(null);
-    setActiveMeetingTitle(null);
-    setIsRecording(false);
-    setRecSeconds(0);
-    recSecondsRef.current = 0;
-    lastUploadedPathRef.current = null;
-  }, [isRecording, stopRecordingAndUpload]);
+  const retryUploads = useCallback(() => void drainQueue(), [drainQueue]);
 
   const clearError = useCallback(() => setRecErr(null), []);
 
@@ -441,9 +579,12 @@ export function RecordingProvider({ children }: { children: React.ReactNode }) {
         activeMeetingId,
         activeSessionId,
         activeMeetingTitle,
+        uploads,
         startRecording,
         stopRecordingAndUpload,
         concludeMeeting,
+        clearUploads,
+        retryUploads,
         clearError,
       }}
     >
@@ -0,0 +1,264 @@
+/**
+ * client.ts
+ * The one server-side entry point for AI calls.
+ *
+ * `generateText`, `generateImage` and `transcribeAudio` route a call to the
+ * provider that serves the requested catalog model (models.ts), and return
+ * the output together with its token usage and USD cost.  `logGeneration`
+ * writes that to `ai_generation_history`; every call site logs through it so
+ * the history carries real per-model costs.
+ *
+ * Server-only: reads OPENAI_API_KEY / ANTHROPIC_API_KEY.
+ */
+
+import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import { supabaseAdmin } from '@/src/lib/supabase/admin';
+import { estimateCost, getAiModel, type AiModel, type AiProvider } from '@/src/lib/ai/models';
+import type { NewAiGenerationHistory } from '@/src/lib/types/social-media';
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Types
+// ──────────────────────────────────────────────────────────────────────────────
+
+/** Thrown when the provider's API key is not configured; routes answer 503 `setup_required`. */
+export class AiConfigError extends Error {
+  constructor(readonly envName: string, provider: string) {
+    super(`${provider} API key not configured. Please set ${envName} in your environment variables.`);
+    this.name = 'AiConfigError';
+  }
+}
+
+export interface AiUsage {
+  inputTokens: number;
+  outputTokens: number;
+  images?: number;
+}
+
+export interface AiCallResult {
+  model: AiModel;
+  usage: AiUsage;
+  costUsd: number;
+}
+
+export interface TextGeneration extends AiCallResult {
+  text: string;
+}
+
+export interface GenerateTextOptions {
+  /** Catalog model (or its ID / alias). */
+  model: AiModel | string;
+  system?: string;
+  prompt: string;
+  maxTokens?: number;
+  temperature?: number;
+  /**
+   * Request JSON output.  `true` asks for any JSON object; a schema is
+   * enforced by OpenAI and passed to Claude as an instruction.
+   */
+  json?: true | { name: string; schema: Record<string, unknown> };
+}
+
+const DEFAULT_MAX_TOKENS = 1024;
+
+const PROVIDER_KEYS: Record<AiProvider, { env: string; name: string }> = {
+  openai: { env: 'OPENAI_API_KEY', name: 'OpenAI' },
+  anthropic: { env: 'ANTHROPIC_API_KEY', name: 'Anthropic' },
+};
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Providers
+// ──────────────────────────────────────────────────────────────────────────────
+
+function apiKey(provider: AiProvider): string {
+  const { env, name } = PROVIDER_KEYS[provider];
+  const key = process.env[env];
+  if (!key) throw new AiConfigError(env, name);
+  return key;
+}
+
+function openai(): OpenAI {
+  return new OpenAI({ apiKey: apiKey('openai') });
+}
+
+function anthropic(): Anthropic {
+  return new Anthropic({ apiKey: apiKey('anthropic') });
+}
+
+function catalogModel(model: AiModel | string): AiModel {
+  if (typeof model !== 'string') return model;
+  const found = getAiModel(model);
+  if (!found) throw new Error(`Unknown AI model: ${model}`);
+  return found;
+}
+
+function result(model: AiModel, usage: AiUsage): AiCallResult {
+  return { model, usage, costUsd: estimateCost(model, usage) };
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Calls
+// ──────────────────────────────────────────────────────────────────────────────
+
+export async function generateText(opts: GenerateTextOptions): Promise<TextGeneration> {
+  const model = catalogModel(opts.model);
+
+  if (model.provider === 'anthropic') {
+    const schemaHint =
+      opts.json && opts.json !== true
+        ? `Respond with JSON only, matching this JSON Schema:\n${JSON.stringify(opts.json.schema)}`
+        : opts.json
+          ? 'Respond with a JSON object only.'
+          : '';
+    const system = [opts.system, schemaHint].filter(Boolean).join('\n\n');
+    const response = await anthropic().messages.create({
+      model: model.id,
+      // Anthropic requires a limit; OpenAI defaults to the model's maximum.
+      max_tokens: Math.min(opts.maxTokens ?? DEFAULT_MAX_TOKENS, model.maxOutputTokens),
+      ...(system ? { system } : {}),
+      ...(opts.temperature !== undefined ? { temperature: opts.temperature } : {}),
+      messages: [{ role: 'user', content: opts.prompt }],
+    });
+    const text = response.content
+      .map((block) => (block.type === 'text' ? block.text : ''))
+      .join('');
+    return {
+      text,
+      ...result(model, {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+      }),
+    };
+  }
+
+  const response = await openai().chat.completions.create({
+    model: model.id,
+    ...(opts.maxTokens !== undefined ? { max_tokens: Math.min(opts.maxTokens, model.maxOutputTokens) } : {}),
+    ...(opts.temperature !== undefined ? { temperature: opts.temperature } : {}),
+    ...(opts.json === true
+      ? { response_format: { type: 'json_object' as const } }
+      : opts.json
+        ? { response_format: { type: 'json_schema' as const, json_schema: { ...opts.json, strict: true } } }
+        : {}),
+    messages: [
+      ...(opts.system ? [{ role: 'system' as const, content: opts.system }] : []),
+      { role: 'user' as const, content: opts.prompt },
+    ],
+  });
+  return {
+    text: response.choices[0]?.message?.content ?? '',
+    ...result(model, {
+      inputTokens: response.usage?.prompt_tokens ?? 0,
+      outputTokens: response.usage?.completion_tokens ?? 0,
+    }),
+  };
+}
+
+export async function generateImage(opts: {
+  prompt: string;
+  model?: AiModel | string;
+}): Promise<AiCallResult & { url: string }> {
+  const model = catalogModel(opts.model ?? 'dall-e-3');
+  const response = await openai().images.generate({
+    model: model.id,
+    prompt: opts.prompt,
+    n: 1,
+    size: '1024x1024',
+    quality: 'standard',
+  });
+  const url = response.data?.[0]?.url;
+  if (!url) throw new Error('No image returned');
+  return { url, ...result(model, { inputTokens: 0, outputTokens: 0, images: 1 }) };
+}
+
+export interface TranscriptionSegment {
+  /** Seconds from the start of the audio. */
+  start: number;
+  end: number;
+  text: string;
+  speaker: string | null;
+}
+
+/**
+ * Transcribe an audio file.  Diarizing models (see models.ts) also return
+ * timed segments with speaker labels; their single-letter labels become
+ * "Speaker A", "Speaker B", ….
+ */
+export async function transcribeAudio(opts: {
+  file: File;
+  model?: AiModel | string;
+}): Promise<AiCallResult & { text: string; segments: TranscriptionSegment[] }> {
+  const model = catalogModel(
+    opts.model ?? process.env.OPENAI_TRANSCRIBE_MODEL ?? 'gpt-4o-mini-transcribe'
+  );
+  const response = await openai().audio.transcriptions.create({
+    model: model.id,
+    file: opts.file,
+    // diarized_json postdates the installed SDK's AudioResponseFormat.
+    ...(model.diarization
+      ? { response_format: 'diarized_json' as unknown as 'json', chunking_strategy: 'auto' as const }
+      : {}),
+  });
+  const raw = response as {
+    text?: string;
+    usage?: { input_tokens?: number; output_tokens?: number };
+    segments?: Array<{ start?: number; end?: number; text?: string; speaker?: string | null }>;
+  };
+  return {
+    text: raw.text ? String(raw.text) : '',
+    segments: (raw.segments ?? []).map((s) => ({
+      start: Number(s.start ?? 0),
+      end: Number(s.end ?? s.start ?? 0),
+      text: String(s.text ?? ''),
+      speaker: speakerLabel(s.speaker),
+    })),
+    // gpt-4o transcription models report token usage; whisper-style models do not.
+    ...result(model, {
+      inputTokens: raw.usage?.input_tokens ?? 0,
+      outputTokens: raw.usage?.output_tokens ?? 0,
+    }),
+  };
+}
+
+function speakerLabel(label: string | null | undefined): string | null {
+  const trimmed = label?.trim();
+  if (!trimmed) return null;
+  return trimmed.length <= 2 ? `Speaker ${trimmed}` : trimmed;
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Logging
+// ──────────────────────────────────────────────────────────────────────────────
+
+export interface GenerationLogEntry {
+  prompt: string;
+  response: string;
+  /** What was generated: a content type name, `image`, `inbox_reply`, `meeting_summary`… */
+  contentType: string | null;
+  /** Team member who asked for it; null for background jobs. */
+  generatedBy: string | null;
+  postId?: string | null;
+}
+
+/** Record a call in `ai_generation_history`.  Never throws — logging must not fail the request. */
+export async function logGeneration(call: AiCallResult, entry: GenerationLogEntry): Promise<void> {
+  try {
+    const row: NewAiGenerationHistory = {
+      prompt: entry.prompt,
+      response: entry.response,
+      model_used: call.model.id,
+      provider: call.model.provider,
+      content_type: entry.contentType,
+      input_tokens: call.usage.inputTokens,
+      output_tokens: call.usage.outputTokens,
+      tokens_used: call.usage.inputTokens + call.usage.outputTokens,
+      cost_estimate: call.costUsd,
+      generated_by: entry.generatedBy,
+      post_id: entry.postId ?? null,
+    };
+    const { error } = await supabaseAdmin().from('ai_generation_history').insert(row);
+    if (error) throw error;
+  } catch (err) {
+    console.error('Failed to log AI generation:', err);
+  }
+}
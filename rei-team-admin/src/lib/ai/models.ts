@@ -0,0 +1,163 @@
+/**
+ * models.ts
+ * Catalog of the AI models the app can call, with their provider, list
+ * prices and limits.
+ *
+ * Client-safe: the Content Studio and content type settings read the catalog
+ * for their model pickers; the server-side client (`client.ts`) uses it to
+ * route calls and price them.  Prices are USD per million tokens as published
+ * by each provider — update them here when the providers change them.
+ */
+
+export type AiProvider = 'openai' | 'anthropic';
+
+export type AiModelKind = 'text' | 'image' | 'transcription';
+
+export interface AiModel {
+  /** Stored in `content_types.default_ai_model` and `ai_generation_history.model_used`. */
+  id: string;
+  label: string;
+  provider: AiProvider;
+  kind: AiModelKind;
+  /** USD per 1M input tokens (audio tokens for transcription models). */
+  inputPricePerMTok: number;
+  /** USD per 1M output tokens. */
+  outputPricePerMTok: number;
+  /** USD per generated image (image models only). */
+  imagePrice?: number;
+  /** Maximum prompt + completion tokens. */
+  contextWindow: number;
+  maxOutputTokens: number;
+  /** Transcription models that label speakers (`diarized_json`). */
+  diarization?: boolean;
+}
+
+export const AI_MODELS: AiModel[] = [
+  {
+    id: 'gpt-4o',
+    label: 'GPT-4o',
+    provider: 'openai',
+    kind: 'text',
+    inputPricePerMTok: 2.5,
+    outputPricePerMTok: 10,
+    contextWindow: 128_000,
+    maxOutputTokens: 16_384,
+  },
+  {
+    id: 'gpt-4o-mini',
+    label: 'GPT-4o mini',
+    provider: 'openai',
+    kind: 'text',
+    inputPricePerMTok: 0.15,
+    outputPricePerMTok: 0.6,
+    contextWindow: 128_000,
+    maxOutputTokens: 16_384,
+  },
+  {
+    id: 'claude-sonnet-4-5',
+    label: 'Claude Sonnet 4.5',
+    provider: 'anthropic',
+    kind: 'text',
+    inputPricePerMTok: 3,
+    outputPricePerMTok: 15,
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+  },
+  {
+    id: 'claude-haiku-4-5',
+    label: 'Claude Haiku 4.5',
+    provider: 'anthropic',
+    kind: 'text',
+    inputPricePerMTok: 1,
+    outputPricePerMTok: 5,
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+  },
+  {
+    id: 'gpt-4o-mini-transcribe',
+    label: 'GPT-4o mini Transcribe',
+    provider: 'openai',
+    kind: 'transcription',
+    inputPricePerMTok: 3,
+    outputPricePerMTok: 5,
+    contextWindow: 16_000,
+    maxOutputTokens: 2_000,
+  },
+  {
+    id: 'gpt-4o-transcribe',
+    label: 'GPT-4o Transcribe',
+    provider: 'openai',
+    kind: 'transcription',
+    inputPricePerMTok: 6,
+    outputPricePerMTok: 10,
+    contextWindow: 16_000,
+    maxOutputTokens: 2_000,
+  },
+  {
+    id: 'gpt-4o-transcribe-diarize',
+    label: 'GPT-4o Transcribe (speaker labels)',
+    provider: 'openai',
+    kind: 'transcription',
+    inputPricePerMTok: 6,
+    outputPricePerMTok: 10,
+    contextWindow: 16_000,
+    maxOutputTokens: 2_000,
+    diarization: true,
+  },
+  {
+    id: 'dall-e-3',
+    label: 'DALL·E 3',
+    provider: 'openai',
+    kind: 'image',
+    inputPricePerMTok: 0,
+    outputPricePerMTok: 0,
+    imagePrice: 0.04,
+    contextWindow: 4_000,
+    maxOutputTokens: 0,
+  },
+];
+
+/** Older IDs still found in stored rows, mapped to their catalog entry. */
+const MODEL_ALIASES: Record<string, string> = {
+  'claude-sonnet': 'claude-sonnet-4-5',
+  'claude-3-5-sonnet-20241022': 'claude-sonnet-4-5',
+};
+
+export const DEFAULT_TEXT_MODEL = 'gpt-4o';
+
+/** Look up a model by ID or alias; undefined when it is not in the catalog. */
+export function getAiModel(id: string): AiModel | undefined {
+  const resolved = MODEL_ALIASES[id] ?? id;
+  return AI_MODELS.find((m) => m.id === resolved);
+}
+
+/** Models usable for text generation, for pickers. */
+export function textModels(): AiModel[] {
+  return AI_MODELS.filter((m) => m.kind === 'text');
+}
+
+/**
+ * Pick the model for a generation: an explicit override wins, then the
+ * content type's `default_ai_model`, then DEFAULT_TEXT_MODEL.  Unknown IDs
+ * fall through to the next choice.
+ */
+export function resolveTextModel(
+  contentType: { default_ai_model: string } | null | undefined,
+  override?: string | null
+): AiModel {
+  for (const id of [override, contentType?.default_ai_model, DEFAULT_TEXT_MODEL]) {
+    const model = id ? getAiModel(id) : undefined;
+    if (model?.kind === 'text') return model;
+  }
+  return getAiModel(DEFAULT_TEXT_MODEL)!;
+}
+
+/** USD cost of a call from its token usage (and image count for image models). */
+export function estimateCost(
+  model: AiModel,
+  usage: { inputTokens: number; outputTokens: number; images?: number }
+): number {
+  const tokens =
+    (usage.inputTokens * model.inputPricePerMTok + usage.outputTokens * model.outputPricePerMTok) / 1_000_000;
+  return tokens + (usage.images ?? 0) * (model.imagePrice ?? 0);
+}
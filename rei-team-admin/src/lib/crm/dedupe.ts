@@ -0,0 +1,339 @@
+/**
+ * dedupe.ts
+ * Fuzzy duplicate detection for CRM companies and contacts (sales funnel →
+ * Edit → Find duplicates).  The unique indexes only catch exact
+ * `name_lower` / `(company_id, email_lower | phone_norm)` repeats; this groups
+ * records that share a normalized name, website / email domain, phone or
+ * email, or whose names are near-identical.  Merging is done by the
+ * `crm_merge_companies` / `crm_merge_contacts` RPCs (migration 036).
+ */
+
+export type DedupeEntity = 'company' | 'contact';
+
+export interface DedupeCompany {
+  id: string;
+  name: string;
+  website: string | null;
+  phone: string | null;
+  email: string | null;
+}
+
+export interface DedupeContact {
+  id: string;
+  company_id: string;
+  company_name: string | null;
+  full_name: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  phone: string | null;
+  email: string | null;
+}
+
+export interface DuplicateGroup {
+  /** Record ids, oldest-first as passed in. */
+  ids: string[];
+  /** Why the records were grouped, e.g. "Same domain: acme.com". */
+  reasons: string[];
+}
+
+export interface MergeCompanyRecord {
+  id: string;
+  name: string;
+  website: string | null;
+  phone: string | null;
+  email: string | null;
+  notes: string | null;
+  stage_id: string | null;
+  main_contact_id: string | null;
+  main_contact_name: string | null;
+  custom_fields: Record<string, unknown>;
+  contact_count: number;
+  last_activity_at: string | null;
+  created_at: string;
+}
+
+export interface MergeContactRecord {
+  id: string;
+  company_id: string;
+  company_name: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  full_name: string | null;
+  title: string | null;
+  phone: string | null;
+  email: string | null;
+  notes: string | null;
+  stage_id: string | null;
+  is_main: boolean;
+  custom_fields: Record<string, unknown>;
+  last_activity_at: string | null;
+  created_at: string;
+}
+
+export type DuplicateGroupWithRecords =
+  | (DuplicateGroup & { entity: 'company'; records: MergeCompanyRecord[] })
+  | (DuplicateGroup & { entity: 'contact'; records: MergeContactRecord[] });
+
+/**
+ * Fields the merge screen picks a surviving value for (see the RPCs in
+ * migration 036).  custom_fields are combined key by key instead.
+ */
+export const MERGE_FIELDS: Record<DedupeEntity, ReadonlyArray<{ key: string; label: string }>> = {
+  company: [
+    { key: 'name', label: 'Name' },
+    { key: 'website', label: 'Website' },
+    { key: 'phone', label: 'Phone' },
+    { key: 'email', label: 'Email' },
+    { key: 'notes', label: 'Notes' },
+    { key: 'stage_id', label: 'Stage' },
+    { key: 'main_contact_id', label: 'Main contact' },
+  ],
+  contact: [
+    { key: 'company_id', label: 'Company' },
+    { key: 'first_name', label: 'First name' },
+    { key: 'last_name', label: 'Last name' },
+    { key: 'full_name', label: 'Full name' },
+    { key: 'title', label: 'Title' },
+    { key: 'phone', label: 'Phone' },
+    { key: 'email', label: 'Email' },
+    { key: 'notes', label: 'Notes' },
+    { key: 'stage_id', label: 'Stage' },
+  ],
+};
+
+/** Names at least this similar (bigram Dice coefficient) are grouped. */
+export const NAME_SIMILARITY_THRESHOLD = 0.88;
+
+/** Similar-name comparison is skipped for larger buckets (too generic to be useful). */
+const MAX_SIMILARITY_BUCKET = 200;
+
+const COMPANY_SUFFIXES = new Set([
+  'inc',
+  'incorporated',
+  'llc',
+  'llp',
+  'lp',
+  'ltd',
+  'limited',
+  'corp',
+  'corporation',
+  'co',
+  'company',
+  'plc',
+  'gmbh',
+  'pllc',
+  'pc',
+  'group',
+  'holdings',
+]);
+
+/** Mailbox providers: a shared email domain says nothing about the company. */
+const FREE_MAIL_DOMAINS = new Set([
+  'gmail.com',
+  'googlemail.com',
+  'yahoo.com',
+  'hotmail.com',
+  'outlook.com',
+  'live.com',
+  'msn.com',
+  'aol.com',
+  'icloud.com',
+  'me.com',
+  'proton.me',
+  'protonmail.com',
+  'comcast.net',
+]);
+
+// ────────────────────────────────────────────────────────────────────────────
+// Normalizers
+// ────────────────────────────────────────────────────────────────────────────
+
+function words(v: string | null | undefined): string[] {
+  return String(v ?? '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+}
+
+/** "ACME, Inc." → "acme"; "The Smith Group LLC" → "smith". */
+export function normalizeCompanyName(name: string | null | undefined): string {
+  const w = words(name);
+  while (w.length > 1 && COMPANY_SUFFIXES.has(w[w.length - 1])) w.pop();
+  if (w.length > 1 && w[0] === 'the') w.shift();
+  return w.join(' ');
+}
+
+export function normalizePersonName(name: string | null | undefined): string {
+  return words(name).join(' ');
+}
+
+/** "https://www.Acme.com/about" → "acme.com". */
+export function websiteDomain(url: string | null | undefined): string {
+  const s = String(url ?? '').trim().toLowerCase();
+  if (!s) return '';
+  const host = s.replace(/^[a-z]+:\/\//, '').split(/[/?#:]/)[0] ?? '';
+  return host.replace(/^www\./, '');
+}
+
+/** Company domain of an address, or '' for free-mail providers. */
+export function emailDomain(email: string | null | undefined): string {
+  const d = String(email ?? '').trim().toLowerCase().split('@')[1] ?? '';
+  return d && !FREE_MAIL_DOMAINS.has(d) ? d : '';
+}
+
+/** Digits of a phone number, without a leading US country code. */
+export function phoneKey(phone: string | null | undefined): string {
+  const d = String(phone ?? '').replace(/\D+/g, '');
+  const key = d.length === 11 && d.startsWith('1') ? d.slice(1) : d;
+  return key.length >= 7 ? key : '';
+}
+
+export function emailKey(email: string | null | undefined): string {
+  const e = String(email ?? '').trim().toLowerCase();
+  return e.includes('@') ? e : '';
+}
+
+function bigrams(s: string): Map<string, number> {
+  const t = s.replace(/\s+/g, '');
+  const out = new Map<string, number>();
+  for (let i = 0; i < t.length - 1; i++) {
+    const g = t.slice(i, i + 2);
+    out.set(g, (out.get(g) ?? 0) + 1);
+  }
+  return out;
+}
+
+/** Dice coefficient over character bigrams (0..1). */
+export function nameSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  const ga = bigrams(a);
+  const gb = bigrams(b);
+  let overlap = 0;
+  let total = 0;
+  for (const n of ga.values()) total += n;
+  for (const [g, n] of gb.entries()) {
+    total += n;
+    overlap += Math.min(n, ga.get(g) ?? 0);
+  }
+  return total ? (2 * overlap) / total : 0;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Grouping
+// ────────────────────────────────────────────────────────────────────────────
+
+class Groups {
+  private parent = new Map<string, string>();
+  private reasons = new Map<string, Set<string>>();
+
+  private find(id: string): string {
+    let root = id;
+    while (this.parent.get(root) && this.parent.get(root) !== root) root = this.parent.get(root)!;
+    this.parent.set(id, root);
+    return root;
+  }
+
+  link(a: string, b: string, reason: string) {
+    if (!this.parent.has(a)) this.parent.set(a, a);
+    if (!this.parent.has(b)) this.parent.set(b, b);
+    const ra = this.find(a);
+    const rb = this.find(b);
+    if (ra === rb) {
+      this.reasons.set(ra, new Set([...(this.reasons.get(ra) ?? []), reason]));
+      return;
+    }
+    const merged = new Set([...(this.reasons.get(ra) ?? []), ...(this.reasons.get(rb) ?? []), reason]);
+    this.parent.set(rb, ra);
+    this.reasons.set(ra, merged);
+    this.reasons.delete(rb);
+  }
+
+  result(order: string[]): DuplicateGroup[] {
+    const byRoot = new Map<string, string[]>();
+    for (const id of order) {
+      if (!this.parent.has(id)) continue;
+      const root = this.find(id);
+      const ids = byRoot.get(root);
+      if (ids) ids.push(id);
+      else byRoot.set(root, [id]);
+    }
+    return [...byRoot.entries()]
+      .filter(([, ids]) => ids.length > 1)
+      .map(([root, ids]) => ({ ids, reasons: [...(this.reasons.get(root) ?? [])].sort() }));
+  }
+}
+
+/** Links every pair of records sharing a key. */
+function linkByKey<T extends { id: string }>(groups: Groups, rows: T[], key: (r: T) => string, reason: (k: string) => string) {
+  const first = new Map<string, string>();
+  for (const r of rows) {
+    const k = key(r);
+    if (!k) continue;
+    const seen = first.get(k);
+    if (seen) groups.link(seen, r.id, reason(k));
+    else first.set(k, r.id);
+  }
+}
+
+/** Links near-identical names, compared within buckets sharing their first two letters. */
+function linkSimilarNames<T extends { id: string }>(groups: Groups, rows: T[], name: (r: T) => string) {
+  const buckets = new Map<string, Array<{ id: string; n: string }>>();
+  for (const r of rows) {
+    const n = name(r);
+    if (n.length < 4) continue;
+    const b = n.replace(/\s+/g, '').slice(0, 2);
+    const list = buckets.get(b);
+    if (list) list.push({ id: r.id, n });
+    else buckets.set(b, [{ id: r.id, n }]);
+  }
+  for (const list of buckets.values()) {
+    if (list.length < 2 || list.length > MAX_SIMILARITY_BUCKET) continue;
+    for (let i = 0; i < list.length; i++) {
+      for (let j = i + 1; j < list.length; j++) {
+        if (list[i].n !== list[j].n && nameSimilarity(list[i].n, list[j].n) >= NAME_SIMILARITY_THRESHOLD) {
+          groups.link(list[i].id, list[j].id, `Similar names: ${list[i].n} / ${list[j].n}`);
+        }
+      }
+    }
+  }
+}
+
+export function findDuplicateCompanies(rows: DedupeCompany[]): DuplicateGroup[] {
+  const groups = new Groups();
+  linkByKey(groups, rows, (r) => normalizeCompanyName(r.name), (k) => `Same name: ${k}`);
+  linkByKey(groups, rows, (r) => websiteDomain(r.website) || emailDomain(r.email), (k) => `Same domain: ${k}`);
+  linkByKey(groups, rows, (r) => phoneKey(r.phone), (k) => `Same phone: ${k}`);
+  linkByKey(groups, rows, (r) => emailKey(r.email), (k) => `Same email: ${k}`);
+  linkSimilarNames(groups, rows, (r) => normalizeCompanyName(r.name));
+  return groups.result(rows.map((r) => r.id));
+}
+
+export function contactDisplayName(c: Pick<DedupeContact, 'full_name' | 'first_name' | 'last_name'>): string {
+  return (c.full_name ?? '').trim() || [c.first_name, c.last_name].filter(Boolean).join(' ').trim();
+}
+
+/**
+ * Contacts sharing an email or phone (any company), or the same name at
+ * companies with the same normalized name ("Acme Inc" / "ACME, Inc.").
+ */
+export function findDuplicateContacts(rows: DedupeContact[]): DuplicateGroup[] {
+  const groups = new Groups();
+  linkByKey(groups, rows, (r) => emailKey(r.email), (k) => `Same email: ${k}`);
+  linkByKey(groups, rows, (r) => phoneKey(r.phone), (k) => `Same phone: ${k}`);
+  linkByKey(
+    groups,
+    rows,
+    (r) => {
+      const n = normalizePersonName(contactDisplayName(r));
+      return n ? `${n} @ ${normalizeCompanyName(r.company_name)}` : '';
+    },
+    (k) => `Same name: ${k}`
+  );
+  return groups.result(rows.map((r) => r.id));
+}
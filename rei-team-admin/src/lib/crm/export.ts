@@ -0,0 +1,330 @@
+/**
+ * export.ts
+ * CRM export (sales funnel → Export): the company, contact or project board
+ * as sheets for CSV / XLSX, optionally with the activity history
+ * (`crm_contact_activities`) and project ↔ contact links.
+ *
+ * Company and contact sheets use the import's header names (import.ts), so
+ * an export re-imports through the same upsert keys: companies by
+ * `name_lower`, contacts by `company_id,email_lower` / `company_id,phone_norm`,
+ * custom fields via the "Company custom: " / "Contact custom: " prefixes.
+ * The "Project contacts" sheet re-imports the same way; project rows
+ * themselves are export-only.
+ */
+
+import type { supabaseBrowser } from '@/src/lib/supabase/browser';
+import { COMPANY_CUSTOM_HEADER_PREFIX, CONTACT_CUSTOM_HEADER_PREFIX } from '@/src/lib/crm/import';
+
+type Db = ReturnType<typeof supabaseBrowser>;
+
+export type CrmExportView = 'company' | 'contact' | 'project';
+
+export interface CrmExportOptions {
+  includeMainContact: boolean;
+  includeProjectContacts: boolean;
+  includeActivities: boolean;
+}
+
+export interface CrmExportSheet {
+  name: string;
+  columns: string[];
+  rows: Array<Record<string, string>>;
+}
+
+/** Ids per `.in()` lookup. */
+const QUERY_CHUNK = 200;
+
+/** Rows per page (PostgREST caps responses at 1000); one chunk of ids can match many activities or links. */
+const PAGE_SIZE = 1000;
+
+type Row = Record<string, unknown>;
+
+const str = (v: unknown) => (v === null || v === undefined ? '' : String(v));
+
+/** Rows whose `column` is one of `ids`; `orderBy` must identify a row so pages don't overlap. */
+async function fetchByIds(
+  db: Db,
+  table: string,
+  select: string,
+  column: string,
+  ids: string[],
+  orderBy: string[] = ['id']
+): Promise<Row[]> {
+  const out: Row[] = [];
+  const unique = [...new Set(ids.filter(Boolean))];
+  for (let i = 0; i < unique.length; i += QUERY_CHUNK) {
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let q = db.from(table).select(select).in(column, unique.slice(i, i + QUERY_CHUNK));
+      for (const o of orderBy) q = q.order(o, { ascending: true });
+      const res = await q.range(from, from + PAGE_SIZE - 1);
+      if (res.error) throw res.error;
+      const page = (res.data ?? []) as unknown as Row[];
+      out.push(...page);
+      if (page.length < PAGE_SIZE) break;
+    }
+  }
+  return out;
+}
+
+/** Rows in the order of `ids` (the board's order). */
+function inOrder(rows: Row[], ids: string[]): Row[] {
+  const byId = new Map(rows.map((r) => [str(r.id), r]));
+  return ids.map((id) => byId.get(id)).filter((r): r is Row => !!r);
+}
+
+function customColumns(rows: Row[], prefix: string): { columns: string[]; values: (r: Row) => Record<string, string> } {
+  const keys = [...new Set(rows.flatMap((r) => Object.keys((r.custom_fields as Row | null) ?? {})))].sort();
+  return {
+    columns: keys.map((k) => `${prefix}${k}`),
+    values: (r) => Object.fromEntries(keys.map((k) => [`${prefix}${k}`, str(((r.custom_fields as Row | null) ?? {})[k])])),
+  };
+}
+
+function contactName(c: Row | undefined): string {
+  if (!c) return '';
+  return str(c.full_name) || [str(c.first_name), str(c.last_name)].filter(Boolean).join(' ') || str(c.email) || str(c.phone);
+}
+
+const CONTACT_SELECT = 'id,company_id,stage_id,first_name,last_name,full_name,title,phone,email,notes,is_main,last_activity_at,created_at,custom_fields';
+
+/**
+ * Builds the export sheets for the given board entities (already filtered by
+ * the board's stage / search filters).  The first sheet is the board itself.
+ */
+export async function buildCrmExport(
+  db: Db,
+  view: CrmExportView,
+  ids: string[],
+  stageNameById: Map<string, string>,
+  opts: CrmExportOptions
+): Promise<CrmExportSheet[]> {
+  const sheets: CrmExportSheet[] = [];
+  const companies = new Map<string, Row>();
+  const contacts = new Map<string, Row>();
+  const projects = new Map<string, Row>();
+
+  const loadCompanies = async (companyIds: string[]) => {
+    const missing = companyIds.filter((id) => id && !companies.has(id));
+    for (const c of await fetchByIds(db, 'crm_companies', 'id,name', 'id', missing)) companies.set(str(c.id), c);
+  };
+  const loadContacts = async (contactIds: string[]) => {
+    const missing = contactIds.filter((id) => id && !contacts.has(id));
+    for (const c of await fetchByIds(db, 'crm_contacts', CONTACT_SELECT, 'id', missing)) contacts.set(str(c.id), c);
+  };
+  const loadProjects = async (projectIds: string[]) => {
+    const missing = projectIds.filter((id) => id && !projects.has(id));
+    for (const p of await fetchByIds(db, 'crm_projects', 'id,company_id,name', 'id', missing)) projects.set(str(p.id), p);
+  };
+  const companyName = (id: unknown) => str(companies.get(str(id))?.name);
+
+  // Project ↔ contact links for the exported projects / contacts.
+  let links: Array<{ project_id: string; contact_id: string }> = [];
+  if (opts.includeProjectContacts && view !== 'company') {
+    links = (
+      await fetchByIds(
+        db,
+        'crm_project_contacts',
+        'project_id,contact_id',
+        view === 'project' ? 'project_id' : 'contact_id',
+        ids,
+        ['project_id', 'contact_id']
+      )
+    ).map((l) => ({ project_id: str(l.project_id), contact_id: str(l.contact_id) }));
+    await loadContacts(links.map((l) => l.contact_id));
+    await loadProjects(links.map((l) => l.project_id));
+  }
+
+  // ── Board sheet ───────────────────────────────────────────────────────────
+  if (view === 'company') {
+    const rows = inOrder(
+      await fetchByIds(
+        db,
+        'crm_companies',
+        'id,name,stage_id,website,phone,email,notes,main_contact_id,last_activity_at,created_at,custom_fields',
+        'id',
+        ids
+      ),
+      ids
+    );
+    for (const r of rows) companies.set(str(r.id), r);
+    if (opts.includeMainContact) await loadContacts(rows.map((r) => str(r.main_contact_id)));
+
+    const custom = customColumns(rows, COMPANY_CUSTOM_HEADER_PREFIX);
+    const contactColumns = opts.includeMainContact
+      ? ['First Name', 'Last Name', 'Full Name', 'Title', 'Phone', 'Email', 'Notes', 'Main Contact']
+      : [];
+    sheets.push({
+      name: 'Companies',
+      columns: ['Company', 'Website', 'Company Phone', 'Company Email', 'Company Notes', 'Stage', ...contactColumns, 'Last Activity', 'Created', ...custom.columns],
+      rows: rows.map((r) => {
+        const mc = contacts.get(str(r.main_contact_id));
+        return {
+          Company: str(r.name),
+          Website: str(r.website),
+          'Company Phone': str(r.phone),
+          'Company Email': str(r.email),
+          'Company Notes': str(r.notes),
+          Stage: stageNameById.get(str(r.stage_id)) ?? '',
+          ...(opts.includeMainContact
+            ? {
+                'First Name': str(mc?.first_name),
+                'Last Name': str(mc?.last_name),
+                'Full Name': str(mc?.full_name),
+                Title: str(mc?.title),
+                Phone: str(mc?.phone),
+                Email: str(mc?.email),
+                Notes: str(mc?.notes),
+                'Main Contact': mc ? 'yes' : '',
+              }
+            : {}),
+          'Last Activity': str(r.last_activity_at),
+          Created: str(r.created_at),
+          ...custom.values(r),
+        };
+      }),
+    });
+  }
+
+  if (view === 'contact') {
+    const rows = inOrder(await fetchByIds(db, 'crm_contacts', CONTACT_SELECT, 'id', ids), ids);
+    for (const r of rows) contacts.set(str(r.id), r);
+    await loadCompanies(rows.map((r) => str(r.company_id)));
+
+    const custom = customColumns(rows, CONTACT_CUSTOM_HEADER_PREFIX);
+    const projectsByContact = new Map<string, string[]>();
+    for (const l of links) {
+      projectsByContact.set(l.contact_id, [...(projectsByContact.get(l.contact_id) ?? []), str(projects.get(l.project_id)?.name)]);
+    }
+    sheets.push({
+      name: 'Contacts',
+      columns: [
+        'Company',
+        'First Name',
+        'Last Name',
+        'Full Name',
+        'Title',
+        'Phone',
+        'Email',
+        'Notes',
+        'Main Contact',
+        'Contact Stage',
+        ...(opts.includeProjectContacts ? ['Projects'] : []),
+        'Last Activity',
+        'Created',
+        ...custom.columns,
+      ],
+      rows: rows.map((r) => ({
+        Company: companyName(r.company_id),
+        'First Name': str(r.first_name),
+        'Last Name': str(r.last_name),
+        'Full Name': str(r.full_name),
+        Title: str(r.title),
+        Phone: str(r.phone),
+        Email: str(r.email),
+        Notes: str(r.notes),
+        'Main Contact': r.is_main ? 'yes' : '',
+        'Contact Stage': stageNameById.get(str(r.stage_id)) ?? '',
+        ...(opts.includeProjectContacts ? { Projects: (projectsByContact.get(str(r.id)) ?? []).join('; ') } : {}),
+        'Last Activity': str(r.last_activity_at),
+        Created: str(r.created_at),
+        ...custom.values(r),
+      })),
+    });
+  }
+
+  if (view === 'project') {
+    const rows = inOrder(
+      await fetchByIds(db, 'crm_projects', 'id,company_id,name,stage_id,website,notes,last_activity_at,created_at', 'id', ids),
+      ids
+    );
+    for (const r of rows) projects.set(str(r.id), r);
+    await loadCompanies(rows.map((r) => str(r.company_id)));
+
+    const contactsByProject = new Map<string, string[]>();
+    for (const l of links) {
+      const c = contacts.get(l.contact_id);
+      const label = c?.email ? `${contactName(c)} <${str(c.email)}>` : contactName(c);
+      contactsByProject.set(l.project_id, [...(contactsByProject.get(l.project_id) ?? []), label]);
+    }
+    sheets.push({
+      name: 'Projects',
+      columns: [
+        'Project',
+        'Company',
+        'Project Stage',
+        'Project Website',
+        'Project Notes',
+        ...(opts.includeProjectContacts ? ['Contacts'] : []),
+        'Last Activity',
+        'Created',
+      ],
+      rows: rows.map((r) => ({
+        Project: str(r.name),
+        Company: companyName(r.company_id),
+        'Project Stage': stageNameById.get(str(r.stage_id)) ?? '',
+        'Project Website': str(r.website),
+        'Project Notes': str(r.notes),
+        ...(opts.includeProjectContacts ? { Contacts: (contactsByProject.get(str(r.id)) ?? []).join('; ') } : {}),
+        'Last Activity': str(r.last_activity_at),
+        Created: str(r.created_at),
+      })),
+    });
+  }
+
+  // ── Project contacts (one row per link, import-compatible) ───────────────
+  if (links.length) {
+    await loadCompanies([...contacts.values()].map((c) => str(c.company_id)));
+    sheets.push({
+      name: 'Project contacts',
+      columns: ['Project', 'Company', 'Full Name', 'Email', 'Phone', 'Title'],
+      rows: links.map((l) => {
+        const c = contacts.get(l.contact_id);
+        return {
+          Project: str(projects.get(l.project_id)?.name),
+          Company: companyName(c?.company_id),
+          'Full Name': contactName(c),
+          Email: str(c?.email),
+          Phone: str(c?.phone),
+          Title: str(c?.title),
+        };
+      }),
+    });
+  }
+
+  // ── Activity history ──────────────────────────────────────────────────────
+  if (opts.includeActivities) {
+    const column = view === 'company' ? 'company_id' : view === 'contact' ? 'contact_id' : 'project_id';
+    const acts = (
+      await fetchByIds(
+        db,
+        'crm_contact_activities',
+        'id,company_id,contact_id,project_id,kind,summary,created_at,created_by_profile:profiles(full_name)',
+        column,
+        ids
+      )
+    ).sort((a, b) => str(b.created_at).localeCompare(str(a.created_at)));
+    await loadCompanies(acts.map((a) => str(a.company_id)));
+    await loadContacts(acts.map((a) => str(a.contact_id)));
+    await loadProjects(acts.map((a) => str(a.project_id)));
+
+    sheets.push({
+      name: 'Activities',
+      columns: ['Date', 'Kind', 'Company', 'Contact', 'Project', 'Summary', 'Logged By'],
+      rows: acts.map((a) => {
+        // Supabase returns the profile join as an array.
+        const by = Array.isArray(a.created_by_profile) ? (a.created_by_profile[0] as Row | undefined) : (a.created_by_profile as Row | null);
+        return {
+          Date: str(a.created_at),
+          Kind: str(a.kind),
+          Company: companyName(a.company_id),
+          Contact: contactName(contacts.get(str(a.contact_id))),
+          Project: str(projects.get(str(a.project_id))?.name),
+          Summary: str(a.summary),
+          'Logged By': str(by?.full_name),
+        };
+      }),
+    });
+  }
+
+  return sheets;
+}
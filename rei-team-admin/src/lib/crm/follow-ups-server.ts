@@ -0,0 +1,155 @@
+/**
+ * follow-ups-server.ts
+ * Daily follow-up digest: for each owner with open follow-ups that are
+ * overdue or due today (in CRM_DIGEST_TIMEZONE), one email listing them.
+ * `crm_follow_up_digests` keeps it to one digest per owner and day.
+ * Server-only; sending lives in /api/crm/follow-ups/digest.
+ */
+
+import { supabaseAdmin } from '@/src/lib/supabase/admin';
+import { utcToWall, wallToUtc } from '@/src/lib/rrule';
+import { isValidTimezone } from '@/src/lib/meetings/series';
+import { FOLLOW_UP_SELECT, followUpTitle, normalizeFollowUp, type CrmFollowUp } from '@/src/lib/crm/follow-ups';
+
+type Admin = ReturnType<typeof supabaseAdmin>;
+
+/** Rows per request; PostgREST caps responses at 1000 rows. */
+const PAGE_SIZE = 1000;
+
+/** Timezone that decides what "today" means for the digest. */
+export const DEFAULT_DIGEST_TIMEZONE = 'America/Los_Angeles';
+
+export interface FollowUpDigest {
+  ownerId: string;
+  email: string;
+  name: string | null;
+  /** YYYY-MM-DD in the digest timezone. */
+  date: string;
+  overdue: CrmFollowUp[];
+  today: CrmFollowUp[];
+}
+
+export function digestTimezone(): string {
+  const tz = process.env.CRM_DIGEST_TIMEZONE?.trim();
+  return tz && isValidTimezone(tz) ? tz : DEFAULT_DIGEST_TIMEZONE;
+}
+
+/** The calendar day at `now` in `timezone` and the instants it starts and ends. */
+export function digestDay(now: Date, timezone: string): { date: string; start: Date; end: Date } {
+  const w = utcToWall(now.getTime(), timezone);
+  const next = new Date(Date.UTC(w.year, w.month - 1, w.day + 1));
+  const start = wallToUtc({ year: w.year, month: w.month, day: w.day, hour: 0, minute: 0, second: 0 }, timezone);
+  const end = wallToUtc(
+    { year: next.getUTCFullYear(), month: next.getUTCMonth() + 1, day: next.getUTCDate(), hour: 0, minute: 0, second: 0 },
+    timezone
+  );
+  const date = `${w.year}-${String(w.month).padStart(2, '0')}-${String(w.day).padStart(2, '0')}`;
+  return { date, start: new Date(start), end: new Date(end) };
+}
+
+/**
+ * Digests still to send for today: owners with open follow-ups due before
+ * the end of the day who haven't had today's digest yet.
+ */
+export async function buildFollowUpDigests(admin: Admin, now = new Date(), timezone = digestTimezone()): Promise<FollowUpDigest[]> {
+  const day = digestDay(now, timezone);
+
+  const rows: CrmFollowUp[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const res = await admin
+      .from('crm_follow_ups')
+      .select(FOLLOW_UP_SELECT)
+      .is('completed_at', null)
+      .not('owner_id', 'is', null)
+      .lt('due_at', day.end.toISOString())
+      .order('due_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (res.error) throw new Error(res.error.message);
+    const page = (res.data ?? []) as unknown as Record<string, unknown>[];
+    rows.push(...page.map(normalizeFollowUp));
+    if (page.length < PAGE_SIZE) break;
+  }
+  if (!rows.length) return [];
+
+  const sentRes = await admin.from('crm_follow_up_digests').select('owner_id').eq('digest_date', day.date);
+  if (sentRes.error) throw new Error(sentRes.error.message);
+  const sent = new Set((sentRes.data ?? []).map((r: { owner_id: string }) => r.owner_id));
+
+  const byOwner = new Map<string, CrmFollowUp[]>();
+  for (const f of rows) {
+    if (!f.owner_id || sent.has(f.owner_id)) continue;
+    const list = byOwner.get(f.owner_id);
+    if (list) list.push(f);
+    else byOwner.set(f.owner_id, [f]);
+  }
+
+  const digests: FollowUpDigest[] = [];
+  for (const [ownerId, list] of byOwner) {
+    // profiles has no email column in every deployment; auth.users always does.
+    const { data, error } = await admin.auth.admin.getUserById(ownerId);
+    const email = data?.user?.email;
+    if (error || !email) continue;
+    digests.push({
+      ownerId,
+      email,
+      name: list[0].owner?.full_name ?? null,
+      date: day.date,
+      overdue: list.filter((f) => new Date(f.due_at).getTime() < day.start.getTime()),
+      today: list.filter((f) => new Date(f.due_at).getTime() >= day.start.getTime()),
+    });
+  }
+  return digests;
+}
+
+function escapeHtml(s: string) {
+  return String(s)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+}
+
+function formatDue(iso: string, timezone: string, withDate: boolean) {
+  return new Date(iso).toLocaleString('en-US', {
+    timeZone: timezone,
+    ...(withDate ? { month: 'short', day: 'numeric' } : {}),
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+export function followUpDigestEmail(d: FollowUpDigest, baseUrl: string, timezone = digestTimezone()) {
+  const url = `${baseUrl}/sales-funnel?followUps=1`;
+  const total = d.overdue.length + d.today.length;
+  const subject = `Follow-ups: ${d.overdue.length ? `${d.overdue.length} overdue, ` : ''}${d.today.length} due today`;
+
+  const line = (f: CrmFollowUp, withDate: boolean) =>
+    `${formatDue(f.due_at, timezone, withDate)} — ${followUpTitle(f)}${f.note ? `: ${f.note}` : ''}`;
+  const section = (title: string, list: CrmFollowUp[], withDate: boolean) =>
+    list.length
+      ? {
+          text: `${title}\n${list.map((f) => `- ${line(f, withDate)}`).join('\n')}`,
+          html: `<h3>${title}</h3><ul>${list.map((f) => `<li>${escapeHtml(line(f, withDate))}</li>`).join('')}</ul>`,
+        }
+      : null;
+
+  const parts = [section('Overdue', d.overdue, true), section('Due today', d.today, false)].filter(
+    (p): p is { text: string; html: string } => !!p
+  );
+  const greeting = d.name ? `Hi ${d.name},` : 'Hi,';
+
+  return {
+    subject,
+    text: `${greeting}\n\nYou have ${total} follow-up${total === 1 ? '' : 's'} to do.\n\n${parts.map((p) => p.text).join('\n\n')}\n\nOpen: ${url}`,
+    html: `<p>${escapeHtml(greeting)}</p><p>You have ${total} follow-up${total === 1 ? '' : 's'} to do.</p>${parts.map((p) => p.html).join('')}<p><a href="${url}">${url}</a></p>`,
+  };
+}
+
+export async function recordFollowUpDigest(admin: Admin, d: FollowUpDigest) {
+  const { error } = await admin
+    .from('crm_follow_up_digests')
+    .upsert({ owner_id: d.ownerId, digest_date: d.date, follow_up_count: d.overdue.length + d.today.length }, { onConflict: 'owner_id,digest_date' });
+  if (error) throw new Error(error.message);
+}
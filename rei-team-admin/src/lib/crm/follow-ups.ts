@@ -0,0 +1,204 @@
+/**
+ * follow-ups.ts
+ * CRM follow-ups (`crm_follow_ups`, migration 037): scheduled calls / emails
+ * / ... on a company, contact or project with an owner and a due time.
+ * Shared by the sales funnel (follow-up panels, "My follow-ups", overdue
+ * marks on board cards) and the daily digest cron (follow-ups-server.ts).
+ * Safe to import from both client and server code.
+ */
+
+import type { supabaseBrowser } from '@/src/lib/supabase/browser';
+
+type Db = ReturnType<typeof supabaseBrowser>;
+
+export type FollowUpKind = 'Call' | 'Voicemail' | 'Text' | 'Email' | 'Note';
+
+export const FOLLOW_UP_KINDS: readonly FollowUpKind[] = ['Call', 'Voicemail', 'Text', 'Email', 'Note'];
+
+export interface CrmFollowUp {
+  id: string;
+  company_id: string | null;
+  contact_id: string | null;
+  project_id: string | null;
+  owner_id: string | null;
+  due_at: string;
+  kind: FollowUpKind;
+  note: string | null;
+  completed_at: string | null;
+  created_at: string;
+  owner: { id: string; full_name: string | null } | null;
+  company: { id: string; name: string } | null;
+  contact: { id: string; full_name: string | null; email: string | null; phone: string | null } | null;
+  project: { id: string; name: string } | null;
+}
+
+export type FollowUpDue = 'overdue' | 'today' | 'upcoming';
+
+/** Where a follow-up hangs: company / contact / project ids. */
+export interface FollowUpTarget {
+  companyId: string | null;
+  contactId: string | null;
+  projectId: string | null;
+}
+
+export const FOLLOW_UP_SELECT =
+  'id,company_id,contact_id,project_id,owner_id,due_at,kind,note,completed_at,created_at,' +
+  'owner:profiles!crm_follow_ups_owner_id_fkey(id,full_name),' +
+  'company:crm_companies(id,name),' +
+  'contact:crm_contacts(id,full_name,email,phone),' +
+  'project:crm_projects(id,name)';
+
+// Supabase returns to-one joins as an object or a one-element array.
+function one(v: unknown): Record<string, unknown> | null {
+  const r = Array.isArray(v) ? v[0] : v;
+  return r && typeof r === 'object' ? (r as Record<string, unknown>) : null;
+}
+
+const strOrNull = (v: unknown) => (v === null || v === undefined || v === '' ? null : String(v));
+
+export function normalizeFollowUp(r: Record<string, unknown>): CrmFollowUp {
+  const owner = one(r.owner);
+  const company = one(r.company);
+  const contact = one(r.contact);
+  const project = one(r.project);
+  const kind = String(r.kind ?? 'Call');
+  return {
+    id: String(r.id),
+    company_id: strOrNull(r.company_id),
+    contact_id: strOrNull(r.contact_id),
+    project_id: strOrNull(r.project_id),
+    owner_id: strOrNull(r.owner_id),
+    due_at: String(r.due_at),
+    kind: (FOLLOW_UP_KINDS as readonly string[]).includes(kind) ? (kind as FollowUpKind) : 'Call',
+    note: strOrNull(r.note),
+    completed_at: strOrNull(r.completed_at),
+    created_at: String(r.created_at),
+    owner: owner ? { id: String(owner.id), full_name: strOrNull(owner.full_name) } : null,
+    company: company ? { id: String(company.id), name: String(company.name ?? '') } : null,
+    contact: contact
+      ? {
+          id: String(contact.id),
+          full_name: strOrNull(contact.full_name),
+          email: strOrNull(contact.email),
+          phone: strOrNull(contact.phone),
+        }
+      : null,
+    project: project ? { id: String(project.id), name: String(project.name ?? '') } : null,
+  };
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Due dates
+// ────────────────────────────────────────────────────────────────────────────
+
+/** Start of the viewer's next local day (the exclusive end of today). */
+export function endOfLocalDay(now = new Date()): Date {
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+}
+
+/** Overdue = past its due time; today = due later today; upcoming = after today. */
+export function followUpDue(dueAt: string, now = new Date(), endOfDay = endOfLocalDay(now)): FollowUpDue {
+  const t = new Date(dueAt).getTime();
+  if (t < now.getTime()) return 'overdue';
+  if (t < endOfDay.getTime()) return 'today';
+  return 'upcoming';
+}
+
+/** "Call Jane Doe (Acme)" style label for lists and emails. */
+export function followUpTitle(f: CrmFollowUp): string {
+  const who = f.contact?.full_name || f.contact?.email || f.contact?.phone || f.project?.name || f.company?.name || '';
+  const where = f.contact || f.project ? f.company?.name : null;
+  return `${f.kind} ${who}${where ? ` (${where})` : ''}`.trim();
+}
+
+/**
+ * Most urgent open follow-up state per board card: company cards count the
+ * company's contact / project follow-ups too (they carry company_id).
+ */
+export function followUpDueByEntity(
+  rows: Array<Pick<CrmFollowUp, 'company_id' | 'contact_id' | 'project_id' | 'due_at'>>,
+  view: 'company' | 'contact' | 'project',
+  now = new Date()
+): Map<string, FollowUpDue> {
+  const end = endOfLocalDay(now);
+  const out = new Map<string, FollowUpDue>();
+  for (const r of rows) {
+    const id = view === 'company' ? r.company_id : view === 'contact' ? r.contact_id : r.project_id;
+    if (!id) continue;
+    const due = followUpDue(r.due_at, now, end);
+    if (due === 'upcoming') continue;
+    if (due === 'overdue' || !out.has(id)) out.set(id, due);
+  }
+  return out;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Queries
+// ────────────────────────────────────────────────────────────────────────────
+
+/** Open follow-ups due before `until` (all owners, or one). */
+export async function loadOpenFollowUps(db: Db, opts: { until?: Date; ownerId?: string } = {}): Promise<CrmFollowUp[]> {
+  let q = db.from('crm_follow_ups').select(FOLLOW_UP_SELECT).is('completed_at', null);
+  if (opts.until) q = q.lt('due_at', opts.until.toISOString());
+  if (opts.ownerId) q = q.eq('owner_id', opts.ownerId);
+  const res = await q.order('due_at', { ascending: true });
+  if (res.error) throw res.error;
+  return ((res.data ?? []) as unknown as Record<string, unknown>[]).map(normalizeFollowUp);
+}
+
+/** Follow-ups on one company / contact / project, open first, then recently completed. */
+export async function loadFollowUpsFor(db: Db, target: FollowUpTarget): Promise<CrmFollowUp[]> {
+  const column = target.contactId ? 'contact_id' : target.projectId ? 'project_id' : 'company_id';
+  const id = target.contactId ?? target.projectId ?? target.companyId;
+  if (!id) return [];
+  const res = await db
+    .from('crm_follow_ups')
+    .select(FOLLOW_UP_SELECT)
+    .eq(column, id)
+    .order('completed_at', { ascending: false, nullsFirst: true })
+    .order('due_at', { ascending: true })
+    .limit(50);
+  if (res.error) throw res.error;
+  return ((res.data ?? []) as unknown as Record<string, unknown>[]).map(normalizeFollowUp);
+}
+
+export async function createFollowUp(
+  db: Db,
+  target: FollowUpTarget,
+  input: { ownerId: string | null; dueAt: Date; kind: FollowUpKind; note: string; createdBy: string | null }
+) {
+  const res = await db.from('crm_follow_ups').insert({
+    company_id: target.companyId,
+    contact_id: target.contactId,
+    project_id: target.projectId,
+    owner_id: input.ownerId,
+    due_at: input.dueAt.toISOString(),
+    kind: input.kind,
+    note: input.note.trim() || null,
+    created_by: input.createdBy,
+  });
+  if (res.error) throw res.error;
+}
+
+export async function completeFollowUp(db: Db, id: string, userId: string | null) {
+  const res = await db
+    .from('crm_follow_ups')
+    .update({ completed_at: new Date().toISOString(), completed_by: userId })
+    .eq('id', id);
+  if (res.error) throw res.error;
+}
+
+/** Pushes the due time `days` days past the later of now and the current due time. */
+export async function snoozeFollowUp(db: Db, f: Pick<CrmFollowUp, 'id' | 'due_at'>, days = 1) {
+  const base = Math.max(Date.now(), new Date(f.due_at).getTime());
+  const res = await db
+    .from('crm_follow_ups')
+    .update({ due_at: new Date(base + days * 24 * 60 * 60 * 1000).toISOString() })
+    .eq('id', f.id);
+  if (res.error) throw res.error;
+}
+
+export async function deleteFollowUp(db: Db, id: string) {
+  const res = await db.from('crm_follow_ups').delete().eq('id', id);
+  if (res.error) throw res.error;
+}
@@ -0,0 +1,405 @@
+/**
+ * forecast.ts
+ * Deal forecasting for CRM projects (migration 038): each project carries a
+ * value, expected close date and win probability (or its stage's default),
+ * plus a won / lost outcome. Weighted pipeline by stage and by close month,
+ * win / loss totals with reasons, and stage-conversion rates from
+ * `crm_project_stage_history`. Used by the sales funnel board (deal fields on
+ * project cards) and the Forecast page. Safe to import from client code.
+ */
+
+import type { supabaseBrowser } from '@/src/lib/supabase/browser';
+
+type Db = ReturnType<typeof supabaseBrowser>;
+
+export type DealOutcome = 'won' | 'lost';
+
+export interface ForecastStage {
+  id: string;
+  name: string;
+  position: number;
+  default_probability: number | null;
+}
+
+export interface ForecastProject {
+  id: string;
+  name: string;
+  company_name: string | null;
+  stage_id: string | null;
+  value: number | null;
+  /** YYYY-MM-DD. */
+  expected_close_date: string | null;
+  /** Override; null = the stage's default_probability. */
+  probability: number | null;
+  outcome: DealOutcome | null;
+  outcome_reason: string | null;
+  closed_at: string | null;
+  created_at: string;
+}
+
+export interface StageHistoryRow {
+  project_id: string;
+  event: 'stage' | DealOutcome | 'reopened';
+  to_stage_id: string | null;
+  changed_at: string;
+}
+
+export type ForecastRange = 'this-quarter' | 'next-quarter' | 'this-year' | 'next-12-months' | 'all';
+
+export const FORECAST_RANGES: ReadonlyArray<{ value: ForecastRange; label: string }> = [
+  { value: 'this-quarter', label: 'This quarter' },
+  { value: 'next-quarter', label: 'Next quarter' },
+  { value: 'this-year', label: 'This year' },
+  { value: 'next-12-months', label: 'Next 12 months' },
+  { value: 'all', label: 'All' },
+];
+
+export const DEAL_SELECT = 'value,expected_close_date,probability,outcome,outcome_reason,closed_at';
+
+// ────────────────────────────────────────────────────────────────────────────
+// Values
+// ────────────────────────────────────────────────────────────────────────────
+
+const numOrNull = (v: unknown) => {
+  if (v === null || v === undefined || v === '') return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+};
+
+const strOrNull = (v: unknown) => (v === null || v === undefined || v === '' ? null : String(v));
+
+export function parseOutcome(v: unknown): DealOutcome | null {
+  return v === 'won' || v === 'lost' ? v : null;
+}
+
+/** Deal columns off a crm_projects row (numeric comes back as a string). */
+export function normalizeDeal(r: Record<string, unknown>) {
+  return {
+    value: numOrNull(r.value),
+    expected_close_date: strOrNull(r.expected_close_date),
+    probability: numOrNull(r.probability),
+    outcome: parseOutcome(r.outcome),
+    outcome_reason: strOrNull(r.outcome_reason),
+    closed_at: strOrNull(r.closed_at),
+  };
+}
+
+/** Won = 100, lost = 0, otherwise the project's override or the stage default. */
+export function effectiveProbability(
+  p: Pick<ForecastProject, 'probability' | 'outcome'>,
+  stageDefault: number | null | undefined
+): number {
+  if (p.outcome === 'won') return 100;
+  if (p.outcome === 'lost') return 0;
+  return p.probability ?? stageDefault ?? 0;
+}
+
+export function weightedValue(value: number | null, probability: number): number {
+  return ((value ?? 0) * probability) / 100;
+}
+
+const moneyFormat = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+
+export function formatMoney(n: number | null | undefined): string {
+  return n === null || n === undefined ? '—' : moneyFormat.format(n);
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Date ranges
+// ────────────────────────────────────────────────────────────────────────────
+
+const ymd = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+/** Local-date bounds of a range as YYYY-MM-DD, end exclusive; null = open. */
+export function forecastRangeBounds(range: ForecastRange, now = new Date()): { start: string | null; end: string | null } {
+  const y = now.getFullYear();
+  const q = Math.floor(now.getMonth() / 3) * 3;
+  switch (range) {
+    case 'this-quarter':
+      return { start: ymd(new Date(y, q, 1)), end: ymd(new Date(y, q + 3, 1)) };
+    case 'next-quarter':
+      return { start: ymd(new Date(y, q + 3, 1)), end: ymd(new Date(y, q + 6, 1)) };
+    case 'this-year':
+      return { start: ymd(new Date(y, 0, 1)), end: ymd(new Date(y + 1, 0, 1)) };
+    case 'next-12-months':
+      return { start: ymd(new Date(y, now.getMonth(), 1)), end: ymd(new Date(y, now.getMonth() + 12, 1)) };
+    default:
+      return { start: null, end: null };
+  }
+}
+
+/** Undated deals only count towards the "All" range. */
+function inRange(date: string | null, bounds: { start: string | null; end: string | null }) {
+  if (!bounds.start && !bounds.end) return true;
+  if (!date) return false;
+  return (!bounds.start || date >= bounds.start) && (!bounds.end || date < bounds.end);
+}
+
+/** Open deals expected to close within the range. */
+export function openDealsInRange(projects: ForecastProject[], range: ForecastRange, now = new Date()) {
+  const bounds = forecastRangeBounds(range, now);
+  return projects.filter((p) => !p.outcome && inRange(p.expected_close_date, bounds));
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Weighted pipeline
+// ────────────────────────────────────────────────────────────────────────────
+
+export interface PipelineRow {
+  key: string;
+  label: string;
+  deals: number;
+  value: number;
+  weighted: number;
+  /** Deals without a value (counted, but add nothing). */
+  unvalued: number;
+  /** Stage rows only. */
+  defaultProbability?: number | null;
+}
+
+function emptyRow(key: string, label: string): PipelineRow {
+  return { key, label, deals: 0, value: 0, weighted: 0, unvalued: 0 };
+}
+
+function addDeal(row: PipelineRow, p: ForecastProject, probability: number) {
+  row.deals += 1;
+  row.value += p.value ?? 0;
+  row.weighted += weightedValue(p.value, probability);
+  if (p.value === null) row.unvalued += 1;
+}
+
+/** Open deals per stage, in board order; deals without a stage come last. */
+export function pipelineByStage(deals: ForecastProject[], stages: ForecastStage[]): PipelineRow[] {
+  const byId = new Map(stages.map((s) => [s.id, s]));
+  const rows = new Map<string, PipelineRow>(
+    stages.map((s) => [s.id, { ...emptyRow(s.id, s.name), defaultProbability: s.default_probability }])
+  );
+  const none = emptyRow('', 'No stage');
+  for (const p of deals) {
+    const stage = p.stage_id ? byId.get(p.stage_id) : undefined;
+    addDeal(stage ? rows.get(stage.id)! : none, p, effectiveProbability(p, stage?.default_probability));
+  }
+  const out = [...rows.values()];
+  if (none.deals) out.push(none);
+  return out;
+}
+
+function monthLabel(key: string) {
+  const [y, m] = key.split('-').map(Number);
+  return new Date(y, m - 1, 1).toLocaleString('en-US', { month: 'short', year: 'numeric' });
+}
+
+/** Open deals per expected close month (YYYY-MM), oldest first; undated last. */
+export function pipelineByMonth(deals: ForecastProject[], stages: ForecastStage[]): PipelineRow[] {
+  const defaults = new Map(stages.map((s) => [s.id, s.default_probability]));
+  const rows = new Map<string, PipelineRow>();
+  const none = emptyRow('', 'No close date');
+  for (const p of deals) {
+    const key = p.expected_close_date?.slice(0, 7) ?? '';
+    let row = key ? rows.get(key) : none;
+    if (!row) {
+      row = emptyRow(key, monthLabel(key));
+      rows.set(key, row);
+    }
+    addDeal(row, p, effectiveProbability(p, p.stage_id ? defaults.get(p.stage_id) : null));
+  }
+  const out = [...rows.values()].sort((a, b) => a.key.localeCompare(b.key));
+  if (none.deals) out.push(none);
+  return out;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Win / loss
+// ────────────────────────────────────────────────────────────────────────────
+
+export interface OutcomeReason {
+  outcome: DealOutcome;
+  reason: string;
+  deals: number;
+  value: number;
+}
+
+export interface WinLossSummary {
+  won: { deals: number; value: number };
+  lost: { deals: number; value: number };
+  /** Share of closed deals won, 0..1; null when nothing closed. */
+  winRate: number | null;
+  /** Share of closed value won, 0..1; null when no closed value. */
+  valueWinRate: number | null;
+  reasons: OutcomeReason[];
+}
+
+/** Deals won or lost within the range (by the local date they closed). */
+export function winLoss(projects: ForecastProject[], range: ForecastRange, now = new Date()): WinLossSummary {
+  const bounds = forecastRangeBounds(range, now);
+  const won = { deals: 0, value: 0 };
+  const lost = { deals: 0, value: 0 };
+  const reasons = new Map<string, OutcomeReason>();
+
+  for (const p of projects) {
+    if (!p.outcome) continue;
+    const closed = p.closed_at ? ymd(new Date(p.closed_at)) : null;
+    if (!inRange(closed, bounds)) continue;
+    const bucket = p.outcome === 'won' ? won : lost;
+    bucket.deals += 1;
+    bucket.value += p.value ?? 0;
+
+    const reason = p.outcome_reason?.trim() || 'No reason given';
+    const key = `${p.outcome}|${reason.toLowerCase()}`;
+    const r = reasons.get(key) ?? { outcome: p.outcome, reason, deals: 0, value: 0 };
+    r.deals += 1;
+    r.value += p.value ?? 0;
+    reasons.set(key, r);
+  }
+
+  const closedDeals = won.deals + lost.deals;
+  const closedValue = won.value + lost.value;
+  return {
+    won,
+    lost,
+    winRate: closedDeals ? won.deals / closedDeals : null,
+    valueWinRate: closedValue ? won.value / closedValue : null,
+    reasons: [...reasons.values()].sort((a, b) => a.outcome.localeCompare(b.outcome) || b.deals - a.deals),
+  };
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Stage conversion
+// ────────────────────────────────────────────────────────────────────────────
+
+export interface StageConversionRow {
+  stageId: string;
+  label: string;
+  /** Projects that reached this stage (or a later one). */
+  entered: number;
+  /** Of those, projects that reached a later stage — or, for the last stage, were won. */
+  advanced: number;
+  /** advanced / entered, 0..1; null when none entered. */
+  rate: number | null;
+}
+
+/**
+ * Conversion per stage from the stage-change history. Stages are treated as a
+ * funnel in board order: a project that jumped straight to a later stage
+ * counts as having passed the ones before it.
+ */
+export function stageConversion(
+  stages: ForecastStage[],
+  projects: Array<Pick<ForecastProject, 'id' | 'stage_id' | 'outcome'>>,
+  history: StageHistoryRow[]
+): StageConversionRow[] {
+  const ordered = [...stages].sort((a, b) => a.position - b.position);
+  const index = new Map(ordered.map((s, i) => [s.id, i]));
+
+  const furthest = new Map<string, number>();
+  const reach = (projectId: string, stageId: string | null) => {
+    const i = stageId ? index.get(stageId) : undefined;
+    if (i === undefined) return;
+    furthest.set(projectId, Math.max(furthest.get(projectId) ?? -1, i));
+  };
+  for (const h of history) reach(h.project_id, h.to_stage_id);
+  for (const p of projects) reach(p.id, p.stage_id);
+
+  const won = new Set(projects.filter((p) => p.outcome === 'won').map((p) => p.id));
+  const last = ordered.length - 1;
+
+  return ordered.map((s, i) => {
+    let entered = 0;
+    let advanced = 0;
+    for (const [projectId, max] of furthest) {
+      if (max < i) continue;
+      entered += 1;
+      if (i < last ? max > i : won.has(projectId)) advanced += 1;
+    }
+    return { stageId: s.id, label: s.name, entered, advanced, rate: entered ? advanced / entered : null };
+  });
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Queries
+// ────────────────────────────────────────────────────────────────────────────
+
+/** Rows per page when loading a whole table (PostgREST caps responses at 1000). */
+const PAGE_SIZE = 1000;
+
+async function loadAll(db: Db, table: string, select: string, orderBy: string): Promise<Record<string, unknown>[]> {
+  const out: Record<string, unknown>[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const res = await db
+      .from(table)
+      .select(select)
+      .order(orderBy, { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (res.error) throw res.error;
+    const page = (res.data ?? []) as unknown as Record<string, unknown>[];
+    out.push(...page);
+    if (page.length < PAGE_SIZE) return out;
+  }
+}
+
+export interface ForecastData {
+  stages: ForecastStage[];
+  projects: ForecastProject[];
+  history: StageHistoryRow[];
+}
+
+/** Project stages, every project's deal fields and the stage-change history. */
+export async function loadForecastData(db: Db): Promise<ForecastData> {
+  const stagesRes = await db
+    .from('crm_stages')
+    .select('id,name,position,default_probability')
+    .eq('view_type', 'project')
+    .order('position', { ascending: true });
+  if (stagesRes.error) throw stagesRes.error;
+
+  const [projectRows, historyRows] = await Promise.all([
+    loadAll(db, 'crm_projects', `id,name,stage_id,created_at,${DEAL_SELECT},company:crm_companies!crm_projects_company_id_fkey(name)`, 'created_at'),
+    loadAll(db, 'crm_project_stage_history', 'project_id,event,to_stage_id,changed_at', 'changed_at'),
+  ]);
+
+  return {
+    stages: ((stagesRes.data ?? []) as Record<string, unknown>[]).map((s) => ({
+      id: String(s.id),
+      name: String(s.name ?? ''),
+      position: Number(s.position ?? 0),
+      default_probability: numOrNull(s.default_probability),
+    })),
+    projects: projectRows.map((r) => {
+      const company = Array.isArray(r.company) ? r.company[0] : r.company;
+      return {
+        id: String(r.id),
+        name: String(r.name ?? ''),
+        company_name: company && typeof company === 'object' ? strOrNull((company as Record<string, unknown>).name) : null,
+        stage_id: strOrNull(r.stage_id),
+        created_at: String(r.created_at),
+        ...normalizeDeal(r),
+      };
+    }),
+    history: historyRows.map((h) => ({
+      project_id: String(h.project_id),
+      event: (['won', 'lost', 'reopened'].includes(String(h.event)) ? h.event : 'stage') as StageHistoryRow['event'],
+      to_stage_id: strOrNull(h.to_stage_id),
+      changed_at: String(h.changed_at),
+    })),
+  };
+}
+
+/** Saves a project's deal fields; an outcome of null reopens the deal. */
+export async function saveProjectDeal(
+  db: Db,
+  projectId: string,
+  deal: {
+    value: number | null;
+    expected_close_date: string | null;
+    probability: number | null;
+    outcome: DealOutcome | null;
+    outcome_reason: string | null;
+  }
+) {
+  const res = await db
+    .from('crm_projects')
+    .update({ ...deal, outcome_reason: deal.outcome ? deal.outcome_reason?.trim() || null : null })
+    .eq('id', projectId);
+  if (res.error) throw res.error;
+}
@@ -0,0 +1,478 @@
+/**
+ * import-server.ts
+ * Runs (or dry-runs) one batch of normalized CRM import rows: matches
+ * companies by name and contacts by email / phone / name within their
+ * company, then creates or updates them with bulk queries.  The dry run goes
+ * through the same matching and returns the same report without writing.
+ * Server-only.
+ */
+
+import { supabaseAdmin } from '@/src/lib/supabase/admin';
+import {
+  cleanStr,
+  emptyImportReport,
+  hasContact,
+  type ImportDuplicateMode,
+  type ImportReport,
+  type ImportRowOutcome,
+  type ImportRowStatus,
+  type NormalizedImportRow,
+} from '@/src/lib/crm/import';
+
+type Admin = ReturnType<typeof supabaseAdmin>;
+
+export interface CrmImportOptions {
+  mode: ImportDuplicateMode;
+  /** Create company stages named in the file that don't exist yet (otherwise new companies get the first stage). */
+  createMissingStages: boolean;
+  dryRun: boolean;
+}
+
+/** Ids per `.in()` lookup and rows per bulk insert. */
+const QUERY_CHUNK = 200;
+
+/** Rows per page for lookups that can return many rows (PostgREST caps responses at 1000). */
+const PAGE_SIZE = 1000;
+
+type CustomFields = Record<string, unknown>;
+
+interface CompanyRecord {
+  id: string;
+  name: string;
+  name_lower: string;
+  website: string | null;
+  phone: string | null;
+  email: string | null;
+  notes: string | null;
+  stage_id: string | null;
+  custom_fields: CustomFields | null;
+}
+
+interface ContactRecord {
+  id: string;
+  company_id: string;
+  full_name: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  title: string | null;
+  phone: string | null;
+  email: string | null;
+  notes: string | null;
+  custom_fields: CustomFields | null;
+}
+
+interface CompanyGroup {
+  lower: string;
+  name: string;
+  website: string | null;
+  phone: string | null;
+  email: string | null;
+  notes: string | null;
+  stageName: string | null;
+  custom: Record<string, string>;
+  status: ImportRowStatus;
+  error?: string;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+  return out;
+}
+
+const lower = (v: unknown) => cleanStr(v).toLowerCase();
+
+/** Same normalization as crm_norm_phone(). */
+const phoneDigits = (v: unknown) => cleanStr(v).replace(/[^0-9]+/g, '');
+
+/** `label: "old" → "new"` when an incoming value would change the stored one; blanks never clear data. */
+function change(label: string, before: unknown, after: string | null): string | null {
+  if (!after) return null;
+  // Emails and phones compare the way their unique indexes do.
+  const norm = label === 'email' ? lower : label === 'phone' ? phoneDigits : cleanStr;
+  if (norm(before) === norm(after)) return null;
+  return `${label}: "${cleanStr(before)}" → "${after}"`;
+}
+
+function customChanges(before: CustomFields | null, incoming: Record<string, string>) {
+  const merged: CustomFields = { ...(before ?? {}) };
+  const changes: string[] = [];
+  for (const [key, value] of Object.entries(incoming)) {
+    const c = change(key, merged[key], value);
+    if (c) {
+      changes.push(c);
+      merged[key] = value;
+    }
+  }
+  return { merged, changes };
+}
+
+function contactLabel(r: { full_name: string | null; email: string | null; phone: string | null }): string {
+  return r.full_name || r.email || r.phone || '';
+}
+
+/** Keys a contact is unique by within its company (mirrors the email / phone unique indexes). */
+function contactKeys(companyLower: string, c: { email: string | null; phone: string | null; full_name: string | null }) {
+  const keys: string[] = [];
+  if (lower(c.email)) keys.push(`${companyLower}|e:${lower(c.email)}`);
+  if (phoneDigits(c.phone)) keys.push(`${companyLower}|p:${phoneDigits(c.phone)}`);
+  if (!keys.length && lower(c.full_name)) keys.push(`${companyLower}|n:${lower(c.full_name)}`);
+  return keys;
+}
+
+export async function processCrmImport(
+  admin: Admin,
+  rows: NormalizedImportRow[],
+  opts: CrmImportOptions
+): Promise<ImportReport> {
+  const report = emptyImportReport(opts.dryRun);
+  const outcomes = new Map<number, ImportRowOutcome>();
+  const setOutcome = (r: NormalizedImportRow, status: ImportRowStatus, message: string) =>
+    outcomes.set(r.row, { row: r.row, company: r.company, contact: contactLabel(r), status, message });
+
+  // ── Stages ────────────────────────────────────────────────────────────────
+  const stRes = await admin
+    .from('crm_stages')
+    .select('id,name,position')
+    .eq('view_type', 'company')
+    .order('position', { ascending: true });
+  if (stRes.error) throw stRes.error;
+  const stages = (stRes.data ?? []) as Array<{ id: string; name: string; position: number }>;
+  const stageByLower = new Map(stages.map((s) => [lower(s.name), s.id]));
+  const stageNameById = new Map(stages.map((s) => [s.id, s.name]));
+  const defaultStageId = stages[0]?.id ?? null;
+
+  const unmatched = new Map<string, { name: string; rows: number }>();
+  for (const r of rows) {
+    if (!r.stageName || stageByLower.has(lower(r.stageName))) continue;
+    const u = unmatched.get(lower(r.stageName)) ?? { name: r.stageName, rows: 0 };
+    u.rows++;
+    unmatched.set(lower(r.stageName), u);
+  }
+  if (unmatched.size && opts.createMissingStages && !opts.dryRun) {
+    let position = Math.max(0, ...stages.map((s) => s.position));
+    const ins = await admin
+      .from('crm_stages')
+      .insert([...unmatched.values()].map((u) => ({ name: u.name, position: (position += 10), view_type: 'company' })))
+      .select('id,name');
+    if (ins.error) throw ins.error;
+    for (const s of (ins.data ?? []) as Array<{ id: string; name: string }>) {
+      stageByLower.set(lower(s.name), s.id);
+      stageNameById.set(s.id, s.name);
+    }
+  }
+  report.unmatchedStages = [...unmatched.values()].map((u) => ({ ...u, created: opts.createMissingStages }));
+  const resolveStage = (name: string | null) => (name ? stageByLower.get(lower(name)) ?? null : null);
+
+  // ── Companies ─────────────────────────────────────────────────────────────
+  const groups = new Map<string, CompanyGroup>();
+  for (const r of rows) {
+    const key = lower(r.company);
+    const g =
+      groups.get(key) ??
+      ({
+        lower: key,
+        name: r.company,
+        website: null,
+        phone: null,
+        email: null,
+        notes: null,
+        stageName: null,
+        custom: {},
+        status: 'unchanged',
+      } as CompanyGroup);
+    // First non-empty value per field wins.
+    g.website ??= r.website;
+    g.phone ??= r.companyPhone;
+    g.email ??= r.companyEmail;
+    g.notes ??= r.companyNotes;
+    g.stageName ??= r.stageName;
+    for (const [k, v] of Object.entries(r.companyCustom)) g.custom[k] ??= v;
+    groups.set(key, g);
+  }
+
+  const existingCompanies = new Map<string, CompanyRecord>();
+  for (const part of chunk([...groups.keys()], QUERY_CHUNK)) {
+    const res = await admin
+      .from('crm_companies')
+      .select('id,name,name_lower,website,phone,email,notes,stage_id,custom_fields')
+      .in('name_lower', part);
+    if (res.error) throw res.error;
+    for (const c of (res.data ?? []) as CompanyRecord[]) existingCompanies.set(c.name_lower, c);
+  }
+
+  const companyIdByLower = new Map<string, string>();
+  const newCompanies: Array<{ group: CompanyGroup; payload: Record<string, unknown> }> = [];
+  const companyUpdates: Array<{ group: CompanyGroup; id: string; fields: Record<string, unknown> }> = [];
+
+  for (const g of groups.values()) {
+    const ex = existingCompanies.get(g.lower);
+    if (!ex) {
+      const stageId = resolveStage(g.stageName) ?? defaultStageId;
+      const changes = [
+        change('website', null, g.website),
+        change('phone', null, g.phone),
+        change('email', null, g.email),
+        change('notes', null, g.notes),
+        // Dry runs don't create missing stages; show the one the import would create.
+        opts.dryRun && opts.createMissingStages && g.stageName && !resolveStage(g.stageName)
+          ? `stage: "${g.stageName}" (new stage)`
+          : stageId
+            ? `stage: "${stageNameById.get(stageId) ?? ''}"`
+            : null,
+        ...customChanges(null, g.custom).changes,
+      ].filter((c): c is string => !!c);
+      newCompanies.push({
+        group: g,
+        payload: {
+          name: g.name,
+          website: g.website,
+          phone: g.phone,
+          email: g.email,
+          notes: g.notes,
+          stage_id: stageId,
+          custom_fields: g.custom,
+        },
+      });
+      g.status = 'new';
+      report.companies.created++;
+      report.companyChanges.push({ company: g.name, contact: '', status: 'new', changes });
+      continue;
+    }
+
+    companyIdByLower.set(g.lower, ex.id);
+    if (opts.mode === 'skip') {
+      report.companies.unchanged++;
+      continue;
+    }
+
+    const fields: Record<string, unknown> = {};
+    const changes: string[] = [];
+    for (const [col, value] of [
+      ['website', g.website],
+      ['phone', g.phone],
+      ['email', g.email],
+      ['notes', g.notes],
+    ] as const) {
+      const c = change(col, ex[col], value);
+      if (c) {
+        changes.push(c);
+        fields[col] = value;
+      }
+    }
+    const stageId = resolveStage(g.stageName);
+    if (stageId && stageId !== ex.stage_id) {
+      changes.push(`stage: "${stageNameById.get(ex.stage_id ?? '') ?? ''}" → "${stageNameById.get(stageId) ?? ''}"`);
+      fields.stage_id = stageId;
+    }
+    const custom = customChanges(ex.custom_fields, g.custom);
+    if (custom.changes.length) {
+      changes.push(...custom.changes);
+      fields.custom_fields = custom.merged;
+    }
+
+    if (changes.length) {
+      g.status = 'updated';
+      companyUpdates.push({ group: g, id: ex.id, fields });
+      report.companies.updated++;
+      report.companyChanges.push({ company: ex.name, contact: '', status: 'updated', changes });
+    } else {
+      report.companies.unchanged++;
+    }
+  }
+
+  if (!opts.dryRun) {
+    for (const part of chunk(newCompanies, QUERY_CHUNK)) {
+      // ignoreDuplicates: a company created meanwhile (e.g. by the previous batch) is looked up below.
+      const ins = await admin
+        .from('crm_companies')
+        .upsert(
+          part.map((p) => p.payload),
+          { onConflict: 'name_lower', ignoreDuplicates: true }
+        )
+        .select('id,name_lower');
+      if (ins.error) {
+        for (const p of part) p.group.error = ins.error.message;
+        report.companies.created -= part.length;
+        continue;
+      }
+      for (const c of (ins.data ?? []) as Array<{ id: string; name_lower: string }>) companyIdByLower.set(c.name_lower, c.id);
+    }
+    const missing = newCompanies.filter((p) => !p.group.error && !companyIdByLower.has(p.group.lower)).map((p) => p.group.lower);
+    for (const part of chunk(missing, QUERY_CHUNK)) {
+      const res = await admin.from('crm_companies').select('id,name_lower').in('name_lower', part);
+      if (res.error) throw res.error;
+      for (const c of (res.data ?? []) as Array<{ id: string; name_lower: string }>) companyIdByLower.set(c.name_lower, c.id);
+    }
+
+    for (const u of companyUpdates) {
+      const { error } = await admin.from('crm_companies').update(u.fields).eq('id', u.id);
+      if (error) {
+        u.group.error = error.message;
+        report.companies.updated--;
+      }
+    }
+  }
+
+  // ── Contacts ──────────────────────────────────────────────────────────────
+  const existingContacts = new Map<string, ContactRecord>();
+  const lowerByCompanyId = new Map([...existingCompanies.values()].map((c) => [c.id, c.name_lower]));
+  for (const part of chunk([...lowerByCompanyId.keys()], QUERY_CHUNK)) {
+    // 200 companies can hold far more than one page of contacts.
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const res = await admin
+        .from('crm_contacts')
+        .select('id,company_id,full_name,first_name,last_name,title,phone,email,notes,custom_fields')
+        .in('company_id', part)
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+      if (res.error) throw res.error;
+      const page = (res.data ?? []) as ContactRecord[];
+      for (const c of page) {
+        const companyLower = lowerByCompanyId.get(c.company_id) ?? '';
+        // Index existing contacts by every key so any of them matches.
+        for (const k of [
+          ...contactKeys(companyLower, c),
+          ...(lower(c.full_name) ? [`${companyLower}|n:${lower(c.full_name)}`] : []),
+        ]) {
+          if (!existingContacts.has(k)) existingContacts.set(k, c);
+        }
+      }
+      if (page.length < PAGE_SIZE) break;
+    }
+  }
+
+  const claimed = new Map<string, number>();
+  const contactInserts: Array<{ row: NormalizedImportRow; companyLower: string; payload: Record<string, unknown> }> = [];
+  const contactUpdates: Array<{ row: NormalizedImportRow; id: string; fields: Record<string, unknown> }> = [];
+  const mainContact = new Map<string, { row: NormalizedImportRow; id: string | null }>();
+
+  for (const r of rows) {
+    const g = groups.get(lower(r.company))!;
+    if (g.error) {
+      setOutcome(r, 'error', `Company not saved: ${g.error}`);
+      continue;
+    }
+    if (!hasContact(r)) {
+      setOutcome(r, g.status, g.status === 'new' ? 'New company' : g.status === 'updated' ? 'Company updated' : 'No changes');
+      continue;
+    }
+
+    const keys = contactKeys(g.lower, r);
+    const dupOf = keys.map((k) => claimed.get(k)).find((n) => n !== undefined);
+    if (dupOf !== undefined) {
+      setOutcome(r, 'duplicate', `Same contact as row ${dupOf}`);
+      report.duplicatesSkipped++;
+      continue;
+    }
+    for (const k of keys) claimed.set(k, r.row);
+
+    const match = keys.map((k) => existingContacts.get(k)).find(Boolean);
+    if (match) {
+      if (opts.mode === 'skip') {
+        setOutcome(r, 'duplicate', 'Contact already exists');
+        report.duplicatesSkipped++;
+        continue;
+      }
+      const fields: Record<string, unknown> = {};
+      const changes: string[] = [];
+      for (const col of ['full_name', 'first_name', 'last_name', 'title', 'phone', 'email', 'notes'] as const) {
+        const c = change(col, match[col], r[col]);
+        if (c) {
+          changes.push(c);
+          fields[col] = r[col];
+        }
+      }
+      const custom = customChanges(match.custom_fields, r.contactCustom);
+      if (custom.changes.length) {
+        changes.push(...custom.changes);
+        fields.custom_fields = custom.merged;
+      }
+
+      if (changes.length) {
+        contactUpdates.push({ row: r, id: match.id, fields });
+        report.contacts.updated++;
+        report.contactChanges.push({ company: r.company, contact: contactLabel(r), status: 'updated', changes });
+        setOutcome(r, 'updated', changes.join('; '));
+      } else {
+        report.contacts.unchanged++;
+        setOutcome(r, 'unchanged', 'No changes');
+      }
+      if (r.is_main && !mainContact.has(g.lower)) mainContact.set(g.lower, { row: r, id: match.id });
+      continue;
+    }
+
+    const payload = {
+      full_name: r.full_name,
+      first_name: r.first_name,
+      last_name: r.last_name,
+      title: r.title,
+      phone: r.phone,
+      email: r.email,
+      notes: r.notes,
+      custom_fields: r.contactCustom,
+    };
+    contactInserts.push({ row: r, companyLower: g.lower, payload });
+    report.contacts.created++;
+    report.contactChanges.push({
+      company: r.company,
+      contact: contactLabel(r),
+      status: 'new',
+      changes: Object.entries(payload)
+        .filter(([k, v]) => k !== 'custom_fields' && v)
+        .map(([k, v]) => `${k}: "${v}"`)
+        .concat(customChanges(null, r.contactCustom).changes),
+    });
+    setOutcome(r, 'new', g.status === 'new' ? 'New contact at new company' : 'New contact');
+    if (r.is_main && !mainContact.has(g.lower)) mainContact.set(g.lower, { row: r, id: null });
+  }
+
+  if (!opts.dryRun) {
+    const insertedId = new Map<number, string>();
+    const fail = (r: NormalizedImportRow, message: string) => {
+      const was = outcomes.get(r.row)?.status;
+      if (was === 'new') report.contacts.created--;
+      if (was === 'updated') report.contacts.updated--;
+      setOutcome(r, 'error', message);
+    };
+
+    for (const part of chunk(contactInserts, QUERY_CHUNK)) {
+      const ready = part.filter((c) => {
+        if (companyIdByLower.has(c.companyLower)) return true;
+        fail(c.row, 'Company not found after insert');
+        return false;
+      });
+      if (!ready.length) continue;
+      const payload = ready.map((c) => ({ ...c.payload, company_id: companyIdByLower.get(c.companyLower) }));
+
+      const ins = await admin.from('crm_contacts').insert(payload).select('id');
+      if (!ins.error) {
+        (ins.data ?? []).forEach((d, i) => ready[i] && insertedId.set(ready[i].row.row, String(d.id)));
+        continue;
+      }
+      // One bad row fails the whole insert: retry one by one to pin the error to its row.
+      for (let i = 0; i < ready.length; i++) {
+        const one = await admin.from('crm_contacts').insert(payload[i]).select('id').single();
+        if (one.error) fail(ready[i].row, one.error.message);
+        else insertedId.set(ready[i].row.row, String(one.data.id));
+      }
+    }
+
+    for (const u of contactUpdates) {
+      const { error } = await admin.from('crm_contacts').update(u.fields).eq('id', u.id);
+      if (error) fail(u.row, error.message);
+    }
+
+    for (const [companyLower, m] of mainContact) {
+      const contactId = m.id ?? insertedId.get(m.row.row);
+      const companyId = companyIdByLower.get(companyLower);
+      if (!contactId || !companyId) continue;
+      const { error } = await admin.rpc('crm_set_main_contact', { p_company_id: companyId, p_contact_id: contactId });
+      if (error) setOutcome(m.row, 'error', `Saved, but not set as main contact: ${error.message}`);
+    }
+  }
+
+  report.rows = [...outcomes.values()].sort((a, b) => a.row - b.row);
+  report.errors = report.rows.filter((r) => r.status === 'error').length;
+  return report;
+}
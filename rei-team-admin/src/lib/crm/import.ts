@@ -0,0 +1,356 @@
+/**
+ * import.ts
+ * CRM import (sales funnel → Import CSV / XLSX): column mapping, row
+ * normalization and the dry-run / import report shared by the wizard
+ * (src/components/sales-funnel/ImportWizard.tsx) and the batch endpoint
+ * (/api/crm/import, import-server.ts).
+ *
+ * Each file row is one contact at a company.  Columns map to a standard
+ * field or to a company / contact custom field (`custom_fields`, migration
+ * 035); mappings can be saved as presets (`crm_import_mappings`).
+ *
+ * Safe to import from both client and server code.
+ */
+
+import Papa from 'papaparse';
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Fields & mapping
+// ──────────────────────────────────────────────────────────────────────────────
+
+export const CRM_IMPORT_FIELDS = [
+  { key: 'company', label: 'Company name', synonyms: ['company', 'companyname', 'business', 'organization'] },
+  { key: 'website', label: 'Company website', synonyms: ['website', 'domain', 'url'] },
+  { key: 'companyPhone', label: 'Company phone', synonyms: ['companyphone', 'mainphone', 'officephone'] },
+  { key: 'companyEmail', label: 'Company email', synonyms: ['companyemail', 'generalemail', 'officeemail'] },
+  { key: 'companyNotes', label: 'Company notes', synonyms: ['companynotes'] },
+  { key: 'stage', label: 'Stage', synonyms: ['stage', 'status', 'funnelstage'] },
+  { key: 'firstName', label: 'Contact first name', synonyms: ['firstname', 'first', 'fname', 'givenname'] },
+  { key: 'lastName', label: 'Contact last name', synonyms: ['lastname', 'last', 'lname', 'surname', 'familyname'] },
+  { key: 'fullName', label: 'Contact full name', synonyms: ['fullname', 'name', 'contactname'] },
+  { key: 'title', label: 'Contact title', synonyms: ['title', 'jobtitle', 'position', 'role'] },
+  { key: 'phone', label: 'Contact phone', synonyms: ['phone', 'phonenumber', 'mobile', 'cell', 'tel'] },
+  { key: 'email', label: 'Contact email', synonyms: ['email', 'emailaddress'] },
+  { key: 'notes', label: 'Contact notes', synonyms: ['notes', 'note', 'comments', 'comment'] },
+  { key: 'isMain', label: 'Main contact (yes/no)', synonyms: ['ismain', 'main', 'primary', 'primarycontact', 'maincontact'] },
+] as const;
+
+export type ImportFieldKey = (typeof CRM_IMPORT_FIELDS)[number]['key'];
+
+/** Where one file column goes: a standard field, a custom field, or nowhere (''). */
+export interface ColumnTarget {
+  field: ImportFieldKey | 'company_custom' | 'contact_custom' | '';
+  /** Key inside `custom_fields` for custom targets. */
+  customKey?: string;
+}
+
+/** File header → target.  Stored as-is in `crm_import_mappings.mapping`. */
+export type ImportMapping = Record<string, ColumnTarget>;
+
+/** Largest file (in rows) one dry run accepts; imports go in CRM_IMPORT_BATCH_ROWS batches. */
+export const CRM_IMPORT_MAX_ROWS = 10_000;
+export const CRM_IMPORT_BATCH_ROWS = 250;
+
+export function cleanStr(v: unknown): string {
+  return String(v ?? '').trim();
+}
+
+function toKey(s: string): string {
+  return cleanStr(s).toLowerCase().replace(/[^a-z0-9]+/g, '');
+}
+
+/** Custom field key from a header, e.g. "Lead Source" → "lead_source". */
+export function customKeyFromHeader(header: string): string {
+  return cleanStr(header)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/** Header prefixes for custom fields, as written by the CRM export (export.ts). */
+export const COMPANY_CUSTOM_HEADER_PREFIX = 'Company custom: ';
+export const CONTACT_CUSTOM_HEADER_PREFIX = 'Contact custom: ';
+
+/** Guesses a mapping from header names; unrecognized columns are ignored. */
+export function inferImportMapping(headers: string[]): ImportMapping {
+  const mapping: ImportMapping = {};
+  const used = new Set<string>();
+  for (const h of headers) {
+    mapping[h] = { field: '' };
+    for (const [prefix, field] of [
+      [COMPANY_CUSTOM_HEADER_PREFIX, 'company_custom'],
+      [CONTACT_CUSTOM_HEADER_PREFIX, 'contact_custom'],
+    ] as const) {
+      if (h.toLowerCase().startsWith(prefix.toLowerCase()) && h.length > prefix.length) {
+        mapping[h] = { field, customKey: customKeyFromHeader(h.slice(prefix.length)) };
+        used.add(h);
+      }
+    }
+  }
+
+  // Field order decides ties: "Name" is a contact name only if nothing better claims it.
+  for (const f of CRM_IMPORT_FIELDS) {
+    const hit = f.synonyms
+      .map((s) => headers.find((h) => !used.has(h) && toKey(h) === s))
+      .find(Boolean);
+    if (hit) {
+      mapping[hit] = { field: f.key };
+      used.add(hit);
+    }
+  }
+  return mapping;
+}
+
+/** A saved preset applied to this file's headers; headers the preset doesn't know fall back to inference. */
+export function applyMappingPreset(headers: string[], preset: ImportMapping): ImportMapping {
+  const inferred = inferImportMapping(headers);
+  const presetFields = new Set(Object.values(preset).map((t) => t.field).filter(Boolean));
+  const mapping: ImportMapping = {};
+  for (const h of headers) {
+    const saved = preset[h];
+    if (saved) mapping[h] = { ...saved };
+    else if (inferred[h].field && !presetFields.has(inferred[h].field)) mapping[h] = inferred[h];
+    else mapping[h] = { field: '' };
+  }
+  return mapping;
+}
+
+/** Problems that block the dry run: no company column, a field mapped twice, custom fields without a key. */
+export function mappingProblems(mapping: ImportMapping): string[] {
+  const problems: string[] = [];
+  const byField = new Map<string, string[]>();
+  for (const [header, t] of Object.entries(mapping)) {
+    if (!t.field) continue;
+    if (t.field === 'company_custom' || t.field === 'contact_custom') {
+      if (!customKeyFromHeader(t.customKey ?? '')) problems.push(`"${header}" needs a custom field name.`);
+      continue;
+    }
+    byField.set(t.field, [...(byField.get(t.field) ?? []), header]);
+  }
+  if (!byField.has('company')) problems.push('Map a column to "Company name" — every row needs a company.');
+  for (const f of CRM_IMPORT_FIELDS) {
+    const headers = byField.get(f.key);
+    if (headers && headers.length > 1) problems.push(`${f.label} is mapped from several columns: ${headers.join(', ')}.`);
+  }
+  return problems;
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Normalized rows
+// ──────────────────────────────────────────────────────────────────────────────
+
+export interface NormalizedImportRow {
+  /** Spreadsheet row number (the header is row 1). */
+  row: number;
+  company: string;
+  website: string | null;
+  companyPhone: string | null;
+  companyEmail: string | null;
+  companyNotes: string | null;
+  stageName: string | null;
+  full_name: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  title: string | null;
+  phone: string | null;
+  email: string | null;
+  notes: string | null;
+  is_main: boolean;
+  companyCustom: Record<string, string>;
+  contactCustom: Record<string, string>;
+}
+
+export interface RowIssue {
+  row: number;
+  company: string;
+  message: string;
+}
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function truthy(v: unknown): boolean {
+  return ['1', 'true', 'yes', 'y', 'x', 'main', 'primary'].includes(cleanStr(v).toLowerCase());
+}
+
+/** True when the row carries any contact data (otherwise it only creates / updates the company). */
+export function hasContact(r: NormalizedImportRow): boolean {
+  return !!(r.full_name || r.email || r.phone);
+}
+
+/** Applies a mapping to raw file rows; rows that can't be imported come back as issues. */
+export function normalizeImportRows(
+  rows: Array<Record<string, unknown>>,
+  mapping: ImportMapping
+): { rows: NormalizedImportRow[]; issues: RowIssue[] } {
+  const headerFor = new Map<string, string>();
+  const custom: Array<{ header: string; scope: 'company' | 'contact'; key: string }> = [];
+  for (const [header, t] of Object.entries(mapping)) {
+    if (t.field === 'company_custom' || t.field === 'contact_custom') {
+      const key = customKeyFromHeader(t.customKey ?? '');
+      if (key) custom.push({ header, scope: t.field === 'company_custom' ? 'company' : 'contact', key });
+    } else if (t.field) {
+      headerFor.set(t.field, header);
+    }
+  }
+  const get = (r: Record<string, unknown>, field: ImportFieldKey) => {
+    const h = headerFor.get(field);
+    return h ? cleanStr(r[h]) : '';
+  };
+
+  const out: NormalizedImportRow[] = [];
+  const issues: RowIssue[] = [];
+
+  rows.forEach((r, i) => {
+    const row = i + 2;
+    const company = get(r, 'company');
+    if (!company) {
+      issues.push({ row, company: '', message: 'Missing company name' });
+      return;
+    }
+
+    const first = get(r, 'firstName');
+    const last = get(r, 'lastName');
+    const fullName = get(r, 'fullName') || [first, last].filter(Boolean).join(' ');
+
+    const email = get(r, 'email');
+    if (email && !EMAIL_RE.test(email)) {
+      issues.push({ row, company, message: `Invalid email: ${email}` });
+      return;
+    }
+    const companyEmail = get(r, 'companyEmail');
+    if (companyEmail && !EMAIL_RE.test(companyEmail)) {
+      issues.push({ row, company, message: `Invalid company email: ${companyEmail}` });
+      return;
+    }
+
+    const companyCustom: Record<string, string> = {};
+    const contactCustom: Record<string, string> = {};
+    for (const c of custom) {
+      const v = cleanStr(r[c.header]);
+      if (v) (c.scope === 'company' ? companyCustom : contactCustom)[c.key] = v;
+    }
+
+    out.push({
+      row,
+      company,
+      website: get(r, 'website') || null,
+      companyPhone: get(r, 'companyPhone') || null,
+      companyEmail: companyEmail || null,
+      companyNotes: get(r, 'companyNotes') || null,
+      stageName: get(r, 'stage') || null,
+      full_name: fullName || null,
+      first_name: first || null,
+      last_name: last || null,
+      title: get(r, 'title') || null,
+      phone: get(r, 'phone') || null,
+      email: email || null,
+      notes: get(r, 'notes') || null,
+      is_main: headerFor.has('isMain') ? truthy(get(r, 'isMain')) : false,
+      companyCustom,
+      contactCustom,
+    });
+  });
+
+  return { rows: out, issues };
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Report
+// ──────────────────────────────────────────────────────────────────────────────
+
+export type ImportDuplicateMode = 'upsert' | 'skip';
+
+export type ImportRowStatus = 'new' | 'updated' | 'unchanged' | 'duplicate' | 'error';
+
+export interface ImportRowOutcome {
+  row: number;
+  company: string;
+  contact: string;
+  status: ImportRowStatus;
+  message: string;
+}
+
+export interface ImportChange {
+  company: string;
+  /** Contact name / email for contact changes; empty for company changes. */
+  contact: string;
+  status: 'new' | 'updated';
+  /** e.g. `website: "" → "acme.com"` */
+  changes: string[];
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  companies: { created: number; updated: number; unchanged: number };
+  contacts: { created: number; updated: number; unchanged: number };
+  duplicatesSkipped: number;
+  errors: number;
+  /** Stage names in the file with no matching company stage, and how many rows use each. */
+  unmatchedStages: Array<{ name: string; rows: number; created: boolean }>;
+  companyChanges: ImportChange[];
+  contactChanges: ImportChange[];
+  rows: ImportRowOutcome[];
+}
+
+export function emptyImportReport(dryRun: boolean): ImportReport {
+  return {
+    dryRun,
+    companies: { created: 0, updated: 0, unchanged: 0 },
+    contacts: { created: 0, updated: 0, unchanged: 0 },
+    duplicatesSkipped: 0,
+    errors: 0,
+    unmatchedStages: [],
+    companyChanges: [],
+    contactChanges: [],
+    rows: [],
+  };
+}
+
+/** Combines the reports of consecutive import batches. */
+export function mergeImportReports(a: ImportReport, b: ImportReport): ImportReport {
+  const stages = new Map(a.unmatchedStages.map((s) => [s.name.toLowerCase(), { ...s }]));
+  for (const s of b.unmatchedStages) {
+    const prev = stages.get(s.name.toLowerCase());
+    if (prev) {
+      prev.rows += s.rows;
+      prev.created = prev.created || s.created;
+    } else {
+      stages.set(s.name.toLowerCase(), { ...s });
+    }
+  }
+  const add = <T extends Record<string, number>>(x: T, y: T) =>
+    Object.fromEntries(Object.keys(x).map((k) => [k, x[k] + y[k]])) as T;
+
+  return {
+    dryRun: a.dryRun && b.dryRun,
+    companies: add(a.companies, b.companies),
+    contacts: add(a.contacts, b.contacts),
+    duplicatesSkipped: a.duplicatesSkipped + b.duplicatesSkipped,
+    errors: a.errors + b.errors,
+    unmatchedStages: [...stages.values()],
+    companyChanges: [...a.companyChanges, ...b.companyChanges],
+    contactChanges: [...a.contactChanges, ...b.contactChanges],
+    rows: [...a.rows, ...b.rows],
+  };
+}
+
+/** Adds rows rejected during normalization (never sent to the server) to a report. */
+export function withRowIssues(report: ImportReport, issues: RowIssue[]): ImportReport {
+  return {
+    ...report,
+    errors: report.errors + issues.length,
+    rows: [
+      ...report.rows,
+      ...issues.map((i) => ({ row: i.row, company: i.company, contact: '', status: 'error' as const, message: i.message })),
+    ],
+  };
+}
+
+/** Per-row report (errors and skipped duplicates) as CSV for download. */
+export function importIssuesCsv(report: ImportReport): string {
+  const rows = report.rows
+    .filter((r) => r.status === 'error' || r.status === 'duplicate')
+    .sort((x, y) => x.row - y.row)
+    .map((r) => ({ Row: r.row, Company: r.company, Contact: r.contact, Status: r.status, Message: r.message }));
+  return Papa.unparse(rows, { columns: ['Row', 'Company', 'Contact', 'Status', 'Message'] });
+}
@@ -0,0 +1,205 @@
+/**
+ * merge-server.ts
+ * Loads CRM companies / contacts, groups likely duplicates (dedupe.ts) and
+ * merges a group into one surviving record through the
+ * `crm_merge_companies` / `crm_merge_contacts` RPCs, which re-point
+ * activities, projects, project links and main_contact_id and write
+ * `crm_merge_log`.  Server-only.
+ */
+
+import { supabaseAdmin } from '@/src/lib/supabase/admin';
+import {
+  MERGE_FIELDS,
+  findDuplicateCompanies,
+  findDuplicateContacts,
+  type DedupeEntity,
+  type DuplicateGroupWithRecords,
+  type MergeCompanyRecord,
+  type MergeContactRecord,
+} from '@/src/lib/crm/dedupe';
+
+type Admin = ReturnType<typeof supabaseAdmin>;
+
+/** Rows per page when loading the full table (PostgREST caps responses at 1000). */
+const PAGE_SIZE = 1000;
+
+const ID_FIELDS = new Set(['stage_id', 'main_contact_id', 'company_id']);
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type Row = Record<string, unknown>;
+
+async function loadAll(admin: Admin, table: string, select: string): Promise<Row[]> {
+  const out: Row[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const res = await admin
+      .from(table)
+      .select(select)
+      .order('created_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (res.error) throw new Error(res.error.message);
+    const page = (res.data ?? []) as unknown as Row[];
+    out.push(...page);
+    if (page.length < PAGE_SIZE) return out;
+  }
+}
+
+const strOrNull = (v: unknown) => (v === null || v === undefined ? null : String(v));
+const customOf = (v: unknown) => (v && typeof v === 'object' && !Array.isArray(v) ? (v as Record<string, unknown>) : {});
+
+// ────────────────────────────────────────────────────────────────────────────
+// Find
+// ────────────────────────────────────────────────────────────────────────────
+
+export async function findCrmDuplicates(admin: Admin, entity: DedupeEntity): Promise<DuplicateGroupWithRecords[]> {
+  const companyRows = await loadAll(
+    admin,
+    'crm_companies',
+    'id,name,website,phone,email,notes,stage_id,main_contact_id,custom_fields,last_activity_at,created_at'
+  );
+  const contactRows = await loadAll(
+    admin,
+    'crm_contacts',
+    'id,company_id,first_name,last_name,full_name,title,phone,email,notes,stage_id,is_main,custom_fields,last_activity_at,created_at'
+  );
+
+  const companyName = new Map(companyRows.map((c) => [String(c.id), String(c.name ?? '')]));
+  const contacts: MergeContactRecord[] = contactRows.map((c) => ({
+    id: String(c.id),
+    company_id: String(c.company_id),
+    company_name: companyName.get(String(c.company_id)) ?? null,
+    first_name: strOrNull(c.first_name),
+    last_name: strOrNull(c.last_name),
+    full_name: strOrNull(c.full_name),
+    title: strOrNull(c.title),
+    phone: strOrNull(c.phone),
+    email: strOrNull(c.email),
+    notes: strOrNull(c.notes),
+    stage_id: strOrNull(c.stage_id),
+    is_main: !!c.is_main,
+    custom_fields: customOf(c.custom_fields),
+    last_activity_at: strOrNull(c.last_activity_at),
+    created_at: String(c.created_at),
+  }));
+
+  if (entity === 'contact') {
+    const byId = new Map(contacts.map((c) => [c.id, c]));
+    return findDuplicateContacts(contacts).map((g) => ({
+      ...g,
+      entity: 'contact' as const,
+      records: g.ids.map((id) => byId.get(id)!),
+    }));
+  }
+
+  const contactById = new Map(contacts.map((c) => [c.id, c]));
+  const contactCount = new Map<string, number>();
+  for (const c of contacts) contactCount.set(c.company_id, (contactCount.get(c.company_id) ?? 0) + 1);
+
+  const companies: MergeCompanyRecord[] = companyRows.map((c) => {
+    const main = contactById.get(String(c.main_contact_id ?? ''));
+    return {
+      id: String(c.id),
+      name: String(c.name ?? ''),
+      website: strOrNull(c.website),
+      phone: strOrNull(c.phone),
+      email: strOrNull(c.email),
+      notes: strOrNull(c.notes),
+      stage_id: strOrNull(c.stage_id),
+      main_contact_id: strOrNull(c.main_contact_id),
+      main_contact_name: main ? main.full_name || [main.first_name, main.last_name].filter(Boolean).join(' ') || main.email : null,
+      custom_fields: customOf(c.custom_fields),
+      contact_count: contactCount.get(String(c.id)) ?? 0,
+      last_activity_at: strOrNull(c.last_activity_at),
+      created_at: String(c.created_at),
+    };
+  });
+  const byId = new Map(companies.map((c) => [c.id, c]));
+  return findDuplicateCompanies(companies).map((g) => ({
+    ...g,
+    entity: 'company' as const,
+    records: g.ids.map((id) => byId.get(id)!),
+  }));
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Merge
+// ────────────────────────────────────────────────────────────────────────────
+
+export interface CrmMergeInput {
+  entity: DedupeEntity;
+  survivorId: string;
+  mergedIds: string[];
+  /** Chosen survivor values; keys outside MERGE_FIELDS (and custom_fields) are dropped. */
+  values: Record<string, unknown>;
+  userId: string | null;
+}
+
+export interface CrmMergeResult {
+  merged: number;
+  moved: Record<string, number>;
+}
+
+/** Invalid merge request (reported as 400). */
+export class CrmMergeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CrmMergeError';
+  }
+}
+
+/** Keeps known fields; blank strings become null, ids must be uuids. */
+export function sanitizeMergeValues(entity: DedupeEntity, values: Record<string, unknown>): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const key of [...MERGE_FIELDS[entity].map((f) => f.key), 'custom_fields']) {
+    if (!(key in values)) continue;
+    const v = values[key];
+    if (key === 'custom_fields') {
+      out[key] = customOf(v);
+    } else if (ID_FIELDS.has(key)) {
+      const s = String(v ?? '').trim();
+      if (s && !UUID_RE.test(s)) throw new CrmMergeError(`Invalid ${key}`);
+      if (!s && key === 'company_id') throw new CrmMergeError('A contact needs a company');
+      out[key] = s || null;
+    } else {
+      const s = String(v ?? '').trim();
+      if (!s && key === 'name') throw new CrmMergeError('Company name is required');
+      out[key] = s || null;
+    }
+  }
+  return out;
+}
+
+/**
+ * Merges each of `mergedIds` into the survivor, one RPC (transaction) per
+ * record.  The chosen values are applied with the last merge, once every
+ * other record is gone — so a name or email taken from a merged record
+ * doesn't collide with its unique index.
+ */
+export async function mergeCrmRecords(admin: Admin, input: CrmMergeInput): Promise<CrmMergeResult> {
+  const mergedIds = [...new Set(input.mergedIds)].filter((id) => id !== input.survivorId);
+  if (!UUID_RE.test(input.survivorId) || !mergedIds.length || mergedIds.some((id) => !UUID_RE.test(id))) {
+    throw new CrmMergeError('A survivor and at least one other record are required');
+  }
+  const values = sanitizeMergeValues(input.entity, input.values);
+  const fn = input.entity === 'company' ? 'crm_merge_companies' : 'crm_merge_contacts';
+
+  const result: CrmMergeResult = { merged: 0, moved: {} };
+  for (const [i, mergedId] of mergedIds.entries()) {
+    const { data, error } = await admin.rpc(fn, {
+      p_survivor_id: input.survivorId,
+      p_merged_id: mergedId,
+      p_values: i === mergedIds.length - 1 ? values : {},
+      p_merged_by: input.userId,
+    });
+    if (error) {
+      throw new Error(
+        result.merged ? `Merged ${result.merged} of ${mergedIds.length}, then failed: ${error.message}` : error.message
+      );
+    }
+    result.merged += 1;
+    for (const [k, n] of Object.entries(customOf(data))) {
+      result.moved[k] = (result.moved[k] ?? 0) + (Number(n) || 0);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,170 @@
+/**
+ * action-items.ts
+ * Structured action-item extraction for the meeting AI pipeline: the
+ * completion schema and prompt, parsing, and matching each item's owner,
+ * priority and due date against the meeting's attendees, team profiles and
+ * `meeting_task_priorities`.  The results are stored as suggested tasks
+ * (`meeting_suggested_tasks`) that a user accepts onto the task board.
+ */
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Types
+// ──────────────────────────────────────────────────────────────────────────────
+
+export interface ExtractedActionItem {
+  title: string;
+  owner: string;
+  dueDate: string;
+  priority: string;
+  /** What was said that makes this an action item. */
+  evidence: string;
+}
+
+/** A meeting attendee or team profile an owner name can be matched to. */
+export interface OwnerCandidate {
+  userId: string | null;
+  email: string | null;
+  fullName: string | null;
+}
+
+export interface MatchedOwner {
+  owner_id: string | null;
+  owner_email: string | null;
+}
+
+export interface ActionItemContext {
+  title: string;
+  date: string;
+  /** Meeting date as YYYY-MM-DD, the base for relative due dates. */
+  isoDate: string | null;
+  attendeeNames: string[];
+  priorityNames: string[];
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Prompt
+// ──────────────────────────────────────────────────────────────────────────────
+
+export const ACTION_ITEMS_SCHEMA = {
+  name: 'ActionItems',
+  schema: {
+    type: 'object',
+    properties: {
+      items: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            title: { type: 'string' },
+            owner: { type: 'string' },
+            dueDate: { type: 'string' },
+            priority: { type: 'string' },
+            evidence: { type: 'string' },
+          },
+          required: ['title', 'owner', 'dueDate', 'priority', 'evidence'],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['items'],
+    additionalProperties: false,
+  },
+};
+
+export function actionItemsSystemPrompt(context: ActionItemContext): string {
+  const priorities = context.priorityNames.length ? context.priorityNames : ['Urgent', 'High', 'Normal', 'Low'];
+  return [
+    'You are analyzing a meeting transcript to extract clear action items (tasks assigned to specific people).',
+    '',
+    'CONTEXT:',
+    `- Meeting: "${context.title}"`,
+    `- Date: ${context.date}${context.isoDate ? ` (${context.isoDate})` : ''}`,
+    `- Known team members: ${context.attendeeNames.join(', ') || 'Not specified'}`,
+    `- Task priorities: ${priorities.join(', ')}`,
+    '',
+    'RULES:',
+    '1. Only include CLEAR action items — tasks where someone committed to doing something or was assigned work.',
+    '2. Do NOT include general discussion points or topics mentioned in passing.',
+    "3. For 'owner': Use the person's full name from the known team members list if you can match them. If uncertain, use whatever name is mentioned in the transcript. Use an empty string if nobody owns it.",
+    "4. For 'dueDate': Only include if a specific date or timeframe was mentioned (e.g., 'by Friday', 'next week', 'by March 1st'). Convert relative dates to YYYY-MM-DD format based on the meeting date. If no date was mentioned, use an empty string.",
+    `5. For 'priority': Use one of the task priorities. Pick the most urgent one only if the item was described as urgent, critical, or blocking; a higher one if it was emphasized as important. Default to '${priorities.includes('Normal') ? 'Normal' : priorities[0]}'.`,
+    "6. For 'title': Write a clear, actionable task title (e.g., 'Submit insurance quote to broker by Friday' not just 'insurance quote').",
+    "7. For 'evidence': Quote or closely paraphrase, in one sentence, what was said that makes this an action item.",
+    '8. If someone said they already completed something, do NOT include it as an action item.',
+  ].join('\n');
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Parsing and matching
+// ──────────────────────────────────────────────────────────────────────────────
+
+export function parseActionItems(content: string): ExtractedActionItem[] {
+  try {
+    const parsed = JSON.parse(content) as { items?: Array<Partial<Record<keyof ExtractedActionItem, unknown>>> };
+    return (parsed.items ?? [])
+      .map((item) => ({
+        title: String(item?.title ?? '').trim(),
+        owner: String(item?.owner ?? '').trim(),
+        dueDate: String(item?.dueDate ?? '').trim(),
+        priority: String(item?.priority ?? '').trim(),
+        evidence: String(item?.evidence ?? '').trim(),
+      }))
+      .filter((item) => item.title);
+  } catch {
+    return [];
+  }
+}
+
+function normalizeName(s: string | null | undefined): string {
+  return (s ?? '')
+    .toLowerCase()
+    .replace(/[^a-z0-9@.\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function firstToken(s: string): string {
+  return s.split(' ')[0] ?? '';
+}
+
+/**
+ * Match an owner name from the transcript to a known person: exact name or
+ * email first, then a unique first-name match (the transcript often only has
+ * "Alan").  Ambiguous or unknown names match nobody.
+ */
+export function matchOwner(name: string, candidates: OwnerCandidate[]): MatchedOwner | null {
+  const needle = normalizeName(name);
+  if (!needle) return null;
+
+  const toOwner = (c: OwnerCandidate): MatchedOwner => ({
+    owner_id: c.userId,
+    owner_email: c.email ? c.email.trim().toLowerCase() : null,
+  });
+
+  const exact = candidates.find(
+    (c) => normalizeName(c.fullName) === needle || normalizeName(c.email) === needle
+  );
+  if (exact) return toOwner(exact);
+
+  const first = firstToken(needle);
+  const byFirstName = candidates.filter((c) => {
+    const full = normalizeName(c.fullName);
+    const local = normalizeName((c.email ?? '').split('@')[0]?.replace(/[._-]+/g, ' '));
+    return (full && firstToken(full) === first) || (local && firstToken(local) === first);
+  });
+  const distinct = new Set(byFirstName.map((c) => c.userId ?? c.email?.toLowerCase()));
+  return distinct.size === 1 ? toOwner(byFirstName[0]) : null;
+}
+
+/** Map the model's priority onto the meeting's priority names (case-insensitive). */
+export function normalizePriority(priority: string, priorityNames: string[]): string {
+  const names = priorityNames.length ? priorityNames : ['Normal'];
+  const match = names.find((p) => p.toLowerCase() === priority.trim().toLowerCase());
+  return match ?? names.find((p) => p.toLowerCase() === 'normal') ?? names[Math.floor(names.length / 2)];
+}
+
+/** Accept only real YYYY-MM-DD dates. */
+export function normalizeDueDate(dueDate: string): string | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dueDate)) return null;
+  return Number.isNaN(new Date(`${dueDate}T00:00:00Z`).getTime()) ? null : dueDate;
+}
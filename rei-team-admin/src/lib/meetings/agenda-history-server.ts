@@ -0,0 +1,191 @@
+/**
+ * agenda-history-server.ts
+ * Loads the agenda history timeline of a meeting (agenda-history.ts) and
+ * writes the AI "what changed since last time" summaries for a session to
+ * `meeting_agenda_item_changes`.
+ *
+ * Server-only.
+ */
+
+import { supabaseAdmin } from '@/src/lib/supabase/admin';
+import { generateText, logGeneration } from '@/src/lib/ai/client';
+import {
+  AGENDA_CHANGES_SCHEMA,
+  agendaChangesPrompt,
+  agendaChangesSystemPrompt,
+  agendaLabel,
+  buildAgendaHistory,
+  parseAgendaChanges,
+  type AgendaChangeRow,
+  type AgendaItemHistory,
+  type HistorySession,
+} from '@/src/lib/meetings/agenda-history';
+import { retryWithBackoff, SUMMARY_MAX_TOKENS, SUMMARY_MODEL } from '@/src/lib/meetings/pipeline-server';
+
+type Admin = ReturnType<typeof supabaseAdmin>;
+
+type AgendaItem = { id: string; code: string | null; title: string };
+
+/** Most sessions shown in a timeline. */
+const MAX_HISTORY_SESSIONS = 12;
+
+/** Threshold for flagging items, overridable with MEETING_UNRESOLVED_SESSIONS. */
+export function unresolvedSessionsFromEnv(): number | undefined {
+  const n = Number(process.env.MEETING_UNRESOLVED_SESSIONS || '');
+  return Number.isInteger(n) && n > 0 ? n : undefined;
+}
+
+async function loadAgenda(admin: Admin, meetingId: string): Promise<AgendaItem[]> {
+  const { data, error } = await admin
+    .from('meeting_agenda_items')
+    .select('id,code,title')
+    .eq('meeting_id', meetingId)
+    .order('position', { ascending: true });
+  if (error) throw error;
+  return (data ?? []) as AgendaItem[];
+}
+
+/**
+ * The meeting's concluded sessions (oldest first) with notes and change
+ * summaries per agenda item.  `startedUpTo` (ISO) leaves out later sessions,
+ * for minutes of an earlier session.
+ */
+export async function loadAgendaHistory(
+  admin: Admin,
+  meetingId: string,
+  opts: { unresolvedAfter?: number; maxSessions?: number; startedUpTo?: string } = {}
+): Promise<{ sessions: HistorySession[]; items: AgendaItemHistory[] }> {
+  const agenda = await loadAgenda(admin, meetingId);
+
+  let sessionsQuery = admin
+    .from('meeting_minutes_sessions')
+    .select('id,session_number,started_at')
+    .eq('meeting_id', meetingId)
+    .not('ended_at', 'is', null);
+  if (opts.startedUpTo) sessionsQuery = sessionsQuery.lte('started_at', opts.startedUpTo);
+  const sessionsRes = await sessionsQuery
+    .order('started_at', { ascending: false })
+    .limit(opts.maxSessions ?? MAX_HISTORY_SESSIONS);
+  if (sessionsRes.error) throw sessionsRes.error;
+  const sessions = ((sessionsRes.data ?? []) as HistorySession[]).reverse();
+  const sessionIds = sessions.map((s) => s.id);
+
+  if (!sessionIds.length) return { sessions, items: buildAgendaHistory({ agenda, sessions, notes: [], changes: [] }) };
+
+  const [notesRes, changesRes] = await Promise.all([
+    admin.from('meeting_agenda_notes').select('session_id,agenda_item_id,notes').in('session_id', sessionIds),
+    admin
+      .from('meeting_agenda_item_changes')
+      .select('session_id,agenda_item_id,status,summary')
+      .in('session_id', sessionIds),
+  ]);
+  if (notesRes.error) throw notesRes.error;
+
+  return {
+    sessions,
+    items: buildAgendaHistory({
+      agenda,
+      sessions,
+      notes: notesRes.data ?? [],
+      // Missing summaries (e.g. before migration 031) just leave the timeline without them.
+      changes: changesRes.error ? [] : ((changesRes.data ?? []) as AgendaChangeRow[]),
+      unresolvedAfter: opts.unresolvedAfter ?? unresolvedSessionsFromEnv(),
+    }),
+  };
+}
+
+/**
+ * Compare a session's notes with the previous concluded session and save a
+ * change summary and status per agenda item.  One completion per session.
+ */
+export async function summarizeSessionChanges(
+  admin: Admin,
+  opts: { meetingId: string; sessionId: string; requestedBy: string | null }
+): Promise<AgendaChangeRow[]> {
+  const agenda = await loadAgenda(admin, opts.meetingId);
+  if (!agenda.length) return [];
+
+  const [meetingRes, sessionRes] = await Promise.all([
+    admin.from('meetings').select('title').eq('id', opts.meetingId).single(),
+    admin.from('meeting_minutes_sessions').select('id,started_at').eq('id', opts.sessionId).single(),
+  ]);
+  if (sessionRes.error) throw sessionRes.error;
+
+  const prevRes = await admin
+    .from('meeting_minutes_sessions')
+    .select('id')
+    .eq('meeting_id', opts.meetingId)
+    .neq('id', opts.sessionId)
+    .lt('started_at', sessionRes.data.started_at)
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const sessionIds = [opts.sessionId, ...(prevRes.data?.id ? [String(prevRes.data.id)] : [])];
+  const notesRes = await admin
+    .from('meeting_agenda_notes')
+    .select('session_id,agenda_item_id,notes')
+    .in('session_id', sessionIds);
+  if (notesRes.error) throw notesRes.error;
+
+  const notesFor = (sessionId: string, itemId: string) =>
+    String(
+      (notesRes.data ?? []).find(
+        (n: { session_id: string; agenda_item_id: string }) => n.session_id === sessionId && n.agenda_item_id === itemId
+      )?.notes ?? ''
+    ).trim();
+
+  const discussed = agenda.filter((a) => notesFor(opts.sessionId, a.id));
+  let content = '{}';
+  if (discussed.length) {
+    const prompt = agendaChangesPrompt(
+      discussed.map((a) => ({
+        id: a.id,
+        label: agendaLabel(a),
+        current: notesFor(opts.sessionId, a.id),
+        previous: prevRes.data?.id ? notesFor(String(prevRes.data.id), a.id) : '',
+      }))
+    );
+    const completion = await retryWithBackoff(() =>
+      generateText({
+        model: SUMMARY_MODEL,
+        temperature: 0.2,
+        maxTokens: SUMMARY_MAX_TOKENS,
+        json: AGENDA_CHANGES_SCHEMA,
+        system: agendaChangesSystemPrompt({
+          title: meetingRes.data?.title ?? 'Meeting',
+          date: new Date(sessionRes.data.started_at).toLocaleDateString('en-US', {
+            year: 'numeric',
+            month: 'long',
+            day: 'numeric',
+          }),
+        }),
+        prompt,
+      })
+    );
+    content = completion.text || '{}';
+    await logGeneration(completion, {
+      prompt,
+      response: content,
+      contentType: 'meeting_agenda_changes',
+      generatedBy: opts.requestedBy,
+    });
+  }
+
+  const rows = parseAgendaChanges(content, {
+    sessionId: opts.sessionId,
+    agendaItemIds: agenda.map((a) => a.id),
+    discussed: new Set(discussed.map((a) => a.id)),
+  });
+  if (rows.length) {
+    const now = new Date().toISOString();
+    const { error } = await admin
+      .from('meeting_agenda_item_changes')
+      .upsert(
+        rows.map((r) => ({ ...r, updated_at: now })),
+        { onConflict: 'session_id,agenda_item_id' }
+      );
+    if (error) throw error;
+  }
+  return rows;
+}
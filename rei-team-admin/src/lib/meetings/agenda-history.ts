@@ -0,0 +1,207 @@
+/**
+ * agenda-history.ts
+ * How each agenda item of a recurring meeting evolved across its minutes
+ * sessions: the notes per session, an AI "what changed since last time"
+ * summary with a status per session, and how many sessions in a row an item
+ * has been discussed without being resolved.
+ *
+ * Used by the meeting page's history view and the finalized minutes PDF; the
+ * database side is in agenda-history-server.ts.
+ */
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Types
+// ──────────────────────────────────────────────────────────────────────────────
+
+export type AgendaChangeStatus = 'new' | 'ongoing' | 'resolved' | 'not_discussed';
+
+/** A `meeting_agenda_item_changes` row (031). */
+export interface AgendaChangeRow {
+  session_id: string;
+  agenda_item_id: string;
+  status: AgendaChangeStatus;
+  summary: string;
+}
+
+export interface HistorySession {
+  id: string;
+  session_number: number | null;
+  started_at: string;
+}
+
+export interface AgendaHistoryEntry {
+  sessionId: string;
+  sessionNumber: number | null;
+  startedAt: string;
+  notes: string;
+  change: { status: AgendaChangeStatus; summary: string } | null;
+}
+
+export interface AgendaItemHistory {
+  agendaItemId: string;
+  label: string;
+  /** Oldest session first. */
+  entries: AgendaHistoryEntry[];
+  /** Consecutive most-recent sessions in which the item was discussed but not resolved. */
+  unresolvedStreak: number;
+  /** unresolvedStreak reached the threshold. */
+  flagged: boolean;
+}
+
+export const AGENDA_CHANGE_LABELS: Record<AgendaChangeStatus, string> = {
+  new: 'New',
+  ongoing: 'Ongoing',
+  resolved: 'Resolved',
+  not_discussed: 'Not discussed',
+};
+
+/** Sessions in a row an item may stay open before it is flagged. */
+export const DEFAULT_UNRESOLVED_SESSIONS = 3;
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Timeline
+// ──────────────────────────────────────────────────────────────────────────────
+
+export function agendaLabel(item: { code: string | null; title: string }): string {
+  return `${item.code ? `${item.code} - ` : ''}${item.title}`;
+}
+
+/**
+ * A session counts toward the unresolved streak when the item was discussed
+ * and not resolved.  Sessions without a change summary yet count when they
+ * have notes.
+ */
+function isOpenDiscussion(entry: AgendaHistoryEntry): boolean {
+  if (entry.change) return entry.change.status === 'new' || entry.change.status === 'ongoing';
+  return entry.notes.trim().length > 0;
+}
+
+export function buildAgendaHistory(input: {
+  agenda: Array<{ id: string; code: string | null; title: string }>;
+  /** Oldest first. */
+  sessions: HistorySession[];
+  notes: Array<{ session_id: string; agenda_item_id: string; notes: string | null }>;
+  changes: AgendaChangeRow[];
+  unresolvedAfter?: number;
+}): AgendaItemHistory[] {
+  const threshold = Math.max(1, input.unresolvedAfter ?? DEFAULT_UNRESOLVED_SESSIONS);
+  const key = (sessionId: string, itemId: string) => `${sessionId}:${itemId}`;
+  const notes = new Map(input.notes.map((n) => [key(n.session_id, n.agenda_item_id), (n.notes ?? '').trim()]));
+  const changes = new Map(input.changes.map((c) => [key(c.session_id, c.agenda_item_id), c]));
+
+  return input.agenda.map((item) => {
+    const entries = input.sessions.map((s) => {
+      const change = changes.get(key(s.id, item.id));
+      return {
+        sessionId: s.id,
+        sessionNumber: s.session_number,
+        startedAt: s.started_at,
+        notes: notes.get(key(s.id, item.id)) ?? '',
+        change: change ? { status: change.status, summary: change.summary } : null,
+      };
+    });
+
+    let unresolvedStreak = 0;
+    for (let i = entries.length - 1; i >= 0 && isOpenDiscussion(entries[i]); i--) unresolvedStreak++;
+
+    return {
+      agendaItemId: item.id,
+      label: agendaLabel(item),
+      entries,
+      unresolvedStreak,
+      flagged: unresolvedStreak >= threshold,
+    };
+  });
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// "What changed since last time"
+// ──────────────────────────────────────────────────────────────────────────────
+
+export const AGENDA_CHANGES_SCHEMA = {
+  name: 'AgendaChanges',
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      items: {
+        type: 'array',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            agenda_item_id: { type: 'string' },
+            status: { type: 'string', enum: ['new', 'ongoing', 'resolved'] },
+            summary: { type: 'string' },
+          },
+          required: ['agenda_item_id', 'status', 'summary'],
+        },
+      },
+    },
+    required: ['items'],
+  },
+};
+
+export function agendaChangesSystemPrompt(context: { title: string; date: string }): string {
+  return [
+    'You are a meeting secretary comparing the minutes of a recurring meeting with the previous session.',
+    '',
+    'CONTEXT:',
+    `- Meeting: "${context.title}"`,
+    `- This session: ${context.date}`,
+    '',
+    'For each agenda item you are given the notes from this session and from the previous session.',
+    'INSTRUCTIONS:',
+    "1. 'summary': one or two sentences on what changed since last time — new decisions, progress, changed numbers or owners, new blockers. If this is the first time it was discussed, summarize the current state.",
+    "2. 'status': 'resolved' if the notes show the matter was closed, completed or decided with nothing left open; 'new' if it was not discussed in the previous session; otherwise 'ongoing'.",
+    '3. Do not invent details; only use the notes given.',
+    '',
+    "Return ONLY JSON: an 'items' array with one { agenda_item_id, status, summary } object per agenda item given.",
+  ].join('\n');
+}
+
+export function agendaChangesPrompt(
+  items: Array<{ id: string; label: string; current: string; previous: string }>
+): string {
+  return items
+    .map(
+      (i) =>
+        `Agenda item ${i.id} | ${i.label}\n` +
+        `THIS SESSION:\n${i.current}\n` +
+        `PREVIOUS SESSION:\n${i.previous.trim() || '(not discussed)'}`
+    )
+    .join('\n\n---\n\n');
+}
+
+/** Parse the completion; items without notes this session are 'not_discussed'. */
+export function parseAgendaChanges(
+  content: string,
+  input: { sessionId: string; agendaItemIds: string[]; discussed: Set<string> }
+): AgendaChangeRow[] {
+  const byId = new Map<string, { status: AgendaChangeStatus; summary: string }>();
+  try {
+    const parsed = JSON.parse(content) as { items?: Array<{ agenda_item_id?: unknown; status?: unknown; summary?: unknown }> };
+    for (const item of parsed.items ?? []) {
+      const id = String(item?.agenda_item_id ?? '').trim();
+      const status = String(item?.status ?? '');
+      if (!id) continue;
+      byId.set(id, {
+        status: status === 'new' || status === 'resolved' ? status : 'ongoing',
+        summary: String(item?.summary ?? '').trim(),
+      });
+    }
+  } catch {
+    // Fall through: discussed items without a parsed summary are left out.
+  }
+
+  const rows: AgendaChangeRow[] = [];
+  for (const id of input.agendaItemIds) {
+    if (!input.discussed.has(id)) {
+      rows.push({ session_id: input.sessionId, agenda_item_id: id, status: 'not_discussed', summary: '' });
+      continue;
+    }
+    const change = byId.get(id);
+    if (change) rows.push({ session_id: input.sessionId, agenda_item_id: id, ...change });
+  }
+  return rows;
+}
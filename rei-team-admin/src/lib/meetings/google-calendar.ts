@@ -0,0 +1,596 @@
+/**
+ * google-calendar.ts
+ * Two-way Google Calendar sync for meetings.  Server-only: reads OAuth client
+ * secrets and decrypts stored tokens.
+ *
+ * - Connect: each user links their Google account (routes under
+ *   /api/meetings/google); tokens go to `google_oauth_tokens`, encrypted with
+ *   token-crypto.ts.
+ * - Push: creating, editing or archiving a meeting creates, patches or
+ *   cancels its event on the organizer's calendar (`meetings.google_event_id`
+ *   / `google_calendar_user_id`).  Google sends the invitations
+ *   (`sendUpdates=all`).  Skipped occurrences become EXDATEs; moved ones patch
+ *   the matching instance.
+ * - Pull: an incremental events.list (`syncToken`) brings back start time and
+ *   duration changes, occurrences cancelled or moved in Google (as
+ *   `meeting_occurrence_exceptions`) and attendee RSVPs
+ *   (`meeting_attendees.rsvp_status`).
+ *
+ * Endpoints come from the environment so a local stub can stand in for
+ * Google: GOOGLE_CALENDAR_API_BASE, GOOGLE_OAUTH_AUTHORIZE_URL and
+ * GOOGLE_OAUTH_TOKEN_URL (each defaults to Google's).
+ */
+
+import { supabaseAdmin } from '@/src/lib/supabase/admin';
+import { GOOGLE_OAUTH } from '@/src/lib/platforms/google';
+import { refreshAccessToken, type OAuthClient } from '@/src/lib/platforms/oauth';
+import type { OAuthTokenSet } from '@/src/lib/platforms/adapter';
+import { decryptToken, encryptToken } from '@/src/lib/platforms/token-crypto';
+import { utcToWall } from '@/src/lib/rrule';
+import { DEFAULT_MEETING_TIMEZONE, type OccurrenceException } from '@/src/lib/meetings/series';
+
+type Admin = ReturnType<typeof supabaseAdmin>;
+
+// ──────────────────────────────────────────────────────────────────────────────
+// OAuth
+// ──────────────────────────────────────────────────────────────────────────────
+
+export const GOOGLE_CALENDAR_COOKIE_NAME = 'gcal_oauth';
+export const GOOGLE_CALENDAR_COOKIE_PATH = '/api/meetings/google';
+
+const DEFAULT_API_BASE = 'https://www.googleapis.com/calendar/v3';
+
+/** Refresh access tokens this long before they expire. */
+const REFRESH_SKEW_MS = 2 * 60 * 1000;
+
+export function googleCalendarOAuth(): OAuthClient {
+  return {
+    config: { name: 'Google Calendar' },
+    oauth: {
+      ...GOOGLE_OAUTH,
+      authorizeUrl: process.env.GOOGLE_OAUTH_AUTHORIZE_URL || GOOGLE_OAUTH.authorizeUrl,
+      tokenUrl: process.env.GOOGLE_OAUTH_TOKEN_URL || GOOGLE_OAUTH.tokenUrl,
+      scopes: ['https://www.googleapis.com/auth/calendar.events'],
+    },
+  };
+}
+
+export function googleCalendarRedirectUri(requestOrigin: string): string {
+  const base = (process.env.APP_BASE_URL || requestOrigin).replace(/\/+$/, '');
+  return `${base}${GOOGLE_CALENDAR_COOKIE_PATH}/callback`;
+}
+
+function apiBase(): string {
+  return (process.env.GOOGLE_CALENDAR_API_BASE || DEFAULT_API_BASE).replace(/\/+$/, '');
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Token storage
+// ──────────────────────────────────────────────────────────────────────────────
+
+interface TokenRow {
+  user_id: string;
+  access_token: string | null;
+  refresh_token: string | null;
+  expires_at: string | null;
+  calendar_id: string | null;
+  sync_token: string | null;
+}
+
+export interface GoogleConnection {
+  userId: string;
+  accessToken: string;
+  calendarId: string;
+  syncToken: string | null;
+}
+
+export async function saveGoogleTokens(admin: Admin, userId: string, tokens: OAuthTokenSet): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await admin.from('google_oauth_tokens').upsert(
+    {
+      user_id: userId,
+      access_token: encryptToken(tokens.accessToken),
+      refresh_token: tokens.refreshToken ? encryptToken(tokens.refreshToken) : null,
+      token_type: 'Bearer',
+      scope: tokens.scope,
+      expires_at: tokens.expiresAt,
+      // A new grant may point at a different account; start the pull over.
+      sync_token: null,
+      sync_error: null,
+      updated_at: now,
+    },
+    { onConflict: 'user_id' }
+  );
+  if (error) throw error;
+}
+
+/** The user's connection with a fresh access token, or null when they have not connected. */
+export async function getGoogleConnection(admin: Admin, userId: string): Promise<GoogleConnection | null> {
+  const res = await admin
+    .from('google_oauth_tokens')
+    .select('user_id,access_token,refresh_token,expires_at,calendar_id,sync_token')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (res.error) throw res.error;
+  const row = res.data as TokenRow | null;
+  if (!row?.access_token) return null;
+
+  let accessToken = decryptToken(row.access_token);
+  const expiresAt = row.expires_at ? new Date(row.expires_at).getTime() : null;
+
+  if (expiresAt !== null && expiresAt - Date.now() < REFRESH_SKEW_MS) {
+    if (!row.refresh_token) throw new Error('Google Calendar token expired; reconnect Google Calendar');
+    try {
+      const tokens = await refreshAccessToken(googleCalendarOAuth(), decryptToken(row.refresh_token));
+      accessToken = tokens.accessToken;
+      await admin
+        .from('google_oauth_tokens')
+        .update({
+          access_token: encryptToken(tokens.accessToken),
+          refresh_token: tokens.refreshToken ? encryptToken(tokens.refreshToken) : row.refresh_token,
+          expires_at: tokens.expiresAt,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('user_id', userId);
+    } catch (e: unknown) {
+      await admin
+        .from('google_oauth_tokens')
+        .update({ sync_error: (e as Error)?.message ?? 'Token refresh failed' })
+        .eq('user_id', userId);
+      throw e;
+    }
+  }
+
+  return { userId, accessToken, calendarId: row.calendar_id || 'primary', syncToken: row.sync_token };
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// API client
+// ──────────────────────────────────────────────────────────────────────────────
+
+export class GoogleCalendarError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = 'GoogleCalendarError';
+  }
+}
+
+interface GoogleEventDateTime {
+  dateTime?: string;
+  date?: string;
+  timeZone?: string;
+}
+
+export interface GoogleEvent {
+  id: string;
+  status?: 'confirmed' | 'tentative' | 'cancelled';
+  summary?: string;
+  start?: GoogleEventDateTime;
+  end?: GoogleEventDateTime;
+  recurringEventId?: string;
+  originalStartTime?: GoogleEventDateTime;
+  attendees?: Array<{ email?: string; responseStatus?: string; organizer?: boolean; self?: boolean }>;
+  extendedProperties?: { private?: Record<string, string> };
+}
+
+interface EventsPage {
+  summary?: string;
+  items?: GoogleEvent[];
+  nextPageToken?: string;
+  nextSyncToken?: string;
+}
+
+async function calendarRequest<T>(
+  accessToken: string,
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE',
+  path: string,
+  opts: { query?: Record<string, string | undefined>; body?: unknown } = {}
+): Promise<T> {
+  const url = new URL(`${apiBase()}${path}`);
+  for (const [key, value] of Object.entries(opts.query ?? {})) {
+    if (value !== undefined) url.searchParams.set(key, value);
+  }
+
+  const res = await fetch(url, {
+    method,
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      Accept: 'application/json',
+      ...(opts.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+    },
+    body: opts.body !== undefined ? JSON.stringify(opts.body) : undefined,
+  });
+
+  const text = await res.text();
+  if (!res.ok) {
+    let message = text.slice(0, 300) || res.statusText;
+    try {
+      message = (JSON.parse(text) as { error?: { message?: string } }).error?.message ?? message;
+    } catch {
+      // keep the raw body
+    }
+    throw new GoogleCalendarError(`Google Calendar ${method} ${path} failed: ${res.status} ${message}`, res.status);
+  }
+  return (text ? JSON.parse(text) : {}) as T;
+}
+
+function eventsPath(calendarId: string, eventId?: string): string {
+  return `/calendars/${encodeURIComponent(calendarId)}/events${eventId ? `/${encodeURIComponent(eventId)}` : ''}`;
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Push
+// ──────────────────────────────────────────────────────────────────────────────
+
+interface PushMeeting {
+  id: string;
+  title: string;
+  location: string | null;
+  start_at: string;
+  duration_minutes: number;
+  rrule: string | null;
+  timezone: string | null;
+  archived: boolean;
+  google_event_id: string | null;
+  google_calendar_user_id: string | null;
+}
+
+export type PushResult =
+  | { status: 'created' | 'updated' | 'cancelled'; eventId: string }
+  | { status: 'skipped'; reason: string };
+
+/** `20261026T090000` — an iCalendar local date-time in the meeting's timezone. */
+function icalLocal(iso: string, timezone: string): string {
+  const w = utcToWall(new Date(iso).getTime(), timezone);
+  const p = (n: number, len = 2) => String(n).padStart(len, '0');
+  return `${p(w.year, 4)}${p(w.month)}${p(w.day)}T${p(w.hour)}${p(w.minute)}${p(w.second)}`;
+}
+
+/** Google's id for one instance of a recurring event: `<eventId>_<UTC basic start>`. */
+function instanceId(eventId: string, originalStart: string): string {
+  return `${eventId}_${new Date(originalStart).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}Z$/, 'Z')}`;
+}
+
+/**
+ * Creates, updates or cancels a meeting's Google event.  Meetings already
+ * linked use their organizer's calendar; new ones use `userId`'s.  Skipped
+ * (not an error) when that user has not connected Google Calendar.
+ */
+export async function pushMeetingToGoogle(
+  admin: Admin,
+  meetingId: string,
+  opts: { userId: string | null; appUrl: string; cancel?: boolean }
+): Promise<PushResult> {
+  const m = await admin
+    .from('meetings')
+    .select('id,title,location,start_at,duration_minutes,rrule,timezone,archived,google_event_id,google_calendar_user_id')
+    .eq('id', meetingId)
+    .single();
+  if (m.error) throw m.error;
+  const meeting = m.data as PushMeeting;
+
+  const ownerId = meeting.google_calendar_user_id ?? opts.userId;
+  if (!ownerId) return { status: 'skipped', reason: 'No Google Calendar owner' };
+  const conn = await getGoogleConnection(admin, ownerId);
+  if (!conn) return { status: 'skipped', reason: 'Google Calendar not connected' };
+
+  // Archive / delete → cancel the event.
+  if (opts.cancel || meeting.archived) {
+    if (!meeting.google_event_id) return { status: 'skipped', reason: 'No Google event' };
+    try {
+      await calendarRequest(conn.accessToken, 'DELETE', eventsPath(conn.calendarId, meeting.google_event_id), {
+        query: { sendUpdates: 'all' },
+      });
+    } catch (e) {
+      // Already gone on Google's side.
+      if (!(e instanceof GoogleCalendarError) || (e.status !== 404 && e.status !== 410)) throw e;
+    }
+    const eventId = meeting.google_event_id;
+    await admin.from('meetings').update({ google_event_id: null, google_synced_at: null }).eq('id', meetingId);
+    return { status: 'cancelled', eventId };
+  }
+
+  const [attRes, exRes] = await Promise.all([
+    admin.from('meeting_attendees').select('email,rsvp_status').eq('meeting_id', meetingId),
+    admin.from('meeting_occurrence_exceptions').select('original_start,action,moved_start_at').eq('meeting_id', meetingId),
+  ]);
+  if (attRes.error) throw attRes.error;
+  if (exRes.error) throw exRes.error;
+  const exceptions = (exRes.data ?? []) as OccurrenceException[];
+
+  const timezone = meeting.timezone?.trim() || DEFAULT_MEETING_TIMEZONE;
+  const start = new Date(meeting.start_at);
+  const end = new Date(start.getTime() + (meeting.duration_minutes || 60) * 60_000);
+  const skipped = exceptions.filter((e) => e.action === 'skip');
+
+  const event = {
+    summary: meeting.title,
+    location: meeting.location ?? '',
+    description: `Agenda, tasks and minutes: ${opts.appUrl.replace(/\/+$/, '')}/meetings/${meeting.id}`,
+    start: { dateTime: start.toISOString(), timeZone: timezone },
+    end: { dateTime: end.toISOString(), timeZone: timezone },
+    // An empty list clears recurrence when a series becomes one-time.
+    recurrence: meeting.rrule
+      ? [
+          `RRULE:${meeting.rrule.replace(/^RRULE:/i, '')}`,
+          ...(skipped.length
+            ? [`EXDATE;TZID=${timezone}:${skipped.map((e) => icalLocal(e.original_start, timezone)).join(',')}`]
+            : []),
+        ]
+      : [],
+    // Send back known RSVPs so patching the list does not reset them.
+    attendees: ((attRes.data ?? []) as Array<{ email: string; rsvp_status: string | null }>)
+      .filter((a) => a.email?.trim())
+      .map((a) => ({ email: a.email.trim(), ...(a.rsvp_status ? { responseStatus: a.rsvp_status } : {}) })),
+    extendedProperties: { private: { reiMeetingId: meeting.id } },
+  };
+
+  let status: 'created' | 'updated' = 'updated';
+  let saved: GoogleEvent | null = null;
+  if (meeting.google_event_id) {
+    try {
+      saved = await calendarRequest<GoogleEvent>(
+        conn.accessToken,
+        'PATCH',
+        eventsPath(conn.calendarId, meeting.google_event_id),
+        { query: { sendUpdates: 'all' }, body: event }
+      );
+    } catch (e) {
+      // Deleted in Google: create it again below.
+      if (!(e instanceof GoogleCalendarError) || (e.status !== 404 && e.status !== 410)) throw e;
+    }
+  }
+  if (!saved) {
+    saved = await calendarRequest<GoogleEvent>(conn.accessToken, 'POST', eventsPath(conn.calendarId), {
+      query: { sendUpdates: 'all' },
+      body: event,
+    });
+    status = 'created';
+  }
+
+  // Occurrences moved in the app: patch the matching instance.
+  if (meeting.rrule) {
+    for (const ex of exceptions) {
+      if (ex.action !== 'move' || !ex.moved_start_at) continue;
+      const movedStart = new Date(ex.moved_start_at);
+      const movedEnd = new Date(movedStart.getTime() + (meeting.duration_minutes || 60) * 60_000);
+      try {
+        await calendarRequest(conn.accessToken, 'PATCH', eventsPath(conn.calendarId, instanceId(saved.id, ex.original_start)), {
+          query: { sendUpdates: 'all' },
+          body: {
+            start: { dateTime: movedStart.toISOString(), timeZone: timezone },
+            end: { dateTime: movedEnd.toISOString(), timeZone: timezone },
+          },
+        });
+      } catch (e) {
+        // The instance no longer exists (rule changed); nothing to move.
+        if (!(e instanceof GoogleCalendarError) || (e.status !== 404 && e.status !== 410)) throw e;
+      }
+    }
+  }
+
+  const up = await admin
+    .from('meetings')
+    .update({ google_event_id: saved.id, google_calendar_user_id: ownerId, google_synced_at: new Date().toISOString() })
+    .eq('id', meetingId);
+  if (up.error) throw up.error;
+
+  return { status, eventId: saved.id };
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Pull
+// ──────────────────────────────────────────────────────────────────────────────
+
+export interface PullSummary {
+  events: number;
+  meetingsUpdated: number;
+  exceptionsSaved: number;
+  rsvpsUpdated: number;
+}
+
+interface LinkedMeeting {
+  id: string;
+  start_at: string;
+  duration_minutes: number;
+  google_event_id: string;
+}
+
+const RSVP_STATUSES = new Set(['needsAction', 'accepted', 'tentative', 'declined']);
+
+/** Every changed event since the stored syncToken (all events on the first run). */
+async function listChangedEvents(
+  conn: GoogleConnection
+): Promise<{ events: GoogleEvent[]; nextSyncToken: string | null; summary: string | null }> {
+  const events: GoogleEvent[] = [];
+  let pageToken: string | undefined;
+  let summary: string | null = null;
+
+  for (;;) {
+    const page = await calendarRequest<EventsPage>(conn.accessToken, 'GET', eventsPath(conn.calendarId), {
+      query: {
+        syncToken: conn.syncToken ?? undefined,
+        pageToken,
+        showDeleted: 'true',
+        maxResults: '250',
+      },
+    });
+    summary = page.summary ?? summary;
+    events.push(...(page.items ?? []));
+    if (page.nextPageToken) {
+      pageToken = page.nextPageToken;
+      continue;
+    }
+    return { events, nextSyncToken: page.nextSyncToken ?? null, summary };
+  }
+}
+
+async function applyEvent(
+  admin: Admin,
+  event: GoogleEvent,
+  byEventId: Map<string, LinkedMeeting>,
+  summary: PullSummary
+): Promise<void> {
+  // One instance of a series, cancelled or moved in Google.
+  if (event.recurringEventId) {
+    const meeting = byEventId.get(event.recurringEventId);
+    const original = event.originalStartTime?.dateTime;
+    if (!meeting || !original) return;
+    const originalStart = new Date(original).toISOString();
+    const movedStart = event.start?.dateTime ? new Date(event.start.dateTime).toISOString() : null;
+
+    if (event.status === 'cancelled') {
+      const { error } = await admin
+        .from('meeting_occurrence_exceptions')
+        .upsert(
+          { meeting_id: meeting.id, original_start: originalStart, action: 'skip', moved_start_at: null },
+          { onConflict: 'meeting_id,original_start' }
+        );
+      if (error) throw error;
+      summary.exceptionsSaved++;
+    } else if (movedStart && movedStart !== originalStart) {
+      const { error } = await admin
+        .from('meeting_occurrence_exceptions')
+        .upsert(
+          { meeting_id: meeting.id, original_start: originalStart, action: 'move', moved_start_at: movedStart },
+          { onConflict: 'meeting_id,original_start' }
+        );
+      if (error) throw error;
+      summary.exceptionsSaved++;
+    }
+    return;
+  }
+
+  const meeting = byEventId.get(event.id);
+  if (!meeting) return;
+
+  if (event.status === 'cancelled') {
+    // Deleted in Google: unlink; the next edit in the app creates a new event.
+    await admin.from('meetings').update({ google_event_id: null, google_synced_at: null }).eq('id', meeting.id);
+    summary.meetingsUpdated++;
+    return;
+  }
+
+  // Time / duration changes (all-day events have no dateTime and are left alone).
+  if (event.start?.dateTime && event.end?.dateTime) {
+    const start = new Date(event.start.dateTime);
+    const duration = Math.round((new Date(event.end.dateTime).getTime() - start.getTime()) / 60_000);
+    if (start.getTime() !== new Date(meeting.start_at).getTime() || duration !== meeting.duration_minutes) {
+      const { error } = await admin
+        .from('meetings')
+        .update({
+          start_at: start.toISOString(),
+          duration_minutes: duration > 0 ? duration : meeting.duration_minutes,
+          google_synced_at: new Date().toISOString(),
+        })
+        .eq('id', meeting.id);
+      if (error) throw error;
+      summary.meetingsUpdated++;
+    }
+  }
+
+  // RSVPs, matched by email case-insensitively.
+  const rsvps = new Map<string, string>();
+  for (const a of event.attendees ?? []) {
+    if (a.email && a.responseStatus && RSVP_STATUSES.has(a.responseStatus)) {
+      rsvps.set(a.email.trim().toLowerCase(), a.responseStatus);
+    }
+  }
+  if (!rsvps.size) return;
+
+  const att = await admin.from('meeting_attendees').select('email,rsvp_status').eq('meeting_id', meeting.id);
+  if (att.error) throw att.error;
+  for (const a of (att.data ?? []) as Array<{ email: string; rsvp_status: string | null }>) {
+    const status = rsvps.get(a.email.trim().toLowerCase());
+    if (!status || status === a.rsvp_status) continue;
+    const { error } = await admin
+      .from('meeting_attendees')
+      .update({ rsvp_status: status })
+      .eq('meeting_id', meeting.id)
+      .eq('email', a.email);
+    if (error) throw error;
+    summary.rsvpsUpdated++;
+  }
+}
+
+/**
+ * Pulls changes from the user's calendar into the meetings they organize.
+ * An expired syncToken (410) restarts with a full sync.
+ */
+export async function syncGoogleCalendar(admin: Admin, userId: string): Promise<PullSummary> {
+  const summary: PullSummary = { events: 0, meetingsUpdated: 0, exceptionsSaved: 0, rsvpsUpdated: 0 };
+  let conn = await getGoogleConnection(admin, userId);
+  if (!conn) throw new Error('Google Calendar not connected');
+
+  try {
+    let page: Awaited<ReturnType<typeof listChangedEvents>>;
+    try {
+      page = await listChangedEvents(conn);
+    } catch (e) {
+      if (!(e instanceof GoogleCalendarError) || e.status !== 410 || !conn.syncToken) throw e;
+      conn = { ...conn, syncToken: null };
+      page = await listChangedEvents(conn);
+    }
+
+    const linked = await admin
+      .from('meetings')
+      .select('id,start_at,duration_minutes,google_event_id')
+      .eq('google_calendar_user_id', userId)
+      .not('google_event_id', 'is', null);
+    if (linked.error) throw linked.error;
+    const byEventId = new Map(((linked.data ?? []) as LinkedMeeting[]).map((m) => [m.google_event_id, m]));
+
+    for (const event of page.events) {
+      summary.events++;
+      await applyEvent(admin, event, byEventId, summary);
+    }
+
+    await admin
+      .from('google_oauth_tokens')
+      .update({
+        sync_token: page.nextSyncToken,
+        last_synced_at: new Date().toISOString(),
+        sync_error: null,
+        // The primary calendar's summary is the account's email address.
+        ...(page.summary && !conn.syncToken ? { account_email: page.summary } : {}),
+      })
+      .eq('user_id', userId);
+  } catch (e: unknown) {
+    await admin
+      .from('google_oauth_tokens')
+      .update({ sync_error: (e as Error)?.message ?? 'Sync failed' })
+      .eq('user_id', userId);
+    throw e;
+  }
+
+  return summary;
+}
+
+/** Pull for every connected user (the sync cron). */
+export async function syncAllGoogleCalendars(
+  admin: Admin
+): Promise<{ users: number; failed: number; errors: string[]; totals: PullSummary }> {
+  const res = await admin.from('google_oauth_tokens').select('user_id').not('access_token', 'is', null);
+  if (res.error) throw res.error;
+
+  const result = {
+    users: 0,
+    failed: 0,
+    errors: [] as string[],
+    totals: { events: 0, meetingsUpdated: 0, exceptionsSaved: 0, rsvpsUpdated: 0 } as PullSummary,
+  };
+  for (const { user_id } of (res.data ?? []) as Array<{ user_id: string }>) {
+    result.users++;
+    try {
+      const s = await syncGoogleCalendar(admin, user_id);
+      for (const key of Object.keys(result.totals) as Array<keyof PullSummary>) result.totals[key] += s[key];
+    } catch (e: unknown) {
+      result.failed++;
+      result.errors.push(`${user_id}: ${(e as Error)?.message ?? 'failed'}`);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,324 @@
+/**
+ * minutes-content-server.ts
+ * Loads a session's minutes content (minutes-content.ts) and the meeting's
+ * minutes template, for finalize and the session exports.  Server-only.
+ */
+
+import { supabaseAdmin } from '@/src/lib/supabase/admin';
+import { loadAgendaHistory } from '@/src/lib/meetings/agenda-history-server';
+import type { AgendaRow, AttendanceRow, MinutesContent, TaskRow } from '@/src/lib/meetings/minutes-content';
+import type { MinutesTemplate } from '@/src/lib/meetings/minutes-template';
+import { loadMinutesTemplate } from '@/src/lib/meetings/minutes-template-server';
+
+type Admin = ReturnType<typeof supabaseAdmin>;
+
+type MilestoneData = {
+  title?: string;
+  target_date?: string;
+  status?: string;
+  priority?: string;
+  owner_name?: string;
+  owner_id?: string;
+  description?: string;
+};
+
+type OngoingNoteData = {
+  title?: string;
+  content?: string;
+  category?: string;
+};
+
+type AttendanceData = {
+  email?: string;
+  full_name?: string;
+  is_present?: boolean;
+  is_guest?: boolean;
+};
+
+/**
+ * Everything the minutes of a session show: agenda notes next to the previous
+ * session's, open tasks by column, milestones, ongoing notes, attendance and —
+ * when the meeting turns it on and the template includes it — agenda history.
+ */
+export async function loadMinutesContent(
+  admin: Admin,
+  opts: { meetingId: string; sessionId: string; includeHistory?: boolean }
+): Promise<{ content: MinutesContent; template: MinutesTemplate }> {
+  const { meetingId, sessionId } = opts;
+
+  // Fetch meeting + attendees (include names)
+  const meetingRes = await admin
+    .from('meetings')
+    .select('id,title,location,start_at')
+    .eq('id', meetingId)
+    .single();
+  if (meetingRes.error) throw meetingRes.error;
+
+  const attendeesRes = await admin
+    .from('meeting_attendees')
+    .select('email,full_name,user_id,color_hex')
+    .eq('meeting_id', meetingId)
+    .order('created_at', { ascending: true });
+  if (attendeesRes.error) throw attendeesRes.error;
+
+  const emailToName = new Map<string, string>();
+  const colorByEmail = new Map<string, string>();
+  for (const a of attendeesRes.data ?? []) {
+    const typedA = a as { email?: string; full_name?: string; color_hex?: string };
+    const e = String(typedA.email ?? '').trim().toLowerCase();
+    const n = String(typedA.full_name ?? '').trim();
+    if (e) emailToName.set(e, n || e);
+    if (e && typedA.color_hex) colorByEmail.set(e, typedA.color_hex);
+  }
+
+  // Current notes
+  const agendaRes = await admin
+    .from('meeting_agenda_items')
+    .select('id,code,title,description,position')
+    .eq('meeting_id', meetingId)
+    .order('position', { ascending: true });
+  if (agendaRes.error) throw agendaRes.error;
+
+  const notesRes = await admin
+    .from('meeting_agenda_notes')
+    .select('agenda_item_id,notes')
+    .eq('session_id', sessionId);
+  if (notesRes.error) throw notesRes.error;
+
+  const notesMap: Record<string, string> = {};
+  for (const r of notesRes.data ?? []) {
+    const typedR = r as { agenda_item_id: string; notes?: string };
+    notesMap[String(typedR.agenda_item_id)] = String(typedR.notes ?? '');
+  }
+
+  // Previous session notes
+  const prevSessionRes = await admin
+    .from('meeting_minutes_sessions')
+    .select('id,ended_at,started_at')
+    .eq('meeting_id', meetingId)
+    .neq('id', sessionId)
+    .not('ended_at', 'is', null)
+    .order('ended_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const prevSessionId = !prevSessionRes.error && prevSessionRes.data?.id ? String(prevSessionRes.data.id) : null;
+
+  const prevNotesMap: Record<string, string> = {};
+  if (prevSessionId) {
+    const prevNotesRes = await admin
+      .from('meeting_agenda_notes')
+      .select('agenda_item_id,notes')
+      .eq('session_id', prevSessionId);
+    if (prevNotesRes.error) throw prevNotesRes.error;
+    for (const r of prevNotesRes.data ?? []) {
+      const typedR = r as { agenda_item_id: string; notes?: string };
+      prevNotesMap[String(typedR.agenda_item_id)] = String(typedR.notes ?? '');
+    }
+  }
+
+  // OPEN tasks only (no Completed)
+  const tasksRes = await admin
+    .from('meeting_tasks')
+    .select('id,title,status,priority,owner_id,owner_email,owner_name,due_date,notes,column_id')
+    .eq('meeting_id', meetingId)
+    .neq('status', 'Completed');
+  if (tasksRes.error) throw tasksRes.error;
+
+  const colsRes = await admin.from('meeting_task_columns').select('id,name').eq('meeting_id', meetingId);
+  if (colsRes.error) throw colsRes.error;
+
+  const profRes = await admin.from('profiles').select('id,full_name,email,color_hex');
+  if (profRes.error) throw profRes.error;
+
+  const colName = new Map((colsRes.data ?? []).map((c: { id: string; name: string }) => [String(c.id), String(c.name)]));
+  const ownerById = new Map(
+    (profRes.data ?? []).map((p: { id: string; full_name?: string; email?: string }) => [
+      String(p.id),
+      String(p.full_name?.trim() || p.email?.trim() || 'Unassigned'),
+    ])
+  );
+  const emailById = new Map((profRes.data ?? []).map((p: { id: string; email?: string }) => [String(p.id), String(p.email ?? '').trim()]));
+  const colorById = new Map(
+    (profRes.data ?? [])
+      .filter((p: { id: string; color_hex?: string }) => p.color_hex)
+      .map((p: { id: string; color_hex?: string }) => [String(p.id), String(p.color_hex)])
+  );
+
+  // Latest comment per task (from events)
+  const taskIds = (tasksRes.data ?? []).map((t: { id: string }) => String(t.id)).filter(Boolean);
+  const latestCommentByTask = new Map<string, string>();
+  if (taskIds.length) {
+    const evRes = await admin
+      .from('meeting_task_events')
+      .select('task_id,event_type,payload,created_at')
+      .in('task_id', taskIds)
+      .eq('event_type', 'comment')
+      .order('created_at', { ascending: false });
+    if (!evRes.error) {
+      for (const ev of evRes.data ?? []) {
+        const typedEv = ev as { task_id: string; payload?: { text?: string } };
+        const tid = String(typedEv.task_id);
+        if (!latestCommentByTask.has(tid)) {
+          const text = String(typedEv.payload?.text ?? '').trim();
+          if (text) latestCommentByTask.set(tid, text);
+        }
+      }
+    }
+  }
+
+  type TaskData = {
+    id: string;
+    title?: string;
+    status?: string;
+    priority?: string;
+    owner_id?: string;
+    owner_email?: string;
+    owner_name?: string;
+    due_date?: string;
+    notes?: string;
+    column_id?: string;
+  };
+
+  const tasks: TaskRow[] = (tasksRes.data ?? []).map((t: TaskData) => {
+    const col = colName.get(String(t.column_id)) ?? 'Uncategorized';
+
+    // owner priority:
+    // 1) explicit owner_name
+    // 2) owner_id -> profiles
+    // 3) owner_email -> meeting attendees name
+    const ownerEmail = String(t.owner_email ?? '').trim().toLowerCase() || (t.owner_id ? String(emailById.get(String(t.owner_id)) ?? '').trim().toLowerCase() : '');
+    const ownerName =
+      String(t.owner_name ?? '').trim() ||
+      (t.owner_id ? String(ownerById.get(String(t.owner_id)) ?? '') : '') ||
+      (ownerEmail ? String(emailToName.get(ownerEmail) ?? ownerEmail) : '') ||
+      'Unassigned';
+
+    // Resolve owner color from profiles or attendees
+    const ownerColor = (t.owner_id ? colorById.get(String(t.owner_id)) : undefined)
+      ?? (ownerEmail ? colorByEmail.get(ownerEmail) : undefined)
+      ?? undefined;
+
+    const due = t.due_date ? ' | Due: ' + String(t.due_date) : '';
+
+    const meta = `${col} | ${String(t.status ?? '')} | ${String(t.priority ?? '')} | ${ownerName}${due}`;
+
+    return {
+      title: String(t.title ?? ''),
+      meta,
+      notes: String(t.notes ?? '').trim() || null,
+      latestComment: latestCommentByTask.get(String(t.id)) ?? null,
+      columnName: col,
+      status: String(t.status ?? ''),
+      priority: String(t.priority ?? ''),
+      ownerName,
+      ownerColor: ownerColor ?? undefined,
+      dueDate: t.due_date ? String(t.due_date) : null,
+    };
+  });
+
+  const agenda: AgendaRow[] = (agendaRes.data ?? []).map((a: { id: string; code?: string; title?: string }) => ({
+    label: `${a.code ? a.code + ' - ' : ''}${String(a.title ?? '')}`,
+    notes: String(notesMap[String(a.id)] ?? '').trim(),
+    prevNotes: String(prevNotesMap[String(a.id)] ?? '').trim(),
+  }));
+
+  // Reference link and session number stored on the session
+  const sessionRes = await admin
+    .from('meeting_minutes_sessions')
+    .select('reference_link,session_number,started_at')
+    .eq('id', sessionId)
+    .maybeSingle();
+  const referenceLink = !sessionRes.error ? sessionRes.data?.reference_link ?? null : null;
+  const sessionNumber = !sessionRes.error ? sessionRes.data?.session_number ?? null : null;
+
+  // The meeting's minutes template (section order, palette, logo, page size)
+  const template = await loadMinutesTemplate(admin, meetingId);
+
+  // Agenda history across sessions, when the meeting (or the caller) asks for it
+  const includeHistoryRes = await admin
+    .from('meetings')
+    .select('minutes_include_history')
+    .eq('id', meetingId)
+    .maybeSingle();
+  const includeHistory =
+    opts.includeHistory ?? (!includeHistoryRes.error && !!includeHistoryRes.data?.minutes_include_history);
+  const agendaHistory =
+    includeHistory && template.sections.includes('agenda_history')
+      ? (
+          await loadAgendaHistory(admin, meetingId, {
+            startedUpTo: !sessionRes.error ? sessionRes.data?.started_at ?? undefined : undefined,
+          })
+        ).items
+      : null;
+
+  // Fetch milestones
+  const milestonesRes = await admin
+    .from('meeting_milestones')
+    .select('id,title,description,target_date,status,priority,owner_id,owner_email,owner_name,position')
+    .eq('meeting_id', meetingId)
+    .order('position', { ascending: true });
+
+  const milestones = (milestonesRes.data ?? []).map((m: MilestoneData) => {
+    const explicit = String(m.owner_name ?? '').trim();
+    const fromProfile = m.owner_id ? String(ownerById.get(String(m.owner_id)) ?? '').trim() : '';
+    const ownerColor = m.owner_id ? colorById.get(String(m.owner_id)) ?? null : null;
+    return {
+      title: String(m.title ?? ''),
+      target_date: m.target_date ? String(m.target_date) : null,
+      status: String(m.status ?? 'Pending'),
+      priority: String(m.priority ?? 'Normal'),
+      owner_name: explicit || fromProfile || 'Unassigned',
+      description: m.description ? String(m.description) : null,
+      owner_color: ownerColor,
+    };
+  });
+
+  // Fetch ongoing notes
+  const ongoingNotesRes = await admin
+    .from('meeting_ongoing_notes')
+    .select('id,title,content,category,position')
+    .eq('meeting_id', meetingId)
+    .order('position', { ascending: true });
+
+  const ongoingNotes = (ongoingNotesRes.data ?? []).map((n: OngoingNoteData) => ({
+    title: String(n.title ?? ''),
+    content: n.content ? String(n.content) : null,
+    category: n.category ? String(n.category) : null,
+  }));
+
+  // Fetch session attendance
+  const attendanceRes = await admin
+    .from('meeting_session_attendees')
+    .select('email,full_name,is_present,is_guest')
+    .eq('session_id', sessionId);
+
+  const attendanceData: AttendanceRow[] = (attendanceRes.data ?? []).map((a: AttendanceData) => ({
+    full_name: a.full_name ? String(a.full_name) : null,
+    email: a.email ? String(a.email) : null,
+    is_present: Boolean(a.is_present),
+    is_guest: Boolean(a.is_guest),
+    color_hex: a.email ? colorByEmail.get(String(a.email).trim().toLowerCase()) ?? null : null,
+  }));
+
+  const meeting = meetingRes.data;
+  const start = new Date(meeting.start_at);
+
+  return {
+    template,
+    content: {
+      meetingTitle: meeting.title,
+      meetingDateLabel: start.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' }),
+      meetingTimeLabel: start.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' }),
+      meetingLocation: String(meeting.location ?? ''),
+      agenda,
+      tasks,
+      referenceLink,
+      attendanceData,
+      milestones,
+      ongoingNotes,
+      sessionNumber,
+      agendaHistory,
+    },
+  };
+}
@@ -0,0 +1,231 @@
+/**
+ * minutes-content.ts
+ * The content of a session's minutes — attendance, milestones, tasks by
+ * column, agenda notes, agenda history and ongoing notes — shared by the PDF,
+ * DOCX and Markdown renderers (minutes-pdf.ts, minutes-docx.ts,
+ * minutes-markdown.ts).  Loaded by minutes-content-server.ts.
+ */
+
+import type { AgendaItemHistory } from '@/src/lib/meetings/agenda-history';
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Types
+// ──────────────────────────────────────────────────────────────────────────────
+
+export type AgendaRow = {
+  label: string;
+  notes: string;
+  prevNotes: string;
+};
+
+export type TaskRow = {
+  title: string;
+  meta: string;
+  notes?: string | null;
+  latestComment?: string | null;
+  columnName: string;
+  status?: string;
+  priority?: string;
+  ownerName?: string;
+  ownerColor?: string;
+  dueDate?: string | null;
+};
+
+export type AttendanceRow = {
+  full_name: string | null;
+  email: string | null;
+  is_present: boolean;
+  is_guest: boolean;
+  color_hex?: string | null;
+};
+
+export type MilestoneRow = {
+  title: string;
+  target_date: string | null;
+  status: string;
+  priority: string;
+  owner_name: string;
+  description: string | null;
+  owner_color?: string | null;
+};
+
+export type OngoingNoteRow = {
+  title: string;
+  content: string | null;
+  category: string | null;
+};
+
+export interface MinutesContent {
+  meetingTitle: string;
+  meetingDateLabel: string;
+  meetingTimeLabel: string;
+  meetingLocation: string;
+  agenda: AgendaRow[];
+  tasks: TaskRow[];
+  referenceLink?: string | null;
+  attendanceData: AttendanceRow[];
+  milestones: MilestoneRow[];
+  ongoingNotes: OngoingNoteRow[];
+  sessionNumber?: number | null;
+  /** Rendered where the template places `agenda_history`; null leaves the section out. */
+  agendaHistory?: AgendaItemHistory[] | null;
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ──────────────────────────────────────────────────────────────────────────────
+
+export function normalizeNotes(s: string | null | undefined): string {
+  return (s ?? '').replace(/\r\n/g, '\n').trim();
+}
+
+/** "A1 - Opening" → code "A1", title "Opening". */
+export function splitAgendaLabel(label: string): { code: string; title: string } {
+  const parts = label.split(' - ');
+  return parts.length > 1
+    ? { code: parts[0]!.trim(), title: parts.slice(1).join(' - ').trim() }
+    : { code: '', title: label };
+}
+
+/** Milestones by target date, undated last. */
+export function sortMilestones(milestones: MilestoneRow[]): MilestoneRow[] {
+  return [...milestones].sort((a, b) => {
+    if (a.target_date && !b.target_date) return -1;
+    if (!a.target_date && b.target_date) return 1;
+    if (a.target_date && b.target_date) return a.target_date.localeCompare(b.target_date);
+    return 0;
+  });
+}
+
+/** Tasks grouped by board column, columns alphabetically. */
+export function groupTasksByColumn(tasks: TaskRow[]): Array<{ column: string; tasks: TaskRow[] }> {
+  const group = new Map<string, TaskRow[]>();
+  for (const t of tasks) {
+    const key = t.columnName || 'Uncategorized';
+    if (!group.has(key)) group.set(key, []);
+    group.get(key)!.push(t);
+  }
+  return Array.from(group.keys())
+    .sort((a, b) => a.localeCompare(b))
+    .map((column) => ({ column, tasks: group.get(column) ?? [] }));
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Sample data (template preview)
+// ──────────────────────────────────────────────────────────────────────────────
+
+/** A plausible session for previewing a template without a real meeting. */
+export function sampleMinutesContent(now = new Date()): MinutesContent {
+  const day = (offset: number) => new Date(now.getTime() + offset * 86_400_000);
+  const isoDay = (offset: number) => day(offset).toISOString().slice(0, 10);
+  const sessions = [-14, -7, 0].map((offset, i) => ({
+    sessionId: `sample-${i + 1}`,
+    sessionNumber: i + 10,
+    startedAt: day(offset).toISOString(),
+  }));
+
+  return {
+    meetingTitle: 'Operations Weekly',
+    meetingDateLabel: now.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' }),
+    meetingTimeLabel: now.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' }),
+    meetingLocation: 'Main office',
+    sessionNumber: 12,
+    attendanceData: [
+      { full_name: 'Jordan Reyes', email: 'jordan@example.com', is_present: true, is_guest: false, color_hex: '#3b82f6' },
+      { full_name: 'Sam Patel', email: 'sam@example.com', is_present: true, is_guest: false, color_hex: '#f59e0b' },
+      { full_name: 'Alex Kim', email: 'alex@example.com', is_present: false, is_guest: false, color_hex: '#ef4444' },
+      { full_name: 'Casey Morgan', email: 'casey@example.com', is_present: true, is_guest: true, color_hex: null },
+    ],
+    milestones: [
+      {
+        title: 'Close on Maple Street duplex',
+        target_date: isoDay(21),
+        status: 'In Progress',
+        priority: 'High',
+        owner_name: 'Jordan Reyes',
+        description: 'Inspection done; waiting on appraisal.',
+        owner_color: '#3b82f6',
+      },
+      {
+        title: 'Launch spring seller mailer',
+        target_date: isoDay(35),
+        status: 'Pending',
+        priority: 'Normal',
+        owner_name: 'Sam Patel',
+        description: null,
+        owner_color: '#f59e0b',
+      },
+    ],
+    tasks: [
+      {
+        title: 'Order appraisal for Maple Street',
+        meta: '',
+        columnName: 'Residential Operations',
+        status: 'In Progress',
+        priority: 'High',
+        ownerName: 'Jordan Reyes',
+        ownerColor: '#3b82f6',
+        dueDate: isoDay(3),
+        notes: 'Lender prefers their usual appraiser.',
+      },
+      {
+        title: 'Renew contractor insurance certificates',
+        meta: '',
+        columnName: 'Team Operations',
+        status: 'Waiting',
+        priority: 'Normal',
+        ownerName: 'Alex Kim',
+        ownerColor: '#ef4444',
+        dueDate: isoDay(10),
+        latestComment: 'Two of five received.',
+      },
+      {
+        title: 'Draft mailer copy',
+        meta: '',
+        columnName: 'Marketing/Outreach',
+        status: 'Needs Review',
+        priority: 'Normal',
+        ownerName: 'Sam Patel',
+        ownerColor: '#f59e0b',
+        dueDate: null,
+      },
+    ],
+    agenda: [
+      {
+        label: 'A1 - Opening & Recap',
+        notes: 'Reviewed last week\'s action items; two of three completed.',
+        prevNotes: 'Set goals for the quarter.',
+      },
+      {
+        label: 'B1 - Residential Operations',
+        notes: 'Maple Street inspection passed with minor roof repairs. Appraisal ordered; target close in three weeks.',
+        prevNotes: 'Maple Street under contract; inspection scheduled.',
+      },
+      {
+        label: 'C1 - Marketing & Outreach',
+        notes: 'Mailer copy drafted; needs review before print.',
+        prevNotes: '',
+      },
+    ],
+    agendaHistory: [
+      {
+        agendaItemId: 'sample-b1',
+        label: 'B1 - Residential Operations',
+        unresolvedStreak: 3,
+        flagged: true,
+        entries: sessions.map((s, i) => ({
+          ...s,
+          notes: 'Maple Street duplex.',
+          change: {
+            status: i === 0 ? ('new' as const) : ('ongoing' as const),
+            summary: ['Put Maple Street under contract.', 'Inspection scheduled.', 'Inspection passed; appraisal ordered.'][i]!,
+          },
+        })),
+      },
+    ],
+    ongoingNotes: [
+      { title: 'Preferred lenders', content: 'First County Bank; Harbor Credit Union.', category: 'Reference' },
+    ],
+    referenceLink: 'https://example.com/shared-drive/operations-weekly',
+  };
+}
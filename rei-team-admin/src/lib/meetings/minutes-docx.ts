@@ -0,0 +1,306 @@
+/**
+ * minutes-docx.ts
+ * Renders a session's minutes (minutes-content.ts) as an editable Word
+ * document, in the template's section order, font, heading colours and page
+ * size.  The DOCX is assembled by hand (WordprocessingML parts zipped with
+ * src/lib/zip.ts).  Server-only.
+ */
+
+import { createZip } from '@/src/lib/zip';
+import { AGENDA_CHANGE_LABELS } from '@/src/lib/meetings/agenda-history';
+import {
+  groupTasksByColumn,
+  normalizeNotes,
+  sortMilestones,
+  type AttendanceRow,
+  type MinutesContent,
+} from '@/src/lib/meetings/minutes-content';
+import type { MinutesFont, MinutesPageSize, MinutesSection, MinutesTemplate } from '@/src/lib/meetings/minutes-template';
+
+const WORD_FONTS: Record<MinutesFont, string> = {
+  helvetica: 'Arial',
+  times: 'Times New Roman',
+  courier: 'Courier New',
+};
+
+/** Width × height in twips (1/20 pt). */
+const PAGE_TWIPS: Record<MinutesPageSize, { w: number; h: number }> = {
+  letter: { w: 12240, h: 15840 },
+  a4: { w: 11906, h: 16838 },
+};
+
+const MARGIN_TWIPS = 1080;
+const MUTED = '64748B';
+
+// ──────────────────────────────────────────────────────────────────────────────
+// WordprocessingML helpers
+// ──────────────────────────────────────────────────────────────────────────────
+
+function esc(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+type RunStyle = { bold?: boolean; italic?: boolean; color?: string; size?: number };
+
+/** A text run; newlines become line breaks. */
+function run(text: string, style: RunStyle = {}): string {
+  const props = [
+    style.bold ? '<w:b/>' : '',
+    style.italic ? '<w:i/>' : '',
+    style.color ? `<w:color w:val="${style.color}"/>` : '',
+    style.size ? `<w:sz w:val="${style.size * 2}"/>` : '',
+  ].join('');
+  const parts = text.split('\n').map((line) => `<w:t xml:space="preserve">${esc(line)}</w:t>`);
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}${parts.join('<w:br/>')}</w:r>`;
+}
+
+function para(runs: string | string[], opts: { style?: string; indent?: number; after?: number } = {}): string {
+  const props = [
+    opts.style ? `<w:pStyle w:val="${opts.style}"/>` : '',
+    opts.after !== undefined ? `<w:spacing w:after="${opts.after}"/>` : '',
+    opts.indent ? `<w:ind w:left="${opts.indent}"/>` : '',
+  ].join('');
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${Array.isArray(runs) ? runs.join('') : runs}</w:p>`;
+}
+
+function bullet(runs: string | string[], level = 0): string {
+  return para([run('•\t'), ...(Array.isArray(runs) ? runs : [runs])], { style: 'ListBullet', indent: 360 + level * 360 });
+}
+
+function table(header: string[], rows: string[][], widthTwips: number): string {
+  const colW = Math.floor(widthTwips / header.length);
+  const cell = (content: string, shaded: boolean) =>
+    `<w:tc><w:tcPr><w:tcW w:w="${colW}" w:type="dxa"/>${
+      shaded ? '<w:shd w:val="clear" w:color="auto" w:fill="F1F5F9"/>' : ''
+    }</w:tcPr>${content}</w:tc>`;
+  const borders = ['top', 'left', 'bottom', 'right', 'insideH', 'insideV']
+    .map((b) => `<w:${b} w:val="single" w:sz="4" w:space="0" w:color="E2E8F0"/>`)
+    .join('');
+  return (
+    `<w:tbl><w:tblPr><w:tblW w:w="${widthTwips}" w:type="dxa"/><w:tblBorders>${borders}</w:tblBorders></w:tblPr>` +
+    `<w:tblGrid>${header.map(() => `<w:gridCol w:w="${colW}"/>`).join('')}</w:tblGrid>` +
+    `<w:tr>${header.map((h) => cell(para(run(h, { bold: true }), { after: 0 }), true)).join('')}</w:tr>` +
+    rows.map((r) => `<w:tr>${r.map((c) => cell(c, false)).join('')}</w:tr>`).join('') +
+    `</w:tbl>` +
+    para('', { after: 0 })
+  );
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Document
+// ──────────────────────────────────────────────────────────────────────────────
+
+function documentBody(content: MinutesContent, template: MinutesTemplate): string {
+  const out: string[] = [];
+  const page = PAGE_TWIPS[template.pageSize];
+  const contentW = page.w - MARGIN_TWIPS * 2;
+  const empty = (text: string) => out.push(para(run(text, { italic: true, color: MUTED })));
+  const heading = (text: string) => out.push(para(run(text), { style: 'Heading1' }));
+  const subheading = (text: string) => out.push(para(run(text), { style: 'Heading2' }));
+
+  out.push(para(run(content.meetingTitle), { style: 'Title' }));
+  out.push(
+    para(
+      run(
+        [content.meetingDateLabel, content.meetingTimeLabel, content.meetingLocation].filter(Boolean).join('  •  '),
+        { color: MUTED }
+      )
+    )
+  );
+  if (content.sessionNumber) out.push(para(run(`Session #${content.sessionNumber}`, { bold: true })));
+
+  const render: Record<MinutesSection, () => void> = {
+    attendance: () => {
+      heading('Attendance');
+      if (!content.attendanceData.length) return empty('No attendance data recorded.');
+      const name = (a: AttendanceRow) => (a.full_name ?? '').trim() || (a.email ?? '').trim() || 'Unknown';
+      const groups: Array<[string, AttendanceRow[]]> = [
+        ['Present', content.attendanceData.filter((a) => a.is_present && !a.is_guest)],
+        ['Absent', content.attendanceData.filter((a) => !a.is_present && !a.is_guest)],
+        ['Guests', content.attendanceData.filter((a) => a.is_guest)],
+      ];
+      for (const [label, people] of groups) {
+        if (people.length) out.push(para([run(`${label}: `, { bold: true }), run(people.map(name).join(', '))]));
+      }
+    },
+
+    milestones: () => {
+      heading('Milestones');
+      const milestones = sortMilestones(content.milestones);
+      if (!milestones.length) return empty('No milestones defined.');
+      out.push(
+        table(
+          ['Milestone', 'Target', 'Status', 'Priority', 'Owner'],
+          milestones.map((m) => [
+            para(
+              [run(m.title, { bold: true }), ...(m.description ? [run(`\n${m.description}`, { italic: true, color: MUTED })] : [])],
+              { after: 0 }
+            ),
+            para(run(m.target_date ?? '—'), { after: 0 }),
+            para(run(m.status), { after: 0 }),
+            para(run(m.priority), { after: 0 }),
+            para(run(m.owner_name), { after: 0 }),
+          ]),
+          contentW
+        )
+      );
+    },
+
+    tasks: () => {
+      heading('Active tasks');
+      const columns = groupTasksByColumn(content.tasks);
+      if (!columns.length) return empty('No active tasks.');
+      for (const { column, tasks } of columns) {
+        subheading(column);
+        for (const t of tasks) {
+          const meta = [t.status, t.ownerName ?? 'Unassigned', t.dueDate ? `due ${t.dueDate}` : ''].filter(Boolean).join(' · ');
+          out.push(bullet([run(t.title, { bold: true }), run(` — ${meta}`, { color: MUTED })]));
+          if (t.notes?.trim()) out.push(bullet(run(t.notes.trim(), { italic: true }), 1));
+          if (t.latestComment?.trim()) out.push(bullet(run(`Latest: ${t.latestComment.trim()}`, { italic: true }), 1));
+        }
+      }
+    },
+
+    agenda: () => {
+      heading('Discussion notes');
+      if (!content.agenda.length) return empty('No agenda items.');
+      for (const row of content.agenda) {
+        subheading(row.label);
+        const notes = normalizeNotes(row.notes);
+        out.push(notes ? para(run(notes)) : para(run('No notes', { italic: true, color: MUTED })));
+        const prev = normalizeNotes(row.prevNotes);
+        if (prev) {
+          out.push(para([run('Previous session\n', { bold: true, color: MUTED, size: 9 }), run(prev, { color: MUTED })], { indent: 360 }));
+        }
+      }
+    },
+
+    agenda_history: () => {
+      if (!content.agendaHistory) return;
+      heading('Agenda history');
+      const items = content.agendaHistory.filter((h) => h.entries.some((e) => e.change || e.notes));
+      if (!items.length) return empty('No earlier sessions.');
+      for (const item of items) {
+        subheading(item.flagged ? `${item.label} — unresolved for ${item.unresolvedStreak} sessions` : item.label);
+        for (const e of [...item.entries].reverse()) {
+          if (!e.change && !e.notes) continue;
+          const date = new Date(e.startedAt).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+          out.push(
+            bullet([
+              run(`${e.sessionNumber ? `#${e.sessionNumber} · ` : ''}${date}`, { bold: true }),
+              run(e.change ? ` (${AGENDA_CHANGE_LABELS[e.change.status]}): ` : ': ', { color: MUTED }),
+              run(e.change?.summary || normalizeNotes(e.notes)),
+            ])
+          );
+        }
+      }
+    },
+
+    ongoing_notes: () => {
+      heading('Ongoing notes');
+      if (!content.ongoingNotes.length) return empty('No ongoing notes.');
+      for (const n of content.ongoingNotes) {
+        subheading(n.title);
+        if (n.category) out.push(para(run(n.category, { color: MUTED, size: 9 }), { after: 60 }));
+        const text = normalizeNotes(n.content);
+        out.push(text ? para(run(text)) : para(run('No content', { italic: true, color: MUTED })));
+      }
+    },
+  };
+
+  for (const s of template.sections) render[s]();
+
+  if (content.referenceLink) out.push(para([run('Reference link: ', { bold: true }), run(content.referenceLink)]));
+
+  out.push(
+    `<w:sectPr><w:pgSz w:w="${page.w}" w:h="${page.h}"/>` +
+      `<w:pgMar w:top="${MARGIN_TWIPS}" w:right="${MARGIN_TWIPS}" w:bottom="${MARGIN_TWIPS}" w:left="${MARGIN_TWIPS}" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>`
+  );
+  return out.join('');
+}
+
+function stylesXml(template: MinutesTemplate): string {
+  const font = esc(WORD_FONTS[template.font]);
+  const dark = template.palette.dark.replace('#', '').toUpperCase();
+  const primary = template.palette.primary.replace('#', '').toUpperCase();
+  const headingStyle = (id: string, name: string, size: number, color: string, before: number) =>
+    `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+    `<w:pPr><w:keepNext/><w:spacing w:before="${before}" w:after="120"/><w:outlineLvl w:val="${id === 'Heading1' ? 0 : 1}"/></w:pPr>` +
+    `<w:rPr><w:b/><w:color w:val="${color}"/><w:sz w:val="${size * 2}"/></w:rPr></w:style>`;
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+    `<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:cs="${font}" w:eastAsia="${font}"/><w:sz w:val="21"/><w:color w:val="1E293B"/></w:rPr></w:rPrDefault>` +
+    '<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+    '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+    `<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="60"/></w:pPr><w:rPr><w:b/><w:color w:val="${dark}"/><w:sz w:val="44"/></w:rPr></w:style>` +
+    headingStyle('Heading1', 'heading 1', 14, primary, 360) +
+    headingStyle('Heading2', 'heading 2', 12, dark, 200) +
+    '<w:style w:type="paragraph" w:styleId="ListBullet"><w:name w:val="List Bullet"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="60"/></w:pPr></w:style>' +
+    '</w:styles>'
+  );
+}
+
+const CONTENT_TYPES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+  '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+  '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+  '</Types>';
+
+const ROOT_RELS_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+  '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+  '</Relationships>';
+
+const DOCUMENT_RELS_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+  '</Relationships>';
+
+function coreXml(title: string, now: Date): string {
+  const iso = now.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+    'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+    'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+    `<dc:title>${esc(title)}</dc:title>` +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${iso}</dcterms:created>` +
+    `<dcterms:modified xsi:type="dcterms:W3CDTF">${iso}</dcterms:modified>` +
+    '</cp:coreProperties>'
+  );
+}
+
+export function renderMinutesDocx(content: MinutesContent, template: MinutesTemplate, now = new Date()): Uint8Array {
+  const document =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+    `<w:body>${documentBody(content, template)}</w:body></w:document>`;
+
+  return createZip(
+    [
+      { name: '[Content_Types].xml', data: CONTENT_TYPES_XML },
+      { name: '_rels/.rels', data: ROOT_RELS_XML },
+      { name: 'docProps/core.xml', data: coreXml(`Minutes - ${content.meetingTitle}`, now) },
+      { name: 'word/document.xml', data: document },
+      { name: 'word/_rels/document.xml.rels', data: DOCUMENT_RELS_XML },
+      { name: 'word/styles.xml', data: stylesXml(template) },
+    ],
+    now
+  );
+}
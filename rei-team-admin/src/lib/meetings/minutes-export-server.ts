@@ -0,0 +1,83 @@
+/**
+ * minutes-export-server.ts
+ * A session's minutes as a downloadable file in any supported format.  PDF
+ * prefers the copy saved by finalize; DOCX and Markdown are rendered on
+ * demand from the same content model.  Server-only.
+ */
+
+import { supabaseAdmin } from '@/src/lib/supabase/admin';
+import { loadMinutesContent } from '@/src/lib/meetings/minutes-content-server';
+import { renderMinutesDocx } from '@/src/lib/meetings/minutes-docx';
+import { renderMinutesMarkdown } from '@/src/lib/meetings/minutes-markdown';
+import { renderMinutesPdf } from '@/src/lib/meetings/minutes-pdf';
+import { fetchLogoBytes } from '@/src/lib/meetings/minutes-template-server';
+
+type Admin = ReturnType<typeof supabaseAdmin>;
+
+export const MINUTES_EXPORT_FORMATS = {
+  pdf: { label: 'PDF', extension: 'pdf', contentType: 'application/pdf' },
+  docx: {
+    label: 'Word (DOCX)',
+    extension: 'docx',
+    contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  },
+  md: { label: 'Markdown', extension: 'md', contentType: 'text/markdown; charset=utf-8' },
+} as const;
+
+export type MinutesExportFormat = keyof typeof MINUTES_EXPORT_FORMATS;
+
+export function isMinutesExportFormat(value: unknown): value is MinutesExportFormat {
+  return typeof value === 'string' && value in MINUTES_EXPORT_FORMATS;
+}
+
+export interface MinutesExport {
+  bytes: Uint8Array;
+  filename: string;
+  contentType: string;
+}
+
+/** Characters that are unsafe in attachment filenames on common platforms. */
+function safeFilename(title: string): string {
+  // eslint-disable-next-line no-control-regex
+  return title.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, ' ').replace(/\s+/g, ' ').trim() || 'Meeting';
+}
+
+export async function renderMinutesExport(
+  admin: Admin,
+  opts: { meetingId: string; sessionId: string; format: MinutesExportFormat }
+): Promise<MinutesExport> {
+  const { meetingId, sessionId, format } = opts;
+  const spec = MINUTES_EXPORT_FORMATS[format];
+
+  const [meetingRes, sessRes] = await Promise.all([
+    admin.from('meetings').select('title').eq('id', meetingId).single(),
+    admin.from('meeting_minutes_sessions').select('id,pdf_path').eq('id', sessionId).eq('meeting_id', meetingId).single(),
+  ]);
+  if (meetingRes.error) throw meetingRes.error;
+  if (sessRes.error) throw sessRes.error;
+
+  const filename = `Minutes - ${safeFilename(String(meetingRes.data.title ?? ''))}.${spec.extension}`;
+  const pdfPath = (sessRes.data?.pdf_path as string | null) ?? null;
+  const pdfBucket = process.env.MINUTES_PDF_BUCKET;
+
+  // The finalized PDF is the record that was emailed; serve it rather than a re-render.
+  if (format === 'pdf' && pdfPath && pdfBucket) {
+    const dl = await admin.storage.from(pdfBucket).download(pdfPath);
+    if (!dl.error) {
+      return { bytes: new Uint8Array(await dl.data.arrayBuffer()), filename, contentType: spec.contentType };
+    }
+  }
+
+  const { content, template } = await loadMinutesContent(admin, { meetingId, sessionId });
+
+  let bytes: Uint8Array;
+  if (format === 'pdf') {
+    bytes = await renderMinutesPdf(content, template, { logo: await fetchLogoBytes(template.logoUrl) });
+  } else if (format === 'docx') {
+    bytes = renderMinutesDocx(content, template);
+  } else {
+    bytes = new TextEncoder().encode(renderMinutesMarkdown(content, template));
+  }
+
+  return { bytes, filename, contentType: spec.contentType };
+}
@@ -0,0 +1,161 @@
+/**
+ * minutes-markdown.ts
+ * Renders a session's minutes (minutes-content.ts) as Markdown, in the
+ * template's section order, for attendees who want to edit the minutes.
+ */
+
+import { AGENDA_CHANGE_LABELS } from '@/src/lib/meetings/agenda-history';
+import {
+  groupTasksByColumn,
+  normalizeNotes,
+  sortMilestones,
+  type AttendanceRow,
+  type MinutesContent,
+} from '@/src/lib/meetings/minutes-content';
+import type { MinutesSection, MinutesTemplate } from '@/src/lib/meetings/minutes-template';
+
+/** Escape characters Markdown would treat as formatting in inline text. */
+function inline(text: string): string {
+  return text.replace(/([\\`*_[\]<>#|])/g, '\\$1').replace(/\s*\n\s*/g, ' ').trim();
+}
+
+/** Multi-line notes as a block, keeping the author's line breaks. */
+function block(text: string, empty: string): string {
+  const t = normalizeNotes(text);
+  if (!t) return `_${empty}_`;
+  // Two trailing spaces keep single line breaks as breaks.
+  return t
+    .split('\n')
+    .map((l) => l.trimEnd())
+    .join('  \n');
+}
+
+function attendeeName(a: AttendanceRow): string {
+  return inline((a.full_name ?? '').trim() || (a.email ?? '').trim() || 'Unknown');
+}
+
+export function renderMinutesMarkdown(content: MinutesContent, template: MinutesTemplate): string {
+  const out: string[] = [];
+  const section = (title: string) => out.push('', `## ${title}`, '');
+
+  out.push(`# ${inline(content.meetingTitle)}`, '');
+  out.push(
+    [content.meetingDateLabel, content.meetingTimeLabel, content.meetingLocation].filter(Boolean).map(inline).join(' · ')
+  );
+  if (content.sessionNumber) out.push('', `**Session #${content.sessionNumber}**`);
+
+  const render: Record<MinutesSection, () => void> = {
+    attendance: () => {
+      section('Attendance');
+      if (!content.attendanceData.length) {
+        out.push('_No attendance data recorded._');
+        return;
+      }
+      const groups: Array<[string, AttendanceRow[]]> = [
+        ['Present', content.attendanceData.filter((a) => a.is_present && !a.is_guest)],
+        ['Absent', content.attendanceData.filter((a) => !a.is_present && !a.is_guest)],
+        ['Guests', content.attendanceData.filter((a) => a.is_guest)],
+      ];
+      for (const [label, people] of groups) {
+        if (people.length) out.push(`- **${label}:** ${people.map(attendeeName).join(', ')}`);
+      }
+    },
+
+    milestones: () => {
+      section('Milestones');
+      const milestones = sortMilestones(content.milestones);
+      if (!milestones.length) {
+        out.push('_No milestones defined._');
+        return;
+      }
+      out.push('| Milestone | Target | Status | Priority | Owner |', '| --- | --- | --- | --- | --- |');
+      for (const m of milestones) {
+        const title = m.description ? `${inline(m.title)}<br>_${inline(m.description)}_` : inline(m.title);
+        out.push(`| ${title} | ${m.target_date ?? '—'} | ${inline(m.status)} | ${inline(m.priority)} | ${inline(m.owner_name)} |`);
+      }
+    },
+
+    tasks: () => {
+      section('Active tasks');
+      const columns = groupTasksByColumn(content.tasks);
+      if (!columns.length) {
+        out.push('_No active tasks._');
+        return;
+      }
+      for (const { column, tasks } of columns) {
+        out.push(`### ${inline(column)}`, '');
+        for (const t of tasks) {
+          const meta = [t.status, t.ownerName ?? 'Unassigned', t.dueDate ? `due ${t.dueDate}` : '']
+            .filter(Boolean)
+            .map((m) => inline(String(m)))
+            .join(' · ');
+          out.push(`- [ ] **${inline(t.title)}** — ${meta}`);
+          if (t.notes?.trim()) out.push(`  - ${inline(t.notes)}`);
+          if (t.latestComment?.trim()) out.push(`  - Latest: ${inline(t.latestComment)}`);
+        }
+        out.push('');
+      }
+    },
+
+    agenda: () => {
+      section('Discussion notes');
+      if (!content.agenda.length) {
+        out.push('_No agenda items._');
+        return;
+      }
+      for (const row of content.agenda) {
+        out.push(`### ${inline(row.label)}`, '', block(row.notes, 'No notes'), '');
+        if (normalizeNotes(row.prevNotes)) {
+          out.push('> **Previous session**  ', ...block(row.prevNotes, '').split('\n').map((l) => `> ${l}`), '');
+        }
+      }
+    },
+
+    agenda_history: () => {
+      if (!content.agendaHistory) return;
+      section('Agenda history');
+      const items = content.agendaHistory.filter((h) => h.entries.some((e) => e.change || e.notes));
+      if (!items.length) {
+        out.push('_No earlier sessions._');
+        return;
+      }
+      for (const item of items) {
+        out.push(
+          `### ${inline(item.label)}${item.flagged ? ` — unresolved for ${item.unresolvedStreak} sessions` : ''}`,
+          ''
+        );
+        for (const e of [...item.entries].reverse()) {
+          if (!e.change && !e.notes) continue;
+          const date = new Date(e.startedAt).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+          const label = `${e.sessionNumber ? `#${e.sessionNumber} · ` : ''}${date}`;
+          const status = e.change ? ` (${AGENDA_CHANGE_LABELS[e.change.status]})` : '';
+          out.push(`- **${label}**${status}: ${inline(e.change?.summary || e.notes)}`);
+        }
+        out.push('');
+      }
+    },
+
+    ongoing_notes: () => {
+      section('Ongoing notes');
+      if (!content.ongoingNotes.length) {
+        out.push('_No ongoing notes._');
+        return;
+      }
+      for (const n of content.ongoingNotes) {
+        out.push(`### ${inline(n.title)}${n.category ? ` _(${inline(n.category)})_` : ''}`, '');
+        out.push(block(n.content ?? '', 'No content'), '');
+      }
+    },
+  };
+
+  for (const s of template.sections) render[s]();
+
+  if (content.referenceLink) out.push('', '---', '', `Reference link: <${content.referenceLink}>`);
+
+  return (
+    out
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim() + '\n'
+  );
+}
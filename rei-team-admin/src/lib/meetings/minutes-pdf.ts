@@ -0,0 +1,832 @@
+/**
+ * minutes-pdf.ts
+ * Renders finalized meeting minutes with pdf-lib from a minutes template
+ * (minutes-template.ts): header, then the template's sections in order, then
+ * page numbers.  Used by the finalize route and the template preview.
+ */
+
+import { PDFDocument, PDFImage, StandardFonts, rgb, PDFFont, RGB } from 'pdf-lib';
+import { APP_NAME } from '@/src/config/app.config';
+import { AGENDA_CHANGE_LABELS, type AgendaChangeStatus } from '@/src/lib/meetings/agenda-history';
+import {
+  groupTasksByColumn,
+  normalizeNotes,
+  sortMilestones,
+  splitAgendaLabel,
+  type AgendaRow,
+  type AttendanceRow,
+  type MinutesContent,
+  type TaskRow,
+} from '@/src/lib/meetings/minutes-content';
+import {
+  MINUTES_PAGE_SIZES,
+  type MinutesFont,
+  type MinutesSection,
+  type MinutesTemplate,
+} from '@/src/lib/meetings/minutes-template';
+
+function clampText(s: string, maxLen: number): string {
+  const t = (s ?? '').trim();
+  if (t.length <= maxLen) return t;
+  return t.slice(0, maxLen - 1) + '…';
+}
+
+/**
+ * Very small word-wrap helper for pdf-lib.
+ */
+function wrapText(opts: { text: string; font: PDFFont; size: number; maxWidth: number }): string[] {
+  const text = (opts.text ?? '').replace(/\r\n/g, '\n');
+  const paras = text.split('\n');
+  const lines: string[] = [];
+
+  for (const para of paras) {
+    const words = para.split(/\s+/).filter(Boolean);
+    if (words.length === 0) {
+      lines.push('');
+      continue;
+    }
+
+    let cur = words[0]!;
+    for (let i = 1; i < words.length; i++) {
+      const w = words[i]!;
+      const test = cur + ' ' + w;
+      const width = opts.font.widthOfTextAtSize(test, opts.size);
+      if (width <= opts.maxWidth) {
+        cur = test;
+      } else {
+        lines.push(cur);
+        cur = w;
+      }
+    }
+    lines.push(cur);
+  }
+
+  return lines;
+}
+
+function hexToRgb(hex: string): RGB {
+  const h = hex.replace('#', '');
+  const r = parseInt(h.substring(0, 2), 16) / 255;
+  const g = parseInt(h.substring(2, 4), 16) / 255;
+  const b = parseInt(h.substring(4, 6), 16) / 255;
+  return rgb(r, g, b);
+}
+
+function getStatusBadgeColors(status: string): { bg: RGB; text: RGB } {
+  const n = status.toLowerCase().trim();
+  if (n === 'in progress' || n === 'in-progress' || n === 'active')
+    return { bg: rgb(0.859, 0.890, 0.996), text: rgb(0.118, 0.251, 0.686) };
+  if (n === 'waiting')
+    return { bg: rgb(0.996, 0.953, 0.780), text: rgb(0.573, 0.251, 0.055) };
+  if (n === 'completed' || n === 'complete' || n === 'done')
+    return { bg: rgb(0.863, 0.988, 0.906), text: rgb(0.086, 0.396, 0.204) };
+  if (n === 'delayed' || n === 'overdue' || n === 'blocked')
+    return { bg: rgb(0.996, 0.886, 0.886), text: rgb(0.600, 0.106, 0.106) };
+  if (n === 'needs review')
+    return { bg: rgb(0.996, 0.929, 0.835), text: rgb(0.573, 0.251, 0.055) };
+  // Pending / default
+  return { bg: rgb(0.945, 0.961, 0.976), text: rgb(0.392, 0.455, 0.545) };
+}
+
+function getChangeBadgeColors(status: AgendaChangeStatus): { bg: RGB; text: RGB } {
+  if (status === 'new') return getStatusBadgeColors('in progress');
+  if (status === 'ongoing') return getStatusBadgeColors('waiting');
+  if (status === 'resolved') return getStatusBadgeColors('completed');
+  return getStatusBadgeColors('pending');
+}
+
+const FONT_FAMILIES: Record<MinutesFont, [StandardFonts, StandardFonts, StandardFonts]> = {
+  helvetica: [StandardFonts.Helvetica, StandardFonts.HelveticaBold, StandardFonts.HelveticaOblique],
+  times: [StandardFonts.TimesRoman, StandardFonts.TimesRomanBold, StandardFonts.TimesRomanItalic],
+  courier: [StandardFonts.Courier, StandardFonts.CourierBold, StandardFonts.CourierOblique],
+};
+
+/** Logo box in the header, in points. */
+const LOGO_MAX_W = 110;
+const LOGO_MAX_H = 36;
+
+/** Blend two hex colours; t=0 is `a`, t=1 is `b`. */
+function mixHex(a: string, b: string, t: number): RGB {
+  const [ca, cb] = [hexToRgb(a), hexToRgb(b)];
+  return rgb(ca.red + (cb.red - ca.red) * t, ca.green + (cb.green - ca.green) * t, ca.blue + (cb.blue - ca.blue) * t);
+}
+
+/** Embed PNG or JPEG bytes; anything else (or a corrupt file) leaves the logo out. */
+async function embedLogo(pdf: PDFDocument, bytes: Uint8Array): Promise<PDFImage | null> {
+  try {
+    if (bytes[0] === 0x89 && bytes[1] === 0x50) return await pdf.embedPng(bytes);
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return await pdf.embedJpg(bytes);
+  } catch {
+    // fall through
+  }
+  return null;
+}
+
+/** Most recent sessions per agenda item shown in the PDF's history section. */
+const PDF_HISTORY_SESSIONS = 5;
+
+function getPriorityBorderColor(priority: string): RGB {
+  const n = priority.toLowerCase().trim();
+  if (n === 'urgent') return rgb(0.937, 0.267, 0.267);
+  if (n === 'high') return rgb(0.976, 0.451, 0.086);
+  if (n === 'normal') return rgb(0.231, 0.510, 0.965);
+  return rgb(0.796, 0.835, 0.882); // Low / default
+}
+
+export async function renderMinutesPdf(
+  data: MinutesContent,
+  template: MinutesTemplate,
+  /** Logo image bytes (PNG or JPEG) for template.logoUrl, fetched by the caller. */
+  assets: { logo?: Uint8Array | null } = {}
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const [regularFont, boldFont, obliqueFont] = FONT_FAMILIES[template.font];
+  const font = await pdf.embedFont(regularFont);
+  const bold = await pdf.embedFont(boldFont);
+  const oblique = await pdf.embedFont(obliqueFont);
+  const logo = assets.logo ? await embedLogo(pdf, assets.logo) : null;
+
+  // Color palette: template accents, fixed slate neutrals
+  const ACCENT_50 = hexToRgb(template.palette.light);
+  const ACCENT_100 = mixHex(template.palette.light, template.palette.primary, 0.15);
+  const ACCENT_200 = mixHex(template.palette.light, template.palette.primary, 0.3);
+  const ACCENT_500 = hexToRgb(template.palette.primary);
+  const ACCENT_600 = mixHex(template.palette.primary, template.palette.dark, 0.35);
+  const ACCENT_700 = mixHex(template.palette.primary, template.palette.dark, 0.7);
+  const ACCENT_800 = hexToRgb(template.palette.dark);
+
+  const SLATE_50 = rgb(0.973, 0.980, 0.988);
+  const SLATE_100 = rgb(0.945, 0.961, 0.976);
+  const SLATE_200 = rgb(0.886, 0.910, 0.941);
+  const SLATE_300 = rgb(0.796, 0.835, 0.882);
+  const SLATE_400 = rgb(0.580, 0.639, 0.722);
+  const SLATE_500 = rgb(0.392, 0.455, 0.545);
+  const SLATE_700 = rgb(0.200, 0.255, 0.333);
+  const SLATE_800 = rgb(0.118, 0.161, 0.231);
+
+  // Portrait
+  const PAGE_W = MINUTES_PAGE_SIZES[template.pageSize].width;
+  const PAGE_H = MINUTES_PAGE_SIZES[template.pageSize].height;
+  const MARGIN_X = 46;
+  const TOP = PAGE_H - 54;
+  const BOTTOM = 56;
+  const CONTENT_W = PAGE_W - MARGIN_X * 2;
+
+  let page = pdf.addPage([PAGE_W, PAGE_H]);
+  let y = TOP;
+
+  const newPage = () => {
+    page = pdf.addPage([PAGE_W, PAGE_H]);
+    y = TOP;
+  };
+
+  const ensureSpace = (need: number) => {
+    if (y - need < BOTTOM) newPage();
+  };
+
+  const drawText = (t: string, x: number, yPos: number, size: number, f: PDFFont, color: RGB) => {
+    page.drawText(t, { x, y: yPos, size, font: f, color });
+  };
+
+  /** Draws a modern section divider: accent dot + uppercase label + extending line */
+  const drawSectionDivider = (label: string) => {
+    ensureSpace(30);
+    // Accent dot
+    page.drawCircle({ x: MARGIN_X + 4, y: y + 2, size: 3, color: ACCENT_500 });
+    // Label
+    const labelW = bold.widthOfTextAtSize(label, 10);
+    drawText(label, MARGIN_X + 14, y - 2, 10, bold, SLATE_700);
+    // Extending line
+    page.drawLine({
+      start: { x: MARGIN_X + 18 + labelW, y: y + 1 },
+      end: { x: PAGE_W - MARGIN_X, y: y + 1 },
+      thickness: 1,
+      color: SLATE_200,
+    });
+    y -= 16;
+  };
+
+  /** Draw a pill-shaped badge and return its width */
+  const drawPillBadge = (text: string, x: number, yPos: number, bgColor: RGB, textColor: RGB, textFont: PDFFont, textSize: number, borderColor?: RGB) => {
+    const tw = textFont.widthOfTextAtSize(text, textSize);
+    const padX = 6;
+    const padY = 2;
+    const badgeW = tw + padX * 2;
+    const badgeH = textSize + padY * 2 + 2;
+    page.drawRectangle({
+      x,
+      y: yPos - padY - 1,
+      width: badgeW,
+      height: badgeH,
+      color: bgColor,
+      borderWidth: borderColor ? 1 : 0,
+      borderColor: borderColor ?? bgColor,
+    });
+    drawText(text, x + padX, yPos + 1, textSize, textFont, textColor);
+    return badgeW;
+  };
+
+  // ===== HEADER (centered, logo on the left) =====
+  const titleSize = 22;
+  ensureSpace(60);
+  if (logo) {
+    const scale = Math.min(LOGO_MAX_H / logo.height, LOGO_MAX_W / logo.width);
+    const logoH = logo.height * scale;
+    page.drawImage(logo, { x: MARGIN_X, y: y + titleSize - logoH, width: logo.width * scale, height: logoH });
+  }
+  const titleW = bold.widthOfTextAtSize(data.meetingTitle, titleSize);
+  drawText(data.meetingTitle, (PAGE_W - titleW) / 2, y, titleSize, bold, ACCENT_800);
+  y -= 22;
+
+  // Date • Time • Location line
+  const headerParts = [data.meetingDateLabel, data.meetingTimeLabel, data.meetingLocation].filter(Boolean);
+  const dateStr = headerParts.join('  \u2022  ');
+  const dateW = font.widthOfTextAtSize(dateStr, 11);
+  drawText(dateStr, (PAGE_W - dateW) / 2, y, 11, font, SLATE_500);
+  y -= 18;
+
+  // Session badge pill
+  if (data.sessionNumber) {
+    const sessionText = `SESSION #${data.sessionNumber}`;
+    const stw = bold.widthOfTextAtSize(sessionText, 8);
+    const pillW = stw + 14;
+    const pillX = (PAGE_W - pillW) / 2;
+    page.drawRectangle({
+      x: pillX,
+      y: y - 4,
+      width: pillW,
+      height: 16,
+      color: ACCENT_50,
+      borderWidth: 1,
+      borderColor: ACCENT_200,
+    });
+    drawText(sessionText, pillX + 7, y, 8, bold, ACCENT_700);
+    y -= 22;
+  }
+
+  y -= 6;
+
+  // ===== ATTENDANCE SECTION =====
+  const drawAttendance = () => {
+    drawSectionDivider('ATTENDANCE');
+
+    const present = data.attendanceData.filter((a) => a.is_present && !a.is_guest);
+    const absent = data.attendanceData.filter((a) => !a.is_present && !a.is_guest);
+    const guests = data.attendanceData.filter((a) => a.is_guest);
+
+    if (data.attendanceData.length === 0) {
+      ensureSpace(20);
+      drawText('No attendance data recorded.', MARGIN_X + 10, y, 9, font, SLATE_400);
+      y -= 20;
+    } else {
+      const drawChipRow = (label: string, items: AttendanceRow[], chipBg: RGB, chipBorder: RGB) => {
+        if (items.length === 0) return;
+        ensureSpace(28);
+        drawText(label, MARGIN_X + 4, y, 8, bold, SLATE_400);
+        y -= 14;
+
+        let cx = MARGIN_X + 4;
+        const chipH = 18;
+        for (const att of items) {
+          const name = (att.full_name ?? '').trim() || (att.email ?? '').trim() || 'Unknown';
+          const nameW = font.widthOfTextAtSize(name, 9);
+          const chipW = nameW + 22;
+
+          if (cx + chipW > PAGE_W - MARGIN_X) {
+            y -= chipH + 4;
+            cx = MARGIN_X + 4;
+            ensureSpace(chipH + 4);
+          }
+
+          // Chip background
+          page.drawRectangle({
+            x: cx,
+            y: y - 4,
+            width: chipW,
+            height: chipH,
+            color: chipBg,
+            borderWidth: 1,
+            borderColor: chipBorder,
+          });
+
+          // Color dot
+          const dotColor = att.color_hex ? hexToRgb(att.color_hex) : SLATE_400;
+          page.drawCircle({ x: cx + 9, y: y + 5, size: 3, color: dotColor });
+
+          // Name
+          drawText(name, cx + 16, y + 1, 9, font, SLATE_700);
+          cx += chipW + 6;
+        }
+        y -= chipH + 8;
+      };
+
+      drawChipRow('PRESENT', present, SLATE_50, SLATE_200);
+      drawChipRow('ABSENT', absent, rgb(0.980, 0.960, 0.960), SLATE_200);
+      drawChipRow('GUESTS', guests, rgb(0.940, 0.955, 0.996), SLATE_200);
+    }
+
+    y -= 6;
+  };
+
+  // ===== MILESTONES SECTION =====
+  const drawMilestones = () => {
+    drawSectionDivider('MILESTONES');
+
+    const sortedMilestones = sortMilestones(data.milestones);
+
+    if (sortedMilestones.length === 0) {
+      ensureSpace(20);
+      drawText('No milestones defined.', MARGIN_X + 10, y, 9, font, SLATE_400);
+      y -= 20;
+    } else {
+      const msLeftW = CONTENT_W * 0.65;
+      const msRightW = CONTENT_W * 0.35;
+
+      for (let mi = 0; mi < sortedMilestones.length; mi++) {
+        const ms = sortedMilestones[mi]!;
+
+        // Estimate row height
+        const titleLines = wrapText({ text: ms.title, font: bold, size: 10, maxWidth: msLeftW - 20 });
+        const descLines = ms.description
+          ? wrapText({ text: ms.description, font: oblique, size: 9, maxWidth: msRightW - 12 }).slice(0, 2)
+          : [];
+        const rowH = Math.max(36, titleLines.length * 12 + 24);
+        ensureSpace(rowH + 4);
+
+        const rowTop = y;
+
+        // Priority left border strip
+        const borderColor = getPriorityBorderColor(ms.priority);
+        page.drawRectangle({
+          x: MARGIN_X,
+          y: rowTop - rowH,
+          width: 4,
+          height: rowH,
+          color: borderColor,
+        });
+
+        // Row borders
+        if (mi === 0) {
+          page.drawLine({ start: { x: MARGIN_X, y: rowTop }, end: { x: PAGE_W - MARGIN_X, y: rowTop }, thickness: 1, color: SLATE_200 });
+        }
+        page.drawLine({ start: { x: MARGIN_X, y: rowTop - rowH }, end: { x: PAGE_W - MARGIN_X, y: rowTop - rowH }, thickness: 1, color: SLATE_200 });
+        page.drawLine({ start: { x: MARGIN_X, y: rowTop }, end: { x: MARGIN_X, y: rowTop - rowH }, thickness: 1, color: SLATE_200 });
+        page.drawLine({ start: { x: PAGE_W - MARGIN_X, y: rowTop }, end: { x: PAGE_W - MARGIN_X, y: rowTop - rowH }, thickness: 1, color: SLATE_200 });
+
+        // Left column: title + meta
+        let ly = rowTop - 12;
+        for (const tl of titleLines) {
+          drawText(tl, MARGIN_X + 10, ly, 10, bold, SLATE_800);
+          ly -= 12;
+        }
+
+        // Meta row: date + status pill + owner with dot
+        const metaY = ly;
+        let mx = MARGIN_X + 10;
+        if (ms.target_date) {
+          drawText(ms.target_date, mx, metaY, 8, font, SLATE_500);
+          mx += font.widthOfTextAtSize(ms.target_date, 8) + 8;
+        }
+
+        // Status pill
+        const statusColors = getStatusBadgeColors(ms.status);
+        const statusW = drawPillBadge(ms.status, mx, metaY, statusColors.bg, statusColors.text, font, 7);
+        mx += statusW + 8;
+
+        // Owner with dot
+        const ownerDotColor = ms.owner_color ? hexToRgb(ms.owner_color) : SLATE_400;
+        page.drawCircle({ x: mx + 3, y: metaY + 3, size: 2.5, color: ownerDotColor });
+        drawText(clampText(ms.owner_name, 20), mx + 9, metaY, 8, font, SLATE_500);
+
+        // Right column: description/notes
+        if (descLines.length > 0) {
+          let ry = rowTop - 12;
+          const rightX = MARGIN_X + msLeftW;
+          for (const dl of descLines) {
+            drawText(dl, rightX, ry, 9, oblique, SLATE_400);
+            ry -= 11;
+          }
+        }
+
+        y -= rowH;
+      }
+    }
+
+    y -= 12;
+  };
+
+  // ===== ACTIVE TASKS (2-column layout, grouped by category) =====
+  const drawTasks = () => {
+    drawSectionDivider('ACTIVE TASKS');
+
+    const taskColGap = 14;
+    const taskColW = (CONTENT_W - taskColGap) / 2;
+    let leftY = y;
+    let rightY = y;
+
+    const categories = groupTasksByColumn(data.tasks);
+
+    if (data.tasks.length === 0) {
+      ensureSpace(20);
+      drawText('No active tasks.', MARGIN_X + 10, y, 9, font, SLATE_400);
+      y -= 20;
+      leftY = y;
+      rightY = y;
+    }
+
+    const drawTaskCategory = (x: number, yTop: number, cat: string, items: TaskRow[]) => {
+      // Header
+      const headerH = 22;
+      const countText = `${items.length}`;
+
+      // Calculate body height
+      let bodyH = 8;
+      for (const it of items) {
+        const tLines = wrapText({ text: it.title || '', font: bold, size: 10, maxWidth: taskColW - 18 });
+        bodyH += tLines.length * 12;
+        bodyH += 16; // badge row
+        bodyH += 12; // owner line
+        const note = (it.notes ?? '').trim();
+        const comm = (it.latestComment ?? '').trim();
+        if (note) bodyH += Math.min(2, wrapText({ text: note, font: oblique, size: 8, maxWidth: taskColW - 18 }).length) * 10;
+        if (comm) bodyH += Math.min(2, wrapText({ text: comm, font: oblique, size: 8, maxWidth: taskColW - 18 }).length) * 10;
+        bodyH += 8; // separator
+      }
+
+      const totalH = headerH + Math.max(28, bodyH);
+
+      // Card border
+      page.drawRectangle({
+        x,
+        y: yTop - totalH,
+        width: taskColW,
+        height: totalH,
+        borderWidth: 1,
+        borderColor: SLATE_200,
+      });
+
+      // Green header
+      page.drawRectangle({
+        x: x + 1,
+        y: yTop - headerH,
+        width: taskColW - 2,
+        height: headerH - 1,
+        color: ACCENT_50,
+      });
+      drawText(cat, x + 8, yTop - 14, 10, bold, ACCENT_800);
+      // Item count pill
+      const pillX2 = x + taskColW - font.widthOfTextAtSize(countText, 8) - 18;
+      drawPillBadge(countText, pillX2, yTop - 14, ACCENT_100, ACCENT_700, font, 8);
+
+      // Task items
+      let cy = yTop - headerH - 10;
+      for (let ti = 0; ti < items.length; ti++) {
+        const it = items[ti]!;
+        // Separator line between items
+        if (ti > 0) {
+          page.drawLine({
+            start: { x: x + 6, y: cy + 6 },
+            end: { x: x + taskColW - 6, y: cy + 6 },
+            thickness: 0.5,
+            color: SLATE_100,
+          });
+          cy -= 2;
+        }
+
+        // Title
+        const tLines = wrapText({ text: it.title || '', font: bold, size: 10, maxWidth: taskColW - 18 });
+        for (const tl of tLines) {
+          drawText(tl, x + 10, cy, 10, bold, SLATE_800);
+          cy -= 12;
+        }
+
+        // Badge row: status pill + due date pill
+        if (it.status) {
+          const sc = getStatusBadgeColors(it.status);
+          const sw = drawPillBadge(it.status, x + 10, cy, sc.bg, sc.text, font, 7);
+          if (it.dueDate) {
+            drawPillBadge(it.dueDate, x + 10 + sw + 6, cy, SLATE_50, SLATE_500, font, 7, SLATE_200);
+          }
+        } else if (it.dueDate) {
+          drawPillBadge(it.dueDate, x + 10, cy, SLATE_50, SLATE_500, font, 7, SLATE_200);
+        }
+        cy -= 14;
+
+        // Owner with color dot
+        const ownerName = it.ownerName ?? 'Unassigned';
+        const ownerDotC = it.ownerColor ? hexToRgb(it.ownerColor) : SLATE_400;
+        page.drawCircle({ x: x + 14, y: cy + 3, size: 2.5, color: ownerDotC });
+        drawText(clampText(ownerName, 30), x + 20, cy, 9, font, SLATE_500);
+        cy -= 12;
+
+        // Notes
+        const note = (it.notes ?? '').trim();
+        if (note) {
+          const nLines = wrapText({ text: note, font: oblique, size: 8, maxWidth: taskColW - 18 }).slice(0, 2);
+          for (const nl of nLines) {
+            drawText(nl, x + 10, cy, 8, oblique, SLATE_400);
+            cy -= 10;
+          }
+        }
+        // Latest comment
+        const comm = (it.latestComment ?? '').trim();
+        if (comm) {
+          const cLines = wrapText({ text: `Latest: ${comm}`, font: oblique, size: 8, maxWidth: taskColW - 18 }).slice(0, 2);
+          for (const cl of cLines) {
+            drawText(cl, x + 10, cy, 8, oblique, SLATE_400);
+            cy -= 10;
+          }
+        }
+        cy -= 4;
+      }
+
+      return totalH;
+    };
+
+    const commitTasksBlock = () => {
+      y = Math.min(leftY, rightY) - 10;
+    };
+
+    for (const { column: cat, tasks: items } of categories) {
+      const rough = 22 + Math.min(300, 40 + items.length * 50);
+
+      if (Math.min(leftY, rightY) - rough < BOTTOM) {
+        newPage();
+        drawSectionDivider('ACTIVE TASKS (CONT.)');
+        leftY = y;
+        rightY = y;
+      }
+
+      const useLeft = leftY >= rightY;
+
+      if ((useLeft ? leftY : rightY) - 80 < BOTTOM) {
+        newPage();
+        drawSectionDivider('ACTIVE TASKS (CONT.)');
+        leftY = y;
+        rightY = y;
+      }
+
+      const drawX = leftY >= rightY ? MARGIN_X : MARGIN_X + taskColW + taskColGap;
+      const drawY = leftY >= rightY ? leftY : rightY;
+      const h = drawTaskCategory(drawX, drawY, cat, items);
+      if (useLeft) leftY -= h + 10;
+      else rightY -= h + 10;
+    }
+
+    if (categories.length > 0) {
+      commitTasksBlock();
+    }
+    y -= 6;
+  };
+
+  // ===== DISCUSSION NOTES (side-by-side) =====
+  const drawAgenda = () => {
+    drawSectionDivider('DISCUSSION NOTES');
+
+    const noteGap = 10;
+    const colW = (CONTENT_W - noteGap) / 2;
+
+    if (data.agenda.length === 0) {
+      ensureSpace(20);
+      drawText('No agenda items.', MARGIN_X + 10, y, 9, font, SLATE_400);
+      y -= 20;
+    }
+
+    const drawAgendaSection = (row: AgendaRow) => {
+      const headerH = 20;
+
+      const leftLines = wrapText({
+        text: normalizeNotes(row.notes) || '(No notes)',
+        font,
+        size: 10,
+        maxWidth: colW - 16,
+      });
+      const rightLines = wrapText({
+        text: normalizeNotes(row.prevNotes) || '(No previous notes)',
+        font,
+        size: 10,
+        maxWidth: colW - 16,
+      });
+
+      const maxLines = Math.max(leftLines.length, rightLines.length);
+      const lineH = 12;
+      const boxBodyH = Math.max(50, Math.min(320, maxLines * lineH + 28));
+      const needed = headerH + boxBodyH + 14;
+      ensureSpace(needed);
+
+      // Agenda item header: code badge + title
+      const { code, title } = splitAgendaLabel(row.label);
+
+      if (code) {
+        const codeW = bold.widthOfTextAtSize(code, 8) + 10;
+        page.drawRectangle({ x: MARGIN_X, y: y - 12, width: codeW, height: 14, color: ACCENT_600 });
+        drawText(code, MARGIN_X + 5, y - 8, 8, bold, rgb(1, 1, 1));
+        drawText(title, MARGIN_X + codeW + 6, y - 8, 11, bold, SLATE_700);
+      } else {
+        drawText(title, MARGIN_X, y - 8, 11, bold, SLATE_700);
+      }
+      y -= headerH + 4;
+
+      // Left + right boxes
+      const leftX = MARGIN_X;
+      const rightX = MARGIN_X + colW + noteGap;
+
+      page.drawRectangle({ x: leftX, y: y - boxBodyH, width: colW, height: boxBodyH, color: SLATE_50, borderWidth: 1, borderColor: SLATE_200 });
+      page.drawRectangle({ x: rightX, y: y - boxBodyH, width: colW, height: boxBodyH, color: SLATE_50, borderWidth: 1, borderColor: SLATE_200 });
+
+      drawText('THIS SESSION', leftX + 8, y - 12, 8, bold, SLATE_400);
+      drawText('PREVIOUS SESSION', rightX + 8, y - 12, 8, bold, SLATE_400);
+
+      let ly = y - 28;
+      for (const ln of leftLines) {
+        if (ly < y - boxBodyH + 10) break;
+        drawText(ln, leftX + 8, ly, 10, ln === '(No notes)' ? oblique : font, ln === '(No notes)' ? SLATE_400 : SLATE_700);
+        ly -= lineH;
+      }
+
+      let ry = y - 28;
+      for (const ln of rightLines) {
+        if (ry < y - boxBodyH + 10) break;
+        drawText(ln, rightX + 8, ry, 10, ln === '(No previous notes)' ? oblique : font, ln === '(No previous notes)' ? SLATE_400 : SLATE_700);
+        ry -= lineH;
+      }
+
+      y -= boxBodyH + 10;
+    };
+
+    for (const a of data.agenda) {
+      drawAgendaSection(a);
+    }
+
+    y -= 6;
+  };
+
+  // ===== AGENDA HISTORY (optional) =====
+  const drawAgendaHistory = () => {
+    if (!data.agendaHistory) return;
+    drawSectionDivider('AGENDA HISTORY');
+
+    const historyItems = data.agendaHistory.filter((h) => h.entries.some((e) => e.change || e.notes));
+    if (historyItems.length === 0) {
+      ensureSpace(20);
+      drawText('No earlier sessions.', MARGIN_X + 10, y, 9, font, SLATE_400);
+      y -= 20;
+    }
+
+    for (const item of historyItems) {
+      ensureSpace(40);
+      drawText(clampText(item.label, 90), MARGIN_X, y - 8, 11, bold, SLATE_700);
+      if (item.flagged) {
+        const flagText = `UNRESOLVED FOR ${item.unresolvedStreak} SESSIONS`;
+        const flagW = bold.widthOfTextAtSize(flagText, 7) + 12;
+        const flagColors = getStatusBadgeColors('delayed');
+        drawPillBadge(flagText, PAGE_W - MARGIN_X - flagW, y - 8, flagColors.bg, flagColors.text, bold, 7);
+      }
+      y -= 24;
+
+      const entries = item.entries.filter((e) => e.change || e.notes).slice(-PDF_HISTORY_SESSIONS).reverse();
+      for (const e of entries) {
+        const dateText = `${e.sessionNumber ? `#${e.sessionNumber}  ` : ''}${new Date(e.startedAt).toLocaleDateString(undefined, {
+          year: 'numeric',
+          month: 'short',
+          day: 'numeric',
+        })}`;
+        const summary = e.change?.summary || normalizeNotes(e.notes) || '(Not discussed)';
+        const lines = wrapText({ text: summary, font, size: 9, maxWidth: CONTENT_W - 130 }).slice(0, 6);
+        ensureSpace(lines.length * 11 + 8);
+
+        drawText(dateText, MARGIN_X + 10, y, 8, bold, SLATE_500);
+        if (e.change) {
+          const sc = getChangeBadgeColors(e.change.status);
+          drawPillBadge(AGENDA_CHANGE_LABELS[e.change.status], MARGIN_X + 10, y - 12, sc.bg, sc.text, font, 7);
+        }
+        let hy = y;
+        for (const ln of lines) {
+          drawText(ln, MARGIN_X + 120, hy, 9, e.change?.summary ? font : oblique, SLATE_700);
+          hy -= 11;
+        }
+        y -= Math.max(lines.length * 11, e.change ? 24 : 12) + 6;
+      }
+      y -= 6;
+    }
+
+    y -= 6;
+  };
+
+  // ===== ONGOING NOTES =====
+  const drawOngoingNotes = () => {
+    drawSectionDivider('ONGOING NOTES');
+
+    if (data.ongoingNotes.length === 0) {
+      ensureSpace(20);
+      drawText('No ongoing notes.', MARGIN_X + 10, y, 9, font, SLATE_400);
+      y -= 20;
+    } else {
+      for (let ni = 0; ni < data.ongoingNotes.length; ni++) {
+        const note = data.ongoingNotes[ni]!;
+        const titleLines = wrapText({ text: note.title, font: bold, size: 11, maxWidth: CONTENT_W - 20 });
+        const contentLines = note.content
+          ? wrapText({ text: normalizeNotes(note.content), font, size: 10, maxWidth: CONTENT_W - 30 })
+          : [];
+        const categoryLine = note.category ?? '';
+
+        const neededH = titleLines.length * 14 + contentLines.length * 12 + (categoryLine ? 14 : 0) + 24;
+        ensureSpace(neededH);
+
+        // Card: white fill, slate border
+        page.drawRectangle({
+          x: MARGIN_X,
+          y: y - neededH,
+          width: CONTENT_W,
+          height: neededH,
+          color: rgb(1, 1, 1),
+          borderWidth: 1,
+          borderColor: SLATE_200,
+        });
+
+        let ny = y - 10;
+
+        for (const tl of titleLines) {
+          drawText(tl, MARGIN_X + 10, ny, 11, bold, SLATE_800);
+          ny -= 14;
+        }
+
+        if (categoryLine) {
+          drawText(categoryLine, MARGIN_X + 10, ny, 8, font, ACCENT_600);
+          ny -= 14;
+        }
+
+        if (contentLines.length > 0) {
+          for (const cl of contentLines) {
+            drawText(cl, MARGIN_X + 16, ny, 10, font, SLATE_500);
+            ny -= 12;
+          }
+        } else {
+          drawText('(No content)', MARGIN_X + 16, ny, 10, oblique, SLATE_400);
+          ny -= 12;
+        }
+
+        y -= neededH + 8;
+      }
+    }
+  };
+
+  const drawSection: Record<MinutesSection, () => void> = {
+    attendance: drawAttendance,
+    milestones: drawMilestones,
+    tasks: drawTasks,
+    agenda: drawAgenda,
+    agenda_history: drawAgendaHistory,
+    ongoing_notes: drawOngoingNotes,
+  };
+  for (const section of template.sections) drawSection[section]();
+
+  // ===== REFERENCE LINK =====
+  if (data.referenceLink) {
+    ensureSpace(40);
+    page.drawLine({
+      start: { x: MARGIN_X, y },
+      end: { x: PAGE_W - MARGIN_X, y },
+      thickness: 1,
+      color: SLATE_200,
+    });
+    y -= 16;
+    drawText('Reference link:', MARGIN_X, y, 9, bold, SLATE_700);
+    drawText(clampText(data.referenceLink, 140), MARGIN_X + 92, y, 9, font, rgb(0.1, 0.3, 0.8));
+    y -= 12;
+  }
+
+  // ===== PAGE NUMBERS + ACCENT TOP BAR =====
+  const allPages = pdf.getPages();
+  const totalPages = allPages.length;
+  for (let i = 0; i < totalPages; i++) {
+    const pg = allPages[i]!;
+
+    // Top accent bar
+    pg.drawRectangle({ x: 0, y: PAGE_H - 6, width: PAGE_W, height: 6, color: ACCENT_500 });
+
+    // Page number
+    const pageNumText = `Page ${i + 1} of ${totalPages}`;
+    const pageNumW = font.widthOfTextAtSize(pageNumText, 9);
+    pg.drawText(pageNumText, {
+      x: (PAGE_W - pageNumW) / 2,
+      y: 28,
+      size: 9,
+      font,
+      color: SLATE_400,
+    });
+
+    // Brand
+    const brandText = `Generated by ${APP_NAME}`;
+    const brandW = font.widthOfTextAtSize(brandText, 7);
+    pg.drawText(brandText, {
+      x: (PAGE_W - brandW) / 2,
+      y: 18,
+      size: 7,
+      font,
+      color: SLATE_300,
+    });
+  }
+
+  return pdf.save();
+}
@@ -0,0 +1,183 @@
+/**
+ * minutes-template-server.ts
+ * Resolves the minutes template a meeting renders with and fetches template
+ * logos.  Server-only.
+ *
+ * Logo URLs come from users (including unsaved previews), so the fetch only
+ * goes to public hosts: loopback, private, link-local and other internal
+ * addresses are refused when the connection resolves the host (so a second
+ * DNS answer can't swap in another address), and redirects are re-checked
+ * hop by hop.
+ */
+
+import { lookup } from 'dns';
+import http from 'http';
+import https from 'https';
+import { isIP, type LookupFunction } from 'net';
+import { supabaseAdmin } from '@/src/lib/supabase/admin';
+import {
+  DEFAULT_MINUTES_TEMPLATE,
+  normalizeMinutesTemplate,
+  type MinutesTemplate,
+  type MinutesTemplateRow,
+} from '@/src/lib/meetings/minutes-template';
+
+type Admin = ReturnType<typeof supabaseAdmin>;
+
+const TEMPLATE_COLUMNS = 'id,name,sections,logo_url,palette,page_size,font,is_default';
+
+/** Largest logo we embed; bigger files are skipped rather than bloating every PDF. */
+const MAX_LOGO_BYTES = 2 * 1024 * 1024;
+const LOGO_FETCH_TIMEOUT_MS = 10_000;
+const MAX_LOGO_REDIRECTS = 3;
+
+export async function loadTemplateById(admin: Admin, templateId: string): Promise<MinutesTemplate | null> {
+  const { data, error } = await admin.from('minutes_templates').select(TEMPLATE_COLUMNS).eq('id', templateId).maybeSingle();
+  if (error) throw error;
+  return data ? normalizeMinutesTemplate(data as MinutesTemplateRow) : null;
+}
+
+/**
+ * The meeting's chosen template, else the team default, else the built-in
+ * layout.  Missing tables (before migration 032) fall back to the built-in.
+ */
+export async function loadMinutesTemplate(admin: Admin, meetingId: string | null): Promise<MinutesTemplate> {
+  if (meetingId) {
+    const meetingRes = await admin.from('meetings').select('minutes_template_id').eq('id', meetingId).maybeSingle();
+    const templateId = !meetingRes.error ? meetingRes.data?.minutes_template_id : null;
+    if (templateId) {
+      const chosen = await loadTemplateById(admin, String(templateId)).catch(() => null);
+      if (chosen) return chosen;
+    }
+  }
+
+  const { data, error } = await admin
+    .from('minutes_templates')
+    .select(TEMPLATE_COLUMNS)
+    .eq('is_default', true)
+    .limit(1)
+    .maybeSingle();
+  if (error || !data) return DEFAULT_MINUTES_TEMPLATE;
+  return normalizeMinutesTemplate(data as MinutesTemplateRow);
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Logo fetch
+// ────────────────────────────────────────────────────────────────────────────
+
+function ipv4Blocked(ip: string): boolean {
+  const [a, b, c] = ip.split('.').map(Number);
+  return (
+    a === 0 || // "this" network
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) || // link-local, cloud metadata
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0 && c === 0) ||
+    (a === 198 && (b === 18 || b === 19)) || // benchmarking
+    a >= 224 // multicast, reserved, broadcast
+  );
+}
+
+function ipBlocked(ip: string): boolean {
+  if (isIP(ip) === 4) return ipv4Blocked(ip);
+  const v6 = ip.toLowerCase();
+  const mapped = v6.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return ipv4Blocked(mapped[1]);
+  return (
+    v6.startsWith('::') || // unspecified, loopback, IPv4-mapped / -compatible
+    v6.startsWith('64:ff9b:') || // NAT64 (embeds an IPv4 address)
+    /^f[cd]/.test(v6) || // unique local
+    /^fe[89ab]/.test(v6) || // link-local
+    v6.startsWith('ff') // multicast
+  );
+}
+
+/** The Supabase project (where uploaded logos live) is always allowed, even on a local dev stack. */
+function isSupabaseOrigin(url: URL): boolean {
+  try {
+    return !!process.env.NEXT_PUBLIC_SUPABASE_URL && url.origin === new URL(process.env.NEXT_PUBLIC_SUPABASE_URL).origin;
+  } catch {
+    return false;
+  }
+}
+
+/** Throws unless `url` is http(s) and not a blocked IP literal; host names are checked by `publicLookup`. */
+function assertPublicUrl(url: URL): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error(`Unsupported logo URL scheme ${url.protocol}`);
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && ipBlocked(host) && !isSupabaseOrigin(url)) throw new Error(`Logo host ${url.hostname} is not a public address`);
+}
+
+/** DNS lookup for the logo connection: refuses the host if any address it resolves to is blocked. */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, []);
+    if (!addresses.length || addresses.some((a) => ipBlocked(a.address))) {
+      return callback(new Error(`Logo host ${hostname} is not a public address`), []);
+    }
+    if (options.all) callback(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+type LogoResponse = { status: number; location: string | null; body: Uint8Array | null };
+
+/**
+ * One GET without following redirects.  `body` is null for non-2xx responses
+ * and for bodies over MAX_LOGO_BYTES, which are abandoned once the declared
+ * length or the bytes read so far pass the cap.
+ */
+function getLogo(url: URL): Promise<LogoResponse> {
+  return new Promise((resolve, reject) => {
+    const get = url.protocol === 'https:' ? https.get : http.get;
+    const options = {
+      lookup: isSupabaseOrigin(url) ? undefined : publicLookup,
+      signal: AbortSignal.timeout(LOGO_FETCH_TIMEOUT_MS),
+    };
+    const req = get(url, options, (res) => {
+      const status = res.statusCode ?? 0;
+      const location = res.headers.location ?? null;
+      const tooLarge = () => {
+        req.destroy();
+        resolve({ status, location, body: null });
+      };
+      if (status < 200 || status >= 300) {
+        res.resume();
+        return resolve({ status, location, body: null });
+      }
+      if (Number(res.headers['content-length']) > MAX_LOGO_BYTES) return tooLarge();
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+      res.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_LOGO_BYTES) return tooLarge();
+        chunks.push(chunk);
+      });
+      res.on('end', () => resolve({ status, location, body: new Uint8Array(Buffer.concat(chunks)) }));
+      res.on('error', reject);
+    });
+    req.on('error', reject);
+  });
+}
+
+/** Logo image bytes, or null when unset, unreachable or too large — a logo never fails a PDF. */
+export async function fetchLogoBytes(url: string | null): Promise<Uint8Array | null> {
+  if (!url) return null;
+  try {
+    let target = new URL(url);
+    for (let hop = 0; ; hop++) {
+      assertPublicUrl(target);
+      const res = await getLogo(target);
+      if (res.status < 300 || res.status >= 400 || !res.location) return res.body;
+      if (hop >= MAX_LOGO_REDIRECTS) throw new Error('Too many logo redirects');
+      target = new URL(res.location, target);
+    }
+  } catch (e) {
+    console.error('Minutes logo fetch failed:', e);
+    return null;
+  }
+}
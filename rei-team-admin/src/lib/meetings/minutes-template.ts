@@ -0,0 +1,138 @@
+/**
+ * minutes-template.ts
+ * Minutes PDF templates (`minutes_templates`, migration 032): which sections
+ * the finalized minutes include and in what order, logo, colour palette,
+ * font and page size.  A meeting picks one with `meetings.minutes_template_id`;
+ * otherwise the template marked default, otherwise DEFAULT_MINUTES_TEMPLATE.
+ *
+ * Rendering is in minutes-pdf.ts; loading in minutes-template-server.ts.
+ */
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Types
+// ──────────────────────────────────────────────────────────────────────────────
+
+export const MINUTES_SECTIONS = [
+  'attendance',
+  'milestones',
+  'tasks',
+  'agenda',
+  'agenda_history',
+  'ongoing_notes',
+] as const;
+
+export type MinutesSection = (typeof MINUTES_SECTIONS)[number];
+
+export const MINUTES_SECTION_LABELS: Record<MinutesSection, string> = {
+  attendance: 'Attendance',
+  milestones: 'Milestones',
+  tasks: 'Active tasks',
+  agenda: 'Discussion notes (agenda)',
+  agenda_history: 'Agenda history',
+  ongoing_notes: 'Ongoing notes',
+};
+
+export type MinutesPageSize = 'letter' | 'a4';
+
+/** Width × height in PDF points. */
+export const MINUTES_PAGE_SIZES: Record<MinutesPageSize, { label: string; width: number; height: number }> = {
+  letter: { label: 'US Letter', width: 612, height: 792 },
+  a4: { label: 'A4', width: 595.28, height: 841.89 },
+};
+
+export type MinutesFont = 'helvetica' | 'times' | 'courier';
+
+export const MINUTES_FONTS: Record<MinutesFont, string> = {
+  helvetica: 'Helvetica',
+  times: 'Times',
+  courier: 'Courier',
+};
+
+/** Hex colours (#rrggbb).  Intermediate shades are mixed from these. */
+export interface MinutesPalette {
+  /** Accents: top bar, section dots, agenda code badges. */
+  primary: string;
+  /** Meeting title and category headings. */
+  dark: string;
+  /** Session pill and category header fills. */
+  light: string;
+}
+
+export interface MinutesTemplate {
+  /** null for the built-in default. */
+  id: string | null;
+  name: string;
+  /** Included sections, in render order. */
+  sections: MinutesSection[];
+  logoUrl: string | null;
+  palette: MinutesPalette;
+  pageSize: MinutesPageSize;
+  font: MinutesFont;
+}
+
+/** A `minutes_templates` row. */
+export interface MinutesTemplateRow {
+  id: string;
+  name: string;
+  sections: unknown;
+  logo_url: string | null;
+  palette: unknown;
+  page_size: string | null;
+  font: string | null;
+  is_default: boolean;
+}
+
+export const DEFAULT_MINUTES_TEMPLATE: MinutesTemplate = {
+  id: null,
+  name: 'Standard',
+  sections: ['attendance', 'milestones', 'tasks', 'agenda', 'agenda_history', 'ongoing_notes'],
+  logoUrl: null,
+  palette: { primary: '#22c55e', dark: '#166534', light: '#f0fdf4' },
+  pageSize: 'letter',
+  font: 'helvetica',
+};
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Validation
+// ──────────────────────────────────────────────────────────────────────────────
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export function isHexColor(value: unknown): value is string {
+  return typeof value === 'string' && HEX_COLOR.test(value.trim());
+}
+
+/** Known sections in the given order, without duplicates; the default order when none are valid. */
+export function normalizeSections(value: unknown): MinutesSection[] {
+  const known = new Set<string>(MINUTES_SECTIONS);
+  const out: MinutesSection[] = [];
+  for (const s of Array.isArray(value) ? value : []) {
+    const key = String(s);
+    if (known.has(key) && !out.includes(key as MinutesSection)) out.push(key as MinutesSection);
+  }
+  return Array.isArray(value) ? out : [...DEFAULT_MINUTES_TEMPLATE.sections];
+}
+
+export function normalizePalette(value: unknown): MinutesPalette {
+  const p = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const pick = (key: keyof MinutesPalette) =>
+    isHexColor(p[key]) ? String(p[key]).trim().toLowerCase() : DEFAULT_MINUTES_TEMPLATE.palette[key];
+  return { primary: pick('primary'), dark: pick('dark'), light: pick('light') };
+}
+
+/** Template from a DB row or an unsaved editor state; invalid fields fall back to the defaults. */
+export function normalizeMinutesTemplate(row: Partial<MinutesTemplateRow> | null | undefined): MinutesTemplate {
+  if (!row) return DEFAULT_MINUTES_TEMPLATE;
+  const pageSize = String(row.page_size ?? '') as MinutesPageSize;
+  const font = String(row.font ?? '') as MinutesFont;
+  const logoUrl = String(row.logo_url ?? '').trim();
+  return {
+    id: row.id ?? null,
+    name: String(row.name ?? '').trim() || DEFAULT_MINUTES_TEMPLATE.name,
+    sections: row.sections === undefined ? [...DEFAULT_MINUTES_TEMPLATE.sections] : normalizeSections(row.sections),
+    logoUrl: /^https?:\/\//i.test(logoUrl) ? logoUrl : null,
+    palette: normalizePalette(row.palette),
+    pageSize: pageSize in MINUTES_PAGE_SIZES ? pageSize : DEFAULT_MINUTES_TEMPLATE.pageSize,
+    font: font in MINUTES_FONTS ? font : DEFAULT_MINUTES_TEMPLATE.font,
+  };
+}
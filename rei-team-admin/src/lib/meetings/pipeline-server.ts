@@ -0,0 +1,179 @@
+/**
+ * pipeline-server.ts
+ * Next.js ports for the meeting AI pipeline (pipeline.ts): Supabase via the
+ * service role, and AI calls through the shared client so each one is priced
+ * and logged to `ai_generation_history`.
+ *
+ * Server-only.
+ */
+
+import { supabaseAdmin } from '@/src/lib/supabase/admin';
+import { generateText, logGeneration, transcribeAudio } from '@/src/lib/ai/client';
+import type { MeetingPipelinePorts, PipelineAgendaItem } from '@/src/lib/meetings/pipeline';
+
+// Must be a catalog model (src/lib/ai/models.ts) so its cost can be logged.
+export const SUMMARY_MODEL = process.env.OPENAI_SUMMARY_MODEL || 'gpt-4o-mini';
+export const SUMMARY_MAX_TOKENS = 8192;
+
+/**
+ * Retry a function with exponential backoff on rate limits, 5xx and
+ * connection resets; other errors are rethrown immediately.
+ */
+export async function retryWithBackoff<T>(fn: () => Promise<T>, maxRetries = 3, initialDelay = 2000): Promise<T> {
+  let lastError: unknown;
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    try {
+      return await fn();
+    } catch (error: unknown) {
+      lastError = error;
+      const err = error as { status?: number; code?: string; message?: string };
+      const isRetryable =
+        err?.status === 429 ||
+        err?.status === 503 ||
+        err?.status === 500 ||
+        err?.code === 'ECONNRESET' ||
+        err?.code === 'ETIMEDOUT';
+      if (!isRetryable || attempt === maxRetries) throw error;
+
+      const delay = initialDelay * Math.pow(2, attempt);
+      console.log(`Retry attempt ${attempt + 1}/${maxRetries} after ${delay}ms for error:`, err?.message);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+  throw lastError;
+}
+
+/** Chunking for long transcripts; same env overrides as the edge function. */
+export function chunkOptionsFromEnv() {
+  return {
+    chunkChars: Math.max(2000, Number(process.env.TRANSCRIPT_CHUNK_CHARS || '12000')),
+    maxChunks: Math.max(1, Number(process.env.TRANSCRIPT_MAX_CHUNKS || '10')),
+  };
+}
+
+export function meetingPipelinePorts(
+  admin: ReturnType<typeof supabaseAdmin>,
+  opts: {
+    meetingId: string;
+    sessionId: string;
+    recordingsBucket: string;
+    /** Team member the AI calls are logged against; null for background runs. */
+    requestedBy: string | null;
+  }
+): MeetingPipelinePorts {
+  return {
+    async loadAgenda() {
+      const { data, error } = await admin
+        .from('meeting_agenda_items')
+        .select('id,code,title,description,position')
+        .eq('meeting_id', opts.meetingId)
+        .order('position', { ascending: true });
+      if (error) throw error;
+      return (data ?? []).map(
+        (a: { id: string; code: string | null; title: string | null; description: string | null }) =>
+          ({
+            id: String(a.id),
+            code: a.code ? String(a.code) : null,
+            title: String(a.title ?? ''),
+            description: a.description ? String(a.description) : null,
+          }) satisfies PipelineAgendaItem
+      );
+    },
+
+    async loadContext() {
+      const [meetingRes, attendeesRes] = await Promise.all([
+        admin.from('meetings').select('title,start_at').eq('id', opts.meetingId).single(),
+        admin.from('meeting_attendees').select('email,full_name').eq('meeting_id', opts.meetingId),
+      ]);
+      return {
+        title: meetingRes.data?.title ?? 'Meeting',
+        date: meetingRes.data?.start_at
+          ? new Date(meetingRes.data.start_at).toLocaleDateString('en-US', {
+              weekday: 'long',
+              year: 'numeric',
+              month: 'long',
+              day: 'numeric',
+            })
+          : 'Unknown date',
+        attendeeNames: (attendeesRes.data ?? [])
+          .map((a: { full_name?: string; email?: string }) => a.full_name?.trim() || a.email?.trim() || '')
+          .filter(Boolean),
+      };
+    },
+
+    async listRecordings() {
+      const { data, error } = await admin
+        .from('meeting_recordings')
+        .select('storage_path,duration_seconds,created_at')
+        .eq('session_id', opts.sessionId)
+        .order('created_at', { ascending: true })
+        .limit(200);
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    async downloadRecording(path) {
+      const { data, error } = await admin.storage.from(opts.recordingsBucket).download(path);
+      if (error) throw error;
+      return data.arrayBuffer();
+    },
+
+    async transcribe(file) {
+      const transcription = await retryWithBackoff(() => transcribeAudio({ file }));
+      await logGeneration(transcription, {
+        prompt: file.name,
+        response: transcription.text,
+        contentType: 'meeting_transcription',
+        generatedBy: opts.requestedBy,
+      });
+      return { text: transcription.text, segments: transcription.segments };
+    },
+
+    async completeJson({ system, prompt, schema }) {
+      const completion = await retryWithBackoff(() =>
+        generateText({
+          model: SUMMARY_MODEL,
+          temperature: 0.2,
+          maxTokens: SUMMARY_MAX_TOKENS,
+          json: schema,
+          system,
+          prompt,
+        })
+      );
+      await logGeneration(completion, {
+        prompt,
+        response: completion.text,
+        contentType: 'meeting_minutes',
+        generatedBy: opts.requestedBy,
+      });
+      return completion.text || '{}';
+    },
+
+    async saveNotes(rows) {
+      const { error } = await admin
+        .from('meeting_agenda_notes')
+        .upsert(rows, { onConflict: 'session_id,agenda_item_id' });
+      if (error) throw error;
+    },
+
+    async saveTranscript(transcript, segments) {
+      const { error } = await admin
+        .from('meeting_minutes_sessions')
+        .update({ transcript })
+        .eq('id', opts.sessionId);
+      if (error) throw error;
+
+      const { error: deleteError } = await admin
+        .from('meeting_transcript_segments')
+        .delete()
+        .eq('session_id', opts.sessionId);
+      if (deleteError) throw deleteError;
+      for (let i = 0; i < segments.length; i += 500) {
+        const { error: insertError } = await admin
+          .from('meeting_transcript_segments')
+          .insert(segments.slice(i, i + 500));
+        if (insertError) throw insertError;
+      }
+    },
+  };
+}
@@ -0,0 +1,540 @@
+/**
+ * pipeline.ts
+ * The meeting AI pipeline: transcribe every recording segment of a minutes
+ * session in order, stitch the segment transcripts onto one meeting
+ * timeline, and summarize the transcript into per-agenda-item notes chunk by
+ * chunk, recording which transcript lines each agenda item's notes came from.
+ *
+ * Shared by POST /api/meetings/ai (Next.js) and the `meeting-ai-processor`
+ * Supabase edge function (Deno), so this file has no imports: each runtime
+ * passes `MeetingPipelinePorts` for its database, storage and AI calls, and
+ * the pipeline owns everything else (segment order, timestamps, chunking,
+ * merging, the prompt and the rows written).
+ */
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Types
+// ──────────────────────────────────────────────────────────────────────────────
+
+export interface PipelineAgendaItem {
+  id: string;
+  code: string | null;
+  title: string;
+  description: string | null;
+}
+
+export interface PipelineRecording {
+  storage_path: string;
+  duration_seconds: number | null;
+  created_at: string;
+}
+
+export interface PipelineMeetingContext {
+  title: string;
+  /** Human-readable meeting date, e.g. "Monday, March 3, 2025". */
+  date: string;
+  attendeeNames: string[];
+}
+
+/** A transcription of one recording; `segments` are timed relative to that recording. */
+export interface SegmentTranscription {
+  text: string;
+  segments?: Array<{ start: number; end: number; text: string; speaker?: string | null }>;
+}
+
+/** One timed line of the stitched transcript. */
+export interface TranscriptLine {
+  /** Seconds from the start of the first recording. */
+  start: number;
+  end: number | null;
+  text: string;
+  speaker: string | null;
+  /** The recording the line came from, and where in it the line starts. */
+  recordingPath: string;
+  recordingOffset: number;
+}
+
+export interface JsonCompletionRequest {
+  system: string;
+  prompt: string;
+  schema: { name: string; schema: Record<string, unknown> };
+}
+
+export interface AgendaNoteRow {
+  session_id: string;
+  agenda_item_id: string;
+  notes: string;
+  updated_at: string;
+}
+
+/** A `meeting_transcript_segments` row (028, 030). */
+export interface TranscriptSegmentRow {
+  session_id: string;
+  position: number;
+  start_seconds: number;
+  end_seconds: number | null;
+  speaker: string | null;
+  text: string;
+  recording_path: string;
+  recording_offset: number;
+  /** The agenda item whose notes this line contributed to. */
+  agenda_item_id: string | null;
+  agenda_assigned_by: 'ai' | 'reviewer' | null;
+}
+
+/** Transcript line positions (1-based) per agenda item ID. */
+export type AgendaSources = Record<string, number[]>;
+
+export interface MeetingPipelinePorts {
+  loadAgenda(): Promise<PipelineAgendaItem[]>;
+  loadContext(): Promise<PipelineMeetingContext>;
+  /** The session's recording segments, in any order. */
+  listRecordings(): Promise<PipelineRecording[]>;
+  downloadRecording(path: string): Promise<ArrayBuffer>;
+  transcribe(audio: File): Promise<SegmentTranscription>;
+  /** Run a JSON-schema completion and return the raw JSON text. */
+  completeJson(request: JsonCompletionRequest): Promise<string>;
+  saveNotes(rows: AgendaNoteRow[]): Promise<void>;
+  /** Replace the session's transcript: the plain text and its timed rows. */
+  saveTranscript(transcript: string, segments: TranscriptSegmentRow[]): Promise<void>;
+}
+
+export interface ChunkOptions {
+  /** Target size of a summarization chunk, in characters. */
+  chunkChars: number;
+  /** Chunks beyond this are dropped to bound cost and run time. */
+  maxChunks: number;
+}
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = { chunkChars: 12_000, maxChunks: 10 };
+
+export type MeetingPipelineResult =
+  | { skipped: 'no_agenda' | 'no_recordings' | 'empty_transcript'; recordings: number }
+  | {
+      skipped: null;
+      recordings: number;
+      agendaItemsUpdated: number;
+      lines: TranscriptLine[];
+      transcript: string;
+      notes: Record<string, string>;
+      sources: AgendaSources;
+      chunks: number;
+    };
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Transcript stitching
+// ──────────────────────────────────────────────────────────────────────────────
+
+/** Recording segments in recording order (oldest upload first). */
+export function orderRecordings(recordings: PipelineRecording[]): PipelineRecording[] {
+  return recordings
+    .filter((r) => r.storage_path?.trim())
+    .slice()
+    .sort((a, b) => Date.parse(a.created_at) - Date.parse(b.created_at));
+}
+
+/**
+ * Where each recording starts on the meeting timeline, in seconds.  Segments
+ * are back to back, so a segment starts where the previous one ended: its
+ * `duration_seconds` when recorded, else the gap between upload times.
+ */
+export function segmentOffsets(recordings: PipelineRecording[]): number[] {
+  const offsets: number[] = [];
+  let offset = 0;
+  recordings.forEach((rec, i) => {
+    offsets.push(offset);
+    const next = recordings[i + 1];
+    const gap = next ? (Date.parse(next.created_at) - Date.parse(rec.created_at)) / 1000 : 0;
+    offset += rec.duration_seconds && rec.duration_seconds > 0 ? rec.duration_seconds : Math.max(0, gap);
+  });
+  return offsets;
+}
+
+/** Put each recording's transcription on the meeting timeline. */
+export function stitchTranscripts(
+  parts: Array<{ recording: PipelineRecording; offset: number; transcription: SegmentTranscription }>
+): TranscriptLine[] {
+  const lines: TranscriptLine[] = [];
+  parts.forEach(({ recording, offset, transcription }, i) => {
+    const nextOffset = parts[i + 1]?.offset ?? null;
+    const timed = transcription.segments?.filter((s) => s.text.trim()) ?? [];
+
+    if (timed.length) {
+      for (const s of timed) {
+        lines.push({
+          start: offset + s.start,
+          end: offset + s.end,
+          text: s.text.trim(),
+          speaker: s.speaker ?? null,
+          recordingPath: recording.storage_path,
+          recordingOffset: s.start,
+        });
+      }
+    } else if (transcription.text.trim()) {
+      lines.push({
+        start: offset,
+        end: nextOffset,
+        text: transcription.text.trim(),
+        speaker: null,
+        recordingPath: recording.storage_path,
+        recordingOffset: 0,
+      });
+    }
+  });
+  return lines;
+}
+
+/** `h:mm:ss` (or `m:ss` under an hour). */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+/** Plain-text transcript: one `[timestamp] Speaker: text` paragraph per line. */
+export function formatTranscript(lines: TranscriptLine[]): string {
+  return lines
+    .map((l) => `[${formatTimestamp(l.start)}] ${l.speaker ? `${l.speaker}: ` : ''}${l.text}`)
+    .join('\n\n');
+}
+
+/**
+ * The transcript as the summarizer sees it: each paragraph starts with `#n`,
+ * the line's position, so notes can cite the lines they came from.
+ */
+export function numberedTranscript(lines: Array<Pick<TranscriptLine, 'start' | 'speaker' | 'text'> & { position?: number }>): string {
+  return lines
+    .map(
+      (l, i) =>
+        `#${l.position ?? i + 1} [${formatTimestamp(l.start)}] ${l.speaker ? `${l.speaker}: ` : ''}${l.text}`
+    )
+    .join('\n\n');
+}
+
+/**
+ * Assign each transcript line to at most one agenda item.  When several items
+ * cite a line, the first in agenda order keeps it.
+ */
+export function lineAssignments(agenda: PipelineAgendaItem[], sources: AgendaSources): Map<number, string> {
+  const assigned = new Map<number, string>();
+  for (const item of agenda) {
+    for (const position of sources[item.id] ?? []) {
+      if (!assigned.has(position)) assigned.set(position, item.id);
+    }
+  }
+  return assigned;
+}
+
+export function transcriptSegmentRows(
+  sessionId: string,
+  lines: TranscriptLine[],
+  assignments: Map<number, string> = new Map()
+): TranscriptSegmentRow[] {
+  return lines.map((l, i) => ({
+    session_id: sessionId,
+    position: i + 1,
+    start_seconds: Math.round(l.start * 100) / 100,
+    end_seconds: l.end === null ? null : Math.round(l.end * 100) / 100,
+    speaker: l.speaker,
+    text: l.text,
+    recording_path: l.recordingPath,
+    recording_offset: Math.round(l.recordingOffset * 100) / 100,
+    agenda_item_id: assignments.get(i + 1) ?? null,
+    agenda_assigned_by: assignments.has(i + 1) ? 'ai' : null,
+  }));
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Chunked summarization
+// ──────────────────────────────────────────────────────────────────────────────
+
+/** Split a transcript into chunks on paragraph boundaries, hard-splitting oversized paragraphs. */
+export function splitTranscript(text: string, opts: ChunkOptions = DEFAULT_CHUNK_OPTIONS): string[] {
+  const t = (text || '').trim();
+  if (!t) return [];
+
+  const paras = t.replace(/\r\n/g, '\n').split('\n\n');
+  const chunks: string[] = [];
+  let cur = '';
+  const push = (chunk: string) => {
+    for (let i = 0; i < chunk.length; i += opts.chunkChars) chunks.push(chunk.slice(i, i + opts.chunkChars));
+  };
+  for (const p of paras) {
+    const next = cur ? `${cur}\n\n${p}` : p;
+    if (next.length <= opts.chunkChars) {
+      cur = next;
+      continue;
+    }
+    if (cur) push(cur);
+    cur = p;
+    if (chunks.length >= opts.maxChunks) break;
+  }
+  if (cur) push(cur);
+
+  return chunks.slice(0, opts.maxChunks);
+}
+
+/** Combine an agenda item's notes from two chunks, dropping exact repeats. */
+export function mergeNote(a: string, b: string): string {
+  const left = (a || '').trim();
+  const right = (b || '').trim();
+  if (!left) return right;
+  if (!right) return left;
+  if (left.includes(right)) return left;
+  if (right.includes(left)) return right;
+  return `${left}\n${right}`;
+}
+
+const AGENDA_NOTES_SCHEMA: JsonCompletionRequest['schema'] = {
+  name: 'AgendaNotes',
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      agenda: {
+        type: 'array',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            agenda_item_id: { type: 'string' },
+            notes: { type: 'string' },
+            source_lines: { type: 'array', items: { type: 'integer' } },
+          },
+          required: ['agenda_item_id', 'notes', 'source_lines'],
+        },
+      },
+    },
+    required: ['agenda'],
+  },
+};
+
+export function agendaList(agenda: PipelineAgendaItem[]): string {
+  return agenda
+    .map((a) => `${a.id} | ${a.code ? `${a.code} - ` : ''}${a.title}${a.description ? ` — ${a.description}` : ''}`)
+    .join('\n');
+}
+
+function contextLines(context: PipelineMeetingContext): string[] {
+  return [
+    'CONTEXT:',
+    `- Meeting: "${context.title}"`,
+    `- Date: ${context.date}`,
+    `- Attendees: ${context.attendeeNames.join(', ') || 'Not specified'}`,
+  ];
+}
+
+/** What good notes for an agenda item contain; shared by both summary prompts. */
+const NOTE_GUIDELINES = [
+  'Write DETAILED notes including:',
+  '   - Key points discussed (not just a one-sentence summary)',
+  '   - Specific decisions made and the reasoning behind them',
+  '   - Names of people who raised points or were assigned responsibilities',
+  '   - Specific numbers, dates, deadlines, or metrics mentioned',
+  '   - Any disagreements, concerns, or open questions raised',
+  '   - Next steps or follow-ups discussed',
+  'Use bullet points (dashes) within each note for readability.',
+  "Attribute statements to specific people when identifiable from the transcript (e.g., 'Alan suggested...', 'Braden raised a concern about...').",
+  'Do not invent details. Do not include the #line numbers or [timestamps] in the notes.',
+];
+
+function summarySystemPrompt(context: PipelineMeetingContext, chunk: { index: number; count: number }): string {
+  return [
+    'You are a professional meeting secretary creating detailed meeting minutes.',
+    '',
+    ...contextLines(context),
+    ...(chunk.count > 1 ? [`- This is part ${chunk.index + 1} of ${chunk.count} of the transcript.`] : []),
+    '',
+    'INSTRUCTIONS:',
+    '1. Map each section of the transcript to the most relevant agenda item.',
+    `2. For each agenda item: ${NOTE_GUIDELINES[0]}`,
+    ...NOTE_GUIDELINES.slice(1, 7),
+    ...NOTE_GUIDELINES.slice(7).map((line, i) => `${i + 3}. ${line}`),
+    "6. If a topic was discussed that doesn't fit any agenda item, include it under the most related item with a note like '[Off-agenda]'.",
+    '7. If an agenda item was not discussed in this part of the transcript, return an empty string for it.',
+    "8. For 'source_lines', list the #line numbers of the transcript paragraphs each agenda item's notes are based on (an empty array if none).",
+    '',
+    "Return ONLY JSON: an 'agenda' array with one { agenda_item_id, notes, source_lines } object per agenda item.",
+    'Each notes string should be a multi-line string with dashes for bullet points.',
+  ].join('\n');
+}
+
+function agendaItemSystemPrompt(context: PipelineMeetingContext): string {
+  return [
+    'You are a professional meeting secretary rewriting the minutes for one agenda item.',
+    '',
+    ...contextLines(context),
+    '',
+    'INSTRUCTIONS:',
+    '1. The whole transcript excerpt below was discussed under this agenda item.',
+    `2. ${NOTE_GUIDELINES[0]}`,
+    ...NOTE_GUIDELINES.slice(1, 7),
+    ...NOTE_GUIDELINES.slice(7).map((line, i) => `${i + 3}. ${line}`),
+    '',
+    'Return ONLY JSON: { notes } with a multi-line string using dashes for bullet points.',
+  ].join('\n');
+}
+
+function parseAgendaNotes(content: string): { notes: Record<string, string>; sources: AgendaSources } {
+  const notes: Record<string, string> = {};
+  const sources: AgendaSources = {};
+  try {
+    const parsed = JSON.parse(content) as {
+      agenda?: Array<{ agenda_item_id?: unknown; notes?: unknown; source_lines?: unknown }>;
+    };
+    for (const item of parsed.agenda ?? []) {
+      const id = String(item?.agenda_item_id ?? '').trim();
+      if (!id) continue;
+      notes[id] = String(item?.notes ?? '');
+      sources[id] = (Array.isArray(item?.source_lines) ? item.source_lines : [])
+        .map(Number)
+        .filter((n) => Number.isInteger(n) && n > 0);
+    }
+  } catch {
+    // An unparseable chunk contributes no notes.
+  }
+  return { notes, sources };
+}
+
+/**
+ * Summarize a numbered transcript (`numberedTranscript`) into notes per
+ * agenda item ID, one completion per chunk, with the lines each item's notes
+ * cite.
+ */
+export async function summarizeTranscript(
+  ports: Pick<MeetingPipelinePorts, 'completeJson'>,
+  input: {
+    agenda: PipelineAgendaItem[];
+    context: PipelineMeetingContext;
+    transcript: string;
+    chunkOptions?: ChunkOptions;
+  }
+): Promise<{ notes: Record<string, string>; sources: AgendaSources; chunks: number }> {
+  const chunks = splitTranscript(input.transcript, input.chunkOptions);
+  const list = agendaList(input.agenda);
+  const notes: Record<string, string> = {};
+  const sources: AgendaSources = {};
+
+  for (let i = 0; i < chunks.length; i++) {
+    const content = await ports.completeJson({
+      system: summarySystemPrompt(input.context, { index: i, count: chunks.length }),
+      prompt: `Agenda items (id | label):\n${list}\n\nTranscript:\n${chunks[i]}`,
+      schema: AGENDA_NOTES_SCHEMA,
+    });
+    const parsed = parseAgendaNotes(content);
+    for (const [id, note] of Object.entries(parsed.notes)) {
+      const merged = mergeNote(notes[id] ?? '', note);
+      if (merged) notes[id] = merged;
+    }
+    for (const [id, lines] of Object.entries(parsed.sources)) {
+      if (lines.length) sources[id] = [...new Set([...(sources[id] ?? []), ...lines])].sort((a, b) => a - b);
+    }
+  }
+
+  return { notes, sources, chunks: chunks.length };
+}
+
+const AGENDA_ITEM_NOTES_SCHEMA: JsonCompletionRequest['schema'] = {
+  name: 'AgendaItemNotes',
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    properties: { notes: { type: 'string' } },
+    required: ['notes'],
+  },
+};
+
+/**
+ * Rewrite one agenda item's notes from just the transcript lines assigned to
+ * it, e.g. after a reviewer moved lines between agenda items.
+ */
+export async function summarizeAgendaItem(
+  ports: Pick<MeetingPipelinePorts, 'completeJson'>,
+  input: {
+    item: PipelineAgendaItem;
+    context: PipelineMeetingContext;
+    lines: Array<Pick<TranscriptLine, 'start' | 'speaker' | 'text'> & { position: number }>;
+  }
+): Promise<string> {
+  if (!input.lines.length) return '';
+  const content = await ports.completeJson({
+    system: agendaItemSystemPrompt(input.context),
+    prompt: `Agenda item: ${agendaList([input.item])}\n\nTranscript:\n${numberedTranscript(input.lines)}`,
+    schema: AGENDA_ITEM_NOTES_SCHEMA,
+  });
+  try {
+    return String((JSON.parse(content) as { notes?: unknown }).notes ?? '').trim();
+  } catch {
+    return '';
+  }
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Pipeline
+// ──────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Transcribe, stitch and summarize a session, then save the transcript and
+ * one notes row per agenda item.  Session status updates (`ai_status`) stay
+ * with the caller.
+ */
+export async function runMeetingPipeline(
+  ports: MeetingPipelinePorts,
+  input: { sessionId: string; chunkOptions?: ChunkOptions }
+): Promise<MeetingPipelineResult> {
+  const agenda = await ports.loadAgenda();
+  const recordings = orderRecordings(await ports.listRecordings());
+  if (!agenda.length) return { skipped: 'no_agenda', recordings: recordings.length };
+  if (!recordings.length) return { skipped: 'no_recordings', recordings: 0 };
+
+  // Segments are transcribed one at a time to keep memory flat on long meetings.
+  const offsets = segmentOffsets(recordings);
+  const parts: Parameters<typeof stitchTranscripts>[0] = [];
+  for (let i = 0; i < recordings.length; i++) {
+    const audio = await ports.downloadRecording(recordings[i].storage_path);
+    const file = new File([audio], `recording-${i + 1}.webm`, { type: 'audio/webm' });
+    parts.push({ recording: recordings[i], offset: offsets[i], transcription: await ports.transcribe(file) });
+  }
+
+  const lines = stitchTranscripts(parts);
+  const transcript = formatTranscript(lines);
+  if (!transcript) {
+    await ports.saveTranscript('', []);
+    return { skipped: 'empty_transcript', recordings: recordings.length };
+  }
+
+  const context = await ports.loadContext();
+  const { notes, sources, chunks } = await summarizeTranscript(ports, {
+    agenda,
+    context,
+    transcript: numberedTranscript(lines),
+    chunkOptions: input.chunkOptions,
+  });
+
+  const now = new Date().toISOString();
+  await ports.saveNotes(
+    agenda.map((a) => ({
+      session_id: input.sessionId,
+      agenda_item_id: a.id,
+      notes: (notes[a.id] ?? '').trim(),
+      updated_at: now,
+    }))
+  );
+  await ports.saveTranscript(
+    transcript,
+    transcriptSegmentRows(input.sessionId, lines, lineAssignments(agenda, sources))
+  );
+
+  return {
+    skipped: null,
+    recordings: recordings.length,
+    agendaItemsUpdated: agenda.length,
+    lines,
+    transcript,
+    notes,
+    sources,
+    chunks,
+  };
+}
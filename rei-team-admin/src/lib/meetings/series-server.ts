@@ -0,0 +1,135 @@
+/**
+ * series-server.ts
+ * Loads meeting series and their exceptions, and creates the minutes session
+ * for occurrences as they start (called by the occurrence-sessions cron).
+ * Server-only.
+ */
+
+import { supabaseAdmin } from '@/src/lib/supabase/admin';
+import {
+  currentMeetingOccurrence,
+  type MeetingOccurrence,
+  type MeetingSeries,
+  type OccurrenceException,
+} from '@/src/lib/meetings/series';
+
+type Admin = ReturnType<typeof supabaseAdmin>;
+
+export interface SeriesMeeting extends MeetingSeries {
+  id: string;
+  title: string;
+  timezone: string | null;
+}
+
+/** Non-archived meetings (all of them, or the given ids) with their exceptions. */
+export async function loadMeetingSeries(
+  admin: Admin,
+  meetingIds?: string[]
+): Promise<Array<{ meeting: SeriesMeeting; exceptions: OccurrenceException[] }>> {
+  let q = admin
+    .from('meetings')
+    .select('id,title,start_at,duration_minutes,rrule,timezone')
+    .eq('archived', false);
+  if (meetingIds) q = q.in('id', meetingIds);
+  const meetingsRes = await q;
+  if (meetingsRes.error) throw meetingsRes.error;
+  const meetings = (meetingsRes.data ?? []) as SeriesMeeting[];
+  if (!meetings.length) return [];
+
+  const exRes = await admin
+    .from('meeting_occurrence_exceptions')
+    .select('meeting_id,original_start,action,moved_start_at')
+    .in(
+      'meeting_id',
+      meetings.map((m) => m.id)
+    );
+  if (exRes.error) throw exRes.error;
+
+  const byMeeting = new Map<string, OccurrenceException[]>();
+  for (const row of (exRes.data ?? []) as Array<OccurrenceException & { meeting_id: string }>) {
+    const list = byMeeting.get(row.meeting_id) ?? [];
+    list.push(row);
+    byMeeting.set(row.meeting_id, list);
+  }
+
+  return meetings.map((meeting) => ({ meeting, exceptions: byMeeting.get(meeting.id) ?? [] }));
+}
+
+/**
+ * Creates the minutes session for an occurrence that has started.  Skipped
+ * when the meeting already has an open session, a session was started by hand
+ * during the occurrence (even one already concluded), or the occurrence
+ * already has its session.  Returns the new session id, or
+ * null when nothing was created.
+ */
+export async function ensureOccurrenceSession(
+  admin: Admin,
+  meetingId: string,
+  occurrence: MeetingOccurrence
+): Promise<string | null> {
+  const openRes = await admin
+    .from('meeting_minutes_sessions')
+    .select('id')
+    .eq('meeting_id', meetingId)
+    .is('ended_at', null)
+    .limit(1);
+  if (openRes.error) throw openRes.error;
+  if (openRes.data?.length) return null;
+
+  // Sessions started from the meeting page carry no occurrence_start; one
+  // started inside this occurrence's window already covers it.
+  const manualRes = await admin
+    .from('meeting_minutes_sessions')
+    .select('id')
+    .eq('meeting_id', meetingId)
+    .gte('started_at', occurrence.startAt)
+    .lt('started_at', occurrence.endAt)
+    .limit(1);
+  if (manualRes.error) throw manualRes.error;
+  if (manualRes.data?.length) return null;
+
+  // An existing session for this occurrence wins (ignoreDuplicates on the unique index).
+  // Same numbering as sessions started from the meeting page: finalized sessions + 1.
+  const countRes = await admin
+    .from('meeting_minutes_sessions')
+    .select('id', { count: 'exact', head: true })
+    .eq('meeting_id', meetingId)
+    .not('pdf_path', 'is', null)
+    .not('ended_at', 'is', null);
+  if (countRes.error) throw countRes.error;
+
+  const ins = await admin
+    .from('meeting_minutes_sessions')
+    .upsert(
+      {
+        meeting_id: meetingId,
+        started_at: occurrence.startAt,
+        occurrence_start: occurrence.originalStart,
+        session_number: (countRes.count ?? 0) + 1,
+      },
+      { onConflict: 'meeting_id,occurrence_start', ignoreDuplicates: true }
+    )
+    .select('id');
+  if (ins.error) throw ins.error;
+  return (ins.data?.[0]?.id as string | undefined) ?? null;
+}
+
+/** Creates sessions for every occurrence in progress at `now`. */
+export async function startDueOccurrenceSessions(
+  admin: Admin,
+  now: Date = new Date()
+): Promise<{ created: number; errors: string[] }> {
+  const result = { created: 0, errors: [] as string[] };
+
+  for (const { meeting, exceptions } of await loadMeetingSeries(admin)) {
+    const occurrence = currentMeetingOccurrence(meeting, exceptions, now);
+    if (!occurrence) continue;
+    try {
+      if (await ensureOccurrenceSession(admin, meeting.id, occurrence)) result.created++;
+    } catch (e: unknown) {
+      result.errors.push(`${meeting.title}: ${(e as Error)?.message ?? 'failed'}`);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,217 @@
+/**
+ * series.ts
+ * Meeting series: a meeting's `rrule` (built by the meetings page presets or
+ * written by hand) expanded from `start_at` in the meeting's timezone into
+ * concrete occurrences, with per-occurrence exceptions
+ * (`meeting_occurrence_exceptions`, migration 033) that skip an occurrence or
+ * move it to another time.  A meeting without an rrule has one occurrence,
+ * at `start_at`.
+ *
+ * Occurrences are identified by their original start (`originalStart`), which
+ * is what exceptions and auto-created sessions (`occurrence_start`) key on,
+ * so moving an occurrence never changes its identity.
+ *
+ * Safe to import from both client and server code; loading and the cron work
+ * live in series-server.ts.
+ */
+
+import { expandRRule, RRuleError } from '@/src/lib/rrule';
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Types
+// ──────────────────────────────────────────────────────────────────────────────
+
+/** Timezone for meetings created before `meetings.timezone` existed. */
+export const DEFAULT_MEETING_TIMEZONE = 'America/Los_Angeles';
+
+export interface MeetingSeries {
+  start_at: string;
+  duration_minutes: number;
+  rrule: string | null;
+  timezone?: string | null;
+}
+
+export type OccurrenceExceptionAction = 'skip' | 'move';
+
+/** A `meeting_occurrence_exceptions` row. */
+export interface OccurrenceException {
+  original_start: string;
+  action: OccurrenceExceptionAction;
+  moved_start_at: string | null;
+}
+
+export interface MeetingOccurrence {
+  /** ISO start the rule produced; the occurrence's identity. */
+  originalStart: string;
+  /** ISO start after any move. */
+  startAt: string;
+  endAt: string;
+  moved: boolean;
+  skipped: boolean;
+}
+
+export interface ExpandOccurrencesOptions {
+  /** Occurrences starting at or after this instant (after moves). */
+  from?: Date;
+  /** Occurrences starting at or before this instant (after moves). */
+  to?: Date;
+  /** At most this many occurrences. */
+  limit?: number;
+  /** Include skipped occurrences (at their original time) for editing UIs. */
+  includeSkipped?: boolean;
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Expansion
+// ──────────────────────────────────────────────────────────────────────────────
+
+function seriesTimezone(series: MeetingSeries): string {
+  return series.timezone?.trim() || DEFAULT_MEETING_TIMEZONE;
+}
+
+/** Original occurrence starts of the rule (ignoring exceptions), in ms. */
+function ruleStarts(series: MeetingSeries, opts: { from?: Date; to?: Date; limit?: number }): number[] {
+  const dtstart = new Date(series.start_at);
+  if (!series.rrule?.trim()) {
+    const t = dtstart.getTime();
+    if (opts.from && t < opts.from.getTime()) return [];
+    if (opts.to && t > opts.to.getTime()) return [];
+    return [t];
+  }
+  return expandRRule(series.rrule, {
+    dtstart,
+    timezone: seriesTimezone(series),
+    from: opts.from,
+    to: opts.to,
+    limit: opts.limit,
+  }).map((d) => d.getTime());
+}
+
+/** True when `at` is an occurrence the rule itself produces. */
+export function isRuleOccurrence(series: MeetingSeries, at: Date): boolean {
+  try {
+    return ruleStarts(series, { from: at, to: at }).includes(at.getTime());
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Occurrences of a meeting with exceptions applied, ordered by (moved) start.
+ * Requires `to` or `limit` for recurring meetings.  An invalid rrule yields
+ * only the first occurrence, so a bad rule never hides the meeting.
+ */
+export function expandMeetingOccurrences(
+  series: MeetingSeries,
+  exceptions: OccurrenceException[],
+  opts: ExpandOccurrencesOptions = {}
+): MeetingOccurrence[] {
+  const durationMs = Math.max(0, series.duration_minutes || 0) * 60_000;
+  const fromMs = opts.from?.getTime() ?? -Infinity;
+  const toMs = opts.to?.getTime() ?? Infinity;
+  const inWindow = (t: number) => t >= fromMs && t <= toMs;
+
+  const byOriginal = new Map<number, OccurrenceException>();
+  for (const ex of exceptions) byOriginal.set(new Date(ex.original_start).getTime(), ex);
+
+  // Skipped or moved-away occurrences free up room under `limit`.
+  let starts: number[];
+  try {
+    starts = ruleStarts(series, {
+      from: opts.from,
+      to: opts.to,
+      limit: opts.limit !== undefined ? opts.limit + exceptions.length : undefined,
+    });
+  } catch (e) {
+    if (!(e instanceof RRuleError)) throw e;
+    starts = ruleStarts({ ...series, rrule: null }, opts);
+  }
+
+  const out: MeetingOccurrence[] = [];
+  const push = (original: number, start: number, moved: boolean, skipped: boolean) =>
+    out.push({
+      originalStart: new Date(original).toISOString(),
+      startAt: new Date(start).toISOString(),
+      endAt: new Date(start + durationMs).toISOString(),
+      moved,
+      skipped,
+    });
+
+  const seen = new Set(starts);
+  for (const t of starts) {
+    const ex = byOriginal.get(t);
+    if (ex?.action === 'skip') {
+      if (opts.includeSkipped) push(t, t, false, true);
+    } else if (ex?.action === 'move' && ex.moved_start_at) {
+      const moved = new Date(ex.moved_start_at).getTime();
+      if (inWindow(moved)) push(t, moved, true, false);
+    } else {
+      push(t, t, false, false);
+    }
+  }
+
+  // Occurrences whose original start is outside the window but were moved into it.
+  for (const [original, ex] of byOriginal) {
+    if (seen.has(original) || ex.action !== 'move' || !ex.moved_start_at) continue;
+    const moved = new Date(ex.moved_start_at).getTime();
+    if (inWindow(moved) && isRuleOccurrence(series, new Date(original))) push(original, moved, true, false);
+  }
+
+  out.sort((a, b) => a.startAt.localeCompare(b.startAt));
+  return opts.limit !== undefined ? out.slice(0, opts.limit) : out;
+}
+
+/** The next occurrence starting strictly after `after`, or null when the series has ended. */
+export function nextMeetingOccurrence(
+  series: MeetingSeries,
+  exceptions: OccurrenceException[],
+  after: Date = new Date()
+): MeetingOccurrence | null {
+  const [next] = expandMeetingOccurrences(series, exceptions, { from: new Date(after.getTime() + 1), limit: 1 });
+  return next ?? null;
+}
+
+/** The occurrence in progress at `at` (started, not yet ended), if any. */
+export function currentMeetingOccurrence(
+  series: MeetingSeries,
+  exceptions: OccurrenceException[],
+  at: Date = new Date()
+): MeetingOccurrence | null {
+  const durationMs = Math.max(0, series.duration_minutes || 0) * 60_000;
+  const occurrences = expandMeetingOccurrences(series, exceptions, {
+    from: new Date(at.getTime() - durationMs),
+    to: at,
+  });
+  return occurrences.reverse().find((o) => new Date(o.endAt).getTime() > at.getTime()) ?? null;
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Display
+// ──────────────────────────────────────────────────────────────────────────────
+
+/** e.g. "Mon, Oct 19, 9:00 AM" in the meeting's timezone. */
+export function formatOccurrence(iso: string, timezone?: string | null): string {
+  const opts: Intl.DateTimeFormatOptions = {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  };
+  try {
+    return new Date(iso).toLocaleString('en-US', { ...opts, timeZone: timezone?.trim() || DEFAULT_MEETING_TIMEZONE });
+  } catch {
+    // Unknown timezone: fall back to the viewer's.
+    return new Date(iso).toLocaleString('en-US', opts);
+  }
+}
+
+/** True when `timezone` is an IANA zone this runtime knows. */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * upload-queue.ts
+ * Browser-side queue for meeting recording segments.  Each segment is saved
+ * to IndexedDB before it is uploaded, so audio survives failed requests, lost
+ * connectivity and tab reloads; uploads are chunked and resumable against
+ * /api/meetings/ai/upload-recording (a retry only sends the chunks the server
+ * doesn't have yet).
+ *
+ * Client-only.
+ */
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Types
+// ──────────────────────────────────────────────────────────────────────────────
+
+export type SegmentUploadStatus = 'pending' | 'uploading' | 'stored' | 'failed';
+
+export interface QueuedSegment {
+  /** Upload ID, also the key of the stored recording. */
+  id: string;
+  meetingId: string;
+  sessionId: string;
+  /** 1-based position of the segment within its session. */
+  segmentIndex: number;
+  recordedAt: string;
+  durationSeconds: number;
+  size: number;
+  chunkSize: number;
+  /** Audio, dropped once the segment is stored. */
+  blob: Blob | null;
+  status: SegmentUploadStatus;
+  uploadedChunks: number;
+  recordingPath: string | null;
+  error: string | null;
+  attempts: number;
+  updatedAt: string;
+}
+
+/** A queued segment without its audio, for UI state. */
+export type SegmentUpload = Omit<QueuedSegment, 'blob'>;
+
+const UPLOAD_URL = '/api/meetings/ai/upload-recording';
+const DB_NAME = 'rei-recording-uploads';
+const STORE = 'segments';
+
+/** Kept below the upload route's MAX_RECORDING_UPLOAD_BYTES. */
+export const CHUNK_BYTES = Math.max(
+  256_000,
+  Number(process.env.NEXT_PUBLIC_RECORDING_CHUNK_BYTES || '1000000')
+);
+
+// ──────────────────────────────────────────────────────────────────────────────
+// IndexedDB
+// ──────────────────────────────────────────────────────────────────────────────
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, 1);
+      req.onupgradeneeded = () => {
+        const store = req.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('sessionId', 'sessionId', { unique: false });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return promisify(fn(db.transaction(STORE, mode).objectStore(STORE)));
+}
+
+export function toSegmentUpload(segment: QueuedSegment): SegmentUpload {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { blob, ...rest } = segment;
+  return rest;
+}
+
+export async function saveSegment(segment: QueuedSegment): Promise<void> {
+  await withStore('readwrite', (store) => store.put(segment));
+}
+
+export async function getSegment(id: string): Promise<QueuedSegment | null> {
+  return ((await withStore('readonly', (store) => store.get(id))) as QueuedSegment | undefined) ?? null;
+}
+
+export async function updateSegment(id: string, patch: Partial<QueuedSegment>): Promise<QueuedSegment | null> {
+  const current = await getSegment(id);
+  if (!current) return null;
+  const next = { ...current, ...patch, updatedAt: new Date().toISOString() };
+  await saveSegment(next);
+  return next;
+}
+
+/** All queued segments (optionally for one session), oldest recording first. */
+export async function listSegments(sessionId?: string): Promise<QueuedSegment[]> {
+  const rows = (await withStore('readonly', (store) =>
+    sessionId ? store.index('sessionId').getAll(sessionId) : store.getAll()
+  )) as QueuedSegment[];
+  return rows.sort((a, b) => Date.parse(a.recordedAt) - Date.parse(b.recordedAt));
+}
+
+/** Forget a session's segments once the meeting is concluded. */
+export async function deleteSessionSegments(sessionId: string): Promise<void> {
+  const rows = await listSegments(sessionId);
+  for (const row of rows) await withStore('readwrite', (store) => store.delete(row.id));
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Resumable upload
+// ──────────────────────────────────────────────────────────────────────────────
+
+async function readError(res: Response, fallback: string): Promise<string> {
+  const j = (await res.json().catch(() => ({}))) as { error?: string };
+  return j?.error || `${fallback} (${res.status})`;
+}
+
+/**
+ * Upload one queued segment, skipping chunks the server already has.
+ * Returns the stored recording path; throws when any request fails.
+ */
+export async function uploadQueuedSegment(
+  segment: QueuedSegment,
+  onProgress: (uploadedChunks: number) => void
+): Promise<string> {
+  const ref = { meetingId: segment.meetingId, sessionId: segment.sessionId, uploadId: segment.id };
+
+  const statusRes = await fetch(`${UPLOAD_URL}?${new URLSearchParams(ref)}`);
+  if (!statusRes.ok) throw new Error(await readError(statusRes, 'Upload status failed'));
+  const status = (await statusRes.json()) as { completed?: boolean; recordingPath?: string; chunks?: number[] };
+  if (status.completed && status.recordingPath) return status.recordingPath;
+
+  if (!segment.blob) throw new Error('Recording audio is no longer available');
+  const chunkCount = Math.max(1, Math.ceil(segment.blob.size / segment.chunkSize));
+  const stored = new Set(status.chunks ?? []);
+  onProgress(stored.size);
+
+  for (let index = 0; index < chunkCount; index++) {
+    if (stored.has(index)) continue;
+    const form = new FormData();
+    form.append('meetingId', ref.meetingId);
+    form.append('sessionId', ref.sessionId);
+    form.append('uploadId', ref.uploadId);
+    form.append('index', String(index));
+    form.append(
+      'file',
+      segment.blob.slice(index * segment.chunkSize, (index + 1) * segment.chunkSize),
+      `${segment.id}_${index}.part`
+    );
+    const res = await fetch(UPLOAD_URL, { method: 'PUT', body: form });
+    if (!res.ok) throw new Error(await readError(res, 'Chunk upload failed'));
+    stored.add(index);
+    onProgress(stored.size);
+  }
+
+  const res = await fetch(UPLOAD_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      ...ref,
+      chunkCount,
+      durationSeconds: segment.durationSeconds,
+      recordedAt: segment.recordedAt,
+    }),
+  });
+  if (!res.ok) throw new Error(await readError(res, 'Completing upload failed'));
+  const j = (await res.json()) as { recordingPath?: string };
+  if (!j.recordingPath) throw new Error('Upload completed without a recording path');
+  return j.recordingPath;
+}
+
+/** Delay before the next automatic retry: 5s doubling to 2 minutes. */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(120_000, 5_000 * Math.pow(2, Math.max(0, attempts - 1)));
+}
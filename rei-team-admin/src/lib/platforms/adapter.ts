@@ -0,0 +1,272 @@
+/**
+ * adapter.ts
+ * The contract every social network integration implements.
+ *
+ * A `PlatformAdapter` bundles everything the app needs to know about one
+ * network: how it is displayed (settings cards, quick links, previews), what
+ * content it accepts (capabilities), how an admin connects an account
+ * (OAuth), how to publish, delete and read metrics for a post, and how to
+ * read and answer the comments, messages and reviews it receives.  Adapters
+ * are registered in `registry.ts`; the cron engine, the Content Studio
+ * previews and the platform settings UI all read from there, so adding a
+ * network means writing one module under `adapters/` and listing it in the
+ * registry.
+ *
+ * Adapters are imported by client components for their display config and
+ * capabilities, so they must not import server-only modules.
+ */
+
+import type { EngagementType, MediaType, SocialPlatform } from '@/src/lib/types/social-media';
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Display + capabilities
+// ──────────────────────────────────────────────────────────────────────────────
+
+export interface PlatformConfig {
+  name: string;
+  icon: string;
+  /** Tailwind gradient classes for card accent bar */
+  gradient: string;
+  /** Tailwind text color for the platform name */
+  textColor: string;
+  /** Tailwind border color class */
+  borderColor: string;
+  /** Tailwind bg color for the icon badge */
+  iconBg: string;
+  /** Default platform home URL (fallback for quick-launch) */
+  defaultUrl: string;
+  permissions: string[];
+  enables: string[];
+}
+
+export interface PlatformCapabilities {
+  /** Maximum caption / body length accepted by the platform. */
+  maxCharacters: number;
+  /** Media shapes the platform can publish; 'none' means text-only posts are allowed. */
+  mediaTypes: MediaType[];
+  /** Whether URLs in the body render as clickable links. */
+  allowsLinks: boolean;
+  /** Engagement kinds synced into the inbox; empty when the inbox is not supported. */
+  inbox: EngagementType[];
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// OAuth
+// ──────────────────────────────────────────────────────────────────────────────
+
+/**
+ * OAuth 2.0 authorization-code settings.  Client credentials are named by env
+ * var rather than embedded so adapters stay safe to import in the browser; the
+ * server-side flow in `oauth.ts` resolves them.
+ */
+export interface PlatformOAuthConfig {
+  authorizeUrl: string;
+  tokenUrl: string;
+  scopes: string[];
+  /** Separator used to join `scopes` (most providers use a space). */
+  scopeSeparator?: string;
+  clientIdEnv: string;
+  clientSecretEnv: string;
+  /** Name of the client ID parameter (TikTok uses `client_key`). */
+  clientIdParam?: string;
+  /** Send an S256 PKCE challenge with the authorization request. */
+  pkce: boolean;
+  extraAuthorizeParams?: Record<string, string>;
+}
+
+/** Tokens returned by the provider's token endpoint. */
+export interface OAuthTokenSet {
+  accessToken: string;
+  refreshToken: string | null;
+  /** ISO timestamp, or null when the token does not expire. */
+  expiresAt: string | null;
+  scope: string | null;
+}
+
+/** The account a set of tokens grants access to, as stored on `social_platforms`. */
+export interface ConnectedAccount {
+  accountId: string;
+  accountName: string;
+  platformUrl: string;
+  /** Replaces the user token when the platform publishes with a derived token (e.g. a Page token). */
+  accessToken?: string;
+  refreshToken?: string | null;
+  tokenExpiresAt?: string | null;
+  metadata?: Record<string, unknown> | null;
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Publishing
+// ──────────────────────────────────────────────────────────────────────────────
+
+export interface PlatformPostPayload {
+  postId: string;
+  body: string;
+  title: string | null;
+  mediaUrls: string[] | null;
+  mediaType: MediaType | null;
+  platformSpecificContent: Record<string, string> | null;
+  /** `pendingId` of this run's previous attempt, when the platform was still processing it; resume instead of starting over. */
+  pendingId?: string | null;
+}
+
+export interface PlatformPostResult {
+  platform: string;
+  success: boolean;
+  /** Platform-assigned ID for the published post (populated on success). */
+  platformPostId: string | null;
+  /** Human-readable error message (populated on failure). */
+  error: string | null;
+  /**
+   * Set when the platform is still processing the post (e.g. transcoding a
+   * video): neither delivered nor failed.  The cron hands it back as
+   * `payload.pendingId` on its next tick.
+   */
+  pendingId?: string | null;
+}
+
+/** Per-post counters as reported by the platform at fetch time. */
+export interface PlatformPostMetrics {
+  impressions: number;
+  reach: number;
+  likes: number;
+  comments: number;
+  shares: number;
+  saves: number;
+  clicks: number;
+  /** Account follower count at fetch time, when the platform reports it. */
+  followerCount: number | null;
+  raw: Record<string, unknown> | null;
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Engagement inbox
+// ──────────────────────────────────────────────────────────────────────────────
+
+/** A comment, message, mention or review as read from the platform. */
+export interface PlatformEngagement {
+  /** Platform ID of the item itself; dedupe key within one account. */
+  platformItemId: string;
+  type: EngagementType;
+  authorName: string;
+  authorAvatarUrl: string | null;
+  authorPlatformId: string;
+  content: string;
+  /** Platform ID of the post the item was left on, if any. */
+  platformPostId: string | null;
+  /** Conversation the item belongs to (DM threads); null for public items. */
+  threadId: string | null;
+  /** ISO timestamp of when the item was created on the platform. */
+  receivedAt: string;
+}
+
+/** What an adapter needs to answer an inbox item. */
+export type EngagementReplyTarget = Pick<
+  PlatformEngagement,
+  'platformItemId' | 'type' | 'authorPlatformId' | 'platformPostId' | 'threadId'
+>;
+
+export interface PlatformAdapter<N extends string = string> {
+  /** Stored in `social_platforms.platform_name` and `content_posts.target_platforms`. */
+  name: N;
+  config: PlatformConfig;
+  capabilities: PlatformCapabilities;
+  oauth: PlatformOAuthConfig;
+
+  /**
+   * Identify the account behind freshly exchanged tokens.  Runs server-side in
+   * the OAuth callback; may swap in a derived token (e.g. a Page token).
+   */
+  resolveAccount(tokens: OAuthTokenSet): Promise<ConnectedAccount>;
+
+  /**
+   * Publish a post.  `connection` is the platform's `social_platforms` row, or
+   * null when the platform has never been connected.  Should not throw —
+   * failures are reported through `PlatformPostResult.error`.
+   */
+  publish(payload: PlatformPostPayload, connection: SocialPlatform | null): Promise<PlatformPostResult>;
+
+  /** Remove a previously published post.  Throws on failure. */
+  deletePost(platformPostId: string, connection: SocialPlatform | null): Promise<void>;
+
+  /** Read the current counters for a published post.  Throws on failure. */
+  fetchMetrics(platformPostId: string, connection: SocialPlatform | null): Promise<PlatformPostMetrics>;
+
+  /**
+   * Read engagements received since `since` (ISO; null for the platform's
+   * recent history).  Only called when `capabilities.inbox` is non-empty.
+   * Throws on failure.
+   */
+  fetchEngagements(connection: SocialPlatform | null, since: string | null): Promise<PlatformEngagement[]>;
+
+  /** Post a reply to an inbox item and return the platform's ID for it.  Throws on failure. */
+  sendReply(target: EngagementReplyTarget, text: string, connection: SocialPlatform | null): Promise<string>;
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Helpers shared by adapters
+// ──────────────────────────────────────────────────────────────────────────────
+
+export function publishSuccess(platform: string, platformPostId: string): PlatformPostResult {
+  return { platform, success: true, platformPostId, error: null };
+}
+
+export function publishFailure(platform: string, error: string): PlatformPostResult {
+  return { platform, success: false, platformPostId: null, error };
+}
+
+/** The post is still being processed by the platform; `pendingId` lets the next attempt pick it up. */
+export function publishPending(platform: string, pendingId: string, note: string): PlatformPostResult {
+  return { platform, success: false, platformPostId: null, error: note, pendingId };
+}
+
+/** Returns a simulated success result used in development when API keys are absent. */
+export function mockSuccess(platform: string, postId: string): PlatformPostResult {
+  return publishSuccess(platform, `mock_${platform}_${postId}_${Date.now()}`);
+}
+
+export function notConnected(platform: string): PlatformPostResult {
+  return publishFailure(platform, `No connected ${platform} account in social_platforms`);
+}
+
+/** Throw unless `connection` is a connected row with an access token. */
+export function requireConnection(platform: string, connection: SocialPlatform | null): SocialPlatform {
+  if (!connection?.is_connected || !connection.access_token) {
+    throw new Error(`No connected ${platform} account in social_platforms`);
+  }
+  return connection;
+}
+
+/** GET a JSON resource with a bearer token; throws with the response body on non-2xx. */
+export async function fetchJson<T>(url: string, accessToken: string): Promise<T> {
+  const res = await fetch(url, { headers: { Authorization: `Bearer ${accessToken}` } });
+  const text = await res.text();
+  if (!res.ok) throw new Error(`GET ${url} failed: ${res.status} ${text.slice(0, 300)}`);
+  return (text ? JSON.parse(text) : null) as T;
+}
+
+/** Send a JSON body with a bearer token; throws with the response body on non-2xx. */
+export async function sendJson<T>(
+  method: 'POST' | 'PUT',
+  url: string,
+  accessToken: string,
+  body: unknown
+): Promise<T> {
+  const res = await fetch(url, {
+    method,
+    headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const text = await res.text();
+  if (!res.ok) throw new Error(`${method} ${url} failed: ${res.status} ${text.slice(0, 300)}`);
+  return (text ? JSON.parse(text) : null) as T;
+}
+
+/** True when `iso` is missing or strictly after `since` (which may be null). */
+export function isAfter(iso: string | null | undefined, since: string | null): boolean {
+  return !since || !iso || new Date(iso).getTime() > new Date(since).getTime();
+}
+
+export function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
@@ -0,0 +1,310 @@
+/**
+ * Facebook adapter — publishes feed, photo and video posts to a Facebook Page
+ * through the Graph API.
+ *
+ * Credentials come from the connected `social_platforms` row:
+ *   - account_id   → Page ID
+ *   - access_token → Page access token with pages_manage_posts
+ *
+ * Connecting uses the Meta app's OAuth dialog; the callback exchanges the user
+ * token for a long-lived one and stores the (non-expiring) Page token.  Set
+ * FACEBOOK_PAGE_ID to pick a Page when the user manages several.
+ *
+ * The inbox reads comments on recent Page posts, posts the Page is tagged in,
+ * and Messenger conversations.
+ */
+
+import type { SocialPlatform } from '@/src/lib/types/social-media';
+import {
+  errorMessage,
+  isAfter,
+  notConnected,
+  publishFailure,
+  publishSuccess,
+  requireConnection,
+  type ConnectedAccount,
+  type EngagementReplyTarget,
+  type OAuthTokenSet,
+  type PlatformAdapter,
+  type PlatformEngagement,
+  type PlatformPostMetrics,
+  type PlatformPostPayload,
+  type PlatformPostResult,
+} from '@/src/lib/platforms/adapter';
+import {
+  META_OAUTH,
+  exchangeForLongLivedToken,
+  fetchConversationMessages,
+  fetchManagedPages,
+  graphRequest,
+  sendConversationMessage,
+  isVideoUrl,
+} from '@/src/lib/platforms/meta-graph';
+
+interface GraphInsights {
+  data?: Array<{ name: string; values?: Array<{ value: number }> }>;
+}
+
+interface GraphPostCounts {
+  shares?: { count?: number };
+  likes?: { summary?: { total_count?: number } };
+  comments?: { summary?: { total_count?: number } };
+}
+
+interface GraphAuthor {
+  id: string;
+  name?: string;
+}
+
+interface GraphFeedComments {
+  data?: Array<{
+    id: string;
+    comments?: { data?: Array<{ id: string; message?: string; created_time?: string; from?: GraphAuthor }> };
+  }>;
+}
+
+interface GraphTaggedPosts {
+  data?: Array<{ id: string; message?: string; created_time?: string; from?: GraphAuthor }>;
+}
+
+async function resolveAccount(tokens: OAuthTokenSet): Promise<ConnectedAccount> {
+  const longLived = await exchangeForLongLivedToken(tokens.accessToken);
+  const pages = await fetchManagedPages(longLived.accessToken);
+  const preferred = process.env.FACEBOOK_PAGE_ID;
+  const page = pages.find((p) => p.id === preferred) ?? pages[0];
+  if (!page) throw new Error('The Facebook user does not manage any Pages');
+
+  return {
+    accountId: page.id,
+    accountName: page.name,
+    platformUrl: page.link ?? `https://www.facebook.com/${page.id}`,
+    accessToken: page.access_token,
+    refreshToken: null,
+    tokenExpiresAt: null,
+    metadata: { user_token_expires_at: longLived.expiresAt },
+  };
+}
+
+async function publish(
+  payload: PlatformPostPayload,
+  connection: SocialPlatform | null
+): Promise<PlatformPostResult> {
+  if (!connection?.is_connected || !connection.access_token) {
+    return notConnected('facebook');
+  }
+
+  try {
+    const token = connection.access_token;
+    const pageId = connection.account_id;
+    const mediaUrls = payload.mediaUrls ?? [];
+    const message = payload.body;
+
+    // Text-only feed post
+    if (mediaUrls.length === 0 || payload.mediaType === 'none') {
+      const res = await graphRequest<{ id: string }>('POST', `${pageId}/feed`, token, { message });
+      return publishSuccess('facebook', res.id);
+    }
+
+    // Single video
+    if (payload.mediaType === 'video' || (mediaUrls.length === 1 && isVideoUrl(mediaUrls[0]))) {
+      const res = await graphRequest<{ id: string }>('POST', `${pageId}/videos`, token, {
+        file_url: mediaUrls[0],
+        description: message,
+        title: payload.title,
+      });
+      return publishSuccess('facebook', res.id);
+    }
+
+    // Single photo
+    if (mediaUrls.length === 1) {
+      const res = await graphRequest<{ id: string; post_id?: string }>(
+        'POST',
+        `${pageId}/photos`,
+        token,
+        { url: mediaUrls[0], caption: message }
+      );
+      return publishSuccess('facebook', res.post_id ?? res.id);
+    }
+
+    // Multi-photo: upload each photo unpublished, then attach them to one feed post
+    const attached: Record<string, string> = {};
+    const photoUrls = mediaUrls.filter((url) => !isVideoUrl(url));
+    for (const [i, url] of photoUrls.entries()) {
+      const photo = await graphRequest<{ id: string }>('POST', `${pageId}/photos`, token, {
+        url,
+        published: false,
+      });
+      attached[`attached_media[${i}]`] = JSON.stringify({ media_fbid: photo.id });
+    }
+    const res = await graphRequest<{ id: string }>('POST', `${pageId}/feed`, token, {
+      message,
+      ...attached,
+    });
+    return publishSuccess('facebook', res.id);
+  } catch (err) {
+    return publishFailure('facebook', errorMessage(err));
+  }
+}
+
+async function deletePost(platformPostId: string, connection: SocialPlatform | null): Promise<void> {
+  const { access_token: token } = requireConnection('facebook', connection);
+  await graphRequest<{ success: boolean }>('DELETE', platformPostId, token);
+}
+
+async function fetchMetrics(
+  platformPostId: string,
+  connection: SocialPlatform | null
+): Promise<PlatformPostMetrics> {
+  const { access_token: token, account_id: pageId } = requireConnection('facebook', connection);
+
+  const [insights, counts, page] = await Promise.all([
+    graphRequest<GraphInsights>('GET', `${platformPostId}/insights`, token, {
+      metric: 'post_impressions,post_impressions_unique,post_clicks',
+    }),
+    graphRequest<GraphPostCounts>('GET', platformPostId, token, {
+      fields: 'shares,likes.summary(true).limit(0),comments.summary(true).limit(0)',
+    }),
+    graphRequest<{ followers_count?: number }>('GET', pageId, token, {
+      fields: 'followers_count',
+    }),
+  ]);
+
+  const value = (name: string): number =>
+    insights.data?.find((m) => m.name === name)?.values?.[0]?.value ?? 0;
+
+  return {
+    impressions: value('post_impressions'),
+    reach: value('post_impressions_unique'),
+    likes: counts.likes?.summary?.total_count ?? 0,
+    comments: counts.comments?.summary?.total_count ?? 0,
+    shares: counts.shares?.count ?? 0,
+    saves: 0,
+    clicks: value('post_clicks'),
+    followerCount: page.followers_count ?? null,
+    raw: { insights: insights.data ?? [], counts },
+  };
+}
+
+async function fetchEngagements(
+  connection: SocialPlatform | null,
+  since: string | null
+): Promise<PlatformEngagement[]> {
+  const { access_token: token, account_id: pageId } = requireConnection('facebook', connection);
+
+  const [feed, tagged, messages] = await Promise.all([
+    graphRequest<GraphFeedComments>('GET', `${pageId}/feed`, token, {
+      fields: 'id,comments.limit(50){id,message,created_time,from}',
+      limit: 25,
+    }),
+    graphRequest<GraphTaggedPosts>('GET', `${pageId}/tagged`, token, {
+      fields: 'id,message,created_time,from',
+      limit: 25,
+    }),
+    fetchConversationMessages(pageId, pageId, token, 'messenger', since),
+  ]);
+
+  const items: PlatformEngagement[] = [];
+  for (const post of feed.data ?? []) {
+    for (const comment of post.comments?.data ?? []) {
+      // Replies posted as the Page come back as comments too.
+      if (comment.from?.id === pageId || !isAfter(comment.created_time, since)) continue;
+      items.push({
+        platformItemId: comment.id,
+        type: 'comment',
+        authorName: comment.from?.name ?? 'Facebook user',
+        authorAvatarUrl: null,
+        authorPlatformId: comment.from?.id ?? 'unknown',
+        content: comment.message ?? '',
+        platformPostId: post.id,
+        threadId: null,
+        receivedAt: comment.created_time ?? new Date().toISOString(),
+      });
+    }
+  }
+  for (const mention of tagged.data ?? []) {
+    if (!isAfter(mention.created_time, since)) continue;
+    items.push({
+      platformItemId: mention.id,
+      type: 'mention',
+      authorName: mention.from?.name ?? 'Facebook user',
+      authorAvatarUrl: null,
+      authorPlatformId: mention.from?.id ?? 'unknown',
+      content: mention.message ?? '',
+      platformPostId: null,
+      threadId: null,
+      receivedAt: mention.created_time ?? new Date().toISOString(),
+    });
+  }
+  return [...items, ...messages];
+}
+
+async function sendReply(
+  target: EngagementReplyTarget,
+  text: string,
+  connection: SocialPlatform | null
+): Promise<string> {
+  const { access_token: token, account_id: pageId } = requireConnection('facebook', connection);
+
+  switch (target.type) {
+    case 'comment':
+    case 'mention': {
+      // A comment on the comment (threaded reply) or on the tagging post.
+      const res = await graphRequest<{ id: string }>('POST', `${target.platformItemId}/comments`, token, {
+        message: text,
+      });
+      return res.id;
+    }
+    case 'dm':
+      return sendConversationMessage(pageId, token, target.authorPlatformId, text);
+    default:
+      throw new Error(`Facebook cannot reply to a ${target.type}`);
+  }
+}
+
+export const facebookAdapter: PlatformAdapter<'facebook'> = {
+  name: 'facebook',
+  config: {
+    name: 'Facebook',
+    icon: '👤',
+    gradient: 'from-blue-600 to-blue-400',
+    textColor: 'text-blue-400',
+    borderColor: 'border-blue-500/30',
+    iconBg: 'bg-blue-500/10',
+    defaultUrl: 'https://www.facebook.com/',
+    permissions: [
+      'Manage Pages and posts',
+      'Publish content on behalf of Pages',
+      'Read Page insights and analytics',
+      'Manage comments, messages, and reviews',
+    ],
+    enables: [
+      'Automated Facebook Page posting',
+      'Facebook analytics and reach tracking',
+      'Review and comment management',
+    ],
+  },
+  capabilities: {
+    maxCharacters: 63206,
+    mediaTypes: ['none', 'image', 'video', 'carousel'],
+    allowsLinks: true,
+    inbox: ['comment', 'mention', 'dm'],
+  },
+  oauth: {
+    ...META_OAUTH,
+    scopes: [
+      'pages_show_list',
+      'pages_manage_posts',
+      'pages_read_engagement',
+      'pages_read_user_content',
+      'pages_manage_engagement',
+      'pages_messaging',
+      'read_insights',
+    ],
+  },
+  resolveAccount,
+  publish,
+  deletePost,
+  fetchMetrics,
+  fetchEngagements,
+  sendReply,
+};
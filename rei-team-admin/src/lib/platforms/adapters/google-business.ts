@@ -0,0 +1,191 @@
+/**
+ * Google Business Profile adapter.
+ *
+ * Connecting runs the real OAuth flow and stores the account on
+ * `social_platforms` (the first location of the first account).  Publishing is
+ * not yet integrated with the Google My Business API: it reads credentials
+ * from environment variables and returns a mock success until the real API
+ * call is written.  Metrics and deletion are not available yet.
+ *
+ * The inbox reads the location's reviews and posts owner replies to them
+ * through the My Business v4 reviews API.
+ */
+
+import type { SocialPlatform } from '@/src/lib/types/social-media';
+import {
+  errorMessage,
+  fetchJson,
+  isAfter,
+  mockSuccess,
+  publishFailure,
+  requireConnection,
+  sendJson,
+  type ConnectedAccount,
+  type EngagementReplyTarget,
+  type OAuthTokenSet,
+  type PlatformAdapter,
+  type PlatformEngagement,
+  type PlatformPostPayload,
+  type PlatformPostResult,
+} from '@/src/lib/platforms/adapter';
+import { GOOGLE_OAUTH } from '@/src/lib/platforms/google';
+
+interface BusinessAccounts {
+  accounts?: Array<{ name: string; accountName?: string }>;
+}
+
+interface BusinessLocations {
+  locations?: Array<{ name: string; title?: string; metadata?: { mapsUri?: string } }>;
+}
+
+interface BusinessReviews {
+  reviews?: Array<{
+    /** accounts/{account}/locations/{location}/reviews/{review} */
+    name: string;
+    reviewId: string;
+    reviewer?: { displayName?: string; profilePhotoUrl?: string };
+    starRating?: 'ONE' | 'TWO' | 'THREE' | 'FOUR' | 'FIVE';
+    comment?: string;
+    createTime?: string;
+    updateTime?: string;
+  }>;
+}
+
+const REVIEWS_API = 'https://mybusiness.googleapis.com/v4';
+
+const STAR_RATINGS: Record<string, number> = { ONE: 1, TWO: 2, THREE: 3, FOUR: 4, FIVE: 5 };
+
+async function resolveAccount(tokens: OAuthTokenSet): Promise<ConnectedAccount> {
+  const { accounts } = await fetchJson<BusinessAccounts>(
+    'https://mybusinessaccountmanagement.googleapis.com/v1/accounts',
+    tokens.accessToken
+  );
+  const account = accounts?.[0];
+  if (!account) throw new Error('The Google account has no Business Profile accounts');
+
+  const { locations } = await fetchJson<BusinessLocations>(
+    `https://mybusinessbusinessinformation.googleapis.com/v1/${account.name}/locations?readMask=name,title,metadata`,
+    tokens.accessToken
+  );
+  const location = locations?.[0];
+  if (!location) throw new Error(`${account.accountName ?? account.name} has no locations`);
+
+  return {
+    accountId: location.name,
+    accountName: location.title ?? account.accountName ?? location.name,
+    platformUrl: location.metadata?.mapsUri ?? 'https://business.google.com/',
+    metadata: { account: account.name },
+  };
+}
+
+async function publish(payload: PlatformPostPayload): Promise<PlatformPostResult> {
+  // Env: GOOGLE_BUSINESS_ACCESS_TOKEN, GOOGLE_BUSINESS_ACCOUNT_ID, GOOGLE_BUSINESS_LOCATION_ID
+  const token = process.env.GOOGLE_BUSINESS_ACCESS_TOKEN;
+  const accountId = process.env.GOOGLE_BUSINESS_ACCOUNT_ID;
+  const locationId = process.env.GOOGLE_BUSINESS_LOCATION_ID;
+
+  if (!token || !accountId || !locationId) {
+    return mockSuccess('google_business', payload.postId);
+  }
+
+  try {
+    // TODO: real API call using Google My Business API
+    // const res = await fetch(`https://mybusiness.googleapis.com/v4/accounts/${accountId}/locations/${locationId}/localPosts`, { ... });
+    return mockSuccess('google_business', payload.postId);
+  } catch (err) {
+    return publishFailure('google_business', errorMessage(err));
+  }
+}
+
+async function deletePost(): Promise<void> {
+  throw new Error('Google Business Profile post deletion is not implemented yet');
+}
+
+async function fetchMetrics(): Promise<never> {
+  throw new Error('Google Business Profile metrics are not implemented yet');
+}
+
+async function fetchEngagements(
+  connection: SocialPlatform | null,
+  since: string | null
+): Promise<PlatformEngagement[]> {
+  const { access_token: token, account_id: location, metadata } = requireConnection('google_business', connection);
+  const account = typeof metadata?.account === 'string' ? metadata.account : null;
+  if (!account) throw new Error('Google Business Profile connection has no account; reconnect it');
+
+  const { reviews } = await fetchJson<BusinessReviews>(
+    `${REVIEWS_API}/${account}/${location}/reviews?pageSize=50&orderBy=updateTime%20desc`,
+    token
+  );
+
+  return (reviews ?? [])
+    .filter((review) => isAfter(review.updateTime ?? review.createTime, since))
+    .map((review) => {
+      const stars = STAR_RATINGS[review.starRating ?? ''] ?? 0;
+      const rating = stars ? `${'★'.repeat(stars)}${'☆'.repeat(5 - stars)}` : '';
+      return {
+        platformItemId: review.name,
+        type: 'review' as const,
+        authorName: review.reviewer?.displayName ?? 'Google user',
+        authorAvatarUrl: review.reviewer?.profilePhotoUrl ?? null,
+        authorPlatformId: review.reviewId,
+        content: [rating, review.comment].filter(Boolean).join(' '),
+        platformPostId: null,
+        threadId: null,
+        receivedAt: review.createTime ?? new Date().toISOString(),
+      };
+    });
+}
+
+async function sendReply(
+  target: EngagementReplyTarget,
+  text: string,
+  connection: SocialPlatform | null
+): Promise<string> {
+  const { access_token: token } = requireConnection('google_business', connection);
+  if (target.type !== 'review') throw new Error(`Google Business Profile cannot reply to a ${target.type}`);
+
+  // A review has at most one owner reply; PUT creates or replaces it.
+  await sendJson('PUT', `${REVIEWS_API}/${target.platformItemId}/reply`, token, { comment: text });
+  return `${target.platformItemId}/reply`;
+}
+
+export const googleBusinessAdapter: PlatformAdapter<'google_business'> = {
+  name: 'google_business',
+  config: {
+    name: 'Google Business Profile',
+    icon: '🏢',
+    gradient: 'from-blue-500 via-red-500 via-yellow-400 to-green-500',
+    textColor: 'text-green-400',
+    borderColor: 'border-green-500/30',
+    iconBg: 'bg-green-500/10',
+    defaultUrl: 'https://business.google.com/',
+    permissions: [
+      'Manage Business Profile posts and updates',
+      'Read reviews and Q&A',
+      'Respond to reviews on your behalf',
+      'Access local search performance data',
+    ],
+    enables: [
+      'Google Business Profile post scheduling',
+      'Review monitoring and AI-powered responses',
+      'Local SEO performance analytics',
+    ],
+  },
+  capabilities: {
+    maxCharacters: 1500,
+    mediaTypes: ['none', 'image'],
+    allowsLinks: true,
+    inbox: ['review'],
+  },
+  oauth: {
+    ...GOOGLE_OAUTH,
+    scopes: ['https://www.googleapis.com/auth/business.manage'],
+  },
+  resolveAccount,
+  publish,
+  deletePost,
+  fetchMetrics,
+  fetchEngagements,
+  sendReply,
+};
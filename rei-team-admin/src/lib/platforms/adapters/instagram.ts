@@ -0,0 +1,388 @@
+/**
+ * Instagram adapter — publishes through the Instagram Graph API using a
+ * container-create-then-publish flow.
+ *
+ * Credentials come from the connected `social_platforms` row:
+ *   - account_id   → Instagram business account ID
+ *   - access_token → Page access token with instagram_content_publish
+ *
+ * Connecting goes through the Meta app's OAuth dialog; the callback picks the
+ * first Page with a linked Instagram business account (or INSTAGRAM_ACCOUNT_ID
+ * when set) and stores that Page's non-expiring token.
+ *
+ * The inbox reads comments on recent media, media the account is tagged in,
+ * and Instagram Direct messages (through the linked Page, `metadata.page_id`).
+ */
+
+import type { SocialPlatform } from '@/src/lib/types/social-media';
+import {
+  errorMessage,
+  isAfter,
+  notConnected,
+  publishFailure,
+  publishPending,
+  publishSuccess,
+  requireConnection,
+  type ConnectedAccount,
+  type EngagementReplyTarget,
+  type OAuthTokenSet,
+  type PlatformAdapter,
+  type PlatformEngagement,
+  type PlatformPostMetrics,
+  type PlatformPostPayload,
+  type PlatformPostResult,
+} from '@/src/lib/platforms/adapter';
+import {
+  META_OAUTH,
+  exchangeForLongLivedToken,
+  fetchConversationMessages,
+  fetchManagedPages,
+  graphRequest,
+  sendConversationMessage,
+  isVideoUrl,
+  sleep,
+} from '@/src/lib/platforms/meta-graph';
+
+// Video containers are transcoded asynchronously and can only be published
+// once `status_code` is FINISHED.  A publish polls them for at most
+// CONTAINER_WAIT_MS, then hands the container back as pending and the cron
+// finishes it on a later tick.
+const CONTAINER_POLL_MS = Number(process.env.INSTAGRAM_CONTAINER_POLL_MS ?? 3000);
+const CONTAINER_WAIT_MS = 15_000;
+
+// Pending id prefix for carousel items that were still processing; the
+// carousel container itself is created once they are all FINISHED.
+const PENDING_CHILDREN = 'children:';
+
+const CAROUSEL_MAX_ITEMS = 10;
+
+interface GraphInsights {
+  data?: Array<{ name: string; values?: Array<{ value: number }>; total_value?: { value: number } }>;
+}
+
+interface GraphMediaComments {
+  data?: Array<{
+    id: string;
+    comments?: {
+      data?: Array<{ id: string; text?: string; timestamp?: string; username?: string; from?: { id: string; username?: string } }>;
+    };
+  }>;
+}
+
+interface GraphTaggedMedia {
+  data?: Array<{ id: string; caption?: string; timestamp?: string; username?: string }>;
+}
+
+async function resolveAccount(tokens: OAuthTokenSet): Promise<ConnectedAccount> {
+  const longLived = await exchangeForLongLivedToken(tokens.accessToken);
+  const pages = (await fetchManagedPages(longLived.accessToken)).filter(
+    (p) => p.instagram_business_account
+  );
+  const preferred = process.env.INSTAGRAM_ACCOUNT_ID;
+  const page = pages.find((p) => p.instagram_business_account?.id === preferred) ?? pages[0];
+  const ig = page?.instagram_business_account;
+  if (!page || !ig) {
+    throw new Error('No Facebook Page with a linked Instagram business account was found');
+  }
+
+  const username = ig.username ?? ig.id;
+  return {
+    accountId: ig.id,
+    accountName: `@${username}`,
+    platformUrl: `https://www.instagram.com/${username}/`,
+    accessToken: page.access_token,
+    refreshToken: null,
+    tokenExpiresAt: null,
+    metadata: { page_id: page.id, page_name: page.name, user_token_expires_at: longLived.expiresAt },
+  };
+}
+
+async function publish(
+  payload: PlatformPostPayload,
+  connection: SocialPlatform | null
+): Promise<PlatformPostResult> {
+  if (!connection?.is_connected || !connection.access_token) {
+    return notConnected('instagram');
+  }
+  if (!connection.account_id) {
+    return publishFailure('instagram', 'Instagram connection has no account ID; reconnect Instagram');
+  }
+
+  const mediaUrls = payload.mediaUrls ?? [];
+  if (mediaUrls.length === 0) {
+    return publishFailure('instagram', 'Instagram posts require at least one image or video');
+  }
+  if (payload.mediaType === 'carousel' && mediaUrls.length < 2) {
+    return publishFailure('instagram', 'Instagram carousels require at least two images or videos');
+  }
+
+  try {
+    const token = connection.access_token;
+    const igUserId = connection.account_id;
+    const caption = payload.body;
+    const deadline = Date.now() + CONTAINER_WAIT_MS;
+    const pendingId = payload.pendingId ?? null;
+
+    // ── 1. Create the media container (or resume the pending one) ────────
+    let containerId: string;
+    if (pendingId && !pendingId.startsWith(PENDING_CHILDREN)) {
+      containerId = pendingId;
+    } else if (pendingId || payload.mediaType === 'carousel' || mediaUrls.length > 1) {
+      const children = pendingId
+        ? pendingId.slice(PENDING_CHILDREN.length).split(',')
+        : await createCarouselItems(igUserId, mediaUrls, token);
+      if (!(await containersReady(children, token, deadline))) {
+        return publishPending(
+          'instagram',
+          `${PENDING_CHILDREN}${children.join(',')}`,
+          'Instagram is still processing the carousel videos'
+        );
+      }
+      const carousel = await graphRequest<{ id: string }>('POST', `${igUserId}/media`, token, {
+        media_type: 'CAROUSEL',
+        children: children.join(','),
+        caption,
+      });
+      containerId = carousel.id;
+    } else if (payload.mediaType === 'video' || isVideoUrl(mediaUrls[0])) {
+      const video = await graphRequest<{ id: string }>('POST', `${igUserId}/media`, token, {
+        media_type: 'REELS',
+        video_url: mediaUrls[0],
+        caption,
+      });
+      containerId = video.id;
+    } else {
+      const image = await graphRequest<{ id: string }>('POST', `${igUserId}/media`, token, {
+        image_url: mediaUrls[0],
+        caption,
+      });
+      containerId = image.id;
+    }
+
+    // ── 2. Publish once processed ────────────────────────────────────────
+    if (!(await containersReady([containerId], token, deadline))) {
+      return publishPending('instagram', containerId, 'Instagram is still processing the video');
+    }
+    const published = await graphRequest<{ id: string }>(
+      'POST',
+      `${igUserId}/media_publish`,
+      token,
+      { creation_id: containerId }
+    );
+
+    return publishSuccess('instagram', published.id);
+  } catch (err) {
+    return publishFailure('instagram', errorMessage(err));
+  }
+}
+
+/** Create one carousel item container per media URL (up to the carousel limit). */
+async function createCarouselItems(igUserId: string, mediaUrls: string[], token: string): Promise<string[]> {
+  const children: string[] = [];
+  for (const url of mediaUrls.slice(0, CAROUSEL_MAX_ITEMS)) {
+    const child = await graphRequest<{ id: string }>('POST', `${igUserId}/media`, token, {
+      is_carousel_item: true,
+      ...(isVideoUrl(url) ? { media_type: 'VIDEO', video_url: url } : { image_url: url }),
+    });
+    children.push(child.id);
+  }
+  return children;
+}
+
+/**
+ * Poll media containers until they are all ready to publish, or return false
+ * once `deadline` passes with one still processing.  Image containers are
+ * usually FINISHED immediately; videos take longer.
+ */
+async function containersReady(containerIds: string[], token: string, deadline: number): Promise<boolean> {
+  for (const containerId of containerIds) {
+    for (;;) {
+      const { status_code } = await graphRequest<{ status_code?: string }>(
+        'GET',
+        containerId,
+        token,
+        { fields: 'status_code' }
+      );
+      if (!status_code || status_code === 'FINISHED' || status_code === 'PUBLISHED') break;
+      if (status_code === 'ERROR' || status_code === 'EXPIRED') {
+        throw new Error(`Instagram media container ${containerId} is ${status_code}`);
+      }
+      if (Date.now() + CONTAINER_POLL_MS > deadline) return false;
+      await sleep(CONTAINER_POLL_MS);
+    }
+  }
+  return true;
+}
+
+async function deletePost(): Promise<void> {
+  throw new Error('Instagram does not support deleting published media through the API');
+}
+
+async function fetchMetrics(
+  platformPostId: string,
+  connection: SocialPlatform | null
+): Promise<PlatformPostMetrics> {
+  const { access_token: token, account_id: igUserId } = requireConnection('instagram', connection);
+
+  const [insights, account] = await Promise.all([
+    graphRequest<GraphInsights>('GET', `${platformPostId}/insights`, token, {
+      metric: 'impressions,reach,likes,comments,shares,saved,total_interactions',
+    }),
+    graphRequest<{ followers_count?: number }>('GET', igUserId, token, {
+      fields: 'followers_count',
+    }),
+  ]);
+
+  const value = (name: string): number => {
+    const metric = insights.data?.find((m) => m.name === name);
+    return metric?.total_value?.value ?? metric?.values?.[0]?.value ?? 0;
+  };
+
+  return {
+    impressions: value('impressions'),
+    reach: value('reach'),
+    likes: value('likes'),
+    comments: value('comments'),
+    shares: value('shares'),
+    saves: value('saved'),
+    clicks: 0,
+    followerCount: account.followers_count ?? null,
+    raw: { insights: insights.data ?? [] },
+  };
+}
+
+async function fetchEngagements(
+  connection: SocialPlatform | null,
+  since: string | null
+): Promise<PlatformEngagement[]> {
+  const { access_token: token, account_id: igUserId, metadata } = requireConnection('instagram', connection);
+  const pageId = typeof metadata?.page_id === 'string' ? metadata.page_id : null;
+
+  const [media, tagged, messages] = await Promise.all([
+    graphRequest<GraphMediaComments>('GET', `${igUserId}/media`, token, {
+      fields: 'id,comments.limit(50){id,text,timestamp,username,from}',
+      limit: 25,
+    }),
+    graphRequest<GraphTaggedMedia>('GET', `${igUserId}/tags`, token, {
+      fields: 'id,caption,timestamp,username',
+      limit: 25,
+    }),
+    pageId ? fetchConversationMessages(pageId, igUserId, token, 'instagram', since) : [],
+  ]);
+
+  const items: PlatformEngagement[] = [];
+  for (const post of media.data ?? []) {
+    for (const comment of post.comments?.data ?? []) {
+      // Our own replies come back as comments too.
+      if (comment.from?.id === igUserId || !isAfter(comment.timestamp, since)) continue;
+      const username = comment.username ?? comment.from?.username ?? 'instagram user';
+      items.push({
+        platformItemId: comment.id,
+        type: 'comment',
+        authorName: `@${username}`,
+        authorAvatarUrl: null,
+        authorPlatformId: comment.from?.id ?? username,
+        content: comment.text ?? '',
+        platformPostId: post.id,
+        threadId: null,
+        receivedAt: comment.timestamp ?? new Date().toISOString(),
+      });
+    }
+  }
+  for (const mention of tagged.data ?? []) {
+    if (!isAfter(mention.timestamp, since)) continue;
+    const username = mention.username ?? 'instagram user';
+    items.push({
+      platformItemId: mention.id,
+      type: 'mention',
+      authorName: `@${username}`,
+      authorAvatarUrl: null,
+      authorPlatformId: username,
+      content: mention.caption ?? '',
+      platformPostId: null,
+      threadId: null,
+      receivedAt: mention.timestamp ?? new Date().toISOString(),
+    });
+  }
+  return [...items, ...messages];
+}
+
+async function sendReply(
+  target: EngagementReplyTarget,
+  text: string,
+  connection: SocialPlatform | null
+): Promise<string> {
+  const { access_token: token, account_id: igUserId, metadata } = requireConnection('instagram', connection);
+
+  switch (target.type) {
+    case 'comment': {
+      const res = await graphRequest<{ id: string }>('POST', `${target.platformItemId}/replies`, token, {
+        message: text,
+      });
+      return res.id;
+    }
+    case 'mention': {
+      // Comments on the media the account was tagged in.
+      const res = await graphRequest<{ id: string }>('POST', `${igUserId}/mentions`, token, {
+        media_id: target.platformItemId,
+        message: text,
+      });
+      return res.id;
+    }
+    case 'dm': {
+      const pageId = typeof metadata?.page_id === 'string' ? metadata.page_id : null;
+      if (!pageId) throw new Error('Instagram connection has no linked Page; reconnect it to send messages');
+      return sendConversationMessage(pageId, token, target.authorPlatformId, text);
+    }
+    default:
+      throw new Error(`Instagram cannot reply to a ${target.type}`);
+  }
+}
+
+export const instagramAdapter: PlatformAdapter<'instagram'> = {
+  name: 'instagram',
+  config: {
+    name: 'Instagram',
+    icon: '📸',
+    gradient: 'from-purple-500 via-pink-500 to-orange-400',
+    textColor: 'text-pink-400',
+    borderColor: 'border-pink-500/30',
+    iconBg: 'bg-pink-500/10',
+    defaultUrl: 'https://www.instagram.com/',
+    permissions: [
+      'Read posts, stories, and media',
+      'Publish photos and videos',
+      'View audience insights and analytics',
+      'Manage comments and replies',
+    ],
+    enables: [
+      'Automated post scheduling and publishing',
+      'Instagram analytics tracking',
+      'Comment management and AI replies',
+    ],
+  },
+  capabilities: {
+    maxCharacters: 2200,
+    mediaTypes: ['image', 'video', 'carousel'],
+    allowsLinks: false,
+    inbox: ['comment', 'mention', 'dm'],
+  },
+  oauth: {
+    ...META_OAUTH,
+    scopes: [
+      'instagram_basic',
+      'instagram_content_publish',
+      'instagram_manage_comments',
+      'instagram_manage_insights',
+      'instagram_manage_messages',
+      'pages_show_list',
+      'pages_read_engagement',
+    ],
+  },
+  resolveAccount,
+  publish,
+  deletePost,
+  fetchMetrics,
+  fetchEngagements,
+  sendReply,
+};
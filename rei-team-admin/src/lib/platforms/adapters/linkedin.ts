@@ -0,0 +1,110 @@
+/**
+ * LinkedIn adapter.
+ *
+ * Connecting runs the real OAuth flow and stores the account on
+ * `social_platforms`.  Publishing is not yet integrated with the LinkedIn UGC
+ * Post API: it reads credentials from environment variables and returns a mock
+ * success until the real API call is written.  Metrics, deletion and the
+ * inbox are not available yet.
+ */
+
+import {
+  errorMessage,
+  fetchJson,
+  mockSuccess,
+  publishFailure,
+  type ConnectedAccount,
+  type OAuthTokenSet,
+  type PlatformAdapter,
+  type PlatformPostPayload,
+  type PlatformPostResult,
+} from '@/src/lib/platforms/adapter';
+
+async function resolveAccount(tokens: OAuthTokenSet): Promise<ConnectedAccount> {
+  const me = await fetchJson<{ sub: string; name?: string }>(
+    'https://api.linkedin.com/v2/userinfo',
+    tokens.accessToken
+  );
+  return {
+    accountId: `urn:li:person:${me.sub}`,
+    accountName: me.name ?? me.sub,
+    platformUrl: 'https://www.linkedin.com/feed/',
+  };
+}
+
+async function publish(payload: PlatformPostPayload): Promise<PlatformPostResult> {
+  // Env: LINKEDIN_ACCESS_TOKEN, LINKEDIN_AUTHOR_URN (urn:li:person:... or urn:li:organization:...)
+  const token = process.env.LINKEDIN_ACCESS_TOKEN;
+  const authorUrn = process.env.LINKEDIN_AUTHOR_URN;
+
+  if (!token || !authorUrn) {
+    return mockSuccess('linkedin', payload.postId);
+  }
+
+  try {
+    // TODO: real API call using LinkedIn UGC Post API
+    // const res = await fetch('https://api.linkedin.com/v2/ugcPosts', { ... });
+    return mockSuccess('linkedin', payload.postId);
+  } catch (err) {
+    return publishFailure('linkedin', errorMessage(err));
+  }
+}
+
+async function deletePost(): Promise<void> {
+  throw new Error('LinkedIn post deletion is not implemented yet');
+}
+
+async function fetchMetrics(): Promise<never> {
+  throw new Error('LinkedIn metrics are not implemented yet');
+}
+
+async function fetchEngagements(): Promise<never> {
+  throw new Error('LinkedIn inbox sync is not implemented yet');
+}
+
+async function sendReply(): Promise<never> {
+  throw new Error('LinkedIn replies are not implemented yet');
+}
+
+export const linkedinAdapter: PlatformAdapter<'linkedin'> = {
+  name: 'linkedin',
+  config: {
+    name: 'LinkedIn',
+    icon: '💼',
+    gradient: 'from-sky-700 to-sky-500',
+    textColor: 'text-sky-400',
+    borderColor: 'border-sky-500/30',
+    iconBg: 'bg-sky-500/10',
+    defaultUrl: 'https://www.linkedin.com/',
+    permissions: [
+      'Post on behalf of your LinkedIn profile or Company Page',
+      'Read follower and engagement analytics',
+      'Manage comments and interactions',
+    ],
+    enables: [
+      'Professional content publishing on LinkedIn',
+      'LinkedIn follower and engagement analytics',
+      'Thought leadership post automation',
+    ],
+  },
+  capabilities: {
+    maxCharacters: 3000,
+    mediaTypes: ['none', 'image', 'video'],
+    allowsLinks: true,
+    inbox: [],
+  },
+  oauth: {
+    authorizeUrl: 'https://www.linkedin.com/oauth/v2/authorization',
+    tokenUrl: 'https://www.linkedin.com/oauth/v2/accessToken',
+    scopes: ['openid', 'profile', 'w_member_social'],
+    clientIdEnv: 'LINKEDIN_CLIENT_ID',
+    clientSecretEnv: 'LINKEDIN_CLIENT_SECRET',
+    pkce: false,
+  },
+  resolveAccount,
+  publish,
+  deletePost,
+  fetchMetrics,
+  fetchEngagements,
+  sendReply,
+};
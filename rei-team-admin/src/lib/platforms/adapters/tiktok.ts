@@ -0,0 +1,117 @@
+/**
+ * TikTok adapter.
+ *
+ * Connecting runs the real OAuth flow and stores the account on
+ * `social_platforms`.  Publishing is not yet integrated with the TikTok
+ * Content Posting API: it reads credentials from environment variables and
+ * returns a mock success until the real API call is written.  Metrics,
+ * deletion and the inbox are not available yet.
+ */
+
+import {
+  errorMessage,
+  fetchJson,
+  mockSuccess,
+  publishFailure,
+  type ConnectedAccount,
+  type OAuthTokenSet,
+  type PlatformAdapter,
+  type PlatformPostPayload,
+  type PlatformPostResult,
+} from '@/src/lib/platforms/adapter';
+
+interface TikTokUserInfo {
+  data?: { user?: { open_id: string; display_name?: string; profile_deep_link?: string } };
+}
+
+async function resolveAccount(tokens: OAuthTokenSet): Promise<ConnectedAccount> {
+  const info = await fetchJson<TikTokUserInfo>(
+    'https://open.tiktokapis.com/v2/user/info/?fields=open_id,display_name,profile_deep_link',
+    tokens.accessToken
+  );
+  const user = info.data?.user;
+  if (!user) throw new Error('TikTok did not return the connected user');
+  return {
+    accountId: user.open_id,
+    accountName: user.display_name ?? user.open_id,
+    platformUrl: user.profile_deep_link ?? 'https://www.tiktok.com/',
+  };
+}
+
+async function publish(payload: PlatformPostPayload): Promise<PlatformPostResult> {
+  // Env: TIKTOK_ACCESS_TOKEN
+  const token = process.env.TIKTOK_ACCESS_TOKEN;
+
+  if (!token) {
+    return mockSuccess('tiktok', payload.postId);
+  }
+
+  try {
+    // TODO: real API call using TikTok Content Posting API
+    // const res = await fetch('https://open.tiktokapis.com/v2/post/publish/video/init/', { ... });
+    return mockSuccess('tiktok', payload.postId);
+  } catch (err) {
+    return publishFailure('tiktok', errorMessage(err));
+  }
+}
+
+async function deletePost(): Promise<void> {
+  throw new Error('TikTok post deletion is not implemented yet');
+}
+
+async function fetchMetrics(): Promise<never> {
+  throw new Error('TikTok metrics are not implemented yet');
+}
+
+async function fetchEngagements(): Promise<never> {
+  throw new Error('TikTok inbox sync is not implemented yet');
+}
+
+async function sendReply(): Promise<never> {
+  throw new Error('TikTok replies are not implemented yet');
+}
+
+export const tiktokAdapter: PlatformAdapter<'tiktok'> = {
+  name: 'tiktok',
+  config: {
+    name: 'TikTok',
+    icon: '🎵',
+    gradient: 'from-slate-900 via-pink-600 to-cyan-400',
+    textColor: 'text-pink-400',
+    borderColor: 'border-pink-500/30',
+    iconBg: 'bg-pink-500/10',
+    defaultUrl: 'https://www.tiktok.com/',
+    permissions: [
+      'Upload and publish videos',
+      'Read video analytics and performance metrics',
+      'Manage comments on your videos',
+    ],
+    enables: [
+      'TikTok video scheduling and publishing',
+      'Short-form video analytics',
+      'Trending content monitoring',
+    ],
+  },
+  capabilities: {
+    maxCharacters: 2200,
+    mediaTypes: ['video'],
+    allowsLinks: false,
+    inbox: [],
+  },
+  oauth: {
+    authorizeUrl: 'https://www.tiktok.com/v2/auth/authorize/',
+    tokenUrl: 'https://open.tiktokapis.com/v2/oauth/token/',
+    scopes: ['user.info.basic', 'video.publish', 'video.list'],
+    scopeSeparator: ',',
+    clientIdEnv: 'TIKTOK_CLIENT_KEY',
+    clientSecretEnv: 'TIKTOK_CLIENT_SECRET',
+    clientIdParam: 'client_key',
+    pkce: false,
+  },
+  resolveAccount,
+  publish,
+  deletePost,
+  fetchMetrics,
+  fetchEngagements,
+  sendReply,
+};
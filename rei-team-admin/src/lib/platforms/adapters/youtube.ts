@@ -0,0 +1,121 @@
+/**
+ * YouTube adapter.
+ *
+ * Connecting runs the real OAuth flow and stores the account on
+ * `social_platforms`.  Publishing is not yet integrated with the YouTube Data
+ * API v3: it reads credentials from environment variables and returns a mock
+ * success until the real API call is written.  Metrics, deletion and the
+ * inbox are not available yet.
+ */
+
+import {
+  errorMessage,
+  fetchJson,
+  mockSuccess,
+  publishFailure,
+  type ConnectedAccount,
+  type OAuthTokenSet,
+  type PlatformAdapter,
+  type PlatformPostPayload,
+  type PlatformPostResult,
+} from '@/src/lib/platforms/adapter';
+import { GOOGLE_OAUTH } from '@/src/lib/platforms/google';
+
+interface YouTubeChannels {
+  items?: Array<{ id: string; snippet?: { title?: string; customUrl?: string } }>;
+}
+
+async function resolveAccount(tokens: OAuthTokenSet): Promise<ConnectedAccount> {
+  const channels = await fetchJson<YouTubeChannels>(
+    'https://www.googleapis.com/youtube/v3/channels?part=snippet&mine=true',
+    tokens.accessToken
+  );
+  const channel = channels.items?.[0];
+  if (!channel) throw new Error('The Google account has no YouTube channel');
+  const handle = channel.snippet?.customUrl;
+  return {
+    accountId: channel.id,
+    accountName: channel.snippet?.title ?? channel.id,
+    platformUrl: handle
+      ? `https://www.youtube.com/${handle}`
+      : `https://www.youtube.com/channel/${channel.id}`,
+  };
+}
+
+async function publish(payload: PlatformPostPayload): Promise<PlatformPostResult> {
+  // Env: YOUTUBE_ACCESS_TOKEN, YOUTUBE_CHANNEL_ID
+  const token = process.env.YOUTUBE_ACCESS_TOKEN;
+
+  if (!token) {
+    return mockSuccess('youtube', payload.postId);
+  }
+
+  try {
+    // TODO: real API call using YouTube Data API v3
+    // const res = await fetch('https://www.googleapis.com/upload/youtube/v3/videos', { ... });
+    return mockSuccess('youtube', payload.postId);
+  } catch (err) {
+    return publishFailure('youtube', errorMessage(err));
+  }
+}
+
+async function deletePost(): Promise<void> {
+  throw new Error('YouTube post deletion is not implemented yet');
+}
+
+async function fetchMetrics(): Promise<never> {
+  throw new Error('YouTube metrics are not implemented yet');
+}
+
+async function fetchEngagements(): Promise<never> {
+  throw new Error('YouTube inbox sync is not implemented yet');
+}
+
+async function sendReply(): Promise<never> {
+  throw new Error('YouTube replies are not implemented yet');
+}
+
+export const youtubeAdapter: PlatformAdapter<'youtube'> = {
+  name: 'youtube',
+  config: {
+    name: 'YouTube',
+    icon: '▶️',
+    gradient: 'from-red-600 to-red-400',
+    textColor: 'text-red-400',
+    borderColor: 'border-red-500/30',
+    iconBg: 'bg-red-500/10',
+    defaultUrl: 'https://www.youtube.com/',
+    permissions: [
+      'Upload and manage videos',
+      'Read channel analytics and subscriber data',
+      'Manage comments and community posts',
+      'Access YouTube Studio insights',
+    ],
+    enables: [
+      'YouTube video scheduling and publishing',
+      'Channel analytics and subscriber tracking',
+      'Community post management',
+    ],
+  },
+  capabilities: {
+    maxCharacters: 5000,
+    mediaTypes: ['video'],
+    allowsLinks: true,
+    inbox: [],
+  },
+  oauth: {
+    ...GOOGLE_OAUTH,
+    scopes: [
+      'https://www.googleapis.com/auth/youtube.upload',
+      'https://www.googleapis.com/auth/youtube.readonly',
+      'https://www.googleapis.com/auth/youtube.force-ssl',
+      'https://www.googleapis.com/auth/yt-analytics.readonly',
+    ],
+  },
+  resolveAccount,
+  publish,
+  deletePost,
+  fetchMetrics,
+  fetchEngagements,
+  sendReply,
+};
@@ -0,0 +1,157 @@
+/**
+ * analytics-ingest.ts
+ * Daily per-post metrics ingestion for the Analytics page.
+ *
+ * Every successful `cron_post_log` attempt with a `platform_post_id` is a
+ * published post the platform can report on.  `ingestAnalytics` asks each
+ * post's adapter for its current counters and upserts one
+ * `analytics_snapshots` row per post per day, so re-running on the same day
+ * refreshes that day's numbers instead of duplicating them.
+ *
+ * The metrics source is injectable: production resolves adapters from the
+ * registry, while `fake-metrics.ts` supplies canned counters for local runs
+ * and tests.
+ */
+
+import { supabaseAdmin } from '@/src/lib/supabase/admin';
+import type { PlatformAdapter, PlatformPostMetrics } from '@/src/lib/platforms/adapter';
+import { errorMessage } from '@/src/lib/platforms/adapter';
+import { loadConnections } from '@/src/lib/platforms/connections';
+import { getPlatformAdapter } from '@/src/lib/platforms/registry';
+import type { CronPostLog, NewAnalyticsSnapshot } from '@/src/lib/types/social-media';
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Types
+// ──────────────────────────────────────────────────────────────────────────────
+
+/** Resolves the object that reads metrics for a platform. */
+export type MetricsSource = (platform: string) => Pick<PlatformAdapter, 'fetchMetrics'> | null;
+
+export interface IngestOptions {
+  /** Snapshot day (YYYY-MM-DD, UTC). */
+  snapshotDate: string;
+  /** Only posts published at or after this ISO timestamp are refreshed. */
+  since: string;
+  /** Defaults to the adapter registry. */
+  source?: MetricsSource;
+  /**
+   * Include posts published by the mock publisher (`mock_*` IDs).  Only
+   * useful with a fake source; real platforms do not know those IDs.
+   */
+  includeMockPosts?: boolean;
+}
+
+export interface IngestSummary {
+  checked: number;
+  snapshots: number;
+  skipped: number;
+  failed: number;
+  errors: string[];
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Ingestion
+// ──────────────────────────────────────────────────────────────────────────────
+
+/** Log rows per request; PostgREST caps responses at 1000 rows. */
+const PAGE_SIZE = 1000;
+
+export const registryMetricsSource: MetricsSource = (platform) => getPlatformAdapter(platform);
+
+export async function ingestAnalytics(
+  admin: ReturnType<typeof supabaseAdmin>,
+  opts: IngestOptions
+): Promise<IngestSummary> {
+  const source = opts.source ?? registryMetricsSource;
+  const summary: IngestSummary = { checked: 0, snapshots: 0, skipped: 0, failed: 0, errors: [] };
+
+  // ── 1. Published posts (one entry per platform post) ──────────────────────
+  type PublishedRow = Pick<CronPostLog, 'post_id' | 'platform' | 'platform_post_id' | 'attempted_at'>;
+  const published = new Map<string, PublishedRow>();
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await admin
+      .from('cron_post_log')
+      .select('post_id, platform, platform_post_id, attempted_at')
+      .eq('status', 'success')
+      .not('platform_post_id', 'is', null)
+      .gte('attempted_at', opts.since)
+      .order('attempted_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    const page = (data ?? []) as PublishedRow[];
+    for (const row of page) {
+      published.set(`${row.platform}:${row.platform_post_id}`, row);
+    }
+    if (page.length < PAGE_SIZE) break;
+  }
+
+  // ── 2. Platform rows: tokens for fetching, ids for snapshots ─────────────
+  const connections = await loadConnections(admin);
+  const { data: platformRows, error: platformError } = await admin
+    .from('social_platforms')
+    .select('id, platform_name')
+    .order('updated_at', { ascending: true });
+  if (platformError) throw platformError;
+  const platformIds = new Map<string, string>();
+  for (const row of (platformRows ?? []) as { id: string; platform_name: string }[]) {
+    platformIds.set(row.platform_name, row.id);
+  }
+
+  // ── 3. Fetch + upsert ─────────────────────────────────────────────────────
+  for (const row of published.values()) {
+    summary.checked++;
+    const platformPostId = row.platform_post_id!;
+
+    const fetcher = source(row.platform);
+    const platformId = connections.get(row.platform)?.id ?? platformIds.get(row.platform);
+    if (!fetcher || !platformId || (!opts.includeMockPosts && platformPostId.startsWith('mock_'))) {
+      summary.skipped++;
+      continue;
+    }
+
+    try {
+      const metrics = await fetcher.fetchMetrics(platformPostId, connections.get(row.platform) ?? null);
+
+      const snapshot: NewAnalyticsSnapshot = {
+        post_id: row.post_id,
+        platform_id: platformId,
+        platform_post_id: platformPostId,
+        impressions: metrics.impressions,
+        reach: metrics.reach,
+        likes: metrics.likes,
+        comments_count: metrics.comments,
+        shares: metrics.shares,
+        saves: metrics.saves,
+        clicks: metrics.clicks,
+        engagement_rate: engagementRate(metrics),
+        follower_count_at_time: metrics.followerCount,
+        snapshot_date: opts.snapshotDate,
+        raw_data: metrics.raw,
+      };
+      const { error: upsertError } = await admin
+        .from('analytics_snapshots')
+        .upsert(snapshot, { onConflict: 'platform_id,platform_post_id,snapshot_date' });
+      if (upsertError) throw upsertError;
+
+      summary.snapshots++;
+    } catch (err) {
+      summary.failed++;
+      summary.errors.push(`${row.platform} ${platformPostId}: ${errorMessage(err)}`);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Engagements (likes + comments + shares + saves) per person reached, as a
+ * fraction.  Falls back to impressions when the platform reports no reach;
+ * null when neither is known.
+ */
+export function engagementRate(metrics: PlatformPostMetrics): number | null {
+  const audience = metrics.reach || metrics.impressions;
+  if (!audience) return null;
+  const engagements = metrics.likes + metrics.comments + metrics.shares + metrics.saves;
+  return Math.round((engagements / audience) * 10000) / 10000;
+}
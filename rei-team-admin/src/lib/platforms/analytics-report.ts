@@ -0,0 +1,151 @@
+/**
+ * analytics-report.ts
+ * Aggregates `analytics_snapshots` rows into the Analytics page report.
+ *
+ * Snapshots hold each post's lifetime counters as of their day, so:
+ *   - the trend sums every tracked post per day;
+ *   - per-post figures (top posts, breakdowns) use each post's latest
+ *     snapshot in the range, never a sum across days.
+ *
+ * Pure and client-safe; /api/analytics feeds it rows joined with their post
+ * and platform.
+ */
+
+import type {
+  AnalyticsBreakdownRow,
+  AnalyticsFollowerSeries,
+  AnalyticsPostPerformance,
+  AnalyticsReport,
+  AnalyticsSnapshot,
+  AnalyticsTrendPoint,
+} from '@/src/lib/types/social-media';
+
+/** A snapshot joined with the fields the report groups by. */
+export interface ReportSnapshot extends AnalyticsSnapshot {
+  platform: { platform_name: string } | null;
+  post: {
+    title: string | null;
+    body: string;
+    content_type: { id: string; name: string } | null;
+    brand_voice: { id: string; name: string } | null;
+  } | null;
+}
+
+const TOP_POST_LIMIT = 10;
+const UNASSIGNED_KEY = 'none';
+
+function engagementsOf(s: AnalyticsSnapshot): number {
+  return s.likes + s.comments_count + s.shares + s.saves;
+}
+
+function rate(engagements: number, reach: number, impressions: number): number | null {
+  const audience = reach || impressions;
+  return audience ? engagements / audience : null;
+}
+
+function trendPoint(date: string, rows: AnalyticsSnapshot[]): AnalyticsTrendPoint {
+  let impressions = 0;
+  let reach = 0;
+  let engagements = 0;
+  for (const s of rows) {
+    impressions += s.impressions;
+    reach += s.reach;
+    engagements += engagementsOf(s);
+  }
+  return { date, impressions, reach, engagements, engagement_rate: rate(engagements, reach, impressions) };
+}
+
+function breakdown(
+  latest: ReportSnapshot[],
+  group: (s: ReportSnapshot) => { id: string; name: string } | null,
+  unassignedLabel: string
+): AnalyticsBreakdownRow[] {
+  const rows = new Map<string, AnalyticsBreakdownRow>();
+  for (const s of latest) {
+    const g = group(s);
+    const key = g?.id ?? UNASSIGNED_KEY;
+    const row = rows.get(key) ?? {
+      key,
+      label: g?.name ?? unassignedLabel,
+      posts: 0,
+      impressions: 0,
+      reach: 0,
+      engagements: 0,
+      engagement_rate: null,
+    };
+    row.posts++;
+    row.impressions += s.impressions;
+    row.reach += s.reach;
+    row.engagements += engagementsOf(s);
+    rows.set(key, row);
+  }
+  return Array.from(rows.values())
+    .map((row) => ({ ...row, engagement_rate: rate(row.engagements, row.reach, row.impressions) }))
+    .sort((a, b) => b.engagements - a.engagements);
+}
+
+export function buildAnalyticsReport(
+  snapshots: ReportSnapshot[],
+  dateFrom: string,
+  dateTo: string
+): AnalyticsReport {
+  const sorted = [...snapshots].sort((a, b) => a.snapshot_date.localeCompare(b.snapshot_date));
+
+  // ── Trend: one point per snapshot day ─────────────────────────────────────
+  const byDate = new Map<string, ReportSnapshot[]>();
+  for (const s of sorted) {
+    const rows = byDate.get(s.snapshot_date) ?? [];
+    rows.push(s);
+    byDate.set(s.snapshot_date, rows);
+  }
+  const trend = Array.from(byDate, ([date, rows]) => trendPoint(date, rows));
+
+  // ── Latest snapshot per platform post ─────────────────────────────────────
+  const latestByPost = new Map<string, ReportSnapshot>();
+  for (const s of sorted) latestByPost.set(`${s.platform_id}:${s.platform_post_id}`, s);
+  const latest = Array.from(latestByPost.values());
+
+  const topPosts: AnalyticsPostPerformance[] = latest
+    .map((s) => {
+      const engagements = engagementsOf(s);
+      return {
+        post_id: s.post_id,
+        platform: s.platform?.platform_name ?? 'unknown',
+        platform_post_id: s.platform_post_id,
+        title: s.post?.title ?? null,
+        body: s.post?.body ?? null,
+        impressions: s.impressions,
+        reach: s.reach,
+        engagements,
+        engagement_rate: rate(engagements, s.reach, s.impressions),
+        snapshot_date: s.snapshot_date,
+      };
+    })
+    .sort((a, b) => b.engagements - a.engagements)
+    .slice(0, TOP_POST_LIMIT);
+
+  // ── Followers: highest reported count per platform per day ────────────────
+  const followerMaps = new Map<string, Map<string, number>>();
+  for (const s of sorted) {
+    if (s.follower_count_at_time == null) continue;
+    const platform = s.platform?.platform_name ?? 'unknown';
+    const days = followerMaps.get(platform) ?? new Map<string, number>();
+    days.set(s.snapshot_date, Math.max(days.get(s.snapshot_date) ?? 0, s.follower_count_at_time));
+    followerMaps.set(platform, days);
+  }
+  const followers: AnalyticsFollowerSeries[] = Array.from(followerMaps, ([platform, days]) => ({
+    platform,
+    points: Array.from(days, ([date, count]) => ({ date, followers: count })),
+  })).sort((a, b) => a.platform.localeCompare(b.platform));
+
+  return {
+    date_from: dateFrom,
+    date_to: dateTo,
+    totals: trend.length ? trendPoint(trend[trend.length - 1].date, latest) : null,
+    trend,
+    top_posts: topPosts,
+    by_content_type: breakdown(latest, (s) => s.post?.content_type ?? null, 'No content type'),
+    by_brand_voice: breakdown(latest, (s) => s.post?.brand_voice ?? null, 'No brand voice'),
+    followers,
+  };
+}
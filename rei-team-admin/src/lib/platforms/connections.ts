@@ -0,0 +1,32 @@
+/**
+ * connections.ts
+ * Server-side access to connected `social_platforms` rows for background jobs
+ * (publishing, analytics ingestion).  Rows come back with their tokens
+ * decrypted, so this module must never be imported by client components.
+ */
+
+import { supabaseAdmin } from '@/src/lib/supabase/admin';
+import { decryptPlatformRow } from '@/src/lib/platforms/token-crypto';
+import type { SocialPlatform } from '@/src/lib/types/social-media';
+
+/**
+ * Return the connected `social_platforms` rows keyed by platform name, with
+ * their tokens decrypted.  If several accounts are connected for one platform
+ * the most recently updated one wins.
+ */
+export async function loadConnections(
+  admin: ReturnType<typeof supabaseAdmin>
+): Promise<Map<string, SocialPlatform>> {
+  const { data, error } = await admin
+    .from('social_platforms')
+    .select('*')
+    .eq('is_connected', true)
+    .order('updated_at', { ascending: true });
+  if (error) throw error;
+
+  const byName = new Map<string, SocialPlatform>();
+  for (const row of (data ?? []) as SocialPlatform[]) {
+    byName.set(row.platform_name, decryptPlatformRow(row));
+  }
+  return byName;
+}
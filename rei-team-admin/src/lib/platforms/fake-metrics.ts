@@ -0,0 +1,58 @@
+/**
+ * fake-metrics.ts
+ * Canned post metrics for exercising analytics ingestion without platform
+ * credentials.
+ *
+ * Enabled for /api/cron/analytics with ANALYTICS_FAKE_METRICS=true.  Numbers
+ * are derived from the platform post ID and the snapshot day, so the same
+ * post always gets the same counters on the same day and they grow from one
+ * day to the next — enough to draw believable trends on the Analytics page.
+ */
+
+import type { PlatformPostMetrics } from '@/src/lib/platforms/adapter';
+import type { MetricsSource } from '@/src/lib/platforms/analytics-ingest';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Day zero for the growth term (2024-01-01 UTC), so counters never reset. */
+const EPOCH_DAY = Date.UTC(2024, 0, 1) / DAY_MS;
+
+/** Small stable hash (FNV-1a) so each post gets its own baseline. */
+function seedFor(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function cannedMetrics(platformPostId: string, asOf: Date = new Date()): PlatformPostMetrics {
+  const seed = seedFor(platformPostId);
+  const day = Math.max(0, Math.floor(asOf.getTime() / DAY_MS) - EPOCH_DAY);
+
+  const impressions = 200 + (seed % 800) + day * (20 + (seed % 30));
+  const reach = Math.round(impressions * (0.6 + (seed % 20) / 100));
+  const likes = Math.round(reach * (0.03 + (seed % 5) / 100));
+  const comments = Math.round(likes * 0.12);
+  const shares = Math.round(likes * 0.08);
+  const saves = Math.round(likes * 0.05);
+
+  return {
+    impressions,
+    reach,
+    likes,
+    comments,
+    shares,
+    saves,
+    clicks: Math.round(reach * 0.01),
+    followerCount: 1000 + (seed % 4000) + day * 3,
+    raw: { fake: true },
+  };
+}
+
+/** A metrics source whose every platform returns `cannedMetrics`. */
+export function fakeMetricsSource(asOf: Date = new Date()): MetricsSource {
+  return () => ({
+    fetchMetrics: async (platformPostId: string) => cannedMetrics(platformPostId, asOf),
+  });
+}
@@ -0,0 +1,15 @@
+/**
+ * google.ts
+ * OAuth settings shared by the Google-backed adapters (YouTube, Google
+ * Business Profile).  Both use the same Google Cloud OAuth client.
+ */
+
+export const GOOGLE_OAUTH = {
+  authorizeUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+  tokenUrl: 'https://oauth2.googleapis.com/token',
+  clientIdEnv: 'GOOGLE_OAUTH_CLIENT_ID',
+  clientSecretEnv: 'GOOGLE_OAUTH_CLIENT_SECRET',
+  pkce: true,
+  // Ask for a refresh token every time so reconnecting replaces a revoked one.
+  extraAuthorizeParams: { access_type: 'offline', prompt: 'consent', include_granted_scopes: 'true' },
+} as const;
@@ -0,0 +1,105 @@
+/**
+ * inbox-ai.ts
+ * AI helpers for the engagement inbox: sentiment classification of incoming
+ * items and reply drafts in a brand voice.
+ *
+ * Server-only: calls go through the shared AI client (src/lib/ai/client.ts).
+ */
+
+import { generateText, type AiCallResult } from '@/src/lib/ai/client';
+import type { BrandVoice, EngagementInboxItem, SentimentType } from '@/src/lib/types/social-media';
+
+export const INBOX_AI_MODEL = 'gpt-4o-mini';
+
+const SENTIMENTS: SentimentType[] = ['positive', 'neutral', 'negative'];
+
+const TYPE_LABELS: Record<EngagementInboxItem['type'], string> = {
+  comment: 'comment',
+  dm: 'direct message',
+  mention: 'post mentioning the team',
+  review: 'review',
+};
+
+/** The helper's output plus the call's model, usage and cost, for logGeneration. */
+export interface InboxAiResult<T> extends AiCallResult {
+  value: T;
+}
+
+/** Classify an inbox item as positive, neutral or negative. */
+export async function classifySentiment(
+  item: Pick<EngagementInboxItem, 'type' | 'content'>
+): Promise<InboxAiResult<SentimentType>> {
+  const { text: raw, ...call } = await generateText({
+    model: INBOX_AI_MODEL,
+    json: true,
+    system:
+      'You classify the sentiment of messages a real estate team receives on social media. ' +
+      'Complaints, frustration and low star ratings are negative; thanks, praise and high ratings are positive; ' +
+      'questions and everything else are neutral. ' +
+      'Reply with JSON only: {"sentiment": "positive" | "neutral" | "negative"}.',
+    prompt: classificationPrompt(item),
+    maxTokens: 20,
+  });
+
+  let sentiment: unknown;
+  try {
+    sentiment = (JSON.parse(raw) as { sentiment?: unknown }).sentiment;
+  } catch {
+    sentiment = null;
+  }
+  if (!SENTIMENTS.includes(sentiment as SentimentType)) {
+    throw new Error(`Unexpected sentiment classification: ${raw.slice(0, 100)}`);
+  }
+
+  return { value: sentiment as SentimentType, ...call };
+}
+
+/** The prompt sent for classification; also what gets logged to ai_generation_history. */
+export function classificationPrompt(item: Pick<EngagementInboxItem, 'type' | 'content'>): string {
+  return `A ${TYPE_LABELS[item.type]}:\n\n${item.content}`;
+}
+
+export interface ReplyDraftInput {
+  item: Pick<EngagementInboxItem, 'type' | 'content' | 'author_name' | 'sentiment'>;
+  voice: Pick<BrandVoice, 'name' | 'system_prompt' | 'example_content'> | null;
+  platformName: string;
+  /** Our post the item responds to, for context. */
+  postBody: string | null;
+}
+
+/** The prompt sent for a reply draft; also what gets logged to ai_generation_history. */
+export function buildReplyPrompt({ item, platformName, postBody }: ReplyDraftInput): string {
+  return [
+    `Draft a reply to this ${TYPE_LABELS[item.type]} from ${item.author_name} on ${platformName}.`,
+    postBody ? `It was left on our post:\n"""${postBody}"""` : '',
+    `Their message:\n"""${item.content}"""`,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/** Draft a reply in the given brand voice. */
+export async function draftReply(input: ReplyDraftInput): Promise<InboxAiResult<string>> {
+  const { item, voice } = input;
+  const system = [
+    voice?.system_prompt ?? 'You are the friendly social media manager for a real estate team.',
+    voice?.example_content ? `Examples of this voice:\n${voice.example_content}` : '',
+    'You are replying publicly or privately on behalf of the team. Keep replies short (1-3 sentences), ' +
+      'warm and specific to what they said. Never invent facts, prices or commitments.',
+    item.type === 'review' && item.sentiment === 'negative'
+      ? 'This is a negative review: acknowledge the experience, apologise without arguing, and invite them to continue the conversation privately.'
+      : '',
+    'Reply with the message text only.',
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  const { text, ...call } = await generateText({
+    model: INBOX_AI_MODEL,
+    system,
+    prompt: buildReplyPrompt(input),
+    maxTokens: 300,
+  });
+
+  return { value: text.trim(), ...call };
+}
@@ -0,0 +1,136 @@
+/**
+ * inbox-sync.ts
+ * Pulls comments, DMs, mentions and reviews from every connected platform
+ * into `engagement_inbox`.
+ *
+ * Each connected account is read through its adapter's `fetchEngagements`,
+ * starting from `inbox_synced_at` (the previous run's start time).
+ * Items are inserted with `platform_item_id` as the dedupe key, so overlaps
+ * between runs are harmless and the read / replied state of existing items is
+ * never overwritten.  Items left on one of our published posts are linked to
+ * their `ContentPost` through `cron_post_log.platform_post_id`.
+ */
+
+import { supabaseAdmin } from '@/src/lib/supabase/admin';
+import type { PlatformAdapter, PlatformEngagement } from '@/src/lib/platforms/adapter';
+import { errorMessage } from '@/src/lib/platforms/adapter';
+import { loadConnections } from '@/src/lib/platforms/connections';
+import { getPlatformAdapter } from '@/src/lib/platforms/registry';
+import type { NewEngagementInboxItem, SocialPlatform } from '@/src/lib/types/social-media';
+
+export type EngagementSource = (
+  platform: string
+) => Pick<PlatformAdapter, 'capabilities' | 'fetchEngagements'> | null;
+
+export interface InboxSyncSummary {
+  platforms: number;
+  fetched: number;
+  inserted: number;
+  skipped: number;
+  failed: number;
+  errors: string[];
+  /** IDs of the items this run inserted, for sentiment triage. */
+  newItemIds: string[];
+}
+
+export async function syncEngagementInbox(
+  admin: ReturnType<typeof supabaseAdmin>,
+  opts: { now?: Date; source?: EngagementSource } = {}
+): Promise<InboxSyncSummary> {
+  const source = opts.source ?? getPlatformAdapter;
+  const startedAt = (opts.now ?? new Date()).toISOString();
+  const summary: InboxSyncSummary = { platforms: 0, fetched: 0, inserted: 0, skipped: 0, failed: 0, errors: [], newItemIds: [] };
+
+  const connections = await loadConnections(admin);
+
+  for (const connection of connections.values()) {
+    const adapter = source(connection.platform_name);
+    if (!adapter || adapter.capabilities.inbox.length === 0) {
+      summary.skipped++;
+      continue;
+    }
+    summary.platforms++;
+
+    try {
+      const items = (await adapter.fetchEngagements(connection, connection.inbox_synced_at)).filter((item) =>
+        adapter.capabilities.inbox.includes(item.type)
+      );
+      summary.fetched += items.length;
+
+      if (items.length > 0) {
+        const postIds = await linkPosts(admin, connection.platform_name, items);
+        const rows: NewEngagementInboxItem[] = items.map((item) => ({
+          platform_id: connection.id,
+          platform_item_id: item.platformItemId,
+          type: item.type,
+          author_name: item.authorName,
+          author_avatar_url: item.authorAvatarUrl,
+          author_platform_id: item.authorPlatformId,
+          content: item.content,
+          parent_post_id: item.platformPostId ? postIds.get(item.platformPostId) ?? null : null,
+          platform_post_id: item.platformPostId,
+          platform_thread_id: item.threadId,
+          sentiment: null,
+          is_read: false,
+          is_replied: false,
+          received_at: item.receivedAt,
+        }));
+
+        const { data, error } = await admin
+          .from('engagement_inbox')
+          .upsert(rows, { onConflict: 'platform_id,platform_item_id', ignoreDuplicates: true })
+          .select('id');
+        if (error) throw error;
+        const inserted = (data ?? []) as { id: string }[];
+        summary.inserted += inserted.length;
+        summary.newItemIds.push(...inserted.map((row) => row.id));
+      }
+
+      await markSynced(admin, connection, startedAt);
+    } catch (err) {
+      summary.failed++;
+      summary.errors.push(`${connection.platform_name}: ${errorMessage(err)}`);
+    }
+  }
+
+  return summary;
+}
+
+/** Map platform post IDs to the `content_posts` they were published from. */
+async function linkPosts(
+  admin: ReturnType<typeof supabaseAdmin>,
+  platform: string,
+  items: PlatformEngagement[]
+): Promise<Map<string, string>> {
+  const platformPostIds = Array.from(
+    new Set(items.map((item) => item.platformPostId).filter((id): id is string => !!id))
+  );
+  const byPlatformPostId = new Map<string, string>();
+  if (platformPostIds.length === 0) return byPlatformPostId;
+
+  const { data, error } = await admin
+    .from('cron_post_log')
+    .select('post_id, platform_post_id')
+    .eq('platform', platform)
+    .eq('status', 'success')
+    .in('platform_post_id', platformPostIds);
+  if (error) throw error;
+
+  for (const row of (data ?? []) as { post_id: string | null; platform_post_id: string }[]) {
+    if (row.post_id) byPlatformPostId.set(row.platform_post_id, row.post_id);
+  }
+  return byPlatformPostId;
+}
+
+/** Advance the cursor in its own column, leaving `metadata` to the token refresh cron. */
+async function markSynced(
+  admin: ReturnType<typeof supabaseAdmin>,
+  connection: SocialPlatform,
+  syncedAt: string
+): Promise<void> {
+  const { error } = await admin
+    .from('social_platforms')
+    .update({ inbox_synced_at: syncedAt })
+    .eq('id', connection.id);
+  if (error) throw error;
+}
@@ -0,0 +1,161 @@
+/**
+ * inbox-triage.ts
+ * Sentiment classification for newly synced inbox items, and escalation of
+ * negative reviews to managers.
+ *
+ * Runs right after each inbox sync (inbox-sync.ts) on the items it inserted
+ * plus a batch of anything still unclassified (e.g. when OpenAI was
+ * unavailable during an earlier sync), and on demand from
+ * POST /api/inbox/classify.  Each classification is logged to
+ * ai_generation_history without a requesting member.
+ *
+ * Sentiment is saved only once a negative review's escalation has gone out,
+ * so an item whose escalation failed stays unclassified and is retried.
+ */
+
+import { supabaseAdmin } from '@/src/lib/supabase/admin';
+import { errorMessage } from '@/src/lib/platforms/adapter';
+import { classificationPrompt, classifySentiment } from '@/src/lib/platforms/inbox-ai';
+import { logGeneration } from '@/src/lib/ai/client';
+import type { EngagementInboxItem } from '@/src/lib/types/social-media';
+
+export interface TriageSummary {
+  classified: number;
+  escalated: number;
+  failed: number;
+  errors: string[];
+}
+
+type TriageItem = Pick<EngagementInboxItem, 'id' | 'platform_id' | 'type' | 'content'>;
+
+/** Unclassified items taken per batch when no IDs are given. */
+const DEFAULT_BATCH = 100;
+
+/** IDs per `.in()` filter, keeping the request URL short. */
+const ID_CHUNK = 100;
+
+/**
+ * Classify every given item that is still unclassified, or with no IDs up to
+ * `limit` of the oldest unclassified ones.
+ */
+export async function triageInboxItems(
+  admin: ReturnType<typeof supabaseAdmin>,
+  opts: { ids?: string[]; limit?: number } = {}
+): Promise<TriageSummary> {
+  const summary: TriageSummary = { classified: 0, escalated: 0, failed: 0, errors: [] };
+
+  for (const item of await loadUnclassified(admin, opts)) {
+    try {
+      const { value: sentiment, ...call } = await classifySentiment(item);
+      await logGeneration(call, {
+        prompt: classificationPrompt(item),
+        response: sentiment,
+        contentType: 'inbox_sentiment',
+        generatedBy: null,
+      });
+
+      const escalate = sentiment === 'negative' && item.type === 'review';
+      if (escalate) await escalateNegativeReview(admin, item);
+
+      const { error: updateError } = await admin
+        .from('engagement_inbox')
+        .update({ sentiment })
+        .eq('id', item.id);
+      if (updateError) throw updateError;
+      summary.classified++;
+      if (escalate) summary.escalated++;
+    } catch (err) {
+      summary.failed++;
+      summary.errors.push(`${item.id}: ${errorMessage(err)}`);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Triage after an inbox sync: the items it just inserted, then a batch of
+ * older unclassified ones.  The backlog is left alone when the new items
+ * failed, as OpenAI is then most likely still unavailable.
+ */
+export async function triageAfterSync(
+  admin: ReturnType<typeof supabaseAdmin>,
+  newItemIds: string[]
+): Promise<TriageSummary> {
+  const summary = await triageInboxItems(admin, { ids: newItemIds });
+  if (summary.failed > 0) return summary;
+
+  const backlog = await triageInboxItems(admin);
+  return {
+    classified: summary.classified + backlog.classified,
+    escalated: summary.escalated + backlog.escalated,
+    failed: backlog.failed,
+    errors: backlog.errors,
+  };
+}
+
+async function loadUnclassified(
+  admin: ReturnType<typeof supabaseAdmin>,
+  opts: { ids?: string[]; limit?: number }
+): Promise<TriageItem[]> {
+  const query = () =>
+    admin
+      .from('engagement_inbox')
+      .select('id, platform_id, type, content')
+      .is('sentiment', null)
+      .order('received_at', { ascending: true });
+
+  if (!opts.ids) {
+    const { data, error } = await query().limit(opts.limit ?? DEFAULT_BATCH);
+    if (error) throw error;
+    return (data ?? []) as TriageItem[];
+  }
+
+  const items: TriageItem[] = [];
+  for (let i = 0; i < opts.ids.length; i += ID_CHUNK) {
+    const { data, error } = await query().in('id', opts.ids.slice(i, i + ID_CHUNK));
+    if (error) throw error;
+    items.push(...((data ?? []) as TriageItem[]));
+  }
+  return items;
+}
+
+/**
+ * Insert a `negative_review` notification for every active manager and admin.
+ * Managers already notified about the item (an earlier run escalated it but
+ * could not save the sentiment) are skipped.
+ */
+async function escalateNegativeReview(
+  admin: ReturnType<typeof supabaseAdmin>,
+  item: TriageItem
+): Promise<void> {
+  const { data: sent, error: sentError } = await admin
+    .from('notifications')
+    .select('recipient_id')
+    .eq('inbox_item_id', item.id)
+    .eq('type', 'negative_review');
+  if (sentError) throw sentError;
+  const notified = new Set((sent ?? []).map((n: { recipient_id: string }) => n.recipient_id));
+
+  const { data: recipients, error: recipientsError } = await admin
+    .from('team_members')
+    .select('id')
+    .in('role', ['manager', 'admin'])
+    .eq('is_active', true);
+  if (recipientsError) throw recipientsError;
+
+  const pending = (recipients ?? []).filter((r: { id: string }) => !notified.has(r.id));
+  if (!pending.length) return;
+
+  const notifications = pending.map((r: { id: string }) => ({
+    recipient_id: r.id,
+    actor_id: null,
+    platform_id: item.platform_id,
+    inbox_item_id: item.id,
+    type: 'negative_review' as const,
+    is_read: false,
+  }));
+
+  const { error } = await admin.from('notifications').insert(notifications);
+  if (error) throw error;
+}
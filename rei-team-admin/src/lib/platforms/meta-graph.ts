@@ -0,0 +1,235 @@
+/**
+ * meta-graph.ts
+ * Minimal Facebook Graph API client shared by the Instagram and Facebook
+ * adapters.
+ *
+ * The base URL is read from META_GRAPH_API_URL so the adapters can be
+ * pointed at a local HTTP stub of the Graph endpoints; it defaults to the
+ * production host.  META_GRAPH_API_VERSION overrides the pinned API version.
+ */
+
+import { isAfter, type PlatformEngagement } from '@/src/lib/platforms/adapter';
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Config
+// ──────────────────────────────────────────────────────────────────────────────
+
+const DEFAULT_GRAPH_URL = 'https://graph.facebook.com';
+const DEFAULT_GRAPH_VERSION = 'v21.0';
+
+function graphVersion(): string {
+  return process.env.META_GRAPH_API_VERSION || DEFAULT_GRAPH_VERSION;
+}
+
+function graphBaseUrl(): string {
+  const base = (process.env.META_GRAPH_API_URL || DEFAULT_GRAPH_URL).replace(/\/+$/, '');
+  return `${base}/${graphVersion()}`;
+}
+
+/** OAuth endpoints for the Meta app (shared by the Instagram and Facebook adapters). */
+export const META_OAUTH = {
+  authorizeUrl: `https://www.facebook.com/${graphVersion()}/dialog/oauth`,
+  tokenUrl: `${graphBaseUrl()}/oauth/access_token`,
+  clientIdEnv: 'META_APP_ID',
+  clientSecretEnv: 'META_APP_SECRET',
+  scopeSeparator: ',',
+  pkce: false,
+} as const;
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Requests
+// ──────────────────────────────────────────────────────────────────────────────
+
+type GraphParams = Record<string, string | number | boolean | null | undefined>;
+
+interface GraphErrorBody {
+  error?: { message?: string; type?: string; code?: number; error_subcode?: number };
+}
+
+/**
+ * Issue a Graph API request and return the parsed JSON body.
+ *
+ * GET and DELETE params are sent on the query string; POST params are
+ * form-encoded, which is what the Graph API expects for publishing edges.
+ * The access token is always sent as a parameter.  Throws an Error carrying
+ * the Graph error message (and code, when present) for any non-2xx response.
+ */
+export async function graphRequest<T>(
+  method: 'GET' | 'POST' | 'DELETE',
+  path: string,
+  accessToken: string,
+  params: GraphParams = {}
+): Promise<T> {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value === null || value === undefined) continue;
+    search.set(key, String(value));
+  }
+  search.set('access_token', accessToken);
+
+  const url = `${graphBaseUrl()}/${path.replace(/^\/+/, '')}`;
+  const res =
+    method !== 'POST'
+      ? await fetch(`${url}?${search.toString()}`, { method })
+      : await fetch(url, {
+          method,
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+          body: search.toString(),
+        });
+
+  const text = await res.text();
+  let json: unknown = null;
+  try {
+    json = text ? JSON.parse(text) : null;
+  } catch {
+    json = null;
+  }
+
+  if (!res.ok) {
+    const err = (json as GraphErrorBody | null)?.error;
+    const detail = err?.message ?? (text.slice(0, 300) || res.statusText);
+    const code = err?.code != null ? ` (code ${err.code})` : '';
+    throw new Error(`Graph API ${method} ${path} failed: ${res.status} ${detail}${code}`);
+  }
+
+  return json as T;
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Account resolution (OAuth callback)
+// ──────────────────────────────────────────────────────────────────────────────
+
+export interface ManagedPage {
+  id: string;
+  name: string;
+  link?: string;
+  /** Page access token; does not expire when derived from a long-lived user token. */
+  access_token: string;
+  instagram_business_account?: { id: string; username?: string };
+}
+
+/**
+ * Swap a short-lived user token (about 1 hour) for a long-lived one (about 60
+ * days).  Server-only: reads the Meta app secret from the environment.
+ */
+export async function exchangeForLongLivedToken(
+  shortLivedToken: string
+): Promise<{ accessToken: string; expiresAt: string | null }> {
+  const clientId = process.env[META_OAUTH.clientIdEnv];
+  const clientSecret = process.env[META_OAUTH.clientSecretEnv];
+  if (!clientId || !clientSecret) {
+    throw new Error(`Missing ${META_OAUTH.clientIdEnv} / ${META_OAUTH.clientSecretEnv}`);
+  }
+
+  const res = await graphRequest<{ access_token: string; expires_in?: number }>(
+    'GET',
+    'oauth/access_token',
+    shortLivedToken,
+    {
+      grant_type: 'fb_exchange_token',
+      client_id: clientId,
+      client_secret: clientSecret,
+      fb_exchange_token: shortLivedToken,
+    }
+  );
+  return {
+    accessToken: res.access_token,
+    expiresAt: res.expires_in ? new Date(Date.now() + res.expires_in * 1000).toISOString() : null,
+  };
+}
+
+/** List the Facebook Pages the user token manages, with their Page tokens. */
+export async function fetchManagedPages(userToken: string): Promise<ManagedPage[]> {
+  const res = await graphRequest<{ data?: ManagedPage[] }>('GET', 'me/accounts', userToken, {
+    fields: 'id,name,link,access_token,instagram_business_account{id,username}',
+  });
+  return res.data ?? [];
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Messaging (Messenger and Instagram Direct share the Page conversations API)
+// ──────────────────────────────────────────────────────────────────────────────
+
+interface GraphConversations {
+  data?: Array<{
+    id: string;
+    messages?: {
+      data?: Array<{
+        id: string;
+        message?: string;
+        created_time?: string;
+        from?: { id: string; name?: string; username?: string };
+      }>;
+    };
+  }>;
+}
+
+/**
+ * Read recent direct messages sent to a Page (`messenger`) or to its linked
+ * Instagram account (`instagram`).  Messages sent by `ownId` — the Page or
+ * the Instagram account itself — are left out.
+ */
+export async function fetchConversationMessages(
+  pageId: string,
+  ownId: string,
+  token: string,
+  platform: 'messenger' | 'instagram',
+  since: string | null
+): Promise<PlatformEngagement[]> {
+  const res = await graphRequest<GraphConversations>('GET', `${pageId}/conversations`, token, {
+    platform,
+    fields: 'id,messages.limit(20){id,message,created_time,from}',
+    limit: 25,
+  });
+
+  const items: PlatformEngagement[] = [];
+  for (const conversation of res.data ?? []) {
+    for (const message of conversation.messages?.data ?? []) {
+      if (!message.from || message.from.id === ownId || !message.message) continue;
+      if (!isAfter(message.created_time, since)) continue;
+      items.push({
+        platformItemId: message.id,
+        type: 'dm',
+        authorName: message.from.name ?? message.from.username ?? message.from.id,
+        authorAvatarUrl: null,
+        authorPlatformId: message.from.id,
+        content: message.message,
+        platformPostId: null,
+        threadId: conversation.id,
+        receivedAt: message.created_time ?? new Date().toISOString(),
+      });
+    }
+  }
+  return items;
+}
+
+/** Send a direct message reply from a Page (also used for Instagram Direct). */
+export async function sendConversationMessage(
+  pageId: string,
+  token: string,
+  recipientId: string,
+  text: string
+): Promise<string> {
+  const res = await graphRequest<{ message_id: string }>('POST', `${pageId}/messages`, token, {
+    recipient: JSON.stringify({ id: recipientId }),
+    message: JSON.stringify({ text }),
+    messaging_type: 'RESPONSE',
+  });
+  return res.message_id;
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ──────────────────────────────────────────────────────────────────────────────
+
+const VIDEO_EXTENSIONS = ['.mp4', '.mov', '.m4v', '.webm'];
+
+/** Best-effort check whether a media URL points at a video file. */
+export function isVideoUrl(url: string): boolean {
+  const path = url.split('?')[0].toLowerCase();
+  return VIDEO_EXTENSIONS.some((ext) => path.endsWith(ext));
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,219 @@
+/**
+ * oauth.ts
+ * Server-side OAuth 2.0 authorization-code flow for social platform adapters.
+ *
+ * Used by the connect routes under /api/social-platforms/oauth/[platform] and
+ * by the token refresher (/api/cron/refresh-tokens); the token and authorize
+ * helpers also serve the Google Calendar connection for meetings, which is
+ * not a social platform (see OAuthClient).  Reads client secrets
+ * from the environment, so it must never be imported by client components.
+ *
+ * The in-flight authorization (state, PKCE verifier, initiating member) is
+ * kept in a short-lived, HMAC-signed httpOnly cookie scoped to the OAuth
+ * routes; the callback rejects a cookie with a bad signature and any response
+ * whose `state` does not match it.
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { OAuthTokenSet, PlatformAdapter } from '@/src/lib/platforms/adapter';
+
+/** What the authorize/token helpers need from a provider; every PlatformAdapter is one. */
+export type OAuthClient = Pick<PlatformAdapter, 'oauth'> & { config: { name: string } };
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Pending authorization cookie
+// ──────────────────────────────────────────────────────────────────────────────
+
+export const OAUTH_COOKIE_NAME = 'sm_oauth';
+export const OAUTH_COOKIE_PATH = '/api/social-platforms/oauth';
+export const OAUTH_COOKIE_MAX_AGE_SECONDS = 10 * 60;
+
+export interface PendingAuthorization {
+  platform: string;
+  state: string;
+  /** PKCE code verifier, when the adapter uses PKCE. */
+  codeVerifier: string | null;
+  /** team_members.id of the admin who started the flow. */
+  memberId: string;
+  createdAt: number;
+}
+
+/**
+ * Signing key for the cookie, derived from SOCIAL_TOKEN_ENCRYPTION_KEY: every
+ * flow using this cookie stores its tokens under that key, so it is always set.
+ */
+function cookieSigningKey(): Buffer {
+  const encoded = process.env.SOCIAL_TOKEN_ENCRYPTION_KEY;
+  if (!encoded) throw new Error('Missing SOCIAL_TOKEN_ENCRYPTION_KEY');
+  return createHmac('sha256', Buffer.from(encoded.trim(), 'base64')).update('oauth-pending-authorization').digest();
+}
+
+function signPayload(payload: string): Buffer {
+  return createHmac('sha256', cookieSigningKey()).update(payload).digest();
+}
+
+/** `<base64url JSON>.<base64url HMAC-SHA256>` */
+export function encodePendingAuthorization(pending: PendingAuthorization): string {
+  const payload = Buffer.from(JSON.stringify(pending)).toString('base64url');
+  return `${payload}.${signPayload(payload).toString('base64url')}`;
+}
+
+/** The pending authorization, or null when missing, tampered with or expired. */
+export function decodePendingAuthorization(value: string | undefined): PendingAuthorization | null {
+  if (!value) return null;
+  try {
+    const dot = value.lastIndexOf('.');
+    if (dot <= 0) return null;
+    const payload = value.slice(0, dot);
+    const signature = Buffer.from(value.slice(dot + 1), 'base64url');
+    const expected = signPayload(payload);
+    if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) return null;
+
+    const parsed = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as PendingAuthorization;
+    if (!parsed.state || !parsed.platform || !parsed.memberId) return null;
+    if (Date.now() - parsed.createdAt > OAUTH_COOKIE_MAX_AGE_SECONDS * 1000) return null;
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Authorization request
+// ──────────────────────────────────────────────────────────────────────────────
+
+export function randomState(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+/** Generate a PKCE verifier and its S256 challenge (RFC 7636). */
+export function createPkcePair(): { verifier: string; challenge: string } {
+  const verifier = randomBytes(48).toString('base64url');
+  const challenge = createHash('sha256').update(verifier).digest('base64url');
+  return { verifier, challenge };
+}
+
+/** Callback URL registered with each provider. */
+export function oauthRedirectUri(platform: string, requestOrigin: string): string {
+  const base = (process.env.APP_BASE_URL || requestOrigin).replace(/\/+$/, '');
+  return `${base}${OAUTH_COOKIE_PATH}/${platform}/callback`;
+}
+
+export function buildAuthorizeUrl(
+  adapter: OAuthClient,
+  opts: { state: string; redirectUri: string; codeChallenge: string | null }
+): string {
+  const { oauth } = adapter;
+  const { clientId } = clientCredentials(adapter);
+
+  const url = new URL(oauth.authorizeUrl);
+  url.searchParams.set(oauth.clientIdParam ?? 'client_id', clientId);
+  url.searchParams.set('redirect_uri', opts.redirectUri);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('scope', oauth.scopes.join(oauth.scopeSeparator ?? ' '));
+  url.searchParams.set('state', opts.state);
+  if (opts.codeChallenge) {
+    url.searchParams.set('code_challenge', opts.codeChallenge);
+    url.searchParams.set('code_challenge_method', 'S256');
+  }
+  for (const [key, value] of Object.entries(oauth.extraAuthorizeParams ?? {})) {
+    url.searchParams.set(key, value);
+  }
+  return url.toString();
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Token endpoint
+// ──────────────────────────────────────────────────────────────────────────────
+
+/** Exchange an authorization code for tokens. */
+export async function exchangeAuthorizationCode(
+  adapter: OAuthClient,
+  opts: { code: string; redirectUri: string; codeVerifier: string | null }
+): Promise<OAuthTokenSet> {
+  return tokenRequest(adapter, {
+    grant_type: 'authorization_code',
+    code: opts.code,
+    redirect_uri: opts.redirectUri,
+    ...(opts.codeVerifier ? { code_verifier: opts.codeVerifier } : {}),
+  });
+}
+
+/**
+ * Redeem a refresh token.  Providers that do not rotate refresh tokens omit
+ * one from the response, in which case the existing token is kept.
+ */
+export async function refreshAccessToken(
+  adapter: OAuthClient,
+  refreshToken: string
+): Promise<OAuthTokenSet> {
+  const tokens = await tokenRequest(adapter, {
+    grant_type: 'refresh_token',
+    refresh_token: refreshToken,
+  });
+  return { ...tokens, refreshToken: tokens.refreshToken ?? refreshToken };
+}
+
+interface TokenResponse {
+  access_token?: string;
+  refresh_token?: string;
+  expires_in?: number | string;
+  scope?: string;
+  error?: string | { message?: string };
+  error_description?: string;
+}
+
+async function tokenRequest(
+  adapter: OAuthClient,
+  params: Record<string, string>
+): Promise<OAuthTokenSet> {
+  const { oauth } = adapter;
+  const { clientId, clientSecret } = clientCredentials(adapter);
+
+  const body = new URLSearchParams(params);
+  body.set(oauth.clientIdParam ?? 'client_id', clientId);
+  body.set('client_secret', clientSecret);
+
+  const res = await fetch(oauth.tokenUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    },
+    body: body.toString(),
+  });
+
+  const text = await res.text();
+  let json: TokenResponse = {};
+  try {
+    json = text ? (JSON.parse(text) as TokenResponse) : {};
+  } catch {
+    json = {};
+  }
+
+  if (!res.ok || !json.access_token) {
+    const providerError =
+      json.error_description ??
+      (typeof json.error === 'string' ? json.error : json.error?.message) ??
+      (text.slice(0, 300) || res.statusText);
+    throw new Error(`${adapter.config.name} token request failed: ${res.status} ${providerError}`);
+  }
+
+  const expiresIn = json.expires_in != null ? Number(json.expires_in) : null;
+  return {
+    accessToken: json.access_token,
+    refreshToken: json.refresh_token ?? null,
+    expiresAt: expiresIn ? new Date(Date.now() + expiresIn * 1000).toISOString() : null,
+    scope: json.scope ?? null,
+  };
+}
+
+function clientCredentials(adapter: OAuthClient): { clientId: string; clientSecret: string } {
+  const { clientIdEnv, clientSecretEnv } = adapter.oauth;
+  const clientId = process.env[clientIdEnv];
+  const clientSecret = process.env[clientSecretEnv];
+  if (!clientId || !clientSecret) {
+    throw new Error(`Missing ${clientIdEnv} / ${clientSecretEnv}`);
+  }
+  return { clientId, clientSecret };
+}
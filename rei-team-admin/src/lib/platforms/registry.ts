@@ -0,0 +1,47 @@
+/**
+ * registry.ts
+ * The single list of social networks the Command Center supports.
+ *
+ * To add a network, write an adapter module under `adapters/` and append it
+ * to `PLATFORM_ADAPTERS`.  `PlatformName`, the settings cards, the Content
+ * Studio platform pickers and the cron dispatcher are all derived from this
+ * list; `social_platforms.platform_name` is plain text (migration 020), so no
+ * schema change is needed.
+ */
+
+import type { PlatformAdapter } from '@/src/lib/platforms/adapter';
+import { instagramAdapter } from '@/src/lib/platforms/adapters/instagram';
+import { facebookAdapter } from '@/src/lib/platforms/adapters/facebook';
+import { linkedinAdapter } from '@/src/lib/platforms/adapters/linkedin';
+import { tiktokAdapter } from '@/src/lib/platforms/adapters/tiktok';
+import { youtubeAdapter } from '@/src/lib/platforms/adapters/youtube';
+import { googleBusinessAdapter } from '@/src/lib/platforms/adapters/google-business';
+
+/** Registered adapters, in display order. */
+export const PLATFORM_ADAPTERS = [
+  instagramAdapter,
+  facebookAdapter,
+  linkedinAdapter,
+  tiktokAdapter,
+  youtubeAdapter,
+  googleBusinessAdapter,
+] as const;
+
+export type PlatformName = (typeof PLATFORM_ADAPTERS)[number]['name'];
+
+const ADAPTERS_BY_NAME = new Map<string, PlatformAdapter>(
+  PLATFORM_ADAPTERS.map((adapter) => [adapter.name, adapter])
+);
+
+/** Look up the adapter for a platform name, or null if none is registered. */
+export function getPlatformAdapter(name: string): PlatformAdapter | null {
+  return ADAPTERS_BY_NAME.get(name) ?? null;
+}
+
+export function isPlatformName(name: string): name is PlatformName {
+  return ADAPTERS_BY_NAME.has(name);
+}
+
+export function allPlatformNames(): PlatformName[] {
+  return PLATFORM_ADAPTERS.map((adapter) => adapter.name);
+}
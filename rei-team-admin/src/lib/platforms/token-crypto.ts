@@ -0,0 +1,189 @@
+/**
+ * token-crypto.ts
+ * Envelope encryption for OAuth tokens stored on `social_platforms` and
+ * `google_oauth_tokens`.
+ *
+ * Each token is encrypted with its own random data key (AES-256-GCM), and the
+ * data key is wrapped with the server-held key encryption key from
+ * SOCIAL_TOKEN_ENCRYPTION_KEY (32 bytes, base64).  Stored values look like
+ *
+ *   enc:v1:<key id>:<wrapped data key>:<iv>:<ciphertext>:<auth tag>
+ *
+ * Key rotation: set the new key in SOCIAL_TOKEN_ENCRYPTION_KEY, move the old
+ * one to SOCIAL_TOKEN_ENCRYPTION_KEY_PREVIOUS (comma-separated for several),
+ * then run POST /api/social-platforms/rotate-key, which re-wraps every row of
+ * both tables under the new key.  Once it reports no failures the previous key can be
+ * removed.
+ *
+ * Values without the `enc:` prefix are treated as legacy plaintext: they
+ * decrypt to themselves and are encrypted by the next rotation run.
+ *
+ * Server-only: reads key material from the environment.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import type { SocialPlatform } from '@/src/lib/types/social-media';
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Keys
+// ──────────────────────────────────────────────────────────────────────────────
+
+const PREFIX = 'enc';
+const VERSION = 'v1';
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const KEY_BYTES = 32;
+
+interface EncryptionKey {
+  id: string;
+  key: Buffer;
+}
+
+function parseKey(encoded: string, envName: string): EncryptionKey {
+  const key = Buffer.from(encoded.trim(), 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`${envName} must be ${KEY_BYTES} bytes, base64-encoded`);
+  }
+  // Short fingerprint so a stored value names the key that wrapped it.
+  const id = createHash('sha256').update(key).digest('hex').slice(0, 8);
+  return { id, key };
+}
+
+function currentKey(): EncryptionKey {
+  const encoded = process.env.SOCIAL_TOKEN_ENCRYPTION_KEY;
+  if (!encoded) throw new Error('Missing SOCIAL_TOKEN_ENCRYPTION_KEY');
+  return parseKey(encoded, 'SOCIAL_TOKEN_ENCRYPTION_KEY');
+}
+
+function keyById(id: string): EncryptionKey {
+  const candidates = [
+    currentKey(),
+    ...(process.env.SOCIAL_TOKEN_ENCRYPTION_KEY_PREVIOUS ?? '')
+      .split(',')
+      .filter((k) => k.trim())
+      .map((k) => parseKey(k, 'SOCIAL_TOKEN_ENCRYPTION_KEY_PREVIOUS')),
+  ];
+  const match = candidates.find((k) => k.id === id);
+  if (!match) throw new Error(`No encryption key configured for key id ${id}`);
+  return match;
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// AES-GCM primitives
+// ──────────────────────────────────────────────────────────────────────────────
+
+function seal(key: Buffer, plaintext: Buffer): { iv: Buffer; ciphertext: Buffer; tag: Buffer } {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, ciphertext, tag: cipher.getAuthTag() };
+}
+
+function open(key: Buffer, iv: Buffer, ciphertext: Buffer, tag: Buffer): Buffer {
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+function wrapDataKey(kek: Buffer, dataKey: Buffer): string {
+  const { iv, ciphertext, tag } = seal(kek, dataKey);
+  return Buffer.concat([iv, ciphertext, tag]).toString('base64url');
+}
+
+function unwrapDataKey(kek: Buffer, wrapped: string): Buffer {
+  const raw = Buffer.from(wrapped, 'base64url');
+  const iv = raw.subarray(0, IV_BYTES);
+  const tag = raw.subarray(raw.length - 16);
+  const ciphertext = raw.subarray(IV_BYTES, raw.length - 16);
+  return open(kek, iv, ciphertext, tag);
+}
+
+interface EncryptedToken {
+  keyId: string;
+  wrappedKey: string;
+  iv: string;
+  ciphertext: string;
+  tag: string;
+}
+
+function parseEncrypted(value: string): EncryptedToken {
+  const parts = value.split(':');
+  if (parts.length !== 7 || parts[0] !== PREFIX || parts[1] !== VERSION) {
+    throw new Error('Malformed encrypted token');
+  }
+  const [, , keyId, wrappedKey, iv, ciphertext, tag] = parts;
+  return { keyId, wrappedKey, iv, ciphertext, tag };
+}
+
+function formatEncrypted(token: EncryptedToken): string {
+  return [PREFIX, VERSION, token.keyId, token.wrappedKey, token.iv, token.ciphertext, token.tag].join(':');
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Public API
+// ──────────────────────────────────────────────────────────────────────────────
+
+export function isEncryptedToken(value: string): boolean {
+  return value.startsWith(`${PREFIX}:`);
+}
+
+/** Encrypt a token for storage.  Throws when no key is configured. */
+export function encryptToken(plaintext: string): string {
+  const kek = currentKey();
+  const dataKey = randomBytes(KEY_BYTES);
+  const { iv, ciphertext, tag } = seal(dataKey, Buffer.from(plaintext, 'utf8'));
+  return formatEncrypted({
+    keyId: kek.id,
+    wrappedKey: wrapDataKey(kek.key, dataKey),
+    iv: iv.toString('base64url'),
+    ciphertext: ciphertext.toString('base64url'),
+    tag: tag.toString('base64url'),
+  });
+}
+
+/** Decrypt a stored token.  Legacy plaintext values are returned unchanged. */
+export function decryptToken(stored: string): string {
+  if (!isEncryptedToken(stored)) return stored;
+  const token = parseEncrypted(stored);
+  const dataKey = unwrapDataKey(keyById(token.keyId).key, token.wrappedKey);
+  return open(
+    dataKey,
+    Buffer.from(token.iv, 'base64url'),
+    Buffer.from(token.ciphertext, 'base64url'),
+    Buffer.from(token.tag, 'base64url')
+  ).toString('utf8');
+}
+
+/**
+ * Re-wrap a stored token under the current key.  Only the data key is
+ * re-encrypted; legacy plaintext is encrypted from scratch.  Returns null when
+ * the value is already wrapped with the current key.
+ */
+export function rewrapToken(stored: string): string | null {
+  if (!isEncryptedToken(stored)) return encryptToken(stored);
+  const kek = currentKey();
+  const token = parseEncrypted(stored);
+  if (token.keyId === kek.id) return null;
+  const dataKey = unwrapDataKey(keyById(token.keyId).key, token.wrappedKey);
+  return formatEncrypted({ ...token, keyId: kek.id, wrappedKey: wrapDataKey(kek.key, dataKey) });
+}
+
+/** Encrypt the token columns of a `social_platforms` write. */
+export function encryptPlatformTokens(tokens: {
+  accessToken: string;
+  refreshToken: string | null;
+}): Pick<SocialPlatform, 'access_token' | 'refresh_token'> {
+  return {
+    access_token: encryptToken(tokens.accessToken),
+    refresh_token: tokens.refreshToken ? encryptToken(tokens.refreshToken) : null,
+  };
+}
+
+/** Return a copy of a `social_platforms` row with its tokens decrypted. */
+export function decryptPlatformRow(row: SocialPlatform): SocialPlatform {
+  return {
+    ...row,
+    access_token: row.access_token ? decryptToken(row.access_token) : row.access_token,
+    refresh_token: row.refresh_token ? decryptToken(row.refresh_token) : null,
+  };
+}
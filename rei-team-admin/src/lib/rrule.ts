@@ -0,0 +1,610 @@
+/**
+ * rrule.ts
+ * Dependency-free RFC 5545 recurrence rules, evaluated in an IANA timezone.
+ *
+ * Accepts either a bare rule (`FREQ=WEEKLY;BYDAY=MO,WE,FR;BYHOUR=9`) or
+ * iCalendar content lines:
+ *
+ *   RRULE:FREQ=WEEKLY;BYDAY=MO;BYHOUR=9;COUNT=10
+ *   EXDATE:20260302T090000,20260309T090000
+ *
+ * Supported parts: FREQ (YEARLY, MONTHLY, WEEKLY, DAILY, HOURLY), INTERVAL,
+ * COUNT, UNTIL, BYMONTH, BYMONTHDAY, BYDAY (with ordinals for MONTHLY /
+ * YEARLY), BYHOUR, BYMINUTE, BYSETPOS and WKST.  The start of the series
+ * (DTSTART) is supplied by the caller — for content schedules that is
+ * `scheduled_at` — and is only an occurrence when it matches the rule.
+ *
+ * Occurrences are generated as wall-clock times in the timezone and then
+ * converted to UTC, so "9:00 every Monday" stays 9:00 across DST changes.
+ * Wall times that do not exist (spring-forward gap) are shifted forward by
+ * the gap; ambiguous ones (fall-back) resolve to the first instance, as
+ * RFC 5545 §3.3.5 specifies.  UNTIL / EXDATE values without a trailing `Z`
+ * are read as wall-clock times in the same timezone.
+ *
+ * Safe to import from both client and server code.
+ */
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Types
+// ──────────────────────────────────────────────────────────────────────────────
+
+export type RRuleFrequency = 'YEARLY' | 'MONTHLY' | 'WEEKLY' | 'DAILY' | 'HOURLY';
+
+export interface RRuleWeekday {
+  /** 0 = Monday … 6 = Sunday (RFC 5545 order). */
+  weekday: number;
+  /** Ordinal within the month/year (e.g. 1, -1); null for "every". */
+  n: number | null;
+}
+
+export interface ParsedRRule {
+  freq: RRuleFrequency;
+  interval: number;
+  count: number | null;
+  /** Raw UNTIL value; resolved against the timezone when expanding. */
+  until: string | null;
+  byMonth: number[];
+  byMonthDay: number[];
+  byDay: RRuleWeekday[];
+  byHour: number[];
+  byMinute: number[];
+  bySetPos: number[];
+  wkst: number;
+  /** Raw EXDATE values. */
+  exdates: string[];
+}
+
+export class RRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RRuleError';
+  }
+}
+
+/** Wall-clock time in some timezone; months are 1-based. */
+interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Parsing
+// ──────────────────────────────────────────────────────────────────────────────
+
+const WEEKDAY_CODES = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+const FREQUENCIES: RRuleFrequency[] = ['YEARLY', 'MONTHLY', 'WEEKLY', 'DAILY', 'HOURLY'];
+
+/** True when `text` looks like an RRULE rather than a legacy interval string. */
+export function isRRule(text: string | null | undefined): boolean {
+  return !!text && /(^|[\s;:])FREQ=/i.test(text);
+}
+
+/** Parse an RRULE (optionally with RRULE:/EXDATE: lines).  Throws RRuleError. */
+export function parseRRule(text: string): ParsedRRule {
+  let ruleLine: string | null = null;
+  const exdates: string[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    const colon = line.indexOf(':');
+    const name = colon >= 0 ? line.slice(0, colon).split(';')[0].toUpperCase() : null;
+    if (name === 'RRULE') {
+      ruleLine = line.slice(colon + 1);
+    } else if (name === 'EXDATE') {
+      exdates.push(...line.slice(colon + 1).split(',').map((v) => v.trim()).filter(Boolean));
+    } else if (name === 'DTSTART') {
+      // The series start comes from the schedule row; ignore inline DTSTART.
+    } else if (!ruleLine && /FREQ=/i.test(line)) {
+      ruleLine = line;
+    } else {
+      throw new RRuleError(`Unrecognised recurrence line: ${line}`);
+    }
+  }
+
+  if (!ruleLine) throw new RRuleError('Missing FREQ');
+
+  const rule: ParsedRRule = {
+    freq: 'DAILY',
+    interval: 1,
+    count: null,
+    until: null,
+    byMonth: [],
+    byMonthDay: [],
+    byDay: [],
+    byHour: [],
+    byMinute: [],
+    bySetPos: [],
+    wkst: 0,
+    exdates,
+  };
+  let sawFreq = false;
+
+  for (const part of ruleLine.split(';')) {
+    if (!part.trim()) continue;
+    const [rawKey, rawValue = ''] = part.split('=');
+    const key = rawKey.trim().toUpperCase();
+    const value = rawValue.trim().toUpperCase();
+
+    switch (key) {
+      case 'FREQ':
+        if (!FREQUENCIES.includes(value as RRuleFrequency)) {
+          throw new RRuleError(`Unsupported FREQ: ${value}`);
+        }
+        rule.freq = value as RRuleFrequency;
+        sawFreq = true;
+        break;
+      case 'INTERVAL':
+        rule.interval = parseIntInRange(value, key, 1, 1000);
+        break;
+      case 'COUNT':
+        rule.count = parseIntInRange(value, key, 1, 100000);
+        break;
+      case 'UNTIL':
+        parseDateValue(value); // validate now, resolve later
+        rule.until = value;
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseIntList(value, key, 1, 12);
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseIntList(value, key, -31, 31, true);
+        break;
+      case 'BYDAY':
+        rule.byDay = value.split(',').map(parseWeekday);
+        break;
+      case 'BYHOUR':
+        rule.byHour = parseIntList(value, key, 0, 23);
+        break;
+      case 'BYMINUTE':
+        rule.byMinute = parseIntList(value, key, 0, 59);
+        break;
+      case 'BYSETPOS':
+        rule.bySetPos = parseIntList(value, key, -366, 366, true);
+        break;
+      case 'WKST':
+        rule.wkst = weekdayIndex(value);
+        break;
+      default:
+        throw new RRuleError(`Unsupported rule part: ${key}`);
+    }
+  }
+
+  if (!sawFreq) throw new RRuleError('Missing FREQ');
+  if (rule.count !== null && rule.until !== null) {
+    throw new RRuleError('COUNT and UNTIL cannot both be set');
+  }
+  if (rule.byDay.some((d) => d.n !== null) && rule.freq !== 'MONTHLY' && rule.freq !== 'YEARLY') {
+    throw new RRuleError('BYDAY ordinals are only valid with FREQ=MONTHLY or FREQ=YEARLY');
+  }
+  for (const exdate of exdates) parseDateValue(exdate);
+
+  return rule;
+}
+
+function parseIntInRange(value: string, key: string, min: number, max: number): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < min || n > max) {
+    throw new RRuleError(`Invalid ${key}: ${value}`);
+  }
+  return n;
+}
+
+function parseIntList(value: string, key: string, min: number, max: number, nonZero = false): number[] {
+  return value.split(',').map((v) => {
+    const n = parseIntInRange(v.trim(), key, min, max);
+    if (nonZero && n === 0) throw new RRuleError(`Invalid ${key}: 0`);
+    return n;
+  });
+}
+
+function weekdayIndex(code: string): number {
+  const idx = WEEKDAY_CODES.indexOf(code);
+  if (idx < 0) throw new RRuleError(`Invalid weekday: ${code}`);
+  return idx;
+}
+
+function parseWeekday(value: string): RRuleWeekday {
+  const match = value.trim().match(/^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/);
+  if (!match) throw new RRuleError(`Invalid BYDAY: ${value}`);
+  const n = match[1] ? Number(match[1]) : null;
+  if (n !== null && (n === 0 || Math.abs(n) > 53)) throw new RRuleError(`Invalid BYDAY: ${value}`);
+  return { weekday: weekdayIndex(match[2]), n };
+}
+
+interface DateValue {
+  wall: WallTime;
+  utc: boolean;
+  dateOnly: boolean;
+}
+
+/** Parse an iCalendar DATE / DATE-TIME (`20260301`, `20260301T090000[Z]`). */
+function parseDateValue(value: string): DateValue {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/i);
+  if (!match) throw new RRuleError(`Invalid date value: ${value}`);
+  const [, y, mo, d, h, mi, s, z] = match;
+  return {
+    wall: {
+      year: Number(y),
+      month: Number(mo),
+      day: Number(d),
+      hour: h ? Number(h) : 0,
+      minute: mi ? Number(mi) : 0,
+      second: s ? Number(s) : 0,
+    },
+    utc: !!z,
+    dateOnly: !h,
+  };
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Timezone conversion
+// ──────────────────────────────────────────────────────────────────────────────
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timezone: string): Intl.DateTimeFormat {
+  let fmt = formatterCache.get(timezone);
+  if (!fmt) {
+    try {
+      fmt = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+      });
+    } catch {
+      throw new RRuleError(`Unknown timezone: ${timezone}`);
+    }
+    formatterCache.set(timezone, fmt);
+  }
+  return fmt;
+}
+
+/** The wall-clock time in `timezone` at a UTC instant. */
+export function utcToWall(utcMs: number, timezone: string): WallTime {
+  const parts: Record<string, number> = {};
+  for (const p of formatterFor(timezone).formatToParts(new Date(utcMs))) {
+    if (p.type !== 'literal') parts[p.type] = Number(p.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+function wallAsUtcMs(w: WallTime): number {
+  return Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute, w.second);
+}
+
+/** UTC offset (ms) of `timezone` at a UTC instant. */
+function offsetAt(utcMs: number, timezone: string): number {
+  const truncated = utcMs - (((utcMs % 1000) + 1000) % 1000);
+  return wallAsUtcMs(utcToWall(truncated, timezone)) - truncated;
+}
+
+/** Resolve a wall-clock time in `timezone` to a UTC instant (see header for DST rules). */
+export function wallToUtc(w: WallTime, timezone: string): number {
+  const naive = wallAsUtcMs(w);
+  const DAY = 24 * 60 * 60 * 1000;
+  const before = naive - offsetAt(naive - DAY, timezone);
+  const after = naive - offsetAt(naive + DAY, timezone);
+  const matches = (t: number) => wallAsUtcMs(utcToWall(t, timezone)) === naive;
+
+  const candidates = [before, after].filter(matches);
+  if (candidates.length > 0) return Math.min(...candidates);
+  // Nonexistent wall time: interpret with the offset in effect before the gap.
+  return before;
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Calendar arithmetic (on floating dates)
+// ──────────────────────────────────────────────────────────────────────────────
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/** 0 = Monday … 6 = Sunday. */
+function weekdayOf(year: number, month: number, day: number): number {
+  return (new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7;
+}
+
+function addDaysTo(year: number, month: number, day: number, n: number): [number, number, number] {
+  const d = new Date(Date.UTC(year, month - 1, day + n));
+  return [d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate()];
+}
+
+type DayTuple = [number, number, number];
+
+/** Days of `month` matching BYDAY (ordinals counted within the month). */
+function byDayInRange(days: DayTuple[], byDay: RRuleWeekday[]): DayTuple[] {
+  const result = new Set<number>();
+  for (const { weekday, n } of byDay) {
+    const matching = days
+      .map((d, idx) => ({ d, idx }))
+      .filter(({ d }) => weekdayOf(d[0], d[1], d[2]) === weekday);
+    if (n === null) {
+      matching.forEach(({ idx }) => result.add(idx));
+    } else {
+      const pick = n > 0 ? matching[n - 1] : matching[matching.length + n];
+      if (pick) result.add(pick.idx);
+    }
+  }
+  return [...result].sort((a, b) => a - b).map((idx) => days[idx]);
+}
+
+function monthDays(year: number, month: number): DayTuple[] {
+  return Array.from({ length: daysInMonth(year, month) }, (_, i) => [year, month, i + 1] as DayTuple);
+}
+
+function matchesMonthDay(d: DayTuple, byMonthDay: number[]): boolean {
+  const dim = daysInMonth(d[0], d[1]);
+  return byMonthDay.some((md) => (md > 0 ? md : dim + md + 1) === d[2]);
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Expansion
+// ──────────────────────────────────────────────────────────────────────────────
+
+export interface RRuleExpandOptions {
+  /** Start of the series (first possible occurrence). */
+  dtstart: Date;
+  /** IANA timezone the rule is evaluated in. */
+  timezone: string;
+  /** Only return occurrences at or after this instant. */
+  from?: Date;
+  /** Only return occurrences at or before this instant. */
+  to?: Date;
+  /** Stop after this many returned occurrences. */
+  limit?: number;
+}
+
+/** Upper bound on generated periods so impossible rules cannot loop forever. */
+const MAX_PERIODS = 50000;
+
+/**
+ * Expand a rule into UTC occurrence instants, in ascending order.  Requires
+ * `to`, `limit`, COUNT or UNTIL to bound the result.  Throws RRuleError.
+ */
+export function expandRRule(rule: string | ParsedRRule, opts: RRuleExpandOptions): Date[] {
+  const parsed = typeof rule === 'string' ? parseRRule(rule) : rule;
+  const { timezone } = opts;
+  const startMs = opts.dtstart.getTime();
+  const fromMs = opts.from?.getTime() ?? -Infinity;
+  const toMs = opts.to?.getTime() ?? Infinity;
+  const limit = opts.limit ?? Infinity;
+  if (toMs === Infinity && limit === Infinity && parsed.count === null && parsed.until === null) {
+    throw new RRuleError('Unbounded expansion: pass `to` or `limit`');
+  }
+
+  const untilMs = parsed.until !== null ? resolveDateValue(parsed.until, timezone, true) : Infinity;
+  const exclusions = parsed.exdates.map((v) => ({ value: parseDateValue(v), raw: v }));
+  const excludedInstants = new Set(
+    exclusions.filter((e) => !e.value.dateOnly).map((e) => resolveDateValue(e.raw, timezone, false))
+  );
+  const excludedDates = new Set(
+    exclusions
+      .filter((e) => e.value.dateOnly)
+      .map((e) => `${e.value.wall.year}-${e.value.wall.month}-${e.value.wall.day}`)
+  );
+
+  const start = utcToWall(startMs, timezone);
+  const results: Date[] = [];
+  let counted = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    const candidates = periodCandidates(parsed, start, period);
+
+    for (const wall of candidates) {
+      const utcMs = wallToUtc(wall, timezone);
+      if (utcMs < startMs) continue;
+      if (utcMs > untilMs || utcMs > toMs) return results;
+
+      // COUNT includes excluded dates (RFC 5545 §3.8.5.1), so count first.
+      counted++;
+      if (parsed.count !== null && counted > parsed.count) return results;
+
+      const dateKey = `${wall.year}-${wall.month}-${wall.day}`;
+      if (excludedInstants.has(utcMs) || excludedDates.has(dateKey)) continue;
+      if (utcMs < fromMs) continue;
+
+      results.push(new Date(utcMs));
+      if (results.length >= limit) return results;
+    }
+  }
+
+  return results;
+}
+
+/** The first occurrence strictly after `after`, or null when the series has ended. */
+export function nextRRuleOccurrence(
+  rule: string | ParsedRRule,
+  dtstart: Date,
+  timezone: string,
+  after: Date
+): Date | null {
+  const [next] = expandRRule(rule, {
+    dtstart,
+    timezone,
+    from: new Date(after.getTime() + 1),
+    limit: 1,
+  });
+  return next ?? null;
+}
+
+function resolveDateValue(raw: string, timezone: string, endOfDay: boolean): number {
+  const { wall, utc, dateOnly } = parseDateValue(raw);
+  if (utc) return wallAsUtcMs(wall);
+  if (dateOnly && endOfDay) return wallToUtc({ ...wall, hour: 23, minute: 59, second: 59 }, timezone);
+  return wallToUtc(wall, timezone);
+}
+
+/** Sorted wall-clock candidates for the `period`-th interval after DTSTART. */
+function periodCandidates(rule: ParsedRRule, start: WallTime, period: number): WallTime[] {
+  const step = period * rule.interval;
+  let days: DayTuple[];
+  let hours = rule.byHour.length ? rule.byHour : [start.hour];
+
+  switch (rule.freq) {
+    case 'YEARLY': {
+      const year = start.year + step;
+      if (rule.byMonth.length === 0 && rule.byMonthDay.length === 0 && rule.byDay.length > 0) {
+        // e.g. FREQ=YEARLY;BYDAY=20MO — ordinals count within the year.
+        const yearDays = Array.from({ length: 12 }, (_, i) => monthDays(year, i + 1)).flat();
+        days = byDayInRange(yearDays, rule.byDay);
+      } else {
+        const months = rule.byMonth.length
+          ? rule.byMonth
+          : rule.byMonthDay.length || rule.byDay.length
+            ? Array.from({ length: 12 }, (_, i) => i + 1)
+            : [start.month];
+        days = months.flatMap((m) => dayCandidatesInMonth(rule, start, year, m));
+      }
+      break;
+    }
+    case 'MONTHLY': {
+      const total = start.month - 1 + step;
+      const year = start.year + Math.floor(total / 12);
+      const month = (total % 12) + 1;
+      days = rule.byMonth.length && !rule.byMonth.includes(month)
+        ? []
+        : dayCandidatesInMonth(rule, start, year, month);
+      break;
+    }
+    case 'WEEKLY': {
+      const offset = (weekdayOf(start.year, start.month, start.day) - rule.wkst + 7) % 7;
+      const weekStart = addDaysTo(start.year, start.month, start.day, step * 7 - offset);
+      const weekdays = rule.byDay.length
+        ? rule.byDay.map((d) => d.weekday)
+        : [weekdayOf(start.year, start.month, start.day)];
+      days = Array.from({ length: 7 }, (_, i) => addDaysTo(weekStart[0], weekStart[1], weekStart[2], i))
+        .filter((d) => weekdays.includes(weekdayOf(d[0], d[1], d[2])))
+        .filter((d) => !rule.byMonth.length || rule.byMonth.includes(d[1]));
+      break;
+    }
+    case 'DAILY': {
+      days = [addDaysTo(start.year, start.month, start.day, step)].filter((d) => dayPassesFilters(rule, d));
+      break;
+    }
+    case 'HOURLY': {
+      const shifted = new Date(Date.UTC(start.year, start.month - 1, start.day, start.hour + step));
+      const d: DayTuple = [shifted.getUTCFullYear(), shifted.getUTCMonth() + 1, shifted.getUTCDate()];
+      const hour = shifted.getUTCHours();
+      days = dayPassesFilters(rule, d) && (!rule.byHour.length || rule.byHour.includes(hour)) ? [d] : [];
+      hours = [hour];
+      break;
+    }
+  }
+
+  const minutes = rule.byMinute.length ? rule.byMinute : [start.minute];
+  const sortedHours = [...hours].sort((a, b) => a - b);
+  const sortedMinutes = [...minutes].sort((a, b) => a - b);
+
+  const candidates: WallTime[] = [];
+  for (const [year, month, day] of days) {
+    for (const hour of sortedHours) {
+      for (const minute of sortedMinutes) {
+        candidates.push({ year, month, day, hour, minute, second: start.second });
+      }
+    }
+  }
+
+  if (!rule.bySetPos.length) return candidates;
+  return rule.bySetPos
+    .map((pos) => (pos > 0 ? candidates[pos - 1] : candidates[candidates.length + pos]))
+    .filter((c): c is WallTime => !!c)
+    .sort((a, b) => wallAsUtcMs(a) - wallAsUtcMs(b));
+}
+
+function dayCandidatesInMonth(rule: ParsedRRule, start: WallTime, year: number, month: number): DayTuple[] {
+  const all = monthDays(year, month);
+  if (!rule.byMonthDay.length && !rule.byDay.length) {
+    return start.day <= all.length ? [[year, month, start.day]] : [];
+  }
+  let days = all;
+  if (rule.byMonthDay.length) days = days.filter((d) => matchesMonthDay(d, rule.byMonthDay));
+  if (rule.byDay.length) {
+    const byDay = byDayInRange(all, rule.byDay);
+    days = days.filter((d) => byDay.some((b) => b[2] === d[2]));
+  }
+  return days;
+}
+
+function dayPassesFilters(rule: ParsedRRule, d: DayTuple): boolean {
+  if (rule.byMonth.length && !rule.byMonth.includes(d[1])) return false;
+  if (rule.byMonthDay.length && !matchesMonthDay(d, rule.byMonthDay)) return false;
+  if (rule.byDay.length && !rule.byDay.some((b) => b.weekday === weekdayOf(d[0], d[1], d[2]))) return false;
+  return true;
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Display
+// ──────────────────────────────────────────────────────────────────────────────
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const FREQ_UNITS: Record<RRuleFrequency, string> = {
+  YEARLY: 'year',
+  MONTHLY: 'month',
+  WEEKLY: 'week',
+  DAILY: 'day',
+  HOURLY: 'hour',
+};
+
+function ordinal(n: number): string {
+  if (n === -1) return 'last';
+  if (n < 0) return `${ordinal(-n)} to last`;
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+  return `${n}${suffix}`;
+}
+
+/** Short human-readable label, e.g. "Weekly on Mon, Wed, Fri at 09:00". */
+export function describeRRule(text: string): string {
+  let rule: ParsedRRule;
+  try {
+    rule = parseRRule(text);
+  } catch {
+    return text;
+  }
+
+  const unit = FREQ_UNITS[rule.freq];
+  let label =
+    rule.interval === 1
+      ? rule.freq.charAt(0) + rule.freq.slice(1).toLowerCase()
+      : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.byDay.length) {
+    const days = rule.byDay.map((d) => (d.n ? `${ordinal(d.n)} ` : '') + WEEKDAY_LABELS[d.weekday]);
+    label += ` on ${days.join(', ')}`;
+  }
+  if (rule.byMonthDay.length) {
+    label += ` on day ${rule.byMonthDay.map((d) => (d > 0 ? d : ordinal(d))).join(', ')}`;
+  }
+  if (rule.byHour.length) {
+    const minute = rule.byMinute.length === 1 ? rule.byMinute[0] : 0;
+    label += ` at ${rule.byHour
+      .map((h) => `${String(h).padStart(2, '0')}:${String(minute).padStart(2, '0')}`)
+      .join(', ')}`;
+  }
+  if (rule.count !== null) label += `, ${rule.count} times`;
+  if (rule.until !== null) {
+    const { wall } = parseDateValue(rule.until);
+    label += `, until ${wall.year}-${String(wall.month).padStart(2, '0')}-${String(wall.day).padStart(2, '0')}`;
+  }
+  if (rule.exdates.length) {
+    label += ` (${rule.exdates.length} skipped)`;
+  }
+  return label;
+}
@@ -7,7 +7,8 @@
  */
 
 import { supabaseAdmin } from '@/src/lib/supabase/admin';
-import type { ContentScheduleWithPost } from '@/src/lib/types/social-media';
+import { expandRRule, isRRule, nextRRuleOccurrence } from '@/src/lib/rrule';
+import type { ContentSchedule, ContentScheduleWithPost, CronPostLog } from '@/src/lib/types/social-media';
 
 // ──────────────────────────────────────────────────────────────────────────────
 // Types
@@ -17,6 +18,32 @@ export interface ScheduledPostRow extends ContentScheduleWithPost {
   post: NonNullable<ContentScheduleWithPost['post']>;
 }
 
+/**
+ * Where one platform stands within a schedule run:
+ *
+ * - `due`        → never attempted, the last failure's backoff has elapsed, or
+ *                  the platform was still processing the last attempt
+ * - `waiting`    → last attempt failed; `nextRetryAt` is still in the future
+ * - `delivered`  → published successfully; never attempted again this run
+ * - `abandoned`  → failed `MAX_DELIVERY_ATTEMPTS` times
+ */
+export type DeliveryState = 'due' | 'waiting' | 'delivered' | 'abandoned';
+
+export interface PlatformDelivery {
+  platform: string;
+  state: DeliveryState;
+  /** Attempts finished so far in this run (a `processing` attempt is not finished). */
+  attempts: number;
+  platformPostId: string | null;
+  /** Set while the platform is still processing the last attempt; passed back to the adapter. */
+  pendingId: string | null;
+  lastError: string | null;
+  nextRetryAt: string | null;
+}
+
+/** Overall result of a run once every platform has been considered. */
+export type RunOutcome = 'published' | 'partially_published' | 'failed' | 'in_progress';
+
 // ──────────────────────────────────────────────────────────────────────────────
 // Queries
 // ──────────────────────────────────────────────────────────────────────────────
@@ -49,35 +76,198 @@ export async function queryDueScheduledPosts(asOf?: string): Promise<ScheduledPo
 }
 
 /**
- * Compute the next run timestamp for a schedule after a successful run.
+ * Derive per-platform delivery state for one schedule run from its
+ * `cron_post_log` attempts.  Only the latest attempt per platform matters.
  *
- * - `one_time`  → returns null (no future run)
- * - `recurring` → parses `recurrence_rule` as a simple interval string
- *   (e.g. "1h", "24h", "7d") and advances from `lastRunAt`.
- *   Falls back to null if the rule cannot be parsed or the end date has passed.
+ * @param runAt  The `next_run_at` value identifying the run.
+ * @param asOf   ISO timestamp used to decide whether a backoff has elapsed.
  */
-export function computeNextRunAt(
-  scheduleType: 'one_time' | 'recurring',
-  recurrenceRule: string | null,
-  recurrenceEndDate: string | null,
-  lastRunAt: string
-): string | null {
-  if (scheduleType === 'one_time') return null;
+export async function loadDeliveryState(
+  scheduleId: string,
+  runAt: string,
+  platforms: string[],
+  asOf: string
+): Promise<PlatformDelivery[]> {
+  const admin = supabaseAdmin();
 
-  if (!recurrenceRule) return null;
+  const { data, error } = await admin
+    .from('cron_post_log')
+    .select('platform, status, platform_post_id, error_message, attempt, next_retry_at, attempted_at')
+    .eq('schedule_id', scheduleId)
+    .eq('run_at', runAt)
+    .order('attempted_at', { ascending: true });
+
+  if (error) throw error;
 
-  const last = new Date(lastRunAt);
-  const intervalMs = parseRecurrenceRule(recurrenceRule);
-  if (!intervalMs) return null;
+  type AttemptRow = Pick<
+    CronPostLog,
+    'platform' | 'status' | 'platform_post_id' | 'error_message' | 'attempt' | 'next_retry_at' | 'attempted_at'
+  >;
+  const latest = new Map<string, AttemptRow>();
+  for (const attempt of (data ?? []) as AttemptRow[]) {
+    latest.set(attempt.platform, attempt);
+  }
+
+  return platforms.map((platform) => {
+    const last = latest.get(platform);
+    if (!last || last.status === 'skipped') {
+      return {
+        platform,
+        state: 'due',
+        attempts: last?.attempt ?? 0,
+        platformPostId: null,
+        pendingId: null,
+        lastError: null,
+        nextRetryAt: null,
+      };
+    }
+    if (last.status === 'processing') {
+      return {
+        platform,
+        state: deliveryStateFor(false, last.next_retry_at, asOf),
+        attempts: last.attempt - 1,
+        platformPostId: null,
+        pendingId: last.platform_post_id,
+        lastError: last.error_message,
+        nextRetryAt: last.next_retry_at,
+      };
+    }
+    return {
+      platform,
+      state: deliveryStateFor(last.status === 'success', last.next_retry_at, asOf),
+      attempts: last.attempt,
+      platformPostId: last.platform_post_id,
+      pendingId: null,
+      lastError: last.error_message,
+      nextRetryAt: last.next_retry_at,
+    };
+  });
+}
+
+/** State of a platform after an attempt with the given result. */
+export function deliveryStateFor(
+  succeeded: boolean,
+  nextRetryAt: string | null,
+  asOf: string
+): DeliveryState {
+  if (succeeded) return 'delivered';
+  if (!nextRetryAt) return 'abandoned';
+  return new Date(nextRetryAt) <= new Date(asOf) ? 'due' : 'waiting';
+}
+
+/**
+ * Summarise a run:
+ * - every platform delivered                      → `published`
+ * - nothing left to retry, some delivered          → `partially_published`
+ * - nothing left to retry, nothing delivered       → `failed`
+ * - any platform still due or waiting for backoff  → `in_progress`
+ */
+export function computeRunOutcome(deliveries: PlatformDelivery[]): RunOutcome {
+  if (deliveries.every((d) => d.state === 'delivered')) return 'published';
+  if (deliveries.some((d) => d.state === 'due' || d.state === 'waiting')) return 'in_progress';
+  return deliveries.some((d) => d.state === 'delivered') ? 'partially_published' : 'failed';
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Retry backoff
+// ──────────────────────────────────────────────────────────────────────────────
 
-  const next = new Date(last.getTime() + intervalMs);
+/** Attempts per platform per run before the platform is abandoned. */
+export const MAX_DELIVERY_ATTEMPTS = 6;
+
+const RETRY_BASE_MS = 5 * 60 * 1000;
+const RETRY_MAX_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * When a platform that just failed its `attempt`-th try may be retried:
+ * 5m, 10m, 20m, 40m, 80m after each successive failure (capped at 6h).
+ * Returns null once `MAX_DELIVERY_ATTEMPTS` have been made.
+ */
+export function computeRetryAt(attempt: number, failedAt: string): string | null {
+  if (attempt >= MAX_DELIVERY_ATTEMPTS) return null;
+  const delay = Math.min(RETRY_BASE_MS * 2 ** (attempt - 1), RETRY_MAX_MS);
+  return new Date(new Date(failedAt).getTime() + delay).toISOString();
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Recurrence
+// ──────────────────────────────────────────────────────────────────────────────
+
+/** The schedule columns that determine when it fires. */
+export type ScheduleTiming = Pick<
+  ContentSchedule,
+  'schedule_type' | 'recurrence_rule' | 'recurrence_end_date' | 'scheduled_at' | 'timezone'
+>;
+
+/**
+ * Compute the next run timestamp for a schedule once a run has completed.
+ *
+ * - `one_time`  → returns null (no future run)
+ * - `recurring` with an RFC 5545 RRULE → the first occurrence strictly after
+ *   `after`, evaluated in the schedule's `timezone` with `scheduled_at` as
+ *   DTSTART (see src/lib/rrule.ts)
+ * - `recurring` with a legacy interval string (e.g. "1h", "24h", "7d") →
+ *   advances from `after`
+ *
+ * Falls back to null if the rule cannot be parsed, the series has ended, or
+ * the next run would fall after `recurrence_end_date`.
+ */
+export function computeNextRunAt(schedule: ScheduleTiming, after: string): string | null {
+  if (schedule.schedule_type === 'one_time') return null;
+
+  const rule = schedule.recurrence_rule;
+  if (!rule) return null;
+
+  let next: Date | null;
+  if (isRRule(rule)) {
+    try {
+      next = nextRRuleOccurrence(
+        rule,
+        new Date(schedule.scheduled_at ?? after),
+        schedule.timezone,
+        new Date(after)
+      );
+    } catch {
+      return null;
+    }
+  } else {
+    const intervalMs = parseRecurrenceRule(rule);
+    next = intervalMs ? new Date(new Date(after).getTime() + intervalMs) : null;
+  }
+  if (!next) return null;
 
   // Don't schedule past the recurrence end date
-  if (recurrenceEndDate && next > new Date(recurrenceEndDate)) return null;
+  if (schedule.recurrence_end_date && next > new Date(schedule.recurrence_end_date)) return null;
 
   return next.toISOString();
 }
 
+/**
+ * Compute `next_run_at` for a newly created or edited schedule: the first
+ * RRULE occurrence at or after `notBefore` (default: `scheduled_at`, or `asOf`
+ * when unset), else `scheduled_at` itself.  Throws RRuleError for an invalid
+ * RRULE so callers can reject it.
+ */
+export function computeFirstRunAt(
+  schedule: ScheduleTiming,
+  asOf: string,
+  notBefore?: string
+): string | null {
+  const rule = schedule.recurrence_rule;
+  if (schedule.schedule_type === 'recurring' && rule && isRRule(rule)) {
+    const [first] = expandRRule(rule, {
+      dtstart: new Date(schedule.scheduled_at ?? asOf),
+      timezone: schedule.timezone,
+      from: notBefore ? new Date(notBefore) : undefined,
+      limit: 1,
+    });
+    if (!first) return null;
+    if (schedule.recurrence_end_date && first > new Date(schedule.recurrence_end_date)) return null;
+    return first.toISOString();
+  }
+  return schedule.scheduled_at;
+}
+
 /**
  * Parse simple interval strings such as:
  *   "30m"  → 30 minutes
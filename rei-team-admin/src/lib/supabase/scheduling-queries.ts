@@ -2,6 +2,7 @@
 // Uses the browser Supabase client; for server-side use, pass your own client.
 
 import { supabaseBrowser } from '@/src/lib/supabase/browser';
+import { expandRRule, isRRule } from '@/src/lib/rrule';
 import type {
   ContentSchedule,
   ContentScheduleWithPost,
@@ -132,9 +133,9 @@ export async function getCalendarEvents(
 
   if (activeOnly) query = query.eq('is_active', true);
 
-  // Date range filtering on scheduled_at
-  if (dateFrom) query = query.gte('scheduled_at', dateFrom);
-  if (dateTo) query = query.lte('scheduled_at', dateTo + 'T23:59:59.999Z');
+  // Date range filtering on scheduled_at (recurring schedules are expanded below)
+  const rangeFilter = calendarRangeFilter(dateFrom, dateTo);
+  if (rangeFilter) query = query.or(rangeFilter);
 
   if (scheduleType) query = query.eq('schedule_type', scheduleType);
 
@@ -171,16 +172,90 @@ export async function getCalendarEvents(
       timezone: row.timezone,
       is_active: row.is_active,
       next_run_at: row.next_run_at,
+      occurrence_at: row.scheduled_at,
     });
   }
 
-  return events;
+  return expandCalendarEvents(events, dateFrom, dateTo);
 }
 
 // ============================================================
 // CRON / RECURRENCE UTILITIES
 // ============================================================
 
+/**
+ * PostgREST `or` filter limiting one-time schedules to the date range while
+ * always including recurring ones, whose occurrences may fall inside it
+ * regardless of `scheduled_at`.  Returns null when no bounds are given.
+ */
+export function calendarRangeFilter(dateFrom?: string | null, dateTo?: string | null): string | null {
+  const bounds: string[] = [];
+  if (dateFrom) bounds.push(`scheduled_at.gte."${dateFrom}"`);
+  if (dateTo) bounds.push(`scheduled_at.lte."${dateTo}T23:59:59.999Z"`);
+  if (bounds.length === 0) return null;
+  return `schedule_type.eq.recurring,and(${bounds.join(',')})`;
+}
+
+/** Most occurrences emitted for a single schedule in one calendar range. */
+const MAX_OCCURRENCES_PER_EVENT = 500;
+
+/**
+ * Expand recurring RRULE schedules into one event per occurrence within the
+ * date range, evaluated in each schedule's timezone.  Only upcoming runs are
+ * shown — from the pending `next_run_at` (even if overdue) or now — since past
+ * runs are not replayed.  Other events are kept when their `scheduled_at`
+ * falls inside the range.
+ */
+export function expandCalendarEvents(
+  events: CalendarEvent[],
+  dateFrom?: string | null,
+  dateTo?: string | null,
+  now: Date = new Date()
+): CalendarEvent[] {
+  const rangeStart = dateFrom ? new Date(dateFrom) : null;
+  const rangeEnd = dateTo ? new Date(dateTo + 'T23:59:59.999Z') : null;
+  const inRange = (iso: string | null) =>
+    !!iso && (!rangeStart || new Date(iso) >= rangeStart) && (!rangeEnd || new Date(iso) <= rangeEnd);
+
+  const expanded: CalendarEvent[] = [];
+  for (const ev of events) {
+    const dtstart = ev.scheduled_at ?? ev.next_run_at;
+    if (ev.schedule_type !== 'recurring' || !isRRule(ev.recurrence_rule) || !dtstart || !ev.is_active) {
+      if (!rangeStart && !rangeEnd) expanded.push(ev);
+      else if (inRange(ev.occurrence_at)) expanded.push(ev);
+      continue;
+    }
+
+    const upcoming = ev.next_run_at && new Date(ev.next_run_at) < now ? new Date(ev.next_run_at) : now;
+    const from = rangeStart && rangeStart > upcoming ? rangeStart : upcoming;
+    let to = rangeEnd;
+    if (ev.recurrence_end_date) {
+      const end = new Date(ev.recurrence_end_date);
+      if (!to || end < to) to = end;
+    }
+
+    try {
+      const occurrences = expandRRule(ev.recurrence_rule!, {
+        dtstart: new Date(dtstart),
+        timezone: ev.timezone,
+        from,
+        to: to ?? undefined,
+        limit: MAX_OCCURRENCES_PER_EVENT,
+      });
+      for (const at of occurrences) {
+        expanded.push({ ...ev, occurrence_at: at.toISOString() });
+      }
+    } catch {
+      // Unparseable rule or timezone: show the schedule once, as before.
+      if (inRange(ev.occurrence_at)) expanded.push(ev);
+    }
+  }
+
+  return expanded.sort(
+    (a, b) => (a.occurrence_at ?? '').localeCompare(b.occurrence_at ?? '')
+  );
+}
+
 /**
  * Very lightweight human-readable label for a cron expression.
  * Supports common patterns; falls back to showing the raw expression.
@@ -26,3 +26,20 @@ export async function supabaseServer() {
     },
   });
 }
+
+/** The signed-in user's active team member ID, or null without a session or membership. */
+export async function currentTeamMemberId(): Promise<string | null> {
+  const db = await supabaseServer();
+  const {
+    data: { user },
+  } = await db.auth.getUser();
+  if (!user) return null;
+
+  const { data } = await db
+    .from("team_members")
+    .select("id")
+    .eq("user_id", user.id)
+    .eq("is_active", true)
+    .maybeSingle();
+  return data?.id ?? null;
+}
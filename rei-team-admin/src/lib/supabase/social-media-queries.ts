@@ -4,7 +4,7 @@
 import { supabaseBrowser } from '@/src/lib/supabase/browser';
 import type {
   TeamMember,
-  SocialPlatform,
+  SocialPlatformSummary,
   BrandVoice,
   ContentType,
   ContentPost,
@@ -12,11 +12,11 @@ import type {
   ContentApproval,
   AnalyticsSnapshot,
   EngagementInboxItem,
+  EngagementInboxItemWithPlatform,
   EngagementReply,
   AiGenerationHistory,
   NewsletterSource,
   NewTeamMember,
-  NewSocialPlatform,
   NewBrandVoice,
   NewContentType,
   NewContentPost,
@@ -35,6 +35,7 @@ import type {
   UpdateContentSchedule,
   UpdateContentApproval,
   UpdateEngagementInboxItem,
+  InboxFilter,
   PostStatus,
   TeamRole,
   PlatformName,
@@ -119,47 +120,44 @@ export async function hasRole(role: TeamRole): Promise<boolean> {
 // SOCIAL PLATFORMS
 // ============================================================
 
+/**
+ * Columns the browser may select on social_platforms (migration 022 revokes
+ * the token columns from `authenticated`).  Connecting and disconnecting go
+ * through the /api/social-platforms routes so tokens never reach the client.
+ */
+export const SOCIAL_PLATFORM_SUMMARY_COLUMNS =
+  'id, platform_name, account_name, account_id, token_expires_at, is_connected, platform_url, metadata, connected_by, created_at, updated_at, has_refresh_token';
+
 export async function getSocialPlatforms() {
   const db = supabaseBrowser();
   const { data, error } = await db
     .from('social_platforms')
-    .select('*')
+    .select(SOCIAL_PLATFORM_SUMMARY_COLUMNS)
     .order('platform_name');
   if (error) throw error;
-  return data as SocialPlatform[];
+  return data as SocialPlatformSummary[];
 }
 
 export async function getConnectedPlatforms() {
   const db = supabaseBrowser();
   const { data, error } = await db
     .from('social_platforms')
-    .select('*')
+    .select(SOCIAL_PLATFORM_SUMMARY_COLUMNS)
     .eq('is_connected', true)
     .order('platform_name');
   if (error) throw error;
-  return data as SocialPlatform[];
+  return data as SocialPlatformSummary[];
 }
 
 export async function getPlatformByName(name: PlatformName) {
   const db = supabaseBrowser();
   const { data, error } = await db
     .from('social_platforms')
-    .select('*')
+    .select(SOCIAL_PLATFORM_SUMMARY_COLUMNS)
     .eq('platform_name', name)
     .single();
   if (error) throw error;
-  return data as SocialPlatform;
-}
-
-export async function createSocialPlatform(platform: NewSocialPlatform) {
-  const db = supabaseBrowser();
-  const { data, error } = await db
-    .from('social_platforms')
-    .insert(platform)
-    .select()
-    .single();
-  if (error) throw error;
-  return data as SocialPlatform;
+  return data as SocialPlatformSummary;
 }
 
 export async function updateSocialPlatform(id: string, updates: UpdateSocialPlatform) {
@@ -168,10 +166,10 @@ export async function updateSocialPlatform(id: string, updates: UpdateSocialPlat
     .from('social_platforms')
     .update({ ...updates, updated_at: new Date().toISOString() })
     .eq('id', id)
-    .select()
+    .select(SOCIAL_PLATFORM_SUMMARY_COLUMNS)
     .single();
   if (error) throw error;
-  return data as SocialPlatform;
+  return data as SocialPlatformSummary;
 }
 
 // ============================================================
@@ -476,24 +474,29 @@ export async function createAnalyticsSnapshot(snapshot: NewAnalyticsSnapshot) {
 // ENGAGEMENT INBOX
 // ============================================================
 
-export async function getEngagementInbox(platformId?: string, unreadOnly = false) {
+/** Fetch inbox items (newest first) with their platform and linked post. */
+export async function getEngagementInbox(filter: InboxFilter = {}) {
   const db = supabaseBrowser();
   let query = db
     .from('engagement_inbox')
-    .select('*')
+    .select(
+      `*, platform:social_platforms(${SOCIAL_PLATFORM_SUMMARY_COLUMNS}), post:content_posts(id, title, body)`
+    )
     .order('received_at', { ascending: false });
-  if (platformId) query = query.eq('platform_id', platformId);
-  if (unreadOnly) query = query.eq('is_read', false);
+  if (filter.platformId) query = query.eq('platform_id', filter.platformId);
+  if (filter.type) query = query.eq('type', filter.type);
+  if (filter.sentiment) query = query.eq('sentiment', filter.sentiment);
+  if (filter.unreadOnly) query = query.eq('is_read', false);
   const { data, error } = await query;
   if (error) throw error;
-  return data as EngagementInboxItem[];
+  return data as unknown as EngagementInboxItemWithPlatform[];
 }
 
-export async function markInboxItemRead(id: string) {
+export async function markInboxItemRead(id: string, isRead = true) {
   const db = supabaseBrowser();
   const { data, error } = await db
     .from('engagement_inbox')
-    .update({ is_read: true } as UpdateEngagementInboxItem)
+    .update({ is_read: isRead } as UpdateEngagementInboxItem)
     .eq('id', id)
     .select()
     .single();
@@ -501,6 +504,17 @@ export async function markInboxItemRead(id: string) {
   return data as EngagementInboxItem;
 }
 
+/** Mark several items read at once (e.g. when a thread is opened). */
+export async function markInboxItemsRead(ids: string[]) {
+  if (ids.length === 0) return;
+  const db = supabaseBrowser();
+  const { error } = await db
+    .from('engagement_inbox')
+    .update({ is_read: true } as UpdateEngagementInboxItem)
+    .in('id', ids);
+  if (error) throw error;
+}
+
 export async function createEngagementInboxItem(item: NewEngagementInboxItem) {
   const db = supabaseBrowser();
   const { data, error } = await db
@@ -527,6 +541,18 @@ export async function getRepliesForInboxItem(inboxItemId: string) {
   return data as EngagementReply[];
 }
 
+export async function getRepliesForInboxItems(inboxItemIds: string[]) {
+  if (inboxItemIds.length === 0) return [];
+  const db = supabaseBrowser();
+  const { data, error } = await db
+    .from('engagement_replies')
+    .select('*')
+    .in('inbox_item_id', inboxItemIds)
+    .order('sent_at', { ascending: true });
+  if (error) throw error;
+  return data as EngagementReply[];
+}
+
 export async function createEngagementReply(reply: NewEngagementReply) {
   const db = supabaseBrowser();
   const { data, error } = await db
@@ -1,19 +1,16 @@
 // TypeScript types for the REI Social Media Command Center
 // Mirrors the Supabase database schema defined in 017_social_media_command_center.sql
 
+import type { PlatformName } from '@/src/lib/platforms/registry';
+
 // ============================================================
 // ENUMS
 // ============================================================
 
 export type TeamRole = 'creator' | 'manager' | 'admin';
 
-export type PlatformName =
-  | 'instagram'
-  | 'facebook'
-  | 'linkedin'
-  | 'tiktok'
-  | 'youtube'
-  | 'google_business';
+// Derived from the adapter registry; social_platforms.platform_name is text.
+export type { PlatformName };
 
 export type PostStatus =
   | 'draft'
@@ -21,6 +18,7 @@ export type PostStatus =
   | 'approved'
   | 'scheduled'
   | 'published'
+  | 'partially_published'
   | 'rejected'
   | 'archived';
 
@@ -34,6 +32,8 @@ export type EngagementType = 'comment' | 'dm' | 'mention' | 'review';
 
 export type SentimentType = 'positive' | 'neutral' | 'negative';
 
+export type CronPostLogStatus = 'success' | 'failed' | 'skipped' | 'processing';
+
 // ============================================================
 // TABLE ROW TYPES
 // ============================================================
@@ -50,6 +50,11 @@ export interface TeamMember {
   updated_at: string;
 }
 
+/**
+ * Full `social_platforms` row.  `access_token` / `refresh_token` hold
+ * encrypted values (see src/lib/platforms/token-crypto.ts) and are only
+ * readable with the service role — browser code gets `SocialPlatformSummary`.
+ */
 export interface SocialPlatform {
   id: string;
   platform_name: PlatformName;
@@ -61,11 +66,18 @@ export interface SocialPlatform {
   is_connected: boolean;
   platform_url: string;
   metadata: Record<string, unknown> | null;
+  /** Start of the last successful inbox sync; the next one reads from here. */
+  inbox_synced_at: string | null;
   connected_by: string | null;
   created_at: string;
   updated_at: string;
 }
 
+/** Redacted `social_platforms` row — the only shape the browser can select. */
+export type SocialPlatformSummary = Omit<SocialPlatform, 'access_token' | 'refresh_token' | 'inbox_synced_at'> & {
+  has_refresh_token: boolean;
+};
+
 export interface BrandVoice {
   id: string;
   name: string;
@@ -166,6 +178,10 @@ export interface EngagementInboxItem {
   author_platform_id: string;
   content: string;
   parent_post_id: string | null;
+  /** Platform ID of the post the item was left on (comments). */
+  platform_post_id: string | null;
+  /** Platform conversation ID (DMs). */
+  platform_thread_id: string | null;
   sentiment: SentimentType | null;
   is_read: boolean;
   is_replied: boolean;
@@ -189,14 +205,38 @@ export interface AiGenerationHistory {
   prompt: string;
   response: string;
   model_used: string;
+  /** `openai` | `anthropic` (027). */
+  provider: string | null;
   content_type: string | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
   tokens_used: number | null;
+  /** USD, priced per model from src/lib/ai/models.ts. */
   cost_estimate: number | null;
-  generated_by: string;
+  /** Null for background jobs. */
+  generated_by: string | null;
   post_id: string | null;
   created_at: string;
 }
 
+/** One platform attempt by the cron publisher (019_cron_post_log.sql, 023). */
+export interface CronPostLog {
+  id: string;
+  schedule_id: string | null;
+  post_id: string | null;
+  platform: string;
+  status: CronPostLogStatus;
+  platform_post_id: string | null;
+  error_message: string | null;
+  attempted_at: string;
+  /** The schedule occurrence (`next_run_at`) this attempt belongs to. */
+  run_at: string | null;
+  /** 1-based attempt number for this platform within the run. */
+  attempt: number;
+  /** When a failed attempt may be retried; null once retries are exhausted. */
+  next_retry_at: string | null;
+}
+
 export interface NewsletterSource {
   id: string;
   name: string;
@@ -228,7 +268,7 @@ export type NewNewsletterSource = Omit<NewsletterSource, 'id' | 'created_at'>;
 // ============================================================
 
 export type UpdateTeamMember = Partial<NewTeamMember>;
-export type UpdateSocialPlatform = Partial<NewSocialPlatform>;
+export type UpdateSocialPlatform = Partial<Pick<SocialPlatform, 'account_name' | 'platform_url'>>;
 export type UpdateBrandVoice = Partial<NewBrandVoice>;
 export type UpdateContentType = Partial<NewContentType>;
 export type UpdateContentPost = Partial<NewContentPost>;
@@ -247,7 +287,9 @@ export interface ContentPostWithRelations extends ContentPost {
 }
 
 export interface EngagementInboxItemWithPlatform extends EngagementInboxItem {
-  platform?: SocialPlatform | null;
+  platform?: SocialPlatformSummary | null;
+  /** Our post the item responds to (via `parent_post_id`). */
+  post?: Pick<ContentPost, 'id' | 'title' | 'body'> | null;
   replies?: EngagementReply[];
 }
 
@@ -275,6 +317,19 @@ export interface CalendarEvent {
   timezone: string;
   is_active: boolean;
   next_run_at: string | null;
+  /**
+   * When this entry fires.  Recurring RRULE schedules are expanded into one
+   * event per upcoming occurrence; otherwise equal to `scheduled_at`.
+   */
+  occurrence_at: string | null;
+}
+
+/** Filter state used by the engagement inbox. */
+export interface InboxFilter {
+  platformId?: string;
+  type?: EngagementType;
+  sentiment?: SentimentType;
+  unreadOnly?: boolean;
 }
 
 /** Filter state used by the calendar view. */
@@ -283,3 +338,60 @@ export interface CalendarFilter {
   statuses: PostStatus[];
   scheduleType: ScheduleType | '';
 }
+
+// ============================================================
+// ANALYTICS REPORT TYPES
+// ============================================================
+
+/** Totals of all tracked posts on one snapshot day. */
+export interface AnalyticsTrendPoint {
+  date: string;
+  impressions: number;
+  reach: number;
+  engagements: number;
+  /** Engagements / reach (falls back to impressions), as a fraction. */
+  engagement_rate: number | null;
+}
+
+/** A post's latest snapshot, flattened for the top-posts table. */
+export interface AnalyticsPostPerformance {
+  post_id: string | null;
+  platform: string;
+  platform_post_id: string;
+  title: string | null;
+  body: string | null;
+  impressions: number;
+  reach: number;
+  engagements: number;
+  engagement_rate: number | null;
+  snapshot_date: string;
+}
+
+/** Performance of the posts sharing one content type or brand voice. */
+export interface AnalyticsBreakdownRow {
+  key: string;
+  label: string;
+  posts: number;
+  impressions: number;
+  reach: number;
+  engagements: number;
+  engagement_rate: number | null;
+}
+
+/** Daily follower counts for one platform. */
+export interface AnalyticsFollowerSeries {
+  platform: string;
+  points: Array<{ date: string; followers: number }>;
+}
+
+/** Response of GET /api/analytics. */
+export interface AnalyticsReport {
+  date_from: string;
+  date_to: string;
+  totals: AnalyticsTrendPoint | null;
+  trend: AnalyticsTrendPoint[];
+  top_posts: AnalyticsPostPerformance[];
+  by_content_type: AnalyticsBreakdownRow[];
+  by_brand_voice: AnalyticsBreakdownRow[];
+  followers: AnalyticsFollowerSeries[];
+}
@@ -2,14 +2,23 @@
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import OpenAI from "https://esm.sh/openai@4";
+import {
+  DEFAULT_CHUNK_OPTIONS,
+  runMeetingPipeline,
+  type MeetingPipelinePorts,
+} from "../../../src/lib/meetings/pipeline.ts";
+import { estimateCost, getAiModel } from "../../../src/lib/ai/models.ts";
 
 const DEFAULT_SUMMARY_MODEL = Deno.env.get("OPENAI_SUMMARY_MODEL") || "gpt-4o-mini";
 const DEFAULT_TRANSCRIBE_MODEL = Deno.env.get("OPENAI_TRANSCRIBE_MODEL") || "gpt-4o-mini-transcribe";
+const SUMMARY_MAX_TOKENS = 8192;
 
 // These are kept conservative to avoid token/timeout blowups on long meetings.
 // They can be overridden via env without code changes.
-const TRANSCRIPT_CHUNK_CHARS = Math.max(2000, Number(Deno.env.get("TRANSCRIPT_CHUNK_CHARS") || "12000"));
-const MAX_CHUNKS = Math.max(1, Number(Deno.env.get("TRANSCRIPT_MAX_CHUNKS") || "10"));
+const CHUNK_OPTIONS = {
+  chunkChars: Math.max(2000, Number(Deno.env.get("TRANSCRIPT_CHUNK_CHARS") || DEFAULT_CHUNK_OPTIONS.chunkChars)),
+  maxChunks: Math.max(1, Number(Deno.env.get("TRANSCRIPT_MAX_CHUNKS") || DEFAULT_CHUNK_OPTIONS.maxChunks)),
+};
 
 function requireEnv(name: string): string {
   const v = Deno.env.get(name);
@@ -42,118 +51,171 @@ async function json(req: Request) {
   }
 }
 
-function splitTranscript(text: string): string[] {
-  const t = (text || "").trim();
-  if (!t) return [];
-
-  // Prefer splitting on paragraph boundaries for cleaner chunk semantics.
-  const paras = t.replace(/\r\n/g, "\n").split("\n\n");
-  const chunks: string[] = [];
-  let cur = "";
-  for (const p of paras) {
-    const next = cur ? cur + "\n\n" + p : p;
-    if (next.length <= TRANSCRIPT_CHUNK_CHARS) {
-      cur = next;
-      continue;
-    }
-    if (cur) chunks.push(cur);
-    cur = p;
-    if (chunks.length >= MAX_CHUNKS) break;
-  }
-  if (cur && chunks.length < MAX_CHUNKS) chunks.push(cur);
-
-  // Fallback if we ended up with a single enormous paragraph.
-  if (chunks.length === 1 && chunks[0]!.length > TRANSCRIPT_CHUNK_CHARS) {
-    const s = chunks[0]!;
-    const out: string[] = [];
-    for (let i = 0; i < s.length && out.length < MAX_CHUNKS; i += TRANSCRIPT_CHUNK_CHARS) {
-      out.push(s.slice(i, i + TRANSCRIPT_CHUNK_CHARS));
-    }
-    return out;
+/**
+ * Same ai_generation_history row as logGeneration in src/lib/ai/client.ts,
+ * priced from the shared model catalog.  Best-effort.
+ */
+async function logGeneration(
+  sb: any,
+  modelId: string,
+  usage: { inputTokens: number; outputTokens: number },
+  entry: { prompt: string; response: string; contentType: string }
+) {
+  const model = getAiModel(modelId);
+  try {
+    await sb.from("ai_generation_history").insert({
+      prompt: entry.prompt,
+      response: entry.response,
+      model_used: model?.id ?? modelId,
+      provider: model?.provider ?? "openai",
+      content_type: entry.contentType,
+      input_tokens: usage.inputTokens,
+      output_tokens: usage.outputTokens,
+      tokens_used: usage.inputTokens + usage.outputTokens,
+      cost_estimate: model ? estimateCost(model, usage) : null,
+      generated_by: null,
+    });
+  } catch (e) {
+    console.error("Failed to log AI generation:", e);
   }
-
-  return chunks;
-}
-
-function mergeNote(a: string, b: string): string {
-  const left = (a || "").trim();
-  const right = (b || "").trim();
-  if (!left) return right;
-  if (!right) return left;
-  if (left.includes(right)) return left;
-  if (right.includes(left)) return right;
-  return left + "\n" + right;
 }
 
-async function summarizeChunk(opts: {
+/** Deno ports for the shared meeting pipeline (src/lib/meetings/pipeline.ts). */
+function pipelinePorts(opts: {
+  sb: any;
   client: OpenAI;
-  agendaList: string;
-  transcriptChunk: string;
-}) {
-  const schema = {
-    name: "AgendaNotes",
-    schema: {
-      type: "object",
-      additionalProperties: false,
-      properties: {
-        agenda: {
-          type: "array",
-          items: {
-            type: "object",
-            additionalProperties: false,
-            properties: {
-              agenda_item_id: { type: "string" },
-              notes: { type: "string" },
-            },
-            required: ["agenda_item_id", "notes"],
-          },
+  recordingsBucket: string;
+  sessionId: string;
+  meetingId: string;
+}): MeetingPipelinePorts {
+  const { sb, client } = opts;
+  return {
+    async loadAgenda() {
+      const res = await sb
+        .from("meeting_agenda_items")
+        .select("id,code,title,description,position")
+        .eq("meeting_id", opts.meetingId)
+        .order("position", { ascending: true });
+      if (res.error) throw res.error;
+      return (res.data ?? []).map((a: any) => ({
+        id: String(a.id),
+        code: a.code ? String(a.code) : null,
+        title: String(a.title ?? ""),
+        description: a.description ? String(a.description) : null,
+      }));
+    },
+
+    async loadContext() {
+      const [meetingRes, attendeesRes] = await Promise.all([
+        sb.from("meetings").select("title,start_at").eq("id", opts.meetingId).single(),
+        sb.from("meeting_attendees").select("email,full_name").eq("meeting_id", opts.meetingId),
+      ]);
+      return {
+        title: meetingRes.data?.title ?? "Meeting",
+        date: meetingRes.data?.start_at
+          ? new Date(meetingRes.data.start_at).toLocaleDateString("en-US", {
+              weekday: "long",
+              year: "numeric",
+              month: "long",
+              day: "numeric",
+            })
+          : "Unknown date",
+        attendeeNames: (attendeesRes.data ?? [])
+          .map((a: any) => a.full_name?.trim() || a.email?.trim() || "")
+          .filter(Boolean),
+      };
+    },
+
+    async listRecordings() {
+      const res = await sb
+        .from("meeting_recordings")
+        .select("storage_path,duration_seconds,created_at")
+        .eq("session_id", opts.sessionId)
+        .order("created_at", { ascending: true })
+        .limit(200);
+      if (res.error) throw res.error;
+      return res.data ?? [];
+    },
+
+    async downloadRecording(path) {
+      const dl = await sb.storage.from(opts.recordingsBucket).download(path);
+      if (dl.error) throw dl.error;
+      return await dl.data.arrayBuffer();
+    },
+
+    async transcribe(file) {
+      // Same request and segment shape as transcribeAudio in src/lib/ai/client.ts.
+      const diarize = !!getAiModel(DEFAULT_TRANSCRIBE_MODEL)?.diarization;
+      const transcription: any = await client.audio.transcriptions.create({
+        model: DEFAULT_TRANSCRIBE_MODEL,
+        file,
+        ...(diarize ? { response_format: "diarized_json", chunking_strategy: "auto" } : {}),
+      } as any);
+      const text = transcription?.text ? String(transcription.text) : "";
+      const segments = (transcription?.segments ?? []).map((seg: any) => {
+        const speaker = String(seg?.speaker ?? "").trim();
+        return {
+          start: Number(seg?.start ?? 0),
+          end: Number(seg?.end ?? seg?.start ?? 0),
+          text: String(seg?.text ?? ""),
+          speaker: !speaker ? null : speaker.length <= 2 ? `Speaker ${speaker}` : speaker,
+        };
+      });
+      await logGeneration(
+        sb,
+        DEFAULT_TRANSCRIBE_MODEL,
+        {
+          inputTokens: transcription?.usage?.input_tokens ?? 0,
+          outputTokens: transcription?.usage?.output_tokens ?? 0,
         },
-      },
-      required: ["agenda"],
+        { prompt: file.name, response: text, contentType: "meeting_transcription" }
+      );
+      return { text, segments };
     },
-    strict: true,
-  } as const;
-
-  const completion = await opts.client.chat.completions.create({
-    model: DEFAULT_SUMMARY_MODEL,
-    temperature: 0.2,
-    response_format: { type: "json_schema", json_schema: schema },
-    messages: [
-      {
-        role: "system",
-        content:
-          "Turn a meeting transcript chunk into concise, professional meeting minutes. " +
-          "Return ONLY valid JSON matching the schema. " +
-          "Populate the 'agenda' array with one object per agenda item. " +
-          "Each object must include: agenda_item_id and notes. " +
-          "Keep notes factual, concise, and action-oriented. " +
-          "If an agenda item was not discussed in THIS CHUNK, set notes to an empty string. " +
-          "Do not invent details. Do not include markdown.",
-      },
-      {
-        role: "user",
-        content: `Agenda items (id | label):\n${opts.agendaList}\n\nTranscript chunk:\n${opts.transcriptChunk}`,
-      },
-    ],
-  });
 
-  const content = completion.choices?.[0]?.message?.content ?? "{}";
+    async completeJson({ system, prompt, schema }) {
+      const completion = await client.chat.completions.create({
+        model: DEFAULT_SUMMARY_MODEL,
+        temperature: 0.2,
+        max_tokens: SUMMARY_MAX_TOKENS,
+        response_format: { type: "json_schema", json_schema: { ...schema, strict: true } },
+        messages: [
+          { role: "system", content: system },
+          { role: "user", content: prompt },
+        ],
+      });
+      const content = completion.choices?.[0]?.message?.content ?? "{}";
+      await logGeneration(
+        sb,
+        DEFAULT_SUMMARY_MODEL,
+        {
+          inputTokens: completion.usage?.prompt_tokens ?? 0,
+          outputTokens: completion.usage?.completion_tokens ?? 0,
+        },
+        { prompt, response: content, contentType: "meeting_minutes" }
+      );
+      return content;
+    },
 
-  const notesObj: Record<string, string> = {};
-  try {
-    const parsed: any = JSON.parse(content);
-    if (parsed && Array.isArray(parsed.agenda)) {
-      for (const item of parsed.agenda) {
-        const id = String(item?.agenda_item_id ?? "").trim();
-        if (!id) continue;
-        notesObj[id] = String(item?.notes ?? "");
-      }
-    }
-  } catch {
-    // ignore parse failures; caller can treat as empty
-  }
+    async saveNotes(rows) {
+      const up = await sb.from("meeting_agenda_notes").upsert(rows, { onConflict: "session_id,agenda_item_id" });
+      if (up.error) throw up.error;
+    },
 
-  return notesObj;
+    async saveTranscript(transcript, segments) {
+      await sb
+        .from("meeting_minutes_sessions")
+        .update({ transcript } as any)
+        .eq("id", opts.sessionId);
+
+      const del = await sb.from("meeting_transcript_segments").delete().eq("session_id", opts.sessionId);
+      if (del.error) throw del.error;
+      for (let i = 0; i < segments.length; i += 500) {
+        const ins = await sb.from("meeting_transcript_segments").insert(segments.slice(i, i + 500));
+        if (ins.error) throw ins.error;
+      }
+    },
+  };
 }
 
 async function runAi(opts: {
@@ -174,102 +236,23 @@ async function runAi(opts: {
     .update({ ai_status: "processing", ai_error: null } as any)
     .eq("id", opts.sessionId);
 
-  // 1) agenda items
-  const agendaRes = await sb
-    .from("meeting_agenda_items")
-    .select("id,code,title,description,position")
-    .eq("meeting_id", opts.meetingId)
-    .order("position", { ascending: true });
-  if (agendaRes.error) throw agendaRes.error;
-
-  const agenda = agendaRes.data ?? [];
-
-  // 2) recordings for session (we may have multiple segments for long meetings)
-  const recRes = await sb
-    .from("meeting_recordings")
-    .select("storage_path,created_at")
-    .eq("session_id", opts.sessionId)
-    .order("created_at", { ascending: true })
-    .limit(50);
-  if (recRes.error) throw recRes.error;
-
-  const recordings = (recRes.data ?? []) as Array<{ storage_path: string; created_at: string }>;
-  if (!recordings.length) {
-    await sb
-      .from("meeting_minutes_sessions")
-      .update({ ai_status: "skipped", ai_processed_at: new Date().toISOString() } as any)
-      .eq("id", opts.sessionId);
-    return { skipped: true };
-  }
-
-  // 3) transcribe each recording and concatenate
+  // Transcribe every segment in order, stitch, and summarize in chunks.
   const client = new OpenAI({ apiKey: opts.openaiKey });
-  const transcriptParts: string[] = [];
-  for (let i = 0; i < recordings.length; i++) {
-    const recordingPath = String(recordings[i]?.storage_path ?? "").trim();
-    if (!recordingPath) continue;
-
-    const dl = await sb.storage.from(opts.recordingsBucket).download(recordingPath);
-    if (dl.error) throw dl.error;
-    const arrBuf = await dl.data.arrayBuffer();
-
-    const file = new File([arrBuf], `recording-${i + 1}.webm`, { type: "audio/webm" });
-    const transcription = await client.audio.transcriptions.create({
-      model: DEFAULT_TRANSCRIBE_MODEL,
-      file,
-    });
-    const segText = (transcription as any)?.text ? String((transcription as any).text) : "";
-    if (segText.trim()) transcriptParts.push(segText.trim());
-  }
-
-  const transcriptText = transcriptParts.join("\n\n");
-
-  // 5) summarize into agenda mapping
-  const agendaList = agenda
-    .map(
-      (a: any) =>
-        `${a.id} | ${a.code ? a.code + " - " : ""}${a.title}${a.description ? " — " + a.description : ""}`
-    )
-    .join("\n");
-
-  // Summarize in chunks to avoid token/time blowups on long meetings.
-  const chunks = splitTranscript(transcriptText);
-  const notesObj: Record<string, string> = {};
-  for (const chunkText of chunks) {
-    const chunkNotes = await summarizeChunk({ client, agendaList, transcriptChunk: chunkText });
-    for (const [id, note] of Object.entries(chunkNotes)) {
-      const merged = mergeNote(String(notesObj[id] ?? ""), String(note ?? ""));
-      if (merged) notesObj[id] = merged;
-    }
-  }
-
-  // 6) upsert notes rows
-  const upRows = agenda.map((a: any) => ({
-    session_id: opts.sessionId,
-    agenda_item_id: a.id,
-    notes: String(notesObj[String(a.id)] ?? ""),
-    updated_at: new Date().toISOString(),
-  }));
-
-  const up = await sb.from("meeting_agenda_notes").upsert(upRows, { onConflict: "session_id,agenda_item_id" });
-  if (up.error) throw up.error;
+  const ports = pipelinePorts({ sb, client, ...opts });
+  const result = await runMeetingPipeline(ports, { sessionId: opts.sessionId, chunkOptions: CHUNK_OPTIONS });
 
-  // 7) store transcript on session
   await sb
     .from("meeting_minutes_sessions")
     .update(
       {
-        transcript: transcriptText,
-        ai_status: "done",
+        ai_status: result.skipped === "no_recordings" ? "skipped" : "done",
         ai_error: null,
         ai_processed_at: new Date().toISOString(),
       } as any
     )
     .eq("id", opts.sessionId);
 
-  // keep last recording path for debugging/reference
-  const lastPath = String(recordings[recordings.length - 1]?.storage_path ?? "").trim();
-  return { transcriptText, agendaItemsUpdated: upRows.length, recordingPath: lastPath };
+  return result;
 }
 
 async function callFinalize(opts: {
@@ -0,0 +1,12 @@
+-- Migration 020: social_platforms.platform_name becomes plain text
+-- The set of supported networks now lives in the adapter registry
+-- (src/lib/platforms/registry.ts), so adding a network no longer needs a
+-- schema change.
+
+alter table public.social_platforms
+  alter column platform_name type text using platform_name::text;
+
+-- Only social_platforms used the enum.
+drop type if exists public.platform_name;
+
+create index if not exists social_platforms_name_idx on public.social_platforms(platform_name);
@@ -0,0 +1,24 @@
+-- Migration 021: real OAuth connections for social platforms
+-- The token refresher (/api/cron/refresh-tokens) flips is_connected and
+-- notifies admins when a refresh fails.
+
+alter type public.notification_type add value if not exists 'platform_disconnected';
+
+-- Notifications can now point at a platform connection instead of a post.
+alter table public.notifications
+  add column if not exists platform_id uuid references public.social_platforms(id) on delete cascade;
+
+-- The refresher scans connected rows by expiry.
+create index if not exists social_platforms_token_expiry_idx
+  on public.social_platforms(token_expires_at)
+  where is_connected = true;
+
+-- Placeholder rows written by the pre-OAuth connect modal carry fake tokens;
+-- mark them disconnected so admins reconnect through the real flow.
+update public.social_platforms
+set is_connected = false,
+    access_token = '',
+    refresh_token = null,
+    token_expires_at = null,
+    updated_at = now()
+where access_token like 'mock\_access\_token\_%';
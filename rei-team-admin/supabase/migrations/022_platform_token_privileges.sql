@@ -0,0 +1,22 @@
+-- Migration 022: keep social platform tokens server-side
+-- access_token / refresh_token are now envelope-encrypted by the app
+-- (src/lib/platforms/token-crypto.ts) and only read or written through the
+-- service role.  Browser clients keep row-level access via the existing RLS
+-- policies but lose the token columns.
+
+-- Lets the UI tell auto-refreshing connections apart without seeing the token.
+alter table public.social_platforms
+  add column if not exists has_refresh_token boolean
+  generated always as (refresh_token is not null) stored;
+
+revoke select, insert, update on public.social_platforms from anon, authenticated;
+
+grant select (
+  id, platform_name, account_name, account_id, token_expires_at, is_connected,
+  platform_url, metadata, connected_by, created_at, updated_at, has_refresh_token
+) on public.social_platforms to authenticated;
+
+-- Connecting (OAuth callback) and disconnecting go through API routes; admins
+-- can still edit display fields directly.
+grant update (account_name, platform_url, updated_at)
+  on public.social_platforms to authenticated;
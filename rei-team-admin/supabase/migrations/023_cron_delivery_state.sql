@@ -0,0 +1,15 @@
+-- Migration 023: per-platform delivery state for the cron publisher
+-- Each schedule occurrence ("run", keyed by the next_run_at that triggered it)
+-- is tracked per platform in cron_post_log.  Only platforms whose latest
+-- attempt failed are retried, with exponential backoff recorded on the
+-- attempt row itself.
+
+alter type public.post_status add value if not exists 'partially_published';
+
+alter table public.cron_post_log
+  add column if not exists run_at        timestamptz,
+  add column if not exists attempt       integer not null default 1,
+  add column if not exists next_retry_at timestamptz;
+
+create index if not exists cron_post_log_run_idx
+  on public.cron_post_log(schedule_id, run_at, platform, attempted_at desc);
@@ -0,0 +1,8 @@
+-- Migration 024: daily analytics snapshots
+-- /api/cron/analytics upserts one snapshot per platform post per day.
+
+create unique index if not exists analytics_snapshots_daily_uidx
+  on public.analytics_snapshots(platform_id, platform_post_id, snapshot_date);
+
+create index if not exists analytics_snapshots_date_idx
+  on public.analytics_snapshots(snapshot_date);
@@ -0,0 +1,24 @@
+-- Migration 025: engagement inbox sync
+-- /api/cron/inbox pulls comments, DMs, mentions and reviews into
+-- engagement_inbox.  Items are deduped per account on platform_item_id, and
+-- keep the platform post / conversation they belong to for threading.
+
+alter table public.engagement_inbox
+  add column if not exists platform_post_id text,
+  add column if not exists platform_thread_id text;
+
+-- Drop any duplicates (keeping the first received) before enforcing uniqueness.
+delete from public.engagement_inbox a
+using public.engagement_inbox b
+where a.platform_id = b.platform_id
+  and a.platform_item_id = b.platform_item_id
+  and (a.received_at, a.id) > (b.received_at, b.id);
+
+create unique index if not exists engagement_inbox_platform_item_uidx
+  on public.engagement_inbox(platform_id, platform_item_id);
+
+create index if not exists engagement_inbox_received_idx
+  on public.engagement_inbox(received_at desc);
+
+create index if not exists engagement_replies_item_idx
+  on public.engagement_replies(inbox_item_id);
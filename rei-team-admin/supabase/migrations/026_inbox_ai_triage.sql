@@ -0,0 +1,13 @@
+-- Migration 026: AI triage for the engagement inbox
+-- Incoming items are sentiment-classified on sync; negative reviews notify
+-- managers and admins, and the notification points at the inbox item.
+
+alter type public.notification_type add value if not exists 'negative_review';
+
+alter table public.notifications
+  add column if not exists inbox_item_id uuid references public.engagement_inbox(id) on delete cascade;
+
+-- /api/inbox/classify picks up items whose classification failed or was skipped.
+create index if not exists engagement_inbox_unclassified_idx
+  on public.engagement_inbox(received_at)
+  where sentiment is null;
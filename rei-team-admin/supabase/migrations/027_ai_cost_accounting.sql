@@ -0,0 +1,26 @@
+-- Migration 027: per-model AI cost accounting
+-- Every AI call now logs through src/lib/ai/client.ts with separate input and
+-- output token counts priced from the model catalog (src/lib/ai/models.ts).
+-- Background jobs such as meeting summarization have no requesting member.
+
+alter table public.ai_generation_history
+  add column if not exists provider      text,
+  add column if not exists input_tokens  integer,
+  add column if not exists output_tokens integer;
+
+alter table public.ai_generation_history
+  alter column generated_by drop not null;
+
+-- Model routing now comes from content_types.default_ai_model.  Normalize the
+-- legacy Claude alias and keep Daily Tips on Claude, which the old slug-keyed
+-- routing table in the generate routes sent there.
+update public.content_types
+set default_ai_model = 'claude-sonnet-4-5'
+where default_ai_model in ('claude-sonnet', 'claude-3-5-sonnet-20241022');
+
+update public.content_types
+set default_ai_model = 'claude-sonnet-4-5'
+where name = 'Daily Tips' and is_system and default_ai_model = 'gpt-4o';
+
+create index if not exists ai_generation_history_created_idx
+  on public.ai_generation_history(created_at desc);
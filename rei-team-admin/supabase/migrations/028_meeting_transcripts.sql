@@ -0,0 +1,109 @@
+-- Migration 028: persisted, searchable meeting transcripts
+-- The meeting AI pipeline (src/lib/meetings/pipeline.ts) stores one row per
+-- transcript line with its position on the meeting timeline, the speaker
+-- label when the transcription model diarizes, and the recording segment it
+-- came from so the meeting page can play it back.  Transcripts and agenda
+-- notes get full-text search vectors, queried through search_meeting_minutes().
+
+create table if not exists public.meeting_transcript_segments (
+  id               uuid primary key default gen_random_uuid(),
+  session_id       uuid not null references public.meeting_minutes_sessions(id) on delete cascade,
+  position         int not null,
+  -- Seconds from the start of the session's first recording segment.
+  start_seconds    numeric not null,
+  end_seconds      numeric,
+  speaker          text,
+  text             text not null,
+  recording_path   text not null,
+  -- Seconds into recording_path where the line starts.
+  recording_offset numeric not null default 0,
+  search           tsvector generated always as (
+                     to_tsvector('english', coalesce(speaker, '') || ' ' || text)
+                   ) stored,
+  created_at       timestamptz not null default now(),
+  unique (session_id, position)
+);
+
+create index if not exists idx_transcript_segments_search
+  on public.meeting_transcript_segments using gin (search);
+
+alter table public.meeting_transcript_segments enable row level security;
+
+-- Written by the AI pipeline with the service role; readable by the team.
+create policy "meeting_transcript_segments_select"
+on public.meeting_transcript_segments for select
+to authenticated
+using (true);
+
+alter table public.meeting_agenda_notes
+  add column if not exists search tsvector generated always as (
+    to_tsvector('english', coalesce(notes, ''))
+  ) stored;
+
+create index if not exists idx_agenda_notes_search
+  on public.meeting_agenda_notes using gin (search);
+
+-- Full-text search across every meeting's transcripts and agenda notes.
+-- `q` uses web search syntax ("quoted phrase", -exclude, or).  Snippets mark
+-- matches with « and ».
+create or replace function public.search_meeting_minutes(q text, max_results int default 50)
+returns table (
+  kind               text,
+  meeting_id         uuid,
+  meeting_title      text,
+  session_id         uuid,
+  session_started_at timestamptz,
+  agenda_item_id     uuid,
+  agenda_item_title  text,
+  start_seconds      numeric,
+  snippet            text,
+  rank               real
+)
+language sql
+stable
+security invoker
+as $$
+  with query as (
+    select websearch_to_tsquery('english', q) as tsq
+  )
+  select * from (
+    select
+      'transcript'::text,
+      s.meeting_id,
+      m.title,
+      t.session_id,
+      s.started_at,
+      null::uuid,
+      null::text,
+      t.start_seconds,
+      ts_headline('english', t.text, query.tsq, 'StartSel=«, StopSel=», MaxFragments=2, MaxWords=30, MinWords=8'),
+      ts_rank(t.search, query.tsq)
+    from query
+    join public.meeting_transcript_segments t on t.search @@ query.tsq
+    join public.meeting_minutes_sessions s on s.id = t.session_id
+    join public.meetings m on m.id = s.meeting_id
+
+    union all
+
+    select
+      'agenda_note'::text,
+      s.meeting_id,
+      m.title,
+      n.session_id,
+      s.started_at,
+      n.agenda_item_id,
+      a.title,
+      null::numeric,
+      ts_headline('english', n.notes, query.tsq, 'StartSel=«, StopSel=», MaxFragments=2, MaxWords=30, MinWords=8'),
+      ts_rank(n.search, query.tsq)
+    from query
+    join public.meeting_agenda_notes n on n.search @@ query.tsq
+    join public.meeting_minutes_sessions s on s.id = n.session_id
+    join public.meetings m on m.id = s.meeting_id
+    join public.meeting_agenda_items a on a.id = n.agenda_item_id
+  ) hits
+  order by 10 desc, 5 desc
+  limit greatest(1, least(max_results, 200));
+$$;
+
+grant execute on function public.search_meeting_minutes(text, int) to authenticated;
@@ -0,0 +1,40 @@
+-- Migration 029: AI-suggested meeting tasks
+-- POST /api/meetings/ai extracts action items from each session's transcript
+-- (src/lib/meetings/action-items.ts) and stores them here instead of writing
+-- straight to the task board.  Accepting a suggestion creates the
+-- meeting_tasks row and logs an 'ai_suggested' meeting_task_events entry that
+-- links back to the session.
+
+create table if not exists public.meeting_suggested_tasks (
+  id              uuid primary key default gen_random_uuid(),
+  meeting_id      uuid not null references public.meetings(id) on delete cascade,
+  session_id      uuid not null references public.meeting_minutes_sessions(id) on delete cascade,
+  title           text not null,
+  -- Owner as named in the transcript, and the attendee/profile it matched.
+  owner_label     text,
+  owner_id        uuid references auth.users(id) on delete set null,
+  owner_email     text,
+  due_date        date,
+  priority        text not null default 'Normal',
+  evidence        text,
+  status          text not null default 'pending'
+                  check (status in ('pending', 'accepted', 'dismissed')),
+  task_id         uuid references public.meeting_tasks(id) on delete set null,
+  decided_by      uuid references auth.users(id) on delete set null,
+  decided_at      timestamptz,
+  created_at      timestamptz not null default now()
+);
+
+create index if not exists idx_suggested_tasks_meeting
+  on public.meeting_suggested_tasks (meeting_id, status, created_at);
+
+create index if not exists idx_suggested_tasks_session
+  on public.meeting_suggested_tasks (session_id);
+
+alter table public.meeting_suggested_tasks enable row level security;
+
+create policy "meeting_suggested_tasks_all"
+on public.meeting_suggested_tasks for all
+to authenticated
+using (true)
+with check (true);
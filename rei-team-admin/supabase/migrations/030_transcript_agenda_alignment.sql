@@ -0,0 +1,13 @@
+-- Migration 030: agenda-to-transcript alignment
+-- The meeting AI pipeline records which transcript lines each agenda item's
+-- notes were written from.  Reviewers can move lines to another agenda item
+-- (agenda_assigned_by = 'reviewer') and regenerate that item's notes from its
+-- lines (POST /api/meetings/ai/alignment).
+
+alter table public.meeting_transcript_segments
+  add column if not exists agenda_item_id uuid references public.meeting_agenda_items(id) on delete set null,
+  add column if not exists agenda_assigned_by text
+    check (agenda_assigned_by in ('ai', 'reviewer'));
+
+create index if not exists idx_transcript_segments_agenda
+  on public.meeting_transcript_segments (session_id, agenda_item_id);
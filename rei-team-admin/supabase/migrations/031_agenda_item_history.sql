@@ -0,0 +1,30 @@
+-- Migration 031: agenda item history across sessions
+-- One AI "what changed since last time" summary per agenda item per minutes
+-- session (src/lib/meetings/agenda-history.ts), written after AI processing.
+-- The status drives the "unresolved for N sessions" highlight.  Meetings can
+-- add the timeline to their finalized minutes PDF.
+
+create table if not exists public.meeting_agenda_item_changes (
+  id              uuid primary key default gen_random_uuid(),
+  session_id      uuid not null references public.meeting_minutes_sessions(id) on delete cascade,
+  agenda_item_id  uuid not null references public.meeting_agenda_items(id) on delete cascade,
+  status          text not null check (status in ('new', 'ongoing', 'resolved', 'not_discussed')),
+  summary         text not null default '',
+  created_at      timestamptz not null default now(),
+  updated_at      timestamptz not null default now(),
+  unique (session_id, agenda_item_id)
+);
+
+create index if not exists idx_agenda_item_changes_item
+  on public.meeting_agenda_item_changes (agenda_item_id);
+
+alter table public.meeting_agenda_item_changes enable row level security;
+
+-- Written with the service role; readable by the team.
+create policy "meeting_agenda_item_changes_select"
+on public.meeting_agenda_item_changes for select
+to authenticated
+using (true);
+
+alter table public.meetings
+  add column if not exists minutes_include_history boolean not null default false;
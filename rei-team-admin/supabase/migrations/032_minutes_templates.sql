@@ -0,0 +1,36 @@
+-- Migration 032: minutes templates
+-- Layout of the finalized minutes PDF (src/lib/meetings/minutes-template.ts):
+-- included sections in order, logo, colour palette, font and page size.
+-- Meetings pick one; otherwise the template marked default is used, and
+-- without any the built-in layout.
+
+create table if not exists public.minutes_templates (
+  id          uuid primary key default gen_random_uuid(),
+  name        text not null,
+  -- Ordered section keys: attendance, milestones, tasks, agenda, agenda_history, ongoing_notes
+  sections    jsonb not null default '["attendance","milestones","tasks","agenda","agenda_history","ongoing_notes"]'::jsonb,
+  logo_url    text,
+  -- { "primary": "#rrggbb", "dark": "#rrggbb", "light": "#rrggbb" }
+  palette     jsonb not null default '{"primary":"#22c55e","dark":"#166534","light":"#f0fdf4"}'::jsonb,
+  page_size   text not null default 'letter' check (page_size in ('letter', 'a4')),
+  font        text not null default 'helvetica' check (font in ('helvetica', 'times', 'courier')),
+  is_default  boolean not null default false,
+  created_by  uuid references auth.users(id) on delete set null,
+  created_at  timestamptz not null default now(),
+  updated_at  timestamptz not null default now()
+);
+
+-- At most one default template
+create unique index if not exists idx_minutes_templates_single_default
+  on public.minutes_templates (is_default) where is_default;
+
+alter table public.minutes_templates enable row level security;
+
+create policy "minutes_templates_all"
+on public.minutes_templates for all
+to authenticated
+using (true)
+with check (true);
+
+alter table public.meetings
+  add column if not exists minutes_template_id uuid references public.minutes_templates(id) on delete set null;
@@ -0,0 +1,58 @@
+-- Migration 033: meeting series
+-- A meeting's rrule is expanded from start_at in the meeting's timezone into
+-- occurrences (src/lib/meetings/series.ts).  Exceptions skip or move single
+-- occurrences; a cron creates the minutes session when an occurrence starts
+-- and reminders are sent ahead of the next occurrence.
+
+alter table public.meetings
+  add column if not exists timezone text not null default 'America/Los_Angeles';
+
+-- Per-occurrence exceptions, keyed by the start the rule produced
+create table if not exists public.meeting_occurrence_exceptions (
+  meeting_id      uuid not null references public.meetings(id) on delete cascade,
+  original_start  timestamptz not null,
+  action          text not null check (action in ('skip', 'move')),
+  moved_start_at  timestamptz,
+  created_by      uuid references auth.users(id) on delete set null,
+  created_at      timestamptz not null default now(),
+  primary key (meeting_id, original_start),
+  check (action <> 'move' or moved_start_at is not null)
+);
+
+alter table public.meeting_occurrence_exceptions enable row level security;
+
+create policy "meeting_occurrence_exceptions_all"
+on public.meeting_occurrence_exceptions for all
+to authenticated
+using (true)
+with check (true);
+
+-- The occurrence a session was auto-created for (null for ad hoc sessions)
+alter table public.meeting_minutes_sessions
+  add column if not exists occurrence_start timestamptz;
+
+create unique index if not exists idx_minutes_sessions_occurrence
+  on public.meeting_minutes_sessions (meeting_id, occurrence_start);
+
+-- Reminder settings; earlier deployments created this table by hand
+create table if not exists public.meeting_email_settings (
+  meeting_id          uuid primary key references public.meetings(id) on delete cascade,
+  reminder_frequency  text not null default 'none',
+  last_sent_at        timestamptz,
+  updated_at          timestamptz not null default now()
+);
+
+alter table public.meeting_email_settings enable row level security;
+
+drop policy if exists "meeting_email_settings_all" on public.meeting_email_settings;
+create policy "meeting_email_settings_all"
+on public.meeting_email_settings for all
+to authenticated
+using (true)
+with check (true);
+
+-- Reminders go out this many hours before the next occurrence, once per occurrence.
+-- reminder_frequency = 'none' still turns them off; any other value turns them on.
+alter table public.meeting_email_settings
+  add column if not exists reminder_lead_hours int not null default 24 check (reminder_lead_hours between 1 and 168),
+  add column if not exists last_reminded_occurrence timestamptz;
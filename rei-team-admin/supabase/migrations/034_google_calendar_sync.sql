@@ -0,0 +1,32 @@
+-- Migration 034: Google Calendar sync for meetings
+-- google_oauth_tokens (migration 002) holds each user's Calendar connection;
+-- tokens are stored encrypted (src/lib/platforms/token-crypto.ts) and only
+-- read server-side.  Meetings are pushed as events to their organizer's
+-- primary calendar; an incremental sync (events.list syncToken) pulls back
+-- time changes, cancelled/moved occurrences and attendee RSVPs.
+
+alter table public.google_oauth_tokens
+  add column if not exists account_email text,
+  add column if not exists calendar_id text not null default 'primary',
+  add column if not exists sync_token text,
+  add column if not exists last_synced_at timestamptz,
+  add column if not exists sync_error text;
+
+-- Token columns never reach the browser; the UI asks /api/meetings/google for status.
+drop policy if exists "google_tokens_select_own" on public.google_oauth_tokens;
+drop policy if exists "google_tokens_upsert_own" on public.google_oauth_tokens;
+drop policy if exists "google_tokens_update_own" on public.google_oauth_tokens;
+
+alter table public.meetings
+  add column if not exists google_event_id text,
+  -- User whose calendar holds the event (the one who first synced it)
+  add column if not exists google_calendar_user_id uuid references auth.users(id) on delete set null,
+  add column if not exists google_synced_at timestamptz;
+
+create index if not exists idx_meetings_google_event
+  on public.meetings (google_calendar_user_id, google_event_id)
+  where google_event_id is not null;
+
+-- needsAction | accepted | tentative | declined (Google's responseStatus)
+alter table public.meeting_attendees
+  add column if not exists rsvp_status text;
@@ -0,0 +1,44 @@
+-- Migration 035: CRM import wizard
+-- Saved column-mapping presets for the sales funnel import, and free-form
+-- custom fields on companies and contacts that import columns can map to.
+
+alter table public.crm_companies
+  add column if not exists custom_fields jsonb not null default '{}'::jsonb;
+
+alter table public.crm_contacts
+  add column if not exists custom_fields jsonb not null default '{}'::jsonb;
+
+-- mapping: { "<file header>": { "field": "<import field>", "customKey": "<key>" } }
+create table if not exists public.crm_import_mappings (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  name_lower text generated always as (lower(trim(name))) stored,
+  mapping jsonb not null default '{}'::jsonb,
+  created_by uuid null references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists crm_import_mappings_name_lower_ux
+  on public.crm_import_mappings (name_lower);
+
+do $$
+begin
+  if not exists (select 1 from pg_trigger where tgname = 'crm_import_mappings_set_updated_at') then
+    create trigger crm_import_mappings_set_updated_at
+      before update on public.crm_import_mappings
+      for each row execute function public.crm_set_updated_at();
+  end if;
+end $$;
+
+alter table public.crm_import_mappings enable row level security;
+
+do $$
+begin
+  if not exists (select 1 from pg_policies where policyname='crm_import_mappings_all_auth') then
+    create policy crm_import_mappings_all_auth
+      on public.crm_import_mappings
+      for all to authenticated
+      using (true) with check (true);
+  end if;
+end $$;
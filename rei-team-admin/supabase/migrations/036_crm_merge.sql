@@ -0,0 +1,244 @@
+-- Migration 036: CRM duplicate merge
+-- Merging folds one company (or contact) into a surviving record: activities,
+-- projects, project ↔ contact links and main_contact_id are re-pointed, the
+-- merged row is deleted and the merge is recorded in crm_merge_log with a
+-- snapshot of the deleted row.  Both merges run as one transaction each and
+-- are called from /api/crm/merge with the service role.
+
+create table if not exists public.crm_merge_log (
+  id uuid primary key default gen_random_uuid(),
+  entity_type text not null check (entity_type in ('company', 'contact')),
+  survivor_id uuid not null,
+  merged_id uuid not null,
+  -- to_jsonb() of the deleted row (plus its contacts for companies)
+  merged_snapshot jsonb not null,
+  -- Field values applied to the survivor
+  applied_values jsonb not null default '{}'::jsonb,
+  -- Counts of re-pointed rows: { activities, projects, project_links, contacts_moved, contacts_merged }
+  moved jsonb not null default '{}'::jsonb,
+  merged_by uuid null references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists crm_merge_log_survivor_ix
+  on public.crm_merge_log (entity_type, survivor_id, created_at desc);
+
+alter table public.crm_merge_log enable row level security;
+
+do $$
+begin
+  if not exists (select 1 from pg_policies where policyname='crm_merge_log_select_auth') then
+    create policy crm_merge_log_select_auth
+      on public.crm_merge_log
+      for select to authenticated
+      using (true);
+  end if;
+end $$;
+
+-- ============================================================
+-- RPC: Merge contacts
+-- p_values holds the survivor's chosen fields (first_name, last_name,
+-- full_name, title, phone, email, notes, stage_id, company_id,
+-- custom_fields); absent keys keep the survivor's value.
+-- ============================================================
+create or replace function public.crm_merge_contacts(
+  p_survivor_id uuid,
+  p_merged_id uuid,
+  p_values jsonb,
+  p_merged_by uuid
+)
+returns jsonb
+language plpgsql
+security definer
+as $$
+declare
+  s public.crm_contacts;
+  m public.crm_contacts;
+  v jsonb := coalesce(p_values, '{}'::jsonb);
+  n_activities int;
+  n_links int;
+  was_main_of uuid;
+  moved jsonb;
+begin
+  if p_survivor_id = p_merged_id then
+    raise exception 'Cannot merge a contact into itself';
+  end if;
+
+  select * into s from public.crm_contacts where id = p_survivor_id for update;
+  if not found then raise exception 'Surviving contact not found'; end if;
+  select * into m from public.crm_contacts where id = p_merged_id for update;
+  if not found then raise exception 'Merged contact not found'; end if;
+
+  update public.crm_contact_activities set contact_id = s.id where contact_id = m.id;
+  get diagnostics n_activities = row_count;
+
+  insert into public.crm_project_contacts (project_id, contact_id)
+    select project_id, s.id from public.crm_project_contacts where contact_id = m.id
+    on conflict do nothing;
+  get diagnostics n_links = row_count;
+
+  select id into was_main_of from public.crm_companies where main_contact_id = m.id;
+
+  delete from public.crm_contacts where id = m.id;
+
+  update public.crm_contacts set
+    first_name = case when v ? 'first_name' then v->>'first_name' else first_name end,
+    last_name = case when v ? 'last_name' then v->>'last_name' else last_name end,
+    full_name = case when v ? 'full_name' then v->>'full_name' else full_name end,
+    title = case when v ? 'title' then v->>'title' else title end,
+    phone = case when v ? 'phone' then v->>'phone' else phone end,
+    email = case when v ? 'email' then v->>'email' else email end,
+    notes = case when v ? 'notes' then v->>'notes' else notes end,
+    stage_id = case when v ? 'stage_id' then (v->>'stage_id')::uuid else stage_id end,
+    company_id = case when v ? 'company_id' then (v->>'company_id')::uuid else company_id end,
+    custom_fields = case when v ? 'custom_fields' then v->'custom_fields' else m.custom_fields || custom_fields end,
+    last_activity_at = nullif(greatest(coalesce(last_activity_at, 'epoch'::timestamptz), coalesce(m.last_activity_at, 'epoch'::timestamptz)), 'epoch'::timestamptz)
+  where id = s.id
+  returning * into s;
+
+  -- The merged contact was its company's main contact: hand the role to the
+  -- survivor when it now belongs to that company.
+  if was_main_of is not null and s.company_id = was_main_of then
+    perform public.crm_set_main_contact(was_main_of, s.id);
+  end if;
+
+  -- The survivor moved companies: it can't stay main contact of the old one.
+  update public.crm_companies set main_contact_id = null
+    where main_contact_id = s.id and id <> s.company_id;
+  if s.is_main and not exists (select 1 from public.crm_companies where main_contact_id = s.id) then
+    update public.crm_contacts set is_main = false where id = s.id;
+  end if;
+
+  moved := jsonb_build_object('activities', n_activities, 'project_links', n_links);
+
+  insert into public.crm_merge_log (entity_type, survivor_id, merged_id, merged_snapshot, applied_values, moved, merged_by)
+    values ('contact', s.id, m.id, to_jsonb(m), v, moved, p_merged_by);
+
+  return moved;
+end;
+$$;
+
+revoke all on function public.crm_merge_contacts(uuid, uuid, jsonb, uuid) from public;
+grant execute on function public.crm_merge_contacts(uuid, uuid, jsonb, uuid) to service_role;
+
+-- ============================================================
+-- RPC: Merge companies
+-- p_values holds the survivor's chosen fields (name, website, phone, email,
+-- notes, stage_id, main_contact_id, custom_fields); absent keys keep the
+-- survivor's value.  The merged company's contacts move to the survivor;
+-- one with the same email / phone as a survivor contact is merged into it.
+-- ============================================================
+create or replace function public.crm_merge_companies(
+  p_survivor_id uuid,
+  p_merged_id uuid,
+  p_values jsonb,
+  p_merged_by uuid
+)
+returns jsonb
+language plpgsql
+security definer
+as $$
+declare
+  s public.crm_companies;
+  m public.crm_companies;
+  v jsonb := coalesce(p_values, '{}'::jsonb);
+  c public.crm_contacts;
+  twin public.crm_contacts;
+  snapshot jsonb;
+  n_activities int;
+  n_projects int;
+  n_moved int := 0;
+  n_merged int := 0;
+  main_id uuid;
+  moved jsonb;
+begin
+  if p_survivor_id = p_merged_id then
+    raise exception 'Cannot merge a company into itself';
+  end if;
+
+  select * into s from public.crm_companies where id = p_survivor_id for update;
+  if not found then raise exception 'Surviving company not found'; end if;
+  select * into m from public.crm_companies where id = p_merged_id for update;
+  if not found then raise exception 'Merged company not found'; end if;
+
+  snapshot := to_jsonb(m) || jsonb_build_object(
+    'contacts',
+    coalesce((select jsonb_agg(to_jsonb(x)) from public.crm_contacts x where x.company_id = m.id), '[]'::jsonb)
+  );
+
+  for c in select * from public.crm_contacts where company_id = m.id loop
+    select * into twin from public.crm_contacts t
+      where t.company_id = s.id
+        and (
+          (public.crm_norm_text(c.email) is not null and t.email_lower = c.email_lower)
+          or (c.phone_norm is not null and t.phone_norm = c.phone_norm)
+        )
+      limit 1;
+
+    if found then
+      -- Same person on both companies: fill the survivor's blanks, then merge.
+      update public.crm_contacts set
+        first_name = coalesce(public.crm_norm_text(first_name), c.first_name),
+        last_name = coalesce(public.crm_norm_text(last_name), c.last_name),
+        full_name = coalesce(public.crm_norm_text(full_name), c.full_name),
+        title = coalesce(public.crm_norm_text(title), c.title),
+        phone = coalesce(public.crm_norm_text(phone), c.phone),
+        email = coalesce(public.crm_norm_text(email), c.email),
+        notes = coalesce(public.crm_norm_text(notes), c.notes),
+        stage_id = coalesce(stage_id, c.stage_id)
+      where id = twin.id;
+      if m.main_contact_id = c.id then
+        m.main_contact_id := twin.id;
+      end if;
+      perform public.crm_merge_contacts(twin.id, c.id, '{}'::jsonb, p_merged_by);
+      n_merged := n_merged + 1;
+    else
+      update public.crm_contacts set company_id = s.id, is_main = false where id = c.id;
+      n_moved := n_moved + 1;
+    end if;
+  end loop;
+
+  update public.crm_contact_activities set company_id = s.id where company_id = m.id;
+  get diagnostics n_activities = row_count;
+
+  update public.crm_projects set company_id = s.id where company_id = m.id;
+  get diagnostics n_projects = row_count;
+
+  delete from public.crm_companies where id = m.id;
+
+  update public.crm_companies set
+    name = case when v ? 'name' then v->>'name' else name end,
+    website = case when v ? 'website' then v->>'website' else website end,
+    phone = case when v ? 'phone' then v->>'phone' else phone end,
+    email = case when v ? 'email' then v->>'email' else email end,
+    notes = case when v ? 'notes' then v->>'notes' else notes end,
+    stage_id = case when v ? 'stage_id' then (v->>'stage_id')::uuid else stage_id end,
+    custom_fields = case when v ? 'custom_fields' then v->'custom_fields' else m.custom_fields || custom_fields end,
+    last_activity_at = nullif(greatest(coalesce(last_activity_at, 'epoch'::timestamptz), coalesce(m.last_activity_at, 'epoch'::timestamptz)), 'epoch'::timestamptz)
+  where id = s.id
+  returning * into s;
+
+  main_id := case
+    when v ? 'main_contact_id' then (v->>'main_contact_id')::uuid
+    else coalesce(s.main_contact_id, m.main_contact_id)
+  end;
+  if main_id is not null and exists (select 1 from public.crm_contacts where id = main_id and company_id = s.id) then
+    perform public.crm_set_main_contact(s.id, main_id);
+  end if;
+
+  moved := jsonb_build_object(
+    'activities', n_activities,
+    'projects', n_projects,
+    'contacts_moved', n_moved,
+    'contacts_merged', n_merged
+  );
+
+  insert into public.crm_merge_log (entity_type, survivor_id, merged_id, merged_snapshot, applied_values, moved, merged_by)
+    values ('company', s.id, m.id, snapshot, v, moved, p_merged_by);
+
+  return moved;
+end;
+$$;
+
+revoke all on function public.crm_merge_companies(uuid, uuid, jsonb, uuid) from public;
+grant execute on function public.crm_merge_companies(uuid, uuid, jsonb, uuid) to service_role;
@@ -0,0 +1,77 @@
+-- Migration 037: CRM follow-ups
+-- Scheduled follow-ups (the CRM replacement for leads.next_follow_up_at):
+-- each is attached to a company, contact and/or project, has an owner and a
+-- due time, and stays open until completed.  Like activities, contact and
+-- project follow-ups also carry their company_id so the company sees them.
+-- crm_follow_up_digests records the daily digest email per owner and day.
+
+create table if not exists public.crm_follow_ups (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid null references public.crm_companies(id) on delete cascade,
+  contact_id uuid null references public.crm_contacts(id) on delete cascade,
+  project_id uuid null references public.crm_projects(id) on delete cascade,
+
+  owner_id uuid null references public.profiles(id) on delete set null,
+  due_at timestamptz not null,
+  -- Planned action (Call / Email / ...), same enum as activities
+  kind public.crm_activity_kind not null default 'Call',
+  note text null,
+
+  completed_at timestamptz null,
+  completed_by uuid null references public.profiles(id) on delete set null,
+
+  created_by uuid null references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+
+  constraint crm_follow_ups_target_chk
+    check (company_id is not null or contact_id is not null or project_id is not null)
+);
+
+create index if not exists crm_follow_ups_owner_open_ix
+  on public.crm_follow_ups (owner_id, due_at)
+  where completed_at is null;
+
+create index if not exists crm_follow_ups_open_due_ix
+  on public.crm_follow_ups (due_at)
+  where completed_at is null;
+
+create index if not exists crm_follow_ups_company_ix
+  on public.crm_follow_ups (company_id, due_at);
+
+create index if not exists crm_follow_ups_contact_ix
+  on public.crm_follow_ups (contact_id, due_at);
+
+create index if not exists crm_follow_ups_project_ix
+  on public.crm_follow_ups (project_id, due_at);
+
+do $$
+begin
+  if not exists (select 1 from pg_trigger where tgname = 'crm_follow_ups_set_updated_at') then
+    create trigger crm_follow_ups_set_updated_at
+      before update on public.crm_follow_ups
+      for each row execute function public.crm_set_updated_at();
+  end if;
+end $$;
+
+create table if not exists public.crm_follow_up_digests (
+  owner_id uuid not null references public.profiles(id) on delete cascade,
+  -- Calendar day of the digest in CRM_DIGEST_TIMEZONE
+  digest_date date not null,
+  follow_up_count int not null default 0,
+  sent_at timestamptz not null default now(),
+  primary key (owner_id, digest_date)
+);
+
+alter table public.crm_follow_ups enable row level security;
+alter table public.crm_follow_up_digests enable row level security;
+
+do $$
+begin
+  if not exists (select 1 from pg_policies where policyname='crm_follow_ups_all_auth') then
+    create policy crm_follow_ups_all_auth
+      on public.crm_follow_ups
+      for all to authenticated
+      using (true) with check (true);
+  end if;
+end $$;
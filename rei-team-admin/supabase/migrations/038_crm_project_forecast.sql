@@ -0,0 +1,125 @@
+-- Migration 038: CRM deal forecasting
+-- Projects carry a deal value, expected close date and win probability
+-- (null = the stage's default_probability), plus a won / lost outcome with a
+-- reason.  crm_project_stage_history records every stage change and outcome
+-- so the forecast view can compute stage-conversion rates.
+
+alter table public.crm_stages
+  add column if not exists default_probability int null
+    check (default_probability between 0 and 100);
+
+alter table public.crm_projects
+  add column if not exists value numeric(14,2) null check (value >= 0),
+  add column if not exists expected_close_date date null,
+  add column if not exists probability int null check (probability between 0 and 100),
+  add column if not exists outcome text null check (outcome in ('won', 'lost')),
+  add column if not exists outcome_reason text null,
+  add column if not exists closed_at timestamptz null;
+
+create index if not exists crm_projects_close_date_ix
+  on public.crm_projects (expected_close_date)
+  where outcome is null;
+
+create index if not exists crm_projects_closed_at_ix
+  on public.crm_projects (closed_at)
+  where outcome is not null;
+
+create table if not exists public.crm_project_stage_history (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.crm_projects(id) on delete cascade,
+  -- 'stage' = moved between stages; 'won' / 'lost' / 'reopened' = outcome changes
+  event text not null default 'stage' check (event in ('stage', 'won', 'lost', 'reopened')),
+  from_stage_id uuid null references public.crm_stages(id) on delete set null,
+  to_stage_id uuid null references public.crm_stages(id) on delete set null,
+  changed_by uuid null references public.profiles(id) on delete set null,
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists crm_project_stage_history_project_ix
+  on public.crm_project_stage_history (project_id, changed_at);
+
+-- ============================================================
+-- closed_at follows outcome
+-- ============================================================
+create or replace function public.crm_projects_set_closed_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.outcome is null then
+    new.closed_at := null;
+  elsif tg_op = 'INSERT' or old.outcome is distinct from new.outcome then
+    new.closed_at := coalesce(new.closed_at, now());
+  end if;
+  return new;
+end;
+$$;
+
+-- ============================================================
+-- Stage / outcome history
+-- ============================================================
+create or replace function public.crm_log_project_stage()
+returns trigger
+language plpgsql
+security definer
+as $$
+declare
+  actor uuid := (select id from public.profiles where id = auth.uid());
+begin
+  if tg_op = 'INSERT' then
+    if new.stage_id is not null then
+      insert into public.crm_project_stage_history (project_id, event, to_stage_id, changed_by)
+        values (new.id, 'stage', new.stage_id, actor);
+    end if;
+    if new.outcome is not null then
+      insert into public.crm_project_stage_history (project_id, event, from_stage_id, to_stage_id, changed_by)
+        values (new.id, new.outcome, new.stage_id, new.stage_id, actor);
+    end if;
+    return new;
+  end if;
+
+  if old.stage_id is distinct from new.stage_id then
+    insert into public.crm_project_stage_history (project_id, event, from_stage_id, to_stage_id, changed_by)
+      values (new.id, 'stage', old.stage_id, new.stage_id, actor);
+  end if;
+  if old.outcome is distinct from new.outcome then
+    insert into public.crm_project_stage_history (project_id, event, from_stage_id, to_stage_id, changed_by)
+      values (new.id, coalesce(new.outcome, 'reopened'), new.stage_id, new.stage_id, actor);
+  end if;
+  return new;
+end;
+$$;
+
+do $$
+begin
+  if not exists (select 1 from pg_trigger where tgname = 'crm_projects_set_closed_at') then
+    create trigger crm_projects_set_closed_at
+      before insert or update on public.crm_projects
+      for each row execute function public.crm_projects_set_closed_at();
+  end if;
+
+  if not exists (select 1 from pg_trigger where tgname = 'crm_projects_log_stage') then
+    create trigger crm_projects_log_stage
+      after insert or update of stage_id, outcome on public.crm_projects
+      for each row execute function public.crm_log_project_stage();
+  end if;
+end $$;
+
+-- Existing projects start their history in their current stage.
+insert into public.crm_project_stage_history (project_id, event, to_stage_id, changed_at)
+select p.id, 'stage', p.stage_id, p.created_at
+from public.crm_projects p
+where p.stage_id is not null
+  and not exists (select 1 from public.crm_project_stage_history h where h.project_id = p.id);
+
+alter table public.crm_project_stage_history enable row level security;
+
+do $$
+begin
+  if not exists (select 1 from pg_policies where policyname='crm_project_stage_history_select_auth') then
+    create policy crm_project_stage_history_select_auth
+      on public.crm_project_stage_history
+      for select to authenticated
+      using (true);
+  end if;
+end $$;
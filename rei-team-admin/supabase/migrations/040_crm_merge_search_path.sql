@@ -0,0 +1,8 @@
+-- Migration 040: pin search_path on the CRM merge RPCs
+-- crm_merge_contacts / crm_merge_companies are security definer (036); like
+-- the other definer functions they must not resolve names through the
+-- caller's search_path.  039 already redefines them with it; this keeps the
+-- setting in place whichever definition is current.
+
+alter function public.crm_merge_contacts(uuid, uuid, jsonb, uuid) set search_path = public;
+alter function public.crm_merge_companies(uuid, uuid, jsonb, uuid) set search_path = public;
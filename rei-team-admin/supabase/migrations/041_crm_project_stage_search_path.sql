@@ -0,0 +1,5 @@
+-- Migration 041: pin search_path on the project stage-history trigger
+-- crm_log_project_stage (038) is security definer; like the other definer
+-- functions it must not resolve names through the caller's search_path.
+
+alter function public.crm_log_project_stage() set search_path = public;
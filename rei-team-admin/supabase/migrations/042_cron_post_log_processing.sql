@@ -0,0 +1,11 @@
+-- Migration 042: 'processing' delivery attempts
+-- Instagram video containers can take minutes to process.  Instead of waiting
+-- inside the cron request, the publisher logs the attempt as 'processing' with
+-- the container id in platform_post_id and finishes it on a later tick.
+
+alter table public.cron_post_log
+  drop constraint if exists cron_post_log_status_check;
+
+alter table public.cron_post_log
+  add constraint cron_post_log_status_check
+    check (status in ('success', 'failed', 'skipped', 'processing'));
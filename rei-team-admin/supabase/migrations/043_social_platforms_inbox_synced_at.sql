@@ -0,0 +1,13 @@
+-- Migration 043: inbox sync cursor in its own column
+-- The inbox sync kept its cursor in social_platforms.metadata and wrote the
+-- whole object back, which could undo what the token refresh cron wrote to
+-- metadata in the meantime.  The cursor now lives in inbox_synced_at, which
+-- only the sync writes.  Server-only: not granted to authenticated.
+
+alter table public.social_platforms
+  add column if not exists inbox_synced_at timestamptz null;
+
+update public.social_platforms
+set inbox_synced_at = (metadata->>'inbox_synced_at')::timestamptz,
+    metadata = metadata - 'inbox_synced_at'
+where metadata ? 'inbox_synced_at';